@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "SigningKey" (
+    "id" SERIAL NOT NULL,
+    "kid" TEXT NOT NULL,
+    "algorithm" TEXT NOT NULL DEFAULT 'RS256',
+    "publicKey" TEXT NOT NULL,
+    "privateKeyEncrypted" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "rotatedAt" TIMESTAMP(3),
+    "retiredAt" TIMESTAMP(3),
+
+    CONSTRAINT "SigningKey_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SigningKey_kid_key" ON "SigningKey"("kid");
+
+-- CreateIndex
+CREATE INDEX "SigningKey_status_idx" ON "SigningKey"("status");
+
+-- CreateIndex
+CREATE INDEX "SigningKey_createdAt_idx" ON "SigningKey"("createdAt");
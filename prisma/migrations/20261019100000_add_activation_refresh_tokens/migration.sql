@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Activation" ADD COLUMN     "accessTokenExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "accessTokenJti" TEXT,
+ADD COLUMN     "refreshTokenExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "refreshTokenHash" TEXT;
+
+-- CreateTable
+CREATE TABLE "RevokedToken" (
+    "id" SERIAL NOT NULL,
+    "jti" TEXT NOT NULL,
+    "activationId" INTEGER,
+    "reason" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RevokedToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Activation_refreshTokenHash_key" ON "Activation"("refreshTokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RevokedToken_jti_key" ON "RevokedToken"("jti");
+
+-- CreateIndex
+CREATE INDEX "RevokedToken_expiresAt_idx" ON "RevokedToken"("expiresAt");
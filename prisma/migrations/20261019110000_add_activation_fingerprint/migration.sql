@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Activation" ADD COLUMN     "fingerprint" JSONB,
+ADD COLUMN     "fingerprintMatch" JSONB;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "DeviceTransfer" (
+    "id" SERIAL NOT NULL,
+    "licenseId" INTEGER NOT NULL,
+    "activationId" INTEGER NOT NULL,
+    "hardwareId" TEXT NOT NULL,
+    "machineName" TEXT,
+    "customerPhone" TEXT,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DeviceTransfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DeviceTransfer_licenseId_createdAt_idx" ON "DeviceTransfer"("licenseId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "DeviceTransfer_createdAt_idx" ON "DeviceTransfer"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "DeviceTransfer" ADD CONSTRAINT "DeviceTransfer_licenseId_fkey" FOREIGN KEY ("licenseId") REFERENCES "License"("id") ON DELETE CASCADE ON UPDATE CASCADE;
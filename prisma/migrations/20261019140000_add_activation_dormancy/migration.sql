@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Activation" ADD COLUMN     "dormantSince" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Activation_isActive_dormantSince_idx" ON "Activation"("isActive", "dormantSince");
@@ -0,0 +1,70 @@
+-- CreateTable
+CREATE TABLE "Product" (
+    "id" SERIAL NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Product_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Edition" (
+    "id" SERIAL NOT NULL,
+    "productId" INTEGER NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "initialPrice" DECIMAL(10,2) NOT NULL,
+    "annualPrice" DECIMAL(10,2) NOT NULL,
+    "pricePerUser" DECIMAL(10,2) NOT NULL,
+    "userLimit" INTEGER NOT NULL DEFAULT 2,
+    "maxActivations" INTEGER,
+    "trialDays" INTEGER NOT NULL DEFAULT 10,
+    "features" JSONB NOT NULL DEFAULT '[]',
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Edition_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "License" ADD COLUMN     "editionId" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Product_code_key" ON "Product"("code");
+
+-- CreateIndex
+CREATE INDEX "Edition_productId_idx" ON "Edition"("productId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Edition_productId_code_key" ON "Edition"("productId", "code");
+
+-- CreateIndex
+CREATE INDEX "License_editionId_idx" ON "License"("editionId");
+
+-- AddForeignKey
+ALTER TABLE "Edition" ADD CONSTRAINT "Edition_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "License" ADD CONSTRAINT "License_editionId_fkey" FOREIGN KEY ("editionId") REFERENCES "Edition"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Seed the catalog with the grocery product and the defaults previously hard-coded in LicenseService
+INSERT INTO "Product" ("code", "name", "description", "updatedAt")
+VALUES ('grocery', 'Grocery POS', 'Point of sale for grocery stores and supermarkets', CURRENT_TIMESTAMP);
+
+INSERT INTO "Edition" ("productId", "code", "name", "initialPrice", "annualPrice", "pricePerUser", "userLimit", "trialDays", "isDefault", "updatedAt")
+SELECT "id", 'basic', 'Basic', 350.00, 50.00, 25.00, 2, 10, true, CURRENT_TIMESTAMP
+FROM "Product" WHERE "code" = 'grocery';
+
+-- Attach existing grocery licenses to the seeded edition
+UPDATE "License" SET "editionId" = (
+    SELECT e."id" FROM "Edition" e
+    JOIN "Product" p ON p."id" = e."productId"
+    WHERE p."code" = 'grocery' AND e."code" = 'basic'
+)
+WHERE "version" = 'grocery';
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "LicenseFeature" (
+    "id" SERIAL NOT NULL,
+    "licenseId" INTEGER NOT NULL,
+    "feature" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "expiresAt" TIMESTAMP(3),
+    "note" TEXT,
+    "updatedBy" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LicenseFeature_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LicenseFeature_licenseId_idx" ON "LicenseFeature"("licenseId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LicenseFeature_licenseId_feature_key" ON "LicenseFeature"("licenseId", "feature");
+
+-- AddForeignKey
+ALTER TABLE "LicenseFeature" ADD CONSTRAINT "LicenseFeature_licenseId_fkey" FOREIGN KEY ("licenseId") REFERENCES "License"("id") ON DELETE CASCADE ON UPDATE CASCADE;
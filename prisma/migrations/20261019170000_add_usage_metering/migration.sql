@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "UsageBatch" (
+    "id" SERIAL NOT NULL,
+    "licenseId" INTEGER NOT NULL,
+    "activationId" INTEGER NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "recordCount" INTEGER NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UsageBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "UsageDaily" (
+    "id" SERIAL NOT NULL,
+    "licenseId" INTEGER NOT NULL,
+    "activationId" INTEGER NOT NULL,
+    "date" DATE NOT NULL,
+    "metric" TEXT NOT NULL,
+    "quantity" BIGINT NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UsageDaily_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UsageBatch_licenseId_idx" ON "UsageBatch"("licenseId");
+
+-- CreateIndex
+CREATE INDEX "UsageBatch_receivedAt_idx" ON "UsageBatch"("receivedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UsageBatch_activationId_batchId_key" ON "UsageBatch"("activationId", "batchId");
+
+-- CreateIndex
+CREATE INDEX "UsageDaily_licenseId_date_idx" ON "UsageDaily"("licenseId", "date");
+
+-- CreateIndex
+CREATE INDEX "UsageDaily_date_metric_idx" ON "UsageDaily"("date", "metric");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UsageDaily_activationId_date_metric_key" ON "UsageDaily"("activationId", "date", "metric");
+
+-- AddForeignKey
+ALTER TABLE "UsageBatch" ADD CONSTRAINT "UsageBatch_licenseId_fkey" FOREIGN KEY ("licenseId") REFERENCES "License"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UsageBatch" ADD CONSTRAINT "UsageBatch_activationId_fkey" FOREIGN KEY ("activationId") REFERENCES "Activation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UsageDaily" ADD CONSTRAINT "UsageDaily_licenseId_fkey" FOREIGN KEY ("licenseId") REFERENCES "License"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UsageDaily" ADD CONSTRAINT "UsageDaily_activationId_fkey" FOREIGN KEY ("activationId") REFERENCES "Activation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
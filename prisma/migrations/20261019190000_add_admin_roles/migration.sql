@@ -0,0 +1,3 @@
+-- AlterTable
+-- Existing admins keep full access as owners
+ALTER TABLE "Admin" ADD COLUMN "role" TEXT NOT NULL DEFAULT 'owner';
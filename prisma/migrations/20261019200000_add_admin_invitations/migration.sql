@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Admin" ADD COLUMN     "mustResetPassword" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "passwordSetupTokenHash" TEXT,
+ADD COLUMN     "passwordSetupExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "invitedBy" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Admin_passwordSetupTokenHash_key" ON "Admin"("passwordSetupTokenHash");
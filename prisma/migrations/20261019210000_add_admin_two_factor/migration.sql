@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "Admin" ADD COLUMN     "twoFactorMethod" TEXT,
+ADD COLUMN     "twoFactorEnabledAt" TIMESTAMP(3),
+ADD COLUMN     "totpSecretEncrypted" TEXT,
+ADD COLUMN     "totpPendingSecretEncrypted" TEXT,
+ADD COLUMN     "totpLastUsedStep" INTEGER;
+
+-- CreateTable
+CREATE TABLE "AdminRecoveryCode" (
+    "id" SERIAL NOT NULL,
+    "adminId" INTEGER NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AdminRecoveryCode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AdminLoginChallenge" (
+    "id" SERIAL NOT NULL,
+    "adminId" INTEGER NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "method" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "consumedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AdminLoginChallenge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AdminRecoveryCode_adminId_idx" ON "AdminRecoveryCode"("adminId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AdminLoginChallenge_tokenHash_key" ON "AdminLoginChallenge"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "AdminLoginChallenge_adminId_idx" ON "AdminLoginChallenge"("adminId");
+
+-- CreateIndex
+CREATE INDEX "AdminLoginChallenge_expiresAt_idx" ON "AdminLoginChallenge"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "AdminRecoveryCode" ADD CONSTRAINT "AdminRecoveryCode_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "Admin"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AdminLoginChallenge" ADD CONSTRAINT "AdminLoginChallenge_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "Admin"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "License" ADD COLUMN     "customerEmail" TEXT,
+ADD COLUMN     "notificationChannels" TEXT[] DEFAULT ARRAY[]::TEXT[];
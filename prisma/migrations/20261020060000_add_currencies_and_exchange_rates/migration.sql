@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "License" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD',
+ALTER COLUMN "initialPrice" SET DATA TYPE DECIMAL(14,2),
+ALTER COLUMN "pricePerUser" SET DATA TYPE DECIMAL(14,2);
+
+-- AlterTable
+ALTER TABLE "Edition" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD',
+ALTER COLUMN "initialPrice" SET DATA TYPE DECIMAL(14,2),
+ALTER COLUMN "annualPrice" SET DATA TYPE DECIMAL(14,2),
+ALTER COLUMN "pricePerUser" SET DATA TYPE DECIMAL(14,2);
+
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD',
+ALTER COLUMN "annualFee" SET DATA TYPE DECIMAL(14,2);
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD',
+ALTER COLUMN "amount" SET DATA TYPE DECIMAL(14,2);
+
+-- AlterTable
+ALTER TABLE "Invoice" ALTER COLUMN "subtotal" SET DATA TYPE DECIMAL(14,2),
+ALTER COLUMN "total" SET DATA TYPE DECIMAL(14,2);
+
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "id" SERIAL NOT NULL,
+    "baseCurrency" TEXT NOT NULL,
+    "quoteCurrency" TEXT NOT NULL,
+    "rate" DECIMAL(18,6) NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "note" TEXT,
+    "createdBy" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExchangeRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Payment_currency_idx" ON "Payment"("currency");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExchangeRate_baseCurrency_quoteCurrency_effectiveFrom_key" ON "ExchangeRate"("baseCurrency", "quoteCurrency", "effectiveFrom");
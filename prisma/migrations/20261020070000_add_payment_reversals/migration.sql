@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "kind" TEXT NOT NULL DEFAULT 'payment',
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'completed',
+ADD COLUMN     "reversesPaymentId" INTEGER,
+ADD COLUMN     "reason" TEXT,
+ADD COLUMN     "additionalUsers" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "sideEffects" JSONB;
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "kind" TEXT NOT NULL DEFAULT 'invoice',
+ADD COLUMN     "creditedInvoiceNumber" TEXT;
+
+-- Backfill the users bought with earlier "user" payments from their invoice
+UPDATE "Payment" p
+SET "additionalUsers" = COALESCE((i."lineItems"->0->>'quantity')::INTEGER, 0)
+FROM "Invoice" i
+WHERE i."paymentId" = p."id" AND p."paymentType" = 'user';
+
+-- CreateIndex
+CREATE INDEX "Payment_reversesPaymentId_idx" ON "Payment"("reversesPaymentId");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_reversesPaymentId_fkey" FOREIGN KEY ("reversesPaymentId") REFERENCES "Payment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
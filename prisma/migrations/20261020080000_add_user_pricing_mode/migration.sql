@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "License" ADD COLUMN     "userPricingMode" TEXT NOT NULL DEFAULT 'full';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "PhoneVerification" ADD COLUMN     "purpose" TEXT NOT NULL DEFAULT 'phone_verification';
+
+-- CreateIndex
+CREATE INDEX "PhoneVerification_phone_purpose_verified_idx" ON "PhoneVerification"("phone", "purpose", "verified");
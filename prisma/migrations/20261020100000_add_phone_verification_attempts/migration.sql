@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PhoneVerification" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0;
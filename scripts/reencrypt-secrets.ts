@@ -0,0 +1,27 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Re-encrypt stored secrets with KEY_ENCRYPTION_SECRET
+ *
+ * Signing private keys, admin TOTP secrets and webhook secrets used to be encrypted with a key derived from
+ * JWT_SECRET. Run once after setting KEY_ENCRYPTION_SECRET (with JWT_SECRET still set to its current value):
+ *
+ *   KEY_ENCRYPTION_SECRET=... npm run secrets:reencrypt
+ *
+ * Values already encrypted with KEY_ENCRYPTION_SECRET are left as they are, so running it again is harmless.
+ **/
+
+import prisma from '../src/config/database';
+import { KeyManagementService } from '../src/services/keyManagement.service';
+
+async function main(): Promise<void> {
+  const count = await KeyManagementService.reencryptSecrets();
+  console.log(`✅ Re-encrypted ${count} secret${count === 1 ? '' : 's'}`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Re-encryption failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
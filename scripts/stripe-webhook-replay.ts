@@ -0,0 +1,73 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Replay a recorded Stripe event against the local server
+ *
+ * Signs a fixture from scripts/fixtures/stripe with STRIPE_WEBHOOK_SECRET (the way Stripe does) and POSTs it to
+ * /api/webhooks/stripe, so checkout payments can be tested without a Stripe account:
+ *
+ *   STRIPE_WEBHOOK_SECRET=whsec_test LICENSE_ID=12 PAYMENT_TYPE=annual npm run stripe:replay
+ *   STRIPE_WEBHOOK_SECRET=whsec_test npm run stripe:replay -- scripts/fixtures/stripe/other-event.json
+ *
+ * LICENSE_ID, PAYMENT_TYPE, ADDITIONAL_USERS and AMOUNT (in cents) override the session in the fixture.
+ * Replaying the same fixture twice must record a single payment; set NEW_PAYMENT_INTENT=1 to record another one.
+ **/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import axios from 'axios';
+import Stripe from 'stripe';
+
+const secret = process.env.STRIPE_WEBHOOK_SECRET;
+const url = process.env.STRIPE_REPLAY_URL || `http://localhost:${process.env.PORT || 3000}/api/webhooks/stripe`;
+const fixturePath = process.argv[2] || path.join(__dirname, 'fixtures', 'stripe', 'checkout.session.completed.json');
+
+if (!secret) {
+  console.error('❌ STRIPE_WEBHOOK_SECRET must be set to the same value as the server');
+  process.exit(1);
+}
+
+const event = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+const session = event.data?.object;
+
+if (session?.object === 'checkout.session') {
+  session.metadata = session.metadata || {};
+  if (process.env.LICENSE_ID) {
+    session.metadata.licenseId = process.env.LICENSE_ID;
+    session.client_reference_id = process.env.LICENSE_ID;
+  }
+  if (process.env.PAYMENT_TYPE) {
+    session.metadata.paymentType = process.env.PAYMENT_TYPE;
+  }
+  if (process.env.ADDITIONAL_USERS) {
+    session.metadata.additionalUsers = process.env.ADDITIONAL_USERS;
+  }
+  if (process.env.AMOUNT) {
+    session.amount_subtotal = parseInt(process.env.AMOUNT, 10);
+    session.amount_total = parseInt(process.env.AMOUNT, 10);
+  }
+  if (process.env.NEW_PAYMENT_INTENT === '1') {
+    const suffix = Date.now().toString(36);
+    event.id = `evt_replay_${suffix}`;
+    session.payment_intent = `pi_replay_${suffix}`;
+  }
+}
+
+const payload = JSON.stringify(event);
+const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret });
+
+axios
+  .post(url, payload, {
+    headers: { 'Content-Type': 'application/json', 'Stripe-Signature': signature },
+    validateStatus: () => true,
+  })
+  .then((response) => {
+    console.log(`📨 ${event.type} (${event.id}) → ${url}`);
+    console.log(`   HTTP ${response.status}`);
+    console.log(JSON.stringify(response.data, null, 2));
+    process.exit(response.status >= 200 && response.status < 300 ? 0 : 1);
+  })
+  .catch((error: unknown) => {
+    console.error('❌ Request failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
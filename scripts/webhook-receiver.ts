@@ -0,0 +1,67 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Local webhook receiver for development
+ *
+ * Logs every event POSTed to it and checks the X-DigitalizePOS-Signature header.
+ * With WEBHOOK_ALLOW_PRIVATE_URLS=true on the server, create an endpoint pointing at http://localhost:4000/webhooks,
+ * then start with the secret it returned:
+ *
+ *   WEBHOOK_SECRET=whsec_... npm run webhook:receiver
+ *
+ * Set WEBHOOK_RECEIVER_FAIL=1 to answer 500 and watch the server retry.
+ **/
+
+import * as http from 'http';
+import { verifyWebhookSignature, WEBHOOK_SIGNATURE_HEADER } from '../src/utils/webhookSignature.util';
+
+const port = parseInt(process.env.WEBHOOK_RECEIVER_PORT || '4000', 10);
+const secret = process.env.WEBHOOK_SECRET;
+const fail = process.env.WEBHOOK_RECEIVER_FAIL === '1';
+
+if (!secret) {
+  console.warn('⚠️  WEBHOOK_SECRET is not set; signatures will not be verified');
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method !== 'POST') {
+    res.writeHead(405).end();
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    const signature = req.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()] as string | undefined;
+    const verified = secret && signature ? verifyWebhookSignature(secret, body, signature) : null;
+
+    console.log(`\n📨 ${new Date().toISOString()} ${req.method} ${req.url}`);
+    console.log(`   Event:     ${req.headers['x-digitalizepos-event']}`);
+    console.log(`   Event ID:  ${req.headers['x-digitalizepos-event-id']}`);
+    console.log(`   Delivery:  ${req.headers['x-digitalizepos-delivery']}`);
+    console.log(`   Signature: ${verified === null ? 'not checked' : verified ? '✅ valid' : '❌ INVALID'}`);
+
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+
+    if (verified === false) {
+      res.writeHead(401, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: 'Invalid signature' }));
+      return;
+    }
+
+    if (fail) {
+      res.writeHead(500, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: 'Simulated failure' }));
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ received: true }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`🪝 Webhook receiver listening on http://localhost:${port}`);
+});
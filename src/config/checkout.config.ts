@@ -0,0 +1,8 @@
+/**
+ * Checkout Configuration
+ * What customers can pay for through Stripe Checkout
+ */
+
+export const CHECKOUT_PAYMENT_TYPES = ['initial', 'annual', 'user'] as const;
+
+export type CheckoutPaymentType = (typeof CHECKOUT_PAYMENT_TYPES)[number];
@@ -15,13 +15,84 @@ export const config = {
   // JWT
   jwtSecret: process.env.JWT_SECRET || '',
   jwtExpiresIn: process.env.JWT_EXPIRES_IN || '7d',
+  // Tokens signed with JWT_SECRET before signing keys existed (no `kid` header) are accepted until this date; unset = rejected
+  legacyTokensAcceptedUntil: process.env.LEGACY_TOKENS_ACCEPTED_UNTIL ? new Date(process.env.LEGACY_TOKENS_ACCEPTED_UNTIL) : null,
+
+  // Encrypts signing private keys, admin TOTP secrets and webhook secrets at rest (kept apart from JWT_SECRET)
+  keyEncryptionSecret: process.env.KEY_ENCRYPTION_SECRET || '',
+
+  // Admin Accounts (invitation / password reset links point to the admin panel)
+  adminPanelUrl: process.env.ADMIN_PANEL_URL || process.env.APP_URL || 'http://localhost:3000',
+  adminPasswordSetupHours: parseInt(process.env.ADMIN_PASSWORD_SETUP_HOURS || '72', 10),
+  // Admin sessions with no request for this long are ended (the token's own expiry still applies)
+  adminSessionIdleMinutes: parseInt(process.env.ADMIN_SESSION_IDLE_MINUTES || '60', 10),
+  // Failed password attempts on one admin username before it is locked, and for how long
+  adminLoginMaxAttempts: parseInt(process.env.ADMIN_LOGIN_MAX_ATTEMPTS || '5', 10),
+  adminLockoutMinutes: parseInt(process.env.ADMIN_LOCKOUT_MINUTES || '15', 10),
+
+  // API keys (per-key requests per minute when the key sets no limit of its own)
+  apiKeyDefaultRateLimit: parseInt(process.env.API_KEY_DEFAULT_RATE_LIMIT || '60', 10),
+
+  // Outbound webhooks
+  webhookTimeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+  webhookMaxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10), // 1 minute doubling to ~2 hours between the last attempts
+  webhookAllowPrivateUrls: process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true', // Endpoints on loopback or private networks (local development only)
+
+  // Outbox (WhatsApp, email and webhook messages dispatched by the background worker)
+  outboxMaxAttempts: parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '8', 10),
+
+  // Stripe Checkout (online payments; the webhook secret comes from the Stripe dashboard or `stripe listen`)
+  stripeSecretKey: process.env.STRIPE_SECRET_KEY || '',
+  stripeWebhookSecret: process.env.STRIPE_WEBHOOK_SECRET || '',
+  // Override the Stripe API endpoint, e.g. STRIPE_API_HOST=localhost STRIPE_API_PORT=12111 STRIPE_API_PROTOCOL=http for stripe-mock
+  stripeApiHost: process.env.STRIPE_API_HOST || '',
+  stripeApiPort: process.env.STRIPE_API_PORT ? parseInt(process.env.STRIPE_API_PORT, 10) : null,
+  stripeApiProtocol: process.env.STRIPE_API_PROTOCOL === 'http' ? 'http' as const : 'https' as const,
+  // Where Stripe sends the customer after checkout ({CHECKOUT_SESSION_ID} is filled in by Stripe)
+  checkoutSuccessUrl: process.env.CHECKOUT_SUCCESS_URL || `${process.env.APP_URL || 'http://localhost:3000'}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
+  checkoutCancelUrl: process.env.CHECKOUT_CANCEL_URL || `${process.env.APP_URL || 'http://localhost:3000'}/checkout/cancel`,
+
+  // Currencies (ISO 4217 codes; amounts in other currencies are converted with the admin-maintained exchange rates)
+  defaultCurrency: (process.env.DEFAULT_CURRENCY || 'USD').toUpperCase(), // Prices of new editions and licenses that name none
+  reportingCurrency: (process.env.REPORTING_CURRENCY || 'USD').toUpperCase(), // Revenue reports and payment totals
+
+  // Invoices (seller details printed on every invoice)
+  invoicePrefix: process.env.INVOICE_PREFIX || 'INV',
+  invoiceCompanyName: process.env.INVOICE_COMPANY_NAME || 'DigitalizePOS',
+  invoiceCompanyAddress: process.env.INVOICE_COMPANY_ADDRESS || '',
+  invoiceCompanyPhone: process.env.INVOICE_COMPANY_PHONE || '',
+  invoiceCompanyEmail: process.env.INVOICE_COMPANY_EMAIL || '',
+  invoiceCompanyTaxId: process.env.INVOICE_COMPANY_TAX_ID || '',
+  // Send the invoice to the customer over WhatsApp when a payment is recorded (admins can override per payment)
+  invoiceWhatsAppEnabled: process.env.INVOICE_WHATSAPP_ENABLED === 'true',
+
+  // Activation Tokens (short-lived access token + rotating refresh token per activation)
+  activationTokenExpiresIn: process.env.ACTIVATION_TOKEN_EXPIRES_IN || '1h',
+  activationRefreshTokenDays: parseInt(process.env.ACTIVATION_REFRESH_TOKEN_DAYS || '90', 10),
 
   // License Settings
   initialLicensePrice: parseFloat(process.env.INITIAL_LICENSE_PRICE || '350'),
   annualSubscriptionPrice: parseFloat(process.env.ANNUAL_SUBSCRIPTION_PRICE || '50'),
   gracePeriodDays: parseInt(process.env.GRACE_PERIOD_DAYS || '0', 10),
   freeTrialDays: parseInt(process.env.FREE_TRIAL_DAYS || '10', 10),
+  // Catalog product used when a license or activation request does not name one
+  defaultProductCode: process.env.DEFAULT_PRODUCT_CODE || 'grocery',
   cacheValidityDays: parseInt(process.env.CACHE_VALIDITY_DAYS || '14', 10),
+  // Device (seat) limit applied to new licenses; unset = unlimited
+  defaultMaxActivations: process.env.DEFAULT_MAX_ACTIVATIONS
+    ? parseInt(process.env.DEFAULT_MAX_ACTIVATIONS, 10)
+    : null,
+  // Self-service device transfers allowed per license per calendar month
+  deviceTransferMonthlyQuota: parseInt(process.env.DEVICE_TRANSFER_MONTHLY_QUOTA || '2', 10),
+  // Matching fingerprint components (of 5) needed to treat an activation request as an already activated machine
+  fingerprintMatchThreshold: parseInt(process.env.FINGERPRINT_MATCH_THRESHOLD || '3', 10),
+  // Usage metering: how many days back a POS may report late usage, and how long batch IDs are kept for deduplication
+  usageBackfillDays: parseInt(process.env.USAGE_BACKFILL_DAYS || '35', 10),
+  usageBatchRetentionDays: parseInt(process.env.USAGE_BATCH_RETENTION_DAYS || '90', 10),
+
+  // License Certificate Signing (Ed25519, PEM encoded - literal "\n" sequences are allowed)
+  licenseSigningPrivateKey: (process.env.LICENSE_SIGNING_PRIVATE_KEY || '').replace(/\\n/g, '\n'),
+  licenseSigningPublicKey: (process.env.LICENSE_SIGNING_PUBLIC_KEY || '').replace(/\\n/g, '\n'),
 
   // WhatsApp Settings
   whatsappEnabled: process.env.WHATSAPP_ENABLED === 'true',
@@ -31,15 +102,43 @@ export const config = {
   // For Twilio integration (example)
   whatsappAccountSid: process.env.WHATSAPP_ACCOUNT_SID || '',
   whatsappAuthToken: process.env.WHATSAPP_AUTH_TOKEN || '',
+
+  // SMS Settings (Twilio; account credentials default to the WhatsApp ones)
+  smsEnabled: process.env.SMS_ENABLED === 'true',
+  smsAccountSid: process.env.SMS_ACCOUNT_SID || process.env.WHATSAPP_ACCOUNT_SID || '',
+  smsAuthToken: process.env.SMS_AUTH_TOKEN || process.env.WHATSAPP_AUTH_TOKEN || '',
+  smsFromNumber: process.env.SMS_FROM_NUMBER || '',
+
+  // Customer Notifications
+  // Channels tried in this order (falling back to the next when one fails), unless a license sets its own
+  notificationChannelOrder: (process.env.NOTIFICATION_CHANNEL_ORDER || 'whatsapp,sms,email')
+    .split(',')
+    .map((channel) => channel.trim())
+    .filter(Boolean),
+  // "live" sends through the providers above; "log" only logs messages (and appends them to NOTIFICATION_LOG_FILE) for development and tests, and is refused in production
+  notificationDriver: process.env.NOTIFICATION_DRIVER || 'live',
+  notificationLogFile: process.env.NOTIFICATION_LOG_FILE || '',
+
+  // Email Settings (SMTP)
+  emailEnabled: process.env.EMAIL_ENABLED === 'true',
+  smtpHost: process.env.SMTP_HOST || '',
+  smtpPort: parseInt(process.env.SMTP_PORT || '587', 10),
+  smtpSecure: process.env.SMTP_SECURE === 'true', // true for port 465, false for STARTTLS
+  smtpUser: process.env.SMTP_USER || '',
+  smtpPassword: process.env.SMTP_PASSWORD || '',
+  emailFrom: process.env.EMAIL_FROM || '',
 };
 
 // Validate required environment variables
-const requiredEnvVars = ['DATABASE_URL', 'JWT_SECRET'];
+const requiredEnvVars = ['DATABASE_URL', 'JWT_SECRET', 'KEY_ENCRYPTION_SECRET'];
 
 if (config.nodeEnv === 'production') {
   const missingVars = requiredEnvVars.filter((varName) => !process.env[varName]);
   if (missingVars.length > 0) {
     throw new Error(`Missing required environment variables: ${missingVars.join(', ')}`);
   }
+  if (config.notificationDriver === 'log') {
+    throw new Error('NOTIFICATION_DRIVER=log is not allowed in production');
+  }
 }
 
@@ -0,0 +1,119 @@
+/**
+ * Permissions Configuration
+ * Admin roles and the permissions each role grants
+ */
+
+export const PERMISSIONS = [
+  'licenses:read',
+  'licenses:write', // Create, edit, revoke, reactivate, user limits, feature grants
+  'licenses:delete', // Permanent deletion
+  'activations:read',
+  'activations:write', // Deactivate devices
+  'subscriptions:read',
+  'subscriptions:write',
+  'payments:read',
+  'payments:write', // Record payments
+  'exchange_rates:read',
+  'exchange_rates:write', // Enter and delete currency exchange rates
+  'products:read',
+  'products:write',
+  'reports:read', // Dashboard statistics, revenue/usage reports and exports
+  'preferences:read',
+  'preferences:write',
+  'signing_keys:manage',
+  'audit:read',
+  'admins:manage', // Admin accounts and role assignment
+  'api_keys:manage', // Machine-to-machine API keys
+  'webhooks:manage', // Outbound webhook endpoints and deliveries
+  'outbox:read', // Queued WhatsApp, email and webhook messages
+  'outbox:manage', // Retry dead-lettered messages
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// Permissions an API key can be scoped to: the resource APIs integrations call
+// (admin accounts, keys, signing keys and preferences stay with human admins)
+export const API_KEY_SCOPES: readonly Permission[] = [
+  'licenses:read',
+  'licenses:write',
+  'licenses:delete',
+  'activations:read',
+  'activations:write',
+  'subscriptions:read',
+  'subscriptions:write',
+  'payments:read',
+  'payments:write',
+  'exchange_rates:read',
+  'exchange_rates:write',
+  'products:read',
+  'products:write',
+  'reports:read',
+  'audit:read',
+];
+
+export const ADMIN_ROLES = ['owner', 'sales', 'support', 'finance', 'read_only'] as const;
+
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+const READ_PERMISSIONS = PERMISSIONS.filter((permission) => permission.endsWith(':read'));
+
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  sales: [
+    'licenses:read',
+    'licenses:write',
+    'activations:read',
+    'subscriptions:read',
+    'subscriptions:write',
+    'payments:read',
+    'exchange_rates:read',
+    'products:read',
+    'reports:read',
+    'preferences:read',
+  ],
+  support: [
+    'licenses:read',
+    'activations:read',
+    'activations:write',
+    'subscriptions:read',
+    'products:read',
+    'preferences:read',
+    'outbox:read',
+  ],
+  finance: [
+    'licenses:read',
+    'activations:read',
+    'subscriptions:read',
+    'subscriptions:write',
+    'payments:read',
+    'payments:write',
+    'exchange_rates:read',
+    'exchange_rates:write',
+    'products:read',
+    'reports:read',
+    'preferences:read',
+    'audit:read',
+  ],
+  read_only: READ_PERMISSIONS,
+};
+
+/**
+ * Check whether a value is a known admin role
+ */
+export function isAdminRole(role: string): role is AdminRole {
+  return (ADMIN_ROLES as readonly string[]).includes(role);
+}
+
+/**
+ * Permissions granted to a role (none for an unknown role)
+ */
+export function getRolePermissions(role: string): Permission[] {
+  return isAdminRole(role) ? [...ROLE_PERMISSIONS[role]] : [];
+}
+
+/**
+ * Check whether a role grants a permission
+ */
+export function roleHasPermission(role: string, permission: Permission): boolean {
+  return isAdminRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
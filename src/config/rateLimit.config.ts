@@ -1,6 +1,7 @@
 import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
 import { Request, Response } from 'express';
 import { logger } from '../utils/logger';
+import { config } from './config';
 import { ResponseUtil } from '../utils/response.util';
 
 /**
@@ -69,6 +70,32 @@ export const activationLimiter = rateLimit({
   skipSuccessfulRequests: false, // Count all requests, even successful ones
 });
 
+/**
+ * Device transfer OTP rate limiter
+ * 10 requests per hour per IP (OTP codes must not be brute-forced)
+ */
+export const deviceTransferLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10, // Limit each IP to 10 OTP requests/attempts per hour
+  message: 'Too many device transfer attempts from this IP. Please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req: Request, res: Response) => {
+    logger.warn('Device transfer rate limit exceeded', {
+      ip: req.ip,
+      path: req.path,
+      method: req.method,
+    });
+
+    ResponseUtil.error(
+      res,
+      'Too many device transfer attempts from this IP. Please try again in an hour.',
+      429
+    );
+  },
+  skipSuccessfulRequests: false,
+});
+
 /**
  * Validation endpoint rate limiter
  * 1000 requests per hour per IP
@@ -105,10 +132,13 @@ export const adminLimiter = rateLimit({
   standardHeaders: true,
   legacyHeaders: false,
   keyGenerator: (req: Request) => {
-    // Use admin ID from JWT token if available, otherwise fall back to IP
+    // Use admin ID from JWT token (or the API key) if available, otherwise fall back to IP
     if (req.admin?.id) {
       return `admin:${req.admin.id}`;
     }
+    if (req.apiKey) {
+      return `api_key:${req.apiKey.id}`;
+    }
     // Use ipKeyGenerator helper to properly handle IPv6 addresses
     return ipKeyGenerator(req.ip || 'unknown');
   },
@@ -132,6 +162,36 @@ export const adminLimiter = rateLimit({
   },
 });
 
+/**
+ * API key rate limiter
+ * Per-key requests per minute (the key's own limit, else API_KEY_DEFAULT_RATE_LIMIT)
+ * Applied by authenticateAdminOrApiKey to requests authenticated with an API key
+ */
+export const apiKeyLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: (req: Request) => req.apiKey?.rateLimitPerMinute ?? config.apiKeyDefaultRateLimit,
+  message: 'Too many requests for this API key, please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req: Request) => `api_key:${req.apiKey?.id}`,
+  handler: (req: Request, res: Response) => {
+    logger.warn('API key rate limit exceeded', {
+      apiKeyId: req.apiKey?.id,
+      keyPrefix: req.apiKey?.keyPrefix,
+      ip: req.ip,
+      path: req.path,
+      method: req.method,
+    });
+
+    ResponseUtil.error(
+      res,
+      'Too many requests for this API key. Please try again in a minute.',
+      429
+    );
+  },
+  skip: (req: Request) => !req.apiKey,
+});
+
 /**
  * Admin login rate limiter
  * 20 login attempts per 15 minutes per IP (to prevent brute force)
@@ -172,6 +232,9 @@ export const licenseGenerationLimiter = rateLimit({
     if (req.admin?.id) {
       return `admin:${req.admin.id}`;
     }
+    if (req.apiKey) {
+      return `api_key:${req.apiKey.id}`;
+    }
     // Use ipKeyGenerator helper to properly handle IPv6 addresses
     return ipKeyGenerator(req.ip || 'unknown');
   },
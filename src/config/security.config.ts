@@ -169,8 +169,8 @@ export function sanitizeObject<T extends Record<string, unknown>>(obj: T): T {
  * Sanitizes request body, query, and params
  */
 export function sanitizeInputMiddleware(req: Request, _res: Response, next: NextFunction): void {
-  // Sanitize request body
-  if (req.body && typeof req.body === 'object') {
+  // Sanitize request body (raw Buffer bodies, e.g. Stripe webhooks, are left untouched)
+  if (req.body && typeof req.body === 'object' && !Buffer.isBuffer(req.body)) {
     req.body = sanitizeObject(req.body);
   }
 
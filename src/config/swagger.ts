@@ -45,10 +45,54 @@ const swaggerDefinition = {
       name: 'Admin - Payments',
       description: 'Admin payment management operations',
     },
+    {
+      name: 'Admin - Exchange Rates',
+      description: 'Currency exchange rates used to convert revenue to the reporting currency',
+    },
     {
       name: 'Admin - Statistics',
       description: 'Admin dashboard statistics and reports',
     },
+    {
+      name: 'Admin - Signing Keys',
+      description: 'Admin token signing key rotation',
+    },
+    {
+      name: 'Admin - Products',
+      description: 'Admin product and edition catalog management',
+    },
+    {
+      name: 'Admin - Users',
+      description: 'Admin account and role management',
+    },
+    {
+      name: 'Admin - Sessions',
+      description: 'Active login sessions of the authenticated admin',
+    },
+    {
+      name: 'Admin - API Keys',
+      description: 'Scoped API keys for machine-to-machine integrations',
+    },
+    {
+      name: 'Admin - Webhooks',
+      description: 'Signed outbound webhooks for license lifecycle events',
+    },
+    {
+      name: 'Admin - Outbox',
+      description: 'Queued WhatsApp, email and webhook messages, with retry of dead-lettered ones',
+    },
+    {
+      name: 'Stripe',
+      description: 'Stripe Checkout payments and the Stripe webhook',
+    },
+    {
+      name: 'Admin - Audit',
+      description: 'Immutable audit log of admin and license mutations',
+    },
+    {
+      name: 'Keys',
+      description: 'Public keys for verifying tokens and certificates',
+    },
     {
       name: 'Health',
       description: 'Health check endpoints',
@@ -66,6 +110,12 @@ const swaggerDefinition = {
         bearerFormat: 'JWT',
         description: 'JWT token obtained from /api/admin/login endpoint',
       },
+      apiKeyAuth: {
+        type: 'apiKey',
+        in: 'header',
+        name: 'X-API-Key',
+        description: 'API key created via /api/admin/api-keys (also accepted as the Bearer token)',
+      },
     },
     schemas: {
       Error: {
@@ -124,6 +174,29 @@ const swaggerDefinition = {
             nullable: true,
             example: '+1234567890',
           },
+          customerEmail: {
+            type: 'string',
+            nullable: true,
+            example: 'owner@example.com',
+          },
+          notificationChannels: {
+            type: 'array',
+            items: { type: 'string', enum: ['whatsapp', 'sms', 'email'] },
+            description: 'Preferred notification channels in fallback order (empty = server default)',
+            example: [],
+          },
+          currency: {
+            type: 'string',
+            enum: ['USD', 'LBP'],
+            description: 'Currency of the license prices and, by default, of its payments',
+            example: 'USD',
+          },
+          userPricingMode: {
+            type: 'string',
+            enum: ['full', 'prorated'],
+            description: 'How users added mid-term are charged: the full price per user, or prorated by the days left in the subscription term',
+            example: 'full',
+          },
           status: {
             type: 'string',
             enum: ['active', 'expired', 'revoked', 'suspended'],
@@ -147,6 +220,17 @@ const swaggerDefinition = {
             type: 'number',
             example: 350.0,
           },
+          version: {
+            type: 'string',
+            example: 'grocery',
+            description: 'Catalog product code',
+          },
+          editionId: {
+            type: 'integer',
+            nullable: true,
+            example: 1,
+            description: 'Catalog edition the license was sold as',
+          },
         },
       },
       LicenseStatus: {
@@ -192,6 +276,11 @@ const swaggerDefinition = {
             type: 'string',
             example: '+1234567890',
           },
+          role: {
+            type: 'string',
+            enum: ['owner', 'sales', 'support', 'finance', 'read_only'],
+            example: 'support',
+          },
         },
       },
       Activation: {
@@ -227,6 +316,48 @@ const swaggerDefinition = {
             type: 'boolean',
             example: true,
           },
+          dormantSince: {
+            type: 'string',
+            format: 'date-time',
+            nullable: true,
+            description: 'When the device was flagged dormant for not validating; cleared on its next validation',
+          },
+          fingerprint: {
+            type: 'object',
+            nullable: true,
+            description: 'Hardware components reported by the POS app',
+            properties: {
+              boardSerial: { type: 'string' },
+              cpuId: { type: 'string' },
+              diskSerials: { type: 'array', items: { type: 'string' } },
+              macAddresses: { type: 'array', items: { type: 'string' } },
+            },
+          },
+          fingerprintMatch: {
+            type: 'object',
+            nullable: true,
+            description: 'How the last activation request was matched to this device',
+            properties: {
+              method: { type: 'string', enum: ['exact', 'fingerprint', 'none'] },
+              matched: { type: 'boolean' },
+              score: { type: 'integer', example: 4 },
+              threshold: { type: 'integer', example: 3 },
+              components: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    component: { type: 'string', enum: ['boardSerial', 'cpuId', 'diskSerials', 'macAddresses', 'machineName'] },
+                    outcome: { type: 'string', enum: ['match', 'mismatch', 'missing'] },
+                  },
+                },
+              },
+              candidateActivationId: { type: 'integer' },
+              previousHardwareId: { type: 'string' },
+              reason: { type: 'string' },
+              decidedAt: { type: 'string', format: 'date-time' },
+            },
+          },
         },
       },
       Subscription: {
@@ -252,6 +383,11 @@ const swaggerDefinition = {
             type: 'number',
             example: 50.0,
           },
+          currency: {
+            type: 'string',
+            enum: ['USD', 'LBP'],
+            example: 'USD',
+          },
           status: {
             type: 'string',
             enum: ['active', 'expired', 'cancelled'],
@@ -279,6 +415,11 @@ const swaggerDefinition = {
             type: 'number',
             example: 350.0,
           },
+          currency: {
+            type: 'string',
+            enum: ['USD', 'LBP'],
+            example: 'USD',
+          },
           paymentDate: {
             type: 'string',
             format: 'date-time',
@@ -287,6 +428,115 @@ const swaggerDefinition = {
             type: 'boolean',
             example: false,
           },
+          kind: {
+            type: 'string',
+            enum: ['payment', 'refund', 'void'],
+            description: 'Refund and void entries have a negative amount and reverse the payment in reversesPaymentId',
+            example: 'payment',
+          },
+          status: {
+            type: 'string',
+            enum: ['completed', 'partially_refunded', 'refunded', 'voided'],
+            example: 'completed',
+          },
+          reversesPaymentId: {
+            type: 'integer',
+            nullable: true,
+          },
+          reason: {
+            type: 'string',
+            nullable: true,
+            description: 'Why the payment was refunded or voided',
+          },
+          additionalUsers: {
+            type: 'integer',
+            description: 'Users a user payment added to the license',
+            example: 0,
+          },
+          stripePaymentIntentId: {
+            type: 'string',
+            nullable: true,
+            description: 'Stripe payment intent, for payments made through Stripe Checkout',
+            example: 'pi_3OqXYZ2eZvKYlo2C1abcdEFG',
+          },
+          invoice: {
+            type: 'object',
+            nullable: true,
+            properties: {
+              id: { type: 'integer', example: 42 },
+              number: { type: 'string', example: 'INV-A-2026-00042' },
+            },
+          },
+        },
+      },
+      UserAdditionQuote: {
+        type: 'object',
+        properties: {
+          licenseId: { type: 'integer' },
+          licenseKey: { type: 'string' },
+          additionalUsers: { type: 'integer', example: 2 },
+          pricingMode: { type: 'string', enum: ['full', 'prorated'] },
+          currency: { type: 'string', example: 'USD' },
+          pricePerUser: { type: 'number', description: 'Full price of a user for a whole term', example: 25.0 },
+          subscription: {
+            type: 'object',
+            nullable: true,
+            description: 'Subscription term the price is prorated against',
+            properties: {
+              id: { type: 'integer' },
+              startDate: { type: 'string', format: 'date-time' },
+              endDate: { type: 'string', format: 'date-time' },
+            },
+          },
+          termDays: { type: 'integer', nullable: true, example: 365 },
+          remainingDays: { type: 'integer', nullable: true, example: 146 },
+          prorated: { type: 'boolean', description: 'True when less than the full price is charged' },
+          unitPrice: { type: 'number', example: 10.0 },
+          amount: { type: 'number', example: 20.0 },
+          chargeable: { type: 'boolean', description: 'Whether adding the users records a payment' },
+          reason: { type: 'string', description: 'Why no payment is recorded', example: 'No initial payment found' },
+          quotedAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      Invoice: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', example: 42 },
+          number: { type: 'string', example: 'INV-A-2026-00042' },
+          kind: { type: 'string', enum: ['invoice', 'credit_note'] },
+          creditedInvoiceNumber: {
+            type: 'string',
+            nullable: true,
+            description: 'Invoice a credit note reverses',
+            example: 'INV-A-2026-00042',
+          },
+          series: { type: 'string', enum: ['initial', 'annual', 'user', 'credit'] },
+          year: { type: 'integer', example: 2026 },
+          sequence: { type: 'integer', example: 42 },
+          paymentId: { type: 'integer' },
+          licenseId: { type: 'integer' },
+          licenseKey: { type: 'string' },
+          customerName: { type: 'string', nullable: true },
+          customerPhone: { type: 'string', nullable: true },
+          customerEmail: { type: 'string', nullable: true },
+          locationName: { type: 'string', nullable: true },
+          locationAddress: { type: 'string', nullable: true },
+          lineItems: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                description: { type: 'string' },
+                quantity: { type: 'integer' },
+                unitPrice: { type: 'number' },
+                amount: { type: 'number' },
+              },
+            },
+          },
+          subtotal: { type: 'number', example: 50.0 },
+          total: { type: 'number', example: 50.0 },
+          currency: { type: 'string', example: 'USD' },
+          issuedAt: { type: 'string', format: 'date-time' },
         },
       },
       Pagination: {
@@ -1,7 +1,10 @@
 import { Request, Response } from 'express';
 import { AdminService, LoginInput } from '../services/admin.service';
+import { AdminTwoFactorService } from '../services/adminTwoFactor.service';
+import { AdminSessionService } from '../services/adminSession.service';
 import { logger } from '../utils/logger';
 import { ResponseUtil } from '../utils/response.util';
+import { ADMIN_ROLES, ROLE_PERMISSIONS, getRolePermissions } from '../config/permissions.config';
 
 /**
  * Admin Controller
@@ -25,11 +28,27 @@ export class AdminController {
       // Authenticate and get token
       const result = await AdminService.login({ username, password });
 
+      if (result.twoFactorRequired) {
+        ResponseUtil.success(
+          res,
+          {
+            twoFactorRequired: true,
+            challengeToken: result.challengeToken,
+            method: result.method,
+            expiresAt: result.expiresAt,
+          },
+          'Two-factor verification required',
+          200
+        );
+        return;
+      }
+
       logger.info('Admin login successful', { username });
 
       ResponseUtil.success(
         res,
         {
+          twoFactorRequired: false,
           token: result.token,
           admin: result.admin,
         },
@@ -39,7 +58,89 @@ export class AdminController {
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Login failed';
       logger.error('Admin login failed', { error: errorMessage, username: req.body.username });
-      const statusCode = errorMessage.includes('Invalid') || errorMessage.includes('inactive') ? 401 : 500;
+      const statusCode = errorMessage.includes('Invalid') || errorMessage.includes('inactive')
+        ? 401
+        : errorMessage.includes('reset required')
+          ? 403
+          : errorMessage.includes('Try again in')
+            ? 429
+            : 500;
+      ResponseUtil.error(res, errorMessage, statusCode);
+    }
+  }
+
+  /**
+   * Complete a two-factor login
+   * POST /api/admin/login/verify
+   */
+  static async verifyTwoFactorLogin(req: Request, res: Response): Promise<void> {
+    try {
+      const { challengeToken, code } = req.body as { challengeToken: string; code: string };
+
+      const result = await AdminService.completeTwoFactorLogin(challengeToken, code);
+
+      ResponseUtil.success(
+        res,
+        {
+          token: result.token,
+          admin: result.admin,
+          usedRecoveryCode: result.usedRecoveryCode,
+        },
+        'Login successful',
+        200
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Two-factor verification failed';
+      logger.error('Admin two-factor verification failed', { error: errorMessage });
+      const statusCode = errorMessage.includes('Invalid') || errorMessage.includes('inactive')
+        ? 401
+        : errorMessage.includes('Too many') || errorMessage.includes('Try again in')
+          ? 429
+          : 500;
+      ResponseUtil.error(res, errorMessage, statusCode);
+    }
+  }
+
+  /**
+   * Resend the WhatsApp code of a pending two-factor login
+   * POST /api/admin/login/resend
+   */
+  static async resendTwoFactorCode(req: Request, res: Response): Promise<void> {
+    try {
+      const { challengeToken } = req.body as { challengeToken: string };
+
+      const result = await AdminTwoFactorService.resendLoginCode(challengeToken);
+
+      ResponseUtil.success(res, result, 'Verification code sent', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to resend verification code';
+      logger.error('Error resending admin two-factor code', { error: errorMessage });
+      const statusCode = errorMessage.includes('Invalid')
+        ? 401
+        : errorMessage.includes('only be resent')
+          ? 400
+          : 500;
+      ResponseUtil.error(res, errorMessage, statusCode);
+    }
+  }
+
+  /**
+   * Set a password through an invitation or password reset link
+   * POST /api/admin/password/setup
+   */
+  static async completePasswordSetup(req: Request, res: Response): Promise<void> {
+    try {
+      const { token, newPassword } = req.body as { token: string; newPassword: string };
+
+      const admin = await AdminService.completePasswordSetup(token, newPassword);
+
+      logger.info('Admin completed password setup', { adminId: admin.id, username: admin.username });
+
+      ResponseUtil.success(res, { admin }, 'Password set successfully. You can now log in', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to set password';
+      logger.error('Error completing admin password setup', { error: errorMessage });
+      const statusCode = errorMessage.includes('Invalid or expired') ? 400 : 500;
       ResponseUtil.error(res, errorMessage, statusCode);
     }
   }
@@ -69,6 +170,8 @@ export class AdminController {
           id: admin.id,
           username: admin.username,
           phone: admin.phone,
+          role: admin.role,
+          permissions: getRolePermissions(admin.role),
           isActive: admin.isActive,
           lastLogin: admin.lastLogin,
         },
@@ -94,6 +197,11 @@ export class AdminController {
         return;
       }
 
+      // Ends the server-side session, so the token stops working right away
+      if (req.admin.sessionId) {
+        await AdminSessionService.revokeSession(req.admin.id, req.admin.sessionId, 'logout');
+      }
+
       logger.info('Admin logout successful', {
         adminId: req.admin.id,
         username: req.admin.username,
@@ -192,7 +300,8 @@ export class AdminController {
         username: req.admin.username,
       });
 
-      ResponseUtil.success(res, null, 'Password changed successfully', 200);
+      // Every session, including this one, was revoked with the old password
+      ResponseUtil.success(res, null, 'Password changed successfully. Please log in again', 200);
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to change password';
       logger.error('Error changing admin password', {
@@ -203,5 +312,18 @@ export class AdminController {
       ResponseUtil.error(res, errorMessage, statusCode);
     }
   }
-}
 
+  /**
+   * List admin roles and the permissions each grants
+   * GET /api/admin/roles
+   * Requires authentication
+   */
+  static async getRoles(_req: Request, res: Response): Promise<void> {
+    const roles = ADMIN_ROLES.map((role) => ({
+      role,
+      permissions: ROLE_PERMISSIONS[role],
+    }));
+
+    ResponseUtil.success(res, { roles }, 'Roles retrieved successfully', 200);
+  }
+}
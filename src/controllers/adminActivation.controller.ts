@@ -161,6 +161,38 @@ export class AdminActivationController {
     }
   }
 
+  /**
+   * Get dormant activations grouped per license
+   * GET /api/admin/activations/dormant
+   */
+  static async getDormantReport(req: Request, res: Response): Promise<void> {
+    try {
+      const licenseId = req.query.licenseId ? parseInt(req.query.licenseId as string) : undefined;
+
+      if (licenseId !== undefined && isNaN(licenseId)) {
+        ResponseUtil.error(res, 'Invalid license ID', 400);
+        return;
+      }
+
+      const report = await ActivationService.getDormantActivationReport(licenseId);
+
+      logger.info('Admin retrieved dormant activations report', {
+        adminId: req.admin?.id,
+        licenseId,
+        totalDormant: report.totalDormant,
+      });
+
+      ResponseUtil.success(res, report, 'Dormant activations retrieved successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve dormant activations';
+      logger.error('Error retrieving dormant activations', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+      });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
   /**
    * Deactivate an activation (soft delete - set isActive to false)
    * DELETE /api/admin/activations/:id
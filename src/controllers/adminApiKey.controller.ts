@@ -0,0 +1,116 @@
+import { Request, Response } from 'express';
+import { ApiKeyService } from '../services/apiKey.service';
+import { roleHasPermission } from '../config/permissions.config';
+import { logger } from '../utils/logger';
+import { ResponseUtil } from '../utils/response.util';
+
+/**
+ * Admin API Key Controller
+ * Handles HTTP requests for managing machine-to-machine API keys
+ */
+export class AdminApiKeyController {
+  /**
+   * List API keys
+   * GET /api/admin/api-keys
+   */
+  static async listKeys(req: Request, res: Response): Promise<void> {
+    try {
+      const includeRevoked = req.query.includeRevoked === 'true';
+      const apiKeys = await ApiKeyService.listKeys(includeRevoked);
+
+      ResponseUtil.success(res, { apiKeys }, 'API keys retrieved successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve API keys';
+      logger.error('Error retrieving API keys', { error: errorMessage, adminId: req.admin?.id });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
+  /**
+   * Create an API key (the full key is only returned here)
+   * POST /api/admin/api-keys
+   */
+  static async createKey(req: Request, res: Response): Promise<void> {
+    try {
+      const admin = req.admin;
+      if (!admin) {
+        ResponseUtil.unauthorized(res, 'Unauthorized');
+        return;
+      }
+
+      const { name, scopes, rateLimitPerMinute, expiresAt } = req.body as {
+        name: string;
+        scopes: string[];
+        rateLimitPerMinute?: number;
+        expiresAt?: string;
+      };
+
+      // An admin cannot hand out more access than their own role has
+      const notGranted = scopes.filter(
+        (scope) => ApiKeyService.isValidScope(scope) && !roleHasPermission(admin.role, scope)
+      );
+      if (notGranted.length > 0) {
+        ResponseUtil.forbidden(res, `Your role (${admin.role}) cannot grant: ${notGranted.join(', ')}`);
+        return;
+      }
+
+      const { apiKey, key } = await ApiKeyService.createKey(
+        {
+          name,
+          scopes,
+          rateLimitPerMinute: rateLimitPerMinute ?? null,
+          expiresAt: expiresAt ? new Date(expiresAt) : null,
+        },
+        admin.id
+      );
+
+      ResponseUtil.success(
+        res,
+        { apiKey, key },
+        'API key created successfully. Store the key now; it will not be shown again',
+        201
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to create API key';
+      logger.error('Error creating API key', { error: errorMessage, adminId: req.admin?.id });
+      const statusCode = errorMessage.includes('Invalid scope') ? 400 : 500;
+      ResponseUtil.error(res, errorMessage, statusCode);
+    }
+  }
+
+  /**
+   * Revoke an API key
+   * DELETE /api/admin/api-keys/:id
+   */
+  static async revokeKey(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        ResponseUtil.unauthorized(res, 'Unauthorized');
+        return;
+      }
+
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        ResponseUtil.error(res, 'Invalid API key ID', 400);
+        return;
+      }
+
+      const apiKey = await ApiKeyService.revokeKey(id, req.admin.id);
+
+      ResponseUtil.success(res, apiKey, 'API key revoked successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to revoke API key';
+      logger.error('Error revoking API key', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        apiKeyId: req.params.id,
+      });
+      const statusCode = errorMessage.includes('not found')
+        ? 404
+        : errorMessage.includes('already revoked')
+          ? 400
+          : 500;
+      ResponseUtil.error(res, errorMessage, statusCode);
+    }
+  }
+}
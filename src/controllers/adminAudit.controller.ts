@@ -0,0 +1,157 @@
+import { Request, Response } from 'express';
+import { AuditService, AuditEventFilters } from '../services/audit.service';
+import { logger } from '../utils/logger';
+import { ResponseUtil } from '../utils/response.util';
+import { auditEventsToCSV } from '../utils/csv.util';
+
+/**
+ * Admin Audit Controller
+ * Handles HTTP requests for the audit log
+ */
+export class AdminAuditController {
+  /**
+   * Parse audit event filters from the query string
+   * @returns Filters, or an error message when a date is invalid
+   */
+  private static parseFilters(req: Request): { filters?: AuditEventFilters; error?: string } {
+    const startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
+    const endDate = req.query.endDate ? new Date(req.query.endDate as string) : undefined;
+
+    if (startDate && isNaN(startDate.getTime())) {
+      return { error: 'Invalid start date format' };
+    }
+
+    if (endDate && isNaN(endDate.getTime())) {
+      return { error: 'Invalid end date format' };
+    }
+
+    return {
+      filters: {
+        actorType: req.query.actorType as string | undefined,
+        actorId: req.query.actorId as string | undefined,
+        action: req.query.action as string | undefined,
+        entityType: req.query.entityType as string | undefined,
+        entityId: req.query.entityId as string | undefined,
+        requestId: req.query.requestId as string | undefined,
+        startDate,
+        endDate,
+      },
+    };
+  }
+
+  /**
+   * Get paginated audit events with filtering
+   * GET /api/admin/audit
+   */
+  static async getAuditEvents(req: Request, res: Response): Promise<void> {
+    try {
+      const { filters, error } = AdminAuditController.parseFilters(req);
+      if (!filters) {
+        ResponseUtil.error(res, error || 'Invalid filters', 400);
+        return;
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const pageSize = parseInt(req.query.pageSize as string) || 20;
+      const sortOrder = (req.query.sortOrder as 'asc' | 'desc') || 'desc';
+
+      const result = await AuditService.getAuditEventsPaginated({
+        ...filters,
+        page,
+        pageSize,
+        sortOrder,
+      });
+
+      logger.info('Admin retrieved audit events', {
+        adminId: req.admin?.id,
+        page,
+        pageSize,
+        totalItems: result.pagination.totalItems,
+      });
+
+      ResponseUtil.success(
+        res,
+        {
+          events: result.data,
+          pagination: result.pagination,
+        },
+        'Audit events retrieved successfully',
+        200
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve audit events';
+      logger.error('Error retrieving audit events', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+      });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
+  /**
+   * Export audit events as CSV
+   * GET /api/admin/audit/export
+   */
+  static async exportAuditEvents(req: Request, res: Response): Promise<void> {
+    try {
+      const { filters, error } = AdminAuditController.parseFilters(req);
+      if (!filters) {
+        ResponseUtil.error(res, error || 'Invalid filters', 400);
+        return;
+      }
+
+      const events = await AuditService.getAuditEventsForExport(filters);
+      const csv = auditEventsToCSV(events);
+      const filename = `audit_export_${new Date().toISOString().split('T')[0]}.csv`;
+
+      logger.info('Admin exported audit events as CSV', {
+        adminId: req.admin?.id,
+        count: events.length,
+        filename,
+      });
+
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.status(200).send(csv);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to export audit events';
+      logger.error('Error exporting audit events', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+      });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
+  /**
+   * Verify the integrity of the audit hash chain
+   * GET /api/admin/audit/verify
+   */
+  static async verifyChain(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await AuditService.verifyChain();
+
+      if (!result.valid) {
+        logger.warn('Audit chain verification failed', {
+          adminId: req.admin?.id,
+          firstInvalidId: result.firstInvalidId,
+          reason: result.reason,
+        });
+      }
+
+      ResponseUtil.success(
+        res,
+        result,
+        result.valid ? 'Audit chain is intact' : 'Audit chain verification failed',
+        200
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to verify audit chain';
+      logger.error('Error verifying audit chain', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+      });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+}
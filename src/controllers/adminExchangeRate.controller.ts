@@ -0,0 +1,148 @@
+import { Request, Response } from 'express';
+import { ExchangeRateService } from '../services/exchangeRate.service';
+import { logger } from '../utils/logger';
+import { ResponseUtil } from '../utils/response.util';
+
+/**
+ * Admin Exchange Rate Controller
+ * Handles HTTP requests for currency exchange rate management
+ */
+export class AdminExchangeRateController {
+  /**
+   * List exchange rates
+   * GET /api/admin/exchange-rates
+   */
+  static async listRates(req: Request, res: Response): Promise<void> {
+    try {
+      const rates = await ExchangeRateService.listRates({
+        baseCurrency: req.query.baseCurrency as string | undefined,
+        quoteCurrency: req.query.quoteCurrency as string | undefined,
+        at: req.query.at ? new Date(req.query.at as string) : undefined,
+      });
+
+      ResponseUtil.success(res, { rates }, 'Exchange rates retrieved successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve exchange rates';
+      logger.error('Error retrieving exchange rates', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+      });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
+  /**
+   * Add an exchange rate
+   * POST /api/admin/exchange-rates
+   */
+  static async createRate(req: Request, res: Response): Promise<void> {
+    try {
+      const { baseCurrency, quoteCurrency, rate, effectiveFrom, note } = req.body;
+
+      const exchangeRate = await ExchangeRateService.createRate(
+        { baseCurrency, quoteCurrency, rate, effectiveFrom, note },
+        req.admin?.id
+      );
+
+      logger.info('Admin created exchange rate', {
+        adminId: req.admin?.id,
+        exchangeRateId: exchangeRate.id,
+      });
+
+      ResponseUtil.success(res, exchangeRate, 'Exchange rate created successfully', 201);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to create exchange rate';
+      logger.error('Error creating exchange rate', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        body: req.body,
+      });
+
+      let statusCode = 500;
+      if (errorMessage.includes('already exists')) {
+        statusCode = 409;
+      } else if (
+        errorMessage.includes('Unsupported currency') ||
+        errorMessage.includes('must be different') ||
+        errorMessage.includes('greater than 0')
+      ) {
+        statusCode = 400;
+      }
+
+      ResponseUtil.error(res, errorMessage, statusCode);
+    }
+  }
+
+  /**
+   * Delete an exchange rate
+   * DELETE /api/admin/exchange-rates/:id
+   */
+  static async deleteRate(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        ResponseUtil.error(res, 'Invalid exchange rate ID', 400);
+        return;
+      }
+
+      await ExchangeRateService.deleteRate(id);
+
+      logger.info('Admin deleted exchange rate', {
+        adminId: req.admin?.id,
+        exchangeRateId: id,
+      });
+
+      ResponseUtil.success(res, null, 'Exchange rate deleted successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete exchange rate';
+      logger.error('Error deleting exchange rate', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        exchangeRateId: req.params.id,
+      });
+
+      if (errorMessage.includes('not found')) {
+        ResponseUtil.notFound(res, errorMessage);
+        return;
+      }
+
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
+  /**
+   * Convert an amount at the rate in effect on a date
+   * GET /api/admin/exchange-rates/convert
+   */
+  static async convert(req: Request, res: Response): Promise<void> {
+    try {
+      const amount = parseFloat(req.query.amount as string);
+      const at = req.query.date ? new Date(req.query.date as string) : new Date();
+
+      const conversion = await ExchangeRateService.convert(
+        amount,
+        req.query.from as string,
+        req.query.to as string,
+        at
+      );
+
+      ResponseUtil.success(res, conversion, 'Amount converted successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to convert amount';
+      logger.error('Error converting amount', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        query: req.query,
+      });
+
+      let statusCode = 500;
+      if (errorMessage.includes('No exchange rate')) {
+        statusCode = 404;
+      } else if (errorMessage.includes('Unsupported currency')) {
+        statusCode = 400;
+      }
+
+      ResponseUtil.error(res, errorMessage, statusCode);
+    }
+  }
+}
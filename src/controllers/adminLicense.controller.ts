@@ -1,7 +1,11 @@
 import { Request, Response } from 'express';
 import { LicenseService, CreateLicenseInput, UpdateLicenseInput } from '../services/license.service';
 import { PaymentService } from '../services/payment.service';
+import { ProrationService } from '../services/proration.service';
 import { ActivationService } from '../services/activation.service';
+import { DeviceTransferService } from '../services/deviceTransfer.service';
+import { EntitlementService } from '../services/entitlement.service';
+import { UsageService } from '../services/usage.service';
 import { logger } from '../utils/logger';
 import { ResponseUtil } from '../utils/response.util';
 import prisma from '../config/database';
@@ -118,12 +122,18 @@ export class AdminLicenseController {
         pricePerUser: req.body.pricePerUser !== undefined && req.body.pricePerUser !== null
           ? parseFloat(String(req.body.pricePerUser))
           : undefined,
+        currency: req.body.currency,
+        userPricingMode: req.body.userPricingMode,
         locationName: req.body.locationName,
         locationAddress: req.body.locationAddress,
         isFreeTrial: req.body.isFreeTrial === true || req.body.isFreeTrial === 'true',
         startDate: req.body.startDate ? new Date(req.body.startDate) : undefined,
         endDate: req.body.endDate ? new Date(req.body.endDate) : undefined,
-        version: req.body.version || 'grocery',
+        version: req.body.version,
+        edition: req.body.edition,
+        maxActivations: req.body.maxActivations !== undefined
+          ? (req.body.maxActivations === null ? null : parseInt(String(req.body.maxActivations), 10))
+          : undefined,
       };
 
       // Phone verification is no longer required before creating a license.
@@ -144,8 +154,8 @@ export class AdminLicenseController {
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to create license';
       logger.error('Error creating license', { error: errorMessage, adminId: req.admin?.id });
-      // Return 400 for validation errors (duplicate license), 500 for other errors
-      const statusCode = errorMessage.includes('already exists') ? 400 : 500;
+      // Return 400 for validation errors (duplicate license, unknown product/edition), 500 for other errors
+      const statusCode = errorMessage.includes('already exists') || errorMessage.includes('catalog') ? 400 : 500;
       ResponseUtil.error(res, errorMessage, statusCode);
     }
   }
@@ -184,6 +194,8 @@ export class AdminLicenseController {
         pricePerUser: req.body.pricePerUser !== undefined && req.body.pricePerUser !== null
           ? parseFloat(String(req.body.pricePerUser))
           : undefined,
+        currency: req.body.currency,
+        userPricingMode: req.body.userPricingMode,
         isFreeTrial: req.body.isFreeTrial !== undefined
           ? (req.body.isFreeTrial === true || req.body.isFreeTrial === 'true')
           : undefined,
@@ -288,7 +300,7 @@ export class AdminLicenseController {
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to delete license';
       logger.error('Error deleting license', { error: errorMessage, adminId: req.admin?.id, licenseId: req.params.id });
-      ResponseUtil.error(res, errorMessage, 500);
+      ResponseUtil.error(res, errorMessage, errorMessage.includes('cannot be deleted') ? 409 : 500);
     }
   }
 
@@ -317,58 +329,54 @@ export class AdminLicenseController {
         return;
       }
 
-      // Check if license has an initial payment (required for user payments)
-      const hasInitialPayment = existingLicense.payments && existingLicense.payments.length > 0 && 
-        existingLicense.payments.some(p => !p.isAnnualSubscription);
+      // Price the users (full or prorated, as quoted by the preview); only charged once the initial payment is made
+      const quote = await ProrationService.quoteUserAddition(id, additionalUsers);
 
       let updatedLicense;
       let paymentCreated = false;
 
       // Create payment if initial payment exists and pricePerUser is configured
-      if (hasInitialPayment && existingLicense.pricePerUser) {
+      if (quote.chargeable) {
         try {
-          const pricePerUser = Number(existingLicense.pricePerUser);
-          const totalAmount = pricePerUser * additionalUsers;
+          // Create payment - payment service will increment userLimit when additionalUsers is provided
+          const paymentInput = {
+            licenseId: id,
+            amount: quote.amount,
+            paymentDate: quote.quotedAt,
+            isAnnualSubscription: false,
+            paymentType: 'user' as const,
+            additionalUsers: additionalUsers,
+            prorated: ProrationService.paymentProration(quote),
+          };
+          
+          logger.info('Creating payment from increaseUserLimit', {
+            adminId: req.admin?.id,
+            licenseId: id,
+            paymentType: paymentInput.paymentType,
+            additionalUsers: paymentInput.additionalUsers,
+            amount: paymentInput.amount,
+            pricingMode: quote.pricingMode,
+          });
           
-          if (pricePerUser > 0) {
-            // Create payment - payment service will increment userLimit when additionalUsers is provided
-            const paymentInput = {
-              licenseId: id,
-              amount: totalAmount,
-              paymentDate: new Date(),
-              isAnnualSubscription: false,
-              paymentType: 'user' as const,
-              additionalUsers: additionalUsers,
-            };
-            
-            logger.info('Creating payment from increaseUserLimit', {
-              adminId: req.admin?.id,
-              licenseId: id,
-              paymentType: paymentInput.paymentType,
-              additionalUsers: paymentInput.additionalUsers,
-              amount: paymentInput.amount,
-            });
-            
-            const payment = await PaymentService.createPayment(paymentInput);
-
-            // Get updated license after payment creation
-            const licenseAfterPayment = await LicenseService.getLicenseById(id);
-            if (licenseAfterPayment) {
-              updatedLicense = licenseAfterPayment;
-            }
-            paymentCreated = true;
-
-            logger.info('Admin increased user limit with payment', {
-              adminId: req.admin?.id,
-              licenseId: id,
-              licenseKey: existingLicense.licenseKey,
-              previousLimit: existingLicense.userLimit,
-              newLimit: licenseAfterPayment?.userLimit || existingLicense.userLimit + additionalUsers,
-              additionalUsers,
-              paymentId: payment.id,
-              amount: totalAmount,
-            });
+          const payment = await PaymentService.createPayment(paymentInput);
+
+          // Get updated license after payment creation
+          const licenseAfterPayment = await LicenseService.getLicenseById(id);
+          if (licenseAfterPayment) {
+            updatedLicense = licenseAfterPayment;
           }
+          paymentCreated = true;
+
+          logger.info('Admin increased user limit with payment', {
+            adminId: req.admin?.id,
+            licenseId: id,
+            licenseKey: existingLicense.licenseKey,
+            previousLimit: existingLicense.userLimit,
+            newLimit: licenseAfterPayment?.userLimit || existingLicense.userLimit + additionalUsers,
+            additionalUsers,
+            paymentId: payment.id,
+            amount: quote.amount,
+          });
         } catch (paymentError: unknown) {
           const paymentErrorMessage = paymentError instanceof Error ? paymentError.message : 'Unknown error';
           logger.warn('Failed to create payment when increasing user limit', {
@@ -399,7 +407,7 @@ export class AdminLicenseController {
           previousLimit: existingLicense.userLimit,
           newLimit: updatedLicense.userLimit,
           additionalUsers,
-          reason: !hasInitialPayment ? 'No initial payment found' : 'No price per user configured',
+          reason: quote.reason ?? 'Payment creation failed',
         });
       }
 
@@ -421,6 +429,7 @@ export class AdminLicenseController {
           userLimit: updatedLicense.userLimit,
           previousLimit: existingLicense.userLimit,
           paymentCreated,
+          quote,
         },
         paymentCreated 
           ? `User limit increased by ${additionalUsers} and payment created. New limit: ${updatedLicense.userLimit}`
@@ -438,6 +447,374 @@ export class AdminLicenseController {
     }
   }
 
+  /**
+   * Preview the price of increasing the user limit, without changing anything
+   * GET /api/admin/licenses/:id/user-limit/preview
+   */
+  static async previewUserLimit(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        ResponseUtil.error(res, 'Invalid license ID', 400);
+        return;
+      }
+
+      const additionalUsers = parseInt(req.query.additionalUsers as string);
+      const quote = await ProrationService.quoteUserAddition(id, additionalUsers);
+
+      ResponseUtil.success(res, quote, 'User limit price quoted successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to quote user limit increase';
+      logger.error('Error quoting user limit increase', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        licenseId: req.params.id,
+      });
+
+      if (errorMessage.includes('not found')) {
+        ResponseUtil.notFound(res, 'License not found');
+        return;
+      }
+
+      const statusCode = errorMessage.includes('must be a positive integer') ? 400 : 500;
+      ResponseUtil.error(res, errorMessage, statusCode);
+    }
+  }
+
+  /**
+   * Set device (seat) limit for a license
+   * PATCH /api/admin/licenses/:id/max-activations
+   */
+  static async updateMaxActivations(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        ResponseUtil.error(res, 'Invalid license ID', 400);
+        return;
+      }
+
+      const { maxActivations } = req.body;
+      if (maxActivations !== null && (typeof maxActivations !== 'number' || maxActivations < 1)) {
+        ResponseUtil.error(res, 'maxActivations must be a positive number or null', 400);
+        return;
+      }
+
+      const result = await LicenseService.updateMaxActivations(id, maxActivations);
+
+      logger.info('Admin updated device limit', {
+        adminId: req.admin?.id,
+        licenseId: id,
+        licenseKey: result.licenseKey,
+        previousMaxActivations: result.previousMaxActivations,
+        maxActivations: result.maxActivations,
+        activeActivations: result.activeActivations,
+      });
+
+      ResponseUtil.success(
+        res,
+        result,
+        result.maxActivations === null
+          ? 'Device limit removed'
+          : `Device limit set to ${result.maxActivations}`,
+        200
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update device limit';
+      logger.error('Error updating device limit', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        licenseId: req.params.id,
+      });
+      const statusCode = errorMessage.includes('not found') ? 404 : 500;
+      ResponseUtil.error(res, statusCode === 404 ? 'License not found' : errorMessage, statusCode);
+    }
+  }
+
+  /**
+   * Get the notification preferences of a license's customer
+   * GET /api/admin/licenses/:id/notification-preferences
+   */
+  static async getNotificationPreferences(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        ResponseUtil.error(res, 'Invalid license ID', 400);
+        return;
+      }
+
+      const result = await LicenseService.getNotificationPreferences(id);
+
+      ResponseUtil.success(res, result, 'Notification preferences retrieved successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve notification preferences';
+      logger.error('Error retrieving notification preferences', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        licenseId: req.params.id,
+      });
+      const statusCode = errorMessage.includes('not found') ? 404 : 500;
+      ResponseUtil.error(res, statusCode === 404 ? 'License not found' : errorMessage, statusCode);
+    }
+  }
+
+  /**
+   * Set the customer email and preferred notification channels of a license
+   * PUT /api/admin/licenses/:id/notification-preferences
+   */
+  static async updateNotificationPreferences(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        ResponseUtil.error(res, 'Invalid license ID', 400);
+        return;
+      }
+
+      const { customerEmail, channels } = req.body as { customerEmail?: string | null; channels?: string[] };
+      if (customerEmail === undefined && channels === undefined) {
+        ResponseUtil.error(res, 'At least one field (customerEmail or channels) must be provided', 400);
+        return;
+      }
+
+      const result = await LicenseService.updateNotificationPreferences(id, { customerEmail, channels });
+
+      logger.info('Admin updated notification preferences', {
+        adminId: req.admin?.id,
+        licenseId: id,
+        channels: result.channels,
+      });
+
+      ResponseUtil.success(res, result, 'Notification preferences updated successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update notification preferences';
+      logger.error('Error updating notification preferences', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        licenseId: req.params.id,
+      });
+      const statusCode = errorMessage.includes('not found')
+        ? 404
+        : errorMessage.includes('Invalid notification channel')
+          ? 400
+          : 500;
+      ResponseUtil.error(res, statusCode === 404 ? 'License not found' : errorMessage, statusCode);
+    }
+  }
+
+  /**
+   * Send a test notification to a license's customer
+   * POST /api/admin/licenses/:id/notification-preferences/test
+   */
+  static async sendTestNotification(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        ResponseUtil.error(res, 'Invalid license ID', 400);
+        return;
+      }
+
+      const result = await LicenseService.sendTestNotification(id);
+
+      logger.info('Admin sent test notification', {
+        adminId: req.admin?.id,
+        licenseId: id,
+        success: result.success,
+        channel: result.channel,
+      });
+
+      ResponseUtil.success(
+        res,
+        result,
+        result.success
+          ? `Test notification sent via ${result.channel}`
+          : 'Test notification could not be sent on any channel',
+        200
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to send test notification';
+      logger.error('Error sending test notification', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        licenseId: req.params.id,
+      });
+      const statusCode = errorMessage.includes('not found')
+        ? 404
+        : errorMessage.includes('no verified phone number or email')
+          ? 400
+          : 500;
+      ResponseUtil.error(res, statusCode === 404 ? 'License not found' : errorMessage, statusCode);
+    }
+  }
+
+  /**
+   * Get self-service device transfer history for a license
+   * GET /api/admin/licenses/:id/device-transfers
+   */
+  static async getDeviceTransfers(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        ResponseUtil.error(res, 'Invalid license ID', 400);
+        return;
+      }
+
+      const result = await DeviceTransferService.getTransfersForLicense(id);
+
+      ResponseUtil.success(res, result, 'Device transfers retrieved successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve device transfers';
+      logger.error('Error retrieving device transfers', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        licenseId: req.params.id,
+      });
+      const statusCode = errorMessage.includes('not found') ? 404 : 500;
+      ResponseUtil.error(res, statusCode === 404 ? 'License not found' : errorMessage, statusCode);
+    }
+  }
+
+  /**
+   * Get daily metered usage of a license per device
+   * GET /api/admin/licenses/:id/usage
+   */
+  static async getUsage(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        ResponseUtil.error(res, 'Invalid license ID', 400);
+        return;
+      }
+
+      const startDate = req.query.startDate ? UsageService.parseDay(req.query.startDate as string) : undefined;
+      const endDate = req.query.endDate ? UsageService.parseDay(req.query.endDate as string) : undefined;
+
+      const usage = await UsageService.getLicenseUsage(id, startDate, endDate);
+
+      ResponseUtil.success(res, usage, 'License usage retrieved successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve license usage';
+      logger.error('Error retrieving license usage', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        licenseId: req.params.id,
+      });
+      let statusCode = 500;
+      if (errorMessage.includes('not found')) {
+        statusCode = 404;
+      } else if (errorMessage.includes('must be before')) {
+        statusCode = 400;
+      }
+      ResponseUtil.error(res, statusCode === 404 ? 'License not found' : errorMessage, statusCode);
+    }
+  }
+
+  /**
+   * Get feature entitlements of a license
+   * GET /api/admin/licenses/:id/features
+   */
+  static async getFeatures(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        ResponseUtil.error(res, 'Invalid license ID', 400);
+        return;
+      }
+
+      const result = await EntitlementService.getLicenseFeatures(id);
+
+      ResponseUtil.success(res, result, 'License features retrieved successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve license features';
+      logger.error('Error retrieving license features', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        licenseId: req.params.id,
+      });
+      const statusCode = errorMessage.includes('not found') ? 404 : 500;
+      ResponseUtil.error(res, statusCode === 404 ? 'License not found' : errorMessage, statusCode);
+    }
+  }
+
+  /**
+   * Grant a feature to a license
+   * POST /api/admin/licenses/:id/features
+   */
+  static async grantFeature(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        ResponseUtil.error(res, 'Invalid license ID', 400);
+        return;
+      }
+
+      const { feature, expiresAt, note } = req.body;
+
+      const override = await EntitlementService.grantFeature(id, feature, {
+        expiresAt: expiresAt ? new Date(expiresAt) : null,
+        note,
+        adminId: req.admin?.id,
+      });
+
+      ResponseUtil.success(
+        res,
+        override,
+        override.expiresAt
+          ? `Feature '${override.feature}' granted until ${override.expiresAt.toISOString()}`
+          : `Feature '${override.feature}' granted`,
+        200
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to grant feature';
+      logger.error('Error granting license feature', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        licenseId: req.params.id,
+      });
+      let statusCode = 500;
+      if (errorMessage.includes('not found')) {
+        statusCode = 404;
+      } else if (errorMessage.includes('must be in the future')) {
+        statusCode = 400;
+      }
+      ResponseUtil.error(res, statusCode === 404 ? 'License not found' : errorMessage, statusCode);
+    }
+  }
+
+  /**
+   * Revoke a feature from a license
+   * DELETE /api/admin/licenses/:id/features/:feature
+   */
+  static async revokeFeature(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        ResponseUtil.error(res, 'Invalid license ID', 400);
+        return;
+      }
+
+      const override = await EntitlementService.revokeFeature(id, req.params.feature, {
+        note: req.body?.note,
+        adminId: req.admin?.id,
+      });
+
+      ResponseUtil.success(res, override, `Feature '${override.feature}' revoked`, 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to revoke feature';
+      logger.error('Error revoking license feature', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        licenseId: req.params.id,
+        feature: req.params.feature,
+      });
+      let statusCode = 500;
+      if (errorMessage.includes('License with ID')) {
+        statusCode = 404;
+      } else if (errorMessage.includes('is not enabled')) {
+        statusCode = 400;
+      }
+      ResponseUtil.error(res, statusCode === 404 ? 'License not found' : errorMessage, statusCode);
+    }
+  }
+
   /**
    * Reactivate a license (reset activations to allow customer to re-enter license key)
    * This deactivates all existing activations while keeping license data intact
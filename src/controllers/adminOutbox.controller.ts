@@ -0,0 +1,127 @@
+import { Request, Response } from 'express';
+import { OutboxService } from '../services/outbox.service';
+import { logger } from '../utils/logger';
+import { ResponseUtil } from '../utils/response.util';
+
+/**
+ * Admin Outbox Controller
+ * Handles HTTP requests for inspecting queued messages and retrying dead-lettered ones
+ */
+export class AdminOutboxController {
+  private static parseId(req: Request, res: Response): number | null {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      ResponseUtil.error(res, 'Invalid outbox message ID', 400);
+      return null;
+    }
+    return id;
+  }
+
+  /**
+   * List outbox messages
+   * GET /api/admin/outbox
+   */
+  static async getMessages(req: Request, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const pageSize = parseInt(req.query.pageSize as string) || 20;
+
+      const result = await OutboxService.getMessagesPaginated({
+        channel: req.query.channel as string | undefined,
+        status: req.query.status as string | undefined,
+        type: req.query.type as string | undefined,
+        page,
+        pageSize,
+      });
+
+      ResponseUtil.success(
+        res,
+        {
+          messages: result.data,
+          pagination: result.pagination,
+        },
+        'Outbox messages retrieved successfully',
+        200
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve outbox messages';
+      logger.error('Error retrieving outbox messages', { error: errorMessage, adminId: req.admin?.id });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
+  /**
+   * Get outbox message counts by status and channel
+   * GET /api/admin/outbox/stats
+   */
+  static async getStats(req: Request, res: Response): Promise<void> {
+    try {
+      const stats = await OutboxService.getStats();
+
+      ResponseUtil.success(res, stats, 'Outbox statistics retrieved successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve outbox statistics';
+      logger.error('Error retrieving outbox statistics', { error: errorMessage, adminId: req.admin?.id });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
+  /**
+   * Get an outbox message
+   * GET /api/admin/outbox/:id
+   */
+  static async getMessage(req: Request, res: Response): Promise<void> {
+    try {
+      const id = AdminOutboxController.parseId(req, res);
+      if (id === null) {
+        return;
+      }
+
+      const message = await OutboxService.getMessage(id);
+      if (!message) {
+        ResponseUtil.notFound(res, `Outbox message with ID ${id} not found`);
+        return;
+      }
+
+      ResponseUtil.success(res, message, 'Outbox message retrieved successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve outbox message';
+      logger.error('Error retrieving outbox message', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        messageId: req.params.id,
+      });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
+  /**
+   * Requeue a dead-lettered or skipped outbox message
+   * POST /api/admin/outbox/:id/retry
+   */
+  static async retryMessage(req: Request, res: Response): Promise<void> {
+    try {
+      const id = AdminOutboxController.parseId(req, res);
+      if (id === null) {
+        return;
+      }
+
+      const message = await OutboxService.retryMessage(id);
+
+      ResponseUtil.success(res, message, 'Outbox message requeued', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to requeue outbox message';
+      logger.error('Error requeueing outbox message', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        messageId: req.params.id,
+      });
+      const statusCode = errorMessage.includes('not found')
+        ? 404
+        : errorMessage.includes('can be retried')
+          ? 409
+          : 500;
+      ResponseUtil.error(res, errorMessage, statusCode);
+    }
+  }
+}
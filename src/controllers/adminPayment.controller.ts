@@ -1,5 +1,7 @@
 import { Request, Response } from 'express';
-import { PaymentService } from '../services/payment.service';
+import { PaymentKind, PaymentService } from '../services/payment.service';
+import { StripeService } from '../services/stripe.service';
+import { InvoiceService } from '../services/invoice.service';
 import { logger } from '../utils/logger';
 import { ResponseUtil } from '../utils/response.util';
 
@@ -23,6 +25,7 @@ export class AdminPaymentController {
         req.query.isAnnualSubscription !== undefined
           ? req.query.isAnnualSubscription === 'true' || req.query.isAnnualSubscription === '1'
           : undefined;
+      const kind = req.query.kind as PaymentKind | undefined;
       const sortBy = req.query.sortBy as string | undefined;
       const sortOrder = (req.query.sortOrder as 'asc' | 'desc') || 'desc';
 
@@ -48,6 +51,7 @@ export class AdminPaymentController {
         startDate,
         endDate,
         isAnnualSubscription,
+        kind,
         sortBy,
         sortOrder,
       });
@@ -170,7 +174,7 @@ export class AdminPaymentController {
    */
   static async createPayment(req: Request, res: Response): Promise<void> {
     try {
-      const { licenseId, amount, paymentDate, isAnnualSubscription, paymentType, additionalUsers } = req.body;
+      const { licenseId, amount, currency, paymentDate, isAnnualSubscription, paymentType, additionalUsers, sendInvoice } = req.body;
 
       // Validate required fields
       if (!licenseId || typeof licenseId !== 'number') {
@@ -209,10 +213,12 @@ export class AdminPaymentController {
       const payment = await PaymentService.createPayment({
         licenseId,
         amount,
+        currency,
         paymentDate: parsedPaymentDate,
         isAnnualSubscription,
         paymentType: paymentType || (isAnnualSubscription ? 'annual' : 'initial'),
         additionalUsers,
+        sendInvoice: typeof sendInvoice === 'boolean' ? sendInvoice : undefined,
       });
 
       logger.info('Admin created payment', {
@@ -220,6 +226,7 @@ export class AdminPaymentController {
         paymentId: payment.id,
         licenseId,
         amount,
+        currency: payment.currency,
         isAnnualSubscription,
       });
 
@@ -234,5 +241,220 @@ export class AdminPaymentController {
       ResponseUtil.error(res, errorMessage, 500);
     }
   }
-}
 
+  /**
+   * Refund part or all of a payment
+   * POST /api/admin/payments/:id/refund
+   */
+  static async refundPayment(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        ResponseUtil.error(res, 'Invalid payment ID', 400);
+        return;
+      }
+
+      const { amount, reason, revertSideEffects } = req.body;
+
+      const refund = await PaymentService.refundPayment(id, {
+        amount,
+        reason,
+        revertSideEffects: revertSideEffects === true,
+      });
+
+      logger.info('Admin refunded payment', {
+        adminId: req.admin?.id,
+        paymentId: id,
+        refundId: refund.id,
+        amount: refund.amount.toString(),
+        currency: refund.currency,
+      });
+
+      ResponseUtil.success(res, refund, 'Payment refunded successfully', 201);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to refund payment';
+      logger.error('Error refunding payment', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        paymentId: req.params.id,
+        body: req.body,
+      });
+      const statusCode = errorMessage.includes('not found')
+        ? 404
+        : errorMessage.startsWith('Cannot') || errorMessage.startsWith('Refund amount')
+          ? 400
+          : 500;
+      ResponseUtil.error(res, errorMessage, statusCode);
+    }
+  }
+
+  /**
+   * Void a payment recorded by mistake
+   * POST /api/admin/payments/:id/void
+   */
+  static async voidPayment(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        ResponseUtil.error(res, 'Invalid payment ID', 400);
+        return;
+      }
+
+      const { reason, revertSideEffects } = req.body;
+
+      const voidEntry = await PaymentService.voidPayment(id, {
+        reason,
+        revertSideEffects: typeof revertSideEffects === 'boolean' ? revertSideEffects : undefined,
+      });
+
+      logger.info('Admin voided payment', {
+        adminId: req.admin?.id,
+        paymentId: id,
+        voidId: voidEntry.id,
+      });
+
+      ResponseUtil.success(res, voidEntry, 'Payment voided successfully', 201);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to void payment';
+      logger.error('Error voiding payment', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        paymentId: req.params.id,
+        body: req.body,
+      });
+      const statusCode = errorMessage.includes('not found')
+        ? 404
+        : errorMessage.startsWith('Cannot') || errorMessage.startsWith('Refund amount')
+          ? 400
+          : 500;
+      ResponseUtil.error(res, errorMessage, statusCode);
+    }
+  }
+
+  /**
+   * Create a Stripe Checkout session for a license
+   * POST /api/admin/payments/checkout
+   */
+  static async createCheckoutSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { licenseId, paymentType, additionalUsers, successUrl, cancelUrl } = req.body;
+
+      const session = await StripeService.createCheckoutSession(licenseId, {
+        paymentType,
+        additionalUsers,
+        successUrl,
+        cancelUrl,
+      });
+
+      logger.info('Admin created checkout session', {
+        adminId: req.admin?.id,
+        licenseId,
+        sessionId: session.sessionId,
+        paymentType,
+      });
+
+      ResponseUtil.success(res, session, 'Checkout session created', 201);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to create checkout session';
+      logger.error('Error creating checkout session', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        body: req.body,
+      });
+      const statusCode = errorMessage.includes('not found')
+        ? 404
+        : errorMessage.includes('not configured')
+          ? 503
+          : errorMessage.startsWith('Stripe checkout failed') || errorMessage === 'Failed to create checkout session'
+            ? 502
+            : 400;
+      ResponseUtil.error(res, errorMessage, statusCode);
+    }
+  }
+
+  /**
+   * Get the invoice of a payment as JSON, HTML or PDF (?format=json|html|pdf)
+   * GET /api/admin/payments/:id/invoice
+   */
+  static async getInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        ResponseUtil.error(res, 'Invalid payment ID', 400);
+        return;
+      }
+
+      const invoice = await InvoiceService.getOrCreateForPayment(id);
+      const format = (req.query.format as string | undefined) || 'json';
+
+      logger.info('Admin retrieved invoice', {
+        adminId: req.admin?.id,
+        paymentId: id,
+        invoiceNumber: invoice.number,
+        format,
+      });
+
+      if (format === 'html') {
+        res.setHeader('Content-Type', 'text/html; charset=utf-8');
+        res.setHeader('Content-Disposition', `inline; filename="${invoice.number}.html"`);
+        res.status(200).send(InvoiceService.renderHtml(invoice));
+        return;
+      }
+
+      if (format === 'pdf') {
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="${invoice.number}.pdf"`);
+        res.status(200).send(InvoiceService.renderPdf(invoice));
+        return;
+      }
+
+      ResponseUtil.success(res, invoice, 'Invoice retrieved successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve invoice';
+      logger.error('Error retrieving invoice', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        paymentId: req.params.id,
+      });
+      const statusCode = errorMessage.includes('not found') ? 404 : 500;
+      ResponseUtil.error(res, statusCode === 404 ? 'Payment not found' : errorMessage, statusCode);
+    }
+  }
+
+  /**
+   * Send the invoice of a payment to the customer over WhatsApp
+   * POST /api/admin/payments/:id/invoice/send
+   */
+  static async sendInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        ResponseUtil.error(res, 'Invalid payment ID', 400);
+        return;
+      }
+
+      const result = await InvoiceService.sendViaWhatsApp(id);
+
+      logger.info('Admin sent invoice over WhatsApp', {
+        adminId: req.admin?.id,
+        paymentId: id,
+        invoiceNumber: result.number,
+      });
+
+      ResponseUtil.success(res, result, 'Invoice queued for WhatsApp delivery', 202);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to send invoice';
+      logger.error('Error sending invoice', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        paymentId: req.params.id,
+      });
+      const statusCode = errorMessage.includes('not found')
+        ? 404
+        : errorMessage.includes('not enabled') || errorMessage.includes('no verified phone')
+          ? 400
+          : 500;
+      ResponseUtil.error(res, statusCode === 404 ? 'Payment not found' : errorMessage, statusCode);
+    }
+  }
+}
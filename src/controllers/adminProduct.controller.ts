@@ -0,0 +1,283 @@
+import { Request, Response } from 'express';
+import { ProductService, EditionInput, UpdateEditionInput } from '../services/product.service';
+import { logger } from '../utils/logger';
+import { ResponseUtil } from '../utils/response.util';
+
+/**
+ * Admin Product Controller
+ * Handles HTTP requests for the product/edition catalog
+ */
+export class AdminProductController {
+  /**
+   * Map catalog errors to HTTP status codes
+   */
+  private static getStatusCode(errorMessage: string): number {
+    if (errorMessage.includes('not found')) {
+      return 404;
+    }
+    if (errorMessage.includes('already exists') || errorMessage.includes('Cannot') || errorMessage.includes('must be unique')) {
+      return 400;
+    }
+    return 500;
+  }
+
+  private static parseEditionInput(body: Record<string, unknown>): UpdateEditionInput {
+    return {
+      name: body.name as string | undefined,
+      initialPrice: body.initialPrice !== undefined ? parseFloat(String(body.initialPrice)) : undefined,
+      annualPrice: body.annualPrice !== undefined ? parseFloat(String(body.annualPrice)) : undefined,
+      pricePerUser: body.pricePerUser !== undefined ? parseFloat(String(body.pricePerUser)) : undefined,
+      currency: body.currency as string | undefined,
+      userLimit: body.userLimit !== undefined ? parseInt(String(body.userLimit), 10) : undefined,
+      maxActivations: body.maxActivations !== undefined
+        ? (body.maxActivations === null ? null : parseInt(String(body.maxActivations), 10))
+        : undefined,
+      trialDays: body.trialDays !== undefined ? parseInt(String(body.trialDays), 10) : undefined,
+      features: body.features as string[] | undefined,
+      isDefault: body.isDefault as boolean | undefined,
+      isActive: body.isActive as boolean | undefined,
+    };
+  }
+
+  /**
+   * Get all products with editions
+   * GET /api/admin/products
+   */
+  static async getProducts(req: Request, res: Response): Promise<void> {
+    try {
+      const includeInactive = req.query.includeInactive === 'true' || req.query.includeInactive === '1';
+
+      const products = await ProductService.getProducts(includeInactive);
+
+      ResponseUtil.success(res, products, 'Products retrieved successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve products';
+      logger.error('Error retrieving products', { error: errorMessage, adminId: req.admin?.id });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
+  /**
+   * Get product by ID
+   * GET /api/admin/products/:id
+   */
+  static async getProductById(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        ResponseUtil.error(res, 'Invalid product ID', 400);
+        return;
+      }
+
+      const product = await ProductService.getProductById(id);
+
+      if (!product) {
+        ResponseUtil.notFound(res, 'Product not found');
+        return;
+      }
+
+      ResponseUtil.success(res, product, 'Product retrieved successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve product';
+      logger.error('Error retrieving product', { error: errorMessage, adminId: req.admin?.id, productId: req.params.id });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
+  /**
+   * Create a product with optional editions
+   * POST /api/admin/products
+   */
+  static async createProduct(req: Request, res: Response): Promise<void> {
+    try {
+      const editions = Array.isArray(req.body.editions)
+        ? (req.body.editions as Record<string, unknown>[]).map((edition) => ({
+            ...AdminProductController.parseEditionInput(edition),
+            code: edition.code,
+          }) as EditionInput)
+        : undefined;
+
+      const product = await ProductService.createProduct({
+        code: req.body.code,
+        name: req.body.name,
+        description: req.body.description,
+        isActive: req.body.isActive,
+        editions,
+      });
+
+      logger.info('Admin created product', {
+        adminId: req.admin?.id,
+        productId: product.id,
+        code: product.code,
+      });
+
+      ResponseUtil.success(res, product, 'Product created successfully', 201);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to create product';
+      logger.error('Error creating product', { error: errorMessage, adminId: req.admin?.id });
+      ResponseUtil.error(res, errorMessage, AdminProductController.getStatusCode(errorMessage));
+    }
+  }
+
+  /**
+   * Update product details
+   * PATCH /api/admin/products/:id
+   */
+  static async updateProduct(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        ResponseUtil.error(res, 'Invalid product ID', 400);
+        return;
+      }
+
+      const product = await ProductService.updateProduct(id, {
+        name: req.body.name,
+        description: req.body.description,
+        isActive: req.body.isActive,
+      });
+
+      logger.info('Admin updated product', {
+        adminId: req.admin?.id,
+        productId: id,
+        fields: Object.keys(req.body),
+      });
+
+      ResponseUtil.success(res, product, 'Product updated successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update product';
+      logger.error('Error updating product', { error: errorMessage, adminId: req.admin?.id, productId: req.params.id });
+      const statusCode = AdminProductController.getStatusCode(errorMessage);
+      ResponseUtil.error(res, statusCode === 404 ? 'Product not found' : errorMessage, statusCode);
+    }
+  }
+
+  /**
+   * Delete a product without licenses
+   * DELETE /api/admin/products/:id
+   */
+  static async deleteProduct(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        ResponseUtil.error(res, 'Invalid product ID', 400);
+        return;
+      }
+
+      await ProductService.deleteProduct(id);
+
+      logger.info('Admin deleted product', { adminId: req.admin?.id, productId: id });
+
+      ResponseUtil.success(res, null, 'Product deleted successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete product';
+      logger.error('Error deleting product', { error: errorMessage, adminId: req.admin?.id, productId: req.params.id });
+      const statusCode = AdminProductController.getStatusCode(errorMessage);
+      ResponseUtil.error(res, statusCode === 404 ? 'Product not found' : errorMessage, statusCode);
+    }
+  }
+
+  /**
+   * Add an edition to a product
+   * POST /api/admin/products/:id/editions
+   */
+  static async createEdition(req: Request, res: Response): Promise<void> {
+    try {
+      const productId = parseInt(req.params.id);
+      if (isNaN(productId)) {
+        ResponseUtil.error(res, 'Invalid product ID', 400);
+        return;
+      }
+
+      const edition = await ProductService.createEdition(productId, {
+        ...AdminProductController.parseEditionInput(req.body),
+        code: req.body.code,
+      } as EditionInput);
+
+      logger.info('Admin created edition', {
+        adminId: req.admin?.id,
+        productId,
+        editionId: edition.id,
+        code: edition.code,
+      });
+
+      ResponseUtil.success(res, edition, 'Edition created successfully', 201);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to create edition';
+      logger.error('Error creating edition', { error: errorMessage, adminId: req.admin?.id, productId: req.params.id });
+      const statusCode = AdminProductController.getStatusCode(errorMessage);
+      ResponseUtil.error(res, statusCode === 404 ? 'Product not found' : errorMessage, statusCode);
+    }
+  }
+
+  /**
+   * Update an edition
+   * PATCH /api/admin/products/:id/editions/:editionId
+   */
+  static async updateEdition(req: Request, res: Response): Promise<void> {
+    try {
+      const productId = parseInt(req.params.id);
+      const editionId = parseInt(req.params.editionId);
+      if (isNaN(productId) || isNaN(editionId)) {
+        ResponseUtil.error(res, 'Invalid product or edition ID', 400);
+        return;
+      }
+
+      const edition = await ProductService.updateEdition(
+        productId,
+        editionId,
+        AdminProductController.parseEditionInput(req.body),
+      );
+
+      logger.info('Admin updated edition', {
+        adminId: req.admin?.id,
+        productId,
+        editionId,
+        fields: Object.keys(req.body),
+      });
+
+      ResponseUtil.success(res, edition, 'Edition updated successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update edition';
+      logger.error('Error updating edition', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        productId: req.params.id,
+        editionId: req.params.editionId,
+      });
+      const statusCode = AdminProductController.getStatusCode(errorMessage);
+      ResponseUtil.error(res, statusCode === 404 ? 'Edition not found' : errorMessage, statusCode);
+    }
+  }
+
+  /**
+   * Delete an edition without licenses
+   * DELETE /api/admin/products/:id/editions/:editionId
+   */
+  static async deleteEdition(req: Request, res: Response): Promise<void> {
+    try {
+      const productId = parseInt(req.params.id);
+      const editionId = parseInt(req.params.editionId);
+      if (isNaN(productId) || isNaN(editionId)) {
+        ResponseUtil.error(res, 'Invalid product or edition ID', 400);
+        return;
+      }
+
+      await ProductService.deleteEdition(productId, editionId);
+
+      logger.info('Admin deleted edition', { adminId: req.admin?.id, productId, editionId });
+
+      ResponseUtil.success(res, null, 'Edition deleted successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete edition';
+      logger.error('Error deleting edition', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        productId: req.params.id,
+        editionId: req.params.editionId,
+      });
+      const statusCode = AdminProductController.getStatusCode(errorMessage);
+      ResponseUtil.error(res, statusCode === 404 ? 'Edition not found' : errorMessage, statusCode);
+    }
+  }
+}
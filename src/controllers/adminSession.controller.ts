@@ -0,0 +1,83 @@
+import { Request, Response } from 'express';
+import { AdminSessionService } from '../services/adminSession.service';
+import { logger } from '../utils/logger';
+import { ResponseUtil } from '../utils/response.util';
+
+/**
+ * Admin Session Controller
+ * Handles HTTP requests for listing and revoking the authenticated admin's sessions
+ */
+export class AdminSessionController {
+  /**
+   * List the authenticated admin's active sessions
+   * GET /api/admin/sessions
+   */
+  static async listSessions(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        ResponseUtil.unauthorized(res, 'Unauthorized');
+        return;
+      }
+
+      const sessions = await AdminSessionService.listSessions(req.admin.id, req.admin.sessionId);
+
+      ResponseUtil.success(res, { sessions }, 'Sessions retrieved successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve sessions';
+      logger.error('Error retrieving admin sessions', { error: errorMessage, adminId: req.admin?.id });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
+  /**
+   * Revoke one of the authenticated admin's sessions
+   * DELETE /api/admin/sessions/:id
+   */
+  static async revokeSession(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        ResponseUtil.unauthorized(res, 'Unauthorized');
+        return;
+      }
+
+      await AdminSessionService.revokeSession(req.admin.id, req.params.id);
+
+      ResponseUtil.success(
+        res,
+        { current: req.params.id === req.admin.sessionId },
+        'Session revoked successfully',
+        200
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to revoke session';
+      logger.error('Error revoking admin session', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        sessionId: req.params.id,
+      });
+      const statusCode = errorMessage.includes('not found') ? 404 : 500;
+      ResponseUtil.error(res, errorMessage, statusCode);
+    }
+  }
+
+  /**
+   * Revoke every session of the authenticated admin except the current one
+   * POST /api/admin/sessions/revoke-others
+   */
+  static async revokeOtherSessions(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin || !req.admin.sessionId) {
+        ResponseUtil.unauthorized(res, 'Unauthorized');
+        return;
+      }
+
+      const revoked = await AdminSessionService.revokeOtherSessions(req.admin.id, req.admin.sessionId);
+
+      ResponseUtil.success(res, { revoked }, 'Other sessions revoked successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to revoke sessions';
+      logger.error('Error revoking other admin sessions', { error: errorMessage, adminId: req.admin?.id });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { Request, Response } from 'express';
+import { KeyManagementService } from '../services/keyManagement.service';
+import { logger } from '../utils/logger';
+import { ResponseUtil } from '../utils/response.util';
+
+/**
+ * Admin Signing Key Controller
+ * Handles HTTP requests for token signing key management
+ */
+export class AdminSigningKeyController {
+  /**
+   * List all signing keys
+   * GET /api/admin/signing-keys
+   */
+  static async listKeys(req: Request, res: Response): Promise<void> {
+    try {
+      const keys = await KeyManagementService.listKeys();
+
+      ResponseUtil.success(res, { keys }, 'Signing keys retrieved successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve signing keys';
+      logger.error('Error retrieving signing keys', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+      });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
+  /**
+   * Rotate signing keys
+   * POST /api/admin/signing-keys/rotate
+   */
+  static async rotateKey(req: Request, res: Response): Promise<void> {
+    try {
+      const key = await KeyManagementService.rotateKey();
+
+      logger.info('Admin rotated signing key', {
+        adminId: req.admin?.id,
+        kid: key.kid,
+      });
+
+      ResponseUtil.success(res, key, 'Signing key rotated successfully', 201);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to rotate signing key';
+      logger.error('Error rotating signing key', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+      });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
+  /**
+   * Retire a signing key
+   * POST /api/admin/signing-keys/:id/retire
+   */
+  static async retireKey(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        ResponseUtil.error(res, 'Invalid signing key ID', 400);
+        return;
+      }
+
+      const key = await KeyManagementService.retireKey(id);
+
+      logger.info('Admin retired signing key', {
+        adminId: req.admin?.id,
+        signingKeyId: id,
+        kid: key.kid,
+      });
+
+      ResponseUtil.success(res, key, 'Signing key retired successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retire signing key';
+      logger.error('Error retiring signing key', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        signingKeyId: req.params.id,
+      });
+
+      let statusCode = 500;
+      if (errorMessage.includes('not found')) {
+        statusCode = 404;
+      } else if (errorMessage.includes('Cannot retire') || errorMessage.includes('already retired')) {
+        statusCode = 400;
+      }
+
+      ResponseUtil.error(res, errorMessage, statusCode);
+    }
+  }
+}
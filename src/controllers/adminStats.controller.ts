@@ -1,9 +1,11 @@
 import { Request, Response } from 'express';
 import { StatsService } from '../services/stats.service';
 import { LicenseService } from '../services/license.service';
-import { licensesToCSV } from '../utils/csv.util';
+import { UsageService, UsageReportSortField } from '../services/usage.service';
+import { licensesToCSV, usageReportToCSV } from '../utils/csv.util';
 import { logger } from '../utils/logger';
 import { ResponseUtil } from '../utils/response.util';
+import { config } from '../config/config';
 
 // In-memory lock to prevent concurrent executions
 let isUpdatingExpiredLicenses = false;
@@ -86,6 +88,45 @@ export class AdminStatsController {
     }
   }
 
+  /**
+   * Get usage per license (heaviest users first), as JSON or CSV
+   * GET /api/admin/reports/usage
+   */
+  static async getUsageReport(req: Request, res: Response): Promise<void> {
+    try {
+      const startDate = req.query.startDate ? UsageService.parseDay(req.query.startDate as string) : undefined;
+      const endDate = req.query.endDate ? UsageService.parseDay(req.query.endDate as string) : undefined;
+      const sortBy = req.query.sortBy as UsageReportSortField | undefined;
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+
+      const report = await UsageService.getUsageReport({ startDate, endDate, sortBy, limit });
+
+      logger.info('Admin retrieved usage report', {
+        adminId: req.admin?.id,
+        startDate: report.period.startDate,
+        endDate: report.period.endDate,
+        licenses: report.licenses.length,
+      });
+
+      if (req.query.format === 'csv') {
+        const filename = `usage_report_${report.period.startDate}_${report.period.endDate}.csv`;
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+        res.status(200).send(usageReportToCSV(report.licenses));
+        return;
+      }
+
+      ResponseUtil.success(res, report, 'Usage report retrieved successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve usage report';
+      logger.error('Error retrieving usage report', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+      });
+      ResponseUtil.error(res, errorMessage, errorMessage.includes('must be before') ? 400 : 500);
+    }
+  }
+
   /**
    * Get revenue by period and trends
    * GET /api/admin/reports/revenue
@@ -105,11 +146,15 @@ export class AdminStatsController {
         return;
       }
 
-      const revenueByPeriod = await StatsService.getRevenueByPeriod(startDate, endDate);
+      const currency = (req.query.currency as string | undefined) || config.reportingCurrency;
+
+      const revenueByPeriod = await StatsService.getRevenueByPeriod(startDate, endDate, currency);
 
       // Calculate totals and trends
       const totalRevenue = revenueByPeriod.reduce((sum, period) => sum + period.amount, 0);
       const totalCount = revenueByPeriod.reduce((sum, period) => sum + period.count, 0);
+      const totalRefunds = revenueByPeriod.reduce((sum, period) => sum + period.refunds, 0);
+      const unconvertedCount = revenueByPeriod.reduce((sum, period) => sum + period.unconvertedCount, 0);
 
       // Calculate trend (compare last two periods if available)
       let trend: number | null = null;
@@ -125,6 +170,7 @@ export class AdminStatsController {
         adminId: req.admin?.id,
         periods: revenueByPeriod.length,
         totalRevenue,
+        currency,
       });
 
       ResponseUtil.success(
@@ -132,8 +178,11 @@ export class AdminStatsController {
         {
           revenueByPeriod,
           summary: {
+            currency,
             totalRevenue,
             totalCount,
+            totalRefunds,
+            unconvertedCount,
             periodCount: revenueByPeriod.length,
             trend,
           },
@@ -0,0 +1,184 @@
+import { Request, Response } from 'express';
+import { AdminService } from '../services/admin.service';
+import { AdminTwoFactorService } from '../services/adminTwoFactor.service';
+import { logger } from '../utils/logger';
+import { ResponseUtil } from '../utils/response.util';
+
+/**
+ * Admin Two-Factor Controller
+ * Handles HTTP requests for the authenticated admin's two-factor authentication settings
+ */
+export class AdminTwoFactorController {
+  private static statusFor(errorMessage: string): number {
+    if (errorMessage.includes('password is incorrect')) {
+      return 401;
+    }
+    if (
+      errorMessage.includes('Invalid') ||
+      errorMessage.includes('not enabled') ||
+      errorMessage.includes('No authenticator setup')
+    ) {
+      return 400;
+    }
+    return 500;
+  }
+
+  /**
+   * Confirm the admin's password before a sensitive 2FA change
+   */
+  private static async assertPassword(adminId: number, password: string): Promise<void> {
+    if (!(await AdminService.verifyPassword(adminId, password))) {
+      throw new Error('Current password is incorrect');
+    }
+  }
+
+  /**
+   * Get two-factor status
+   * GET /api/admin/2fa
+   */
+  static async getStatus(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        ResponseUtil.unauthorized(res, 'Unauthorized');
+        return;
+      }
+
+      const status = await AdminTwoFactorService.getStatus(req.admin.id);
+
+      ResponseUtil.success(res, status, 'Two-factor status retrieved successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve two-factor status';
+      logger.error('Error retrieving two-factor status', { error: errorMessage, adminId: req.admin?.id });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
+  /**
+   * Start authenticator app (TOTP) setup
+   * POST /api/admin/2fa/totp/setup
+   */
+  static async startTotpSetup(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        ResponseUtil.unauthorized(res, 'Unauthorized');
+        return;
+      }
+
+      const setup = await AdminTwoFactorService.startTotpSetup(req.admin.id);
+
+      ResponseUtil.success(res, setup, 'Scan the code with your authenticator app, then confirm a code', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to start authenticator setup';
+      logger.error('Error starting TOTP setup', { error: errorMessage, adminId: req.admin?.id });
+      ResponseUtil.error(res, errorMessage, AdminTwoFactorController.statusFor(errorMessage));
+    }
+  }
+
+  /**
+   * Confirm authenticator app (TOTP) setup
+   * POST /api/admin/2fa/totp/enable
+   */
+  static async confirmTotpSetup(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        ResponseUtil.unauthorized(res, 'Unauthorized');
+        return;
+      }
+
+      const result = await AdminTwoFactorService.confirmTotpSetup(req.admin.id, req.body.code);
+
+      ResponseUtil.success(res, result, 'Two-factor authentication enabled. Store the recovery codes safely', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to enable two-factor authentication';
+      logger.error('Error confirming TOTP setup', { error: errorMessage, adminId: req.admin?.id });
+      ResponseUtil.error(res, errorMessage, AdminTwoFactorController.statusFor(errorMessage));
+    }
+  }
+
+  /**
+   * Start WhatsApp OTP setup
+   * POST /api/admin/2fa/whatsapp/setup
+   */
+  static async startWhatsAppSetup(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        ResponseUtil.unauthorized(res, 'Unauthorized');
+        return;
+      }
+
+      const result = await AdminTwoFactorService.startWhatsAppSetup(req.admin.id);
+
+      ResponseUtil.success(res, result, 'Verification code sent to your phone', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to send verification code';
+      logger.error('Error starting WhatsApp 2FA setup', { error: errorMessage, adminId: req.admin?.id });
+      ResponseUtil.error(res, errorMessage, AdminTwoFactorController.statusFor(errorMessage));
+    }
+  }
+
+  /**
+   * Confirm WhatsApp OTP setup
+   * POST /api/admin/2fa/whatsapp/enable
+   */
+  static async confirmWhatsAppSetup(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        ResponseUtil.unauthorized(res, 'Unauthorized');
+        return;
+      }
+
+      const result = await AdminTwoFactorService.confirmWhatsAppSetup(req.admin.id, req.body.code);
+
+      ResponseUtil.success(res, result, 'Two-factor authentication enabled. Store the recovery codes safely', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to enable two-factor authentication';
+      logger.error('Error confirming WhatsApp 2FA setup', { error: errorMessage, adminId: req.admin?.id });
+      ResponseUtil.error(res, errorMessage, AdminTwoFactorController.statusFor(errorMessage));
+    }
+  }
+
+  /**
+   * Regenerate recovery codes
+   * POST /api/admin/2fa/recovery-codes
+   */
+  static async regenerateRecoveryCodes(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        ResponseUtil.unauthorized(res, 'Unauthorized');
+        return;
+      }
+
+      await AdminTwoFactorController.assertPassword(req.admin.id, req.body.password);
+      const result = await AdminTwoFactorService.regenerateRecoveryCodes(req.admin.id);
+
+      ResponseUtil.success(res, result, 'Recovery codes regenerated. Previous codes no longer work', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to regenerate recovery codes';
+      logger.error('Error regenerating recovery codes', { error: errorMessage, adminId: req.admin?.id });
+      ResponseUtil.error(res, errorMessage, AdminTwoFactorController.statusFor(errorMessage));
+    }
+  }
+
+  /**
+   * Disable two-factor authentication
+   * DELETE /api/admin/2fa
+   */
+  static async disable(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        ResponseUtil.unauthorized(res, 'Unauthorized');
+        return;
+      }
+
+      await AdminTwoFactorController.assertPassword(req.admin.id, req.body.password);
+      await AdminTwoFactorService.disable(req.admin.id);
+      const status = await AdminTwoFactorService.getStatus(req.admin.id);
+
+      ResponseUtil.success(res, status, 'Two-factor authentication disabled', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to disable two-factor authentication';
+      logger.error('Error disabling two-factor authentication', { error: errorMessage, adminId: req.admin?.id });
+      ResponseUtil.error(res, errorMessage, AdminTwoFactorController.statusFor(errorMessage));
+    }
+  }
+}
@@ -0,0 +1,384 @@
+import { Request, Response } from 'express';
+import { AdminService, PasswordSetupLink } from '../services/admin.service';
+import { AdminTwoFactorService } from '../services/adminTwoFactor.service';
+import { AdminLockoutService } from '../services/adminLockout.service';
+import { AdminRole, getRolePermissions } from '../config/permissions.config';
+import { logger } from '../utils/logger';
+import { ResponseUtil } from '../utils/response.util';
+
+/**
+ * Admin User Controller
+ * Handles HTTP requests for admin account and role management
+ */
+export class AdminUserController {
+  private static parseId(req: Request, res: Response): number | null {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      ResponseUtil.error(res, 'Invalid admin ID', 400);
+      return null;
+    }
+    return id;
+  }
+
+  private static statusFor(errorMessage: string): number {
+    if (errorMessage.includes('not found')) {
+      return 404;
+    }
+    if (
+      errorMessage.includes('already exists') ||
+      errorMessage.includes('Invalid role') ||
+      errorMessage.includes('last active owner') ||
+      errorMessage.includes('your own account') ||
+      errorMessage.includes('inactive')
+    ) {
+      return 400;
+    }
+    return 500;
+  }
+
+  private static setupLinkResponse(link: PasswordSetupLink) {
+    return {
+      user: link.admin,
+      setupUrl: link.setupUrl,
+      expiresAt: link.expiresAt,
+      whatsappSent: link.whatsappSent,
+    };
+  }
+
+  /**
+   * List admin users with their roles
+   * GET /api/admin/users
+   */
+  static async listUsers(req: Request, res: Response): Promise<void> {
+    try {
+      const admins = await AdminService.listAdmins();
+
+      ResponseUtil.success(res, { users: admins }, 'Admin users retrieved successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve admin users';
+      logger.error('Error retrieving admin users', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+      });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
+  /**
+   * Assign a role to an admin user
+   * PATCH /api/admin/users/:id/role
+   */
+  static async updateRole(req: Request, res: Response): Promise<void> {
+    try {
+      const id = AdminUserController.parseId(req, res);
+      if (id === null) {
+        return;
+      }
+
+      const { role } = req.body as { role: string };
+      const admin = await AdminService.updateRole(id, role);
+
+      logger.info('Admin assigned role', {
+        adminId: req.admin?.id,
+        targetAdminId: id,
+        role: admin.role,
+      });
+
+      ResponseUtil.success(
+        res,
+        { ...admin, permissions: getRolePermissions(admin.role) },
+        'Admin role updated successfully',
+        200
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update admin role';
+      logger.error('Error updating admin role', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        targetAdminId: req.params.id,
+      });
+      ResponseUtil.error(res, errorMessage, AdminUserController.statusFor(errorMessage));
+    }
+  }
+
+  /**
+   * Get an admin user
+   * GET /api/admin/users/:id
+   */
+  static async getUser(req: Request, res: Response): Promise<void> {
+    try {
+      const id = AdminUserController.parseId(req, res);
+      if (id === null) {
+        return;
+      }
+
+      const admin = await AdminService.getAdminById(id);
+      if (!admin) {
+        ResponseUtil.notFound(res, `Admin with ID ${id} not found`);
+        return;
+      }
+
+      ResponseUtil.success(
+        res,
+        { ...admin, permissions: getRolePermissions(admin.role) },
+        'Admin user retrieved successfully',
+        200
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve admin user';
+      logger.error('Error retrieving admin user', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        targetAdminId: req.params.id,
+      });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
+  /**
+   * Invite a new admin user
+   * POST /api/admin/users
+   */
+  static async inviteUser(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        ResponseUtil.unauthorized(res, 'Unauthorized');
+        return;
+      }
+
+      const { username, phone, role } = req.body as { username: string; phone: string; role: AdminRole };
+      const invitation = await AdminService.inviteAdmin({ username, phone, role }, req.admin.id);
+
+      logger.info('Admin invited admin user', {
+        adminId: req.admin.id,
+        targetAdminId: invitation.admin.id,
+        role,
+        whatsappSent: invitation.whatsappSent,
+      });
+
+      ResponseUtil.success(
+        res,
+        AdminUserController.setupLinkResponse(invitation),
+        'Admin user invited successfully',
+        201
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to invite admin user';
+      logger.error('Error inviting admin user', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+      });
+      ResponseUtil.error(res, errorMessage, AdminUserController.statusFor(errorMessage));
+    }
+  }
+
+  /**
+   * Update an admin user's username and/or phone
+   * PATCH /api/admin/users/:id
+   */
+  static async updateUser(req: Request, res: Response): Promise<void> {
+    try {
+      const id = AdminUserController.parseId(req, res);
+      if (id === null) {
+        return;
+      }
+
+      const { username, phone } = req.body as { username?: string; phone?: string };
+      if (!username && !phone) {
+        ResponseUtil.error(res, 'At least one field (username or phone) must be provided', 400);
+        return;
+      }
+
+      if (!(await AdminService.getAdminById(id))) {
+        ResponseUtil.notFound(res, `Admin with ID ${id} not found`);
+        return;
+      }
+
+      await AdminService.updateProfile(id, { username, phone });
+      const admin = await AdminService.getAdminById(id);
+
+      logger.info('Admin updated admin user', {
+        adminId: req.admin?.id,
+        targetAdminId: id,
+      });
+
+      ResponseUtil.success(res, admin, 'Admin user updated successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update admin user';
+      logger.error('Error updating admin user', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        targetAdminId: req.params.id,
+      });
+      ResponseUtil.error(res, errorMessage, AdminUserController.statusFor(errorMessage));
+    }
+  }
+
+  /**
+   * Deactivate an admin user
+   * DELETE /api/admin/users/:id
+   */
+  static async deactivateUser(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        ResponseUtil.unauthorized(res, 'Unauthorized');
+        return;
+      }
+
+      const id = AdminUserController.parseId(req, res);
+      if (id === null) {
+        return;
+      }
+
+      const admin = await AdminService.setActive(id, false, req.admin.id);
+
+      logger.info('Admin deactivated admin user', {
+        adminId: req.admin.id,
+        targetAdminId: id,
+      });
+
+      ResponseUtil.success(res, admin, 'Admin user deactivated successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to deactivate admin user';
+      logger.error('Error deactivating admin user', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        targetAdminId: req.params.id,
+      });
+      ResponseUtil.error(res, errorMessage, AdminUserController.statusFor(errorMessage));
+    }
+  }
+
+  /**
+   * Reactivate an admin user
+   * POST /api/admin/users/:id/reactivate
+   */
+  static async reactivateUser(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        ResponseUtil.unauthorized(res, 'Unauthorized');
+        return;
+      }
+
+      const id = AdminUserController.parseId(req, res);
+      if (id === null) {
+        return;
+      }
+
+      const admin = await AdminService.setActive(id, true, req.admin.id);
+
+      logger.info('Admin reactivated admin user', {
+        adminId: req.admin.id,
+        targetAdminId: id,
+      });
+
+      ResponseUtil.success(res, admin, 'Admin user reactivated successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to reactivate admin user';
+      logger.error('Error reactivating admin user', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        targetAdminId: req.params.id,
+      });
+      ResponseUtil.error(res, errorMessage, AdminUserController.statusFor(errorMessage));
+    }
+  }
+
+  /**
+   * Force an admin user to set a new password (also resends a pending invitation)
+   * POST /api/admin/users/:id/reset-password
+   */
+  static async resetPassword(req: Request, res: Response): Promise<void> {
+    try {
+      const id = AdminUserController.parseId(req, res);
+      if (id === null) {
+        return;
+      }
+
+      const link = await AdminService.forcePasswordReset(id);
+
+      logger.info('Admin forced password reset', {
+        adminId: req.admin?.id,
+        targetAdminId: id,
+        whatsappSent: link.whatsappSent,
+      });
+
+      ResponseUtil.success(
+        res,
+        AdminUserController.setupLinkResponse(link),
+        'Password reset link issued successfully',
+        200
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to reset admin password';
+      logger.error('Error forcing admin password reset', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        targetAdminId: req.params.id,
+      });
+      ResponseUtil.error(res, errorMessage, AdminUserController.statusFor(errorMessage));
+    }
+  }
+
+  /**
+   * Unlock an admin user locked after failed logins
+   * POST /api/admin/users/:id/unlock
+   */
+  static async unlockUser(req: Request, res: Response): Promise<void> {
+    try {
+      const id = AdminUserController.parseId(req, res);
+      if (id === null) {
+        return;
+      }
+
+      await AdminLockoutService.unlock(id);
+      const admin = await AdminService.getAdminById(id);
+
+      logger.info('Admin unlocked admin user', {
+        adminId: req.admin?.id,
+        targetAdminId: id,
+      });
+
+      ResponseUtil.success(res, admin, 'Admin user unlocked successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to unlock admin user';
+      logger.error('Error unlocking admin user', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        targetAdminId: req.params.id,
+      });
+      ResponseUtil.error(res, errorMessage, AdminUserController.statusFor(errorMessage));
+    }
+  }
+
+  /**
+   * Reset an admin user's two-factor authentication
+   * POST /api/admin/users/:id/2fa/reset
+   */
+  static async resetTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const id = AdminUserController.parseId(req, res);
+      if (id === null) {
+        return;
+      }
+
+      await AdminTwoFactorService.disable(id, 'admin.reset_2fa');
+      const status = await AdminTwoFactorService.getStatus(id);
+
+      logger.info('Admin reset two-factor authentication', {
+        adminId: req.admin?.id,
+        targetAdminId: id,
+      });
+
+      ResponseUtil.success(res, status, 'Two-factor authentication reset successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to reset two-factor authentication';
+      logger.error('Error resetting two-factor authentication', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        targetAdminId: req.params.id,
+      });
+      ResponseUtil.error(res, errorMessage, AdminUserController.statusFor(errorMessage));
+    }
+  }
+}
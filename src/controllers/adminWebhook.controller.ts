@@ -0,0 +1,293 @@
+import { Request, Response } from 'express';
+import { WebhookService, WEBHOOK_EVENT_TYPES } from '../services/webhook.service';
+import { logger } from '../utils/logger';
+import { ResponseUtil } from '../utils/response.util';
+
+/**
+ * Admin Webhook Controller
+ * Handles HTTP requests for managing webhook endpoints and inspecting deliveries
+ */
+export class AdminWebhookController {
+  private static parseId(req: Request, res: Response, label: string): number | null {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      ResponseUtil.error(res, `Invalid ${label} ID`, 400);
+      return null;
+    }
+    return id;
+  }
+
+  private static statusFor(errorMessage: string): number {
+    if (errorMessage.includes('not found')) {
+      return 404;
+    }
+    if (errorMessage.includes('Invalid event type') || errorMessage.startsWith('Webhook URL')) {
+      return 400;
+    }
+    return 500;
+  }
+
+  /**
+   * List webhook event types
+   * GET /api/admin/webhooks/event-types
+   */
+  static async getEventTypes(_req: Request, res: Response): Promise<void> {
+    ResponseUtil.success(res, { eventTypes: WEBHOOK_EVENT_TYPES }, 'Webhook event types retrieved successfully', 200);
+  }
+
+  /**
+   * List webhook endpoints
+   * GET /api/admin/webhooks
+   */
+  static async listEndpoints(req: Request, res: Response): Promise<void> {
+    try {
+      const endpoints = await WebhookService.listEndpoints();
+
+      ResponseUtil.success(res, { endpoints }, 'Webhook endpoints retrieved successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve webhook endpoints';
+      logger.error('Error retrieving webhook endpoints', { error: errorMessage, adminId: req.admin?.id });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
+  /**
+   * Create a webhook endpoint (the signing secret is only returned here)
+   * POST /api/admin/webhooks
+   */
+  static async createEndpoint(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        ResponseUtil.unauthorized(res, 'Unauthorized');
+        return;
+      }
+
+      const { url, description, eventTypes } = req.body as {
+        url: string;
+        description?: string;
+        eventTypes: string[];
+      };
+
+      const result = await WebhookService.createEndpoint({ url, description, eventTypes }, req.admin.id);
+
+      ResponseUtil.success(
+        res,
+        result,
+        'Webhook endpoint created successfully. Store the signing secret now; it will not be shown again',
+        201
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to create webhook endpoint';
+      logger.error('Error creating webhook endpoint', { error: errorMessage, adminId: req.admin?.id });
+      ResponseUtil.error(res, errorMessage, AdminWebhookController.statusFor(errorMessage));
+    }
+  }
+
+  /**
+   * Get a webhook endpoint
+   * GET /api/admin/webhooks/:id
+   */
+  static async getEndpoint(req: Request, res: Response): Promise<void> {
+    try {
+      const id = AdminWebhookController.parseId(req, res, 'webhook endpoint');
+      if (id === null) {
+        return;
+      }
+
+      const endpoint = await WebhookService.getEndpoint(id);
+      if (!endpoint) {
+        ResponseUtil.notFound(res, `Webhook endpoint with ID ${id} not found`);
+        return;
+      }
+
+      ResponseUtil.success(res, endpoint, 'Webhook endpoint retrieved successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve webhook endpoint';
+      logger.error('Error retrieving webhook endpoint', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        endpointId: req.params.id,
+      });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
+  /**
+   * Update a webhook endpoint
+   * PATCH /api/admin/webhooks/:id
+   */
+  static async updateEndpoint(req: Request, res: Response): Promise<void> {
+    try {
+      const id = AdminWebhookController.parseId(req, res, 'webhook endpoint');
+      if (id === null) {
+        return;
+      }
+
+      const { url, description, eventTypes, isActive } = req.body as {
+        url?: string;
+        description?: string | null;
+        eventTypes?: string[];
+        isActive?: boolean;
+      };
+
+      if (url === undefined && description === undefined && eventTypes === undefined && isActive === undefined) {
+        ResponseUtil.error(res, 'At least one field (url, description, eventTypes or isActive) must be provided', 400);
+        return;
+      }
+
+      const endpoint = await WebhookService.updateEndpoint(id, { url, description, eventTypes, isActive });
+
+      ResponseUtil.success(res, endpoint, 'Webhook endpoint updated successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update webhook endpoint';
+      logger.error('Error updating webhook endpoint', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        endpointId: req.params.id,
+      });
+      ResponseUtil.error(res, errorMessage, AdminWebhookController.statusFor(errorMessage));
+    }
+  }
+
+  /**
+   * Delete a webhook endpoint and its delivery log
+   * DELETE /api/admin/webhooks/:id
+   */
+  static async deleteEndpoint(req: Request, res: Response): Promise<void> {
+    try {
+      const id = AdminWebhookController.parseId(req, res, 'webhook endpoint');
+      if (id === null) {
+        return;
+      }
+
+      await WebhookService.deleteEndpoint(id);
+
+      ResponseUtil.success(res, null, 'Webhook endpoint deleted successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete webhook endpoint';
+      logger.error('Error deleting webhook endpoint', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        endpointId: req.params.id,
+      });
+      ResponseUtil.error(res, errorMessage, AdminWebhookController.statusFor(errorMessage));
+    }
+  }
+
+  /**
+   * Rotate a webhook endpoint's signing secret
+   * POST /api/admin/webhooks/:id/rotate-secret
+   */
+  static async rotateSecret(req: Request, res: Response): Promise<void> {
+    try {
+      const id = AdminWebhookController.parseId(req, res, 'webhook endpoint');
+      if (id === null) {
+        return;
+      }
+
+      const result = await WebhookService.rotateSecret(id);
+
+      ResponseUtil.success(
+        res,
+        result,
+        'Signing secret rotated successfully. Store the new secret now; it will not be shown again',
+        200
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to rotate signing secret';
+      logger.error('Error rotating webhook signing secret', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        endpointId: req.params.id,
+      });
+      ResponseUtil.error(res, errorMessage, AdminWebhookController.statusFor(errorMessage));
+    }
+  }
+
+  /**
+   * Send a test event to a webhook endpoint
+   * POST /api/admin/webhooks/:id/test
+   */
+  static async sendTestEvent(req: Request, res: Response): Promise<void> {
+    try {
+      const id = AdminWebhookController.parseId(req, res, 'webhook endpoint');
+      if (id === null) {
+        return;
+      }
+
+      const delivery = await WebhookService.sendTestEvent(id);
+
+      ResponseUtil.success(res, delivery, 'Test event sent', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to send test event';
+      logger.error('Error sending webhook test event', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        endpointId: req.params.id,
+      });
+      ResponseUtil.error(res, errorMessage, AdminWebhookController.statusFor(errorMessage));
+    }
+  }
+
+  /**
+   * List webhook deliveries
+   * GET /api/admin/webhooks/deliveries
+   */
+  static async getDeliveries(req: Request, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const pageSize = parseInt(req.query.pageSize as string) || 20;
+      const endpointId = req.query.endpointId ? parseInt(req.query.endpointId as string) : undefined;
+
+      const result = await WebhookService.getDeliveriesPaginated({
+        endpointId,
+        status: req.query.status as string | undefined,
+        eventType: req.query.eventType as string | undefined,
+        eventId: req.query.eventId as string | undefined,
+        page,
+        pageSize,
+      });
+
+      ResponseUtil.success(
+        res,
+        {
+          deliveries: result.data,
+          pagination: result.pagination,
+        },
+        'Webhook deliveries retrieved successfully',
+        200
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve webhook deliveries';
+      logger.error('Error retrieving webhook deliveries', { error: errorMessage, adminId: req.admin?.id });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
+  /**
+   * Redeliver a webhook delivery's event
+   * POST /api/admin/webhooks/deliveries/:id/redeliver
+   */
+  static async redeliver(req: Request, res: Response): Promise<void> {
+    try {
+      const id = AdminWebhookController.parseId(req, res, 'webhook delivery');
+      if (id === null) {
+        return;
+      }
+
+      const delivery = await WebhookService.redeliver(id);
+
+      logger.info('Admin redelivered webhook', { adminId: req.admin?.id, deliveryId: id, newDeliveryId: delivery?.id });
+
+      ResponseUtil.success(res, delivery, 'Webhook redelivered', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to redeliver webhook';
+      logger.error('Error redelivering webhook', {
+        error: errorMessage,
+        adminId: req.admin?.id,
+        deliveryId: req.params.id,
+      });
+      ResponseUtil.error(res, errorMessage, AdminWebhookController.statusFor(errorMessage));
+    }
+  }
+}
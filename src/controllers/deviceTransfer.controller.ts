@@ -0,0 +1,159 @@
+import { Request, Response } from 'express';
+import { DeviceTransferService, TransferSession } from '../services/deviceTransfer.service';
+import { ResponseUtil } from '../utils/response.util';
+import { logger } from '../utils/logger';
+
+/**
+ * Device Transfer Controller
+ * Handles the customer self-service flow for releasing an activated device
+ */
+export class DeviceTransferController {
+  /**
+   * Resolve the transfer session from the Authorization header
+   * Sends a 401 response and returns null when missing or invalid
+   */
+  private static async getSession(req: Request, res: Response): Promise<TransferSession | null> {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      ResponseUtil.unauthorized(res, 'Transfer token is required. Use: Authorization: Bearer <transferToken>');
+      return null;
+    }
+
+    try {
+      return await DeviceTransferService.verifyTransferToken(authHeader.substring(7).trim());
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Transfer session is invalid or expired';
+      ResponseUtil.unauthorized(res, errorMessage);
+      return null;
+    }
+  }
+
+  /**
+   * Send ownership OTP to the license's phone number
+   * POST /api/license/transfer/request-otp
+   */
+  static async requestOtp(req: Request, res: Response): Promise<void> {
+    try {
+      const { licenseKey } = req.body;
+
+      const result = await DeviceTransferService.requestOtp(licenseKey);
+
+      if (result.success) {
+        ResponseUtil.success(
+          res,
+          {
+            maskedPhone: result.maskedPhone,
+            expiresAt: result.expiresAt,
+          },
+          result.message,
+          200
+        );
+      } else {
+        ResponseUtil.error(res, result.message, 400);
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to send verification code';
+      logger.error('Error requesting device transfer OTP', { error: errorMessage });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
+  /**
+   * Verify ownership OTP and open a transfer session
+   * POST /api/license/transfer/verify
+   */
+  static async verifyOtp(req: Request, res: Response): Promise<void> {
+    try {
+      const { licenseKey, otpCode } = req.body;
+
+      const result = await DeviceTransferService.verifyOtp(licenseKey, otpCode);
+
+      if (result.success) {
+        ResponseUtil.success(
+          res,
+          {
+            transferToken: result.transferToken,
+            expiresAt: result.expiresAt,
+          },
+          result.message,
+          200
+        );
+      } else {
+        ResponseUtil.error(res, result.message, 400);
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to verify code';
+      logger.error('Error verifying device transfer OTP', { error: errorMessage });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
+  /**
+   * List active devices and remaining transfer quota
+   * GET /api/license/transfer/activations
+   */
+  static async getActivations(req: Request, res: Response): Promise<void> {
+    try {
+      const session = await DeviceTransferController.getSession(req, res);
+      if (!session) {
+        return;
+      }
+
+      const overview = await DeviceTransferService.getTransferOverview(session.licenseId);
+
+      ResponseUtil.success(res, overview, 'Active devices retrieved successfully', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve devices';
+      logger.error('Error retrieving devices for transfer', { error: errorMessage });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
+  /**
+   * Release an active device
+   * POST /api/license/transfer/activations/:id/release
+   */
+  static async releaseActivation(req: Request, res: Response): Promise<void> {
+    try {
+      const session = await DeviceTransferController.getSession(req, res);
+      if (!session) {
+        return;
+      }
+
+      const activationId = parseInt(req.params.id);
+      if (isNaN(activationId)) {
+        ResponseUtil.error(res, 'Invalid activation ID', 400);
+        return;
+      }
+
+      const result = await DeviceTransferService.releaseActivation(session, activationId, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+
+      ResponseUtil.success(
+        res,
+        result,
+        'Device released successfully. You can now activate the license on the new machine.',
+        200
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to release device';
+      logger.error('Error releasing device', {
+        error: errorMessage,
+        activationId: req.params.id,
+      });
+
+      let statusCode = 500;
+      if (errorMessage.includes('not found')) {
+        statusCode = 404;
+      } else if (errorMessage.includes('already inactive')) {
+        statusCode = 400;
+      } else if (errorMessage.includes('limit reached')) {
+        statusCode = 429;
+      }
+
+      ResponseUtil.error(res, statusCode === 404 ? 'Activation not found' : errorMessage, statusCode);
+    }
+  }
+}
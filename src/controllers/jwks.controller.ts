@@ -0,0 +1,24 @@
+import { Request, Response } from 'express';
+import { KeyManagementService } from '../services/keyManagement.service';
+import { logger } from '../utils/logger';
+import { ResponseUtil } from '../utils/response.util';
+
+/**
+ * JWKS Controller
+ * Publishes the public keys used to verify tokens issued by this server
+ * Public endpoint - no authentication required
+ */
+
+export const getJwks = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const jwks = await KeyManagementService.getJwks();
+
+    // Served as a raw JWK Set (RFC 7517) so standard JWT libraries can consume it directly
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    res.status(200).json(jwks);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve JWKS';
+    logger.error('Error retrieving JWKS', { error: errorMessage });
+    ResponseUtil.error(res, errorMessage, 500);
+  }
+};
@@ -2,6 +2,10 @@ import { Request, Response } from 'express';
 import { LicenseService, CreateLicenseInput } from '../services/license.service';
 import { PublicLicenseService } from '../services/publicLicense.service';
 import { WhatsAppService } from '../services/whatsapp.service';
+import { LicenseCertificateService } from '../services/licenseCertificate.service';
+import { ActivationTokenService } from '../services/activationToken.service';
+import { UsageService } from '../services/usage.service';
+import { StripeService } from '../services/stripe.service';
 import { ResponseUtil } from '../utils/response.util';
 import { logger } from '../utils/logger';
 
@@ -34,7 +38,8 @@ export class LicenseController {
         isFreeTrial: req.body.isFreeTrial === true || req.body.isFreeTrial === 'true',
         startDate: req.body.startDate ? new Date(req.body.startDate) : undefined,
         endDate: req.body.endDate ? new Date(req.body.endDate) : undefined,
-        version: req.body.version || 'grocery',
+        version: req.body.version,
+        edition: req.body.edition,
       };
 
       // Phone verification is no longer required before creating a license.
@@ -62,8 +67,8 @@ export class LicenseController {
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to generate license';
       logger.error('Error generating license', { error: errorMessage });
-      // Return 400 for validation errors (duplicate license), 500 for other errors
-      const statusCode = errorMessage.includes('already exists') ? 400 : 500;
+      // Return 400 for validation errors (duplicate license, unknown product/edition), 500 for other errors
+      const statusCode = errorMessage.includes('already exists') || errorMessage.includes('catalog') ? 400 : 500;
       ResponseUtil.error(res, errorMessage, statusCode);
     }
   }
@@ -153,7 +158,7 @@ export class LicenseController {
    */
   static async activate(req: Request, res: Response): Promise<void> {
     try {
-      const { licenseKey, hardwareId, machineName, appType } = req.body;
+      const { licenseKey, hardwareId, machineName, appType, fingerprint } = req.body;
 
       if (!licenseKey || !hardwareId) {
         ResponseUtil.error(res, 'License key and hardware ID are required', 400);
@@ -164,6 +169,7 @@ export class LicenseController {
         licenseKey,
         hardwareId,
         machineName,
+        fingerprint,
         appType,
       });
 
@@ -175,17 +181,26 @@ export class LicenseController {
           expiresAt: result.expiresAt,
           gracePeriodEnd: result.gracePeriodEnd,
           token: result.token,
+          tokenExpiresAt: result.tokenExpiresAt,
+          refreshToken: result.refreshToken,
+          refreshTokenExpiresAt: result.refreshTokenExpiresAt,
+          certificate: result.certificate,
           locationId: result.locationId,
           locationName: result.locationName,
           locationAddress: result.locationAddress,
           customerName: result.customerName,
           customerPhone: result.customerPhone,
           isReactivatingActive: result.isReactivatingActive || false,
+          product: result.product,
+          edition: result.edition,
+          features: result.features,
+          entitlements: result.entitlements,
         });
       } else {
         res.status(400).json({
           success: false,
           message: result.message,
+          ...(result.activeDevices && { activeDevices: result.activeDevices }),
         });
       }
     } catch (error: unknown) {
@@ -201,7 +216,7 @@ export class LicenseController {
    */
   static async validate(req: Request, res: Response): Promise<void> {
     try {
-      const { licenseKey, hardwareId, currentTime, locationAddress } = req.body;
+      const { licenseKey, hardwareId, currentTime, locationAddress, token } = req.body;
 
       if (!licenseKey) {
         ResponseUtil.error(res, 'License key is required', 400);
@@ -210,9 +225,10 @@ export class LicenseController {
 
       const result = await PublicLicenseService.validateLicense({
         licenseKey,
-        hardwareId, // Optional - no longer required
+        hardwareId, // Optional - must match the token's device
         currentTime,
         locationAddress,
+        token,
       });
 
       if (result.valid) {
@@ -222,6 +238,11 @@ export class LicenseController {
           expiresAt: result.expiresAt,
           gracePeriodEnd: result.gracePeriodEnd,
           daysRemaining: result.daysRemaining,
+          ...(result.certificate && { certificate: result.certificate }),
+          product: result.product,
+          edition: result.edition,
+          features: result.features,
+          entitlements: result.entitlements,
           message: result.message,
         });
       } else {
@@ -240,6 +261,60 @@ export class LicenseController {
     }
   }
 
+  /**
+   * Exchange a refresh token for a new activation token pair
+   * POST /api/license/refresh
+   */
+  static async refresh(req: Request, res: Response): Promise<void> {
+    try {
+      const { refreshToken } = req.body;
+
+      if (!refreshToken) {
+        ResponseUtil.error(res, 'Refresh token is required', 400);
+        return;
+      }
+
+      const result = await ActivationTokenService.refreshTokens(refreshToken);
+
+      if (result.success) {
+        res.status(200).json({
+          success: true,
+          message: result.message,
+          token: result.token,
+          tokenExpiresAt: result.tokenExpiresAt,
+          refreshToken: result.refreshToken,
+          refreshTokenExpiresAt: result.refreshTokenExpiresAt,
+        });
+      } else {
+        // Unknown/expired refresh token is 401; a known device that may no longer refresh is 403
+        const statusCode = result.message.includes('invalid or expired') ? 401 : 403;
+        res.status(statusCode).json({
+          success: false,
+          message: result.message,
+        });
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to refresh token';
+      logger.error('Error refreshing activation token', { error: errorMessage });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
+  /**
+   * Get the public key used to verify signed license certificates offline
+   * GET /api/license/public-key
+   */
+  static async getPublicKey(_req: Request, res: Response): Promise<void> {
+    try {
+      const publicKey = LicenseCertificateService.getPublicKey();
+      ResponseUtil.success(res, publicKey, 'Public key retrieved successfully');
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to get public key';
+      logger.error('Error getting license certificate public key', { error: errorMessage });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+
   /**
    * Send activation credentials via WhatsApp
    * POST /api/license/send-credentials
@@ -440,6 +515,51 @@ export class LicenseController {
     }
   }
 
+  /**
+   * Report a batch of metered usage from a POS terminal
+   * POST /api/license/usage
+   */
+  static async reportUsage(req: Request, res: Response): Promise<void> {
+    try {
+      const { licenseKey, token, hardwareId, batchId, records } = req.body;
+
+      const result = await UsageService.reportUsage({
+        licenseKey,
+        token,
+        hardwareId,
+        batchId,
+        records,
+      });
+
+      ResponseUtil.success(
+        res,
+        result,
+        result.duplicate ? 'Usage batch was already recorded' : 'Usage recorded successfully',
+        200
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to record usage';
+      logger.error('Error recording usage', {
+        error: errorMessage,
+        licenseKey: req.body.licenseKey,
+        hardwareId: req.body.hardwareId,
+        batchId: req.body.batchId,
+      });
+
+      let statusCode = 500;
+      if (errorMessage.startsWith('Activation token')) {
+        statusCode = 401;
+      } else if (errorMessage.includes('not found')) {
+        statusCode = 404;
+      } else if (errorMessage.includes('revoked') || errorMessage.includes('suspended') || errorMessage.includes('deactivated')) {
+        statusCode = 403;
+      } else if (errorMessage.includes('out of range')) {
+        statusCode = 400;
+      }
+      ResponseUtil.error(res, errorMessage, statusCode);
+    }
+  }
+
   /**
    * Send license details via WhatsApp after phone verification
    * POST /api/license/send-license-details
@@ -550,6 +670,41 @@ export class LicenseController {
     }
   }
 
+  /**
+   * Start a Stripe Checkout payment for a license from the POS app
+   * POST /api/license/checkout
+   */
+  static async createCheckoutSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { licenseKey, hardwareId, paymentType, additionalUsers } = req.body;
+
+      const session = await StripeService.createCheckoutSessionForKey(licenseKey, {
+        paymentType,
+        additionalUsers,
+      });
+
+      logger.info('Checkout session created from POS', {
+        licenseId: session.licenseId,
+        hardwareId,
+        sessionId: session.sessionId,
+        paymentType,
+      });
+
+      ResponseUtil.success(res, session, 'Checkout session created', 201);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to create checkout session';
+      logger.error('Error creating checkout session', { error: errorMessage, licenseKey: req.body.licenseKey });
+      const statusCode = errorMessage.includes('not found')
+        ? 404
+        : errorMessage.includes('not configured')
+          ? 503
+          : errorMessage.startsWith('Stripe checkout failed') || errorMessage === 'Failed to create checkout session'
+            ? 502
+            : 400;
+      ResponseUtil.error(res, errorMessage, statusCode);
+    }
+  }
+
   /**
    * Test WhatsApp configuration and send a test message
    * POST /api/license/test-whatsapp
@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { metricsCollector } from '../utils/metrics.util';
 import { getSystemInfo, getMemoryUsageMB } from '../utils/system.util';
 import { logger } from '../utils/logger';
+import { LicenseService } from '../services/license.service';
 
 /**
  * Metrics Controller
@@ -38,6 +39,12 @@ export const getMetrics = async (_req: Request, res: Response): Promise<void> =>
       },
       requests: metrics.requests,
       responseTime: metrics.responseTime,
+      licenses: {
+        deviceCap: {
+          ...metrics.deviceCap,
+          currentlyAtCap: await LicenseService.countLicensesAtDeviceCap(),
+        },
+      },
     };
 
     res.json({
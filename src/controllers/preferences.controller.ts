@@ -60,6 +60,20 @@ export class PreferencesController {
         return;
       }
 
+      // Stale activation windows must be whole days
+      for (const field of ['dormantAfterDays', 'dormantDeactivateAfterDays']) {
+        const value = general?.[field];
+        if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+          ResponseUtil.error(res, `general.${field} must be a positive integer`, 400);
+          return;
+        }
+      }
+
+      if (general?.requireAdminTwoFactor !== undefined && typeof general.requireAdminTwoFactor !== 'boolean') {
+        ResponseUtil.error(res, 'general.requireAdminTwoFactor must be a boolean', 400);
+        return;
+      }
+
       const preferences = await PreferencesService.updatePreferences({
         general,
         customer,
@@ -0,0 +1,53 @@
+import { Request, Response } from 'express';
+import Stripe from 'stripe';
+import { StripeService } from '../services/stripe.service';
+import { logger } from '../utils/logger';
+import { ResponseUtil } from '../utils/response.util';
+
+/**
+ * Stripe Webhook Controller
+ * Receives Stripe events; any non-2xx answer makes Stripe redeliver the event later
+ */
+export class StripeWebhookController {
+  /**
+   * Receive a Stripe event
+   * POST /api/webhooks/stripe
+   */
+  static async handleWebhook(req: Request, res: Response): Promise<void> {
+    const signature = req.headers['stripe-signature'];
+    if (typeof signature !== 'string' || !signature) {
+      ResponseUtil.error(res, 'Missing Stripe-Signature header', 400);
+      return;
+    }
+
+    // The signature covers the exact bytes sent, so the body must reach us unparsed
+    if (!Buffer.isBuffer(req.body)) {
+      ResponseUtil.error(res, 'Expected a raw application/json body', 400);
+      return;
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = StripeService.constructEvent(req.body, signature);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Invalid Stripe signature';
+      logger.warn('Rejected Stripe webhook', { error: errorMessage, ip: req.ip });
+      ResponseUtil.error(res, errorMessage, errorMessage.includes('not configured') ? 503 : 400);
+      return;
+    }
+
+    try {
+      const result = await StripeService.handleEvent(event);
+
+      ResponseUtil.success(res, { eventId: event.id, type: event.type, ...result }, 'Stripe event received', 200);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to process Stripe event';
+      logger.error('Error processing Stripe event', {
+        error: errorMessage,
+        eventId: event.id,
+        type: event.type,
+      });
+      ResponseUtil.error(res, errorMessage, 500);
+    }
+  }
+}
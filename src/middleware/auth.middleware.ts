@@ -2,6 +2,10 @@ import { Request, Response, NextFunction } from 'express';
 import { AdminService } from '../services/admin.service';
 import { logger } from '../utils/logger';
 import { ResponseUtil } from '../utils/response.util';
+import { getRequestContext } from '../utils/requestContext.util';
+import { Permission, roleHasPermission } from '../config/permissions.config';
+import { ApiKeyService } from '../services/apiKey.service';
+import { apiKeyLimiter } from '../config/rateLimit.config';
 
 /**
  * Middleware to authenticate admin users via JWT token
@@ -70,6 +74,12 @@ export const authenticateAdmin = async (
     // Attach admin to request object for use in controllers
     req.admin = admin;
 
+    // Attribute audit events recorded during this request to the admin
+    const context = getRequestContext();
+    if (context) {
+      context.adminId = admin.id;
+    }
+
     logger.debug('Admin authenticated successfully', {
       adminId: admin.id,
       username: admin.username,
@@ -101,3 +111,116 @@ export const authenticateAdmin = async (
   }
 };
 
+/**
+ * Middleware to authenticate either an admin JWT or an API key
+ *
+ * An API key is accepted in the X-API-Key header or as the Bearer token (keys start with "dpos_");
+ * anything else is handled by authenticateAdmin. Requests made with a key get req.apiKey instead of
+ * req.admin, are limited by the key's per-minute rate limit, and only pass requirePermission for the
+ * key's scopes. Use on resource routes that integrations may call; self-service admin routes keep
+ * authenticateAdmin.
+ *
+ * Usage:
+ * router.use(authenticateAdminOrApiKey);
+ */
+export const authenticateAdminOrApiKey = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const authHeader = req.headers.authorization;
+  const bearerToken = authHeader?.startsWith('Bearer ') ? authHeader.substring(7).trim() : undefined;
+  const key = req.get('x-api-key')?.trim()
+    || (bearerToken && ApiKeyService.isApiKey(bearerToken) ? bearerToken : undefined);
+
+  if (!key) {
+    await authenticateAdmin(req, res, next);
+    return;
+  }
+
+  try {
+    const apiKey = await ApiKeyService.authenticate(key);
+
+    req.apiKey = apiKey;
+
+    // Attribute audit events recorded during this request to the key
+    const context = getRequestContext();
+    if (context) {
+      context.apiKeyId = apiKey.id;
+    }
+
+    logger.debug('API key authenticated successfully', {
+      apiKeyId: apiKey.id,
+      keyPrefix: apiKey.keyPrefix,
+      path: req.path,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Authentication failed';
+
+    logger.warn('API key authentication failed', {
+      error: errorMessage,
+      path: req.path,
+      method: req.method,
+      ip: req.ip,
+    });
+
+    ResponseUtil.unauthorized(res, 'Invalid, revoked or expired API key.');
+    return;
+  }
+
+  await apiKeyLimiter(req, res, next);
+};
+
+/**
+ * Middleware factory to restrict a route to admins whose role grants every listed permission
+ * (or API keys scoped for every listed permission)
+ * Must run after authenticateAdmin or authenticateAdminOrApiKey
+ *
+ * Usage:
+ * router.delete('/:id/permanent', requirePermission('licenses:delete'), controller.method);
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const apiKey = req.apiKey;
+    if (apiKey) {
+      const missingScopes = permissions.filter((permission) => !apiKey.scopes.includes(permission));
+
+      if (missingScopes.length > 0) {
+        logger.warn('API key scope denied', {
+          apiKeyId: apiKey.id,
+          keyPrefix: apiKey.keyPrefix,
+          missing: missingScopes,
+          path: req.path,
+          method: req.method,
+        });
+        ResponseUtil.forbidden(res, `This API key is not scoped for this action (requires ${missingScopes.join(', ')})`);
+        return;
+      }
+
+      next();
+      return;
+    }
+
+    const admin = req.admin;
+    if (!admin) {
+      ResponseUtil.unauthorized(res, 'Authentication required. Please provide a valid token.');
+      return;
+    }
+
+    const missing = permissions.filter((permission) => !roleHasPermission(admin.role, permission));
+
+    if (missing.length > 0) {
+      logger.warn('Admin permission denied', {
+        adminId: admin.id,
+        role: admin.role,
+        missing,
+        path: req.path,
+        method: req.method,
+      });
+      ResponseUtil.forbidden(res, `Your role (${admin.role}) does not have permission to perform this action`);
+      return;
+    }
+
+    next();
+  };
+};
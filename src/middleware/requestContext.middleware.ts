@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { runWithRequestContext } from '../utils/requestContext.util';
+
+// Accept caller-supplied request IDs only when they are short and printable
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,100}$/;
+
+/**
+ * Request Context Middleware
+ * Assigns a request ID (honouring a valid incoming X-Request-Id header), echoes it in the response
+ * and makes it available to services together with the client IP and user agent
+ */
+export const requestContext = (req: Request, res: Response, next: NextFunction): void => {
+  const incomingId = req.get('x-request-id');
+  const requestId = incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : crypto.randomUUID();
+
+  req.requestId = requestId;
+  res.setHeader('X-Request-Id', requestId);
+
+  runWithRequestContext(
+    {
+      requestId,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    },
+    next
+  );
+};
@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { validationResult, ValidationChain, body } from 'express-validator';
 import { ResponseUtil } from '../utils/response.util';
+import { USAGE_METRICS } from '../services/usage.service';
+import { CHECKOUT_PAYMENT_TYPES } from '../config/checkout.config';
 
 /**
  * Middleware to handle validation errors
@@ -81,6 +83,19 @@ export const validateInitialPrice = (): ValidationChain => {
     .withMessage('Initial price must be a positive number');
 };
 
+/**
+ * Validates a catalog code field (product, edition, appType)
+ */
+export const validateCatalogCodeOptional = (field: string, label: string): ValidationChain => {
+  return body(field)
+    .optional()
+    .isString()
+    .withMessage(`${label} must be a string`)
+    .trim()
+    .matches(/^[a-z0-9][a-z0-9_-]{0,49}$/i)
+    .withMessage(`${label} must be 1-50 letters, digits, '-' or '_'`);
+};
+
 /**
  * Validates location name
  */
@@ -147,6 +162,37 @@ export const validateMachineName = (): ValidationChain => {
     .withMessage('Machine name must be between 1 and 255 characters');
 };
 
+/**
+ * Validates structured hardware fingerprint (optional)
+ */
+export const validateFingerprint = (): ValidationChain => {
+  return body('fingerprint')
+    .optional()
+    .isObject()
+    .withMessage('Fingerprint must be an object')
+    .custom((value) => {
+      for (const field of ['boardSerial', 'cpuId']) {
+        if (value[field] !== undefined && (typeof value[field] !== 'string' || value[field].length > 255)) {
+          throw new Error(`Fingerprint ${field} must be a string of at most 255 characters`);
+        }
+      }
+      for (const field of ['diskSerials', 'macAddresses']) {
+        const list = value[field];
+        if (list === undefined) {
+          continue;
+        }
+        if (
+          !Array.isArray(list) ||
+          list.length > 32 ||
+          list.some((item: unknown) => typeof item !== 'string' || item.length > 255)
+        ) {
+          throw new Error(`Fingerprint ${field} must be an array of at most 32 strings`);
+        }
+      }
+      return true;
+    });
+};
+
 /**
  * Validates location object for activation
  */
@@ -192,3 +238,109 @@ export const validateCurrentTime = (): ValidationChain => {
     .isNumeric()
     .withMessage('Current time must be a number (timestamp)');
 };
+
+/**
+ * Validates refresh token (required)
+ */
+export const validateRefreshToken = (): ValidationChain => {
+  return body('refreshToken')
+    .notEmpty()
+    .withMessage('Refresh token is required')
+    .isString()
+    .withMessage('Refresh token must be a string')
+    .trim()
+    .isLength({ min: 1, max: 255 })
+    .withMessage('Refresh token must be between 1 and 255 characters');
+};
+
+/**
+ * Validates activation access token (required)
+ */
+export const validateActivationToken = (): ValidationChain => {
+  return body('token')
+    .notEmpty()
+    .withMessage('Token is required')
+    .isString()
+    .withMessage('Token must be a string')
+    .trim()
+    .isLength({ min: 1, max: 4096 })
+    .withMessage('Token must be between 1 and 4096 characters');
+};
+
+/**
+ * Validates activation access token (optional)
+ */
+export const validateActivationTokenOptional = (): ValidationChain => {
+  return body('token')
+    .optional()
+    .isString()
+    .withMessage('Token must be a string')
+    .trim()
+    .isLength({ min: 1, max: 4096 })
+    .withMessage('Token must be between 1 and 4096 characters');
+};
+
+/**
+ * Validates Stripe Checkout payment type (required)
+ */
+export const validateCheckoutPaymentType = (): ValidationChain => {
+  return body('paymentType')
+    .isIn(CHECKOUT_PAYMENT_TYPES)
+    .withMessage(`paymentType must be one of: ${CHECKOUT_PAYMENT_TYPES.join(', ')}`);
+};
+
+/**
+ * Validates number of users to buy (required for "user" payments)
+ */
+export const validateCheckoutAdditionalUsers = (): ValidationChain => {
+  return body('additionalUsers')
+    .if(body('paymentType').equals('user'))
+    .isInt({ min: 1, max: 1000 })
+    .withMessage('additionalUsers must be a positive integer for user payments')
+    .toInt();
+};
+
+/**
+ * Validates usage batch idempotency key (required)
+ */
+export const validateUsageBatchId = (): ValidationChain => {
+  return body('batchId')
+    .notEmpty()
+    .withMessage('Batch ID is required')
+    .isString()
+    .withMessage('Batch ID must be a string')
+    .trim()
+    .matches(/^[A-Za-z0-9._:-]{1,100}$/)
+    .withMessage("Batch ID must be 1-100 letters, digits, '.', '_', ':' or '-'");
+};
+
+/**
+ * Validates usage records: 1-500 entries of { date: YYYY-MM-DD, metric, quantity }
+ */
+export const validateUsageRecords = (): ValidationChain => {
+  return body('records')
+    .isArray({ min: 1, max: 500 })
+    .withMessage('Records must be an array of 1 to 500 entries')
+    .custom((records: unknown[]) => {
+      records.forEach((record, index) => {
+        if (!record || typeof record !== 'object') {
+          throw new Error(`Record ${index} must be an object`);
+        }
+        const { date, metric, quantity } = record as Record<string, unknown>;
+        if (
+          typeof date !== 'string' ||
+          !/^\d{4}-\d{2}-\d{2}$/.test(date) ||
+          isNaN(new Date(`${date}T00:00:00.000Z`).getTime())
+        ) {
+          throw new Error(`Record ${index} date must be a valid YYYY-MM-DD date`);
+        }
+        if (typeof metric !== 'string' || !(metric in USAGE_METRICS)) {
+          throw new Error(`Record ${index} metric must be one of: ${Object.keys(USAGE_METRICS).join(', ')}`);
+        }
+        if (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity < 0 || quantity > 1000000000) {
+          throw new Error(`Record ${index} quantity must be an integer between 0 and 1000000000`);
+        }
+      });
+      return true;
+    });
+};
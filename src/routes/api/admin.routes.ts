@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { AdminController } from '../../controllers/admin.controller';
+import { AdminTwoFactorController } from '../../controllers/adminTwoFactor.controller';
 import { authenticateAdmin } from '../../middleware/auth.middleware';
 import { body } from 'express-validator';
 import { validateRequest } from '../../middleware/validation.middleware';
@@ -12,7 +13,14 @@ const router = Router();
  * /api/admin/login:
  *   post:
  *     summary: Admin login
- *     description: Authenticate admin user and receive JWT token
+ *     description: |
+ *       Authenticate admin user and receive JWT token. When the admin has two-factor authentication enabled
+ *       (or the requireAdminTwoFactor preference is on), no token is issued; instead the response carries
+ *       `twoFactorRequired: true` and a challenge token to complete via POST /api/admin/login/verify.
+ *
+ *       Failed passwords are counted per username: after 2 failures each attempt must wait an increasing delay,
+ *       and at ADMIN_LOGIN_MAX_ATTEMPTS (default 5) the account is locked for ADMIN_LOCKOUT_MINUTES (default 15)
+ *       and the admin is alerted via WhatsApp. An owner can unlock it via POST /api/admin/users/{id}/unlock.
  *     tags: [Admin]
  *     security: []
  *     requestBody:
@@ -49,11 +57,26 @@ const router = Router();
  *                 data:
  *                   type: object
  *                   properties:
+ *                     twoFactorRequired:
+ *                       type: boolean
+ *                       example: false
  *                     token:
  *                       type: string
+ *                       description: Present when twoFactorRequired is false
  *                       example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
  *                     admin:
  *                       $ref: '#/components/schemas/Admin'
+ *                     challengeToken:
+ *                       type: string
+ *                       description: Present when twoFactorRequired is true
+ *                     method:
+ *                       type: string
+ *                       enum: [totp, whatsapp]
+ *                       description: Present when twoFactorRequired is true
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *                       description: Present when twoFactorRequired is true
  *       400:
  *         description: Validation error
  *         content:
@@ -66,8 +89,14 @@ const router = Router();
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Password reset required before logging in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       429:
- *         description: Too many login attempts
+ *         description: Too many login attempts from this IP, or the username is locked or in a retry delay
  *         content:
  *           application/json:
  *             schema:
@@ -93,12 +122,226 @@ router.post(
   AdminController.login
 );
 
+/**
+ * @swagger
+ * /api/admin/login/verify:
+ *   post:
+ *     summary: Complete a two-factor login
+ *     description: |
+ *       Exchange the challenge token from POST /api/admin/login and a verification code for a JWT token.
+ *       The code is a 6-digit authenticator (TOTP) or WhatsApp code, or one of the admin's single-use recovery codes.
+ *       A challenge expires after 10 minutes and is invalidated after 5 wrong codes. Wrong codes count toward the
+ *       account lockout like wrong passwords.
+ *     tags: [Admin]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *               - code
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 example: '123456'
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         token:
+ *                           type: string
+ *                         admin:
+ *                           $ref: '#/components/schemas/Admin'
+ *                         usedRecoveryCode:
+ *                           type: boolean
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Invalid verification code or expired challenge
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many attempts, or the account is locked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/login/verify',
+  adminLoginLimiter,
+  [
+    body('challengeToken')
+      .isString()
+      .trim()
+      .notEmpty()
+      .withMessage('Challenge token is required'),
+    body('code')
+      .isString()
+      .trim()
+      .notEmpty()
+      .withMessage('Verification code is required')
+      .isLength({ max: 20 })
+      .withMessage('Verification code is too long'),
+  ],
+  validateRequest,
+  AdminController.verifyTwoFactorLogin
+);
+
+/**
+ * @swagger
+ * /api/admin/login/resend:
+ *   post:
+ *     summary: Resend the WhatsApp login code
+ *     description: Send a new WhatsApp verification code for a pending two-factor login challenge.
+ *     tags: [Admin]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Verification code sent
+ *       400:
+ *         description: The challenge does not use WhatsApp verification
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Invalid or expired challenge
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many attempts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/login/resend',
+  adminLoginLimiter,
+  [
+    body('challengeToken')
+      .isString()
+      .trim()
+      .notEmpty()
+      .withMessage('Challenge token is required'),
+  ],
+  validateRequest,
+  AdminController.resendTwoFactorCode
+);
+
+/**
+ * @swagger
+ * /api/admin/password/setup:
+ *   post:
+ *     summary: Set a password from an invitation or reset link
+ *     description: |
+ *       Accept an admin invitation or complete a forced password reset using the one-time token from the link
+ *       sent to the admin. The token is single use and expires (ADMIN_PASSWORD_SETUP_HOURS, default 72 hours).
+ *     tags: [Admin]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - newPassword
+ *             properties:
+ *               token:
+ *                 type: string
+ *               newPassword:
+ *                 type: string
+ *                 format: password
+ *                 minLength: 6
+ *     responses:
+ *       200:
+ *         description: Password set successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         admin:
+ *                           $ref: '#/components/schemas/Admin'
+ *       400:
+ *         description: Invalid or expired password setup link
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many attempts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/password/setup',
+  adminLoginLimiter,
+  [
+    body('token')
+      .isString()
+      .trim()
+      .notEmpty()
+      .withMessage('Token is required'),
+    body('newPassword')
+      .notEmpty()
+      .withMessage('New password is required')
+      .isLength({ min: 6 })
+      .withMessage('New password must be at least 6 characters long'),
+  ],
+  validateRequest,
+  AdminController.completePasswordSetup
+);
+
 /**
  * @swagger
  * /api/admin/me:
  *   get:
  *     summary: Get current admin profile
- *     description: Get the authenticated admin user's profile information
+ *     description: Get the authenticated admin user's profile information, role and permissions
  *     tags: [Admin]
  *     security:
  *       - bearerAuth: []
@@ -117,7 +360,16 @@ router.post(
  *                   type: string
  *                   example: Admin profile retrieved successfully
  *                 data:
- *                   $ref: '#/components/schemas/Admin'
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/Admin'
+ *                     - type: object
+ *                       properties:
+ *                         permissions:
+ *                           type: array
+ *                           description: Permissions granted by the admin's role
+ *                           items:
+ *                             type: string
+ *                           example: ["licenses:read", "activations:read", "activations:write"]
  *       401:
  *         description: Unauthorized - Invalid or missing token
  *         content:
@@ -132,12 +384,63 @@ router.get(
   AdminController.getCurrentAdmin
 );
 
+/**
+ * @swagger
+ * /api/admin/roles:
+ *   get:
+ *     summary: List admin roles and their permissions
+ *     description: |
+ *       Roles available for admin accounts. `owner` has every permission; `read_only` has every read permission.
+ *       Routes answer 403 when the admin's role lacks the permission they require.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Roles retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         roles:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               role:
+ *                                 type: string
+ *                                 enum: [owner, sales, support, finance, read_only]
+ *                               permissions:
+ *                                 type: array
+ *                                 items:
+ *                                   type: string
+ *                                 example: ["licenses:read", "activations:read", "activations:write"]
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/roles',
+  adminLimiter, // Apply admin rate limiter
+  authenticateAdmin,
+  AdminController.getRoles
+);
+
 /**
  * @swagger
  * /api/admin/logout:
  *   post:
  *     summary: Admin logout
- *     description: Logout the authenticated admin user. The client should remove the JWT token from storage.
+ *     description: Logout the authenticated admin user. The token's server-side session is revoked, so the token stops working immediately.
  *     tags: [Admin]
  *     security:
  *       - bearerAuth: []
@@ -258,7 +561,9 @@ router.put(
  * /api/admin/password:
  *   put:
  *     summary: Change admin password
- *     description: Change the authenticated admin user's password. Requires current password verification.
+ *     description: |
+ *       Change the authenticated admin user's password. Requires current password verification.
+ *       Every session of the admin is revoked, including the current one, so the admin must log in again.
  *     tags: [Admin]
  *     security:
  *       - bearerAuth: []
@@ -294,7 +599,7 @@ router.put(
  *                   example: true
  *                 message:
  *                   type: string
- *                   example: Password changed successfully
+ *                   example: Password changed successfully. Please log in again
  *                 data:
  *                   type: null
  *       400:
@@ -328,5 +633,358 @@ router.put(
   AdminController.changePassword
 );
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     TwoFactorStatus:
+ *       type: object
+ *       properties:
+ *         method:
+ *           type: string
+ *           nullable: true
+ *           enum: [totp, whatsapp]
+ *           description: Method the admin enrolled
+ *         enabledAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         required:
+ *           type: boolean
+ *           description: Whether the requireAdminTwoFactor preference is on
+ *         loginMethod:
+ *           type: string
+ *           nullable: true
+ *           enum: [totp, whatsapp]
+ *           description: Method the next login will ask for (WhatsApp when 2FA is required but not enrolled)
+ *         recoveryCodesRemaining:
+ *           type: integer
+ *     RecoveryCodes:
+ *       type: object
+ *       properties:
+ *         recoveryCodes:
+ *           type: array
+ *           description: Single-use recovery codes. Shown only once.
+ *           items:
+ *             type: string
+ *             example: 7k3pq-x9m2a
+ */
+
+/**
+ * @swagger
+ * /api/admin/2fa:
+ *   get:
+ *     summary: Get two-factor status
+ *     description: Two-factor authentication status of the authenticated admin.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Two-factor status retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/TwoFactorStatus'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   delete:
+ *     summary: Disable two-factor authentication
+ *     description: |
+ *       Disable two-factor authentication and delete the recovery codes. Requires the current password.
+ *       When the requireAdminTwoFactor preference is on, logins still fall back to a WhatsApp code.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 format: password
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       401:
+ *         description: Unauthorized or current password is incorrect
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/2fa',
+  adminLimiter,
+  authenticateAdmin,
+  AdminTwoFactorController.getStatus
+);
+
+router.delete(
+  '/2fa',
+  adminLimiter,
+  authenticateAdmin,
+  [
+    body('password')
+      .notEmpty()
+      .withMessage('Password is required'),
+  ],
+  validateRequest,
+  AdminTwoFactorController.disable
+);
+
+/**
+ * @swagger
+ * /api/admin/2fa/totp/setup:
+ *   post:
+ *     summary: Start authenticator app setup
+ *     description: |
+ *       Generate a new TOTP secret for the authenticated admin. Add it to an authenticator app (scan the otpauth URL
+ *       as a QR code or enter the secret manually), then confirm with POST /api/admin/2fa/totp/enable.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Setup started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         secret:
+ *                           type: string
+ *                           example: JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP
+ *                         otpauthUrl:
+ *                           type: string
+ *                           example: otpauth://totp/DigitalizePOS%3Aadmin?secret=JBSWY3DPEHPK3PXP&issuer=DigitalizePOS
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/2fa/totp/setup',
+  adminLimiter,
+  authenticateAdmin,
+  AdminTwoFactorController.startTotpSetup
+);
+
+/**
+ * @swagger
+ * /api/admin/2fa/totp/enable:
+ *   post:
+ *     summary: Enable authenticator app two-factor authentication
+ *     description: Confirm the pending authenticator setup with a current code. Returns a fresh set of recovery codes.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: '123456'
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/RecoveryCodes'
+ *       400:
+ *         description: Invalid verification code or no setup in progress
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/2fa/totp/enable',
+  adminLimiter,
+  authenticateAdmin,
+  [
+    body('code')
+      .isString()
+      .trim()
+      .notEmpty()
+      .withMessage('Verification code is required'),
+  ],
+  validateRequest,
+  AdminTwoFactorController.confirmTotpSetup
+);
+
+/**
+ * @swagger
+ * /api/admin/2fa/whatsapp/setup:
+ *   post:
+ *     summary: Start WhatsApp two-factor setup
+ *     description: Send a verification code to the authenticated admin's phone via WhatsApp.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification code sent
+ *       400:
+ *         description: The code could not be sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/2fa/whatsapp/setup',
+  adminLimiter,
+  authenticateAdmin,
+  AdminTwoFactorController.startWhatsAppSetup
+);
+
+/**
+ * @swagger
+ * /api/admin/2fa/whatsapp/enable:
+ *   post:
+ *     summary: Enable WhatsApp two-factor authentication
+ *     description: Confirm the WhatsApp code sent by the setup step. Returns a fresh set of recovery codes.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: '123456'
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/RecoveryCodes'
+ *       400:
+ *         description: Invalid verification code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/2fa/whatsapp/enable',
+  adminLimiter,
+  authenticateAdmin,
+  [
+    body('code')
+      .isString()
+      .trim()
+      .notEmpty()
+      .withMessage('Verification code is required'),
+  ],
+  validateRequest,
+  AdminTwoFactorController.confirmWhatsAppSetup
+);
+
+/**
+ * @swagger
+ * /api/admin/2fa/recovery-codes:
+ *   post:
+ *     summary: Regenerate recovery codes
+ *     description: Replace all recovery codes with a new set. Requires the current password. Previous codes stop working.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 format: password
+ *     responses:
+ *       200:
+ *         description: Recovery codes regenerated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/RecoveryCodes'
+ *       400:
+ *         description: Two-factor authentication is not enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized or current password is incorrect
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/2fa/recovery-codes',
+  adminLimiter,
+  authenticateAdmin,
+  [
+    body('password')
+      .notEmpty()
+      .withMessage('Password is required'),
+  ],
+  validateRequest,
+  AdminTwoFactorController.regenerateRecoveryCodes
+);
+
 export default router;
 
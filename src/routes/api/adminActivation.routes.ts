@@ -1,14 +1,14 @@
 import { Router } from 'express';
 import { AdminActivationController } from '../../controllers/adminActivation.controller';
-import { authenticateAdmin } from '../../middleware/auth.middleware';
+import { authenticateAdminOrApiKey, requirePermission } from '../../middleware/auth.middleware';
 import { query, param } from 'express-validator';
 import { validateRequest } from '../../middleware/validation.middleware';
 import { adminLimiter } from '../../config/rateLimit.config';
 
 const router = Router();
 
-// All routes require admin authentication
-router.use(authenticateAdmin);
+// All routes require admin authentication (JWT or API key)
+router.use(authenticateAdminOrApiKey);
 
 // Apply admin rate limiting to all routes
 router.use(adminLimiter);
@@ -102,6 +102,7 @@ router.use(adminLimiter);
  */
 router.get(
   '/',
+  requirePermission('activations:read'),
   [
     query('page')
       .optional()
@@ -139,6 +140,113 @@ router.get(
   AdminActivationController.getActivations
 );
 
+/**
+ * @swagger
+ * /api/admin/activations/dormant:
+ *   get:
+ *     summary: Get dormant devices per license
+ *     description: |
+ *       List active activations flagged dormant by the stale activation job (no validation within the
+ *       configured window), grouped per license. Includes the policy from the general preferences and,
+ *       when auto-deactivation is enabled, the date each device will be deactivated.
+ *     tags: [Admin - Activations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: licenseId
+ *         schema:
+ *           type: integer
+ *         description: Only report dormant devices of this license
+ *     responses:
+ *       200:
+ *         description: Dormant activations retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         policy:
+ *                           type: object
+ *                           properties:
+ *                             dormantActivationDetection:
+ *                               type: boolean
+ *                             dormantAfterDays:
+ *                               type: integer
+ *                               example: 60
+ *                             dormantAutoDeactivate:
+ *                               type: boolean
+ *                             dormantDeactivateAfterDays:
+ *                               type: integer
+ *                               example: 30
+ *                         totalDormant:
+ *                           type: integer
+ *                         licenses:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               licenseId:
+ *                                 type: integer
+ *                               licenseKey:
+ *                                 type: string
+ *                               customerName:
+ *                                 type: string
+ *                                 nullable: true
+ *                               locationName:
+ *                                 type: string
+ *                                 nullable: true
+ *                               dormantActivations:
+ *                                 type: array
+ *                                 items:
+ *                                   type: object
+ *                                   properties:
+ *                                     id:
+ *                                       type: integer
+ *                                     hardwareId:
+ *                                       type: string
+ *                                     machineName:
+ *                                       type: string
+ *                                       nullable: true
+ *                                     activatedAt:
+ *                                       type: string
+ *                                       format: date-time
+ *                                     lastValidation:
+ *                                       type: string
+ *                                       format: date-time
+ *                                       nullable: true
+ *                                     dormantSince:
+ *                                       type: string
+ *                                       format: date-time
+ *                                     deactivatesAt:
+ *                                       type: string
+ *                                       format: date-time
+ *                                       nullable: true
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/dormant',
+  requirePermission('activations:read'),
+  [
+    query('licenseId')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('License ID must be a positive integer'),
+  ],
+  validateRequest,
+  AdminActivationController.getDormantReport
+);
+
 /**
  * @swagger
  * /api/admin/activations/{id}:
@@ -182,6 +290,7 @@ router.get(
  */
 router.get(
   '/:id',
+  requirePermission('activations:read'),
   [
     param('id')
       .isInt({ min: 1 })
@@ -234,6 +343,7 @@ router.get(
  */
 router.delete(
   '/:id',
+  requirePermission('activations:write'),
   [
     param('id')
       .isInt({ min: 1 })
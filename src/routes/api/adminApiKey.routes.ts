@@ -0,0 +1,283 @@
+import { Router } from 'express';
+import { AdminApiKeyController } from '../../controllers/adminApiKey.controller';
+import { authenticateAdmin, requirePermission } from '../../middleware/auth.middleware';
+import { body, param, query } from 'express-validator';
+import { validateRequest } from '../../middleware/validation.middleware';
+import { adminLimiter } from '../../config/rateLimit.config';
+import { API_KEY_SCOPES } from '../../config/permissions.config';
+
+const router = Router();
+
+// All routes require admin authentication (API keys cannot manage API keys)
+router.use(authenticateAdmin);
+
+// Apply admin rate limiting to all routes
+router.use(adminLimiter);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ApiKey:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           example: 3
+ *         name:
+ *           type: string
+ *           example: Reseller portal
+ *         keyPrefix:
+ *           type: string
+ *           description: Public part of the key, used to recognise it
+ *           example: dpos_3f9a1c2b
+ *         scopes:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: [licenses:read, licenses:write, payments:read]
+ *         rateLimitPerMinute:
+ *           type: integer
+ *           nullable: true
+ *           description: Requests per minute allowed for the key (null = API_KEY_DEFAULT_RATE_LIMIT, default 60)
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         lastUsedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         lastUsedIp:
+ *           type: string
+ *           nullable: true
+ *         createdBy:
+ *           type: integer
+ *           nullable: true
+ *           description: Admin who created the key
+ *         revokedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         revokedBy:
+ *           type: integer
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/admin/api-keys:
+ *   get:
+ *     summary: List API keys
+ *     description: |
+ *       List machine-to-machine API keys. Only key prefixes are shown; full keys are never stored.
+ *       Requires the api_keys:manage permission.
+ *     tags: [Admin - API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: includeRevoked
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Include revoked keys
+ *     responses:
+ *       200:
+ *         description: API keys retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         apiKeys:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/ApiKey'
+ *       403:
+ *         description: Role lacks the api_keys:manage permission
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/',
+  requirePermission('api_keys:manage'),
+  [
+    query('includeRevoked')
+      .optional()
+      .isBoolean()
+      .withMessage('includeRevoked must be a boolean'),
+  ],
+  validateRequest,
+  AdminApiKeyController.listKeys
+);
+
+/**
+ * @swagger
+ * /api/admin/api-keys:
+ *   post:
+ *     summary: Create an API key
+ *     description: |
+ *       Create a scoped API key for an integration (e.g. a reseller portal or accounting script).
+ *       The full key is returned only in this response. Send it as `X-API-Key: <key>` or `Authorization: Bearer <key>`
+ *       to the license, activation, subscription, payment, product, report and audit admin endpoints.
+ *       A key can only be granted scopes the creating admin's role has. Requires the api_keys:manage permission.
+ *     tags: [Admin - API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scopes
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Reseller portal
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [licenses:read, licenses:write, licenses:delete, activations:read, activations:write, subscriptions:read, subscriptions:write, payments:read, payments:write, products:read, products:write, reports:read, audit:read]
+ *                 example: [licenses:read, licenses:write, payments:read]
+ *               rateLimitPerMinute:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 10000
+ *                 example: 120
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: API key created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         apiKey:
+ *                           $ref: '#/components/schemas/ApiKey'
+ *                         key:
+ *                           type: string
+ *                           description: Full API key. Shown once.
+ *                           example: dpos_3f9a1c2b_Jx8k2...
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Role lacks the api_keys:manage permission or a requested scope
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/',
+  requirePermission('api_keys:manage'),
+  [
+    body('name')
+      .isString()
+      .trim()
+      .notEmpty()
+      .withMessage('Name is required')
+      .isLength({ max: 100 })
+      .withMessage('Name must be at most 100 characters'),
+    body('scopes')
+      .isArray({ min: 1 })
+      .withMessage('At least one scope is required'),
+    body('scopes.*')
+      .isIn(API_KEY_SCOPES)
+      .withMessage(`Each scope must be one of: ${API_KEY_SCOPES.join(', ')}`),
+    body('rateLimitPerMinute')
+      .optional()
+      .isInt({ min: 1, max: 10000 })
+      .withMessage('Rate limit must be between 1 and 10000 requests per minute')
+      .toInt(),
+    body('expiresAt')
+      .optional()
+      .isISO8601()
+      .withMessage('Expiry must be an ISO 8601 date')
+      .custom((value: string) => new Date(value) > new Date())
+      .withMessage('Expiry must be in the future'),
+  ],
+  validateRequest,
+  AdminApiKeyController.createKey
+);
+
+/**
+ * @swagger
+ * /api/admin/api-keys/{id}:
+ *   delete:
+ *     summary: Revoke an API key
+ *     description: Revoke an API key. Requests made with it are rejected immediately. Requires the api_keys:manage permission.
+ *     tags: [Admin - API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: API key ID
+ *     responses:
+ *       200:
+ *         description: API key revoked successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ApiKey'
+ *       400:
+ *         description: API key is already revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: API key not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  '/:id',
+  requirePermission('api_keys:manage'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('API key ID must be a positive integer'),
+  ],
+  validateRequest,
+  AdminApiKeyController.revokeKey
+);
+
+export default router;
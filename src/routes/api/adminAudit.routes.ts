@@ -0,0 +1,370 @@
+import { Router } from 'express';
+import { AdminAuditController } from '../../controllers/adminAudit.controller';
+import { authenticateAdminOrApiKey, requirePermission } from '../../middleware/auth.middleware';
+import { query } from 'express-validator';
+import { validateRequest } from '../../middleware/validation.middleware';
+import { adminLimiter } from '../../config/rateLimit.config';
+
+const router = Router();
+
+// All routes require admin authentication (JWT or API key)
+router.use(authenticateAdminOrApiKey);
+
+// Apply admin rate limiting to all routes
+router.use(adminLimiter);
+
+// Filters shared by the list and export endpoints
+const auditFilterValidators = [
+  query('actorType')
+    .optional()
+    .isIn(['admin', 'api_key', 'device', 'customer', 'system'])
+    .withMessage('Actor type must be admin, api_key, device, customer, or system'),
+  query('actorId')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 255 })
+    .withMessage('Actor ID must be between 1 and 255 characters'),
+  query('action')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Action must be between 1 and 100 characters'),
+  query('entityType')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Entity type must be between 1 and 50 characters'),
+  query('entityId')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 255 })
+    .withMessage('Entity ID must be between 1 and 255 characters'),
+  query('requestId')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Request ID must be between 1 and 100 characters'),
+  query('startDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Start date must be a valid ISO 8601 date'),
+  query('endDate')
+    .optional()
+    .isISO8601()
+    .withMessage('End date must be a valid ISO 8601 date'),
+];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AuditEvent:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           example: 42
+ *         actorType:
+ *           type: string
+ *           enum: [admin, api_key, device, customer, system]
+ *           example: "admin"
+ *         actorId:
+ *           type: string
+ *           nullable: true
+ *           description: Admin ID, POS hardware ID or customer phone
+ *           example: "1"
+ *         action:
+ *           type: string
+ *           example: "license.update"
+ *         entityType:
+ *           type: string
+ *           example: "license"
+ *         entityId:
+ *           type: string
+ *           nullable: true
+ *           example: "17"
+ *         changes:
+ *           type: object
+ *           nullable: true
+ *           description: Changed fields as { field: { before, after } }. Sensitive fields are redacted.
+ *           example: { "userLimit": { "before": 3, "after": 5 } }
+ *         metadata:
+ *           type: object
+ *           nullable: true
+ *           example: { "licenseKey": "ABCD-EFGH-IJKL-MNOP" }
+ *         ipAddress:
+ *           type: string
+ *           nullable: true
+ *           example: "203.0.113.10"
+ *         userAgent:
+ *           type: string
+ *           nullable: true
+ *         requestId:
+ *           type: string
+ *           nullable: true
+ *           description: X-Request-Id of the HTTP request that caused the change
+ *           example: "5b0f7c1e-8a4d-4c1b-9f61-2a3e4d5c6b7a"
+ *         prevHash:
+ *           type: string
+ *           nullable: true
+ *           description: Hash of the preceding event (null for the first event)
+ *         hash:
+ *           type: string
+ *           description: SHA-256 over this event's contents and prevHash
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/admin/audit:
+ *   get:
+ *     summary: Get paginated audit events with filtering
+ *     description: |
+ *       Retrieve the append-only audit log of admin and license mutations. Each event records who made the change
+ *       (admin, API key, POS device, customer or the system), the before/after values of the changed fields and the request
+ *       it came from.
+ *     tags: [Admin - Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: Page number
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Number of items per page
+ *       - in: query
+ *         name: actorType
+ *         schema:
+ *           type: string
+ *           enum: [admin, api_key, device, customer, system]
+ *         description: Filter by actor type
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: string
+ *         description: Filter by actor ID (admin ID, hardware ID or customer phone)
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *         description: Filter by action prefix (e.g. "license." or "payment.create")
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *         description: Filter by entity type (e.g. license, activation, subscription, payment)
+ *       - in: query
+ *         name: entityId
+ *         schema:
+ *           type: string
+ *         description: Filter by entity ID
+ *       - in: query
+ *         name: requestId
+ *         schema:
+ *           type: string
+ *         description: Filter by request ID
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Filter events from this date (ISO 8601 format)
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Filter events until this date (ISO 8601 format)
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *         description: Sort order
+ *     responses:
+ *       200:
+ *         description: Audit events retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         events:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/AuditEvent'
+ *                         pagination:
+ *                           $ref: '#/components/schemas/Pagination'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       422:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/',
+  requirePermission('audit:read'),
+  [
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Page must be a positive integer'),
+    query('pageSize')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Page size must be between 1 and 100'),
+    ...auditFilterValidators,
+    query('sortOrder')
+      .optional()
+      .isIn(['asc', 'desc'])
+      .withMessage('Sort order must be either asc or desc'),
+  ],
+  validateRequest,
+  AdminAuditController.getAuditEvents
+);
+
+/**
+ * @swagger
+ * /api/admin/audit/export:
+ *   get:
+ *     summary: Export audit events as CSV
+ *     description: Export audit events matching the filters as a CSV file (newest first, at most 10000 rows)
+ *     tags: [Admin - Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: actorType
+ *         schema:
+ *           type: string
+ *           enum: [admin, api_key, device, customer, system]
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *         description: Action prefix
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: entityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: requestId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: CSV file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       422:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/export', requirePermission('audit:read'), auditFilterValidators, validateRequest, AdminAuditController.exportAuditEvents);
+
+/**
+ * @swagger
+ * /api/admin/audit/verify:
+ *   get:
+ *     summary: Verify the audit hash chain
+ *     description: |
+ *       Recompute the hash of every audit event in order and check that each one links to its predecessor.
+ *       Reports the first event that was modified, removed or reordered.
+ *     tags: [Admin - Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         valid:
+ *                           type: boolean
+ *                           example: true
+ *                         checked:
+ *                           type: integer
+ *                           description: Number of events verified before the first mismatch (or in total)
+ *                           example: 1523
+ *                         firstInvalidId:
+ *                           type: integer
+ *                           nullable: true
+ *                         reason:
+ *                           type: string
+ *                           nullable: true
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/verify', requirePermission('audit:read'), AdminAuditController.verifyChain);
+
+export default router;
@@ -0,0 +1,383 @@
+import { Router } from 'express';
+import { AdminExchangeRateController } from '../../controllers/adminExchangeRate.controller';
+import { authenticateAdminOrApiKey, requirePermission } from '../../middleware/auth.middleware';
+import { body, param, query } from 'express-validator';
+import { validateRequest } from '../../middleware/validation.middleware';
+import { adminLimiter } from '../../config/rateLimit.config';
+import { SUPPORTED_CURRENCIES } from '../../services/exchangeRate.service';
+
+const router = Router();
+
+// All routes require admin authentication (JWT or API key)
+router.use(authenticateAdminOrApiKey);
+
+// Apply admin rate limiting to all routes
+router.use(adminLimiter);
+
+const currencyMessage = `must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ExchangeRate:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           example: 1
+ *         baseCurrency:
+ *           type: string
+ *           enum: [USD, LBP]
+ *           example: USD
+ *         quoteCurrency:
+ *           type: string
+ *           enum: [USD, LBP]
+ *           example: LBP
+ *         rate:
+ *           type: number
+ *           description: Units of quoteCurrency per 1 baseCurrency
+ *           example: 89500
+ *         effectiveFrom:
+ *           type: string
+ *           format: date-time
+ *           description: The rate applies from this time until the next rate for the pair
+ *         note:
+ *           type: string
+ *           nullable: true
+ *         createdBy:
+ *           type: integer
+ *           nullable: true
+ *           description: Admin who entered the rate
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     CurrencyConversion:
+ *       type: object
+ *       properties:
+ *         amount:
+ *           type: number
+ *           example: 50
+ *         from:
+ *           type: string
+ *           example: USD
+ *         to:
+ *           type: string
+ *           example: LBP
+ *         at:
+ *           type: string
+ *           format: date-time
+ *         rate:
+ *           type: number
+ *           example: 89500
+ *         convertedAmount:
+ *           type: number
+ *           example: 4475000
+ *         exchangeRateId:
+ *           type: integer
+ *           nullable: true
+ *           description: Rate used (null when both currencies are the same)
+ *         inverse:
+ *           type: boolean
+ *           description: True when the rate was derived from the opposite pair
+ */
+
+/**
+ * @swagger
+ * /api/admin/exchange-rates:
+ *   get:
+ *     summary: List exchange rates
+ *     description: List the exchange rates of every pair, newest effective date first.
+ *     tags: [Admin - Exchange Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: baseCurrency
+ *         schema:
+ *           type: string
+ *           enum: [USD, LBP]
+ *       - in: query
+ *         name: quoteCurrency
+ *         schema:
+ *           type: string
+ *           enum: [USD, LBP]
+ *       - in: query
+ *         name: at
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only the rate of each pair in effect at this time
+ *     responses:
+ *       200:
+ *         description: Exchange rates retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         rates:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/ExchangeRate'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/',
+  requirePermission('exchange_rates:read'),
+  [
+    query('baseCurrency')
+      .optional()
+      .toUpperCase()
+      .isIn(SUPPORTED_CURRENCIES)
+      .withMessage(`baseCurrency ${currencyMessage}`),
+    query('quoteCurrency')
+      .optional()
+      .toUpperCase()
+      .isIn(SUPPORTED_CURRENCIES)
+      .withMessage(`quoteCurrency ${currencyMessage}`),
+    query('at')
+      .optional()
+      .isISO8601()
+      .withMessage('at must be a valid ISO 8601 date'),
+  ],
+  validateRequest,
+  AdminExchangeRateController.listRates
+);
+
+/**
+ * @swagger
+ * /api/admin/exchange-rates/convert:
+ *   get:
+ *     summary: Convert an amount between currencies
+ *     description: |
+ *       Convert an amount at the rate in effect on a date, the same way revenue reports convert each payment
+ *       (the direct pair's rate, else the inverse of the opposite pair's rate).
+ *     tags: [Admin - Exchange Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: amount
+ *         required: true
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [USD, LBP]
+ *       - in: query
+ *         name: to
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [USD, LBP]
+ *       - in: query
+ *         name: date
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Date whose rate to use (defaults to now)
+ *     responses:
+ *       200:
+ *         description: Amount converted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/CurrencyConversion'
+ *       404:
+ *         description: No exchange rate in effect for the pair on that date
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       422:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/convert',
+  requirePermission('exchange_rates:read'),
+  [
+    query('amount')
+      .isFloat()
+      .withMessage('amount must be a number'),
+    query('from')
+      .toUpperCase()
+      .isIn(SUPPORTED_CURRENCIES)
+      .withMessage(`from ${currencyMessage}`),
+    query('to')
+      .toUpperCase()
+      .isIn(SUPPORTED_CURRENCIES)
+      .withMessage(`to ${currencyMessage}`),
+    query('date')
+      .optional()
+      .isISO8601()
+      .withMessage('date must be a valid ISO 8601 date'),
+  ],
+  validateRequest,
+  AdminExchangeRateController.convert
+);
+
+/**
+ * @swagger
+ * /api/admin/exchange-rates:
+ *   post:
+ *     summary: Add an exchange rate
+ *     description: |
+ *       Add a rate for a currency pair (1 baseCurrency = rate quoteCurrency). It applies to payments dated from
+ *       effectiveFrom until the next rate for the pair, so reports for earlier periods keep their rates.
+ *       A rate for one direction also converts the other (as its inverse) unless that direction has its own rate.
+ *     tags: [Admin - Exchange Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - baseCurrency
+ *               - quoteCurrency
+ *               - rate
+ *             properties:
+ *               baseCurrency:
+ *                 type: string
+ *                 enum: [USD, LBP]
+ *                 example: USD
+ *               quoteCurrency:
+ *                 type: string
+ *                 enum: [USD, LBP]
+ *                 example: LBP
+ *               rate:
+ *                 type: number
+ *                 example: 89500
+ *               effectiveFrom:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Defaults to now
+ *               note:
+ *                 type: string
+ *                 example: Central bank rate
+ *     responses:
+ *       201:
+ *         description: Exchange rate created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ExchangeRate'
+ *       400:
+ *         description: Same base and quote currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: The pair already has a rate effective at that time
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       422:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/',
+  requirePermission('exchange_rates:write'),
+  [
+    body('baseCurrency')
+      .toUpperCase()
+      .isIn(SUPPORTED_CURRENCIES)
+      .withMessage(`baseCurrency ${currencyMessage}`),
+    body('quoteCurrency')
+      .toUpperCase()
+      .isIn(SUPPORTED_CURRENCIES)
+      .withMessage(`quoteCurrency ${currencyMessage}`),
+    body('rate')
+      .isFloat({ gt: 0 })
+      .withMessage('rate must be greater than 0')
+      .toFloat(),
+    body('effectiveFrom')
+      .optional()
+      .isISO8601()
+      .withMessage('effectiveFrom must be a valid ISO 8601 date'),
+    body('note')
+      .optional()
+      .isString()
+      .isLength({ max: 255 })
+      .withMessage('note must be at most 255 characters'),
+  ],
+  validateRequest,
+  AdminExchangeRateController.createRate
+);
+
+/**
+ * @swagger
+ * /api/admin/exchange-rates/{id}:
+ *   delete:
+ *     summary: Delete an exchange rate
+ *     description: |
+ *       Delete a rate entered by mistake. Payments in its period are converted with the previous rate
+ *       of the pair (or left unconverted if there is none).
+ *     tags: [Admin - Exchange Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Exchange rate deleted successfully
+ *       404:
+ *         description: Exchange rate not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  '/:id',
+  requirePermission('exchange_rates:write'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('Exchange rate ID must be a positive integer'),
+  ],
+  validateRequest,
+  AdminExchangeRateController.deleteRate
+);
+
+export default router;
@@ -1,15 +1,18 @@
 import { Router } from 'express';
 import { AdminLicenseController } from '../../controllers/adminLicense.controller';
 import { AdminActivationController } from '../../controllers/adminActivation.controller';
-import { authenticateAdmin } from '../../middleware/auth.middleware';
+import { authenticateAdminOrApiKey, requirePermission } from '../../middleware/auth.middleware';
 import { query, param, body } from 'express-validator';
-import { validateRequest } from '../../middleware/validation.middleware';
+import { validateRequest, validateCatalogCodeOptional } from '../../middleware/validation.middleware';
 import { adminLimiter, licenseGenerationLimiter } from '../../config/rateLimit.config';
+import { NOTIFICATION_CHANNELS } from '../../services/notification.service';
+import { SUPPORTED_CURRENCIES } from '../../services/exchangeRate.service';
+import { USER_PRICING_MODES } from '../../services/proration.service';
 
 const router = Router();
 
-// All routes require admin authentication
-router.use(authenticateAdmin);
+// All routes require admin authentication (JWT or API key)
+router.use(authenticateAdminOrApiKey);
 
 // Apply admin rate limiting to all routes
 router.use(adminLimiter);
@@ -97,6 +100,7 @@ router.use(adminLimiter);
  */
 router.get(
   '/',
+  requirePermission('licenses:read'),
   [
     query('page')
       .optional()
@@ -188,6 +192,7 @@ router.get(
  */
 router.get(
   '/:id/activations',
+  requirePermission('licenses:read'),
   [
     param('id')
       .isInt({ min: 1 })
@@ -201,6 +206,444 @@ router.get(
   AdminActivationController.getLicenseActivations
 );
 
+/**
+ * @swagger
+ * /api/admin/licenses/{id}/device-transfers:
+ *   get:
+ *     summary: Get device transfer history for a license
+ *     description: List the devices the customer released through the self-service transfer flow, newest first, with the current monthly quota
+ *     tags: [Admin - Licenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: License ID
+ *     responses:
+ *       200:
+ *         description: Device transfers retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         transfers:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: integer
+ *                               licenseId:
+ *                                 type: integer
+ *                               activationId:
+ *                                 type: integer
+ *                               hardwareId:
+ *                                 type: string
+ *                               machineName:
+ *                                 type: string
+ *                                 nullable: true
+ *                               customerPhone:
+ *                                 type: string
+ *                                 nullable: true
+ *                               ipAddress:
+ *                                 type: string
+ *                                 nullable: true
+ *                               userAgent:
+ *                                 type: string
+ *                                 nullable: true
+ *                               createdAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                         quota:
+ *                           type: object
+ *                           properties:
+ *                             limit:
+ *                               type: integer
+ *                             used:
+ *                               type: integer
+ *                             remaining:
+ *                               type: integer
+ *                             resetsAt:
+ *                               type: string
+ *                               format: date-time
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: License not found
+ */
+router.get(
+  '/:id/device-transfers',
+  requirePermission('licenses:read'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('License ID must be a positive integer'),
+  ],
+  validateRequest,
+  AdminLicenseController.getDeviceTransfers
+);
+
+/**
+ * @swagger
+ * /api/admin/licenses/{id}/usage:
+ *   get:
+ *     summary: Get daily metered usage for a license
+ *     description: Daily usage reported through /api/license/usage, with per-device totals for the period.
+ *     tags: [Admin - Licenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: License ID
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: First business day (YYYY-MM-DD, defaults to 30 days before endDate)
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Last business day (YYYY-MM-DD, defaults to today)
+ *     responses:
+ *       200:
+ *         description: License usage retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         licenseId:
+ *                           type: integer
+ *                         period:
+ *                           type: object
+ *                           properties:
+ *                             startDate:
+ *                               type: string
+ *                               format: date
+ *                             endDate:
+ *                               type: string
+ *                               format: date
+ *                         activations:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               activationId:
+ *                                 type: integer
+ *                               hardwareId:
+ *                                 type: string
+ *                               machineName:
+ *                                 type: string
+ *                                 nullable: true
+ *                               isActive:
+ *                                 type: boolean
+ *                               usage:
+ *                                 $ref: '#/components/schemas/UsageTotals'
+ *                         days:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               date:
+ *                                 type: string
+ *                                 format: date
+ *                               activationId:
+ *                                 type: integer
+ *                               usage:
+ *                                 $ref: '#/components/schemas/UsageTotals'
+ *       400:
+ *         description: Start date after end date
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: License not found
+ */
+router.get(
+  '/:id/usage',
+  requirePermission('licenses:read'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('License ID must be a positive integer'),
+    query('startDate')
+      .optional()
+      .isISO8601({ strict: true })
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage('Start date must be a date in YYYY-MM-DD format'),
+    query('endDate')
+      .optional()
+      .isISO8601({ strict: true })
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage('End date must be a date in YYYY-MM-DD format'),
+  ],
+  validateRequest,
+  AdminLicenseController.getUsage
+);
+
+/**
+ * @swagger
+ * /api/admin/licenses/{id}/features:
+ *   get:
+ *     summary: Get feature entitlements for a license
+ *     description: |
+ *       Effective features of the license, the features included in its catalog edition, and the per-license
+ *       overrides (grants with optional expiry, and revocations of edition features).
+ *     tags: [Admin - Licenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: License ID
+ *     responses:
+ *       200:
+ *         description: License features retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         entitlements:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               feature:
+ *                                 type: string
+ *                               source:
+ *                                 type: string
+ *                                 enum: [edition, license]
+ *                               expiresAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                                 nullable: true
+ *                         editionFeatures:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                         overrides:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: License not found
+ */
+router.get(
+  '/:id/features',
+  requirePermission('licenses:read'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('License ID must be a positive integer'),
+  ],
+  validateRequest,
+  AdminLicenseController.getFeatures
+);
+
+/**
+ * @swagger
+ * /api/admin/licenses/{id}/features:
+ *   post:
+ *     summary: Grant a feature to a license
+ *     description: Grant a feature (module) to the license, optionally until an expiry date. Granting again replaces the expiry.
+ *     tags: [Admin - Licenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: License ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - feature
+ *             properties:
+ *               feature:
+ *                 type: string
+ *                 example: loyalty
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 description: Omit or null for no expiry
+ *               note:
+ *                 type: string
+ *                 example: Trial of the loyalty module
+ *     responses:
+ *       200:
+ *         description: Feature granted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         id:
+ *                           type: integer
+ *                         feature:
+ *                           type: string
+ *                         enabled:
+ *                           type: boolean
+ *                         expiresAt:
+ *                           type: string
+ *                           format: date-time
+ *                           nullable: true
+ *                         note:
+ *                           type: string
+ *                           nullable: true
+ *                         updatedBy:
+ *                           type: integer
+ *                           nullable: true
+ *       400:
+ *         description: Expiry is in the past
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: License not found
+ */
+router.post(
+  '/:id/features',
+  requirePermission('licenses:write'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('License ID must be a positive integer'),
+    body('feature')
+      .exists({ values: 'falsy' })
+      .withMessage('Feature is required')
+      .isString()
+      .trim()
+      .matches(/^[a-z0-9][a-z0-9_-]{0,49}$/i)
+      .withMessage("Feature must be 1-50 letters, digits, '-' or '_'"),
+    body('expiresAt')
+      .optional({ values: 'null' })
+      .isISO8601()
+      .withMessage('Expiry must be a valid ISO 8601 date string'),
+    body('note')
+      .optional()
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage('Note must be at most 500 characters'),
+  ],
+  validateRequest,
+  AdminLicenseController.grantFeature
+);
+
+/**
+ * @swagger
+ * /api/admin/licenses/{id}/features/{feature}:
+ *   delete:
+ *     summary: Revoke a feature from a license
+ *     description: Remove a granted feature. Features included in the license's edition are blocked for this license.
+ *     tags: [Admin - Licenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: License ID
+ *       - in: path
+ *         name: feature
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Feature code
+ *     responses:
+ *       200:
+ *         description: Feature revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         id:
+ *                           type: integer
+ *                         feature:
+ *                           type: string
+ *                         enabled:
+ *                           type: boolean
+ *                         expiresAt:
+ *                           type: string
+ *                           format: date-time
+ *                           nullable: true
+ *                         note:
+ *                           type: string
+ *                           nullable: true
+ *                         updatedBy:
+ *                           type: integer
+ *                           nullable: true
+ *       400:
+ *         description: Feature is not enabled for this license
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: License not found
+ */
+router.delete(
+  '/:id/features/:feature',
+  requirePermission('licenses:write'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('License ID must be a positive integer'),
+    param('feature')
+      .matches(/^[a-z0-9][a-z0-9_-]{0,49}$/i)
+      .withMessage("Feature must be 1-50 letters, digits, '-' or '_'"),
+  ],
+  validateRequest,
+  AdminLicenseController.revokeFeature
+);
+
 /**
  * @swagger
  * /api/admin/licenses/{id}:
@@ -244,6 +687,7 @@ router.get(
  */
 router.get(
   '/:id',
+  requirePermission('licenses:read'),
   [
     param('id')
       .isInt({ min: 1 })
@@ -280,12 +724,35 @@ router.get(
  *                 type: number
  *                 minimum: 0
  *                 example: 350.0
+ *               currency:
+ *                 type: string
+ *                 enum: [USD, LBP]
+ *                 description: Currency of the prices (defaults to the edition's)
+ *               userPricingMode:
+ *                 type: string
+ *                 enum: [full, prorated]
+ *                 default: full
+ *                 description: Charge users added mid-term the full price per user, or prorate it by the days left in the subscription term
  *               locationName:
  *                 type: string
  *                 example: ABC Grocery Shop
  *               locationAddress:
  *                 type: string
  *                 example: 123 Main Street, City, Country
+ *               maxActivations:
+ *                 type: integer
+ *                 minimum: 1
+ *                 nullable: true
+ *                 example: 3
+ *                 description: Maximum number of active devices. Omit to use the edition default; null for unlimited.
+ *               version:
+ *                 type: string
+ *                 example: grocery
+ *                 description: Catalog product code. Defaults to the server's default product.
+ *               edition:
+ *                 type: string
+ *                 example: basic
+ *                 description: Catalog edition code. Defaults to the product's default edition, which supplies prices, user limit, device limit and trial length.
  *     responses:
  *       201:
  *         description: License created successfully
@@ -313,6 +780,7 @@ router.get(
  */
 router.post(
   '/',
+  requirePermission('licenses:write'),
   licenseGenerationLimiter, // Apply license generation rate limiter
   [
     body('customerName')
@@ -339,6 +807,15 @@ router.post(
       .optional()
       .isFloat({ min: 0 })
       .withMessage('Price per user must be a positive number'),
+    body('currency')
+      .optional()
+      .toUpperCase()
+      .isIn(SUPPORTED_CURRENCIES)
+      .withMessage(`currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`),
+    body('userPricingMode')
+      .optional()
+      .isIn(USER_PRICING_MODES)
+      .withMessage(`userPricingMode must be one of: ${USER_PRICING_MODES.join(', ')}`),
     body('locationName')
       .optional()
       .isString()
@@ -363,6 +840,12 @@ router.post(
       .optional()
       .isISO8601()
       .withMessage('End date must be a valid ISO 8601 date string'),
+    body('maxActivations')
+      .optional({ values: 'null' })
+      .isInt({ min: 1 })
+      .withMessage('maxActivations must be a positive integer or null'),
+    validateCatalogCodeOptional('version', 'Product'),
+    validateCatalogCodeOptional('edition', 'Edition'),
   ],
   validateRequest,
   AdminLicenseController.createLicense
@@ -420,6 +903,14 @@ router.post(
  *                 type: number
  *                 minimum: 0
  *                 example: 25.0
+ *               currency:
+ *                 type: string
+ *                 enum: [USD, LBP]
+ *                 description: Currency of the prices, also applied to the active subscription (recorded payments keep theirs)
+ *               userPricingMode:
+ *                 type: string
+ *                 enum: [full, prorated]
+ *                 description: Charge users added mid-term the full price per user, or prorate it by the days left in the subscription term
  *               isFreeTrial:
  *                 type: boolean
  *                 example: false
@@ -464,6 +955,7 @@ router.post(
  */
 router.put(
   '/:id',
+  requirePermission('licenses:write'),
   [
     param('id')
       .isInt({ min: 1 })
@@ -508,6 +1000,15 @@ router.put(
       .optional()
       .isFloat({ min: 0 })
       .withMessage('Price per user must be a positive number'),
+    body('currency')
+      .optional()
+      .toUpperCase()
+      .isIn(SUPPORTED_CURRENCIES)
+      .withMessage(`currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`),
+    body('userPricingMode')
+      .optional()
+      .isIn(USER_PRICING_MODES)
+      .withMessage(`userPricingMode must be one of: ${USER_PRICING_MODES.join(', ')}`),
     body('isFreeTrial')
       .optional()
       .isBoolean()
@@ -568,6 +1069,7 @@ router.put(
  */
 router.delete(
   '/:id',
+  requirePermission('licenses:write'),
   [
     param('id')
       .isInt({ min: 1 })
@@ -582,7 +1084,7 @@ router.delete(
  * /api/admin/licenses/{id}/permanent:
  *   delete:
  *     summary: Delete license permanently
- *     description: Permanently delete a license from the database. This action cannot be undone.
+ *     description: Permanently delete a license from the database. This action cannot be undone. Licenses with issued invoices cannot be deleted (revoke them instead).
  *     tags: [Admin - Licenses]
  *     security:
  *       - bearerAuth: []
@@ -613,9 +1115,16 @@ router.delete(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: License has issued invoices
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  */
 router.delete(
   '/:id/permanent',
+  requirePermission('licenses:delete'),
   [
     param('id')
       .isInt({ min: 1 })
@@ -630,7 +1139,11 @@ router.delete(
  * /api/admin/licenses/{id}/user-limit:
  *   patch:
  *     summary: Increase user limit for a license
- *     description: Manually increase the user limit when payment is received for additional users
+ *     description: |
+ *       Manually increase the user limit when payment is received for additional users. Once the license has
+ *       an initial payment, a user payment is recorded at the price GET /user-limit/preview quotes: the full
+ *       price per user, or prorated by the days left in the subscription term when the license's
+ *       userPricingMode is "prorated".
  *     tags: [Admin - Licenses]
  *     security:
  *       - bearerAuth: []
@@ -667,6 +1180,7 @@ router.delete(
  */
 router.patch(
   '/:id/user-limit',
+  requirePermission('licenses:write'),
   [
     param('id')
       .isInt({ min: 1 })
@@ -679,6 +1193,357 @@ router.patch(
   AdminLicenseController.increaseUserLimit
 );
 
+/**
+ * @swagger
+ * /api/admin/licenses/{id}/user-limit/preview:
+ *   get:
+ *     summary: Preview the price of adding users
+ *     description: |
+ *       Quote what increasing the user limit (or a device creating users) would charge, without changing
+ *       anything. Prorated licenses pay the price per user × the share of the current subscription term left,
+ *       counted in whole days.
+ *     tags: [Admin - Licenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: License ID
+ *       - in: query
+ *         name: additionalUsers
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *     responses:
+ *       200:
+ *         description: Price quoted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/UserAdditionQuote'
+ *       404:
+ *         description: License not found
+ *       422:
+ *         description: Validation error
+ */
+router.get(
+  '/:id/user-limit/preview',
+  requirePermission('licenses:read'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('License ID must be a positive integer'),
+    query('additionalUsers')
+      .isInt({ min: 1 })
+      .withMessage('additionalUsers must be a positive integer'),
+  ],
+  validateRequest,
+  AdminLicenseController.previewUserLimit
+);
+
+/**
+ * @swagger
+ * /api/admin/licenses/{id}/max-activations:
+ *   patch:
+ *     summary: Set device limit for a license
+ *     description: |
+ *       Override the maximum number of devices that can be active on a license at the same time.
+ *       Lowering the limit does not deactivate devices that are already active; it only blocks new activations.
+ *     tags: [Admin - Licenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: License ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - maxActivations
+ *             properties:
+ *               maxActivations:
+ *                 type: integer
+ *                 minimum: 1
+ *                 nullable: true
+ *                 example: 3
+ *                 description: New device limit, or null for unlimited
+ *     responses:
+ *       200:
+ *         description: Device limit updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         licenseId:
+ *                           type: integer
+ *                         licenseKey:
+ *                           type: string
+ *                         maxActivations:
+ *                           type: integer
+ *                           nullable: true
+ *                         previousMaxActivations:
+ *                           type: integer
+ *                           nullable: true
+ *                         activeActivations:
+ *                           type: integer
+ *       400:
+ *         description: Invalid request
+ *       404:
+ *         description: License not found
+ *       500:
+ *         description: Server error
+ */
+router.patch(
+  '/:id/max-activations',
+  requirePermission('licenses:write'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('License ID must be a positive integer'),
+    body('maxActivations')
+      .optional({ values: 'null' })
+      .isInt({ min: 1 })
+      .withMessage('maxActivations must be a positive integer or null'),
+  ],
+  validateRequest,
+  AdminLicenseController.updateMaxActivations
+);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     NotificationPreferences:
+ *       type: object
+ *       properties:
+ *         licenseId:
+ *           type: integer
+ *         licenseKey:
+ *           type: string
+ *         customerPhone:
+ *           type: string
+ *           nullable: true
+ *         customerEmail:
+ *           type: string
+ *           nullable: true
+ *         channels:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [whatsapp, sms, email]
+ *           description: Preferred channels in fallback order as set on the license (empty = server default)
+ *         effectiveChannels:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [whatsapp, sms, email]
+ *           description: Channels actually tried, in order
+ */
+
+/**
+ * @swagger
+ * /api/admin/licenses/{id}/notification-preferences:
+ *   get:
+ *     summary: Get notification preferences of a license
+ *     description: Customer contact details and the order in which notification channels are tried.
+ *     tags: [Admin - Licenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: License ID
+ *     responses:
+ *       200:
+ *         description: Notification preferences retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/NotificationPreferences'
+ *       404:
+ *         description: License not found
+ *   put:
+ *     summary: Update notification preferences of a license
+ *     description: |
+ *       Set the customer email and the preferred notification channels in fallback order.
+ *       WhatsApp and SMS are only used once the customer phone is verified.
+ *       An empty channel list restores the server default order (NOTIFICATION_CHANNEL_ORDER).
+ *     tags: [Admin - Licenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: License ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               customerEmail:
+ *                 type: string
+ *                 format: email
+ *                 nullable: true
+ *                 example: owner@example.com
+ *               channels:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [whatsapp, sms, email]
+ *                 example: [email, whatsapp]
+ *     responses:
+ *       200:
+ *         description: Notification preferences updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/NotificationPreferences'
+ *       400:
+ *         description: Invalid request
+ *       404:
+ *         description: License not found
+ */
+router.get(
+  '/:id/notification-preferences',
+  requirePermission('licenses:read'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('License ID must be a positive integer'),
+  ],
+  validateRequest,
+  AdminLicenseController.getNotificationPreferences
+);
+
+router.put(
+  '/:id/notification-preferences',
+  requirePermission('licenses:write'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('License ID must be a positive integer'),
+    body('customerEmail')
+      .optional({ values: 'null' })
+      .isEmail()
+      .withMessage('customerEmail must be a valid email address')
+      .normalizeEmail(),
+    body('channels')
+      .optional()
+      .isArray()
+      .withMessage('channels must be an array'),
+    body('channels.*')
+      .isIn(NOTIFICATION_CHANNELS)
+      .withMessage(`Each channel must be one of: ${NOTIFICATION_CHANNELS.join(', ')}`),
+  ],
+  validateRequest,
+  AdminLicenseController.updateNotificationPreferences
+);
+
+/**
+ * @swagger
+ * /api/admin/licenses/{id}/notification-preferences/test:
+ *   post:
+ *     summary: Send a test notification
+ *     description: Send a test message to the license's customer, trying channels in the effective order until one delivers it.
+ *     tags: [Admin - Licenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: License ID
+ *     responses:
+ *       200:
+ *         description: Test attempted; check success and attempts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         success:
+ *                           type: boolean
+ *                         channel:
+ *                           type: string
+ *                           nullable: true
+ *                           description: Channel that delivered the message
+ *                         attempts:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               channel:
+ *                                 type: string
+ *                               provider:
+ *                                 type: string
+ *                               success:
+ *                                 type: boolean
+ *                               error:
+ *                                 type: string
+ *       400:
+ *         description: License has no verified phone number or email
+ *       404:
+ *         description: License not found
+ */
+router.post(
+  '/:id/notification-preferences/test',
+  requirePermission('licenses:write'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('License ID must be a positive integer'),
+  ],
+  validateRequest,
+  AdminLicenseController.sendTestNotification
+);
+
 /**
  * @swagger
  * /api/admin/licenses/{id}/reactivate:
@@ -724,6 +1589,7 @@ router.patch(
  */
 router.post(
   '/:id/reactivate',
+  requirePermission('licenses:write'),
   [
     param('id')
       .isInt({ min: 1 })
@@ -0,0 +1,283 @@
+import { Router } from 'express';
+import { AdminOutboxController } from '../../controllers/adminOutbox.controller';
+import { authenticateAdmin, requirePermission } from '../../middleware/auth.middleware';
+import { param, query } from 'express-validator';
+import { validateRequest } from '../../middleware/validation.middleware';
+import { adminLimiter } from '../../config/rateLimit.config';
+import { OUTBOX_CHANNELS, OUTBOX_STATUSES } from '../../services/outbox.service';
+
+const router = Router();
+
+// All routes require admin authentication
+router.use(authenticateAdmin);
+
+// Apply admin rate limiting to all routes
+router.use(adminLimiter);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     OutboxMessage:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           example: 42
+ *         channel:
+ *           type: string
+ *           enum: [notification, whatsapp, email, webhook]
+ *         type:
+ *           type: string
+ *           description: Message kind within the channel (notification template, WhatsApp template or webhook event type)
+ *           example: expiration_warning
+ *         payload:
+ *           type: object
+ *         dedupeKey:
+ *           type: string
+ *           nullable: true
+ *         status:
+ *           type: string
+ *           enum: [pending, sent, skipped, dead]
+ *           description: skipped = channel disabled when dispatched; dead = retries exhausted
+ *         attempts:
+ *           type: integer
+ *         nextAttemptAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         lastAttemptAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         lastError:
+ *           type: string
+ *           nullable: true
+ *         sentAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/admin/outbox:
+ *   get:
+ *     summary: List outbox messages
+ *     description: |
+ *       Queued customer notifications, WhatsApp messages, emails and webhook events, newest first.
+ *       Filter by status=dead for messages that exhausted their retries. Requires the outbox:read permission.
+ *     tags: [Admin - Outbox]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: channel
+ *         schema:
+ *           type: string
+ *           enum: [notification, whatsapp, email, webhook]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, sent, skipped, dead]
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Outbox messages retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         messages:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/OutboxMessage'
+ *                         pagination:
+ *                           $ref: '#/components/schemas/Pagination'
+ */
+router.get(
+  '/',
+  requirePermission('outbox:read'),
+  [
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Page must be a positive integer'),
+    query('pageSize')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Page size must be between 1 and 100'),
+    query('channel')
+      .optional()
+      .isIn(OUTBOX_CHANNELS)
+      .withMessage(`Channel must be one of: ${OUTBOX_CHANNELS.join(', ')}`),
+    query('status')
+      .optional()
+      .isIn(OUTBOX_STATUSES)
+      .withMessage(`Status must be one of: ${OUTBOX_STATUSES.join(', ')}`),
+    query('type')
+      .optional()
+      .isString()
+      .trim(),
+  ],
+  validateRequest,
+  AdminOutboxController.getMessages
+);
+
+/**
+ * @swagger
+ * /api/admin/outbox/stats:
+ *   get:
+ *     summary: Get outbox statistics
+ *     description: Message counts by status and channel, retrying messages and the oldest pending message. Requires the outbox:read permission.
+ *     tags: [Admin - Outbox]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Outbox statistics retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         byStatus:
+ *                           type: object
+ *                           example: { pending: 2, sent: 120, skipped: 0, dead: 1 }
+ *                         byChannel:
+ *                           type: object
+ *                           example: { whatsapp: { sent: 80, dead: 1 }, webhook: { sent: 40, pending: 2 } }
+ *                         retrying:
+ *                           type: integer
+ *                           description: Pending messages that have failed at least once
+ *                         oldestPendingAt:
+ *                           type: string
+ *                           format: date-time
+ *                           nullable: true
+ */
+router.get(
+  '/stats',
+  requirePermission('outbox:read'),
+  AdminOutboxController.getStats
+);
+
+/**
+ * @swagger
+ * /api/admin/outbox/{id}:
+ *   get:
+ *     summary: Get an outbox message
+ *     description: Requires the outbox:read permission.
+ *     tags: [Admin - Outbox]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Outbox message retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/OutboxMessage'
+ *       404:
+ *         description: Outbox message not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id',
+  requirePermission('outbox:read'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('Outbox message ID must be a positive integer'),
+  ],
+  validateRequest,
+  AdminOutboxController.getMessage
+);
+
+/**
+ * @swagger
+ * /api/admin/outbox/{id}/retry:
+ *   post:
+ *     summary: Retry an outbox message
+ *     description: |
+ *       Put a dead-lettered or skipped message back in the queue with a fresh set of attempts and dispatch it.
+ *       Requires the outbox:manage permission.
+ *     tags: [Admin - Outbox]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Outbox message requeued
+ *       404:
+ *         description: Outbox message not found
+ *       409:
+ *         description: Message is pending or already sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/retry',
+  requirePermission('outbox:manage'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('Outbox message ID must be a positive integer'),
+  ],
+  validateRequest,
+  AdminOutboxController.retryMessage
+);
+
+export default router;
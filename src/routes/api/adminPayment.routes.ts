@@ -1,14 +1,16 @@
 import { Router } from 'express';
 import { AdminPaymentController } from '../../controllers/adminPayment.controller';
-import { authenticateAdmin } from '../../middleware/auth.middleware';
+import { authenticateAdminOrApiKey, requirePermission } from '../../middleware/auth.middleware';
 import { query, param, body } from 'express-validator';
-import { validateRequest } from '../../middleware/validation.middleware';
+import { validateRequest, validateCheckoutPaymentType, validateCheckoutAdditionalUsers } from '../../middleware/validation.middleware';
 import { adminLimiter } from '../../config/rateLimit.config';
+import { SUPPORTED_CURRENCIES } from '../../services/exchangeRate.service';
+import { PAYMENT_KINDS } from '../../services/payment.service';
 
 const router = Router();
 
-// All routes require admin authentication
-router.use(authenticateAdmin);
+// All routes require admin authentication (JWT or API key)
+router.use(authenticateAdminOrApiKey);
 
 // Apply admin rate limiting to all routes
 router.use(adminLimiter);
@@ -60,9 +62,15 @@ router.use(adminLimiter);
  *                         totalPayments:
  *                           type: integer
  *                           example: 50
+ *                           description: Voided payments and refund or void entries are not counted
  *                         averagePayment:
  *                           type: number
  *                           example: 200.0
+ *                         refundCount:
+ *                           type: integer
+ *                         totalRefundedAmount:
+ *                           type: number
+ *                           description: Already deducted from the amounts, which are net
  *       401:
  *         description: Unauthorized
  *         content:
@@ -78,6 +86,7 @@ router.use(adminLimiter);
  */
 router.get(
   '/stats',
+  requirePermission('payments:read'),
   [
     query('startDate')
       .optional()
@@ -146,6 +155,12 @@ router.get(
  *           enum: [true, false, 1, 0]
  *         description: Filter by annual subscription payments
  *       - in: query
+ *         name: kind
+ *         schema:
+ *           type: string
+ *           enum: [payment, refund, void]
+ *         description: Filter by ledger entry kind
+ *       - in: query
  *         name: sortBy
  *         schema:
  *           type: string
@@ -192,6 +207,7 @@ router.get(
  */
 router.get(
   '/',
+  requirePermission('payments:read'),
   [
     query('page')
       .optional()
@@ -217,6 +233,10 @@ router.get(
       .optional()
       .isIn(['true', 'false', '1', '0'])
       .withMessage('isAnnualSubscription must be true, false, 1, or 0'),
+    query('kind')
+      .optional()
+      .isIn(PAYMENT_KINDS)
+      .withMessage(`kind must be one of: ${PAYMENT_KINDS.join(', ')}`),
     query('sortBy')
       .optional()
       .isString()
@@ -231,6 +251,89 @@ router.get(
   AdminPaymentController.getPayments
 );
 
+/**
+ * @swagger
+ * /api/admin/payments/checkout:
+ *   post:
+ *     summary: Create a Stripe Checkout session for a license
+ *     description: |
+ *       Create a payment link for an initial purchase, an annual renewal or extra users, priced from the license,
+ *       to send to the customer. The payment is recorded automatically once Stripe reports it paid.
+ *     tags: [Admin - Payments, Stripe]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - licenseId
+ *               - paymentType
+ *             properties:
+ *               licenseId:
+ *                 type: integer
+ *                 minimum: 1
+ *               paymentType:
+ *                 type: string
+ *                 enum: [initial, annual, user]
+ *               additionalUsers:
+ *                 type: integer
+ *                 minimum: 1
+ *                 description: Required for user payments
+ *               successUrl:
+ *                 type: string
+ *                 format: uri
+ *                 description: Defaults to CHECKOUT_SUCCESS_URL
+ *               cancelUrl:
+ *                 type: string
+ *                 format: uri
+ *                 description: Defaults to CHECKOUT_CANCEL_URL
+ *     responses:
+ *       201:
+ *         description: Checkout session created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/CheckoutSession'
+ *       400:
+ *         description: Invalid request or payment not allowed for the license
+ *       404:
+ *         description: License not found
+ *       502:
+ *         description: Stripe rejected the checkout session
+ *       503:
+ *         description: Stripe is not configured
+ */
+router.post(
+  '/checkout',
+  requirePermission('payments:write'),
+  [
+    body('licenseId')
+      .isInt({ min: 1 })
+      .withMessage('License ID must be a positive integer')
+      .toInt(),
+    validateCheckoutPaymentType(),
+    validateCheckoutAdditionalUsers(),
+    body('successUrl')
+      .optional()
+      .isURL({ require_tld: false })
+      .withMessage('successUrl must be a valid URL'),
+    body('cancelUrl')
+      .optional()
+      .isURL({ require_tld: false })
+      .withMessage('cancelUrl must be a valid URL'),
+  ],
+  validateRequest,
+  AdminPaymentController.createCheckoutSession
+);
+
 /**
  * @swagger
  * /api/admin/payments/{id}:
@@ -300,6 +403,10 @@ router.get(
  *                 type: number
  *                 minimum: 0
  *                 description: Payment amount (can be 0)
+ *               currency:
+ *                 type: string
+ *                 enum: [USD, LBP]
+ *                 description: Currency of the amount (defaults to the license currency)
  *               paymentDate:
  *                 type: string
  *                 format: date-time
@@ -307,9 +414,12 @@ router.get(
  *               isAnnualSubscription:
  *                 type: boolean
  *                 description: Whether this is an annual subscription payment
+ *               sendInvoice:
+ *                 type: boolean
+ *                 description: Send the invoice to the customer's verified phone over WhatsApp (defaults to INVOICE_WHATSAPP_ENABLED)
  *     responses:
  *       201:
- *         description: Payment created successfully
+ *         description: Payment created successfully (an invoice is issued with every payment)
  *         content:
  *           application/json:
  *             schema:
@@ -334,6 +444,7 @@ router.get(
  */
 router.post(
   '/',
+  requirePermission('payments:write'),
   [
     body('licenseId')
       .isInt({ min: 1 })
@@ -341,6 +452,11 @@ router.post(
     body('amount')
       .isFloat({ min: 0 })
       .withMessage('Amount must be 0 or greater'),
+    body('currency')
+      .optional()
+      .toUpperCase()
+      .isIn(SUPPORTED_CURRENCIES)
+      .withMessage(`currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`),
     body('paymentDate')
       .optional()
       .isISO8601()
@@ -356,6 +472,10 @@ router.post(
       .optional()
       .isInt({ min: 1 })
       .withMessage('additionalUsers must be a positive integer'),
+    body('sendInvoice')
+      .optional()
+      .isBoolean()
+      .withMessage('sendInvoice must be a boolean'),
   ],
   validateRequest,
   AdminPaymentController.createPayment
@@ -404,6 +524,7 @@ router.post(
  */
 router.get(
   '/:id',
+  requirePermission('payments:read'),
   [
     param('id')
       .isInt({ min: 1 })
@@ -413,5 +534,270 @@ router.get(
   AdminPaymentController.getPaymentById
 );
 
-export default router;
+/**
+ * @swagger
+ * /api/admin/payments/{id}/invoice:
+ *   get:
+ *     summary: Get the invoice of a payment
+ *     description: |
+ *       Every payment has one invoice, numbered without gaps per payment type and year (e.g. INV-A-2026-00042).
+ *       Payments recorded before invoicing existed are invoiced on first request.
+ *       Use format=html for a printable page or format=pdf to download the PDF.
+ *     tags: [Admin - Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Payment ID
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, html, pdf]
+ *           default: json
+ *     responses:
+ *       200:
+ *         description: Invoice retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Invoice'
+ *           text/html:
+ *             schema:
+ *               type: string
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Payment not found
+ */
+router.get(
+  '/:id/invoice',
+  requirePermission('payments:read'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('Payment ID must be a positive integer'),
+    query('format')
+      .optional()
+      .isIn(['json', 'html', 'pdf'])
+      .withMessage('format must be one of: json, html, pdf'),
+  ],
+  validateRequest,
+  AdminPaymentController.getInvoice
+);
 
+/**
+ * @swagger
+ * /api/admin/payments/{id}/invoice/send:
+ *   post:
+ *     summary: Send the invoice of a payment over WhatsApp
+ *     description: Queue the invoice as a WhatsApp receipt to the customer's verified phone number.
+ *     tags: [Admin - Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Payment ID
+ *     responses:
+ *       202:
+ *         description: Invoice queued for WhatsApp delivery
+ *       400:
+ *         description: WhatsApp is not enabled or the customer has no verified phone number
+ *       404:
+ *         description: Payment not found
+ */
+router.post(
+  '/:id/invoice/send',
+  requirePermission('payments:write'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('Payment ID must be a positive integer'),
+  ],
+  validateRequest,
+  AdminPaymentController.sendInvoice
+);
+
+/**
+ * @swagger
+ * /api/admin/payments/{id}/refund:
+ *   post:
+ *     summary: Refund a payment
+ *     description: |
+ *       Record that part or all of a payment was returned to the customer. A refund entry with a negative amount
+ *       is added to the ledger, dated now, and a credit note is issued against the payment's invoice. Revenue
+ *       reports and statistics are net of refunds. The money itself is returned outside the server.
+ *
+ *       With revertSideEffects, the license and subscription changes the payment made (free trial conversion,
+ *       user limit increase, subscription renewal) are undone in the same transaction; only allowed once the
+ *       payment is refunded in full.
+ *     tags: [Admin - Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Payment ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 description: Amount to refund in the payment's currency (defaults to everything not refunded yet)
+ *               reason:
+ *                 type: string
+ *                 example: Customer cancelled within 14 days
+ *               revertSideEffects:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       201:
+ *         description: Payment refunded; returns the refund entry
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Payment'
+ *       400:
+ *         description: The payment cannot be refunded for that amount, or its changes cannot be reverted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Payment not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/refund',
+  requirePermission('payments:write'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('Payment ID must be a positive integer'),
+    body('amount')
+      .optional()
+      .isFloat({ gt: 0 })
+      .withMessage('Amount must be greater than 0')
+      .toFloat(),
+    body('reason')
+      .optional()
+      .isString()
+      .isLength({ max: 255 })
+      .withMessage('reason must be at most 255 characters'),
+    body('revertSideEffects')
+      .optional()
+      .isBoolean()
+      .withMessage('revertSideEffects must be a boolean'),
+  ],
+  validateRequest,
+  AdminPaymentController.refundPayment
+);
+
+/**
+ * @swagger
+ * /api/admin/payments/{id}/void:
+ *   post:
+ *     summary: Void a payment
+ *     description: |
+ *       Cancel a payment recorded by mistake. A void entry for the full amount is added to the ledger on the
+ *       payment's own date, so revenue for that period nets to zero, and a credit note is issued against the
+ *       payment's invoice. The license and subscription changes the payment made are undone in the same
+ *       transaction unless revertSideEffects is false. Partially refunded payments cannot be voided.
+ *     tags: [Admin - Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Payment ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: Recorded on the wrong license
+ *               revertSideEffects:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Payment voided; returns the void entry
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Payment'
+ *       400:
+ *         description: The payment cannot be voided, or its changes cannot be reverted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Payment not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/void',
+  requirePermission('payments:write'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('Payment ID must be a positive integer'),
+    body('reason')
+      .optional()
+      .isString()
+      .isLength({ max: 255 })
+      .withMessage('reason must be at most 255 characters'),
+    body('revertSideEffects')
+      .optional()
+      .isBoolean()
+      .withMessage('revertSideEffects must be a boolean'),
+  ],
+  validateRequest,
+  AdminPaymentController.voidPayment
+);
+
+export default router;
@@ -0,0 +1,675 @@
+import { Router } from 'express';
+import { AdminProductController } from '../../controllers/adminProduct.controller';
+import { authenticateAdminOrApiKey, requirePermission } from '../../middleware/auth.middleware';
+import { body, param, query, ValidationChain } from 'express-validator';
+import { validateRequest } from '../../middleware/validation.middleware';
+import { adminLimiter } from '../../config/rateLimit.config';
+import { SUPPORTED_CURRENCIES } from '../../services/exchangeRate.service';
+
+const router = Router();
+
+// All routes require admin authentication (JWT or API key)
+router.use(authenticateAdminOrApiKey);
+
+// Apply admin rate limiting to all routes
+router.use(adminLimiter);
+
+const CODE_PATTERN = /^[a-z0-9][a-z0-9_-]{0,49}$/i;
+
+/**
+ * Edition field validators
+ * @param prefix Field path prefix ('' for an edition body, 'editions.*.' for editions nested in a product)
+ * @param requireAll Require code, name and prices (create) or accept partial updates
+ */
+const editionValidators = (prefix: string, requireAll: boolean): ValidationChain[] => {
+  const field = (name: string) => (requireAll ? body(`${prefix}${name}`) : body(`${prefix}${name}`).optional());
+
+  return [
+    ...(requireAll
+      ? [
+          body(`${prefix}code`)
+            .isString()
+            .trim()
+            .matches(CODE_PATTERN)
+            .withMessage("Edition code must be 1-50 letters, digits, '-' or '_'"),
+        ]
+      : []),
+    field('name')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 255 })
+      .withMessage('Edition name must be between 1 and 255 characters'),
+    field('initialPrice')
+      .isFloat({ min: 0 })
+      .withMessage('Initial price must be a positive number'),
+    field('annualPrice')
+      .isFloat({ min: 0 })
+      .withMessage('Annual price must be a positive number'),
+    field('pricePerUser')
+      .isFloat({ min: 0 })
+      .withMessage('Price per user must be a positive number'),
+    body(`${prefix}currency`)
+      .optional()
+      .toUpperCase()
+      .isIn(SUPPORTED_CURRENCIES)
+      .withMessage(`Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`),
+    body(`${prefix}userLimit`)
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('User limit must be a positive integer'),
+    body(`${prefix}maxActivations`)
+      .optional({ values: 'null' })
+      .isInt({ min: 1 })
+      .withMessage('maxActivations must be a positive integer or null'),
+    body(`${prefix}trialDays`)
+      .optional()
+      .isInt({ min: 1, max: 365 })
+      .withMessage('Trial days must be between 1 and 365'),
+    body(`${prefix}features`)
+      .optional()
+      .isArray({ max: 100 })
+      .withMessage('Features must be an array of at most 100 feature codes'),
+    body(`${prefix}features.*`)
+      .isString()
+      .matches(CODE_PATTERN)
+      .withMessage("Feature codes must be 1-50 letters, digits, '-' or '_'"),
+    body(`${prefix}isDefault`)
+      .optional()
+      .isBoolean()
+      .withMessage('isDefault must be a boolean'),
+    body(`${prefix}isActive`)
+      .optional()
+      .isBoolean()
+      .withMessage('isActive must be a boolean'),
+  ];
+};
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Edition:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           example: 1
+ *         productId:
+ *           type: integer
+ *           example: 1
+ *         code:
+ *           type: string
+ *           example: basic
+ *         name:
+ *           type: string
+ *           example: Basic
+ *         initialPrice:
+ *           type: string
+ *           example: "350.00"
+ *         annualPrice:
+ *           type: string
+ *           example: "50.00"
+ *         pricePerUser:
+ *           type: string
+ *           example: "25.00"
+ *         currency:
+ *           type: string
+ *           enum: [USD, LBP]
+ *           example: USD
+ *         userLimit:
+ *           type: integer
+ *           example: 2
+ *         maxActivations:
+ *           type: integer
+ *           nullable: true
+ *           description: Device limit for new licenses; null uses the server default
+ *         trialDays:
+ *           type: integer
+ *           example: 10
+ *         features:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: [inventory, barcode_printing]
+ *         isDefault:
+ *           type: boolean
+ *           description: Edition used when a license names only the product
+ *         isActive:
+ *           type: boolean
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     Product:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           example: 1
+ *         code:
+ *           type: string
+ *           example: grocery
+ *           description: Referenced by License.version and the POS app's appType
+ *         name:
+ *           type: string
+ *           example: Grocery POS
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         isActive:
+ *           type: boolean
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *         editions:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Edition'
+ *     EditionInput:
+ *       type: object
+ *       properties:
+ *         code:
+ *           type: string
+ *           example: pro
+ *         name:
+ *           type: string
+ *           example: Pro
+ *         initialPrice:
+ *           type: number
+ *           example: 500
+ *         annualPrice:
+ *           type: number
+ *           example: 80
+ *         pricePerUser:
+ *           type: number
+ *           example: 25
+ *         currency:
+ *           type: string
+ *           enum: [USD, LBP]
+ *           description: Currency of the prices (defaults to DEFAULT_CURRENCY)
+ *         userLimit:
+ *           type: integer
+ *           example: 5
+ *         maxActivations:
+ *           type: integer
+ *           nullable: true
+ *           example: 3
+ *         trialDays:
+ *           type: integer
+ *           example: 14
+ *         features:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: [inventory, barcode_printing, multi_branch]
+ *         isDefault:
+ *           type: boolean
+ *         isActive:
+ *           type: boolean
+ */
+
+/**
+ * @swagger
+ * /api/admin/products:
+ *   get:
+ *     summary: List catalog products
+ *     description: List products with their editions. Inactive products and editions are hidden unless includeInactive is set.
+ *     tags: [Admin - Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *         description: Include deactivated products and editions
+ *     responses:
+ *       200:
+ *         description: Products retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Product'
+ *       401:
+ *         description: Unauthorized
+ */
+router.get(
+  '/',
+  requirePermission('products:read'),
+  [
+    query('includeInactive')
+      .optional()
+      .isIn(['true', 'false', '1', '0'])
+      .withMessage('includeInactive must be true, false, 1, or 0'),
+  ],
+  validateRequest,
+  AdminProductController.getProducts
+);
+
+/**
+ * @swagger
+ * /api/admin/products/{id}:
+ *   get:
+ *     summary: Get catalog product by ID
+ *     description: Get a product with all its editions and the number of licenses sold
+ *     tags: [Admin - Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Product ID
+ *     responses:
+ *       200:
+ *         description: Product retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Product'
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Product not found
+ */
+router.get(
+  '/:id',
+  requirePermission('products:read'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('Product ID must be a positive integer'),
+  ],
+  validateRequest,
+  AdminProductController.getProductById
+);
+
+/**
+ * @swagger
+ * /api/admin/products:
+ *   post:
+ *     summary: Create catalog product
+ *     description: Create a product, optionally with its editions. The first edition becomes the default unless one sets isDefault.
+ *     tags: [Admin - Products]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - name
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: restaurant
+ *               name:
+ *                 type: string
+ *                 example: Restaurant POS
+ *               description:
+ *                 type: string
+ *               isActive:
+ *                 type: boolean
+ *               editions:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/EditionInput'
+ *     responses:
+ *       201:
+ *         description: Product created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Product'
+ *       400:
+ *         description: Product code already exists or duplicate edition codes
+ *       401:
+ *         description: Unauthorized
+ *       422:
+ *         description: Validation error
+ */
+router.post(
+  '/',
+  requirePermission('products:write'),
+  [
+    body('code')
+      .isString()
+      .trim()
+      .matches(CODE_PATTERN)
+      .withMessage("Product code must be 1-50 letters, digits, '-' or '_'"),
+    body('name')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 255 })
+      .withMessage('Product name must be between 1 and 255 characters'),
+    body('description')
+      .optional()
+      .isString()
+      .isLength({ max: 1000 })
+      .withMessage('Description must be at most 1000 characters'),
+    body('isActive')
+      .optional()
+      .isBoolean()
+      .withMessage('isActive must be a boolean'),
+    body('editions')
+      .optional()
+      .isArray({ max: 20 })
+      .withMessage('Editions must be an array of at most 20 editions'),
+    ...editionValidators('editions.*.', true),
+  ],
+  validateRequest,
+  AdminProductController.createProduct
+);
+
+/**
+ * @swagger
+ * /api/admin/products/{id}:
+ *   patch:
+ *     summary: Update catalog product
+ *     description: Update product name, description or availability. The product code cannot change. Deactivated products cannot be sold; existing licenses keep working.
+ *     tags: [Admin - Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Product ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Product updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Product'
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Product not found
+ */
+router.patch(
+  '/:id',
+  requirePermission('products:write'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('Product ID must be a positive integer'),
+    body('name')
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 255 })
+      .withMessage('Product name must be between 1 and 255 characters'),
+    body('description')
+      .optional({ values: 'null' })
+      .isString()
+      .isLength({ max: 1000 })
+      .withMessage('Description must be at most 1000 characters'),
+    body('isActive')
+      .optional()
+      .isBoolean()
+      .withMessage('isActive must be a boolean'),
+  ],
+  validateRequest,
+  AdminProductController.updateProduct
+);
+
+/**
+ * @swagger
+ * /api/admin/products/{id}:
+ *   delete:
+ *     summary: Delete catalog product
+ *     description: Delete a product and its editions. Products with licenses cannot be deleted - deactivate them instead.
+ *     tags: [Admin - Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Product ID
+ *     responses:
+ *       200:
+ *         description: Product deleted successfully
+ *       400:
+ *         description: Product has licenses
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Product not found
+ */
+router.delete(
+  '/:id',
+  requirePermission('products:write'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('Product ID must be a positive integer'),
+  ],
+  validateRequest,
+  AdminProductController.deleteProduct
+);
+
+/**
+ * @swagger
+ * /api/admin/products/{id}/editions:
+ *   post:
+ *     summary: Add edition to product
+ *     description: Add an edition (tier) to a product. Setting isDefault makes it the product's default edition.
+ *     tags: [Admin - Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Product ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/EditionInput'
+ *               - type: object
+ *                 required:
+ *                   - code
+ *                   - name
+ *                   - initialPrice
+ *                   - annualPrice
+ *                   - pricePerUser
+ *     responses:
+ *       201:
+ *         description: Edition created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Edition'
+ *       400:
+ *         description: Edition code already exists for this product
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Product not found
+ */
+router.post(
+  '/:id/editions',
+  requirePermission('products:write'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('Product ID must be a positive integer'),
+    ...editionValidators('', true),
+  ],
+  validateRequest,
+  AdminProductController.createEdition
+);
+
+/**
+ * @swagger
+ * /api/admin/products/{id}/editions/{editionId}:
+ *   patch:
+ *     summary: Update edition
+ *     description: Update an edition's defaults. Changes apply to licenses created afterwards; existing licenses keep their prices and limits. The edition code cannot change.
+ *     tags: [Admin - Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Product ID
+ *       - in: path
+ *         name: editionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Edition ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/EditionInput'
+ *     responses:
+ *       200:
+ *         description: Edition updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Edition'
+ *       400:
+ *         description: Cannot unset or deactivate the default edition
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Edition not found
+ */
+router.patch(
+  '/:id/editions/:editionId',
+  requirePermission('products:write'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('Product ID must be a positive integer'),
+    param('editionId')
+      .isInt({ min: 1 })
+      .withMessage('Edition ID must be a positive integer'),
+    ...editionValidators('', false),
+  ],
+  validateRequest,
+  AdminProductController.updateEdition
+);
+
+/**
+ * @swagger
+ * /api/admin/products/{id}/editions/{editionId}:
+ *   delete:
+ *     summary: Delete edition
+ *     description: Delete an edition. Editions with licenses cannot be deleted - deactivate them instead.
+ *     tags: [Admin - Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Product ID
+ *       - in: path
+ *         name: editionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Edition ID
+ *     responses:
+ *       200:
+ *         description: Edition deleted successfully
+ *       400:
+ *         description: Edition has licenses or is the default edition
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Edition not found
+ */
+router.delete(
+  '/:id/editions/:editionId',
+  requirePermission('products:write'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('Product ID must be a positive integer'),
+    param('editionId')
+      .isInt({ min: 1 })
+      .withMessage('Edition ID must be a positive integer'),
+  ],
+  validateRequest,
+  AdminProductController.deleteEdition
+);
+
+export default router;
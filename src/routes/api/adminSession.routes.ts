@@ -0,0 +1,168 @@
+import { Router } from 'express';
+import { AdminSessionController } from '../../controllers/adminSession.controller';
+import { authenticateAdmin } from '../../middleware/auth.middleware';
+import { param } from 'express-validator';
+import { validateRequest } from '../../middleware/validation.middleware';
+import { adminLimiter } from '../../config/rateLimit.config';
+
+const router = Router();
+
+// All routes require admin authentication
+router.use(authenticateAdmin);
+
+// Apply admin rate limiting to all routes
+router.use(adminLimiter);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AdminSession:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         ipAddress:
+ *           type: string
+ *           nullable: true
+ *           example: 203.0.113.7
+ *         userAgent:
+ *           type: string
+ *           nullable: true
+ *         deviceName:
+ *           type: string
+ *           nullable: true
+ *           example: Chrome on Windows
+ *         lastActiveAt:
+ *           type: string
+ *           format: date-time
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *           description: Login time
+ *         current:
+ *           type: boolean
+ *           description: Whether this is the session making the request
+ */
+
+/**
+ * @swagger
+ * /api/admin/sessions:
+ *   get:
+ *     summary: List active sessions
+ *     description: |
+ *       List the authenticated admin's active login sessions, most recently active first.
+ *       Sessions end on logout, revocation, password change, or after ADMIN_SESSION_IDLE_MINUTES
+ *       (default 60) without a request.
+ *     tags: [Admin - Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         sessions:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/AdminSession'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/', AdminSessionController.listSessions);
+
+/**
+ * @swagger
+ * /api/admin/sessions/revoke-others:
+ *   post:
+ *     summary: Revoke all other sessions
+ *     description: Log out every session of the authenticated admin except the one making the request.
+ *     tags: [Admin - Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Other sessions revoked successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         revoked:
+ *                           type: integer
+ *                           example: 2
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/revoke-others', AdminSessionController.revokeOtherSessions);
+
+/**
+ * @swagger
+ * /api/admin/sessions/{id}:
+ *   delete:
+ *     summary: Revoke a session
+ *     description: Log out one of the authenticated admin's sessions. Revoking the current session logs the caller out.
+ *     tags: [Admin - Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Session ID
+ *     responses:
+ *       200:
+ *         description: Session revoked successfully
+ *       400:
+ *         description: Invalid session ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Session not found or already ended
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  '/:id',
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid session ID'),
+  ],
+  validateRequest,
+  AdminSessionController.revokeSession
+);
+
+export default router;
@@ -0,0 +1,177 @@
+import { Router } from 'express';
+import { AdminSigningKeyController } from '../../controllers/adminSigningKey.controller';
+import { authenticateAdmin, requirePermission } from '../../middleware/auth.middleware';
+import { param } from 'express-validator';
+import { validateRequest } from '../../middleware/validation.middleware';
+import { adminLimiter } from '../../config/rateLimit.config';
+
+const router = Router();
+
+// All routes require admin authentication
+router.use(authenticateAdmin);
+
+// Apply admin rate limiting to all routes
+router.use(adminLimiter);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SigningKey:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           example: 1
+ *         kid:
+ *           type: string
+ *           example: "3f9a1c2b7d4e6f80"
+ *         algorithm:
+ *           type: string
+ *           example: "RS256"
+ *         status:
+ *           type: string
+ *           enum: [active, inactive, retired]
+ *           example: "active"
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         rotatedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         retiredAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /api/admin/signing-keys:
+ *   get:
+ *     summary: List token signing keys
+ *     description: List all token signing keys with their status. Private key material is never returned.
+ *     tags: [Admin - Signing Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Signing keys retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         keys:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/SigningKey'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/', requirePermission('signing_keys:manage'), AdminSigningKeyController.listKeys);
+
+/**
+ * @swagger
+ * /api/admin/signing-keys/rotate:
+ *   post:
+ *     summary: Rotate the token signing key
+ *     description: |
+ *       Generate a new active signing key. The previous active key becomes inactive:
+ *       it no longer signs tokens but keeps verifying the tokens it already signed.
+ *     tags: [Admin - Signing Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Signing key rotated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/SigningKey'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/rotate', requirePermission('signing_keys:manage'), AdminSigningKeyController.rotateKey);
+
+/**
+ * @swagger
+ * /api/admin/signing-keys/{id}/retire:
+ *   post:
+ *     summary: Retire a signing key
+ *     description: |
+ *       Retire an inactive signing key. Every token signed with a retired key is rejected
+ *       and the key is removed from the JWKS. The active key must be rotated out first.
+ *     tags: [Admin - Signing Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Signing key ID
+ *     responses:
+ *       200:
+ *         description: Signing key retired successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/SigningKey'
+ *       400:
+ *         description: Key is active or already retired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Signing key not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/retire',
+  requirePermission('signing_keys:manage'),
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('Signing key ID must be a positive integer'),
+  ],
+  validateRequest,
+  AdminSigningKeyController.retireKey
+);
+
+export default router;
@@ -1,18 +1,39 @@
 import { Router } from 'express';
 import { AdminStatsController } from '../../controllers/adminStats.controller';
-import { authenticateAdmin } from '../../middleware/auth.middleware';
+import { authenticateAdminOrApiKey, requirePermission } from '../../middleware/auth.middleware';
 import { query } from 'express-validator';
 import { validateRequest } from '../../middleware/validation.middleware';
 import { adminLimiter } from '../../config/rateLimit.config';
+import { USAGE_REPORT_SORT_FIELDS } from '../../services/usage.service';
+import { SUPPORTED_CURRENCIES } from '../../services/exchangeRate.service';
 
 const router = Router();
 
-// All routes require admin authentication
-router.use(authenticateAdmin);
+// All routes require admin authentication (JWT or API key)
+router.use(authenticateAdminOrApiKey);
 
 // Apply admin rate limiting to all routes
 router.use(adminLimiter);
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     UsageTotals:
+ *       type: object
+ *       properties:
+ *         transactions:
+ *           type: integer
+ *           example: 4210
+ *         invoices_printed:
+ *           type: integer
+ *           example: 3985
+ *         skus_stored:
+ *           type: integer
+ *           description: Peak value reported
+ *           example: 1250
+ */
+
 /**
  * @swagger
  * /api/admin/stats:
@@ -60,7 +81,7 @@ router.use(adminLimiter);
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.get('/stats', AdminStatsController.getStats);
+router.get('/stats', requirePermission('reports:read'), AdminStatsController.getStats);
 
 /**
  * @swagger
@@ -118,6 +139,7 @@ router.get('/stats', AdminStatsController.getStats);
  */
 router.get(
   '/reports/licenses',
+  requirePermission('reports:read'),
   [
     query('status')
       .optional()
@@ -143,12 +165,177 @@ router.get(
   AdminStatsController.exportLicenses
 );
 
+/**
+ * @swagger
+ * /api/admin/reports/usage:
+ *   get:
+ *     summary: Get metered usage per license
+ *     description: |
+ *       Usage reported by POS terminals through /api/license/usage, aggregated per license over a period of
+ *       business days and sorted with the heaviest users first. Counters are summed over the period, skus_stored
+ *       is the peak reported value. Use format=csv to download the report.
+ *     tags: [Admin - Statistics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: First business day (YYYY-MM-DD, defaults to 30 days before endDate)
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Last business day (YYYY-MM-DD, defaults to today)
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [transactions, invoices_printed, skus_stored, activeDays, devices]
+ *           default: transactions
+ *         description: Usage field to rank licenses by (descending)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 1000
+ *         description: Only return the top N licenses
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv]
+ *           default: json
+ *     responses:
+ *       200:
+ *         description: Usage report retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         period:
+ *                           type: object
+ *                           properties:
+ *                             startDate:
+ *                               type: string
+ *                               format: date
+ *                             endDate:
+ *                               type: string
+ *                               format: date
+ *                         sortBy:
+ *                           type: string
+ *                         totals:
+ *                           $ref: '#/components/schemas/UsageTotals'
+ *                         licenses:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               licenseId:
+ *                                 type: integer
+ *                               licenseKey:
+ *                                 type: string
+ *                               customerName:
+ *                                 type: string
+ *                                 nullable: true
+ *                               customerPhone:
+ *                                 type: string
+ *                                 nullable: true
+ *                               locationName:
+ *                                 type: string
+ *                                 nullable: true
+ *                               status:
+ *                                 type: string
+ *                               userCount:
+ *                                 type: integer
+ *                               userLimit:
+ *                                 type: integer
+ *                               devices:
+ *                                 type: integer
+ *                               activeDays:
+ *                                 type: integer
+ *                               lastReportedDate:
+ *                                 type: string
+ *                                 format: date
+ *                                 nullable: true
+ *                               usage:
+ *                                 $ref: '#/components/schemas/UsageTotals'
+ *                               dailyAverage:
+ *                                 type: object
+ *                                 properties:
+ *                                   transactions:
+ *                                     type: number
+ *                                   invoices_printed:
+ *                                     type: number
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Start date after end date
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       422:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/reports/usage',
+  requirePermission('reports:read'),
+  [
+    query('startDate')
+      .optional()
+      .isISO8601({ strict: true })
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage('Start date must be a date in YYYY-MM-DD format'),
+    query('endDate')
+      .optional()
+      .isISO8601({ strict: true })
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage('End date must be a date in YYYY-MM-DD format'),
+    query('sortBy')
+      .optional()
+      .isIn(USAGE_REPORT_SORT_FIELDS)
+      .withMessage(`Sort field must be one of: ${USAGE_REPORT_SORT_FIELDS.join(', ')}`),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 1000 })
+      .withMessage('Limit must be between 1 and 1000'),
+    query('format')
+      .optional()
+      .isIn(['json', 'csv'])
+      .withMessage('Format must be either json or csv'),
+  ],
+  validateRequest,
+  AdminStatsController.getUsageReport
+);
+
 /**
  * @swagger
  * /api/admin/reports/revenue:
  *   get:
  *     summary: Get revenue report by period and trends
- *     description: Retrieve revenue statistics and trends for a specified date range
+ *     description: |
+ *       Retrieve monthly revenue and trends for a specified date range. Every payment is converted to the report
+ *       currency at the exchange rate in effect on its payment date; payments with no rate in effect are counted
+ *       in unconvertedCount and left out of the amounts. Amounts are net: refunds are deducted in the month they
+ *       were made, and a voided payment nets to zero in its own month.
  *     tags: [Admin - Statistics]
  *     security:
  *       - bearerAuth: []
@@ -165,6 +352,12 @@ router.get(
  *           type: string
  *           format: date-time
  *         description: End date for revenue report (ISO 8601 format)
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           enum: [USD, LBP]
+ *         description: Report currency (defaults to REPORTING_CURRENCY)
  *     responses:
  *       200:
  *         description: Revenue report retrieved successfully
@@ -178,21 +371,52 @@ router.get(
  *                     data:
  *                       type: object
  *                       properties:
- *                         totalRevenue:
- *                           type: number
- *                           example: 10000.0
- *                         periodRevenue:
- *                           type: number
- *                           example: 5000.0
- *                         revenueByMonth:
+ *                         revenueByPeriod:
  *                           type: array
  *                           items:
  *                             type: object
  *                             properties:
- *                               month:
+ *                               period:
  *                                 type: string
- *                               revenue:
+ *                                 example: "2026-01"
+ *                               currency:
+ *                                 type: string
+ *                                 example: USD
+ *                               amount:
+ *                                 type: number
+ *                                 description: Net of refunds and voids
+ *                               count:
+ *                                 type: integer
+ *                                 description: Payments, not counting voided ones or refund and void entries
+ *                               initialPayments:
+ *                                 type: number
+ *                               subscriptionPayments:
  *                                 type: number
+ *                               refunds:
+ *                                 type: number
+ *                                 description: Refunded in the period, already deducted from amount
+ *                               unconvertedCount:
+ *                                 type: integer
+ *                         summary:
+ *                           type: object
+ *                           properties:
+ *                             currency:
+ *                               type: string
+ *                               example: USD
+ *                             totalRevenue:
+ *                               type: number
+ *                               example: 10000.0
+ *                             totalCount:
+ *                               type: integer
+ *                             totalRefunds:
+ *                               type: number
+ *                             unconvertedCount:
+ *                               type: integer
+ *                             periodCount:
+ *                               type: integer
+ *                             trend:
+ *                               type: number
+ *                               nullable: true
  *       401:
  *         description: Unauthorized
  *         content:
@@ -208,6 +432,7 @@ router.get(
  */
 router.get(
   '/reports/revenue',
+  requirePermission('reports:read'),
   [
     query('startDate')
       .optional()
@@ -217,6 +442,11 @@ router.get(
       .optional()
       .isISO8601()
       .withMessage('End date must be a valid ISO 8601 date'),
+    query('currency')
+      .optional()
+      .toUpperCase()
+      .isIn(SUPPORTED_CURRENCIES)
+      .withMessage(`currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`),
   ],
   validateRequest,
   AdminStatsController.getRevenueReport
@@ -269,7 +499,7 @@ router.get(
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.post('/jobs/update-expired-licenses', AdminStatsController.updateExpiredLicenses);
+router.post('/jobs/update-expired-licenses', requirePermission('licenses:write'), AdminStatsController.updateExpiredLicenses);
 
 export default router;
 
@@ -1,14 +1,14 @@
 import { Router } from 'express';
 import { AdminSubscriptionController } from '../../controllers/adminSubscription.controller';
-import { authenticateAdmin } from '../../middleware/auth.middleware';
+import { authenticateAdminOrApiKey, requirePermission } from '../../middleware/auth.middleware';
 import { query, param, body } from 'express-validator';
 import { validateRequest } from '../../middleware/validation.middleware';
 import { adminLimiter } from '../../config/rateLimit.config';
 
 const router = Router();
 
-// All routes require admin authentication
-router.use(authenticateAdmin);
+// All routes require admin authentication (JWT or API key)
+router.use(authenticateAdminOrApiKey);
 
 // Apply admin rate limiting to all routes
 router.use(adminLimiter);
@@ -109,6 +109,7 @@ router.use(adminLimiter);
  */
 router.get(
   '/',
+  requirePermission('subscriptions:read'),
   [
     query('page')
       .optional()
@@ -191,6 +192,7 @@ router.get(
  */
 router.get(
   '/:id',
+  requirePermission('subscriptions:read'),
   [
     param('id')
       .isInt({ min: 1 })
@@ -277,6 +279,7 @@ router.get(
  */
 router.put(
   '/:id',
+  requirePermission('subscriptions:write'),
   [
     param('id')
       .isInt({ min: 1 })
@@ -373,6 +376,7 @@ router.put(
  */
 router.post(
   '/:id/renew',
+  requirePermission('subscriptions:write'),
   [
     param('id')
       .isInt({ min: 1 })
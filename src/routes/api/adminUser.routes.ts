@@ -0,0 +1,714 @@
+import { Router } from 'express';
+import { AdminUserController } from '../../controllers/adminUser.controller';
+import { authenticateAdmin, requirePermission } from '../../middleware/auth.middleware';
+import { body, param } from 'express-validator';
+import { validateRequest } from '../../middleware/validation.middleware';
+import { adminLimiter } from '../../config/rateLimit.config';
+import { ADMIN_ROLES } from '../../config/permissions.config';
+
+const router = Router();
+
+// All routes require admin authentication
+router.use(authenticateAdmin);
+
+// Apply admin rate limiting to all routes
+router.use(adminLimiter);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AdminUser:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           example: 2
+ *         username:
+ *           type: string
+ *           example: "support_rita"
+ *         phone:
+ *           type: string
+ *           example: "+9613123456"
+ *         role:
+ *           type: string
+ *           enum: [owner, sales, support, finance, read_only]
+ *           example: "support"
+ *         isActive:
+ *           type: boolean
+ *           example: true
+ *         mustResetPassword:
+ *           type: boolean
+ *           description: True until an invited admin accepts the invitation, or after a forced password reset
+ *           example: false
+ *         passwordSetupExpiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Expiry of the pending invitation / password reset link
+ *         invitedBy:
+ *           type: integer
+ *           nullable: true
+ *           description: ID of the admin who sent the invitation
+ *         failedLoginAttempts:
+ *           type: integer
+ *           description: Failed password attempts in the current series
+ *         lockedUntil:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Set while the account is locked after failed logins
+ *         twoFactorMethod:
+ *           type: string
+ *           nullable: true
+ *           enum: [totp, whatsapp]
+ *           description: Enrolled two-factor method, null when not enrolled
+ *         lastLogin:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     AdminPasswordSetupLink:
+ *       type: object
+ *       properties:
+ *         user:
+ *           $ref: '#/components/schemas/AdminUser'
+ *         setupUrl:
+ *           type: string
+ *           description: One-time link to set a password. Shown once - share it if WhatsApp delivery failed.
+ *           example: "https://admin.example.com/admin/set-password?token=k3J9..."
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *         whatsappSent:
+ *           type: boolean
+ *           description: Whether the link was sent to the admin's phone via WhatsApp
+ */
+
+// Username and phone rules match PUT /api/admin/profile
+const usernameValidator = () =>
+  body('username')
+    .trim()
+    .isLength({ min: 3 })
+    .withMessage('Username must be at least 3 characters')
+    .matches(/^[a-zA-Z0-9_]+$/)
+    .withMessage('Username can only contain letters, numbers, and underscores');
+
+const phoneValidator = () =>
+  body('phone')
+    .trim()
+    .matches(/^[+]?[(]?[0-9]{1,4}[)]?[-\s.]?[(]?[0-9]{1,4}[)]?[-\s.]?[0-9]{1,9}$/)
+    .withMessage('Please provide a valid phone number');
+
+const adminIdValidator = () =>
+  param('id')
+    .isInt({ min: 1 })
+    .withMessage('Admin ID must be a positive integer');
+
+/**
+ * @swagger
+ * /api/admin/users:
+ *   get:
+ *     summary: List admin users
+ *     description: List all admin accounts with their roles. Requires the admins:manage permission.
+ *     tags: [Admin - Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Admin users retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         users:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/AdminUser'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Role lacks the admins:manage permission
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/', requirePermission('admins:manage'), AdminUserController.listUsers);
+
+/**
+ * @swagger
+ * /api/admin/users:
+ *   post:
+ *     summary: Invite an admin user
+ *     description: |
+ *       Create an admin account with the given role and issue a one-time link for the invitee to set a password.
+ *       The link is sent to the invitee's phone via WhatsApp when enabled and is also returned once in the response.
+ *       The account cannot log in until the password is set. Requires the admins:manage permission.
+ *     tags: [Admin - Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - username
+ *               - phone
+ *               - role
+ *             properties:
+ *               username:
+ *                 type: string
+ *                 minLength: 3
+ *                 example: "support_rita"
+ *               phone:
+ *                 type: string
+ *                 example: "+9613123456"
+ *               role:
+ *                 type: string
+ *                 enum: [owner, sales, support, finance, read_only]
+ *                 example: "support"
+ *     responses:
+ *       201:
+ *         description: Admin user invited successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/AdminPasswordSetupLink'
+ *       400:
+ *         description: Username or phone already exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Role lacks the admins:manage permission
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       422:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/',
+  requirePermission('admins:manage'),
+  [
+    usernameValidator(),
+    phoneValidator(),
+    body('role')
+      .isIn(ADMIN_ROLES)
+      .withMessage(`Role must be one of: ${ADMIN_ROLES.join(', ')}`),
+  ],
+  validateRequest,
+  AdminUserController.inviteUser
+);
+
+/**
+ * @swagger
+ * /api/admin/users/{id}:
+ *   get:
+ *     summary: Get an admin user
+ *     description: Get an admin account with its role and permissions. Requires the admins:manage permission.
+ *     tags: [Admin - Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Admin ID
+ *     responses:
+ *       200:
+ *         description: Admin user retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/AdminUser'
+ *                         - type: object
+ *                           properties:
+ *                             permissions:
+ *                               type: array
+ *                               items:
+ *                                 type: string
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Role lacks the admins:manage permission
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Admin not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   patch:
+ *     summary: Update an admin user
+ *     description: Change another admin's username and/or phone. Requires the admins:manage permission.
+ *     tags: [Admin - Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Admin ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               username:
+ *                 type: string
+ *                 minLength: 3
+ *               phone:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Admin user updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/AdminUser'
+ *       400:
+ *         description: No field provided, or username/phone already exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Role lacks the admins:manage permission
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Admin not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   delete:
+ *     summary: Deactivate an admin user
+ *     description: |
+ *       Deactivate an admin account (soft delete). The admin can no longer log in and its tokens are rejected.
+ *       Admins cannot deactivate themselves, and the last active owner cannot be deactivated.
+ *       Requires the admins:manage permission.
+ *     tags: [Admin - Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Admin ID
+ *     responses:
+ *       200:
+ *         description: Admin user deactivated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/AdminUser'
+ *       400:
+ *         description: Deactivating yourself or the last active owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Role lacks the admins:manage permission
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Admin not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id',
+  requirePermission('admins:manage'),
+  [adminIdValidator()],
+  validateRequest,
+  AdminUserController.getUser
+);
+
+router.patch(
+  '/:id',
+  requirePermission('admins:manage'),
+  [
+    adminIdValidator(),
+    usernameValidator().optional(),
+    phoneValidator().optional(),
+  ],
+  validateRequest,
+  AdminUserController.updateUser
+);
+
+router.delete(
+  '/:id',
+  requirePermission('admins:manage'),
+  [adminIdValidator()],
+  validateRequest,
+  AdminUserController.deactivateUser
+);
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/reactivate:
+ *   post:
+ *     summary: Reactivate an admin user
+ *     description: Allow a deactivated admin to log in again. Requires the admins:manage permission.
+ *     tags: [Admin - Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Admin ID
+ *     responses:
+ *       200:
+ *         description: Admin user reactivated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/AdminUser'
+ *       403:
+ *         description: Role lacks the admins:manage permission
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Admin not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/reactivate',
+  requirePermission('admins:manage'),
+  [adminIdValidator()],
+  validateRequest,
+  AdminUserController.reactivateUser
+);
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/reset-password:
+ *   post:
+ *     summary: Force an admin user to set a new password
+ *     description: |
+ *       The admin's current password and every token issued to it stop working immediately, and a new one-time
+ *       password setup link is issued (sent via WhatsApp when enabled and returned once in the response).
+ *       For an admin who has not accepted the invitation yet, this resends the invitation.
+ *       Requires the admins:manage permission.
+ *     tags: [Admin - Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Admin ID
+ *     responses:
+ *       200:
+ *         description: Password reset link issued successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/AdminPasswordSetupLink'
+ *       400:
+ *         description: Admin account is inactive
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Role lacks the admins:manage permission
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Admin not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/reset-password',
+  requirePermission('admins:manage'),
+  [adminIdValidator()],
+  validateRequest,
+  AdminUserController.resetPassword
+);
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/unlock:
+ *   post:
+ *     summary: Unlock an admin user locked after failed logins
+ *     description: |
+ *       Clear the lockout and failed-attempt counter of an admin account so it can log in again right away.
+ *       Requires the admins:manage permission.
+ *     tags: [Admin - Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Admin ID
+ *     responses:
+ *       200:
+ *         description: Admin user unlocked successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/AdminUser'
+ *       403:
+ *         description: Role lacks the admins:manage permission
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Admin not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/unlock',
+  requirePermission('admins:manage'),
+  [adminIdValidator()],
+  validateRequest,
+  AdminUserController.unlockUser
+);
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/2fa/reset:
+ *   post:
+ *     summary: Reset an admin user's two-factor authentication
+ *     description: |
+ *       Remove the admin's enrolled two-factor method and recovery codes, e.g. after a lost phone or authenticator.
+ *       The admin can enroll again after logging in. Requires the admins:manage permission.
+ *     tags: [Admin - Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Admin ID
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication reset successfully
+ *       403:
+ *         description: Role lacks the admins:manage permission
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Admin not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/2fa/reset',
+  requirePermission('admins:manage'),
+  [adminIdValidator()],
+  validateRequest,
+  AdminUserController.resetTwoFactor
+);
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/role:
+ *   patch:
+ *     summary: Assign a role to an admin user
+ *     description: |
+ *       Change an admin's role. The change applies to the admin's next request, including with tokens already issued.
+ *       The last active owner cannot be given another role. Requires the admins:manage permission.
+ *     tags: [Admin - Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Admin ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [owner, sales, support, finance, read_only]
+ *                 example: "finance"
+ *     responses:
+ *       200:
+ *         description: Admin role updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/AdminUser'
+ *                         - type: object
+ *                           properties:
+ *                             permissions:
+ *                               type: array
+ *                               items:
+ *                                 type: string
+ *       400:
+ *         description: Demoting the last active owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Role lacks the admins:manage permission
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Admin not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       422:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.patch(
+  '/:id/role',
+  requirePermission('admins:manage'),
+  [
+    adminIdValidator(),
+    body('role')
+      .isIn(ADMIN_ROLES)
+      .withMessage(`Role must be one of: ${ADMIN_ROLES.join(', ')}`),
+  ],
+  validateRequest,
+  AdminUserController.updateRole
+);
+
+export default router;
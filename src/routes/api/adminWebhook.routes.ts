@@ -0,0 +1,572 @@
+import { Router } from 'express';
+import { AdminWebhookController } from '../../controllers/adminWebhook.controller';
+import { authenticateAdmin, requirePermission } from '../../middleware/auth.middleware';
+import { body, param, query } from 'express-validator';
+import { validateRequest } from '../../middleware/validation.middleware';
+import { adminLimiter } from '../../config/rateLimit.config';
+import { config } from '../../config/config';
+import { WEBHOOK_DELIVERY_STATUSES, WEBHOOK_EVENT_TYPES } from '../../services/webhook.service';
+
+const router = Router();
+
+// All routes require admin authentication
+router.use(authenticateAdmin);
+
+// Apply admin rate limiting to all routes
+router.use(adminLimiter);
+
+// Outside production http is allowed (and no TLD required) so endpoints can point at a local receiver during development;
+// the service also rejects hosts that resolve to private addresses unless WEBHOOK_ALLOW_PRIVATE_URLS is set
+const urlValidator = (field: ReturnType<typeof body>) =>
+  field
+    .isURL({
+      protocols: config.nodeEnv === 'production' ? ['https'] : ['http', 'https'],
+      require_protocol: true,
+      require_tld: false,
+    })
+    .withMessage(config.nodeEnv === 'production' ? 'URL must be a valid https URL' : 'URL must be a valid http(s) URL')
+    .isLength({ max: 2000 })
+    .withMessage('URL must be at most 2000 characters');
+
+const eventTypesValidators = (optional: boolean) => [
+  optional
+    ? body('eventTypes').optional().isArray({ min: 1 }).withMessage('At least one event type is required')
+    : body('eventTypes').isArray({ min: 1 }).withMessage('At least one event type is required'),
+  body('eventTypes.*')
+    .isIn(WEBHOOK_EVENT_TYPES)
+    .withMessage(`Each event type must be one of: ${WEBHOOK_EVENT_TYPES.join(', ')}`),
+];
+
+const idValidator = (label: string) =>
+  param('id')
+    .isInt({ min: 1 })
+    .withMessage(`${label} ID must be a positive integer`);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     WebhookEndpoint:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           example: 1
+ *         url:
+ *           type: string
+ *           example: https://crm.example.com/hooks/digitalizepos
+ *         description:
+ *           type: string
+ *           nullable: true
+ *           example: CRM sync
+ *         eventTypes:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [license.created, license.activated, license.revoked, license.expired, payment.created, payment.refunded, payment.voided]
+ *         isActive:
+ *           type: boolean
+ *         createdBy:
+ *           type: integer
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     WebhookDelivery:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         endpointId:
+ *           type: integer
+ *         eventId:
+ *           type: string
+ *           format: uuid
+ *           description: Same for every endpoint and redelivery of the event
+ *         eventType:
+ *           type: string
+ *           example: license.created
+ *         payload:
+ *           type: object
+ *           description: Body as sent - { id, type, createdAt, data }
+ *         status:
+ *           type: string
+ *           enum: [pending, succeeded, failed]
+ *         attempts:
+ *           type: integer
+ *         nextAttemptAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         lastAttemptAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         responseStatus:
+ *           type: integer
+ *           nullable: true
+ *         responseBody:
+ *           type: string
+ *           nullable: true
+ *         error:
+ *           type: string
+ *           nullable: true
+ *         deliveredAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/admin/webhooks/event-types:
+ *   get:
+ *     summary: List webhook event types
+ *     description: Event types endpoints can subscribe to. Requires the webhooks:manage permission.
+ *     tags: [Admin - Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Webhook event types retrieved successfully
+ */
+router.get(
+  '/event-types',
+  requirePermission('webhooks:manage'),
+  AdminWebhookController.getEventTypes
+);
+
+/**
+ * @swagger
+ * /api/admin/webhooks/deliveries:
+ *   get:
+ *     summary: List webhook deliveries
+ *     description: Delivery log, newest first. Requires the webhooks:manage permission.
+ *     tags: [Admin - Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: endpointId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, succeeded, failed]
+ *       - in: query
+ *         name: eventType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: eventId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Webhook deliveries retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         deliveries:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/WebhookDelivery'
+ *                         pagination:
+ *                           $ref: '#/components/schemas/Pagination'
+ */
+router.get(
+  '/deliveries',
+  requirePermission('webhooks:manage'),
+  [
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Page must be a positive integer'),
+    query('pageSize')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Page size must be between 1 and 100'),
+    query('endpointId')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Endpoint ID must be a positive integer'),
+    query('status')
+      .optional()
+      .isIn(WEBHOOK_DELIVERY_STATUSES)
+      .withMessage(`Status must be one of: ${WEBHOOK_DELIVERY_STATUSES.join(', ')}`),
+    query('eventType')
+      .optional()
+      .isString()
+      .trim(),
+    query('eventId')
+      .optional()
+      .isString()
+      .trim(),
+  ],
+  validateRequest,
+  AdminWebhookController.getDeliveries
+);
+
+/**
+ * @swagger
+ * /api/admin/webhooks/deliveries/{id}/redeliver:
+ *   post:
+ *     summary: Redeliver a webhook
+ *     description: |
+ *       Send the delivery's event to its endpoint again, as a new delivery with the same event ID.
+ *       Failed new attempts are retried like any other delivery. Requires the webhooks:manage permission.
+ *     tags: [Admin - Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Delivery ID
+ *     responses:
+ *       200:
+ *         description: Webhook redelivered (the new delivery after its first attempt)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/WebhookDelivery'
+ *       404:
+ *         description: Delivery not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/deliveries/:id/redeliver',
+  requirePermission('webhooks:manage'),
+  [idValidator('Delivery')],
+  validateRequest,
+  AdminWebhookController.redeliver
+);
+
+/**
+ * @swagger
+ * /api/admin/webhooks:
+ *   get:
+ *     summary: List webhook endpoints
+ *     description: Requires the webhooks:manage permission.
+ *     tags: [Admin - Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Webhook endpoints retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         endpoints:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/WebhookEndpoint'
+ *   post:
+ *     summary: Create a webhook endpoint
+ *     description: |
+ *       Subscribe a URL to license lifecycle events. Each request is a JSON POST of `{ id, type, createdAt, data }`
+ *       with headers `X-DigitalizePOS-Event`, `X-DigitalizePOS-Event-Id`, `X-DigitalizePOS-Delivery` and
+ *       `X-DigitalizePOS-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>" with the secret>`.
+ *       Any 2xx response counts as delivered; otherwise the delivery is retried with exponential backoff
+ *       (1, 2, 4, ... minutes) up to WEBHOOK_MAX_ATTEMPTS (default 8). Deduplicate on the event ID.
+ *       The URL must use https in production, and its host must not resolve to a loopback, private or link-local
+ *       address unless WEBHOOK_ALLOW_PRIVATE_URLS is set.
+ *       The signing secret is returned only in this response. Requires the webhooks:manage permission.
+ *     tags: [Admin - Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - url
+ *               - eventTypes
+ *             properties:
+ *               url:
+ *                 type: string
+ *                 example: https://crm.example.com/hooks/digitalizepos
+ *               description:
+ *                 type: string
+ *               eventTypes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [license.created, license.activated, license.revoked, license.expired, payment.created, payment.refunded, payment.voided]
+ *     responses:
+ *       201:
+ *         description: Webhook endpoint created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         endpoint:
+ *                           $ref: '#/components/schemas/WebhookEndpoint'
+ *                         secret:
+ *                           type: string
+ *                           description: HMAC signing secret. Shown once.
+ *                           example: whsec_Qm9vb...
+ *       400:
+ *         description: Validation error, or the URL is not allowed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/',
+  requirePermission('webhooks:manage'),
+  AdminWebhookController.listEndpoints
+);
+
+router.post(
+  '/',
+  requirePermission('webhooks:manage'),
+  [
+    urlValidator(body('url')),
+    body('description')
+      .optional({ values: 'null' })
+      .isString()
+      .trim()
+      .isLength({ max: 255 })
+      .withMessage('Description must be at most 255 characters'),
+    ...eventTypesValidators(false),
+  ],
+  validateRequest,
+  AdminWebhookController.createEndpoint
+);
+
+/**
+ * @swagger
+ * /api/admin/webhooks/{id}:
+ *   get:
+ *     summary: Get a webhook endpoint
+ *     description: Requires the webhooks:manage permission.
+ *     tags: [Admin - Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Webhook endpoint retrieved successfully
+ *       404:
+ *         description: Webhook endpoint not found
+ *   patch:
+ *     summary: Update a webhook endpoint
+ *     description: Change the URL, description or event types, or disable/enable the endpoint. Requires the webhooks:manage permission.
+ *     tags: [Admin - Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               url:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               eventTypes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Webhook endpoint updated successfully
+ *       400:
+ *         description: Validation error, or the URL is not allowed
+ *       404:
+ *         description: Webhook endpoint not found
+ *   delete:
+ *     summary: Delete a webhook endpoint
+ *     description: Delete the endpoint and its delivery log. Requires the webhooks:manage permission.
+ *     tags: [Admin - Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Webhook endpoint deleted successfully
+ *       404:
+ *         description: Webhook endpoint not found
+ */
+router.get(
+  '/:id',
+  requirePermission('webhooks:manage'),
+  [idValidator('Webhook endpoint')],
+  validateRequest,
+  AdminWebhookController.getEndpoint
+);
+
+router.patch(
+  '/:id',
+  requirePermission('webhooks:manage'),
+  [
+    idValidator('Webhook endpoint'),
+    urlValidator(body('url').optional()),
+    body('description')
+      .optional({ values: 'null' })
+      .isString()
+      .trim()
+      .isLength({ max: 255 })
+      .withMessage('Description must be at most 255 characters'),
+    ...eventTypesValidators(true),
+    body('isActive')
+      .optional()
+      .isBoolean()
+      .withMessage('isActive must be a boolean'),
+  ],
+  validateRequest,
+  AdminWebhookController.updateEndpoint
+);
+
+router.delete(
+  '/:id',
+  requirePermission('webhooks:manage'),
+  [idValidator('Webhook endpoint')],
+  validateRequest,
+  AdminWebhookController.deleteEndpoint
+);
+
+/**
+ * @swagger
+ * /api/admin/webhooks/{id}/rotate-secret:
+ *   post:
+ *     summary: Rotate a webhook endpoint's signing secret
+ *     description: Replace the signing secret. The new secret is returned only in this response. Requires the webhooks:manage permission.
+ *     tags: [Admin - Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Signing secret rotated successfully
+ *       404:
+ *         description: Webhook endpoint not found
+ */
+router.post(
+  '/:id/rotate-secret',
+  requirePermission('webhooks:manage'),
+  [idValidator('Webhook endpoint')],
+  validateRequest,
+  AdminWebhookController.rotateSecret
+);
+
+/**
+ * @swagger
+ * /api/admin/webhooks/{id}/test:
+ *   post:
+ *     summary: Send a test event
+ *     description: |
+ *       Send a `webhook.test` event to the endpoint and return the delivery after its first attempt,
+ *       e.g. to check a receiver started with `npm run webhook:receiver`. Requires the webhooks:manage permission.
+ *     tags: [Admin - Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Test event sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/WebhookDelivery'
+ *       404:
+ *         description: Webhook endpoint not found
+ */
+router.post(
+  '/:id/test',
+  requirePermission('webhooks:manage'),
+  [idValidator('Webhook endpoint')],
+  validateRequest,
+  AdminWebhookController.sendTestEvent
+);
+
+export default router;
@@ -0,0 +1,239 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { DeviceTransferController } from '../../controllers/deviceTransfer.controller';
+import {
+  validateLicenseKeyRequired,
+  handleValidationErrors,
+} from '../../middleware/validation.middleware';
+import { deviceTransferLimiter, validationLimiter } from '../../config/rateLimit.config';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/license/transfer/request-otp:
+ *   post:
+ *     summary: Request device transfer verification code
+ *     description: |
+ *       Start a self-service device transfer. A verification code is sent via WhatsApp to the phone
+ *       number registered on the license. The phone number itself is never returned, only a masked form.
+ *     tags: [License]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - licenseKey
+ *             properties:
+ *               licenseKey:
+ *                 type: string
+ *                 example: ABCD-1234-EFGH-5678-XXXX
+ *     responses:
+ *       200:
+ *         description: Verification code sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         maskedPhone:
+ *                           type: string
+ *                           example: "*********123"
+ *                         expiresAt:
+ *                           type: string
+ *                           format: date-time
+ *       400:
+ *         description: License invalid, revoked, or has no registered phone number
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many attempts
+ */
+router.post(
+  '/request-otp',
+  deviceTransferLimiter,
+  [validateLicenseKeyRequired(), handleValidationErrors],
+  DeviceTransferController.requestOtp
+);
+
+/**
+ * @swagger
+ * /api/license/transfer/verify:
+ *   post:
+ *     summary: Verify device transfer code
+ *     description: Verify the WhatsApp code and receive a transfer token valid for 15 minutes.
+ *     tags: [License]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - licenseKey
+ *               - otpCode
+ *             properties:
+ *               licenseKey:
+ *                 type: string
+ *                 example: ABCD-1234-EFGH-5678-XXXX
+ *               otpCode:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Ownership verified
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         transferToken:
+ *                           type: string
+ *                           description: Send as "Authorization: Bearer <transferToken>" to the transfer endpoints
+ *                         expiresAt:
+ *                           type: string
+ *                           format: date-time
+ *       400:
+ *         description: Invalid or expired code, or the code has used up its attempts (request a new one)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many attempts
+ */
+router.post(
+  '/verify',
+  deviceTransferLimiter,
+  [
+    validateLicenseKeyRequired(),
+    body('otpCode')
+      .notEmpty()
+      .withMessage('OTP code is required')
+      .isString()
+      .withMessage('OTP code must be a string')
+      .isLength({ min: 6, max: 6 })
+      .withMessage('OTP code must be 6 digits'),
+    handleValidationErrors,
+  ],
+  DeviceTransferController.verifyOtp
+);
+
+/**
+ * @swagger
+ * /api/license/transfer/activations:
+ *   get:
+ *     summary: List devices available for transfer
+ *     description: List the license's active devices and the remaining monthly transfer quota.
+ *     tags: [License]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active devices retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         activations:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: integer
+ *                               machineName:
+ *                                 type: string
+ *                                 nullable: true
+ *                               hardwareId:
+ *                                 type: string
+ *                               activatedAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                               lastValidation:
+ *                                 type: string
+ *                                 format: date-time
+ *                                 nullable: true
+ *                         quota:
+ *                           type: object
+ *                           properties:
+ *                             limit:
+ *                               type: integer
+ *                               example: 2
+ *                             used:
+ *                               type: integer
+ *                               example: 0
+ *                             remaining:
+ *                               type: integer
+ *                               example: 2
+ *                             resetsAt:
+ *                               type: string
+ *                               format: date-time
+ *       401:
+ *         description: Transfer token missing, invalid or expired
+ */
+router.get('/activations', validationLimiter, DeviceTransferController.getActivations);
+
+/**
+ * @swagger
+ * /api/license/transfer/activations/{id}/release:
+ *   post:
+ *     summary: Release a device
+ *     description: |
+ *       Deactivate one of the license's devices so a replacement machine can activate.
+ *       Counts against the monthly transfer quota and is recorded in the device transfer audit log.
+ *     tags: [License]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Activation ID
+ *     responses:
+ *       200:
+ *         description: Device released successfully
+ *       400:
+ *         description: Device is already inactive
+ *       401:
+ *         description: Transfer token missing, invalid or expired
+ *       404:
+ *         description: Activation not found
+ *       429:
+ *         description: Monthly transfer limit reached
+ */
+router.post(
+  '/activations/:id/release',
+  validationLimiter,
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('Activation ID must be a positive integer'),
+    handleValidationErrors,
+  ],
+  DeviceTransferController.releaseActivation
+);
+
+export default router;
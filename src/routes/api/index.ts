@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import licenseRoutes from './license.routes';
+import deviceTransferRoutes from './deviceTransfer.routes';
 import phoneVerificationRoutes from './phoneVerification.routes';
 import preferencesRoutes from './preferences.routes';
 import adminRoutes from './admin.routes';
@@ -7,11 +8,24 @@ import adminLicenseRoutes from './adminLicense.routes';
 import adminActivationRoutes from './adminActivation.routes';
 import adminSubscriptionRoutes from './adminSubscription.routes';
 import adminPaymentRoutes from './adminPayment.routes';
+import adminExchangeRateRoutes from './adminExchangeRate.routes';
 import adminStatsRoutes from './adminStats.routes';
+import adminSigningKeyRoutes from './adminSigningKey.routes';
+import adminProductRoutes from './adminProduct.routes';
+import adminAuditRoutes from './adminAudit.routes';
+import adminUserRoutes from './adminUser.routes';
+import adminSessionRoutes from './adminSession.routes';
+import adminApiKeyRoutes from './adminApiKey.routes';
+import adminWebhookRoutes from './adminWebhook.routes';
+import adminOutboxRoutes from './adminOutbox.routes';
+import stripeWebhookRoutes from './stripeWebhook.routes';
 import { generalApiLimiter } from '../../config/rateLimit.config';
 
 const router = Router();
 
+// Stripe webhooks (signature-verified; mounted before the rate limiter so event bursts are never throttled)
+router.use('/webhooks/stripe', stripeWebhookRoutes);
+
 // Apply general API rate limiting to all routes
 router.use(generalApiLimiter);
 
@@ -21,6 +35,9 @@ router.use('/phone-verification', phoneVerificationRoutes);
 // Preferences routes
 router.use('/preferences', preferencesRoutes);
 
+// Device transfer routes (mounted before /license so they are not shadowed)
+router.use('/license/transfer', deviceTransferRoutes);
+
 // License routes
 router.use('/license', licenseRoutes);
 
@@ -39,6 +56,33 @@ router.use('/admin/subscriptions', adminSubscriptionRoutes);
 // Admin payment management routes
 router.use('/admin/payments', adminPaymentRoutes);
 
+// Admin currency exchange rate routes
+router.use('/admin/exchange-rates', adminExchangeRateRoutes);
+
+// Admin signing key management routes
+router.use('/admin/signing-keys', adminSigningKeyRoutes);
+
+// Admin product catalog routes
+router.use('/admin/products', adminProductRoutes);
+
+// Admin audit log routes
+router.use('/admin/audit', adminAuditRoutes);
+
+// Admin user and role management routes
+router.use('/admin/users', adminUserRoutes);
+
+// Admin session management routes
+router.use('/admin/sessions', adminSessionRoutes);
+
+// Admin API key management routes
+router.use('/admin/api-keys', adminApiKeyRoutes);
+
+// Admin webhook endpoint and delivery routes
+router.use('/admin/webhooks', adminWebhookRoutes);
+
+// Admin outbox (queued notifications and events) routes
+router.use('/admin/outbox', adminOutboxRoutes);
+
 // Admin stats and reports routes
 router.use('/admin', adminStatsRoutes);
 
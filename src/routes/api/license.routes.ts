@@ -10,7 +10,16 @@ import {
   validateHardwareId,
   validateHardwareIdOptional,
   validateMachineName,
+  validateFingerprint,
   validateCurrentTime,
+  validateRefreshToken,
+  validateActivationToken,
+  validateActivationTokenOptional,
+  validateCatalogCodeOptional,
+  validateUsageBatchId,
+  validateUsageRecords,
+  validateCheckoutPaymentType,
+  validateCheckoutAdditionalUsers,
   handleValidationErrors,
 } from '../../middleware/validation.middleware';
 import { validationLimiter } from '../../config/rateLimit.config';
@@ -47,6 +56,14 @@ const router = Router();
  *               locationAddress:
  *                 type: string
  *                 example: 123 Main Street, City, Country
+ *               version:
+ *                 type: string
+ *                 example: grocery
+ *                 description: Catalog product code. Defaults to the server's default product.
+ *               edition:
+ *                 type: string
+ *                 example: basic
+ *                 description: Catalog edition code. Defaults to the product's default edition, which supplies prices, user limit and trial length.
  *     responses:
  *       201:
  *         description: License generated successfully
@@ -93,6 +110,8 @@ router.post(
     validateInitialPrice(),
     validateLocationName(),
     validateLocationAddress(),
+    validateCatalogCodeOptional('version', 'Product'),
+    validateCatalogCodeOptional('edition', 'Edition'),
     handleValidationErrors,
   ],
   LicenseController.generateLicense,
@@ -124,10 +143,32 @@ router.post(
  *               machineName:
  *                 type: string
  *                 example: DESKTOP-ABC123
+ *               fingerprint:
+ *                 type: object
+ *                 description: |
+ *                   Optional hardware components. When the hardware ID is unknown, the request is matched against the
+ *                   license's active activations and treated as the same machine if enough components match
+ *                   (FINGERPRINT_MATCH_THRESHOLD of board serial, CPU ID, disk serials, MAC addresses and machine name).
+ *                 properties:
+ *                   boardSerial:
+ *                     type: string
+ *                     example: PF2ABC12
+ *                   cpuId:
+ *                     type: string
+ *                     example: BFEBFBFF000906EA
+ *                   diskSerials:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                     example: [S4EWNX0R123456]
+ *                   macAddresses:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                     example: ["00:1A:2B:3C:4D:5E"]
  *               appType:
  *                 type: string
- *                 enum: [grocery]
- *                 description: Type of POS application (grocery)
+ *                 description: Catalog product code of the POS application. When sent, the license must be for this product.
  *                 example: grocery
  *     responses:
  *       200:
@@ -150,7 +191,19 @@ router.post(
  *                           format: date-time
  *                         token:
  *                           type: string
- *                           description: JWT validation token
+ *                           description: Short-lived JWT access token (carries a `kid` header and a `jti`)
+ *                         tokenExpiresAt:
+ *                           type: string
+ *                           format: date-time
+ *                         refreshToken:
+ *                           type: string
+ *                           description: Opaque refresh token - exchange at /api/license/refresh for a new token pair
+ *                         refreshTokenExpiresAt:
+ *                           type: string
+ *                           format: date-time
+ *                         certificate:
+ *                           type: string
+ *                           description: Ed25519-signed license certificate (base64url payload "." base64url signature) for offline validation
  *                         locationId:
  *                           type: integer
  *                         locationName:
@@ -159,6 +212,34 @@ router.post(
  *                         locationAddress:
  *                           type: string
  *                           example: 123 Main Street, City, Country
+ *                         product:
+ *                           type: string
+ *                           example: grocery
+ *                         edition:
+ *                           type: string
+ *                           example: basic
+ *                         features:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                           example: [inventory, loyalty]
+ *                           description: Feature codes the license is currently entitled to
+ *                         entitlements:
+ *                           type: array
+ *                           description: Entitled features from the edition and per-license grants
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               feature:
+ *                                 type: string
+ *                                 example: loyalty
+ *                               source:
+ *                                 type: string
+ *                                 enum: [edition, license]
+ *                               expiresAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                                 nullable: true
  *       400:
  *         description: Activation failed
  *         content:
@@ -179,6 +260,8 @@ router.post(
     validateLicenseKeyRequired(),
     validateHardwareId(),
     validateMachineName(),
+    validateFingerprint(),
+    validateCatalogCodeOptional('appType', 'App type'),
     handleValidationErrors,
   ],
   LicenseController.activate,
@@ -189,7 +272,7 @@ router.post(
  * /api/license/validate:
  *   post:
  *     summary: Validate a license
- *     description: Validate license status. Hardware ID is optional and used only for tracking. Returns current license status and expiration information.
+ *     description: Validate license status for an activated device, identified by its activation access token. Tokens of revoked, transferred or deactivated activations are rejected. Until LEGACY_TOKENS_ACCEPTED_UNTIL, devices without a token (identified by hardwareId) or with a token issued before revocation existed are still accepted so they can activate again. Returns current license status and expiration information.
  *     tags: [License]
  *     requestBody:
  *       required: true
@@ -205,7 +288,7 @@ router.post(
  *                 example: ABCD-1234-EFGH-5678-XXXX
  *               hardwareId:
  *                 type: string
- *                 description: Optional - used for tracking purposes only
+ *                 description: Optional - must match the device the token was issued to; returns a refreshed certificate
  *                 example: abc123def456...
  *               currentTime:
  *                 type: number
@@ -215,6 +298,9 @@ router.post(
  *                 type: string
  *                 description: Location address for verification
  *                 example: 123 Main Street, City, Country
+ *               token:
+ *                 type: string
+ *                 description: Activation access token of the device - rejected if expired or revoked; required once LEGACY_TOKENS_ACCEPTED_UNTIL has passed
  *     responses:
  *       200:
  *         description: License is valid
@@ -236,6 +322,37 @@ router.post(
  *                           format: date-time
  *                         daysRemaining:
  *                           type: integer
+ *                         certificate:
+ *                           type: string
+ *                           description: Refreshed signed license certificate (only when hardwareId is given)
+ *                         product:
+ *                           type: string
+ *                           example: grocery
+ *                         edition:
+ *                           type: string
+ *                           example: basic
+ *                         features:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                           example: [inventory, loyalty]
+ *                           description: Feature codes the license is currently entitled to
+ *                         entitlements:
+ *                           type: array
+ *                           description: Entitled features from the edition and per-license grants
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               feature:
+ *                                 type: string
+ *                                 example: loyalty
+ *                               source:
+ *                                 type: string
+ *                                 enum: [edition, license]
+ *                               expiresAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                                 nullable: true
  *       400:
  *         description: License is invalid or expired
  *         content:
@@ -254,13 +371,84 @@ router.post(
   validationLimiter,
   [
     validateLicenseKeyRequired(),
-    validateHardwareIdOptional(), // Optional - no longer required for validation
+    validateHardwareIdOptional(), // Optional - checked against the token's device
     validateCurrentTime(),
+    validateActivationTokenOptional(),
     handleValidationErrors,
   ],
   LicenseController.validate,
 );
 
+/**
+ * @swagger
+ * /api/license/refresh:
+ *   post:
+ *     summary: Refresh activation tokens
+ *     description: |
+ *       Exchange a refresh token for a new access token and refresh token. The refresh token is single-use:
+ *       the presented token and the previous access token stop working once a new pair is issued.
+ *       Refused when the activation has been deactivated or the license is revoked or suspended.
+ *     tags: [License]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Tokens refreshed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 token:
+ *                   type: string
+ *                 tokenExpiresAt:
+ *                   type: string
+ *                   format: date-time
+ *                 refreshToken:
+ *                   type: string
+ *                 refreshTokenExpiresAt:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         description: Refresh token is invalid or expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Activation deactivated or license revoked/suspended
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  '/refresh',
+  validationLimiter,
+  [validateRefreshToken(), handleValidationErrors],
+  LicenseController.refresh,
+);
+
 /**
  * @swagger
  * /api/license/send-credentials:
@@ -407,6 +595,41 @@ router.post(
   LicenseController.sendLicenseDetails,
 );
 
+/**
+ * @swagger
+ * /api/license/public-key:
+ *   get:
+ *     summary: Get the license certificate public key
+ *     description: Returns the Ed25519 public key (PEM, SPKI) used to verify signed license certificates offline.
+ *     tags: [License]
+ *     responses:
+ *       200:
+ *         description: Public key retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         algorithm:
+ *                           type: string
+ *                           example: Ed25519
+ *                         publicKey:
+ *                           type: string
+ *                           example: "-----BEGIN PUBLIC KEY-----\n...\n-----END PUBLIC KEY-----\n"
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/public-key', validationLimiter, LicenseController.getPublicKey);
+
 /**
  * @swagger
  * /api/license/{key}:
@@ -658,6 +881,181 @@ router.post(
   LicenseController.syncUserCount
 );
 
+/**
+ * @swagger
+ * /api/license/usage:
+ *   post:
+ *     summary: Report metered usage from a POS terminal
+ *     description: |
+ *       Batched usage reporting. Records are merged into daily aggregates per license and device:
+ *       counters (transactions, invoices_printed) are added up, gauges (skus_stored) keep the daily peak.
+ *       The request is idempotent per device and batchId - resending a batch (e.g. after a timeout) is
+ *       acknowledged with `duplicate: true` and not counted twice. Dates are POS business days and may be
+ *       reported up to USAGE_BACKFILL_DAYS (default 35) days late. The reporting device is identified by its
+ *       activation access token.
+ *     tags: [License]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - licenseKey
+ *               - token
+ *               - batchId
+ *               - records
+ *             properties:
+ *               licenseKey:
+ *                 type: string
+ *                 example: ABCD-1234-EFGH-5678-XXXX
+ *               token:
+ *                 type: string
+ *                 description: Activation access token of the reporting device (from /activate or /refresh)
+ *               hardwareId:
+ *                 type: string
+ *                 description: Optional - must match the device of the token when sent
+ *                 example: ABC123XYZ
+ *               batchId:
+ *                 type: string
+ *                 description: Client-generated idempotency key, unique per device
+ *                 example: 2026-10-19T18:00:00Z-0001
+ *               records:
+ *                 type: array
+ *                 minItems: 1
+ *                 maxItems: 500
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - date
+ *                     - metric
+ *                     - quantity
+ *                   properties:
+ *                     date:
+ *                       type: string
+ *                       format: date
+ *                       example: '2026-10-19'
+ *                     metric:
+ *                       type: string
+ *                       enum: [transactions, invoices_printed, skus_stored]
+ *                     quantity:
+ *                       type: integer
+ *                       minimum: 0
+ *                       example: 142
+ *     responses:
+ *       200:
+ *         description: Usage recorded (or batch already recorded)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         batchId:
+ *                           type: string
+ *                         duplicate:
+ *                           type: boolean
+ *                         accepted:
+ *                           type: integer
+ *                         receivedAt:
+ *                           type: string
+ *                           format: date-time
+ *       400:
+ *         description: Invalid request or usage date out of range
+ *       401:
+ *         description: Activation token missing, invalid, expired, revoked or issued for another license or device
+ *       403:
+ *         description: License revoked or suspended, or device deactivated
+ *       404:
+ *         description: License not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/usage',
+  validationLimiter,
+  [
+    validateLicenseKeyRequired(),
+    validateActivationToken(),
+    validateHardwareIdOptional(),
+    validateUsageBatchId(),
+    validateUsageRecords(),
+  ],
+  handleValidationErrors,
+  LicenseController.reportUsage
+);
+
+/**
+ * @swagger
+ * /api/license/checkout:
+ *   post:
+ *     summary: Start a Stripe Checkout payment
+ *     description: |
+ *       Create a Stripe Checkout session to buy the license (initial), renew it for a year (annual) or add users (user),
+ *       priced from the license. Open the returned url for the customer; the payment is recorded when Stripe
+ *       reports it paid through /api/webhooks/stripe.
+ *     tags: [License, Stripe]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - licenseKey
+ *               - paymentType
+ *             properties:
+ *               licenseKey:
+ *                 type: string
+ *                 example: ABCD-1234-EFGH-5678-XXXX
+ *               hardwareId:
+ *                 type: string
+ *                 description: Optional - used for tracking purposes only
+ *               paymentType:
+ *                 type: string
+ *                 enum: [initial, annual, user]
+ *               additionalUsers:
+ *                 type: integer
+ *                 minimum: 1
+ *                 description: Required for user payments
+ *     responses:
+ *       201:
+ *         description: Checkout session created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/CheckoutSession'
+ *       400:
+ *         description: Invalid request or payment not allowed for the license
+ *       404:
+ *         description: License not found
+ *       502:
+ *         description: Stripe rejected the checkout session
+ *       503:
+ *         description: Stripe is not configured
+ */
+router.post(
+  '/checkout',
+  validationLimiter,
+  [
+    validateLicenseKeyRequired(),
+    validateHardwareIdOptional(),
+    validateCheckoutPaymentType(),
+    validateCheckoutAdditionalUsers(),
+  ],
+  handleValidationErrors,
+  LicenseController.createCheckoutSession
+);
+
 /**
  * @swagger
  * /api/license/test-whatsapp:
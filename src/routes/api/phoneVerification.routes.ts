@@ -110,7 +110,7 @@ router.post(
  *                           type: string
  *                           description: Token to be used when creating license
  *       400:
- *         description: Validation error or invalid/expired OTP
+ *         description: Validation error, invalid/expired OTP, or the OTP has used up its attempts
  *         content:
  *           application/json:
  *             schema:
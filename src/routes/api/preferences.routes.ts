@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { PreferencesController } from '../../controllers/preferences.controller';
-import { authenticateAdmin } from '../../middleware/auth.middleware';
+import { authenticateAdmin, requirePermission } from '../../middleware/auth.middleware';
 
 const router = Router();
 
@@ -36,6 +36,26 @@ const router = Router();
  *                         phoneNumberVerification:
  *                           type: boolean
  *                           example: true
+ *                         dormantActivationDetection:
+ *                           type: boolean
+ *                           example: true
+ *                           description: Flag activations with no validation within dormantAfterDays as dormant
+ *                         dormantAfterDays:
+ *                           type: integer
+ *                           example: 60
+ *                           description: Days without a validation before an activation is flagged dormant
+ *                         dormantAutoDeactivate:
+ *                           type: boolean
+ *                           example: false
+ *                           description: Deactivate activations that stayed dormant for dormantDeactivateAfterDays
+ *                         dormantDeactivateAfterDays:
+ *                           type: integer
+ *                           example: 30
+ *                           description: Days an activation stays dormant before it is deactivated
+ *                         requireAdminTwoFactor:
+ *                           type: boolean
+ *                           example: false
+ *                           description: Require two-factor login for every admin (admins without TOTP receive a WhatsApp OTP)
  *                     customer:
  *                       type: object
  *                       example: {}
@@ -82,7 +102,7 @@ const router = Router();
  */
 router.get('/public', PreferencesController.getPublicPreferences);
 
-router.get('/', authenticateAdmin, PreferencesController.getPreferences);
+router.get('/', authenticateAdmin, requirePermission('preferences:read'), PreferencesController.getPreferences);
 
 /**
  * @swagger
@@ -106,6 +126,26 @@ router.get('/', authenticateAdmin, PreferencesController.getPreferences);
  *                   phoneNumberVerification:
  *                     type: boolean
  *                     example: true
+ *                   dormantActivationDetection:
+ *                     type: boolean
+ *                     example: true
+ *                     description: Flag activations with no validation within dormantAfterDays as dormant
+ *                   dormantAfterDays:
+ *                     type: integer
+ *                     example: 60
+ *                     description: Days without a validation before an activation is flagged dormant
+ *                   dormantAutoDeactivate:
+ *                     type: boolean
+ *                     example: false
+ *                     description: Deactivate activations that stayed dormant for dormantDeactivateAfterDays
+ *                   dormantDeactivateAfterDays:
+ *                     type: integer
+ *                     example: 30
+ *                     description: Days an activation stays dormant before it is deactivated
+ *                   requireAdminTwoFactor:
+ *                     type: boolean
+ *                     example: false
+ *                     description: Require two-factor login for every admin (admins without TOTP receive a WhatsApp OTP)
  *               customer:
  *                 type: object
  *                 example: {}
@@ -135,6 +175,26 @@ router.get('/', authenticateAdmin, PreferencesController.getPreferences);
  *                         phoneNumberVerification:
  *                           type: boolean
  *                           example: true
+ *                         dormantActivationDetection:
+ *                           type: boolean
+ *                           example: true
+ *                           description: Flag activations with no validation within dormantAfterDays as dormant
+ *                         dormantAfterDays:
+ *                           type: integer
+ *                           example: 60
+ *                           description: Days without a validation before an activation is flagged dormant
+ *                         dormantAutoDeactivate:
+ *                           type: boolean
+ *                           example: false
+ *                           description: Deactivate activations that stayed dormant for dormantDeactivateAfterDays
+ *                         dormantDeactivateAfterDays:
+ *                           type: integer
+ *                           example: 30
+ *                           description: Days an activation stays dormant before it is deactivated
+ *                         requireAdminTwoFactor:
+ *                           type: boolean
+ *                           example: false
+ *                           description: Require two-factor login for every admin (admins without TOTP receive a WhatsApp OTP)
  *                     customer:
  *                       type: object
  *                       example: {}
@@ -148,7 +208,7 @@ router.get('/', authenticateAdmin, PreferencesController.getPreferences);
  *       500:
  *         description: Internal server error
  */
-router.patch('/', authenticateAdmin, PreferencesController.updatePreferences);
+router.patch('/', authenticateAdmin, requirePermission('preferences:write'), PreferencesController.updatePreferences);
 
 export default router;
 
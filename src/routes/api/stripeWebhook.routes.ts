@@ -0,0 +1,99 @@
+import { Router } from 'express';
+import { StripeWebhookController } from '../../controllers/stripeWebhook.controller';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CheckoutSession:
+ *       type: object
+ *       properties:
+ *         sessionId:
+ *           type: string
+ *           example: cs_test_a1b2c3
+ *         url:
+ *           type: string
+ *           nullable: true
+ *           description: Stripe-hosted payment page to open for the customer
+ *         licenseId:
+ *           type: integer
+ *         licenseKey:
+ *           type: string
+ *         paymentType:
+ *           type: string
+ *           enum: [initial, annual, user]
+ *         additionalUsers:
+ *           type: integer
+ *         amount:
+ *           type: number
+ *           example: 50
+ *         currency:
+ *           type: string
+ *           example: USD
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/webhooks/stripe:
+ *   post:
+ *     summary: Receive a Stripe event
+ *     description: |
+ *       Called by Stripe, not by API clients. The Stripe-Signature header is verified against the raw body
+ *       with STRIPE_WEBHOOK_SECRET. A paid checkout.session.completed (or checkout.session.async_payment_succeeded)
+ *       event records the payment for the license in the session metadata; redelivered events for the same
+ *       payment intent return the payment already recorded. A paid session the server refuses to record (e.g. the
+ *       license was revoked since checkout) is acknowledged with handled false and an error, and audited as
+ *       payment.checkout_refused for an admin to resolve. Other event types are acknowledged and ignored.
+ *     tags: [Stripe]
+ *     parameters:
+ *       - in: header
+ *         name: Stripe-Signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Stripe event object
+ *     responses:
+ *       200:
+ *         description: Event received
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         eventId:
+ *                           type: string
+ *                         type:
+ *                           type: string
+ *                         handled:
+ *                           type: boolean
+ *                         paymentId:
+ *                           type: integer
+ *                         error:
+ *                           type: string
+ *                           description: Why a paid checkout was not recorded
+ *       400:
+ *         description: Missing or invalid signature
+ *       500:
+ *         description: Event could not be processed because of a database failure (Stripe will retry)
+ *       503:
+ *         description: Stripe webhook secret is not configured
+ */
+router.post('/', StripeWebhookController.handleWebhook);
+
+export default router;
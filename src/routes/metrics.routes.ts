@@ -44,6 +44,21 @@ router.use(authenticateAdmin);
  *                         errorRate:
  *                           type: number
  *                           example: 0.05
+ *                         licenses:
+ *                           type: object
+ *                           properties:
+ *                             deviceCap:
+ *                               type: object
+ *                               properties:
+ *                                 rejectedActivations:
+ *                                   type: integer
+ *                                   description: Activations refused since startup because the device limit was reached
+ *                                 licensesAtCap:
+ *                                   type: integer
+ *                                   description: Distinct licenses that hit their device limit since startup
+ *                                 currentlyAtCap:
+ *                                   type: integer
+ *                                   description: Licenses whose active devices currently equal their device limit
  *       401:
  *         description: Unauthorized
  *         content:
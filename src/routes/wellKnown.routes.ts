@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import { getJwks } from '../controllers/jwks.controller';
+import { validationLimiter } from '../config/rateLimit.config';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /.well-known/jwks.json:
+ *   get:
+ *     summary: Get token verification keys
+ *     description: |
+ *       JSON Web Key Set of all non-retired signing keys. Tokens carry the key ID in their `kid` header;
+ *       look up the matching key here to verify them.
+ *     tags: [Keys]
+ *     responses:
+ *       200:
+ *         description: JWK Set
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 keys:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       kty:
+ *                         type: string
+ *                         example: "RSA"
+ *                       kid:
+ *                         type: string
+ *                         example: "3f9a1c2b7d4e6f80"
+ *                       alg:
+ *                         type: string
+ *                         example: "RS256"
+ *                       use:
+ *                         type: string
+ *                         example: "sig"
+ *                       n:
+ *                         type: string
+ *                       e:
+ *                         type: string
+ *                         example: "AQAB"
+ */
+router.get('/jwks.json', validationLimiter, getJwks);
+
+export default router;
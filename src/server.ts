@@ -9,9 +9,11 @@ import compression from 'compression';
 import { errorHandler, notFoundHandler } from './middleware/error.middleware';
 import { logger } from './utils/logger';
 import { requestLogger } from './middleware/requestLogger.middleware';
+import { requestContext } from './middleware/requestContext.middleware';
 import healthRoutes from './routes/health.routes';
 import apiRoutes from './routes/api';
 import metricsRoutes from './routes/metrics.routes';
+import wellKnownRoutes from './routes/wellKnown.routes';
 import { connectDatabase } from './config/database';
 import prisma from './config/database';
 import swaggerUi from 'swagger-ui-express';
@@ -51,17 +53,23 @@ app.use(configureCORS());
 app.use(compression({ threshold: 512 }));
 
 // 5. Body parsing with size limits
+// Stripe webhook signatures are computed over the raw body, so that route keeps it as a Buffer
+app.use('/api/webhooks/stripe', express.raw({ type: 'application/json', limit: REQUEST_SIZE_LIMITS.json }));
 app.use(express.json({ limit: REQUEST_SIZE_LIMITS.json }));
 app.use(express.urlencoded({ extended: true, limit: REQUEST_SIZE_LIMITS.urlencoded }));
 
 // 6. Input sanitization
 app.use(sanitizeInputMiddleware);
 
-// 7. Request/Response logging middleware (with response time)
+// 7. Request context (request ID, client IP) for audit events
+app.use(requestContext);
+
+// 8. Request/Response logging middleware (with response time)
 app.use(requestLogger);
 
 // Routes
 app.use('/health', healthRoutes);
+app.use('/.well-known', wellKnownRoutes);
 app.use('/api/metrics', metricsRoutes);
 app.use('/api', apiRoutes);
 
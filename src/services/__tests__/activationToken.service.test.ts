@@ -0,0 +1,152 @@
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: {
+    revokedToken: { findUnique: jest.fn() },
+    activation: { findUnique: jest.fn(), update: jest.fn() },
+  },
+}));
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+  logLicenseOperation: jest.fn(),
+}));
+jest.mock('../../utils/metrics.util', () => ({ metricsCollector: {} }));
+jest.mock('../keyManagement.service', () => ({ KeyManagementService: { verifyToken: jest.fn() } }));
+jest.mock('../license.service', () => ({ LicenseService: { findLicenseByKey: jest.fn() } }));
+jest.mock('../subscription.service', () => ({ SubscriptionService: {} }));
+jest.mock('../payment.service', () => ({ PaymentService: {} }));
+jest.mock('../proration.service', () => ({ ProrationService: {} }));
+jest.mock('../licenseCertificate.service', () => ({ LicenseCertificateService: { issueCertificate: jest.fn() } }));
+jest.mock('../product.service', () => ({ ProductService: { getRulesForLicense: jest.fn().mockResolvedValue(null) } }));
+jest.mock('../entitlement.service', () => ({ EntitlementService: { getEntitlements: jest.fn().mockResolvedValue([]) } }));
+jest.mock('../audit.service', () => ({ AuditService: {} }));
+jest.mock('../webhook.service', () => ({ WebhookService: {} }));
+jest.mock('../hardwareFingerprint.service', () => ({ HardwareFingerprintService: {} }));
+
+import prisma from '../../config/database';
+import { config } from '../../config/config';
+import { cacheService, CacheKeys } from '../../utils/cache.util';
+import { ActivationTokenService } from '../activationToken.service';
+import { KeyManagementService } from '../keyManagement.service';
+import { LicenseKeyGeneratorService } from '../licenseKeyGenerator.service';
+import { LicenseService } from '../license.service';
+import { PublicLicenseService } from '../publicLicense.service';
+
+const verifyToken = KeyManagementService.verifyToken as jest.Mock;
+const findRevoked = prisma.revokedToken.findUnique as jest.Mock;
+const findActivation = prisma.activation.findUnique as jest.Mock;
+
+const licenseKey = LicenseKeyGeneratorService.generateKey();
+
+const tokenPayload = (overrides: Record<string, unknown> = {}) => ({
+  jti: 'jti-1',
+  licenseId: 7,
+  licenseKey,
+  hardwareId: 'hw-1',
+  locationId: 7,
+  activationId: 3,
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  config.legacyTokensAcceptedUntil = null;
+  cacheService.del(CacheKeys.revokedToken('jti-1'));
+  findRevoked.mockResolvedValue(null);
+  verifyToken.mockResolvedValue(tokenPayload());
+  findActivation.mockResolvedValue({ id: 3, licenseId: 7, hardwareId: 'hw-1', isActive: true });
+  (LicenseService.findLicenseByKey as jest.Mock).mockResolvedValue({
+    id: 7,
+    licenseKey,
+    status: 'active',
+    version: 'grocery',
+    userLimit: 5,
+    locationAddress: null,
+    subscriptions: [{ status: 'active', endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) }],
+  });
+});
+
+describe('ActivationTokenService.verifyAccessToken', () => {
+  it('accepts a token that is not on the denylist', async () => {
+    await expect(ActivationTokenService.verifyAccessToken('token')).resolves.toMatchObject({ jti: 'jti-1' });
+  });
+
+  it('rejects a revoked token', async () => {
+    findRevoked.mockResolvedValue({ id: 1 });
+
+    await expect(ActivationTokenService.verifyAccessToken('token')).rejects.toThrow('Token has been revoked');
+  });
+
+  it('rejects legacy tokens without a jti, which could never be revoked', async () => {
+    verifyToken.mockResolvedValue(tokenPayload({ jti: undefined, activationId: undefined }));
+
+    await expect(ActivationTokenService.verifyAccessToken('token')).rejects.toThrow('no longer accepted');
+    expect(findRevoked).not.toHaveBeenCalled();
+  });
+
+  it('accepts tokens without a jti until the legacy cutoff', async () => {
+    config.legacyTokensAcceptedUntil = new Date(Date.now() + 60 * 60 * 1000);
+    verifyToken.mockResolvedValue(tokenPayload({ jti: undefined, activationId: undefined }));
+
+    await expect(ActivationTokenService.verifyAccessToken('token')).resolves.toMatchObject({ hardwareId: 'hw-1' });
+  });
+});
+
+describe('PublicLicenseService.validateLicense', () => {
+  it('validates an active activation', async () => {
+    const result = await PublicLicenseService.validateLicense({ licenseKey, token: 'token' });
+
+    expect(result.valid).toBe(true);
+    expect(prisma.activation.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 3 } }));
+  });
+
+  it('requires the activation token', async () => {
+    const result = await PublicLicenseService.validateLicense({ licenseKey, hardwareId: 'hw-1' });
+
+    expect(result).toEqual({ valid: false, message: 'Activation token is required' });
+  });
+
+  it('validates devices without a token by hardware ID until the legacy cutoff', async () => {
+    config.legacyTokensAcceptedUntil = new Date(Date.now() + 60 * 60 * 1000);
+
+    const result = await PublicLicenseService.validateLicense({ licenseKey, hardwareId: 'hw-1' });
+
+    expect(result.valid).toBe(true);
+    expect(findActivation).toHaveBeenCalledWith(expect.objectContaining({
+      where: { licenseId_hardwareId: { licenseId: 7, hardwareId: 'hw-1' } },
+    }));
+  });
+
+  it('validates legacy tokens by the device they were issued to until the legacy cutoff', async () => {
+    config.legacyTokensAcceptedUntil = new Date(Date.now() + 60 * 60 * 1000);
+    verifyToken.mockResolvedValue(tokenPayload({ jti: undefined, activationId: undefined }));
+
+    const result = await PublicLicenseService.validateLicense({ licenseKey, token: 'token' });
+
+    expect(result.valid).toBe(true);
+    expect(findActivation).toHaveBeenCalledWith(expect.objectContaining({
+      where: { licenseId_hardwareId: { licenseId: 7, hardwareId: 'hw-1' } },
+    }));
+  });
+
+  it('rejects a revoked token', async () => {
+    findRevoked.mockResolvedValue({ id: 1 });
+
+    const result = await PublicLicenseService.validateLicense({ licenseKey, token: 'token' });
+
+    expect(result).toEqual({ valid: false, message: 'Activation token has been revoked' });
+  });
+
+  it('rejects a deactivated activation', async () => {
+    findActivation.mockResolvedValue({ id: 3, licenseId: 7, hardwareId: 'hw-1', isActive: false });
+
+    const result = await PublicLicenseService.validateLicense({ licenseKey, token: 'token' });
+
+    expect(result).toEqual({ valid: false, message: 'Activation has been deactivated' });
+  });
+
+  it('rejects a token presented by another device', async () => {
+    const result = await PublicLicenseService.validateLicense({ licenseKey, token: 'token', hardwareId: 'hw-2' });
+
+    expect(result).toEqual({ valid: false, message: 'Activation token does not belong to this device' });
+  });
+});
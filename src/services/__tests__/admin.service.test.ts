@@ -0,0 +1,88 @@
+jest.mock('../../config/database', () => {
+  const db = {
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+    admin: { findUnique: jest.fn(), update: jest.fn() },
+  };
+  // FOR UPDATE on the owner rows makes these transactions run one after another
+  let queue: Promise<unknown> = Promise.resolve();
+  db.$transaction.mockImplementation((fn: (tx: typeof db) => unknown) => {
+    const run = queue.then(() => fn(db));
+    queue = run.catch(() => undefined);
+    return run;
+  });
+  return { __esModule: true, default: db };
+});
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock('bcrypt', () => ({ hash: jest.fn(), compare: jest.fn() }));
+jest.mock('../audit.service', () => ({ AuditService: { record: jest.fn() } }));
+jest.mock('../whatsapp.service', () => ({ WhatsAppService: {} }));
+jest.mock('../keyManagement.service', () => ({ KeyManagementService: {} }));
+jest.mock('../adminTwoFactor.service', () => ({ AdminTwoFactorService: {} }));
+jest.mock('../adminSession.service', () => ({ AdminSessionService: { revokeAllSessions: jest.fn() } }));
+jest.mock('../adminLockout.service', () => ({ AdminLockoutService: {} }));
+
+import prisma from '../../config/database';
+import { AdminService } from '../admin.service';
+
+const db = prisma as unknown as {
+  $queryRaw: jest.Mock;
+  admin: { findUnique: jest.Mock; update: jest.Mock };
+};
+
+// Admin rows as the database holds them
+let admins: Array<{ id: number; role: string; isActive: boolean }>;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  admins = [
+    { id: 1, role: 'owner', isActive: true },
+    { id: 2, role: 'owner', isActive: true },
+    { id: 3, role: 'support', isActive: true },
+  ];
+  // Every request read its admin before any change was written
+  db.admin.findUnique.mockImplementation(async ({ where }: { where: { id: number } }) => ({
+    ...admins.find((admin) => admin.id === where.id),
+  }));
+  db.$queryRaw.mockImplementation(async () => admins
+    .filter((admin) => admin.role === 'owner' && admin.isActive)
+    .map((admin) => ({ id: admin.id })));
+  db.admin.update.mockImplementation(async ({ where, data }: { where: { id: number }; data: object }) => {
+    const admin = admins.find((row) => row.id === where.id) as (typeof admins)[number];
+    Object.assign(admin, data);
+    return { ...admin };
+  });
+});
+
+const activeOwners = () => admins.filter((admin) => admin.role === 'owner' && admin.isActive);
+
+describe('AdminService last active owner', () => {
+  it('keeps one owner when both are demoted at the same time', async () => {
+    const results = await Promise.allSettled([
+      AdminService.updateRole(1, 'sales'),
+      AdminService.updateRole(2, 'sales'),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason.message).toBe('Cannot change the role of the last active owner');
+    expect(activeOwners()).toHaveLength(1);
+  });
+
+  it('keeps one owner when both are deactivated at the same time', async () => {
+    const results = await Promise.allSettled([
+      AdminService.setActive(1, false, 3),
+      AdminService.setActive(2, false, 3),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason.message).toBe('Cannot deactivate the last active owner');
+    expect(activeOwners()).toHaveLength(1);
+  });
+
+  it('lets an owner be demoted while another one remains', async () => {
+    await expect(AdminService.updateRole(1, 'sales')).resolves.toMatchObject({ id: 1, role: 'sales' });
+    expect(activeOwners().map((admin) => admin.id)).toEqual([2]);
+  });
+});
@@ -0,0 +1,101 @@
+jest.mock('../../config/database', () => {
+  const db = {
+    $queryRaw: jest.fn(),
+    admin: { update: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  // The UPDATE locks the admin row, so transactions on it run one after another
+  let queue: Promise<unknown> = Promise.resolve();
+  db.$transaction.mockImplementation((fn: (tx: typeof db) => unknown) => {
+    const run = queue.then(() => fn(db));
+    queue = run.catch(() => undefined);
+    return run;
+  });
+  return { __esModule: true, default: db };
+});
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock('../audit.service', () => ({ AuditService: { record: jest.fn() } }));
+jest.mock('../outbox.service', () => ({ OutboxService: { enqueueWhatsApp: jest.fn(), kick: jest.fn() } }));
+
+import prisma from '../../config/database';
+import { config } from '../../config/config';
+import { AdminLockoutService, LoginAttemptState } from '../adminLockout.service';
+import { OutboxService } from '../outbox.service';
+
+const db = prisma as unknown as { $queryRaw: jest.Mock; admin: { update: jest.Mock } };
+
+// Row as the database holds it; the raw UPDATE increments it the way Postgres would, one statement at a time
+let row: { failedLoginAttempts: number; lockedUntil: Date | null };
+
+const admin = (overrides: Partial<LoginAttemptState> = {}): LoginAttemptState => ({
+  id: 1,
+  username: 'owner',
+  phone: '+96170000000',
+  failedLoginAttempts: 0,
+  lastFailedLoginAt: null,
+  lockedUntil: null,
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  row = { failedLoginAttempts: 0, lockedUntil: null };
+  db.$queryRaw.mockImplementation(async () => {
+    row.failedLoginAttempts += 1;
+    return [{ ...row }];
+  });
+  db.admin.update.mockImplementation(async ({ data }: { data: { lockedUntil: Date } }) => {
+    row.lockedUntil = data.lockedUntil;
+  });
+});
+
+describe('AdminLockoutService.recordFailure', () => {
+  it('counts failures checked in parallel and locks once the limit is reached', async () => {
+    // Every request read the admin before any failure was written
+    const stale = admin();
+    await Promise.all(Array.from({ length: config.adminLoginMaxAttempts + 2 }, () => AdminLockoutService.recordFailure(stale)));
+
+    expect(row.failedLoginAttempts).toBe(config.adminLoginMaxAttempts + 2);
+    expect(row.lockedUntil).not.toBeNull();
+    expect(db.admin.update).toHaveBeenCalledTimes(1);
+    expect(OutboxService.enqueueWhatsApp).toHaveBeenCalledTimes(1);
+    expect(OutboxService.enqueueWhatsApp).toHaveBeenCalledWith(
+      'admin_lockout_alert',
+      expect.objectContaining({ failedAttempts: config.adminLoginMaxAttempts }),
+      expect.anything()
+    );
+  });
+
+  it('does not lock below the limit', async () => {
+    await AdminLockoutService.recordFailure(admin());
+
+    expect(row.failedLoginAttempts).toBe(1);
+    expect(db.admin.update).not.toHaveBeenCalled();
+    expect(OutboxService.enqueueWhatsApp).not.toHaveBeenCalled();
+  });
+});
+
+describe('AdminLockoutService.assertLoginAllowed', () => {
+  it('rejects attempts while the account is locked', () => {
+    const lockedUntil = new Date(Date.now() + 10 * 60 * 1000);
+
+    expect(() => AdminLockoutService.assertLoginAllowed(admin({ lockedUntil })))
+      .toThrow('Account temporarily locked after too many failed login attempts. Try again in 10 minutes');
+  });
+
+  it('makes repeated failures wait a growing delay', () => {
+    const lastFailedLoginAt = new Date(Date.now() - 1000);
+
+    expect(() => AdminLockoutService.assertLoginAllowed(admin({ failedLoginAttempts: 2, lastFailedLoginAt }))).not.toThrow();
+    expect(() => AdminLockoutService.assertLoginAllowed(admin({ failedLoginAttempts: 4, lastFailedLoginAt })))
+      .toThrow('Too many failed login attempts. Try again in 3 seconds');
+  });
+
+  it('forgets failures older than the window', () => {
+    const lastFailedLoginAt = new Date(Date.now() - 25 * 60 * 60 * 1000);
+
+    expect(() => AdminLockoutService.assertLoginAllowed(admin({ failedLoginAttempts: 4, lastFailedLoginAt }))).not.toThrow();
+  });
+});
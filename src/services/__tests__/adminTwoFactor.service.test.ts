@@ -0,0 +1,147 @@
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: {
+    adminLoginChallenge: { findUnique: jest.fn(), updateMany: jest.fn() },
+    phoneVerification: { findFirst: jest.fn(), updateMany: jest.fn(), create: jest.fn() },
+  },
+}));
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock('../whatsapp.service', () => ({ WhatsAppService: { sendOTP: jest.fn().mockResolvedValue({ success: true }) } }));
+jest.mock('../preferences.service', () => ({ PreferencesService: {} }));
+jest.mock('../keyManagement.service', () => ({ KeyManagementService: {} }));
+jest.mock('../audit.service', () => ({ AuditService: { record: jest.fn() } }));
+jest.mock('../outbox.service', () => ({ OutboxService: {} }));
+
+import prisma from '../../config/database';
+import { AdminLockoutService } from '../adminLockout.service';
+import { AdminTwoFactorService } from '../adminTwoFactor.service';
+import { PhoneVerificationService } from '../phoneVerification.service';
+
+const db = prisma as unknown as {
+  adminLoginChallenge: { findUnique: jest.Mock; updateMany: jest.Mock };
+  phoneVerification: { findFirst: jest.Mock; updateMany: jest.Mock; create: jest.Mock };
+};
+
+const admin = {
+  id: 1,
+  username: 'owner',
+  phone: '+96170000000',
+  isActive: true,
+  totpSecretEncrypted: null,
+  totpLastUsedStep: null,
+  failedLoginAttempts: 0,
+  lastFailedLoginAt: null as Date | null,
+  lockedUntil: null as Date | null,
+};
+
+let recordFailure: jest.SpyInstance;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  recordFailure = jest.spyOn(AdminLockoutService, 'recordFailure').mockResolvedValue();
+  db.adminLoginChallenge.findUnique.mockResolvedValue({
+    id: 5,
+    method: 'whatsapp',
+    attempts: 0,
+    consumedAt: null,
+    expiresAt: new Date(Date.now() + 60 * 1000),
+    admin: { ...admin },
+  });
+  db.adminLoginChallenge.updateMany.mockResolvedValue({ count: 1 });
+  db.phoneVerification.findFirst.mockResolvedValue(null);
+  db.phoneVerification.updateMany.mockResolvedValue({ count: 1 });
+  db.phoneVerification.create.mockImplementation(async ({ data }) => ({ id: 1, ...data }));
+});
+
+describe('PhoneVerificationService OTP purposes', () => {
+  it('only replaces unverified codes of the same purpose', async () => {
+    await PhoneVerificationService.sendOTP({ phone: admin.phone });
+
+    expect(db.phoneVerification.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { phone: admin.phone, purpose: 'phone_verification', verified: false },
+    }));
+    expect(db.phoneVerification.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ purpose: 'phone_verification' }),
+    }));
+  });
+
+  it('stops accepting a code once its attempts are used up', async () => {
+    db.phoneVerification.findFirst.mockResolvedValue({
+      id: 9,
+      otpCode: '123456',
+      attempts: 5,
+      expiresAt: new Date(Date.now() + 60 * 1000),
+    });
+    db.phoneVerification.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    const result = await PhoneVerificationService.verifyOTP({ phone: admin.phone, otpCode: '123456' });
+
+    expect(result).toEqual({ success: false, message: 'Too many invalid attempts. Please request a new OTP code.' });
+    expect(db.phoneVerification.updateMany).toHaveBeenCalledWith({
+      where: { id: 9, verified: false, attempts: { lt: 5 } },
+      data: { attempts: { increment: 1 } },
+    });
+    expect(db.phoneVerification.updateMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('only accepts a code for the purpose it was sent for', async () => {
+    await PhoneVerificationService.verifyOTP({ phone: admin.phone, otpCode: '123456' });
+
+    expect(db.phoneVerification.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ purpose: 'phone_verification' }),
+    }));
+  });
+});
+
+describe('AdminTwoFactorService.verifyLoginChallenge', () => {
+  it('checks WhatsApp codes against admin login codes only', async () => {
+    db.phoneVerification.findFirst.mockResolvedValue({
+      id: 9,
+      otpCode: '123456',
+      attempts: 0,
+      expiresAt: new Date(Date.now() + 60 * 1000),
+    });
+
+    await expect(AdminTwoFactorService.verifyLoginChallenge('challenge', '123456')).resolves.toEqual({
+      adminId: 1,
+      usedRecoveryCode: false,
+    });
+    expect(db.phoneVerification.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ purpose: 'admin_login' }),
+    }));
+  });
+
+  it('takes an attempt atomically and refuses once they are used up', async () => {
+    db.adminLoginChallenge.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(AdminTwoFactorService.verifyLoginChallenge('challenge', '123456'))
+      .rejects.toThrow('Too many invalid codes. Please log in again');
+    expect(db.adminLoginChallenge.updateMany).toHaveBeenCalledWith({
+      where: { id: 5, attempts: { lt: 5 } },
+      data: { attempts: { increment: 1 } },
+    });
+    expect(db.phoneVerification.findFirst).not.toHaveBeenCalled();
+  });
+
+  it('counts a wrong code toward the account lockout', async () => {
+    await expect(AdminTwoFactorService.verifyLoginChallenge('challenge', '123456')).rejects.toThrow('Invalid verification code');
+
+    expect(recordFailure).toHaveBeenCalledWith(expect.objectContaining({ id: 1, username: 'owner' }));
+  });
+
+  it('refuses codes while the account is locked', async () => {
+    db.adminLoginChallenge.findUnique.mockResolvedValue({
+      id: 5,
+      method: 'whatsapp',
+      attempts: 0,
+      consumedAt: null,
+      expiresAt: new Date(Date.now() + 60 * 1000),
+      admin: { ...admin, lockedUntil: new Date(Date.now() + 5 * 60 * 1000) },
+    });
+
+    await expect(AdminTwoFactorService.verifyLoginChallenge('challenge', '123456')).rejects.toThrow('Try again in 5 minutes');
+    expect(db.adminLoginChallenge.updateMany).not.toHaveBeenCalled();
+  });
+});
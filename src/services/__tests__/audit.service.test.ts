@@ -0,0 +1,109 @@
+jest.mock('../../config/database', () => {
+  const db = {
+    $executeRaw: jest.fn(),
+    auditEvent: { findFirst: jest.fn(), findMany: jest.fn(), create: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  db.$transaction.mockImplementation((fn: (tx: typeof db) => unknown) => fn(db));
+  return { __esModule: true, default: db };
+});
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { Prisma } from '@prisma/client';
+import prisma from '../../config/database';
+import { logger } from '../../utils/logger';
+import { AuditEventRecord, AuditService } from '../audit.service';
+
+const db = prisma as unknown as {
+  auditEvent: { findFirst: jest.Mock; findMany: jest.Mock; create: jest.Mock };
+};
+
+// The audit table as the database holds it
+let events: AuditEventRecord[];
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  events = [];
+  db.auditEvent.findFirst.mockImplementation(async () => events[events.length - 1] ?? null);
+  db.auditEvent.create.mockImplementation(async ({ data }: { data: Omit<AuditEventRecord, 'id'> }) => {
+    events.push({ ...data, id: events.length + 1, changes: data.changes ?? null, metadata: data.metadata ?? null });
+  });
+  db.auditEvent.findMany.mockImplementation(async ({ where, take }: { where: { id: { gt: number } }; take: number }) =>
+    events.filter((event) => event.id > where.id.gt).slice(0, take)
+  );
+});
+
+const recordThree = async (): Promise<void> => {
+  await AuditService.record({ action: 'license.create', entityType: 'license', entityId: 1, after: { status: 'active' } });
+  await AuditService.record({
+    action: 'license.update',
+    entityType: 'license',
+    entityId: 1,
+    before: { status: 'active' },
+    after: { status: 'revoked' },
+  });
+  await AuditService.record({ action: 'license.delete', entityType: 'license', entityId: 1, before: { status: 'revoked' } });
+};
+
+describe('AuditService.verifyChain', () => {
+  it('accepts an untouched chain', async () => {
+    await recordThree();
+
+    expect(events.map((event) => event.prevHash)).toEqual([null, events[0].hash, events[1].hash]);
+    await expect(AuditService.verifyChain()).resolves.toEqual({ valid: true, checked: 3, firstInvalidId: null, reason: null });
+  });
+
+  it('detects an edited event', async () => {
+    await recordThree();
+    events[1].changes = { status: { before: 'active', after: 'expired' } };
+
+    const result = await AuditService.verifyChain();
+
+    expect(result).toMatchObject({ valid: false, checked: 1, firstInvalidId: 2 });
+    expect(result.reason).toContain('modified');
+  });
+
+  it('detects a removed event', async () => {
+    await recordThree();
+    events.splice(1, 1);
+
+    const result = await AuditService.verifyChain();
+
+    expect(result).toMatchObject({ valid: false, checked: 1, firstInvalidId: 3 });
+    expect(result.reason).toContain('removed');
+  });
+});
+
+describe('AuditService.record', () => {
+  it('redacts secret fields by exact name only', async () => {
+    await AuditService.record({
+      action: 'admin.create',
+      entityType: 'admin',
+      entityId: 4,
+      after: { username: 'sales', mustResetPassword: true, passwordHash: '$2b$10$abc', totpSecretEncrypted: null },
+    });
+
+    expect(events[0].changes).toEqual({
+      username: { before: null, after: 'sales' },
+      mustResetPassword: { before: null, after: true },
+      passwordHash: { before: null, after: '[REDACTED]' },
+    });
+  });
+
+  it('fails the caller transaction when the event cannot be written', async () => {
+    db.auditEvent.create.mockRejectedValue(new Error('connection lost'));
+
+    await expect(
+      AuditService.record({ action: 'api_key.revoke', entityType: 'api_key', entityId: 2 }, prisma as unknown as Prisma.TransactionClient)
+    ).rejects.toThrow('connection lost');
+  });
+
+  it('only logs the failure without a transaction', async () => {
+    db.auditEvent.create.mockRejectedValue(new Error('connection lost'));
+
+    await expect(AuditService.record({ action: 'api_key.revoke', entityType: 'api_key', entityId: 2 })).resolves.toBeUndefined();
+    expect(logger.error).toHaveBeenCalledWith('Failed to record audit event', expect.objectContaining({ action: 'api_key.revoke' }));
+  });
+});
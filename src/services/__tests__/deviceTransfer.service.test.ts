@@ -0,0 +1,130 @@
+jest.mock('../../config/database', () => {
+  const db = {
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+    activation: { findFirst: jest.fn(), update: jest.fn() },
+    deviceTransfer: { count: jest.fn(), create: jest.fn() },
+    phoneVerification: { findFirst: jest.fn(), updateMany: jest.fn() },
+  };
+  // The license row lock makes releases of the same license run one after another
+  let queue: Promise<unknown> = Promise.resolve();
+  db.$transaction.mockImplementation((fn: (tx: typeof db) => unknown) => {
+    const run = queue.then(() => fn(db));
+    queue = run.catch(() => undefined);
+    return run;
+  });
+  return { __esModule: true, default: db };
+});
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+  logLicenseOperation: jest.fn(),
+}));
+jest.mock('../license.service', () => ({ LicenseService: { findLicenseByKey: jest.fn() } }));
+jest.mock('../activationToken.service', () => ({ ActivationTokenService: { revokeActivationTokens: jest.fn() } }));
+jest.mock('../audit.service', () => ({ AuditService: { record: jest.fn() } }));
+jest.mock('../keyManagement.service', () => ({ KeyManagementService: { signToken: jest.fn().mockResolvedValue('transfer-token') } }));
+jest.mock('../whatsapp.service', () => ({ WhatsAppService: {} }));
+
+import prisma from '../../config/database';
+import { config } from '../../config/config';
+import { ActivationTokenService } from '../activationToken.service';
+import { DeviceTransferService, TransferSession } from '../deviceTransfer.service';
+import { LicenseService } from '../license.service';
+
+const db = prisma as unknown as {
+  $queryRaw: jest.Mock;
+  activation: { findFirst: jest.Mock; update: jest.Mock };
+  deviceTransfer: { count: jest.Mock; create: jest.Mock };
+  phoneVerification: { findFirst: jest.Mock; updateMany: jest.Mock };
+};
+
+const session: TransferSession = { licenseId: 7, licenseKey: 'ABCD-1234', customerPhone: '+96170000000' };
+
+// Transfers recorded this month, as the database holds them
+let transfers: number;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  config.deviceTransferMonthlyQuota = 1;
+  transfers = 0;
+  db.activation.findFirst.mockImplementation(async ({ where }: { where: { id: number } }) => ({
+    id: where.id,
+    hardwareId: `hw-${where.id}`,
+    machineName: null,
+    isActive: true,
+  }));
+  db.deviceTransfer.count.mockImplementation(async () => transfers);
+  db.deviceTransfer.create.mockImplementation(async ({ data }: { data: { activationId: number } }) => {
+    transfers += 1;
+    return { id: transfers, activationId: data.activationId, createdAt: new Date() };
+  });
+});
+
+describe('DeviceTransferService.releaseActivation', () => {
+  it('counts the quota under the license lock so parallel releases cannot exceed it', async () => {
+    const results = await Promise.allSettled([
+      DeviceTransferService.releaseActivation(session, 1),
+      DeviceTransferService.releaseActivation(session, 2),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason.message).toMatch('Monthly device transfer limit reached (1/1)');
+    expect(db.$queryRaw).toHaveBeenCalledTimes(2);
+    expect(db.activation.update).toHaveBeenCalledTimes(1);
+    expect(db.activation.update).toHaveBeenCalledWith({ where: { id: 1 }, data: { isActive: false } });
+    expect(ActivationTokenService.revokeActivationTokens).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not record a transfer for an inactive activation', async () => {
+    db.activation.findFirst.mockResolvedValue({ id: 1, hardwareId: 'hw-1', machineName: null, isActive: false });
+
+    await expect(DeviceTransferService.releaseActivation(session, 1)).rejects.toThrow('Activation is already inactive');
+    expect(db.deviceTransfer.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('DeviceTransferService.verifyOtp', () => {
+  beforeEach(() => {
+    (LicenseService.findLicenseByKey as jest.Mock).mockResolvedValue({
+      id: 7,
+      licenseKey: 'ABCD-1234',
+      status: 'active',
+      customerPhone: session.customerPhone,
+    });
+    db.phoneVerification.findFirst.mockResolvedValue({
+      id: 9,
+      otpCode: '123456',
+      attempts: 4,
+      expiresAt: new Date(Date.now() + 60 * 1000),
+    });
+  });
+
+  it('checks transfer codes only and limits the attempts on each code', async () => {
+    db.phoneVerification.updateMany.mockResolvedValueOnce({ count: 1 });
+
+    await expect(DeviceTransferService.verifyOtp('ABCD-1234', '000000')).resolves.toEqual({
+      success: false,
+      message: 'Invalid or expired OTP code',
+    });
+    expect(db.phoneVerification.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ purpose: 'device_transfer' }),
+    }));
+
+    // The fifth attempt used the code up
+    db.phoneVerification.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await expect(DeviceTransferService.verifyOtp('ABCD-1234', '123456')).resolves.toEqual({
+      success: false,
+      message: 'Too many invalid attempts. Please request a new OTP code.',
+    });
+  });
+
+  it('opens a transfer session for the right code', async () => {
+    db.phoneVerification.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(DeviceTransferService.verifyOtp('ABCD-1234', '123456')).resolves.toMatchObject({
+      success: true,
+      transferToken: 'transfer-token',
+    });
+  });
+});
@@ -0,0 +1,143 @@
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: {
+    invoice: { count: jest.fn() },
+    license: { findUnique: jest.fn(), delete: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+  logLicenseOperation: jest.fn(),
+}));
+jest.mock('../audit.service', () => ({ AuditService: { record: jest.fn(), snapshot: jest.fn() } }));
+jest.mock('../outbox.service', () => ({ OutboxService: {} }));
+jest.mock('../webhook.service', () => ({ WebhookService: {} }));
+jest.mock('../notification.service', () => ({ NotificationService: {} }));
+jest.mock('../whatsapp.service', () => ({ WhatsAppService: {} }));
+jest.mock('../activationToken.service', () => ({ ActivationTokenService: {} }));
+jest.mock('../payment.service', () => ({ STANDING_PAYMENT_WHERE: {} }));
+
+import { Decimal } from '@prisma/client/runtime/library';
+import prisma from '../../config/database';
+import { AuditService } from '../audit.service';
+import { InvoiceService } from '../invoice.service';
+import { LicenseService } from '../license.service';
+
+// Counters and invoices as the database holds them; the upsert increments a counter the way Postgres would
+let counters: Map<string, number>;
+let payments: Map<number, { id: number; kind: string; paymentType: string; reversesPaymentId: number | null; reason: string | null }>;
+let invoices: Array<{ id: number; number: string; paymentId: number; series: string; sequence: number; creditedInvoiceNumber: string | null }>;
+
+const license = {
+  id: 7,
+  licenseKey: 'ABCD-1234',
+  version: 'grocery',
+  edition: null,
+  pricePerUser: new Decimal(25),
+  customerName: 'Shop',
+  customerPhone: null,
+  customerEmail: null,
+  locationName: null,
+  locationAddress: null,
+  subscriptions: [],
+};
+
+const tx = {
+  $queryRaw: jest.fn(async (_strings: TemplateStringsArray, series: string, year: number) => {
+    const key = `${series}:${year}`;
+    counters.set(key, (counters.get(key) ?? 0) + 1);
+    return [{ lastNumber: counters.get(key) }];
+  }),
+  payment: {
+    findUnique: jest.fn(async ({ where }: { where: { id: number } }) => {
+      const payment = payments.get(where.id);
+      return payment && { ...payment, amount: new Decimal(100), currency: 'USD', license };
+    }),
+  },
+  invoice: {
+    findUnique: jest.fn(async ({ where }: { where: { paymentId: number } }) =>
+      invoices.find((invoice) => invoice.paymentId === where.paymentId) ?? null),
+    create: jest.fn(async ({ data }: { data: (typeof invoices)[number] }) => {
+      const invoice = { ...data, id: invoices.length + 1 };
+      invoices.push(invoice);
+      return { ...invoice, payment: {} };
+    }),
+  },
+};
+
+const issue = (paymentId: number) => InvoiceService.createForPayment(tx as never, paymentId);
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  counters = new Map();
+  invoices = [];
+  payments = new Map([
+    [1, { id: 1, kind: 'payment', paymentType: 'annual', reversesPaymentId: null, reason: null }],
+    [2, { id: 2, kind: 'payment', paymentType: 'annual', reversesPaymentId: null, reason: null }],
+    [3, { id: 3, kind: 'payment', paymentType: 'user', reversesPaymentId: null, reason: null }],
+    [4, { id: 4, kind: 'refund', paymentType: 'annual', reversesPaymentId: 2, reason: 'duplicate' }],
+  ]);
+});
+
+describe('InvoiceService.createForPayment', () => {
+  it('numbers invoices consecutively within each series and year', async () => {
+    const year = new Date().getUTCFullYear();
+
+    const numbers = [(await issue(1)).number, (await issue(3)).number, (await issue(2)).number];
+
+    expect(numbers).toEqual([`INV-A-${year}-00001`, `INV-U-${year}-00001`, `INV-A-${year}-00002`]);
+  });
+
+  it('issues refunds as credit notes in their own series against the refunded invoice', async () => {
+    const year = new Date().getUTCFullYear();
+    await issue(1);
+    await issue(2);
+
+    const creditNote = await issue(4);
+
+    expect(creditNote).toMatchObject({
+      number: `INV-C-${year}-00001`,
+      kind: 'credit_note',
+      creditedInvoiceNumber: `INV-A-${year}-00002`,
+    });
+  });
+
+  it('issues the missing invoice of a refunded payment before its credit note', async () => {
+    const year = new Date().getUTCFullYear();
+
+    const creditNote = await issue(4);
+
+    expect(invoices.map((invoice) => invoice.number)).toEqual([`INV-A-${year}-00001`, `INV-C-${year}-00001`]);
+    expect(creditNote.creditedInvoiceNumber).toBe(`INV-A-${year}-00001`);
+  });
+});
+
+describe('LicenseService.deleteLicense', () => {
+  const db = prisma as unknown as {
+    invoice: { count: jest.Mock };
+    license: { findUnique: jest.Mock; delete: jest.Mock };
+    $transaction: jest.Mock;
+  };
+
+  beforeEach(() => {
+    db.$transaction.mockImplementation((fn: (tx: unknown) => Promise<unknown>) => fn(db));
+    db.license.findUnique.mockResolvedValue({ id: 7, licenseKey: 'ABCD-1234' });
+  });
+
+  it('refuses licenses with issued invoices', async () => {
+    db.invoice.count.mockResolvedValue(2);
+
+    await expect(LicenseService.deleteLicense(7)).rejects.toThrow('License has issued invoices and cannot be deleted');
+    expect(db.license.delete).not.toHaveBeenCalled();
+  });
+
+  it('deletes licenses that were never invoiced', async () => {
+    db.invoice.count.mockResolvedValue(0);
+
+    await LicenseService.deleteLicense(7);
+
+    expect(db.license.delete).toHaveBeenCalledWith({ where: { id: 7 } });
+    expect(AuditService.record).toHaveBeenCalledWith(expect.objectContaining({ action: 'license.delete' }), db);
+  });
+});
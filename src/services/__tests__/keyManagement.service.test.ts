@@ -0,0 +1,71 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+jest.mock('../../config/database', () => ({ __esModule: true, default: {} }));
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock('../audit.service', () => ({ AuditService: { record: jest.fn() } }));
+
+import { config } from '../../config/config';
+import { KeyManagementService } from '../keyManagement.service';
+
+// How secrets were encrypted before KEY_ENCRYPTION_SECRET existed
+const legacyEncrypt = (secret: string): string => {
+  const key = crypto.createHash('sha256').update(config.jwtSecret).digest();
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64')).join(':');
+};
+
+beforeEach(() => {
+  config.jwtSecret = 'jwt-secret';
+  config.keyEncryptionSecret = 'key-encryption-secret';
+  config.legacyTokensAcceptedUntil = null;
+});
+
+describe('KeyManagementService secret encryption', () => {
+  it('encrypts with KEY_ENCRYPTION_SECRET, not JWT_SECRET', () => {
+    const stored = KeyManagementService.encryptSecret('totp-secret');
+
+    expect(stored.startsWith('v2:')).toBe(true);
+    expect(KeyManagementService.decryptSecret(stored)).toBe('totp-secret');
+
+    config.jwtSecret = 'rotated-jwt-secret';
+    expect(KeyManagementService.decryptSecret(stored)).toBe('totp-secret');
+
+    config.keyEncryptionSecret = 'another-secret';
+    expect(() => KeyManagementService.decryptSecret(stored)).toThrow();
+  });
+
+  it('still decrypts values encrypted with the JWT_SECRET key', () => {
+    expect(KeyManagementService.decryptSecret(legacyEncrypt('webhook-secret'))).toBe('webhook-secret');
+  });
+
+  it('refuses to encrypt without KEY_ENCRYPTION_SECRET', () => {
+    config.keyEncryptionSecret = '';
+
+    expect(() => KeyManagementService.encryptSecret('secret')).toThrow('KEY_ENCRYPTION_SECRET is not configured');
+  });
+});
+
+describe('KeyManagementService.verifyToken without a kid', () => {
+  const legacyToken = () => jwt.sign({ licenseKey: 'ABCD' }, config.jwtSecret, { algorithm: 'HS256', expiresIn: '365d' });
+
+  it('rejects JWT_SECRET tokens when no deadline is set', async () => {
+    await expect(KeyManagementService.verifyToken(legacyToken())).rejects.toThrow('Token signing key is unknown or retired');
+  });
+
+  it('accepts them until the deadline', async () => {
+    config.legacyTokensAcceptedUntil = new Date(Date.now() + 60 * 60 * 1000);
+
+    await expect(KeyManagementService.verifyToken(legacyToken())).resolves.toMatchObject({ licenseKey: 'ABCD' });
+  });
+
+  it('rejects them after the deadline', async () => {
+    config.legacyTokensAcceptedUntil = new Date(Date.now() - 1000);
+
+    await expect(KeyManagementService.verifyToken(legacyToken())).rejects.toThrow('Token signing key is unknown or retired');
+  });
+});
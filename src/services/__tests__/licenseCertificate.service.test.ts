@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { config } from '../../config/config';
+import { LicenseCertificateService } from '../licenseCertificate.service';
+
+const { privateKey } = crypto.generateKeyPairSync('ed25519');
+config.licenseSigningPrivateKey = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+config.licenseSigningPublicKey = '';
+
+const issuedAt = new Date('2026-10-01T00:00:00.000Z');
+
+const issue = (expiresAt: Date) => LicenseCertificateService.issueCertificate({
+  licenseKey: 'ABCD-1234',
+  hardwareId: 'hw-1',
+  userLimit: 5,
+  version: 'grocery',
+  expiresAt,
+  entitlements: [{ feature: 'reports', expiresAt: null }],
+  issuedAt,
+});
+
+beforeEach(() => {
+  config.cacheValidityDays = 7;
+});
+
+describe('LicenseCertificateService', () => {
+  it('issues certificates the POS app can verify with the published public key alone', () => {
+    const certificate = issue(new Date('2027-10-01T00:00:00.000Z'));
+    const [encodedPayload, encodedSignature] = certificate.split('.');
+    const publicKey = crypto.createPublicKey(LicenseCertificateService.getPublicKey().publicKey);
+
+    expect(crypto.verify(null, Buffer.from(encodedPayload), publicKey, Buffer.from(encodedSignature, 'base64url'))).toBe(true);
+    expect(LicenseCertificateService.verifyCertificate(certificate)).toEqual({
+      licenseKey: 'ABCD-1234',
+      hardwareId: 'hw-1',
+      userLimit: 5,
+      version: 'grocery',
+      features: [{ feature: 'reports', expiresAt: null }],
+      expiresAt: '2027-10-01T00:00:00.000Z',
+      validUntil: '2026-10-08T00:00:00.000Z',
+      issuedAt: '2026-10-01T00:00:00.000Z',
+    });
+  });
+
+  it('rejects a certificate whose payload was changed', () => {
+    const [encodedPayload, encodedSignature] = issue(new Date('2027-10-01T00:00:00.000Z')).split('.');
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf-8'));
+    const tampered = Buffer.from(JSON.stringify({ ...payload, userLimit: 50 })).toString('base64url');
+
+    expect(LicenseCertificateService.verifyCertificate(`${tampered}.${encodedSignature}`)).toBeNull();
+    expect(LicenseCertificateService.verifyCertificate(encodedPayload)).toBeNull();
+  });
+
+  it('ends the offline window at the subscription end date', () => {
+    const expiresAt = new Date('2026-10-03T00:00:00.000Z');
+
+    expect(LicenseCertificateService.calculateValidUntil(issuedAt, expiresAt)).toEqual(expiresAt);
+    expect(LicenseCertificateService.verifyCertificate(issue(expiresAt))?.validUntil).toBe('2026-10-03T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,159 @@
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: {
+    outboxMessage: { findMany: jest.fn(), updateMany: jest.fn(), findUnique: jest.fn(), update: jest.fn() },
+  },
+}));
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock('../audit.service', () => ({ AuditService: { record: jest.fn() } }));
+jest.mock('../email.service', () => ({ EmailService: { send: jest.fn() } }));
+jest.mock('../invoice.service', () => ({ InvoiceService: {} }));
+jest.mock('../notification.service', () => ({ NotificationService: {} }));
+jest.mock('../whatsapp.service', () => ({ WhatsAppService: {} }));
+jest.mock('../webhook.service', () => ({ WebhookService: { publish: jest.fn() } }));
+
+import prisma from '../../config/database';
+import { config } from '../../config/config';
+import { logger } from '../../utils/logger';
+import { EmailService } from '../email.service';
+import { OutboxService } from '../outbox.service';
+
+interface FakeMessage {
+  id: number;
+  channel: string;
+  type: string;
+  payload: Record<string, unknown>;
+  status: string;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastError: string | null;
+  sentAt: Date | null;
+}
+
+const db = prisma as unknown as {
+  outboxMessage: { findMany: jest.Mock; updateMany: jest.Mock; findUnique: jest.Mock; update: jest.Mock };
+};
+const send = EmailService.send as jest.Mock;
+
+// The outbox table as the database holds it
+let message: FakeMessage;
+
+// Make the message's next attempt due, as if its backoff had elapsed
+const elapse = (): void => {
+  message.nextAttemptAt = new Date(Date.now() - 1000);
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  config.emailEnabled = true;
+  config.outboxMaxAttempts = 3;
+  message = {
+    id: 1,
+    channel: 'email',
+    type: 'email',
+    payload: { to: 'owner@example.com', subject: 'Invoice', text: 'Hello' },
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: new Date(Date.now() - 1000),
+    lastError: null,
+    sentAt: null,
+  };
+  const isDue = (): boolean => message.status === 'pending' && !!message.nextAttemptAt && message.nextAttemptAt <= new Date();
+  db.outboxMessage.findMany.mockImplementation(async () => (isDue() ? [{ id: message.id }] : []));
+  db.outboxMessage.updateMany.mockImplementation(async ({ data }: { data: { nextAttemptAt: Date } }) => {
+    if (!isDue()) {
+      return { count: 0 };
+    }
+    message.nextAttemptAt = data.nextAttemptAt;
+    return { count: 1 };
+  });
+  db.outboxMessage.findUnique.mockImplementation(async () => ({ ...message }));
+  db.outboxMessage.update.mockImplementation(async ({ data }: { data: Partial<FakeMessage> }) => {
+    Object.assign(message, data);
+    return { ...message };
+  });
+});
+
+describe('OutboxService.processDueMessages', () => {
+  it('retries a failed send with exponential backoff until it goes through', async () => {
+    send.mockResolvedValueOnce({ success: false, error: 'SMTP timeout' }).mockResolvedValue({ success: true });
+
+    const before = Date.now();
+    await expect(OutboxService.processDueMessages()).resolves.toEqual({ attempted: 1, sent: 0, dead: 0 });
+    expect(message).toMatchObject({ status: 'pending', attempts: 1, lastError: 'SMTP timeout' });
+    expect((message.nextAttemptAt as Date).getTime() - before).toBeGreaterThanOrEqual(60 * 1000);
+
+    // Not due again until the backoff has elapsed
+    await expect(OutboxService.processDueMessages()).resolves.toEqual({ attempted: 0, sent: 0, dead: 0 });
+
+    elapse();
+    await expect(OutboxService.processDueMessages()).resolves.toEqual({ attempted: 1, sent: 1, dead: 0 });
+    expect(message).toMatchObject({ status: 'sent', attempts: 2, lastError: null, nextAttemptAt: null });
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('doubles the backoff after each failure', async () => {
+    send.mockResolvedValue({ success: false, error: 'SMTP timeout' });
+    message.attempts = 1;
+
+    const before = Date.now();
+    await OutboxService.processDueMessages();
+
+    const wait = (message.nextAttemptAt as Date).getTime() - before;
+    expect(wait).toBeGreaterThanOrEqual(2 * 60 * 1000);
+    expect(wait).toBeLessThan(3 * 60 * 1000);
+  });
+
+  it('dead-letters the message after OUTBOX_MAX_ATTEMPTS failures', async () => {
+    send.mockResolvedValue({ success: false, error: 'Mailbox unavailable' });
+
+    for (let attempt = 1; attempt < config.outboxMaxAttempts; attempt++) {
+      await OutboxService.processDueMessages();
+      elapse();
+    }
+    await expect(OutboxService.processDueMessages()).resolves.toEqual({ attempted: 1, sent: 0, dead: 1 });
+
+    expect(message).toMatchObject({ status: 'dead', attempts: 3, nextAttemptAt: null, lastError: 'Mailbox unavailable' });
+    expect(logger.error).toHaveBeenCalledWith('Outbox message dead-lettered after repeated failures', expect.objectContaining({ messageId: 1 }));
+
+    // Dead messages are left alone
+    await expect(OutboxService.processDueMessages()).resolves.toEqual({ attempted: 0, sent: 0, dead: 0 });
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it('skips messages for a disabled channel instead of retrying them', async () => {
+    config.emailEnabled = false;
+
+    await OutboxService.processDueMessages();
+
+    expect(send).not.toHaveBeenCalled();
+    expect(message).toMatchObject({ status: 'skipped', attempts: 1, nextAttemptAt: null });
+  });
+
+  it('sends a message once when two workers pick it up together', async () => {
+    send.mockResolvedValue({ success: true });
+
+    await Promise.all([OutboxService.processDueMessages(), OutboxService.processDueMessages()]);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(message.status).toBe('sent');
+  });
+});
+
+describe('OutboxService.retryMessage', () => {
+  it('requeues a dead-lettered message with a fresh set of attempts', async () => {
+    jest.spyOn(OutboxService, 'kick').mockImplementation(() => undefined);
+    Object.assign(message, { status: 'dead', attempts: 3, nextAttemptAt: null, lastError: 'Mailbox unavailable' });
+
+    await OutboxService.retryMessage(1);
+
+    expect(message).toMatchObject({ status: 'pending', attempts: 0, lastError: null });
+    expect(OutboxService.kick).toHaveBeenCalled();
+  });
+
+  it('refuses to requeue a message that is still pending', async () => {
+    await expect(OutboxService.retryMessage(1)).rejects.toThrow('Only dead or skipped messages can be retried');
+  });
+});
@@ -0,0 +1,216 @@
+import { Decimal } from '@prisma/client/runtime/library';
+
+jest.mock('../../config/database', () => {
+  const db = {
+    $queryRaw: jest.fn(),
+    payment: { findUnique: jest.fn(), create: jest.fn(), update: jest.fn() },
+    license: { findUnique: jest.fn(), update: jest.fn() },
+    subscription: { findUnique: jest.fn(), update: jest.fn(), delete: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  db.$transaction.mockImplementation((fn: (tx: typeof db) => unknown) => fn(db));
+  return { __esModule: true, default: db };
+});
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock('../audit.service', () => ({ AuditService: { record: jest.fn() } }));
+jest.mock('../outbox.service', () => ({ OutboxService: { kick: jest.fn() } }));
+jest.mock('../webhook.service', () => ({ WebhookService: { emit: jest.fn() } }));
+jest.mock('../invoice.service', () => ({
+  InvoiceService: { createForPayment: jest.fn().mockResolvedValue({ id: 9, number: 'INV-C-2026-00001' }), queueWhatsApp: jest.fn() },
+}));
+jest.mock('../product.service', () => ({ ProductService: { getRulesForLicense: jest.fn() } }));
+
+import prisma from '../../config/database';
+import { config } from '../../config/config';
+import { PaymentService, PaymentSideEffects } from '../payment.service';
+import { EditionRules, ProductService } from '../product.service';
+
+const getRules = ProductService.getRulesForLicense as jest.Mock;
+
+const edition = (overrides: Partial<EditionRules> = {}): EditionRules => ({
+  productId: 1,
+  productCode: 'restaurant',
+  productName: 'Restaurant',
+  editionId: 3,
+  editionCode: 'pro',
+  editionName: 'Pro',
+  initialPrice: 900,
+  annualPrice: 240,
+  pricePerUser: 40,
+  currency: 'USD',
+  userLimit: 5,
+  maxActivations: null,
+  trialDays: 14,
+  features: [],
+  ...overrides,
+});
+
+const license = (currency: string) => ({
+  editionId: 3,
+  version: 'restaurant',
+  currency,
+  subscriptions: [{ annualFee: new Decimal(99) }],
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  config.defaultCurrency = 'USD';
+  config.annualSubscriptionPrice = 50;
+});
+
+describe('PaymentService.getRenewalFee', () => {
+  it('charges the annual price of the license edition', async () => {
+    getRules.mockResolvedValue(edition());
+
+    await expect(PaymentService.getRenewalFee(license('USD'))).resolves.toEqual(new Decimal(240));
+    expect(getRules).toHaveBeenCalledWith(expect.objectContaining({ editionId: 3, version: 'restaurant' }));
+  });
+
+  it('keeps the current fee of licenses priced in another currency', async () => {
+    getRules.mockResolvedValue(edition());
+
+    await expect(PaymentService.getRenewalFee(license('LBP'))).resolves.toEqual(new Decimal(99));
+  });
+
+  it('falls back to ANNUAL_SUBSCRIPTION_PRICE for products outside the catalog', async () => {
+    getRules.mockResolvedValue(null);
+
+    await expect(PaymentService.getRenewalFee(license('USD'))).resolves.toEqual(new Decimal(50));
+  });
+});
+
+describe('PaymentService reversals', () => {
+  const db = prisma as unknown as {
+    payment: { findUnique: jest.Mock; create: jest.Mock; update: jest.Mock };
+    license: { findUnique: jest.Mock; update: jest.Mock };
+    subscription: { findUnique: jest.Mock; update: jest.Mock; delete: jest.Mock };
+  };
+
+  const renewedUntil = new Date('2027-10-19T23:59:59.999Z');
+
+  const original = (sideEffects: PaymentSideEffects | null) => ({
+    id: 20,
+    licenseId: 7,
+    amount: new Decimal(300),
+    currency: 'USD',
+    paymentDate: new Date('2026-10-19T00:00:00.000Z'),
+    isAnnualSubscription: true,
+    paymentType: 'annual',
+    kind: 'payment',
+    status: 'completed',
+    sideEffects,
+    reversals: [],
+  });
+
+  const renewal: PaymentSideEffects = {
+    convertedFreeTrial: { freeTrialEndDate: '2026-11-01T00:00:00.000Z' },
+    initialPrice: { before: '0', after: '300' },
+    userLimitIncrement: 2,
+    subscription: {
+      id: 11,
+      created: false,
+      before: {
+        startDate: '2025-10-19T00:00:00.000Z',
+        endDate: '2026-10-18T23:59:59.999Z',
+        status: 'expired',
+        gracePeriodEnd: null,
+        annualFee: '50',
+        currency: 'USD',
+      },
+      endDate: renewedUntil.toISOString(),
+    },
+  };
+
+  beforeEach(() => {
+    db.payment.create.mockResolvedValue({ id: 21 });
+    db.license.findUnique.mockResolvedValue({ id: 7, userLimit: 5, userCount: 2, initialPrice: new Decimal(300) });
+    db.subscription.findUnique.mockResolvedValue({ id: 11, endDate: renewedUntil });
+  });
+
+  const reversalOf = (amount: number) => ({
+    id: 21,
+    licenseId: 7,
+    amount: new Decimal(amount),
+    currency: 'USD',
+    reason: null,
+    license: { id: 7, licenseKey: 'ABCD-1234-EFGH-5678-IJKL' },
+    invoice: { id: 9, number: 'INV-C-2026-00001' },
+  });
+
+  it('undoes the license and subscription changes of a voided payment', async () => {
+    db.payment.findUnique.mockResolvedValueOnce(original(renewal)).mockResolvedValueOnce(reversalOf(-300));
+
+    await PaymentService.voidPayment(20);
+
+    expect(db.license.update).toHaveBeenCalledWith({
+      where: { id: 7 },
+      data: {
+        userLimit: 3,
+        isFreeTrial: true,
+        freeTrialEndDate: new Date('2026-11-01T00:00:00.000Z'),
+        initialPrice: new Decimal(0),
+      },
+    });
+    expect(db.subscription.update).toHaveBeenCalledWith({
+      where: { id: 11 },
+      data: expect.objectContaining({ endDate: new Date('2026-10-18T23:59:59.999Z'), status: 'expired', annualFee: new Decimal(50) }),
+    });
+    expect(db.payment.update).toHaveBeenCalledWith({ where: { id: 20 }, data: { status: 'voided' } });
+  });
+
+  it('deletes a subscription the payment created', async () => {
+    const created: PaymentSideEffects = { subscription: { id: 11, created: true, before: null, endDate: renewedUntil.toISOString() } };
+    db.payment.findUnique.mockResolvedValueOnce(original(created)).mockResolvedValueOnce(reversalOf(-300));
+
+    await PaymentService.voidPayment(20);
+
+    expect(db.subscription.delete).toHaveBeenCalledWith({ where: { id: 11 } });
+    expect(db.license.update).not.toHaveBeenCalled();
+  });
+
+  it('keeps an initial price an admin has edited since', async () => {
+    db.payment.findUnique.mockResolvedValueOnce(original({ initialPrice: { before: '0', after: '300' } })).mockResolvedValueOnce(reversalOf(-300));
+    db.license.findUnique.mockResolvedValue({ id: 7, userLimit: 5, userCount: 2, initialPrice: new Decimal(450) });
+
+    await PaymentService.voidPayment(20);
+
+    expect(db.license.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses to undo a renewal that a later change builds on', async () => {
+    db.payment.findUnique.mockResolvedValueOnce(original(renewal));
+    db.subscription.findUnique.mockResolvedValue({ id: 11, endDate: new Date('2028-10-19T23:59:59.999Z') });
+
+    await expect(PaymentService.voidPayment(20)).rejects.toThrow('subscription 11 has changed since');
+    expect(db.subscription.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses to take back users the license is already using', async () => {
+    db.payment.findUnique.mockResolvedValueOnce(original({ userLimitIncrement: 2 }));
+    db.license.findUnique.mockResolvedValue({ id: 7, userLimit: 5, userCount: 4, initialPrice: new Decimal(300) });
+
+    await expect(PaymentService.voidPayment(20)).rejects.toThrow('the license has 4 users, more than the 3 it would allow');
+    expect(db.license.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses to undo the changes of a partial refund', async () => {
+    db.payment.findUnique.mockResolvedValueOnce(original(renewal));
+
+    await expect(PaymentService.refundPayment(20, { amount: 100, revertSideEffects: true })).rejects.toThrow(
+      'Cannot revert the license changes of a partial refund'
+    );
+    expect(db.payment.create).not.toHaveBeenCalled();
+  });
+
+  it('leaves the license alone when a refund does not revert its changes', async () => {
+    db.payment.findUnique.mockResolvedValueOnce(original(renewal)).mockResolvedValueOnce(reversalOf(-300));
+
+    await PaymentService.refundPayment(20);
+
+    expect(db.license.update).not.toHaveBeenCalled();
+    expect(db.subscription.update).not.toHaveBeenCalled();
+    expect(db.payment.update).toHaveBeenCalledWith({ where: { id: 20 }, data: { status: 'refunded' } });
+  });
+});
@@ -0,0 +1,164 @@
+import { Decimal } from '@prisma/client/runtime/library';
+
+jest.mock('../../config/database', () => {
+  const db = {
+    license: { findUnique: jest.fn(), update: jest.fn() },
+    subscription: { create: jest.fn(), update: jest.fn() },
+    payment: { count: jest.fn(), create: jest.fn(), update: jest.fn(), findUnique: jest.fn(), findFirst: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  db.$transaction.mockImplementation((fn: (tx: typeof db) => unknown) => fn(db));
+  return { __esModule: true, default: db };
+});
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock('../audit.service', () => ({ AuditService: { record: jest.fn(), snapshot: jest.fn() } }));
+jest.mock('../outbox.service', () => ({ OutboxService: { kick: jest.fn() } }));
+jest.mock('../webhook.service', () => ({ WebhookService: { emit: jest.fn() } }));
+jest.mock('../product.service', () => ({ ProductService: { getRulesForLicense: jest.fn().mockResolvedValue(null) } }));
+jest.mock('../invoice.service', () => ({
+  InvoiceService: { createForPayment: jest.fn().mockResolvedValue({ id: 1, number: 'INV-000001' }), queueWhatsApp: jest.fn() },
+}));
+
+import prisma from '../../config/database';
+import { PaymentService } from '../payment.service';
+import { ProrationService } from '../proration.service';
+
+interface FakeSubscription {
+  id: number;
+  startDate: Date;
+  endDate: Date;
+  createdAt: Date;
+  annualFee: Decimal;
+  currency: string;
+}
+
+interface SubscriptionFilter {
+  startDate?: { lte: Date };
+  endDate?: { gt: Date };
+}
+
+const db = prisma as unknown as {
+  license: { findUnique: jest.Mock; update: jest.Mock };
+  subscription: { create: jest.Mock; update: jest.Mock };
+  payment: { count: jest.Mock; create: jest.Mock; update: jest.Mock; findUnique: jest.Mock };
+};
+
+let subscriptions: FakeSubscription[];
+let userLimit: number;
+let userPricingMode: string;
+
+const term = (startDate: string, endDate: string, id = 1): FakeSubscription => ({
+  id,
+  startDate: new Date(startDate),
+  endDate: new Date(endDate),
+  createdAt: new Date(startDate),
+  annualFee: new Decimal(50),
+  currency: 'USD',
+});
+
+// Applies the subscription filter the services pass, the way the database would
+const licenseRow = (args: { select?: { subscriptions?: { where?: SubscriptionFilter } }; include?: { subscriptions?: { where?: SubscriptionFilter } } }) => {
+  const where = (args.select ?? args.include)?.subscriptions?.where;
+  const matching = subscriptions.filter((subscription) =>
+    (!where?.startDate || subscription.startDate <= where.startDate.lte)
+    && (!where?.endDate || subscription.endDate > where.endDate.gt));
+  return {
+    id: 7,
+    licenseKey: 'ABCD-EFGH-IJKL-MNOP',
+    status: 'active',
+    isFreeTrial: false,
+    freeTrialEndDate: null,
+    initialPrice: new Decimal(500),
+    pricePerUser: new Decimal(100),
+    currency: 'USD',
+    userLimit,
+    userPricingMode,
+    subscriptions: where ? matching : matching.slice(0, 1),
+    payments: [{ id: 1 }],
+    edition: null,
+  };
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  subscriptions = [term('2026-01-01T00:00:00Z', '2027-01-01T00:00:00Z')];
+  userLimit = 5;
+  userPricingMode = 'prorated';
+
+  db.license.findUnique.mockImplementation(async (args) => licenseRow(args));
+  db.license.update.mockImplementation(async ({ data }: { data: { userLimit?: { increment: number } } }) => {
+    userLimit += data.userLimit?.increment ?? 0;
+  });
+  db.payment.count.mockResolvedValue(1);
+  db.payment.create.mockImplementation(async ({ data }) => ({ id: 100, ...data }));
+  db.payment.findUnique.mockImplementation(async () => ({
+    id: 100,
+    licenseId: 7,
+    amount: new Decimal(0),
+    currency: 'USD',
+    paymentType: 'user',
+    license: { id: 7, licenseKey: 'ABCD-EFGH-IJKL-MNOP' },
+    invoice: { id: 1, number: 'INV-000001' },
+  }));
+});
+
+describe('ProrationService.quoteUserAddition', () => {
+  it('charges the share of the term left, in whole days', async () => {
+    const quote = await ProrationService.quoteUserAddition(7, 2, new Date('2026-07-02T12:00:00Z'));
+
+    expect(quote.termDays).toBe(365);
+    expect(quote.remainingDays).toBe(183);
+    expect(quote.prorated).toBe(true);
+    expect(quote.unitPrice).toBe(50.14);
+    expect(quote.amount).toBe(100.28);
+    expect(quote.chargeable).toBe(true);
+  });
+
+  it('charges the full price on licenses set to "full"', async () => {
+    userPricingMode = 'full';
+
+    const quote = await ProrationService.quoteUserAddition(7, 1, new Date('2026-07-02T12:00:00Z'));
+
+    expect(quote.prorated).toBe(false);
+    expect(quote.unitPrice).toBe(100);
+    expect(ProrationService.paymentProration(quote)).toBeUndefined();
+  });
+
+  it('charges the full price when no term is in force', async () => {
+    // Renewed ahead of time: the subscription row now holds the next term
+    subscriptions = [term('2027-01-01T00:00:00Z', '2028-01-01T00:00:00Z')];
+
+    const quote = await ProrationService.quoteUserAddition(7, 1, new Date('2026-12-01T00:00:00Z'));
+
+    expect(quote.subscription).toBeNull();
+    expect(quote.prorated).toBe(false);
+    expect(quote.unitPrice).toBe(100);
+  });
+
+  it('prorates two additions in a row against the same term', async () => {
+    const first = await ProrationService.quoteUserAddition(7, 1, new Date('2026-07-02T12:00:00Z'));
+    await PaymentService.createPayment({
+      licenseId: 7,
+      amount: first.amount,
+      isAnnualSubscription: false,
+      paymentType: 'user',
+      additionalUsers: 1,
+      prorated: ProrationService.paymentProration(first),
+      sendInvoice: false,
+    });
+
+    // A user payment pays for users only; the term stays as it was
+    expect(db.subscription.update).not.toHaveBeenCalled();
+    expect(db.subscription.create).not.toHaveBeenCalled();
+    expect(userLimit).toBe(6);
+
+    const second = await ProrationService.quoteUserAddition(7, 1, new Date('2026-10-01T12:00:00Z'));
+
+    expect(second.subscription?.endDate).toEqual(new Date('2027-01-01T00:00:00Z'));
+    expect(second.termDays).toBe(365);
+    expect(second.remainingDays).toBe(92);
+    expect(second.unitPrice).toBe(25.21);
+  });
+});
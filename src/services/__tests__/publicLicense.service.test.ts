@@ -0,0 +1,102 @@
+jest.mock('../../config/database', () => {
+  const db = {
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+    activation: { findFirst: jest.fn(), findUnique: jest.fn(), findMany: jest.fn(), create: jest.fn(), update: jest.fn() },
+    license: { update: jest.fn() },
+  };
+  // The license row lock makes activations of the same license run one after another
+  let queue: Promise<unknown> = Promise.resolve();
+  db.$transaction.mockImplementation((fn: (tx: typeof db) => unknown) => {
+    const run = queue.then(() => fn(db));
+    queue = run.catch(() => undefined);
+    return run;
+  });
+  return { __esModule: true, default: db };
+});
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+  logLicenseOperation: jest.fn(),
+}));
+jest.mock('../../utils/metrics.util', () => ({ metricsCollector: { recordDeviceCapReached: jest.fn() } }));
+jest.mock('../license.service', () => ({ LicenseService: { findLicenseByKey: jest.fn() } }));
+jest.mock('../subscription.service', () => ({ SubscriptionService: {} }));
+jest.mock('../payment.service', () => ({ PaymentService: {} }));
+jest.mock('../proration.service', () => ({ ProrationService: {} }));
+jest.mock('../licenseCertificate.service', () => ({ LicenseCertificateService: { issueCertificate: jest.fn() } }));
+jest.mock('../activationToken.service', () => ({ ActivationTokenService: { issueTokens: jest.fn().mockResolvedValue({}) } }));
+jest.mock('../product.service', () => ({ ProductService: { getRulesForLicense: jest.fn().mockResolvedValue(null) } }));
+jest.mock('../entitlement.service', () => ({ EntitlementService: { getEntitlements: jest.fn().mockResolvedValue([]) } }));
+jest.mock('../audit.service', () => ({ AuditService: { record: jest.fn() } }));
+jest.mock('../webhook.service', () => ({ WebhookService: { emit: jest.fn() } }));
+jest.mock('../hardwareFingerprint.service', () => ({ HardwareFingerprintService: {} }));
+
+import prisma from '../../config/database';
+import { LicenseKeyGeneratorService } from '../licenseKeyGenerator.service';
+import { LicenseService } from '../license.service';
+import { PublicLicenseService } from '../publicLicense.service';
+
+const db = prisma as unknown as {
+  $queryRaw: jest.Mock;
+  activation: { findFirst: jest.Mock; findUnique: jest.Mock; findMany: jest.Mock; create: jest.Mock; update: jest.Mock };
+};
+
+const licenseKey = LicenseKeyGeneratorService.generateKey();
+
+// Activations as the database holds them
+let activations: Array<{ id: number; machineName: string | null; hardwareId: string; isActive: boolean }>;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  activations = [{ id: 1, machineName: null, hardwareId: 'hw-existing-device', isActive: true }];
+  (LicenseService.findLicenseByKey as jest.Mock).mockResolvedValue({
+    id: 7,
+    licenseKey,
+    status: 'active',
+    version: 'grocery',
+    userLimit: 5,
+    userCount: 1,
+    maxActivations: 2,
+    locationName: 'Shop',
+    locationAddress: 'Main Street',
+    customerName: null,
+    customerPhone: null,
+    subscriptions: [{ status: 'active', endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) }],
+  });
+  db.activation.findFirst.mockResolvedValue(null);
+  db.activation.findUnique.mockResolvedValue(null);
+  db.activation.findMany.mockImplementation(async () => activations.filter((activation) => activation.isActive));
+  db.activation.create.mockImplementation(async ({ data }: { data: { hardwareId: string } }) => {
+    const activation = { id: activations.length + 1, machineName: null, hardwareId: data.hardwareId, isActive: true };
+    activations.push(activation);
+    return activation;
+  });
+});
+
+describe('PublicLicenseService.activateLicense device limit', () => {
+  it('counts seats under the license lock so parallel activations cannot exceed the limit', async () => {
+    const results = await Promise.all([
+      PublicLicenseService.activateLicense({ licenseKey, hardwareId: 'hw-new-device-1' }),
+      PublicLicenseService.activateLicense({ licenseKey, hardwareId: 'hw-new-device-2' }),
+    ]);
+
+    expect(results.map((result) => result.success)).toEqual([true, false]);
+    expect(results[1].message).toMatch('Device limit reached (2/2)');
+    expect(activations.filter((activation) => activation.isActive)).toHaveLength(2);
+    expect(db.$queryRaw).toHaveBeenCalledTimes(2);
+  });
+
+  it('lists the devices holding the seats without their full hardware IDs', async () => {
+    activations.push({ id: 2, machineName: 'Till 2', hardwareId: 'hw-second-device', isActive: true });
+
+    const result = await PublicLicenseService.activateLicense({ licenseKey, hardwareId: 'hw-new-device-1' });
+
+    expect(result.success).toBe(false);
+    expect(result.activeDevices).toEqual([
+      { activationId: 1, machineName: null, hardwareIdPrefix: 'hw-exist' },
+      { activationId: 2, machineName: 'Till 2', hardwareIdPrefix: 'hw-secon' },
+    ]);
+    expect(JSON.stringify(result)).not.toContain('hw-existing-device');
+    expect(db.activation.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,161 @@
+import Stripe from 'stripe';
+import { Decimal } from '@prisma/client/runtime/library';
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: { license: { findUnique: jest.fn() } },
+}));
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock('../audit.service', () => ({ AuditService: { record: jest.fn() } }));
+jest.mock('../payment.service', () => ({
+  STANDING_PAYMENT_WHERE: {},
+  PaymentService: { assertPaymentAllowed: jest.fn(), createPayment: jest.fn(), getRenewalFee: jest.fn() },
+}));
+jest.mock('../proration.service', () => ({
+  ProrationService: { quoteUserAddition: jest.fn(), paymentProration: jest.fn() },
+}));
+
+import prisma from '../../config/database';
+import { config } from '../../config/config';
+import { AuditService } from '../audit.service';
+import { PaymentService } from '../payment.service';
+import { ProrationService } from '../proration.service';
+import { StripeService } from '../stripe.service';
+
+const findLicense = prisma.license.findUnique as jest.Mock;
+const createPayment = PaymentService.createPayment as jest.Mock;
+const createSession = jest.fn();
+
+const completedEvent = (metadata: Record<string, string>): Stripe.Event => ({
+  id: 'evt_1',
+  type: 'checkout.session.completed',
+  created: 1790000000,
+  data: {
+    object: {
+      id: 'cs_1',
+      payment_status: 'paid',
+      payment_intent: 'pi_1',
+      amount_total: 5014,
+      currency: 'usd',
+      metadata,
+    },
+  },
+} as unknown as Stripe.Event);
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  config.stripeSecretKey = 'sk_test_123';
+  jest.spyOn(StripeService as unknown as { getClient: () => unknown }, 'getClient')
+    .mockReturnValue({ checkout: { sessions: { create: createSession } } });
+  createSession.mockResolvedValue({ id: 'cs_1', url: 'https://checkout.stripe.com/c/cs_1', expires_at: 1790000000 });
+  findLicense.mockResolvedValue({
+    id: 7,
+    licenseKey: 'ABCD-EFGH-IJKL-MNOP',
+    status: 'active',
+    isFreeTrial: false,
+    initialPrice: new Decimal(500),
+    currency: 'USD',
+    customerEmail: null,
+    locationName: null,
+    subscriptions: [],
+    payments: [{ id: 1 }],
+  });
+  createPayment.mockResolvedValue({ id: 100 });
+  (PaymentService.getRenewalFee as jest.Mock).mockResolvedValue(new Decimal(150));
+});
+
+describe('StripeService checkout for additional users', () => {
+  it('carries the prorated quote from the session to the payment', async () => {
+    (ProrationService.quoteUserAddition as jest.Mock).mockResolvedValue({
+      unitPrice: 50.14,
+      prorated: true,
+      remainingDays: 183,
+      termDays: 365,
+    });
+    (ProrationService.paymentProration as jest.Mock).mockReturnValue({ remainingDays: 183, termDays: 365 });
+
+    await StripeService.createCheckoutSession(7, { paymentType: 'user', additionalUsers: 1 });
+
+    const { metadata } = createSession.mock.calls[0][0];
+    expect(metadata).toMatchObject({ paymentType: 'user', additionalUsers: '1', remainingDays: '183', termDays: '365' });
+
+    const result = await StripeService.handleEvent(completedEvent(metadata));
+
+    expect(result).toEqual({ handled: true, paymentId: 100 });
+    expect(createPayment).toHaveBeenCalledWith(expect.objectContaining({
+      paymentType: 'user',
+      additionalUsers: 1,
+      amount: 50.14,
+      prorated: { remainingDays: 183, termDays: 365 },
+      stripePaymentIntentId: 'pi_1',
+    }));
+  });
+
+  it('records full-price users without proration', async () => {
+    (ProrationService.quoteUserAddition as jest.Mock).mockResolvedValue({ unitPrice: 100, prorated: false });
+    (ProrationService.paymentProration as jest.Mock).mockReturnValue(undefined);
+
+    await StripeService.createCheckoutSession(7, { paymentType: 'user', additionalUsers: 2 });
+
+    const { metadata } = createSession.mock.calls[0][0];
+    expect(metadata).not.toHaveProperty('remainingDays');
+
+    await StripeService.handleEvent(completedEvent(metadata));
+
+    expect(createPayment).toHaveBeenCalledWith(expect.objectContaining({ additionalUsers: 2, prorated: undefined }));
+  });
+});
+
+describe('StripeService webhook events', () => {
+  const metadata = { licenseId: '7', licenseKey: 'ABCD-EFGH-IJKL-MNOP', paymentType: 'initial', additionalUsers: '0' };
+
+  it('acknowledges and audits a paid checkout the server refuses to record', async () => {
+    createPayment.mockRejectedValue(new Error('Initial payment already exists for this license.'));
+
+    const result = await StripeService.handleEvent(completedEvent(metadata));
+
+    expect(result).toEqual({ handled: false, error: 'Initial payment already exists for this license.' });
+    expect(AuditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'payment.checkout_refused',
+      entityId: 7,
+      metadata: expect.objectContaining({ sessionId: 'cs_1', paymentIntentId: 'pi_1' }),
+    }));
+  });
+
+  it('fails on database errors so Stripe redelivers the event', async () => {
+    const error = new Error('Connection lost');
+    error.name = 'PrismaClientKnownRequestError';
+    createPayment.mockRejectedValue(error);
+
+    await expect(StripeService.handleEvent(completedEvent(metadata))).rejects.toThrow('Connection lost');
+    expect(AuditService.record).not.toHaveBeenCalled();
+  });
+
+  it('ignores sessions that are not paid yet', async () => {
+    const event = completedEvent(metadata);
+    (event.data.object as Stripe.Checkout.Session).payment_status = 'unpaid';
+
+    expect(await StripeService.handleEvent(event)).toEqual({ handled: false });
+    expect(createPayment).not.toHaveBeenCalled();
+  });
+});
+
+describe('StripeService checkout for renewals', () => {
+  it('charges the renewal fee that the payment will record', async () => {
+    await StripeService.createCheckoutSession(7, { paymentType: 'annual' });
+
+    expect(PaymentService.getRenewalFee).toHaveBeenCalledWith(expect.objectContaining({ id: 7, currency: 'USD' }));
+    const [lineItem] = createSession.mock.calls[0][0].line_items;
+    expect(lineItem.price_data.unit_amount).toBe(15000);
+  });
+});
+
+describe('StripeService.createCheckoutSessionForKey', () => {
+  it('looks the license up by its normalized key', async () => {
+    await StripeService.createCheckoutSessionForKey(' abcd-efgh-ijkl-mnop ', { paymentType: 'annual' });
+
+    expect(findLicense).toHaveBeenCalledWith(expect.objectContaining({ where: { licenseKey: 'ABCD-EFGH-IJKL-MNOP' } }));
+  });
+});
@@ -0,0 +1,118 @@
+jest.mock('../../config/database', () => {
+  const db = {
+    license: { findUnique: jest.fn() },
+    usageBatch: { create: jest.fn(), findUnique: jest.fn() },
+    $executeRaw: jest.fn(),
+    $transaction: jest.fn(),
+  };
+  // The batch's unique key serializes deliveries of the same batch, so transactions run one after another
+  let queue: Promise<unknown> = Promise.resolve();
+  db.$transaction.mockImplementation((fn: (tx: typeof db) => unknown) => {
+    const run = queue.then(() => fn(db));
+    queue = run.catch(() => undefined);
+    return run;
+  });
+  return { __esModule: true, default: db };
+});
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+  logLicenseOperation: jest.fn(),
+}));
+jest.mock('../activationToken.service', () => ({
+  ActivationTokenService: { resolveDeviceActivation: jest.fn() },
+}));
+
+import prisma from '../../config/database';
+import { ActivationTokenService } from '../activationToken.service';
+import { ReportUsageInput, UsageService } from '../usage.service';
+
+const db = prisma as unknown as {
+  license: { findUnique: jest.Mock };
+  usageBatch: { create: jest.Mock; findUnique: jest.Mock };
+  $executeRaw: jest.Mock;
+};
+const resolveDevice = ActivationTokenService.resolveDeviceActivation as jest.Mock;
+
+// Batches as the database holds them; the unique (activationId, batchId) key rejects a second insert
+let batches: Map<string, { batchId: string; recordCount: number; receivedAt: Date }>;
+
+const today = new Date().toISOString().split('T')[0];
+
+const report = (overrides: Partial<ReportUsageInput> = {}): ReportUsageInput => ({
+  licenseKey: 'ABCD-1234-EFGH-5678-IJKL',
+  token: 'access-token',
+  batchId: 'batch-1',
+  records: [
+    { date: today, metric: 'transactions', quantity: 10 },
+    { date: today, metric: 'transactions', quantity: 5 },
+    { date: today, metric: 'skus_stored', quantity: 300 },
+    { date: today, metric: 'skus_stored', quantity: 280 },
+  ],
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  batches = new Map();
+  db.license.findUnique.mockResolvedValue({ id: 7, licenseKey: 'ABCD-1234-EFGH-5678-IJKL', status: 'active' });
+  resolveDevice.mockResolvedValue({ activation: { id: 3, licenseId: 7, hardwareId: 'hw-1', isActive: true } });
+  db.usageBatch.create.mockImplementation(async ({ data }: { data: { activationId: number; batchId: string; recordCount: number; receivedAt: Date } }) => {
+    const key = `${data.activationId}:${data.batchId}`;
+    if (batches.has(key)) {
+      throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+    }
+    batches.set(key, data);
+    return data;
+  });
+  db.usageBatch.findUnique.mockImplementation(async ({ where }: { where: { activationId_batchId: { activationId: number; batchId: string } } }) =>
+    batches.get(`${where.activationId_batchId.activationId}:${where.activationId_batchId.batchId}`) ?? null
+  );
+});
+
+describe('UsageService.reportUsage', () => {
+  it('records the batch for the activation of the token', async () => {
+    const result = await UsageService.reportUsage(report({ hardwareId: 'hw-1' }));
+
+    expect(resolveDevice).toHaveBeenCalledWith(
+      { id: 7, licenseKey: 'ABCD-1234-EFGH-5678-IJKL', status: 'active' },
+      { token: 'access-token', hardwareId: 'hw-1' }
+    );
+    expect(result).toMatchObject({ batchId: 'batch-1', duplicate: false, accepted: 4 });
+    // One upsert per day and metric: counters summed, gauges at their peak
+    expect(db.$executeRaw).toHaveBeenCalledTimes(2);
+    expect(db.$executeRaw.mock.calls[0]).toContain(BigInt(15));
+    expect(db.$executeRaw.mock.calls[1]).toContain(BigInt(300));
+  });
+
+  it('acknowledges a resent batch without counting it again', async () => {
+    const first = await UsageService.reportUsage(report());
+    const second = await UsageService.reportUsage(report());
+
+    expect(second).toEqual({ ...first, duplicate: true });
+    expect(db.$executeRaw).toHaveBeenCalledTimes(2);
+  });
+
+  it('counts a batch delivered twice in parallel once', async () => {
+    const results = await Promise.all([UsageService.reportUsage(report()), UsageService.reportUsage(report())]);
+
+    expect(results.map((result) => result.duplicate).sort()).toEqual([false, true]);
+    expect(db.$executeRaw).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps batches of different devices apart', async () => {
+    await UsageService.reportUsage(report());
+    resolveDevice.mockResolvedValue({ activation: { id: 4, licenseId: 7, hardwareId: 'hw-2', isActive: true } });
+
+    const result = await UsageService.reportUsage(report());
+
+    expect(result.duplicate).toBe(false);
+    expect(db.$executeRaw).toHaveBeenCalledTimes(4);
+  });
+
+  it('rejects reports whose token does not resolve to an active device', async () => {
+    resolveDevice.mockResolvedValue({ error: 'Activation token does not belong to this license' });
+
+    await expect(UsageService.reportUsage(report())).rejects.toThrow('Activation token does not belong to this license');
+    expect(db.usageBatch.create).not.toHaveBeenCalled();
+  });
+});
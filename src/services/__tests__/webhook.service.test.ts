@@ -0,0 +1,141 @@
+import dns from 'dns';
+import axios from 'axios';
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: {
+    webhookDelivery: { findMany: jest.fn(), updateMany: jest.fn(), findUnique: jest.fn(), update: jest.fn() },
+    webhookEndpoint: { create: jest.fn() },
+  },
+}));
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock('axios', () => ({ __esModule: true, default: { post: jest.fn() } }));
+jest.mock('../keyManagement.service', () => ({
+  KeyManagementService: { decryptSecret: jest.fn().mockReturnValue('whsec_test'), encryptSecret: jest.fn() },
+}));
+jest.mock('../audit.service', () => ({ AuditService: { record: jest.fn(), snapshot: jest.fn() } }));
+jest.mock('../outbox.service', () => ({ OutboxService: { enqueue: jest.fn() } }));
+
+import prisma from '../../config/database';
+import { config } from '../../config/config';
+import { verifyWebhookSignature, WEBHOOK_SIGNATURE_HEADER } from '../../utils/webhookSignature.util';
+import { WebhookService } from '../webhook.service';
+
+const db = prisma as unknown as {
+  webhookDelivery: { findMany: jest.Mock; updateMany: jest.Mock; findUnique: jest.Mock; update: jest.Mock };
+  webhookEndpoint: { create: jest.Mock };
+};
+const post = axios.post as jest.Mock;
+const lookup = jest.spyOn(dns.promises, 'lookup');
+
+const delivery = (attempts: number, url = 'https://crm.example.com/hooks') => ({
+  id: 5,
+  endpointId: 2,
+  eventId: 'evt-1',
+  eventType: 'license.created',
+  payload: { id: 'evt-1', type: 'license.created', createdAt: '2026-10-19T00:00:00.000Z', data: { licenseId: 7 } },
+  attempts,
+  endpoint: { id: 2, url, isActive: true, secretEncrypted: 'v2:secret' },
+});
+
+// Runs one due delivery and returns the data it was saved with
+const attempt = async (attempts: number, url?: string): Promise<Record<string, unknown>> => {
+  db.webhookDelivery.findUnique.mockResolvedValue(delivery(attempts, url));
+  await WebhookService.processDueDeliveries();
+  return db.webhookDelivery.update.mock.calls[0][0].data;
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  config.nodeEnv = 'test';
+  config.webhookAllowPrivateUrls = false;
+  config.webhookMaxAttempts = 8;
+  lookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as never);
+  db.webhookDelivery.findMany.mockResolvedValue([{ id: 5 }]);
+  db.webhookDelivery.updateMany.mockResolvedValue({ count: 1 });
+  post.mockResolvedValue({ status: 200, data: 'ok' });
+});
+
+describe('WebhookService delivery', () => {
+  it('signs the exact body it sends with the endpoint secret', async () => {
+    const data = await attempt(0);
+
+    const [url, body, options] = post.mock.calls[0];
+    expect(url).toBe('https://crm.example.com/hooks');
+    expect(verifyWebhookSignature('whsec_test', body, options.headers[WEBHOOK_SIGNATURE_HEADER])).toBe(true);
+    expect(verifyWebhookSignature('whsec_other', body, options.headers[WEBHOOK_SIGNATURE_HEADER])).toBe(false);
+    expect(data).toMatchObject({ status: 'succeeded', attempts: 1, nextAttemptAt: null });
+  });
+
+  it('doubles the wait after each failed attempt', async () => {
+    post.mockResolvedValue({ status: 503, data: 'unavailable' });
+    const before = Date.now();
+
+    const data = await attempt(3);
+
+    const wait = (data.nextAttemptAt as Date).getTime() - before;
+    expect(data).toMatchObject({ status: 'pending', attempts: 4, error: 'Endpoint responded with HTTP 503' });
+    expect(wait).toBeGreaterThanOrEqual(8 * 60 * 1000);
+    expect(wait).toBeLessThan(9 * 60 * 1000);
+  });
+
+  it('marks the delivery failed after WEBHOOK_MAX_ATTEMPTS', async () => {
+    post.mockRejectedValue(new Error('timeout of 10000ms exceeded'));
+
+    const data = await attempt(7);
+
+    expect(data).toMatchObject({ status: 'failed', attempts: 8, nextAttemptAt: null, error: 'timeout of 10000ms exceeded' });
+  });
+
+  it('does not send to a host that now resolves to a private address', async () => {
+    lookup.mockResolvedValue([{ address: '10.0.0.12', family: 4 }] as never);
+
+    const data = await attempt(0);
+
+    expect(post).not.toHaveBeenCalled();
+    expect(data).toMatchObject({ status: 'pending', responseBody: null });
+    expect(data.error).toContain('private');
+  });
+});
+
+describe('WebhookService.assertDeliverableUrl', () => {
+  it.each([
+    'http://127.0.0.1:8080/hooks',
+    'http://[::1]/hooks',
+    'http://169.254.169.254/latest/meta-data',
+    'http://192.168.1.20/hooks',
+    'http://[::ffff:172.16.0.1]/hooks',
+    'http://[fd00::1]/hooks',
+  ])('rejects %s', async (url) => {
+    await expect(WebhookService.assertDeliverableUrl(url)).rejects.toThrow('loopback, private or link-local');
+  });
+
+  it('rejects hosts resolving to a private address among public ones', async () => {
+    lookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }, { address: '127.0.0.1', family: 4 }] as never);
+
+    await expect(WebhookService.assertDeliverableUrl('https://internal.example.com/hooks')).rejects.toThrow('private');
+  });
+
+  it('allows private hosts when WEBHOOK_ALLOW_PRIVATE_URLS is set', async () => {
+    config.webhookAllowPrivateUrls = true;
+
+    await expect(WebhookService.assertDeliverableUrl('http://localhost:4000/webhooks')).resolves.toBeUndefined();
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  it('requires https in production', async () => {
+    config.nodeEnv = 'production';
+
+    await expect(WebhookService.assertDeliverableUrl('http://crm.example.com/hooks')).rejects.toThrow('must use https');
+    await expect(WebhookService.assertDeliverableUrl('https://crm.example.com/hooks')).resolves.toBeUndefined();
+  });
+
+  it('refuses to create endpoints for private hosts', async () => {
+    await expect(
+      WebhookService.createEndpoint({ url: 'http://10.1.2.3/hooks', eventTypes: ['license.created'] }, 1)
+    ).rejects.toThrow('private');
+    expect(db.webhookEndpoint.create).not.toHaveBeenCalled();
+  });
+});
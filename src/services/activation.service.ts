@@ -1,5 +1,9 @@
 import prisma from '../config/database';
 import { logger, logLicenseOperation } from '../utils/logger';
+import { ActivationTokenService } from './activationToken.service';
+import { PreferencesService } from './preferences.service';
+import { AuditService, AuditActor } from './audit.service';
+import { HardwareFingerprint, FingerprintMatchDecision } from './hardwareFingerprint.service';
 
 export interface ActivationWithLicense {
   id: number;
@@ -9,6 +13,9 @@ export interface ActivationWithLicense {
   activatedAt: Date;
   lastValidation: Date | null;
   isActive: boolean;
+  dormantSince: Date | null;
+  fingerprint: HardwareFingerprint | null;
+  fingerprintMatch: FingerprintMatchDecision | null;
   license: {
     id: number;
     licenseKey: string;
@@ -17,6 +24,55 @@ export interface ActivationWithLicense {
   };
 }
 
+// Columns exposed to admins - token hashes and IDs stay server-side
+const activationWithLicenseSelect = {
+  id: true,
+  licenseId: true,
+  hardwareId: true,
+  machineName: true,
+  activatedAt: true,
+  lastValidation: true,
+  isActive: true,
+  dormantSince: true,
+  fingerprint: true,
+  fingerprintMatch: true,
+  license: {
+    select: {
+      id: true,
+      licenseKey: true,
+      customerName: true,
+      locationName: true,
+    },
+  },
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DormantActivationReport {
+  policy: {
+    dormantActivationDetection: boolean;
+    dormantAfterDays: number;
+    dormantAutoDeactivate: boolean;
+    dormantDeactivateAfterDays: number;
+  };
+  totalDormant: number;
+  licenses: Array<{
+    licenseId: number;
+    licenseKey: string;
+    customerName: string | null;
+    locationName: string | null;
+    dormantActivations: Array<{
+      id: number;
+      hardwareId: string;
+      machineName: string | null;
+      activatedAt: Date;
+      lastValidation: Date | null;
+      dormantSince: Date;
+      deactivatesAt: Date | null; // null when auto-deactivation is off
+    }>;
+  }>;
+}
+
 /**
  * Activation Service
  * Handles activation-related operations for admin
@@ -40,16 +96,7 @@ export class ActivationService {
 
     const activations = await prisma.activation.findMany({
       where,
-      include: {
-        license: {
-          select: {
-            id: true,
-            licenseKey: true,
-            customerName: true,
-            locationName: true,
-          },
-        },
-      },
+      select: activationWithLicenseSelect,
       orderBy: {
         activatedAt: 'desc',
       },
@@ -66,16 +113,7 @@ export class ActivationService {
   static async getActivationById(id: number): Promise<ActivationWithLicense | null> {
     const activation = await prisma.activation.findUnique({
       where: { id },
-      include: {
-        license: {
-          select: {
-            id: true,
-            licenseKey: true,
-            customerName: true,
-            locationName: true,
-          },
-        },
-      },
+      select: activationWithLicenseSelect,
     });
 
     return activation as ActivationWithLicense | null;
@@ -85,9 +123,13 @@ export class ActivationService {
    * Deactivate an activation (set isActive to false)
    * This removes the hardware binding but keeps the record for history
    * @param id Activation ID
+   * @param audit Optional actor and reason recorded in the audit log (defaults to the requesting admin)
    * @returns Promise<ActivationWithLicense> Deactivated activation
    */
-  static async deactivateActivation(id: number): Promise<ActivationWithLicense> {
+  static async deactivateActivation(
+    id: number,
+    audit: { actor?: AuditActor; reason?: string } = {},
+  ): Promise<ActivationWithLicense> {
     // Check if activation exists
     const existing = await prisma.activation.findUnique({
       where: { id },
@@ -103,18 +145,11 @@ export class ActivationService {
       data: {
         isActive: false,
       },
-      include: {
-        license: {
-          select: {
-            id: true,
-            licenseKey: true,
-            customerName: true,
-            locationName: true,
-          },
-        },
-      },
+      select: activationWithLicenseSelect,
     });
 
+    await ActivationTokenService.revokeActivationTokens([id], 'activation_deactivated');
+
     logger.info('Activation deactivated', {
       activationId: id,
       licenseId: activation.licenseId,
@@ -131,6 +166,21 @@ export class ActivationService {
       machineName: activation.machineName,
     });
 
+    await AuditService.record({
+      action: 'activation.deactivate',
+      entityType: 'activation',
+      entityId: id,
+      before: { isActive: existing.isActive },
+      after: { isActive: activation.isActive },
+      metadata: {
+        licenseId: activation.licenseId,
+        licenseKey: activation.license.licenseKey,
+        hardwareId: activation.hardwareId,
+        reason: audit.reason,
+      },
+      actor: audit.actor,
+    });
+
     return activation as ActivationWithLicense;
   }
 
@@ -159,6 +209,13 @@ export class ActivationService {
       licenseId: existing.licenseId,
       hardwareId: existing.hardwareId,
     });
+
+    await AuditService.record({
+      action: 'activation.delete',
+      entityType: 'activation',
+      entityId: id,
+      before: AuditService.snapshot(existing, ['licenseId', 'hardwareId', 'machineName', 'activatedAt', 'isActive']),
+    });
   }
 
   /**
@@ -192,6 +249,11 @@ export class ActivationService {
       },
     });
 
+    await ActivationTokenService.revokeActivationTokens(
+      activeActivations.map(a => a.id),
+      'activation_deactivated',
+    );
+
     logger.info('All activations deactivated for license', {
       licenseId,
       count: result.count,
@@ -210,6 +272,16 @@ export class ActivationService {
       });
     }
 
+    await AuditService.record({
+      action: 'license.reset_activations',
+      entityType: 'license',
+      entityId: licenseId,
+      metadata: {
+        count: result.count,
+        activations: activeActivations.map((a) => ({ id: a.id, hardwareId: a.hardwareId })),
+      },
+    });
+
     return result.count;
   }
 
@@ -282,16 +354,7 @@ export class ActivationService {
         skip,
         take: pageSize,
         orderBy,
-        include: {
-          license: {
-            select: {
-              id: true,
-              licenseKey: true,
-              customerName: true,
-              locationName: true,
-            },
-          },
-        },
+        select: activationWithLicenseSelect,
       }),
       prisma.activation.count({ where }),
     ]);
@@ -320,5 +383,186 @@ export class ActivationService {
       },
     };
   }
-}
 
+  /**
+   * Flag and optionally deactivate activations that stopped validating
+   * Policy comes from the general preferences:
+   * - Active devices with no validation for dormantAfterDays are flagged dormant (dormantSince)
+   * - With dormantAutoDeactivate, devices dormant for dormantDeactivateAfterDays are deactivated to free their seat
+   * A validation from the device clears the dormant flag
+   * @returns Promise with the number of activations flagged and deactivated
+   */
+  static async reclaimStaleActivations(): Promise<{ flagged: number; deactivated: number }> {
+    const { general } = await PreferencesService.getPreferences();
+
+    if (!general.dormantActivationDetection) {
+      logger.info('Stale activation detection is disabled - skipping');
+      return { flagged: 0, deactivated: 0 };
+    }
+
+    const now = new Date();
+    const dormantCutoff = new Date(now.getTime() - general.dormantAfterDays * DAY_MS);
+
+    // Devices that never validated are measured from their activation date
+    const flagged = await prisma.activation.updateMany({
+      where: {
+        isActive: true,
+        dormantSince: null,
+        OR: [
+          { lastValidation: { lt: dormantCutoff } },
+          { lastValidation: null, activatedAt: { lt: dormantCutoff } },
+        ],
+      },
+      data: { dormantSince: now },
+    });
+
+    if (flagged.count > 0) {
+      logger.info('Activations flagged as dormant', {
+        count: flagged.count,
+        dormantAfterDays: general.dormantAfterDays,
+      });
+    }
+
+    if (!general.dormantAutoDeactivate) {
+      return { flagged: flagged.count, deactivated: 0 };
+    }
+
+    const deactivateWhere = {
+      isActive: true,
+      dormantSince: { lte: new Date(now.getTime() - general.dormantDeactivateAfterDays * DAY_MS) },
+    };
+
+    const staleActivations = await prisma.activation.findMany({
+      where: deactivateWhere,
+      select: {
+        id: true,
+        licenseId: true,
+        hardwareId: true,
+        machineName: true,
+        lastValidation: true,
+        dormantSince: true,
+      },
+    });
+
+    if (staleActivations.length === 0) {
+      return { flagged: flagged.count, deactivated: 0 };
+    }
+
+    const staleIds = staleActivations.map(a => a.id);
+
+    // Re-check the dormant flag so a device that validated in the meantime keeps its seat
+    const deactivated = await prisma.activation.updateMany({
+      where: { ...deactivateWhere, id: { in: staleIds } },
+      data: { isActive: false },
+    });
+
+    await ActivationTokenService.revokeActivationTokens(staleIds, 'activation_dormant');
+
+    logger.info('Dormant activations deactivated', {
+      count: deactivated.count,
+      dormantDeactivateAfterDays: general.dormantDeactivateAfterDays,
+      activationIds: staleIds,
+    });
+
+    for (const activation of staleActivations) {
+      logLicenseOperation('activation', {
+        operation: 'deactivation',
+        activationId: activation.id,
+        licenseId: activation.licenseId,
+        hardwareId: activation.hardwareId,
+        machineName: activation.machineName,
+        lastValidation: activation.lastValidation,
+        dormantSince: activation.dormantSince,
+        reason: 'dormant',
+      });
+    }
+
+    await AuditService.record({
+      action: 'activation.deactivate',
+      entityType: 'activation',
+      metadata: {
+        reason: 'dormant',
+        count: deactivated.count,
+        activationIds: staleIds,
+      },
+      actor: { type: 'system' },
+    });
+
+    return { flagged: flagged.count, deactivated: deactivated.count };
+  }
+
+  /**
+   * Get active activations currently flagged dormant, grouped per license
+   * @param licenseId Optional license filter
+   * @returns Promise<DormantActivationReport> Dormant devices and the policy in effect
+   */
+  static async getDormantActivationReport(licenseId?: number): Promise<DormantActivationReport> {
+    const [{ general }, activations] = await Promise.all([
+      PreferencesService.getPreferences(),
+      prisma.activation.findMany({
+        where: {
+          isActive: true,
+          dormantSince: { not: null },
+          ...(licenseId && { licenseId }),
+        },
+        select: {
+          id: true,
+          hardwareId: true,
+          machineName: true,
+          activatedAt: true,
+          lastValidation: true,
+          dormantSince: true,
+          license: {
+            select: {
+              id: true,
+              licenseKey: true,
+              customerName: true,
+              locationName: true,
+            },
+          },
+        },
+        orderBy: [{ licenseId: 'asc' }, { dormantSince: 'asc' }],
+      }),
+    ]);
+
+    const licenses = new Map<number, DormantActivationReport['licenses'][number]>();
+
+    for (const activation of activations) {
+      const dormantSince = activation.dormantSince as Date;
+      let entry = licenses.get(activation.license.id);
+      if (!entry) {
+        entry = {
+          licenseId: activation.license.id,
+          licenseKey: activation.license.licenseKey,
+          customerName: activation.license.customerName,
+          locationName: activation.license.locationName,
+          dormantActivations: [],
+        };
+        licenses.set(activation.license.id, entry);
+      }
+
+      entry.dormantActivations.push({
+        id: activation.id,
+        hardwareId: activation.hardwareId,
+        machineName: activation.machineName,
+        activatedAt: activation.activatedAt,
+        lastValidation: activation.lastValidation,
+        dormantSince,
+        deactivatesAt: general.dormantAutoDeactivate
+          ? new Date(dormantSince.getTime() + general.dormantDeactivateAfterDays * DAY_MS)
+          : null,
+      });
+    }
+
+    return {
+      policy: {
+        dormantActivationDetection: general.dormantActivationDetection,
+        dormantAfterDays: general.dormantAfterDays,
+        dormantAutoDeactivate: general.dormantAutoDeactivate,
+        dormantDeactivateAfterDays: general.dormantDeactivateAfterDays,
+      },
+      totalDormant: activations.length,
+      licenses: Array.from(licenses.values()),
+    };
+  }
+}
@@ -0,0 +1,414 @@
+import crypto from 'crypto';
+import jwt, { JwtPayload, SignOptions } from 'jsonwebtoken';
+import prisma from '../config/database';
+import { config } from '../config/config';
+import { logger, logLicenseOperation } from '../utils/logger';
+import { cacheService, CacheKeys } from '../utils/cache.util';
+import { KeyManagementService } from './keyManagement.service';
+
+export interface ActivationTokenPayload extends JwtPayload {
+  licenseId: number;
+  licenseKey: string;
+  hardwareId: string;
+  locationId: number;
+  activationId?: number; // Missing on tokens issued before activation tokens existed
+}
+
+export interface ActivationTokens {
+  token: string;
+  tokenExpiresAt: Date;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+export interface RefreshActivationTokenResult extends Partial<ActivationTokens> {
+  success: boolean;
+  message: string;
+}
+
+export interface DeviceActivation {
+  id: number;
+  licenseId: number;
+  hardwareId: string;
+  isActive: boolean;
+}
+
+export type DeviceActivationResult =
+  | { activation: DeviceActivation; error?: undefined }
+  | { activation?: undefined; error: string };
+
+/**
+ * Activation Token Service
+ *
+ * Issues and revokes the tokens handed to POS devices on activation:
+ * - Access token: short-lived JWT (config.activationTokenExpiresIn) with a unique `jti`
+ * - Refresh token: opaque random value, stored hashed on the Activation row and rotated on every refresh
+ *
+ * Revoking an activation clears its refresh token and adds the current access token's
+ * `jti` to the RevokedToken denylist, which validation consults.
+ *
+ * Devices activated before tokens existed send no token, or a token without a `jti`. Both are accepted (and
+ * logged) until LEGACY_TOKENS_ACCEPTED_UNTIL so those devices can activate again, and rejected afterwards.
+ */
+export class ActivationTokenService {
+  private static hashRefreshToken(refreshToken: string): string {
+    return crypto.createHash('sha256').update(refreshToken).digest('hex');
+  }
+
+  /**
+   * Issue a new access/refresh token pair for an activation
+   * Any previously issued access and refresh tokens for the activation stop working.
+   * @param activation Activation the tokens are bound to
+   * @param license License the activation belongs to
+   * @returns Promise<ActivationTokens> New token pair
+   */
+  static async issueTokens(
+    activation: { id: number; hardwareId: string },
+    license: { id: number; licenseKey: string },
+  ): Promise<ActivationTokens> {
+    const jti = crypto.randomUUID();
+    const payload = {
+      licenseId: license.id,
+      licenseKey: license.licenseKey,
+      hardwareId: activation.hardwareId,
+      locationId: license.id, // Using license ID as location ID
+      activationId: activation.id,
+    };
+
+    const token = await KeyManagementService.signToken(payload, {
+      expiresIn: config.activationTokenExpiresIn,
+      jwtid: jti,
+    } as SignOptions);
+
+    const decoded = jwt.decode(token) as JwtPayload;
+    const tokenExpiresAt = new Date((decoded.exp as number) * 1000);
+
+    const refreshToken = crypto.randomBytes(32).toString('base64url');
+    const refreshTokenExpiresAt = new Date();
+    refreshTokenExpiresAt.setDate(refreshTokenExpiresAt.getDate() + config.activationRefreshTokenDays);
+
+    // Denylist the access token being replaced so a later revocation cannot miss it
+    const previous = await prisma.activation.findUnique({
+      where: { id: activation.id },
+      select: { accessTokenJti: true, accessTokenExpiresAt: true },
+    });
+    if (previous?.accessTokenJti && previous.accessTokenExpiresAt && previous.accessTokenExpiresAt > new Date()) {
+      await prisma.revokedToken.createMany({
+        data: [{
+          jti: previous.accessTokenJti,
+          activationId: activation.id,
+          reason: 'superseded',
+          expiresAt: previous.accessTokenExpiresAt,
+        }],
+        skipDuplicates: true,
+      });
+    }
+
+    await prisma.activation.update({
+      where: { id: activation.id },
+      data: {
+        accessTokenJti: jti,
+        accessTokenExpiresAt: tokenExpiresAt,
+        refreshTokenHash: this.hashRefreshToken(refreshToken),
+        refreshTokenExpiresAt,
+      },
+    });
+
+    return { token, tokenExpiresAt, refreshToken, refreshTokenExpiresAt };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair
+   * Refused when the activation is deactivated or the license is revoked or suspended.
+   * @param refreshToken Refresh token issued on activation or a previous refresh
+   * @returns Promise<RefreshActivationTokenResult> New token pair or failure reason
+   */
+  static async refreshTokens(refreshToken: string): Promise<RefreshActivationTokenResult> {
+    const activation = await prisma.activation.findUnique({
+      where: { refreshTokenHash: this.hashRefreshToken(refreshToken) },
+      include: {
+        license: {
+          select: {
+            id: true,
+            licenseKey: true,
+            status: true,
+          },
+        },
+      },
+    });
+
+    if (!activation || !activation.refreshTokenExpiresAt || activation.refreshTokenExpiresAt < new Date()) {
+      return {
+        success: false,
+        message: 'Refresh token is invalid or expired',
+      };
+    }
+
+    if (activation.license.status === 'revoked') {
+      await this.revokeActivationTokens([activation.id], 'license_revoked');
+      return {
+        success: false,
+        message: 'License has been revoked',
+      };
+    }
+
+    if (activation.license.status === 'suspended') {
+      return {
+        success: false,
+        message: 'License is currently suspended',
+      };
+    }
+
+    if (!activation.isActive) {
+      await this.revokeActivationTokens([activation.id], 'activation_deactivated');
+      return {
+        success: false,
+        message: 'Activation has been deactivated',
+      };
+    }
+
+    const tokens = await this.issueTokens(activation, activation.license);
+
+    logLicenseOperation('activation', {
+      operation: 'token_refresh',
+      activationId: activation.id,
+      licenseId: activation.license.id,
+      hardwareId: activation.hardwareId,
+    });
+
+    return {
+      success: true,
+      message: 'Token refreshed successfully',
+      ...tokens,
+    };
+  }
+
+  /**
+   * Whether requests from devices activated before activation tokens existed are still accepted
+   */
+  static acceptsLegacyClients(): boolean {
+    return !!config.legacyTokensAcceptedUntil && config.legacyTokensAcceptedUntil > new Date();
+  }
+
+  /**
+   * Verify an activation access token and check it against the denylist
+   * @param token Access token
+   * @returns Promise<ActivationTokenPayload> Decoded payload (without activationId for legacy tokens)
+   * @throws Error if the token is invalid, expired, or revoked
+   */
+  static async verifyAccessToken(token: string): Promise<ActivationTokenPayload> {
+    const decoded = await KeyManagementService.verifyToken<ActivationTokenPayload>(token);
+
+    // Tokens issued before revocation existed carry no jti and can never be revoked
+    if (!decoded.jti || typeof decoded.activationId !== 'number') {
+      if (!this.acceptsLegacyClients()) {
+        throw new Error('Token cannot be revoked and is no longer accepted');
+      }
+
+      logger.warn('Accepted legacy activation token without jti', {
+        licenseId: decoded.licenseId,
+        hardwareId: decoded.hardwareId,
+      });
+      return { ...decoded, activationId: undefined };
+    }
+
+    if (await this.isTokenRevoked(decoded.jti)) {
+      throw new Error('Token has been revoked');
+    }
+
+    return decoded;
+  }
+
+  /**
+   * Resolve the activation a device request comes from
+   * The activation must be active and belong to the license; a hardware ID, when given, must be the activation's.
+   * @param license License the request is for
+   * @param device Access token and hardware ID sent by the device
+   * @returns Promise<DeviceActivationResult> Activation, or the reason the device is refused
+   */
+  static async resolveDeviceActivation(
+    license: { id: number; licenseKey: string },
+    device: { token?: string; hardwareId?: string },
+  ): Promise<DeviceActivationResult> {
+    let hardwareId = device.hardwareId;
+    let activationId: number | undefined;
+
+    if (device.token) {
+      let tokenPayload: ActivationTokenPayload;
+      try {
+        tokenPayload = await this.verifyAccessToken(device.token);
+      } catch (error: unknown) {
+        const tokenError = error instanceof Error ? error.message : 'Invalid token';
+        return {
+          error: tokenError.includes('revoked')
+            ? 'Activation token has been revoked'
+            : 'Activation token is invalid or expired',
+        };
+      }
+
+      if (tokenPayload.licenseKey !== license.licenseKey) {
+        return { error: 'Activation token does not belong to this license' };
+      }
+
+      if (hardwareId && tokenPayload.hardwareId && hardwareId !== tokenPayload.hardwareId) {
+        return { error: 'Activation token does not belong to this device' };
+      }
+
+      activationId = tokenPayload.activationId;
+      hardwareId = tokenPayload.hardwareId || hardwareId;
+      if (activationId === undefined && !hardwareId) {
+        return { error: 'Activation token is invalid or expired' };
+      }
+    } else {
+      if (!this.acceptsLegacyClients() || !hardwareId) {
+        return { error: 'Activation token is required' };
+      }
+
+      logger.warn('Accepted legacy device request without an activation token', {
+        licenseId: license.id,
+        hardwareId,
+      });
+    }
+
+    const select = { id: true, licenseId: true, hardwareId: true, isActive: true } as const;
+    const activation = activationId !== undefined
+      ? await prisma.activation.findUnique({ where: { id: activationId }, select })
+      : await prisma.activation.findUnique({
+          where: { licenseId_hardwareId: { licenseId: license.id, hardwareId: hardwareId as string } },
+          select,
+        });
+
+    if (!activation || activation.licenseId !== license.id || !activation.isActive) {
+      return { error: 'Activation has been deactivated' };
+    }
+
+    if (device.hardwareId && device.hardwareId !== activation.hardwareId) {
+      return { error: 'Activation token does not belong to this device' };
+    }
+
+    return { activation };
+  }
+
+  /**
+   * Check whether a token ID is on the denylist
+   */
+  static async isTokenRevoked(jti: string): Promise<boolean> {
+    const cacheKey = CacheKeys.revokedToken(jti);
+    if (cacheService.get<boolean>(cacheKey)) {
+      return true;
+    }
+
+    const revoked = await prisma.revokedToken.findUnique({
+      where: { jti },
+      select: { id: true },
+    });
+
+    if (revoked) {
+      cacheService.set(cacheKey, true, 3600);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Revoke the tokens of the given activations
+   * Clears refresh tokens and denylists any access token that has not yet expired.
+   * @param activationIds Activations to revoke
+   * @param reason Reason recorded on the denylist entry
+   * @returns Promise<number> Number of access tokens added to the denylist
+   */
+  static async revokeActivationTokens(activationIds: number[], reason: string): Promise<number> {
+    if (activationIds.length === 0) {
+      return 0;
+    }
+
+    const now = new Date();
+    const activations = await prisma.activation.findMany({
+      where: {
+        id: { in: activationIds },
+        OR: [{ accessTokenJti: { not: null } }, { refreshTokenHash: { not: null } }],
+      },
+      select: {
+        id: true,
+        accessTokenJti: true,
+        accessTokenExpiresAt: true,
+      },
+    });
+
+    if (activations.length === 0) {
+      return 0;
+    }
+
+    const denylistEntries = activations
+      .filter((activation) => activation.accessTokenJti && activation.accessTokenExpiresAt && activation.accessTokenExpiresAt > now)
+      .map((activation) => ({
+        jti: activation.accessTokenJti as string,
+        activationId: activation.id,
+        reason,
+        expiresAt: activation.accessTokenExpiresAt as Date,
+      }));
+
+    await prisma.$transaction([
+      prisma.revokedToken.createMany({
+        data: denylistEntries,
+        skipDuplicates: true,
+      }),
+      prisma.activation.updateMany({
+        where: { id: { in: activations.map((activation) => activation.id) } },
+        data: {
+          accessTokenJti: null,
+          accessTokenExpiresAt: null,
+          refreshTokenHash: null,
+          refreshTokenExpiresAt: null,
+        },
+      }),
+    ]);
+
+    for (const entry of denylistEntries) {
+      cacheService.set(CacheKeys.revokedToken(entry.jti), true, 3600);
+    }
+
+    logger.info('Activation tokens revoked', {
+      activationIds: activations.map((activation) => activation.id),
+      revokedAccessTokens: denylistEntries.length,
+      reason,
+    });
+
+    return denylistEntries.length;
+  }
+
+  /**
+   * Revoke the tokens of every activation of a license
+   * @param licenseId License ID
+   * @param reason Reason recorded on the denylist entry
+   * @returns Promise<number> Number of access tokens added to the denylist
+   */
+  static async revokeLicenseTokens(licenseId: number, reason: string): Promise<number> {
+    const activations = await prisma.activation.findMany({
+      where: { licenseId },
+      select: { id: true },
+    });
+
+    return this.revokeActivationTokens(
+      activations.map((activation) => activation.id),
+      reason,
+    );
+  }
+
+  /**
+   * Remove denylist entries whose tokens have expired anyway
+   * @returns Promise<number> Number of entries removed
+   */
+  static async purgeExpiredRevocations(): Promise<number> {
+    const result = await prisma.revokedToken.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+
+    if (result.count > 0) {
+      logger.info('Purged expired token revocations', { count: result.count });
+    }
+
+    return result.count;
+  }
+}
@@ -1,13 +1,23 @@
 import bcrypt from 'bcrypt';
-import jwt, { SignOptions } from 'jsonwebtoken';
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import jwt, { JwtPayload, SignOptions } from 'jsonwebtoken';
 import prisma from '../config/database';
 import { config } from '../config/config';
 import { logger } from '../utils/logger';
+import { KeyManagementService } from './keyManagement.service';
+import { AuditService } from './audit.service';
+import { WhatsAppService } from './whatsapp.service';
+import { AdminTwoFactorService, LoginChallenge } from './adminTwoFactor.service';
+import { AdminSessionService } from './adminSession.service';
+import { AdminLockoutService } from './adminLockout.service';
+import { AdminRole, isAdminRole } from '../config/permissions.config';
 
 export interface CreateAdminInput {
   username: string;
   phone: string;
   password: string;
+  role?: AdminRole; // Defaults to read_only
 }
 
 export interface LoginInput {
@@ -19,13 +29,70 @@ export interface AdminPayload {
   id: number;
   username: string;
   phone: string;
+  role: string;
 }
 
+export interface AuthenticatedAdmin extends AdminPayload {
+  sessionId: string; // Server-side session the token belongs to
+}
+
+export type LoginResult =
+  | { twoFactorRequired: false; token: string; admin: AdminPayload }
+  | ({ twoFactorRequired: true } & LoginChallenge);
+
+export interface AdminSummary {
+  id: number;
+  username: string;
+  phone: string;
+  role: string;
+  isActive: boolean;
+  mustResetPassword: boolean; // Invitation not accepted yet, or a password reset was forced
+  passwordSetupExpiresAt: Date | null;
+  invitedBy: number | null;
+  failedLoginAttempts: number;
+  lockedUntil: Date | null; // Set while the account is locked after failed logins
+  twoFactorMethod: string | null; // totp | whatsapp, null when not enrolled
+  lastLogin: Date | null;
+  createdAt: Date;
+}
+
+export interface InviteAdminInput {
+  username: string;
+  phone: string;
+  role: AdminRole;
+}
+
+/**
+ * One-time link that lets an invited admin (or one whose password was reset) set a password
+ */
+export interface PasswordSetupLink {
+  admin: AdminSummary;
+  setupUrl: string; // Contains the token - returned once, never stored in plain text
+  expiresAt: Date;
+  whatsappSent: boolean;
+}
+
+const ADMIN_SUMMARY_SELECT = {
+  id: true,
+  username: true,
+  phone: true,
+  role: true,
+  isActive: true,
+  mustResetPassword: true,
+  passwordSetupExpiresAt: true,
+  invitedBy: true,
+  failedLoginAttempts: true,
+  lockedUntil: true,
+  twoFactorMethod: true,
+  lastLogin: true,
+  createdAt: true,
+} as const;
+
 export class AdminService {
   /**
    * Create a new admin user
    */
-  static async createAdmin(input: CreateAdminInput): Promise<{ id: number; username: string; phone: string }> {
+  static async createAdmin(input: CreateAdminInput): Promise<{ id: number; username: string; phone: string; role: string }> {
     try {
       // Check if username or phone already exists
       const existingAdmin = await prisma.admin.findFirst({
@@ -51,11 +118,13 @@ export class AdminService {
           username: input.username,
           phone: input.phone,
           passwordHash,
+          role: input.role ?? 'read_only',
         },
         select: {
           id: true,
           username: true,
           phone: true,
+          role: true,
           isActive: true,
           createdAt: true,
         },
@@ -63,6 +132,13 @@ export class AdminService {
 
       logger.info('Admin user created', { username: admin.username, phone: admin.phone });
 
+      await AuditService.record({
+        action: 'admin.create',
+        entityType: 'admin',
+        entityId: admin.id,
+        after: AuditService.snapshot(admin, ['username', 'phone', 'role', 'isActive']),
+      });
+
       return admin;
     } catch (error) {
       logger.error('Error creating admin user', { error, username: input.username });
@@ -70,10 +146,53 @@ export class AdminService {
     }
   }
 
+  /**
+   * Record the login, open a server-side session and sign the admin JWT
+   * The session ID is the token's jti, so revoking the session invalidates the token
+   */
+  private static async issueLoginToken(admin: AdminPayload): Promise<{ token: string; admin: AdminPayload }> {
+    // Update last login and clear any failed-attempt series
+    await prisma.admin.update({
+      where: { id: admin.id },
+      data: {
+        lastLogin: new Date(),
+        failedLoginAttempts: 0,
+        lastFailedLoginAt: null,
+        lockedUntil: null,
+      },
+    });
+
+    // Generate JWT token
+    const payload: AdminPayload = {
+      id: admin.id,
+      username: admin.username,
+      phone: admin.phone,
+      role: admin.role,
+    };
+
+    const sessionId = crypto.randomUUID();
+
+    // Sign with the active signing key (adds a `kid` header)
+    const token = await KeyManagementService.signToken(payload, {
+      expiresIn: config.jwtExpiresIn,
+      jwtid: sessionId,
+    } as SignOptions);
+
+    const decoded = jwt.decode(token) as JwtPayload;
+    await AdminSessionService.createSession(admin.id, sessionId, new Date((decoded.exp as number) * 1000));
+
+    return {
+      token,
+      admin: payload,
+    };
+  }
+
   /**
    * Authenticate admin user and generate JWT token
+   * When two-factor authentication applies, returns a login challenge instead of a token
+   * (complete it with completeTwoFactorLogin)
    */
-  static async login(input: LoginInput): Promise<{ token: string; admin: AdminPayload }> {
+  static async login(input: LoginInput): Promise<LoginResult> {
     try {
       // Find admin by username
       const admin = await prisma.admin.findUnique({
@@ -89,42 +208,38 @@ export class AdminService {
         throw new Error('Admin account is inactive');
       }
 
+      // Per-username lockout and progressive delay, checked before the password
+      AdminLockoutService.assertLoginAllowed(admin);
+
       // Verify password
       const isPasswordValid = await bcrypt.compare(input.password, admin.passwordHash);
 
       if (!isPasswordValid) {
+        await AdminLockoutService.recordFailure(admin);
         throw new Error('Invalid username or password');
       }
 
-      // Update last login
-      await prisma.admin.update({
-        where: { id: admin.id },
-        data: { lastLogin: new Date() },
-      });
+      if (admin.mustResetPassword) {
+        throw new Error('Password reset required. Use the link sent to you to set a new password');
+      }
 
-      // Generate JWT token
-      const payload: AdminPayload = {
-        id: admin.id,
-        username: admin.username,
-        phone: admin.phone,
-      };
+      const twoFactorMethod = await AdminTwoFactorService.getLoginMethod(admin);
+      if (twoFactorMethod) {
+        const challenge = await AdminTwoFactorService.createLoginChallenge(admin, twoFactorMethod);
+
+        logger.info('Admin password accepted, two-factor verification required', {
+          username: admin.username,
+          method: twoFactorMethod,
+        });
 
-      // Ensure JWT secret is set
-      const jwtSecret = config.jwtSecret;
-      if (!jwtSecret || jwtSecret.trim() === '') {
-        throw new Error('JWT_SECRET is not configured');
+        return { twoFactorRequired: true, ...challenge };
       }
 
-      const token = jwt.sign(payload, jwtSecret, {
-        expiresIn: config.jwtExpiresIn,
-      } as SignOptions);
+      const result = await this.issueLoginToken(admin);
 
       logger.info('Admin login successful', { username: admin.username });
 
-      return {
-        token,
-        admin: payload,
-      };
+      return { twoFactorRequired: false, ...result };
     } catch (error) {
       logger.error('Admin login failed', { error, username: input.username });
       throw error;
@@ -132,17 +247,47 @@ export class AdminService {
   }
 
   /**
-   * Verify JWT token and return admin payload
+   * Second login step: answer the challenge returned by login with a TOTP code, WhatsApp OTP or recovery code
+   */
+  static async completeTwoFactorLogin(
+    challengeToken: string,
+    code: string
+  ): Promise<{ token: string; admin: AdminPayload; usedRecoveryCode: boolean }> {
+    const { adminId, usedRecoveryCode } = await AdminTwoFactorService.verifyLoginChallenge(challengeToken, code);
+
+    const admin = await prisma.admin.findUnique({
+      where: { id: adminId },
+      select: { id: true, username: true, phone: true, role: true, isActive: true },
+    });
+
+    if (!admin || !admin.isActive) {
+      throw new Error('Admin account is inactive');
+    }
+
+    const result = await this.issueLoginToken(admin);
+
+    logger.info('Admin login successful', { username: admin.username, twoFactor: true, usedRecoveryCode });
+
+    return { ...result, usedRecoveryCode };
+  }
+
+  /**
+   * Verify JWT token and its session and return the admin payload
    */
-  static async verifyToken(token: string): Promise<AdminPayload> {
+  static async verifyToken(token: string): Promise<AuthenticatedAdmin> {
     try {
-      // Ensure JWT secret is set
-      const jwtSecret = config.jwtSecret;
-      if (!jwtSecret || jwtSecret.trim() === '') {
-        throw new Error('JWT_SECRET is not configured');
+      // Accepts tokens signed by any non-retired signing key
+      const decoded = await KeyManagementService.verifyToken<AdminPayload & JwtPayload>(token);
+
+      // Activation and transfer tokens share the signing keys but carry no admin ID
+      if (typeof decoded.id !== 'number') {
+        throw new Error('Invalid token');
       }
 
-      const decoded = jwt.verify(token, jwtSecret) as AdminPayload;
+      // Tokens issued before server-side sessions carry no jti and are no longer accepted
+      if (!decoded.jti) {
+        throw new Error('Invalid token');
+      }
 
       // Verify admin still exists and is active
       const admin = await prisma.admin.findUnique({
@@ -151,7 +296,9 @@ export class AdminService {
           id: true,
           username: true,
           phone: true,
+          role: true,
           isActive: true,
+          mustResetPassword: true,
         },
       });
 
@@ -163,10 +310,21 @@ export class AdminService {
         throw new Error('Admin account is inactive');
       }
 
+      // A forced password reset also ends every session opened with the old password
+      if (admin.mustResetPassword) {
+        throw new Error('Password reset required');
+      }
+
+      // Rejects logged-out, revoked and idle sessions
+      await AdminSessionService.validateSession(decoded.jti, admin.id);
+
+      // Role is read from the database so a role change applies to tokens already issued
       return {
         id: admin.id,
         username: admin.username,
         phone: admin.phone,
+        role: admin.role,
+        sessionId: decoded.jti,
       };
     } catch (error) {
       logger.error('Token verification failed', { error });
@@ -177,18 +335,11 @@ export class AdminService {
   /**
    * Get admin by ID
    */
-  static async getAdminById(id: number): Promise<{ id: number; username: string; phone: string; isActive: boolean; lastLogin: Date | null } | null> {
+  static async getAdminById(id: number): Promise<AdminSummary | null> {
     try {
       const admin = await prisma.admin.findUnique({
         where: { id },
-        select: {
-          id: true,
-          username: true,
-          phone: true,
-          isActive: true,
-          lastLogin: true,
-          createdAt: true,
-        },
+        select: ADMIN_SUMMARY_SELECT,
       });
 
       return admin;
@@ -221,6 +372,7 @@ export class AdminService {
 
   /**
    * Update admin password
+   * Every session of the admin is revoked, including the one making the change
    */
   static async updatePassword(adminId: number, currentPassword: string, newPassword: string): Promise<void> {
     try {
@@ -239,7 +391,15 @@ export class AdminService {
         data: { passwordHash },
       });
 
-      logger.info('Admin password updated', { adminId });
+      const revokedSessions = await AdminSessionService.revokeAllSessions(adminId, 'password_changed');
+
+      logger.info('Admin password updated', { adminId, revokedSessions });
+
+      await AuditService.record({
+        action: 'admin.update_password',
+        entityType: 'admin',
+        entityId: adminId,
+      });
     } catch (error) {
       logger.error('Error updating admin password', { error, adminId });
       throw error;
@@ -282,6 +442,11 @@ export class AdminService {
         }
       }
 
+      const previous = await prisma.admin.findUnique({
+        where: { id: adminId },
+        select: { username: true, phone: true },
+      });
+
       // Update admin
       const admin = await prisma.admin.update({
         where: { id: adminId },
@@ -297,11 +462,337 @@ export class AdminService {
       });
 
       logger.info('Admin profile updated', { adminId, updates });
+
+      await AuditService.record({
+        action: 'admin.update_profile',
+        entityType: 'admin',
+        entityId: adminId,
+        before: previous,
+        after: { username: admin.username, phone: admin.phone },
+      });
       return admin;
     } catch (error) {
       logger.error('Error updating admin profile', { error, adminId, updates });
       throw error;
     }
   }
-}
 
+  /**
+   * List all admin users with their roles
+   */
+  static async listAdmins(): Promise<AdminSummary[]> {
+    return prisma.admin.findMany({
+      select: ADMIN_SUMMARY_SELECT,
+      orderBy: { id: 'asc' },
+    });
+  }
+
+  /**
+   * Assign a role to an admin user
+   * The last active owner cannot be demoted, so the system always keeps someone able to manage admins
+   * @throws Error if the admin does not exist, the role is unknown or the admin is the last active owner
+   */
+  static async updateRole(adminId: number, role: string): Promise<AdminSummary> {
+    if (!isAdminRole(role)) {
+      throw new Error(`Invalid role: ${role}`);
+    }
+
+    const existing = await prisma.admin.findUnique({
+      where: { id: adminId },
+      select: { id: true, role: true, isActive: true },
+    });
+
+    if (!existing) {
+      throw new Error(`Admin with ID ${adminId} not found`);
+    }
+
+    if (existing.role === role) {
+      return (await this.getAdminById(adminId)) as AdminSummary;
+    }
+
+    const admin = await prisma.$transaction(async (tx) => {
+      await this.assertNotLastActiveOwner(tx, adminId, 'Cannot change the role of the last active owner');
+
+      const updated = await tx.admin.update({
+        where: { id: adminId },
+        data: { role },
+        select: ADMIN_SUMMARY_SELECT,
+      });
+
+      await AuditService.record({
+        action: 'admin.update_role',
+        entityType: 'admin',
+        entityId: adminId,
+        before: { role: existing.role },
+        after: { role: updated.role },
+      }, tx);
+
+      return updated;
+    });
+
+    logger.info('Admin role updated', { adminId, previousRole: existing.role, role });
+
+    return admin;
+  }
+
+  /**
+   * Throw if the admin is the only active owner left
+   * Keeps at least one account able to manage admins and roles. Reads the owners under a row lock held until the
+   * transaction ends, so two owners demoted or deactivated at the same time cannot both pass the check.
+   */
+  private static async assertNotLastActiveOwner(
+    tx: Prisma.TransactionClient,
+    adminId: number,
+    message: string
+  ): Promise<void> {
+    const activeOwners = await tx.$queryRaw<Array<{ id: number }>>`
+      SELECT id FROM "Admin" WHERE role = 'owner' AND "isActive" = true FOR UPDATE
+    `;
+
+    if (activeOwners.length <= 1 && activeOwners.some((owner) => owner.id === adminId)) {
+      throw new Error(message);
+    }
+  }
+
+  private static hashPasswordSetupToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Issue a one-time password setup link and send it to the admin's phone via WhatsApp
+   * Replaces any link issued before, so only the newest one works
+   */
+  private static async issuePasswordSetupLink(
+    adminId: number,
+    purpose: 'invitation' | 'password_reset'
+  ): Promise<PasswordSetupLink> {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + config.adminPasswordSetupHours * 60 * 60 * 1000);
+
+    const admin = await prisma.admin.update({
+      where: { id: adminId },
+      data: {
+        mustResetPassword: true,
+        passwordSetupTokenHash: this.hashPasswordSetupToken(token),
+        passwordSetupExpiresAt: expiresAt,
+      },
+      select: ADMIN_SUMMARY_SELECT,
+    });
+
+    const setupUrl = `${config.adminPanelUrl.replace(/\/+$/, '')}/admin/set-password?token=${token}`;
+
+    const whatsappSent = await WhatsAppService.sendAdminAccessLink({
+      phone: admin.phone,
+      username: admin.username,
+      link: setupUrl,
+      expiresAt,
+      purpose,
+    });
+
+    return { admin, setupUrl, expiresAt, whatsappSent };
+  }
+
+  /**
+   * Invite a new admin
+   * The account is created right away but cannot log in until the invitee sets a password through the link
+   * @param input Username, phone and role of the invitee
+   * @param invitedBy ID of the inviting admin
+   * @throws Error if the username or phone is already taken
+   */
+  static async inviteAdmin(input: InviteAdminInput, invitedBy: number): Promise<PasswordSetupLink> {
+    const existingAdmin = await prisma.admin.findFirst({
+      where: {
+        OR: [
+          { username: input.username },
+          { phone: input.phone },
+        ],
+      },
+    });
+
+    if (existingAdmin) {
+      throw new Error('Username or phone already exists');
+    }
+
+    // Placeholder password nobody knows - replaced when the invitation is accepted
+    const saltRounds = 10;
+    const passwordHash = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), saltRounds);
+
+    const created = await prisma.admin.create({
+      data: {
+        username: input.username,
+        phone: input.phone,
+        role: input.role,
+        passwordHash,
+        mustResetPassword: true,
+        invitedBy,
+      },
+    });
+
+    const invitation = await this.issuePasswordSetupLink(created.id, 'invitation');
+
+    logger.info('Admin invited', {
+      adminId: created.id,
+      username: created.username,
+      role: created.role,
+      invitedBy,
+      expiresAt: invitation.expiresAt,
+    });
+
+    await AuditService.record({
+      action: 'admin.invite',
+      entityType: 'admin',
+      entityId: created.id,
+      after: AuditService.snapshot(created, ['username', 'phone', 'role', 'isActive']),
+      metadata: { expiresAt: invitation.expiresAt, whatsappSent: invitation.whatsappSent },
+    });
+
+    return invitation;
+  }
+
+  /**
+   * Force an admin to choose a new password
+   * The current password and every token issued with it stop working; a new setup link is issued
+   * (also used to resend an expired invitation)
+   * @throws Error if the admin does not exist or is inactive
+   */
+  static async forcePasswordReset(adminId: number): Promise<PasswordSetupLink> {
+    const existing = await prisma.admin.findUnique({
+      where: { id: adminId },
+      select: { id: true, isActive: true, lastLogin: true, mustResetPassword: true },
+    });
+
+    if (!existing) {
+      throw new Error(`Admin with ID ${adminId} not found`);
+    }
+
+    if (!existing.isActive) {
+      throw new Error('Admin account is inactive');
+    }
+
+    // An invitation that was never accepted is resent as an invitation
+    const purpose = existing.mustResetPassword && !existing.lastLogin ? 'invitation' : 'password_reset';
+    const link = await this.issuePasswordSetupLink(adminId, purpose);
+    await AdminSessionService.revokeAllSessions(adminId, 'password_reset');
+
+    logger.info('Admin password reset forced', { adminId, purpose, expiresAt: link.expiresAt });
+
+    await AuditService.record({
+      action: 'admin.force_password_reset',
+      entityType: 'admin',
+      entityId: adminId,
+      metadata: { purpose, expiresAt: link.expiresAt, whatsappSent: link.whatsappSent },
+    });
+
+    return link;
+  }
+
+  /**
+   * Set a password through an invitation or password reset link
+   * @param token Token from the setup link
+   * @param newPassword New password
+   * @throws Error if the token is unknown, already used or expired
+   */
+  static async completePasswordSetup(token: string, newPassword: string): Promise<AdminPayload> {
+    const admin = await prisma.admin.findUnique({
+      where: { passwordSetupTokenHash: this.hashPasswordSetupToken(token) },
+    });
+
+    if (!admin || !admin.isActive) {
+      throw new Error('Invalid or expired password setup link');
+    }
+
+    if (!admin.passwordSetupExpiresAt || admin.passwordSetupExpiresAt <= new Date()) {
+      throw new Error('Invalid or expired password setup link');
+    }
+
+    const saltRounds = 10;
+    const passwordHash = await bcrypt.hash(newPassword, saltRounds);
+
+    await prisma.admin.update({
+      where: { id: admin.id },
+      data: {
+        passwordHash,
+        mustResetPassword: false,
+        passwordSetupTokenHash: null,
+        passwordSetupExpiresAt: null,
+      },
+    });
+
+    logger.info('Admin password set through setup link', { adminId: admin.id, username: admin.username });
+
+    await AuditService.record({
+      action: 'admin.complete_password_setup',
+      entityType: 'admin',
+      entityId: admin.id,
+      before: { mustResetPassword: true },
+      after: { mustResetPassword: false },
+      actor: { type: 'admin', id: admin.id },
+    });
+
+    return {
+      id: admin.id,
+      username: admin.username,
+      phone: admin.phone,
+      role: admin.role,
+    };
+  }
+
+  /**
+   * Deactivate or reactivate an admin account
+   * A deactivated admin cannot log in and its tokens are rejected
+   * @param adminId Admin to update
+   * @param isActive New state
+   * @param actingAdminId Admin performing the change
+   * @throws Error if the admin does not exist, is the acting admin, or is the last active owner
+   */
+  static async setActive(adminId: number, isActive: boolean, actingAdminId: number): Promise<AdminSummary> {
+    const existing = await prisma.admin.findUnique({
+      where: { id: adminId },
+      select: { id: true, role: true, isActive: true },
+    });
+
+    if (!existing) {
+      throw new Error(`Admin with ID ${adminId} not found`);
+    }
+
+    if (!isActive) {
+      if (adminId === actingAdminId) {
+        throw new Error('You cannot deactivate your own account');
+      }
+    }
+
+    const admin = await prisma.$transaction(async (tx) => {
+      if (!isActive) {
+        await this.assertNotLastActiveOwner(tx, adminId, 'Cannot deactivate the last active owner');
+      }
+
+      const updated = await tx.admin.update({
+        where: { id: adminId },
+        data: { isActive },
+        select: ADMIN_SUMMARY_SELECT,
+      });
+
+      if (existing.isActive !== isActive) {
+        await AuditService.record({
+          action: isActive ? 'admin.reactivate' : 'admin.deactivate',
+          entityType: 'admin',
+          entityId: adminId,
+          before: { isActive: existing.isActive },
+          after: { isActive: updated.isActive },
+        }, tx);
+      }
+
+      return updated;
+    });
+
+    if (!isActive) {
+      await AdminSessionService.revokeAllSessions(adminId, 'deactivated');
+    }
+
+    if (existing.isActive !== isActive) {
+      logger.info(isActive ? 'Admin reactivated' : 'Admin deactivated', { adminId, actingAdminId });
+    }
+
+    return admin;
+  }
+}
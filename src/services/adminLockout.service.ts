@@ -0,0 +1,192 @@
+import prisma from '../config/database';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { getRequestContext } from '../utils/requestContext.util';
+import { AuditService } from './audit.service';
+import { OutboxService } from './outbox.service';
+
+export interface LoginAttemptState {
+  id: number;
+  username: string;
+  phone: string;
+  failedLoginAttempts: number;
+  lastFailedLoginAt: Date | null;
+  lockedUntil: Date | null;
+}
+
+/**
+ * Admin Lockout Service
+ *
+ * Per-username brute-force protection for admin login, complementing the per-IP rate limiter:
+ * - After a few failures, each further attempt must wait an exponentially growing delay
+ * - At ADMIN_LOGIN_MAX_ATTEMPTS failures the account is locked for ADMIN_LOCKOUT_MINUTES and the admin is alerted via WhatsApp
+ * - Failures keep counting after a lock expires, so every further wrong password locks the account again
+ * - Wrong two-factor codes count the same as wrong passwords
+ *
+ * The counter resets on a successful login, when an owner unlocks the account,
+ * or once no failure has happened for 24 hours.
+ */
+export class AdminLockoutService {
+  private static readonly FREE_ATTEMPTS = 2; // Failures allowed before delays start
+  private static readonly MAX_DELAY_SECONDS = 300;
+  private static readonly FAILURE_WINDOW_HOURS = 24;
+
+  /**
+   * Failures that still count (older series are forgotten)
+   */
+  private static activeFailures(admin: LoginAttemptState, now: Date): number {
+    if (!admin.lastFailedLoginAt) {
+      return 0;
+    }
+
+    const windowMs = this.FAILURE_WINDOW_HOURS * 60 * 60 * 1000;
+    return now.getTime() - admin.lastFailedLoginAt.getTime() > windowMs ? 0 : admin.failedLoginAttempts;
+  }
+
+  /**
+   * Delay required after the given number of failures: 2s, 4s, 8s, ... up to 5 minutes
+   */
+  private static delaySeconds(failures: number): number {
+    if (failures <= this.FREE_ATTEMPTS) {
+      return 0;
+    }
+    return Math.min(2 ** (failures - this.FREE_ATTEMPTS), this.MAX_DELAY_SECONDS);
+  }
+
+  /**
+   * Reject a login attempt while the account is locked or its progressive delay has not passed
+   * Call before checking the password, so blocked attempts cannot be used to guess it
+   * @throws Error with a "Try again in ..." message
+   */
+  static assertLoginAllowed(admin: LoginAttemptState): void {
+    const now = new Date();
+
+    if (admin.lockedUntil && admin.lockedUntil > now) {
+      const minutes = Math.ceil((admin.lockedUntil.getTime() - now.getTime()) / 60000);
+      throw new Error(
+        `Account temporarily locked after too many failed login attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}`
+      );
+    }
+
+    const failures = this.activeFailures(admin, now);
+    const delay = this.delaySeconds(failures);
+    if (delay > 0 && admin.lastFailedLoginAt) {
+      const retryAt = admin.lastFailedLoginAt.getTime() + delay * 1000;
+      if (retryAt > now.getTime()) {
+        const seconds = Math.ceil((retryAt - now.getTime()) / 1000);
+        throw new Error(`Too many failed login attempts. Try again in ${seconds} second${seconds === 1 ? '' : 's'}`);
+      }
+    }
+  }
+
+  /**
+   * Count a wrong password or two-factor code, locking the account once the limit is reached
+   * The counter is incremented in the database and the lock decided from the row it returns, so failures checked
+   * in parallel all count and exactly one of them reaches the limit
+   */
+  static async recordFailure(admin: Pick<LoginAttemptState, 'id' | 'username' | 'phone'>): Promise<void> {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - this.FAILURE_WINDOW_HOURS * 60 * 60 * 1000);
+    const lockUntil = new Date(now.getTime() + config.adminLockoutMinutes * 60 * 1000);
+
+    const ipAddress = getRequestContext()?.ipAddress;
+
+    const { failures, lockedUntil } = await prisma.$transaction(async (tx) => {
+      // The row stays locked until the transaction ends
+      const rows = await tx.$queryRaw<Array<{ failedLoginAttempts: number; lockedUntil: Date | null }>>`
+        UPDATE "Admin"
+        SET "failedLoginAttempts" = CASE
+              WHEN "lastFailedLoginAt" > ${windowStart} THEN "failedLoginAttempts" + 1
+              ELSE 1
+            END,
+            "lastFailedLoginAt" = ${now}
+        WHERE "id" = ${admin.id}
+        RETURNING "failedLoginAttempts", "lockedUntil"
+      `;
+      if (rows.length === 0) {
+        throw new Error(`Admin with ID ${admin.id} not found`);
+      }
+
+      const failures = rows[0].failedLoginAttempts;
+      if (failures < config.adminLoginMaxAttempts) {
+        return { failures, lockedUntil: null };
+      }
+
+      // A lock set by a parallel failure is kept rather than extended
+      const current = rows[0].lockedUntil;
+      const lockedUntil = current && current > now ? current : lockUntil;
+      if (lockedUntil !== current) {
+        await tx.admin.update({
+          where: { id: admin.id },
+          data: { lockedUntil },
+        });
+      }
+
+      // Alert only when the series first reaches the limit; later relocks of the same series stay quiet
+      if (failures === config.adminLoginMaxAttempts) {
+        await OutboxService.enqueueWhatsApp('admin_lockout_alert', {
+          phone: admin.phone,
+          username: admin.username,
+          failedAttempts: failures,
+          lockedUntil,
+          ipAddress,
+        }, { tx });
+      }
+
+      await AuditService.record({
+        action: 'admin.lockout',
+        entityType: 'admin',
+        entityId: admin.id,
+        after: { lockedUntil },
+        metadata: { failedAttempts: failures, ipAddress },
+      }, tx);
+
+      return { failures, lockedUntil };
+    });
+
+    if (!lockedUntil) {
+      logger.warn('Admin login failed: wrong password or code', { adminId: admin.id, username: admin.username, failures });
+      return;
+    }
+
+    OutboxService.kick();
+
+    logger.warn('Admin account locked after failed login attempts', {
+      adminId: admin.id,
+      username: admin.username,
+      failures,
+      lockedUntil,
+      ipAddress,
+    });
+  }
+
+  /**
+   * Clear the lock and failed-attempt counter of an admin account
+   * @throws Error if the admin does not exist
+   */
+  static async unlock(adminId: number): Promise<void> {
+    const existing = await prisma.admin.findUnique({
+      where: { id: adminId },
+      select: { id: true, failedLoginAttempts: true, lockedUntil: true },
+    });
+
+    if (!existing) {
+      throw new Error(`Admin with ID ${adminId} not found`);
+    }
+
+    await prisma.admin.update({
+      where: { id: adminId },
+      data: { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null },
+    });
+
+    logger.info('Admin account unlocked', { adminId });
+
+    await AuditService.record({
+      action: 'admin.unlock',
+      entityType: 'admin',
+      entityId: adminId,
+      before: { failedLoginAttempts: existing.failedLoginAttempts, lockedUntil: existing.lockedUntil },
+      after: { failedLoginAttempts: 0, lockedUntil: null },
+    });
+  }
+}
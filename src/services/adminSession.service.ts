@@ -0,0 +1,252 @@
+import prisma from '../config/database';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { getRequestContext } from '../utils/requestContext.util';
+import { AuditService } from './audit.service';
+
+export type SessionRevokedReason =
+  | 'logout'
+  | 'revoked'
+  | 'revoked_by_other_session'
+  | 'password_changed'
+  | 'password_reset'
+  | 'deactivated'
+  | 'idle_timeout';
+
+export interface AdminSessionInfo {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  deviceName: string | null;
+  lastActiveAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  current: boolean; // Session the request was made with
+}
+
+/**
+ * Admin Session Service
+ *
+ * Server-side record of every admin login. The admin JWT carries the session ID as its jti and
+ * verifyToken rejects tokens whose session was revoked, idled out or never existed, so logout,
+ * password changes and deactivation take effect immediately instead of at token expiry.
+ */
+export class AdminSessionService {
+  // lastActiveAt is refreshed at most this often, so authenticated requests do not each cost a write
+  private static readonly TOUCH_INTERVAL_MS = 60 * 1000;
+  private static readonly RETENTION_DAYS = 30;
+
+  /**
+   * Short device label from a user agent, e.g. "Chrome on Windows"
+   */
+  private static describeDevice(userAgent?: string): string | null {
+    if (!userAgent) {
+      return null;
+    }
+
+    const browsers: Array<[RegExp, string]> = [
+      [/Edg\//, 'Edge'],
+      [/OPR\//, 'Opera'],
+      [/Firefox\//, 'Firefox'],
+      [/Chrome\//, 'Chrome'],
+      [/Safari\//, 'Safari'],
+      [/PostmanRuntime\//, 'Postman'],
+      [/curl\//, 'curl'],
+    ];
+    const systems: Array<[RegExp, string]> = [
+      [/Windows/, 'Windows'],
+      [/Android/, 'Android'],
+      [/iPhone|iPad/, 'iOS'],
+      [/Mac OS X|Macintosh/, 'macOS'],
+      [/Linux/, 'Linux'],
+    ];
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && system) {
+      return `${browser} on ${system}`;
+    }
+    return browser ?? system ?? 'Unknown device';
+  }
+
+  private static idleCutoff(now: Date = new Date()): Date {
+    return new Date(now.getTime() - config.adminSessionIdleMinutes * 60 * 1000);
+  }
+
+  /**
+   * Record a new session for a login
+   * IP address and user agent are taken from the current request
+   * @param sessionId JWT ID (jti) of the token issued for the login
+   * @param expiresAt Token expiry
+   */
+  static async createSession(adminId: number, sessionId: string, expiresAt: Date): Promise<void> {
+    const context = getRequestContext();
+
+    await prisma.adminSession.create({
+      data: {
+        id: sessionId,
+        adminId,
+        ipAddress: context?.ipAddress ?? null,
+        userAgent: context?.userAgent?.slice(0, 500) ?? null,
+        deviceName: this.describeDevice(context?.userAgent),
+        expiresAt,
+      },
+    });
+  }
+
+  /**
+   * Check that a token's session is still usable and mark it active
+   * Sessions idle for longer than ADMIN_SESSION_IDLE_MINUTES are revoked here
+   */
+  static async validateSession(sessionId: string, adminId: number): Promise<void> {
+    const session = await prisma.adminSession.findUnique({
+      where: { id: sessionId },
+      select: { adminId: true, lastActiveAt: true, expiresAt: true, revokedAt: true },
+    });
+
+    if (!session || session.adminId !== adminId) {
+      throw new Error('Session not found');
+    }
+
+    if (session.revokedAt) {
+      throw new Error('Session has been revoked');
+    }
+
+    const now = new Date();
+
+    if (session.expiresAt <= now) {
+      throw new Error('Session has expired');
+    }
+
+    if (session.lastActiveAt < this.idleCutoff(now)) {
+      await prisma.adminSession.updateMany({
+        where: { id: sessionId, revokedAt: null },
+        data: { revokedAt: now, revokedReason: 'idle_timeout' },
+      });
+      logger.info('Admin session ended after inactivity', { adminId, sessionId });
+      throw new Error('Session has expired due to inactivity');
+    }
+
+    if (now.getTime() - session.lastActiveAt.getTime() >= this.TOUCH_INTERVAL_MS) {
+      await prisma.adminSession.update({
+        where: { id: sessionId },
+        data: { lastActiveAt: now },
+      });
+    }
+  }
+
+  /**
+   * List an admin's active sessions, most recently active first
+   * @param currentSessionId Session of the request, flagged as current
+   */
+  static async listSessions(adminId: number, currentSessionId?: string): Promise<AdminSessionInfo[]> {
+    const now = new Date();
+
+    const sessions = await prisma.adminSession.findMany({
+      where: {
+        adminId,
+        revokedAt: null,
+        expiresAt: { gt: now },
+        lastActiveAt: { gte: this.idleCutoff(now) },
+      },
+      select: {
+        id: true,
+        ipAddress: true,
+        userAgent: true,
+        deviceName: true,
+        lastActiveAt: true,
+        expiresAt: true,
+        createdAt: true,
+      },
+      orderBy: { lastActiveAt: 'desc' },
+    });
+
+    return sessions.map((session) => ({ ...session, current: session.id === currentSessionId }));
+  }
+
+  /**
+   * Revoke one of an admin's sessions
+   */
+  static async revokeSession(adminId: number, sessionId: string, reason: SessionRevokedReason = 'revoked'): Promise<void> {
+    const result = await prisma.adminSession.updateMany({
+      where: { id: sessionId, adminId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    if (result.count === 0) {
+      throw new Error('Session not found');
+    }
+
+    logger.info('Admin session revoked', { adminId, sessionId, reason });
+
+    if (reason === 'revoked') {
+      await AuditService.record({
+        action: 'admin.revoke_session',
+        entityType: 'admin',
+        entityId: adminId,
+        metadata: { sessionId },
+      });
+    }
+  }
+
+  /**
+   * Revoke every session of an admin except the current one
+   * @returns Number of sessions revoked
+   */
+  static async revokeOtherSessions(adminId: number, currentSessionId: string): Promise<number> {
+    const result = await prisma.adminSession.updateMany({
+      where: { adminId, revokedAt: null, id: { not: currentSessionId } },
+      data: { revokedAt: new Date(), revokedReason: 'revoked_by_other_session' },
+    });
+
+    logger.info('Admin revoked other sessions', { adminId, revoked: result.count });
+
+    await AuditService.record({
+      action: 'admin.revoke_other_sessions',
+      entityType: 'admin',
+      entityId: adminId,
+      metadata: { revoked: result.count },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Revoke every session of an admin (password change, forced reset, deactivation)
+   * @returns Number of sessions revoked
+   */
+  static async revokeAllSessions(adminId: number, reason: SessionRevokedReason): Promise<number> {
+    const result = await prisma.adminSession.updateMany({
+      where: { adminId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    if (result.count > 0) {
+      logger.info('Admin sessions revoked', { adminId, revoked: result.count, reason });
+    }
+
+    return result.count;
+  }
+
+  /**
+   * Delete sessions that expired or were revoked more than 30 days ago
+   * @returns Number of sessions deleted
+   */
+  static async purgeStaleSessions(): Promise<number> {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - this.RETENTION_DAYS);
+
+    const result = await prisma.adminSession.deleteMany({
+      where: {
+        OR: [{ expiresAt: { lt: cutoff } }, { revokedAt: { lt: cutoff } }],
+      },
+    });
+
+    if (result.count > 0) {
+      logger.info('Purged stale admin sessions', { purged: result.count });
+    }
+
+    return result.count;
+  }
+}
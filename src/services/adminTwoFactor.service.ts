@@ -0,0 +1,530 @@
+import crypto from 'crypto';
+import prisma from '../config/database';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { buildTotpUri, generateTotpSecret, verifyTotp } from '../utils/totp.util';
+import { KeyManagementService } from './keyManagement.service';
+import { PhoneVerificationService } from './phoneVerification.service';
+import { PreferencesService } from './preferences.service';
+import { AuditService } from './audit.service';
+import { AdminLockoutService } from './adminLockout.service';
+
+export type TwoFactorMethod = 'totp' | 'whatsapp';
+
+export interface TwoFactorStatus {
+  method: TwoFactorMethod | null; // Method the admin enrolled
+  enabledAt: Date | null;
+  required: boolean; // Preference requiring 2FA for every admin
+  loginMethod: TwoFactorMethod | null; // Method the next login will ask for (WhatsApp when required but not enrolled)
+  recoveryCodesRemaining: number;
+}
+
+export interface LoginChallenge {
+  challengeToken: string; // Returned once, stored hashed
+  method: TwoFactorMethod;
+  expiresAt: Date;
+}
+
+export interface TotpSetup {
+  secret: string; // Base32, for manual entry
+  otpauthUrl: string; // For QR codes
+}
+
+/**
+ * Admin Two-Factor Service
+ *
+ * Second login step for admins:
+ * - TOTP (RFC 6238) from an authenticator app, with the secret encrypted at rest
+ * - WhatsApp OTP to the admin's phone, sent through the phone verification OTP pipeline under its own purpose
+ * - Single-use recovery codes for either method
+ *
+ * After a correct password, login returns a short-lived challenge token instead of a JWT;
+ * the JWT is issued once the challenge is answered with a valid code. Wrong codes count toward the
+ * account lockout like wrong passwords.
+ */
+export class AdminTwoFactorService {
+  private static readonly CHALLENGE_EXPIRY_MINUTES = 10;
+  private static readonly MAX_CHALLENGE_ATTEMPTS = 5;
+  private static readonly RECOVERY_CODE_COUNT = 10;
+
+  private static hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+
+  private static normalizeRecoveryCode(code: string): string {
+    return code.trim().toLowerCase().replace(/[\s-]/g, '');
+  }
+
+  /**
+   * Replace the admin's recovery codes with a fresh set
+   * @returns Plain recovery codes (shown once)
+   */
+  private static async issueRecoveryCodes(adminId: number): Promise<string[]> {
+    const codes = Array.from({ length: this.RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    await prisma.$transaction([
+      prisma.adminRecoveryCode.deleteMany({ where: { adminId } }),
+      prisma.adminRecoveryCode.createMany({
+        data: codes.map((code) => ({ adminId, codeHash: this.hash(this.normalizeRecoveryCode(code)) })),
+      }),
+    ]);
+
+    return codes;
+  }
+
+  /**
+   * Use up a recovery code
+   * @returns true if the code was valid and unused
+   */
+  private static async consumeRecoveryCode(adminId: number, code: string): Promise<boolean> {
+    const result = await prisma.adminRecoveryCode.updateMany({
+      where: {
+        adminId,
+        codeHash: this.hash(this.normalizeRecoveryCode(code)),
+        usedAt: null,
+      },
+      data: { usedAt: new Date() },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Check a TOTP code against the admin's secret and remember its time step so it cannot be replayed
+   */
+  private static async verifyAdminTotp(
+    admin: { id: number; totpSecretEncrypted: string | null; totpLastUsedStep: number | null },
+    code: string,
+  ): Promise<boolean> {
+    if (!admin.totpSecretEncrypted) {
+      return false;
+    }
+
+    const secret = KeyManagementService.decryptSecret(admin.totpSecretEncrypted);
+    const step = verifyTotp(secret, code, admin.totpLastUsedStep);
+    if (step === null) {
+      return false;
+    }
+
+    // Conditional update so two concurrent requests cannot both accept the same code
+    const result = await prisma.admin.updateMany({
+      where: {
+        id: admin.id,
+        OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+      },
+      data: { totpLastUsedStep: step },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Second factor the admin must provide at login, or null when the password is enough
+   */
+  static async getLoginMethod(admin: { twoFactorMethod: string | null }): Promise<TwoFactorMethod | null> {
+    if (admin.twoFactorMethod === 'totp' || admin.twoFactorMethod === 'whatsapp') {
+      return admin.twoFactorMethod;
+    }
+
+    const preferences = await PreferencesService.getPreferences();
+    return preferences.general.requireAdminTwoFactor ? 'whatsapp' : null;
+  }
+
+  /**
+   * Start the second login step after a correct password
+   * Sends the WhatsApp OTP when that is the method
+   */
+  static async createLoginChallenge(
+    admin: { id: number; phone: string },
+    method: TwoFactorMethod,
+  ): Promise<LoginChallenge> {
+    const challengeToken = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + this.CHALLENGE_EXPIRY_MINUTES * 60 * 1000);
+
+    // Only the newest challenge of an admin stays usable
+    await prisma.adminLoginChallenge.deleteMany({
+      where: {
+        adminId: admin.id,
+        OR: [{ consumedAt: null }, { expiresAt: { lt: new Date() } }],
+      },
+    });
+
+    await prisma.adminLoginChallenge.create({
+      data: {
+        adminId: admin.id,
+        tokenHash: this.hash(challengeToken),
+        method,
+        expiresAt,
+      },
+    });
+
+    if (method === 'whatsapp') {
+      await PhoneVerificationService.sendOTP({ phone: admin.phone, purpose: 'admin_login' });
+    }
+
+    logger.info('Admin login challenge created', { adminId: admin.id, method, expiresAt });
+
+    return { challengeToken, method, expiresAt };
+  }
+
+  /**
+   * Send a new WhatsApp OTP for a pending login challenge
+   * @throws Error if the challenge is invalid, expired or not a WhatsApp challenge
+   */
+  static async resendLoginCode(challengeToken: string): Promise<{ expiresAt: Date }> {
+    const challenge = await prisma.adminLoginChallenge.findUnique({
+      where: { tokenHash: this.hash(challengeToken) },
+      include: { admin: { select: { phone: true } } },
+    });
+
+    if (!challenge || challenge.consumedAt || challenge.expiresAt <= new Date()) {
+      throw new Error('Invalid or expired login challenge');
+    }
+
+    if (challenge.method !== 'whatsapp') {
+      throw new Error('Codes can only be resent for WhatsApp verification');
+    }
+
+    await PhoneVerificationService.sendOTP({ phone: challenge.admin.phone, purpose: 'admin_login' });
+
+    return { expiresAt: challenge.expiresAt };
+  }
+
+  /**
+   * Answer a login challenge with a TOTP code, WhatsApp OTP or recovery code
+   * @returns ID of the admin that may now be issued a token
+   * @throws Error if the challenge is invalid, expired, out of attempts, or the code is wrong
+   */
+  static async verifyLoginChallenge(challengeToken: string, code: string): Promise<{ adminId: number; usedRecoveryCode: boolean }> {
+    const challenge = await prisma.adminLoginChallenge.findUnique({
+      where: { tokenHash: this.hash(challengeToken) },
+      include: {
+        admin: {
+          select: {
+            id: true,
+            username: true,
+            phone: true,
+            isActive: true,
+            totpSecretEncrypted: true,
+            totpLastUsedStep: true,
+            failedLoginAttempts: true,
+            lastFailedLoginAt: true,
+            lockedUntil: true,
+          },
+        },
+      },
+    });
+
+    if (!challenge || challenge.consumedAt || challenge.expiresAt <= new Date() || !challenge.admin.isActive) {
+      throw new Error('Invalid or expired login challenge');
+    }
+
+    const admin = challenge.admin;
+
+    // Same lock and progressive delay as the password step
+    AdminLockoutService.assertLoginAllowed(admin);
+
+    // Take an attempt in the same statement that checks the limit, so parallel guesses cannot exceed it
+    const claimed = await prisma.adminLoginChallenge.updateMany({
+      where: { id: challenge.id, attempts: { lt: this.MAX_CHALLENGE_ATTEMPTS } },
+      data: { attempts: { increment: 1 } },
+    });
+
+    if (claimed.count === 0) {
+      throw new Error('Too many invalid codes. Please log in again');
+    }
+    let usedRecoveryCode = false;
+    let valid = false;
+
+    if (/^\d{6}$/.test(code.trim())) {
+      valid = challenge.method === 'totp'
+        ? await this.verifyAdminTotp(admin, code)
+        : (await PhoneVerificationService.verifyOTP({ phone: admin.phone, otpCode: code, purpose: 'admin_login' })).success;
+    } else {
+      valid = await this.consumeRecoveryCode(admin.id, code);
+      usedRecoveryCode = valid;
+    }
+
+    if (!valid) {
+      logger.warn('Invalid admin two-factor code', {
+        adminId: admin.id,
+        method: challenge.method,
+      });
+      await AdminLockoutService.recordFailure(admin);
+      throw new Error('Invalid verification code');
+    }
+
+    // Single use: a concurrent request with the same token loses here
+    const consumed = await prisma.adminLoginChallenge.updateMany({
+      where: { id: challenge.id, consumedAt: null },
+      data: { consumedAt: new Date() },
+    });
+
+    if (consumed.count === 0) {
+      throw new Error('Invalid or expired login challenge');
+    }
+
+    if (usedRecoveryCode) {
+      await AuditService.record({
+        action: 'admin.use_recovery_code',
+        entityType: 'admin',
+        entityId: admin.id,
+        actor: { type: 'admin', id: admin.id },
+      });
+    }
+
+    return { adminId: admin.id, usedRecoveryCode };
+  }
+
+  /**
+   * Get the admin's two-factor status
+   */
+  static async getStatus(adminId: number): Promise<TwoFactorStatus> {
+    const admin = await prisma.admin.findUnique({
+      where: { id: adminId },
+      select: { twoFactorMethod: true, twoFactorEnabledAt: true },
+    });
+
+    if (!admin) {
+      throw new Error('Admin not found');
+    }
+
+    const [preferences, recoveryCodesRemaining, loginMethod] = await Promise.all([
+      PreferencesService.getPreferences(),
+      prisma.adminRecoveryCode.count({ where: { adminId, usedAt: null } }),
+      this.getLoginMethod(admin),
+    ]);
+
+    return {
+      method: admin.twoFactorMethod as TwoFactorMethod | null,
+      enabledAt: admin.twoFactorEnabledAt,
+      required: preferences.general.requireAdminTwoFactor,
+      loginMethod,
+      recoveryCodesRemaining,
+    };
+  }
+
+  /**
+   * Begin TOTP enrollment: generate a secret the admin adds to an authenticator app
+   * TOTP only becomes active once a code from the app is confirmed
+   */
+  static async startTotpSetup(adminId: number): Promise<TotpSetup> {
+    const admin = await prisma.admin.findUnique({
+      where: { id: adminId },
+      select: { username: true },
+    });
+
+    if (!admin) {
+      throw new Error('Admin not found');
+    }
+
+    const secret = generateTotpSecret();
+
+    await prisma.admin.update({
+      where: { id: adminId },
+      data: { totpPendingSecretEncrypted: KeyManagementService.encryptSecret(secret) },
+    });
+
+    return {
+      secret,
+      otpauthUrl: buildTotpUri(secret, admin.username, config.appName),
+    };
+  }
+
+  /**
+   * Finish TOTP enrollment with a code from the authenticator app
+   * @returns Recovery codes (shown once)
+   * @throws Error if no enrollment is pending or the code is wrong
+   */
+  static async confirmTotpSetup(adminId: number, code: string): Promise<{ recoveryCodes: string[] }> {
+    const admin = await prisma.admin.findUnique({
+      where: { id: adminId },
+      select: { twoFactorMethod: true, totpPendingSecretEncrypted: true },
+    });
+
+    if (!admin) {
+      throw new Error('Admin not found');
+    }
+
+    if (!admin.totpPendingSecretEncrypted) {
+      throw new Error('No authenticator setup in progress. Start the setup first');
+    }
+
+    const step = verifyTotp(KeyManagementService.decryptSecret(admin.totpPendingSecretEncrypted), code);
+    if (step === null) {
+      throw new Error('Invalid verification code');
+    }
+
+    await prisma.admin.update({
+      where: { id: adminId },
+      data: {
+        twoFactorMethod: 'totp',
+        twoFactorEnabledAt: new Date(),
+        totpSecretEncrypted: admin.totpPendingSecretEncrypted,
+        totpPendingSecretEncrypted: null,
+        totpLastUsedStep: step,
+      },
+    });
+
+    const recoveryCodes = await this.issueRecoveryCodes(adminId);
+
+    logger.info('Admin enabled TOTP two-factor authentication', { adminId });
+
+    await AuditService.record({
+      action: 'admin.enable_2fa',
+      entityType: 'admin',
+      entityId: adminId,
+      before: { twoFactorMethod: admin.twoFactorMethod },
+      after: { twoFactorMethod: 'totp' },
+    });
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Begin WhatsApp enrollment: send an OTP to the admin's phone to prove it receives messages
+   */
+  static async startWhatsAppSetup(adminId: number): Promise<{ phone: string; expiresAt?: Date }> {
+    const admin = await prisma.admin.findUnique({
+      where: { id: adminId },
+      select: { phone: true },
+    });
+
+    if (!admin) {
+      throw new Error('Admin not found');
+    }
+
+    const result = await PhoneVerificationService.sendOTP({ phone: admin.phone, purpose: 'admin_two_factor_setup' });
+    if (!result.success) {
+      throw new Error(result.message);
+    }
+
+    return { phone: admin.phone, expiresAt: result.expiresAt };
+  }
+
+  /**
+   * Finish WhatsApp enrollment with the OTP sent to the admin's phone
+   * Replaces TOTP if it was enabled
+   * @returns Recovery codes (shown once)
+   * @throws Error if the code is wrong or expired
+   */
+  static async confirmWhatsAppSetup(adminId: number, code: string): Promise<{ recoveryCodes: string[] }> {
+    const admin = await prisma.admin.findUnique({
+      where: { id: adminId },
+      select: { phone: true, twoFactorMethod: true },
+    });
+
+    if (!admin) {
+      throw new Error('Admin not found');
+    }
+
+    const verification = await PhoneVerificationService.verifyOTP({
+      phone: admin.phone,
+      otpCode: code,
+      purpose: 'admin_two_factor_setup',
+    });
+    if (!verification.success) {
+      throw new Error('Invalid verification code');
+    }
+
+    await prisma.admin.update({
+      where: { id: adminId },
+      data: {
+        twoFactorMethod: 'whatsapp',
+        twoFactorEnabledAt: new Date(),
+        totpSecretEncrypted: null,
+        totpPendingSecretEncrypted: null,
+        totpLastUsedStep: null,
+      },
+    });
+
+    const recoveryCodes = await this.issueRecoveryCodes(adminId);
+
+    logger.info('Admin enabled WhatsApp two-factor authentication', { adminId });
+
+    await AuditService.record({
+      action: 'admin.enable_2fa',
+      entityType: 'admin',
+      entityId: adminId,
+      before: { twoFactorMethod: admin.twoFactorMethod },
+      after: { twoFactorMethod: 'whatsapp' },
+    });
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Replace the admin's recovery codes
+   * @returns New recovery codes (shown once)
+   * @throws Error if two-factor authentication is not enabled
+   */
+  static async regenerateRecoveryCodes(adminId: number): Promise<{ recoveryCodes: string[] }> {
+    const admin = await prisma.admin.findUnique({
+      where: { id: adminId },
+      select: { twoFactorMethod: true },
+    });
+
+    if (!admin) {
+      throw new Error('Admin not found');
+    }
+
+    if (!admin.twoFactorMethod) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    const recoveryCodes = await this.issueRecoveryCodes(adminId);
+
+    await AuditService.record({
+      action: 'admin.regenerate_recovery_codes',
+      entityType: 'admin',
+      entityId: adminId,
+    });
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Turn off two-factor authentication and delete the admin's secret and recovery codes
+   * When the preference requires 2FA, the admin falls back to WhatsApp OTP at login
+   * @param adminId Admin to update
+   * @param action Audit action: disabled by the admin, or reset by another admin (lost device)
+   */
+  static async disable(adminId: number, action: 'admin.disable_2fa' | 'admin.reset_2fa' = 'admin.disable_2fa'): Promise<void> {
+    const admin = await prisma.admin.findUnique({
+      where: { id: adminId },
+      select: { twoFactorMethod: true },
+    });
+
+    if (!admin) {
+      throw new Error(`Admin with ID ${adminId} not found`);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.admin.update({
+        where: { id: adminId },
+        data: {
+          twoFactorMethod: null,
+          twoFactorEnabledAt: null,
+          totpSecretEncrypted: null,
+          totpPendingSecretEncrypted: null,
+          totpLastUsedStep: null,
+        },
+      });
+      await tx.adminRecoveryCode.deleteMany({ where: { adminId } });
+      await tx.adminLoginChallenge.deleteMany({ where: { adminId } });
+
+      await AuditService.record({
+        action,
+        entityType: 'admin',
+        entityId: adminId,
+        before: { twoFactorMethod: admin.twoFactorMethod },
+        after: { twoFactorMethod: null },
+      }, tx);
+    });
+
+    logger.info('Admin two-factor authentication disabled', { adminId, action });
+  }
+}
@@ -0,0 +1,236 @@
+import crypto from 'crypto';
+import prisma from '../config/database';
+import { logger } from '../utils/logger';
+import { getRequestContext } from '../utils/requestContext.util';
+import { API_KEY_SCOPES, Permission } from '../config/permissions.config';
+import { AuditService } from './audit.service';
+
+export const API_KEY_PREFIX = 'dpos_';
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: string[];
+  rateLimitPerMinute?: number | null;
+  expiresAt?: Date | null;
+}
+
+export interface ApiKeySummary {
+  id: number;
+  name: string;
+  keyPrefix: string;
+  scopes: string[];
+  rateLimitPerMinute: number | null;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  createdBy: number | null;
+  revokedAt: Date | null;
+  revokedBy: number | null;
+  createdAt: Date;
+}
+
+export interface ApiKeyPrincipal {
+  id: number;
+  name: string;
+  keyPrefix: string;
+  scopes: string[];
+  rateLimitPerMinute: number | null;
+}
+
+const API_KEY_SUMMARY_SELECT = {
+  id: true,
+  name: true,
+  keyPrefix: true,
+  scopes: true,
+  rateLimitPerMinute: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  createdBy: true,
+  revokedAt: true,
+  revokedBy: true,
+  createdAt: true,
+} as const;
+
+/**
+ * API Key Service
+ *
+ * Scoped credentials for machine-to-machine calls to the admin API.
+ * A key looks like `dpos_<8 hex>_<secret>`: the `dpos_<8 hex>` part is its public prefix (stored and listed),
+ * the full key is returned once on creation and only its SHA-256 hash is kept.
+ */
+export class ApiKeyService {
+  // lastUsedAt is refreshed at most this often, so requests do not each cost a write
+  private static readonly TOUCH_INTERVAL_MS = 60 * 1000;
+
+  private static hash(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  /**
+   * Check whether a credential looks like an API key (as opposed to a JWT)
+   */
+  static isApiKey(credential: string): boolean {
+    return credential.startsWith(API_KEY_PREFIX);
+  }
+
+  /**
+   * Check whether a value is a scope an API key can be granted
+   */
+  static isValidScope(scope: string): scope is Permission {
+    return (API_KEY_SCOPES as readonly string[]).includes(scope);
+  }
+
+  /**
+   * Create an API key
+   * @param input Name, scopes, optional per-minute rate limit and expiry
+   * @param createdBy Admin creating the key
+   * @returns The stored key and the full key (shown once)
+   * @throws Error if a scope is unknown
+   */
+  static async createKey(input: CreateApiKeyInput, createdBy: number): Promise<{ apiKey: ApiKeySummary; key: string }> {
+    const invalid = input.scopes.filter((scope) => !this.isValidScope(scope));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid scope(s): ${invalid.join(', ')}`);
+    }
+
+    const keyPrefix = `${API_KEY_PREFIX}${crypto.randomBytes(4).toString('hex')}`;
+    const key = `${keyPrefix}_${crypto.randomBytes(32).toString('base64url')}`;
+
+    const apiKey = await prisma.$transaction(async (tx) => {
+      const created = await tx.apiKey.create({
+        data: {
+          name: input.name,
+          keyPrefix,
+          keyHash: this.hash(key),
+          scopes: [...new Set(input.scopes)],
+          rateLimitPerMinute: input.rateLimitPerMinute ?? null,
+          expiresAt: input.expiresAt ?? null,
+          createdBy,
+        },
+        select: API_KEY_SUMMARY_SELECT,
+      });
+
+      await AuditService.record({
+        action: 'api_key.create',
+        entityType: 'api_key',
+        entityId: created.id,
+        after: AuditService.snapshot(created, ['name', 'keyPrefix', 'scopes', 'rateLimitPerMinute', 'expiresAt']),
+      }, tx);
+
+      return created;
+    });
+
+    logger.info('API key created', { apiKeyId: apiKey.id, keyPrefix, scopes: apiKey.scopes, createdBy });
+
+    return { apiKey, key };
+  }
+
+  /**
+   * List API keys, newest first
+   * @param includeRevoked Include revoked keys
+   */
+  static async listKeys(includeRevoked = false): Promise<ApiKeySummary[]> {
+    return prisma.apiKey.findMany({
+      where: includeRevoked ? {} : { revokedAt: null },
+      select: API_KEY_SUMMARY_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Revoke an API key; requests made with it are rejected from then on
+   * @throws Error if the key does not exist or is already revoked
+   */
+  static async revokeKey(id: number, revokedBy: number): Promise<ApiKeySummary> {
+    const existing = await prisma.apiKey.findUnique({
+      where: { id },
+      select: { id: true, revokedAt: true },
+    });
+
+    if (!existing) {
+      throw new Error(`API key with ID ${id} not found`);
+    }
+
+    if (existing.revokedAt) {
+      throw new Error('API key is already revoked');
+    }
+
+    const apiKey = await prisma.$transaction(async (tx) => {
+      const revoked = await tx.apiKey.update({
+        where: { id },
+        data: { revokedAt: new Date(), revokedBy },
+        select: API_KEY_SUMMARY_SELECT,
+      });
+
+      await AuditService.record({
+        action: 'api_key.revoke',
+        entityType: 'api_key',
+        entityId: id,
+        before: { revokedAt: null },
+        after: { revokedAt: revoked.revokedAt },
+      }, tx);
+
+      return revoked;
+    });
+
+    logger.info('API key revoked', { apiKeyId: id, keyPrefix: apiKey.keyPrefix, revokedBy });
+
+    return apiKey;
+  }
+
+  /**
+   * Resolve a presented API key and record its use
+   * @throws Error if the key is unknown, revoked or expired
+   */
+  static async authenticate(key: string): Promise<ApiKeyPrincipal> {
+    const keyPrefix = key.slice(0, key.indexOf('_', API_KEY_PREFIX.length));
+
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyPrefix },
+      select: {
+        id: true,
+        name: true,
+        keyPrefix: true,
+        keyHash: true,
+        scopes: true,
+        rateLimitPerMinute: true,
+        expiresAt: true,
+        lastUsedAt: true,
+        revokedAt: true,
+      },
+    });
+
+    if (
+      !apiKey ||
+      !crypto.timingSafeEqual(Buffer.from(apiKey.keyHash, 'hex'), Buffer.from(this.hash(key), 'hex'))
+    ) {
+      throw new Error('Invalid API key');
+    }
+
+    if (apiKey.revokedAt) {
+      throw new Error('API key has been revoked');
+    }
+
+    const now = new Date();
+
+    if (apiKey.expiresAt && apiKey.expiresAt <= now) {
+      throw new Error('API key has expired');
+    }
+
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= this.TOUCH_INTERVAL_MS) {
+      await prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: now, lastUsedIp: getRequestContext()?.ipAddress ?? null },
+      });
+    }
+
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      keyPrefix: apiKey.keyPrefix,
+      scopes: apiKey.scopes,
+      rateLimitPerMinute: apiKey.rateLimitPerMinute,
+    };
+  }
+}
@@ -0,0 +1,412 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { logger } from '../utils/logger';
+import { getRequestContext } from '../utils/requestContext.util';
+
+// Advisory lock serializing appends so every event links to its predecessor
+const AUDIT_CHAIN_LOCK_ID = 7420011;
+
+// Field names whose values never belong in the audit trail (exact names, so e.g. mustResetPassword stays readable)
+const REDACTED_FIELDS: ReadonlySet<string> = new Set([
+  'password',
+  'passwordHash',
+  'passwordSetupTokenHash',
+  'token',
+  'accessToken',
+  'refreshToken',
+  'refreshTokenHash',
+  'tokenHash',
+  'transferToken',
+  'secret',
+  'secretEncrypted',
+  'privateKeyEncrypted',
+  'totpSecret',
+  'totpSecretEncrypted',
+  'totpPendingSecretEncrypted',
+  'keyHash',
+  'codeHash',
+  'recoveryCodes',
+  'otpCode',
+]);
+
+export type AuditActorType = 'admin' | 'api_key' | 'device' | 'customer' | 'system';
+
+export interface AuditActor {
+  type: AuditActorType;
+  id?: string | number | null; // Admin ID, API key ID, POS hardware ID or customer phone
+}
+
+export interface AuditEventInput {
+  action: string; // <entity>.<verb>, e.g. license.update
+  entityType: string;
+  entityId?: string | number | null;
+  before?: object | null; // State before the change (omit for creations)
+  after?: object | null; // State after the change (omit for deletions)
+  metadata?: Record<string, unknown>;
+  actor?: AuditActor; // Defaults to the authenticated admin or API key of the request, else system
+}
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditEventRecord {
+  id: number;
+  actorType: string;
+  actorId: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  changes: unknown;
+  metadata: unknown;
+  ipAddress: string | null;
+  userAgent: string | null;
+  requestId: string | null;
+  prevHash: string | null;
+  hash: string;
+  createdAt: Date;
+}
+
+export interface AuditEventFilters {
+  actorType?: string;
+  actorId?: string;
+  action?: string; // Prefix match, e.g. "license." or "payment.create"
+  entityType?: string;
+  entityId?: string;
+  requestId?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  firstInvalidId: number | null;
+  reason: string | null;
+}
+
+/**
+ * Audit Service
+ * Append-only, hash-chained record of admin and license mutations.
+ * Each event stores the SHA-256 of its predecessor and of its own contents, so any edit or removal of a past
+ * event breaks the chain and is detected by verifyChain(). The table also rejects UPDATE/DELETE via a trigger.
+ */
+export class AuditService {
+  /**
+   * Convert a value to plain JSON (Dates to ISO strings, Decimals to strings, BigInts to strings)
+   * and redact sensitive fields
+   */
+  private static toPlain(value: unknown): unknown {
+    if (value === undefined || value === null) {
+      return null;
+    }
+
+    const plain = JSON.parse(
+      JSON.stringify(value, (_key, item) => (typeof item === 'bigint' ? item.toString() : item))
+    );
+
+    const redact = (item: unknown): unknown => {
+      if (Array.isArray(item)) {
+        return item.map(redact);
+      }
+      if (item && typeof item === 'object') {
+        return Object.fromEntries(
+          Object.entries(item).map(([key, nested]) => [
+            key,
+            REDACTED_FIELDS.has(key) && nested !== null ? '[REDACTED]' : redact(nested),
+          ])
+        );
+      }
+      return item;
+    };
+
+    return redact(plain);
+  }
+
+  /**
+   * JSON with object keys sorted recursively, so hashes don't depend on key order (jsonb reorders keys)
+   */
+  private static canonicalize(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.canonicalize(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map((key) => `${JSON.stringify(key)}:${this.canonicalize((value as Record<string, unknown>)[key])}`);
+      return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value ?? null);
+  }
+
+  /**
+   * Pick the audited fields of an entity (leaves out relations and bookkeeping columns such as updatedAt)
+   */
+  static snapshot<T extends object, K extends keyof T>(value: T, fields: readonly K[]): Pick<T, K> {
+    const picked = {} as Pick<T, K>;
+    for (const field of fields) {
+      picked[field] = value[field];
+    }
+    return picked;
+  }
+
+  /**
+   * Fields that differ between two snapshots
+   * @returns Changed fields, or null when nothing changed
+   */
+  static diff(before: unknown, after: unknown): AuditChanges | null {
+    const beforeObject = (before ?? {}) as Record<string, unknown>;
+    const afterObject = (after ?? {}) as Record<string, unknown>;
+    const changes: AuditChanges = {};
+
+    for (const key of new Set([...Object.keys(beforeObject), ...Object.keys(afterObject)])) {
+      const beforeValue = beforeObject[key] ?? null;
+      const afterValue = afterObject[key] ?? null;
+      if (this.canonicalize(beforeValue) !== this.canonicalize(afterValue)) {
+        changes[key] = { before: beforeValue, after: afterValue };
+      }
+    }
+
+    return Object.keys(changes).length > 0 ? changes : null;
+  }
+
+  private static computeHash(event: Omit<AuditEventRecord, 'id' | 'hash'>): string {
+    const payload = this.canonicalize({
+      prevHash: event.prevHash,
+      actorType: event.actorType,
+      actorId: event.actorId,
+      action: event.action,
+      entityType: event.entityType,
+      entityId: event.entityId,
+      changes: event.changes,
+      metadata: event.metadata,
+      ipAddress: event.ipAddress,
+      userAgent: event.userAgent,
+      requestId: event.requestId,
+      createdAt: event.createdAt.toISOString(),
+    });
+
+    return crypto.createHash('sha256').update(payload).digest('hex');
+  }
+
+  /**
+   * Append an audit event
+   * Pass the caller's transaction to record the event atomically with the change it describes (errors then
+   * propagate and roll the change back); without one, recording never throws - a failure is only logged
+   * @param input Action, entity, before/after snapshots and optional actor
+   * @param tx Transaction of the audited change
+   */
+  static async record(input: AuditEventInput, tx?: Prisma.TransactionClient): Promise<void> {
+    if (tx) {
+      await this.append(tx, input);
+      return;
+    }
+
+    try {
+      await prisma.$transaction((client) => this.append(client, input));
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to record audit event', {
+        error: errorMessage,
+        action: input.action,
+        entityType: input.entityType,
+        entityId: input.entityId,
+        actorType: input.actor?.type,
+        actorId: input.actor?.id,
+      });
+    }
+  }
+
+  private static async append(tx: Prisma.TransactionClient, input: AuditEventInput): Promise<void> {
+    const context = getRequestContext();
+    const actor: AuditActor = input.actor
+      ?? (context?.adminId
+        ? { type: 'admin', id: context.adminId }
+        : context?.apiKeyId
+          ? { type: 'api_key', id: context.apiKeyId }
+          : { type: 'system', id: null });
+
+    const hasSnapshots = input.before !== undefined || input.after !== undefined;
+    const changes = hasSnapshots ? this.diff(this.toPlain(input.before), this.toPlain(input.after)) : null;
+
+    // An update that changed nothing is not worth an event
+    if (input.before && input.after && !changes) {
+      return;
+    }
+
+    const metadata = input.metadata ? (this.toPlain(input.metadata) as Record<string, unknown>) : null;
+
+    // Held until the transaction ends, so events are appended one at a time
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_ID}::bigint)`;
+
+    const previous = await tx.auditEvent.findFirst({
+      orderBy: { id: 'desc' },
+      select: { hash: true },
+    });
+
+    const event = {
+      actorType: actor.type,
+      actorId: actor.id !== undefined && actor.id !== null ? String(actor.id) : null,
+      action: input.action,
+      entityType: input.entityType,
+      entityId: input.entityId !== undefined && input.entityId !== null ? String(input.entityId) : null,
+      changes,
+      metadata,
+      ipAddress: context?.ipAddress ?? null,
+      userAgent: context?.userAgent ?? null,
+      requestId: context?.requestId ?? null,
+      prevHash: previous?.hash ?? null,
+      createdAt: new Date(),
+    };
+
+    await tx.auditEvent.create({
+      data: {
+        ...event,
+        changes: (event.changes ?? undefined) as Prisma.InputJsonValue | undefined,
+        metadata: (event.metadata ?? undefined) as Prisma.InputJsonValue | undefined,
+        hash: this.computeHash(event),
+      },
+    });
+  }
+
+  private static buildWhere(filters: AuditEventFilters): Record<string, unknown> {
+    const where: Record<string, unknown> = {};
+
+    if (filters.actorType) {
+      where.actorType = filters.actorType;
+    }
+    if (filters.actorId) {
+      where.actorId = filters.actorId;
+    }
+    if (filters.action) {
+      where.action = { startsWith: filters.action };
+    }
+    if (filters.entityType) {
+      where.entityType = filters.entityType;
+    }
+    if (filters.entityId) {
+      where.entityId = filters.entityId;
+    }
+    if (filters.requestId) {
+      where.requestId = filters.requestId;
+    }
+    if (filters.startDate || filters.endDate) {
+      where.createdAt = {
+        ...(filters.startDate ? { gte: filters.startDate } : {}),
+        ...(filters.endDate ? { lte: filters.endDate } : {}),
+      };
+    }
+
+    return where;
+  }
+
+  /**
+   * Admin: Get paginated audit events, newest first by default
+   * @param params Filters and pagination parameters
+   */
+  static async getAuditEventsPaginated(params: AuditEventFilters & {
+    page?: number;
+    pageSize?: number;
+    sortOrder?: 'asc' | 'desc';
+  }): Promise<{
+    data: AuditEventRecord[];
+    pagination: {
+      page: number;
+      pageSize: number;
+      totalItems: number;
+      totalPages: number;
+      hasNextPage: boolean;
+      hasPreviousPage: boolean;
+    };
+  }> {
+    const page = Math.max(1, params.page || 1);
+    const pageSize = Math.min(100, Math.max(1, params.pageSize || 20));
+    const skip = (page - 1) * pageSize;
+    const where = this.buildWhere(params);
+
+    const [events, totalItems] = await Promise.all([
+      prisma.auditEvent.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: { id: params.sortOrder || 'desc' },
+      }),
+      prisma.auditEvent.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(totalItems / pageSize);
+
+    return {
+      data: events,
+      pagination: {
+        page,
+        pageSize,
+        totalItems,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Admin: Get audit events for export (newest first, capped at 10000 rows)
+   * @param filters Audit event filters
+   */
+  static async getAuditEventsForExport(filters: AuditEventFilters): Promise<AuditEventRecord[]> {
+    return prisma.auditEvent.findMany({
+      where: this.buildWhere(filters),
+      orderBy: { id: 'desc' },
+      take: 10000,
+    });
+  }
+
+  /**
+   * Admin: Recompute the hash chain and report the first event that does not match
+   * Events are read in batches so the whole table is never loaded at once
+   * @returns Promise<AuditChainVerification>
+   */
+  static async verifyChain(): Promise<AuditChainVerification> {
+    const batchSize = 1000;
+    let checked = 0;
+    let lastId = 0;
+    let expectedPrevHash: string | null = null;
+
+    for (;;) {
+      const events: AuditEventRecord[] = await prisma.auditEvent.findMany({
+        where: { id: { gt: lastId } },
+        orderBy: { id: 'asc' },
+        take: batchSize,
+      });
+
+      for (const event of events) {
+        if (event.prevHash !== expectedPrevHash) {
+          return {
+            valid: false,
+            checked,
+            firstInvalidId: event.id,
+            reason: 'Previous hash does not match the preceding event (event removed or reordered)',
+          };
+        }
+
+        if (this.computeHash(event) !== event.hash) {
+          return {
+            valid: false,
+            checked,
+            firstInvalidId: event.id,
+            reason: 'Event contents do not match its hash (event modified)',
+          };
+        }
+
+        expectedPrevHash = event.hash;
+        lastId = event.id;
+        checked++;
+      }
+
+      if (events.length < batchSize) {
+        break;
+      }
+    }
+
+    return { valid: true, checked, firstInvalidId: null, reason: null };
+  }
+}
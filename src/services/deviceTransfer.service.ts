@@ -0,0 +1,383 @@
+import { SignOptions } from 'jsonwebtoken';
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { config } from '../config/config';
+import { logger, logLicenseOperation } from '../utils/logger';
+import { LicenseKeyGeneratorService } from './licenseKeyGenerator.service';
+import { LicenseService } from './license.service';
+import { ActivationTokenService } from './activationToken.service';
+import { AuditService } from './audit.service';
+import { PhoneVerificationService } from './phoneVerification.service';
+import { KeyManagementService } from './keyManagement.service';
+
+const TRANSFER_TOKEN_PURPOSE = 'device_transfer';
+const TRANSFER_SESSION_MINUTES = 15;
+
+export interface TransferSession {
+  licenseId: number;
+  licenseKey: string;
+  customerPhone: string;
+}
+
+export interface TransferOtpResult {
+  success: boolean;
+  message: string;
+  maskedPhone?: string;
+  expiresAt?: Date;
+  transferToken?: string;
+}
+
+export interface TransferQuota {
+  limit: number;
+  used: number;
+  remaining: number;
+  resetsAt: Date;
+}
+
+export interface TransferContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Device Transfer Service
+ *
+ * Lets customers release an activated device themselves so a replacement machine can activate:
+ * 1. Request an OTP - sent via WhatsApp to the license's customerPhone
+ * 2. Verify the OTP - returns a short-lived transfer token scoped to the license; each code allows a few attempts
+ * 3. List active devices and release one (limited by a monthly quota, audited in DeviceTransfer)
+ */
+export class DeviceTransferService {
+  /**
+   * Mask a phone number for display, keeping the last 3 digits
+   */
+  private static maskPhone(phone: string): string {
+    const visible = phone.slice(-3);
+    return `${'*'.repeat(Math.max(phone.length - 3, 0))}${visible}`;
+  }
+
+  private static getMonthStart(date: Date = new Date()): Date {
+    return new Date(date.getFullYear(), date.getMonth(), 1);
+  }
+
+  private static async findLicenseForTransfer(licenseKey: string) {
+    const normalizedKey = LicenseKeyGeneratorService.normalizeLicenseKey(licenseKey);
+    const license = await LicenseService.findLicenseByKey(normalizedKey);
+
+    if (!license) {
+      return { error: 'License key is invalid' } as const;
+    }
+
+    if (license.status === 'revoked') {
+      return { error: 'License has been revoked' } as const;
+    }
+
+    if (!license.customerPhone) {
+      return {
+        error: 'No phone number is registered for this license. Please contact your license supplier to transfer the device.',
+      } as const;
+    }
+
+    return { license, customerPhone: license.customerPhone } as const;
+  }
+
+  /**
+   * Send an ownership OTP to the license's registered phone number
+   * @param licenseKey License key
+   * @returns Promise<TransferOtpResult> Masked phone and OTP expiry on success
+   */
+  static async requestOtp(licenseKey: string): Promise<TransferOtpResult> {
+    const lookup = await this.findLicenseForTransfer(licenseKey);
+    if ('error' in lookup) {
+      return { success: false, message: lookup.error as string };
+    }
+
+    const result = await PhoneVerificationService.sendOTP({ phone: lookup.customerPhone, purpose: 'device_transfer' });
+    if (!result.success) {
+      return { success: false, message: result.message };
+    }
+
+    logger.info('Device transfer OTP requested', {
+      licenseId: lookup.license.id,
+    });
+
+    return {
+      success: true,
+      message: 'Verification code sent to the phone number registered for this license',
+      maskedPhone: this.maskPhone(lookup.customerPhone),
+      expiresAt: result.expiresAt,
+    };
+  }
+
+  /**
+   * Verify the ownership OTP and open a transfer session
+   * @param licenseKey License key
+   * @param otpCode OTP received via WhatsApp
+   * @returns Promise<TransferOtpResult> Transfer token on success
+   */
+  static async verifyOtp(licenseKey: string, otpCode: string): Promise<TransferOtpResult> {
+    const lookup = await this.findLicenseForTransfer(licenseKey);
+    if ('error' in lookup) {
+      return { success: false, message: lookup.error as string };
+    }
+
+    const result = await PhoneVerificationService.verifyOTP({
+      phone: lookup.customerPhone,
+      otpCode,
+      purpose: 'device_transfer',
+    });
+    if (!result.success) {
+      return { success: false, message: result.message };
+    }
+
+    const transferToken = await KeyManagementService.signToken(
+      {
+        purpose: TRANSFER_TOKEN_PURPOSE,
+        licenseId: lookup.license.id,
+        licenseKey: lookup.license.licenseKey,
+      },
+      { expiresIn: `${TRANSFER_SESSION_MINUTES}m` } as SignOptions,
+    );
+
+    const expiresAt = new Date();
+    expiresAt.setMinutes(expiresAt.getMinutes() + TRANSFER_SESSION_MINUTES);
+
+    logger.info('Device transfer session opened', {
+      licenseId: lookup.license.id,
+    });
+
+    return {
+      success: true,
+      message: 'Ownership verified',
+      transferToken,
+      expiresAt,
+    };
+  }
+
+  /**
+   * Verify a transfer token
+   * @param token Transfer token from verifyOtp
+   * @returns Promise<TransferSession> License the session is scoped to
+   * @throws Error if the token is invalid, expired, or not a transfer token
+   */
+  static async verifyTransferToken(token: string): Promise<TransferSession> {
+    let decoded: { purpose?: string; licenseId?: number };
+    try {
+      decoded = await KeyManagementService.verifyToken<{ purpose?: string; licenseId?: number }>(token);
+    } catch {
+      throw new Error('Transfer session is invalid or expired');
+    }
+
+    if (decoded.purpose !== TRANSFER_TOKEN_PURPOSE || typeof decoded.licenseId !== 'number') {
+      throw new Error('Transfer session is invalid or expired');
+    }
+
+    const license = await prisma.license.findUnique({
+      where: { id: decoded.licenseId },
+      select: { id: true, licenseKey: true, customerPhone: true, status: true },
+    });
+
+    if (!license || !license.customerPhone || license.status === 'revoked') {
+      throw new Error('Transfer session is invalid or expired');
+    }
+
+    return {
+      licenseId: license.id,
+      licenseKey: license.licenseKey,
+      customerPhone: license.customerPhone,
+    };
+  }
+
+  /**
+   * Get the transfer quota usage for the current calendar month
+   * @param licenseId License ID
+   * @param tx Transaction to count in (releaseActivation counts under the license row lock)
+   */
+  static async getQuota(licenseId: number, tx?: Prisma.TransactionClient): Promise<TransferQuota> {
+    const monthStart = this.getMonthStart();
+    const used = await (tx ?? prisma).deviceTransfer.count({
+      where: {
+        licenseId,
+        createdAt: { gte: monthStart },
+      },
+    });
+
+    const limit = config.deviceTransferMonthlyQuota;
+    const resetsAt = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 1);
+
+    return {
+      limit,
+      used,
+      remaining: Math.max(limit - used, 0),
+      resetsAt,
+    };
+  }
+
+  /**
+   * List the license's active devices and the remaining transfer quota
+   * @param licenseId License ID
+   */
+  static async getTransferOverview(licenseId: number): Promise<{
+    activations: Array<{
+      id: number;
+      machineName: string | null;
+      hardwareId: string;
+      activatedAt: Date;
+      lastValidation: Date | null;
+    }>;
+    quota: TransferQuota;
+  }> {
+    const [activations, quota] = await Promise.all([
+      prisma.activation.findMany({
+        where: { licenseId, isActive: true },
+        select: {
+          id: true,
+          machineName: true,
+          hardwareId: true,
+          activatedAt: true,
+          lastValidation: true,
+        },
+        orderBy: { activatedAt: 'asc' },
+      }),
+      this.getQuota(licenseId),
+    ]);
+
+    return { activations, quota };
+  }
+
+  /**
+   * Release an active device so another machine can activate
+   * @param session Verified transfer session
+   * @param activationId Activation to release
+   * @param context Request details recorded in the audit entry
+   * @returns Promise with the audit entry and remaining quota
+   * @throws Error if the activation is not an active device of the license or the monthly quota is used up
+   */
+  static async releaseActivation(
+    session: TransferSession,
+    activationId: number,
+    context: TransferContext = {},
+  ): Promise<{
+    transfer: {
+      id: number;
+      activationId: number;
+      hardwareId: string;
+      machineName: string | null;
+      createdAt: Date;
+    };
+    quota: TransferQuota;
+  }> {
+    // Lock the license so parallel releases count the quota one after another
+    const { activation, transfer, quota } = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM "License" WHERE id = ${session.licenseId} FOR UPDATE`;
+
+      const activation = await tx.activation.findFirst({
+        where: { id: activationId, licenseId: session.licenseId },
+        select: { id: true, hardwareId: true, machineName: true, isActive: true },
+      });
+
+      if (!activation) {
+        throw new Error(`Activation with ID ${activationId} not found`);
+      }
+
+      if (!activation.isActive) {
+        throw new Error('Activation is already inactive');
+      }
+
+      const quota = await this.getQuota(session.licenseId, tx);
+      if (quota.remaining <= 0) {
+        throw new Error(
+          `Monthly device transfer limit reached (${quota.used}/${quota.limit}). Transfers are available again on ${quota.resetsAt.toISOString().split('T')[0]}.`,
+        );
+      }
+
+      await tx.activation.update({
+        where: { id: activation.id },
+        data: { isActive: false },
+      });
+
+      const transfer = await tx.deviceTransfer.create({
+        data: {
+          licenseId: session.licenseId,
+          activationId: activation.id,
+          hardwareId: activation.hardwareId,
+          machineName: activation.machineName,
+          customerPhone: session.customerPhone,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        },
+        select: {
+          id: true,
+          activationId: true,
+          hardwareId: true,
+          machineName: true,
+          createdAt: true,
+        },
+      });
+
+      await AuditService.record({
+        action: 'activation.deactivate',
+        entityType: 'activation',
+        entityId: activation.id,
+        before: { isActive: true },
+        after: { isActive: false },
+        metadata: {
+          licenseId: session.licenseId,
+          licenseKey: session.licenseKey,
+          hardwareId: activation.hardwareId,
+          reason: 'device_transfer',
+        },
+        actor: { type: 'customer', id: session.customerPhone },
+      }, tx);
+
+      return { activation, transfer, quota };
+    });
+
+    await ActivationTokenService.revokeActivationTokens([activation.id], 'activation_deactivated');
+
+    logLicenseOperation('activation', {
+      operation: 'device_transfer',
+      transferId: transfer.id,
+      activationId: activation.id,
+      licenseId: session.licenseId,
+      licenseKey: session.licenseKey,
+      hardwareId: activation.hardwareId,
+      machineName: activation.machineName,
+    });
+
+    return {
+      transfer,
+      quota: {
+        ...quota,
+        used: quota.used + 1,
+        remaining: Math.max(quota.remaining - 1, 0),
+      },
+    };
+  }
+
+  /**
+   * Admin: Get the device transfer history and current quota of a license
+   * @param licenseId License ID
+   * @throws Error if the license does not exist
+   */
+  static async getTransfersForLicense(licenseId: number) {
+    const license = await prisma.license.findUnique({
+      where: { id: licenseId },
+      select: { id: true },
+    });
+
+    if (!license) {
+      throw new Error(`License with ID ${licenseId} not found`);
+    }
+
+    const [transfers, quota] = await Promise.all([
+      prisma.deviceTransfer.findMany({
+        where: { licenseId },
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.getQuota(licenseId),
+    ]);
+
+    return { transfers, quota };
+  }
+}
@@ -0,0 +1,66 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { logger } from '../utils/logger';
+import { config } from '../config/config';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Email Service
+ * Sends email through the configured SMTP server
+ */
+export class EmailService {
+  private static transporter: Transporter | null = null;
+
+  private static getTransporter(): Transporter {
+    if (!this.transporter) {
+      this.transporter = nodemailer.createTransport({
+        host: config.smtpHost,
+        port: config.smtpPort,
+        secure: config.smtpSecure,
+        auth: config.smtpUser ? { user: config.smtpUser, pass: config.smtpPassword } : undefined,
+      });
+    }
+    return this.transporter;
+  }
+
+  /**
+   * Check whether email sending is enabled and configured
+   */
+  static isConfigured(): boolean {
+    return config.emailEnabled && !!config.smtpHost && !!config.emailFrom;
+  }
+
+  /**
+   * Send an email
+   * Returns an object with success status and the error message if failed
+   */
+  static async send(message: EmailMessage): Promise<{ success: boolean; error?: string }> {
+    if (!this.isConfigured()) {
+      const errorMsg = 'Email is not configured. Set EMAIL_ENABLED, SMTP_HOST and EMAIL_FROM.';
+      logger.warn(errorMsg, { to: message.to });
+      return { success: false, error: errorMsg };
+    }
+
+    try {
+      const info = await this.getTransporter().sendMail({
+        from: config.emailFrom,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+
+      logger.info('Email sent successfully', { to: message.to, subject: message.subject, messageId: info.messageId });
+      return { success: true };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to send email', { to: message.to, subject: message.subject, error: errorMessage });
+      return { success: false, error: errorMessage };
+    }
+  }
+}
@@ -0,0 +1,263 @@
+import prisma from '../config/database';
+import { logger } from '../utils/logger';
+import { cacheService, CacheKeys } from '../utils/cache.util';
+import { ProductService, EditionRules } from './product.service';
+import { AuditService } from './audit.service';
+
+// Override fields recorded in audit events
+const FEATURE_AUDIT_FIELDS = ['enabled', 'expiresAt', 'note'] as const;
+
+/**
+ * Feature a license is entitled to
+ */
+export interface LicenseEntitlement {
+  feature: string; // Feature code, e.g. inventory, loyalty, multi_currency, e_invoicing
+  source: 'edition' | 'license'; // Included in the edition, or granted to the license
+  expiresAt: Date | null; // null = no expiry
+}
+
+export interface LicenseFeatureOverride {
+  id: number;
+  feature: string;
+  enabled: boolean;
+  expiresAt: Date | null;
+  note: string | null;
+  updatedBy: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface GrantFeatureInput {
+  expiresAt?: Date | null;
+  note?: string;
+  adminId?: number;
+}
+
+/**
+ * Entitlement Service
+ *
+ * Resolves which features (modules) a license may use:
+ * - Features listed on the license's catalog edition apply without expiry
+ * - LicenseFeature rows override the edition per license: a grant adds a feature (optionally until expiresAt),
+ *   a revocation (enabled = false) removes a feature the edition includes
+ */
+export class EntitlementService {
+  private static normalizeFeature(feature: string): string {
+    return feature.trim().toLowerCase();
+  }
+
+  private static async getOverrides(licenseId: number): Promise<LicenseFeatureOverride[]> {
+    const cacheKey = CacheKeys.licenseFeatures(licenseId);
+    const cached = cacheService.get<LicenseFeatureOverride[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const overrides = await prisma.licenseFeature.findMany({
+      where: { licenseId },
+      orderBy: { feature: 'asc' },
+    });
+
+    cacheService.set(cacheKey, overrides, 300);
+
+    return overrides;
+  }
+
+  /**
+   * Resolve the features a license is currently entitled to
+   * @param licenseId License ID
+   * @param edition Catalog rules of the license's edition (null when its product is not in the catalog)
+   * @param now Point in time to evaluate expiry against
+   * @returns Promise<LicenseEntitlement[]> Active entitlements sorted by feature code
+   */
+  static async getEntitlements(
+    licenseId: number,
+    edition: EditionRules | null,
+    now: Date = new Date(),
+  ): Promise<LicenseEntitlement[]> {
+    const entitlements = new Map<string, LicenseEntitlement>();
+
+    for (const feature of edition?.features ?? []) {
+      entitlements.set(feature, { feature, source: 'edition', expiresAt: null });
+    }
+
+    for (const override of await this.getOverrides(licenseId)) {
+      if (!override.enabled) {
+        entitlements.delete(override.feature);
+        continue;
+      }
+
+      const expiresAt = override.expiresAt ? new Date(override.expiresAt) : null;
+      if (expiresAt && expiresAt <= now) {
+        // An expired grant falls back to whatever the edition includes
+        continue;
+      }
+
+      entitlements.set(override.feature, { feature: override.feature, source: 'license', expiresAt });
+    }
+
+    return Array.from(entitlements.values()).sort((a, b) => a.feature.localeCompare(b.feature));
+  }
+
+  /**
+   * Admin: Get effective entitlements of a license with its edition features and per-license overrides
+   * @param licenseId License ID
+   * @throws Error if the license does not exist
+   */
+  static async getLicenseFeatures(licenseId: number): Promise<{
+    entitlements: LicenseEntitlement[];
+    editionFeatures: string[];
+    overrides: LicenseFeatureOverride[];
+  }> {
+    const license = await prisma.license.findUnique({
+      where: { id: licenseId },
+      select: { id: true, editionId: true, version: true },
+    });
+
+    if (!license) {
+      throw new Error(`License with ID ${licenseId} not found`);
+    }
+
+    const edition = await ProductService.getRulesForLicense(license);
+    const [entitlements, overrides] = await Promise.all([
+      this.getEntitlements(license.id, edition),
+      this.getOverrides(license.id),
+    ]);
+
+    return {
+      entitlements,
+      editionFeatures: edition?.features ?? [],
+      overrides,
+    };
+  }
+
+  /**
+   * Admin: Grant a feature to a license
+   * Re-granting replaces the expiry; granting a feature the edition includes sets an expiry-free override
+   * @param licenseId License ID
+   * @param feature Feature code
+   * @param input Optional expiry, note and acting admin
+   * @throws Error if the license does not exist or expiresAt is in the past
+   */
+  static async grantFeature(licenseId: number, feature: string, input: GrantFeatureInput = {}): Promise<LicenseFeatureOverride> {
+    const license = await prisma.license.findUnique({
+      where: { id: licenseId },
+      select: { id: true, licenseKey: true },
+    });
+
+    if (!license) {
+      throw new Error(`License with ID ${licenseId} not found`);
+    }
+
+    if (input.expiresAt && input.expiresAt <= new Date()) {
+      throw new Error('Feature expiry must be in the future');
+    }
+
+    const code = this.normalizeFeature(feature);
+    const data = {
+      enabled: true,
+      expiresAt: input.expiresAt ?? null,
+      note: input.note ?? null,
+      updatedBy: input.adminId ?? null,
+    };
+
+    const previous = await prisma.licenseFeature.findUnique({
+      where: { licenseId_feature: { licenseId, feature: code } },
+    });
+
+    const override = await prisma.licenseFeature.upsert({
+      where: { licenseId_feature: { licenseId, feature: code } },
+      create: { licenseId, feature: code, ...data },
+      update: data,
+    });
+
+    cacheService.del(CacheKeys.licenseFeatures(licenseId));
+
+    logger.info('License feature granted', {
+      licenseId,
+      licenseKey: license.licenseKey,
+      feature: code,
+      expiresAt: override.expiresAt,
+      adminId: input.adminId,
+    });
+
+    await AuditService.record({
+      action: 'license.grant_feature',
+      entityType: 'license',
+      entityId: licenseId,
+      before: previous ? AuditService.snapshot(previous, FEATURE_AUDIT_FIELDS) : null,
+      after: AuditService.snapshot(override, FEATURE_AUDIT_FIELDS),
+      metadata: { licenseKey: license.licenseKey, feature: code },
+    });
+
+    return override;
+  }
+
+  /**
+   * Admin: Revoke a feature from a license
+   * Removes a license grant, and also blocks the feature when the license's edition includes it
+   * @param licenseId License ID
+   * @param feature Feature code
+   * @param input Optional note and acting admin
+   * @throws Error if the license does not exist or the feature is not enabled for it
+   */
+  static async revokeFeature(
+    licenseId: number,
+    feature: string,
+    input: Omit<GrantFeatureInput, 'expiresAt'> = {},
+  ): Promise<LicenseFeatureOverride> {
+    const license = await prisma.license.findUnique({
+      where: { id: licenseId },
+      select: { id: true, licenseKey: true, editionId: true, version: true },
+    });
+
+    if (!license) {
+      throw new Error(`License with ID ${licenseId} not found`);
+    }
+
+    const code = this.normalizeFeature(feature);
+    const edition = await ProductService.getRulesForLicense(license);
+    const entitlements = await this.getEntitlements(license.id, edition);
+
+    if (!entitlements.some((entitlement) => entitlement.feature === code)) {
+      throw new Error(`Feature '${code}' is not enabled for this license`);
+    }
+
+    const data = {
+      enabled: false,
+      expiresAt: null,
+      note: input.note ?? null,
+      updatedBy: input.adminId ?? null,
+    };
+
+    const previous = await prisma.licenseFeature.findUnique({
+      where: { licenseId_feature: { licenseId, feature: code } },
+    });
+
+    const override = await prisma.licenseFeature.upsert({
+      where: { licenseId_feature: { licenseId, feature: code } },
+      create: { licenseId, feature: code, ...data },
+      update: data,
+    });
+
+    cacheService.del(CacheKeys.licenseFeatures(licenseId));
+
+    logger.info('License feature revoked', {
+      licenseId,
+      licenseKey: license.licenseKey,
+      feature: code,
+      adminId: input.adminId,
+    });
+
+    await AuditService.record({
+      action: 'license.revoke_feature',
+      entityType: 'license',
+      entityId: licenseId,
+      before: previous ? AuditService.snapshot(previous, FEATURE_AUDIT_FIELDS) : { enabled: true },
+      after: AuditService.snapshot(override, FEATURE_AUDIT_FIELDS),
+      metadata: { licenseKey: license.licenseKey, feature: code, source: previous ? 'license' : 'edition' },
+    });
+
+    return override;
+  }
+}
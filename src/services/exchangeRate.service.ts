@@ -0,0 +1,284 @@
+import { Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import prisma from '../config/database';
+import { logger } from '../utils/logger';
+import { cacheService, CacheKeys } from '../utils/cache.util';
+import { AuditService } from './audit.service';
+
+// Currencies prices and payments may be recorded in (ISO 4217)
+export const SUPPORTED_CURRENCIES = ['USD', 'LBP'] as const;
+
+export type CurrencyCode = (typeof SUPPORTED_CURRENCIES)[number];
+
+const EXCHANGE_RATE_AUDIT_FIELDS = ['baseCurrency', 'quoteCurrency', 'rate', 'effectiveFrom', 'note'] as const;
+
+export interface ExchangeRateRecord {
+  id: number;
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: Decimal;
+  effectiveFrom: Date;
+  note: string | null;
+  createdBy: number | null;
+  createdAt: Date;
+}
+
+export interface CreateExchangeRateInput {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+  effectiveFrom?: string | Date; // Defaults to now
+  note?: string;
+}
+
+export interface ExchangeRateFilters {
+  baseCurrency?: string;
+  quoteCurrency?: string;
+  at?: Date; // Only the rates in effect at this time (one per pair)
+}
+
+export interface CurrencyConversion {
+  amount: number;
+  from: string;
+  to: string;
+  at: Date;
+  rate: number;
+  convertedAmount: number;
+  exchangeRateId: number | null; // Null when no conversion was needed
+  inverse: boolean; // True when the rate was derived from the opposite pair
+}
+
+/**
+ * Exchange Rate Service
+ * Admin-maintained exchange rates with effective dates, and conversion of amounts between currencies
+ * at the rate in effect on a given date (the payment date for revenue reports)
+ */
+export class ExchangeRateService {
+  /**
+   * Check whether a currency code is supported
+   */
+  static isSupportedCurrency(currency: string): currency is CurrencyCode {
+    return (SUPPORTED_CURRENCIES as readonly string[]).includes(currency);
+  }
+
+  /**
+   * Normalize a currency code to upper case
+   * @throws Error if the currency is not supported
+   */
+  static normalizeCurrency(currency: string): CurrencyCode {
+    const code = currency.trim().toUpperCase();
+    if (!this.isSupportedCurrency(code)) {
+      throw new Error(`Unsupported currency: ${currency}. Supported currencies: ${SUPPORTED_CURRENCIES.join(', ')}`);
+    }
+    return code;
+  }
+
+  /**
+   * List exchange rates, newest effective date first
+   * @param filters Currency pair and optional point in time
+   */
+  static async listRates(filters: ExchangeRateFilters = {}): Promise<ExchangeRateRecord[]> {
+    const rates = await prisma.exchangeRate.findMany({
+      where: {
+        ...(filters.baseCurrency && { baseCurrency: filters.baseCurrency.toUpperCase() }),
+        ...(filters.quoteCurrency && { quoteCurrency: filters.quoteCurrency.toUpperCase() }),
+        ...(filters.at && { effectiveFrom: { lte: filters.at } }),
+      },
+      orderBy: [{ baseCurrency: 'asc' }, { quoteCurrency: 'asc' }, { effectiveFrom: 'desc' }],
+    });
+
+    if (!filters.at) {
+      return rates;
+    }
+
+    // Keep the most recent rate of each pair
+    const seen = new Set<string>();
+    return rates.filter((rate) => {
+      const pair = `${rate.baseCurrency}/${rate.quoteCurrency}`;
+      if (seen.has(pair)) {
+        return false;
+      }
+      seen.add(pair);
+      return true;
+    });
+  }
+
+  /**
+   * Add an exchange rate for a currency pair, effective from the given date until the next rate for the pair
+   * @param input Pair, rate (1 base = rate quote) and effective date
+   * @param adminId Admin entering the rate
+   * @throws Error if the currencies are unsupported or equal, the rate is not positive, or the pair already has a rate at that date
+   */
+  static async createRate(input: CreateExchangeRateInput, adminId?: number): Promise<ExchangeRateRecord> {
+    const baseCurrency = this.normalizeCurrency(input.baseCurrency);
+    const quoteCurrency = this.normalizeCurrency(input.quoteCurrency);
+
+    if (baseCurrency === quoteCurrency) {
+      throw new Error('Base and quote currencies must be different');
+    }
+
+    if (!(input.rate > 0)) {
+      throw new Error('Exchange rate must be greater than 0');
+    }
+
+    const effectiveFrom = input.effectiveFrom ? new Date(input.effectiveFrom) : new Date();
+
+    let rate: ExchangeRateRecord;
+    try {
+      rate = await prisma.exchangeRate.create({
+        data: {
+          baseCurrency,
+          quoteCurrency,
+          rate: new Decimal(input.rate),
+          effectiveFrom,
+          note: input.note,
+          createdBy: adminId ?? null,
+        },
+      });
+    } catch (error: unknown) {
+      if ((error as { code?: string }).code === 'P2002') {
+        throw new Error(
+          `An exchange rate for ${baseCurrency}/${quoteCurrency} effective ${effectiveFrom.toISOString()} already exists`
+        );
+      }
+      throw error;
+    }
+
+    logger.info('Exchange rate created', {
+      exchangeRateId: rate.id,
+      pair: `${baseCurrency}/${quoteCurrency}`,
+      rate: rate.rate.toString(),
+      effectiveFrom,
+      adminId,
+    });
+
+    // Dashboard revenue is converted with these rates
+    cacheService.del(CacheKeys.dashboardStats());
+
+    await AuditService.record({
+      action: 'exchange_rate.create',
+      entityType: 'exchange_rate',
+      entityId: rate.id,
+      after: AuditService.snapshot(rate, EXCHANGE_RATE_AUDIT_FIELDS),
+    });
+
+    return rate;
+  }
+
+  /**
+   * Delete an exchange rate (e.g. one entered by mistake)
+   * Reports covering its period are converted with the previous rate of the pair from then on
+   * @throws Error if the rate is not found
+   */
+  static async deleteRate(id: number): Promise<void> {
+    const existing = await prisma.exchangeRate.findUnique({ where: { id } });
+    if (!existing) {
+      throw new Error('Exchange rate not found');
+    }
+
+    await prisma.exchangeRate.delete({ where: { id } });
+
+    logger.info('Exchange rate deleted', { exchangeRateId: id });
+
+    cacheService.del(CacheKeys.dashboardStats());
+
+    await AuditService.record({
+      action: 'exchange_rate.delete',
+      entityType: 'exchange_rate',
+      entityId: id,
+      before: AuditService.snapshot(existing, EXCHANGE_RATE_AUDIT_FIELDS),
+    });
+  }
+
+  /**
+   * Find the rate converting one currency to another at a point in time
+   * Uses the direct pair when it has a rate in effect, else the inverse of the opposite pair
+   * @returns The rate, or null when neither pair has a rate in effect
+   */
+  static async findRate(
+    from: string,
+    to: string,
+    at: Date
+  ): Promise<{ rate: number; exchangeRateId: number; inverse: boolean } | null> {
+    const direct = await prisma.exchangeRate.findFirst({
+      where: { baseCurrency: from, quoteCurrency: to, effectiveFrom: { lte: at } },
+      orderBy: { effectiveFrom: 'desc' },
+    });
+    if (direct) {
+      return { rate: parseFloat(direct.rate.toString()), exchangeRateId: direct.id, inverse: false };
+    }
+
+    const opposite = await prisma.exchangeRate.findFirst({
+      where: { baseCurrency: to, quoteCurrency: from, effectiveFrom: { lte: at } },
+      orderBy: { effectiveFrom: 'desc' },
+    });
+    if (opposite) {
+      return { rate: 1 / parseFloat(opposite.rate.toString()), exchangeRateId: opposite.id, inverse: true };
+    }
+
+    return null;
+  }
+
+  /**
+   * Convert an amount between currencies at the rate in effect at a point in time
+   * @throws Error if a currency is unsupported or no rate is in effect for the pair
+   */
+  static async convert(amount: number, from: string, to: string, at: Date = new Date()): Promise<CurrencyConversion> {
+    const fromCurrency = this.normalizeCurrency(from);
+    const toCurrency = this.normalizeCurrency(to);
+
+    if (fromCurrency === toCurrency) {
+      return {
+        amount,
+        from: fromCurrency,
+        to: toCurrency,
+        at,
+        rate: 1,
+        convertedAmount: amount,
+        exchangeRateId: null,
+        inverse: false,
+      };
+    }
+
+    const found = await this.findRate(fromCurrency, toCurrency, at);
+    if (!found) {
+      throw new Error(`No exchange rate from ${fromCurrency} to ${toCurrency} in effect on ${at.toISOString()}`);
+    }
+
+    return {
+      amount,
+      from: fromCurrency,
+      to: toCurrency,
+      at,
+      rate: found.rate,
+      convertedAmount: Math.round(amount * found.rate * 100) / 100,
+      exchangeRateId: found.exchangeRateId,
+      inverse: found.inverse,
+    };
+  }
+
+  /**
+   * SQL expression for a payment's amount in the given currency at the rate in effect on its payment date
+   * Same lookup as findRate(); evaluates to NULL when no rate is in effect, so SUM() skips the payment
+   * @param currency Target currency
+   * @param alias Alias of the "Payment" table in the surrounding query
+   */
+  static convertedAmountSql(currency: string, alias = 'p'): Prisma.Sql {
+    const payment = Prisma.raw(`"${alias}"`);
+    return Prisma.sql`
+      CASE
+        WHEN ${payment}.currency = ${currency} THEN ${payment}.amount
+        ELSE ${payment}.amount * COALESCE(
+          (SELECT r.rate FROM "ExchangeRate" r
+           WHERE r."baseCurrency" = ${payment}.currency AND r."quoteCurrency" = ${currency}
+             AND r."effectiveFrom" <= ${payment}."paymentDate"
+           ORDER BY r."effectiveFrom" DESC LIMIT 1),
+          (SELECT 1 / r.rate FROM "ExchangeRate" r
+           WHERE r."baseCurrency" = ${currency} AND r."quoteCurrency" = ${payment}.currency
+             AND r."effectiveFrom" <= ${payment}."paymentDate"
+           ORDER BY r."effectiveFrom" DESC LIMIT 1)
+        )
+      END
+    `;
+  }
+}
@@ -0,0 +1,221 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { config } from '../config/config';
+
+/**
+ * Structured hardware fingerprint sent by the POS app on activation
+ */
+export interface HardwareFingerprint {
+  boardSerial?: string;
+  cpuId?: string;
+  diskSerials?: string[];
+  macAddresses?: string[];
+}
+
+export type FingerprintComponent = 'boardSerial' | 'cpuId' | 'diskSerials' | 'macAddresses' | 'machineName';
+
+export interface FingerprintComponentResult {
+  component: FingerprintComponent;
+  outcome: 'match' | 'mismatch' | 'missing'; // missing = not reported on one of the two sides
+}
+
+/**
+ * Why an activation request was (or was not) treated as an already activated machine
+ * Stored on the Activation row so admins can review the decision
+ */
+export interface FingerprintMatchDecision {
+  method: 'exact' | 'fingerprint' | 'none';
+  matched: boolean;
+  score?: number; // Number of matching components
+  threshold?: number;
+  components?: FingerprintComponentResult[];
+  candidateActivationId?: number; // Closest existing activation that was compared
+  previousHardwareId?: string; // Hardware ID replaced by a fingerprint match
+  reason: string;
+  decidedAt: string; // ISO 8601
+}
+
+export interface FingerprintCandidate {
+  id: number;
+  hardwareId: string;
+  machineName: string | null;
+  fingerprint: unknown;
+}
+
+const FINGERPRINT_COMPONENTS: FingerprintComponent[] = ['boardSerial', 'cpuId', 'diskSerials', 'macAddresses', 'machineName'];
+
+/**
+ * Hardware Fingerprint Service
+ *
+ * Recognises a machine whose hardware ID changed (disk or NIC swap) by comparing
+ * fingerprint components against the license's active activations.
+ * Five components are compared: board serial, CPU ID, disk serials, MAC addresses and machine name.
+ * List components match when the two lists share at least one value.
+ * A request is the same machine when at least config.fingerprintMatchThreshold components match.
+ */
+export class HardwareFingerprintService {
+  private static normalizeValue(value: string): string {
+    return value.trim().toUpperCase();
+  }
+
+  private static normalizeList(values: string[] | undefined, normalize: (value: string) => string): string[] | undefined {
+    if (!values) {
+      return undefined;
+    }
+    const normalized = Array.from(new Set(values.map(normalize).filter((value) => value !== ''))).sort();
+    return normalized.length > 0 ? normalized : undefined;
+  }
+
+  private static normalizeMac(value: string): string {
+    const hex = value.replace(/[^0-9a-f]/gi, '').toUpperCase();
+    // Ignore placeholder addresses reported by virtual adapters
+    return /^0+$/.test(hex) ? '' : hex;
+  }
+
+  /**
+   * Normalize a fingerprint for storage and comparison
+   * Trims and upper-cases values, strips MAC separators, de-duplicates and sorts lists
+   */
+  static normalize(fingerprint: HardwareFingerprint): HardwareFingerprint {
+    const boardSerial = fingerprint.boardSerial ? this.normalizeValue(fingerprint.boardSerial) : '';
+    const cpuId = fingerprint.cpuId ? this.normalizeValue(fingerprint.cpuId) : '';
+
+    return {
+      boardSerial: boardSerial || undefined,
+      cpuId: cpuId || undefined,
+      diskSerials: this.normalizeList(fingerprint.diskSerials, (value) => this.normalizeValue(value)),
+      macAddresses: this.normalizeList(fingerprint.macAddresses, (value) => this.normalizeMac(value)),
+    };
+  }
+
+  private static compareComponent(
+    component: FingerprintComponent,
+    stored: HardwareFingerprint & { machineName?: string },
+    incoming: HardwareFingerprint & { machineName?: string },
+  ): FingerprintComponentResult['outcome'] {
+    const a = stored[component];
+    const b = incoming[component];
+
+    if (!a || !b) {
+      return 'missing';
+    }
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return a.some((value) => b.includes(value)) ? 'match' : 'mismatch';
+    }
+
+    if (component === 'machineName') {
+      return String(a).trim().toLowerCase() === String(b).trim().toLowerCase() ? 'match' : 'mismatch';
+    }
+
+    return a === b ? 'match' : 'mismatch';
+  }
+
+  /**
+   * Compare an incoming fingerprint with a stored activation
+   * @returns FingerprintMatchDecision Decision including per-component outcomes
+   */
+  static compare(
+    candidate: FingerprintCandidate,
+    fingerprint: HardwareFingerprint,
+    machineName?: string,
+  ): FingerprintMatchDecision {
+    const threshold = config.fingerprintMatchThreshold;
+    const stored = {
+      ...this.normalize((candidate.fingerprint || {}) as HardwareFingerprint),
+      machineName: candidate.machineName || undefined,
+    };
+    const incoming = { ...this.normalize(fingerprint), machineName };
+
+    const components = FINGERPRINT_COMPONENTS.map((component) => ({
+      component,
+      outcome: this.compareComponent(component, stored, incoming),
+    }));
+
+    const matchedComponents = components.filter((result) => result.outcome === 'match').map((result) => result.component);
+    const mismatchedComponents = components.filter((result) => result.outcome === 'mismatch').map((result) => result.component);
+    const score = matchedComponents.length;
+    const matched = score >= threshold;
+
+    const details = [
+      `matched: ${matchedComponents.join(', ') || 'none'}`,
+      `mismatched: ${mismatchedComponents.join(', ') || 'none'}`,
+    ].join('; ');
+
+    return {
+      method: 'fingerprint',
+      matched,
+      score,
+      threshold,
+      components,
+      candidateActivationId: candidate.id,
+      previousHardwareId: matched ? candidate.hardwareId : undefined,
+      reason: matched
+        ? `Same machine: ${score} of ${FINGERPRINT_COMPONENTS.length} components match (threshold ${threshold}; ${details})`
+        : `Different machine: only ${score} of ${FINGERPRINT_COMPONENTS.length} components match (threshold ${threshold}; ${details})`,
+      decidedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Find the active activation of a license that best matches a fingerprint
+   * @param licenseId License ID
+   * @param fingerprint Incoming fingerprint
+   * @param machineName Incoming machine name
+   * @returns Closest candidate and its decision, or null if no activation has a stored fingerprint
+   */
+  static async findBestMatch(
+    licenseId: number,
+    fingerprint: HardwareFingerprint,
+    machineName?: string,
+  ): Promise<{ activation: FingerprintCandidate; decision: FingerprintMatchDecision } | null> {
+    const candidates = await prisma.activation.findMany({
+      where: {
+        licenseId,
+        isActive: true,
+        fingerprint: { not: Prisma.DbNull },
+      },
+      select: {
+        id: true,
+        hardwareId: true,
+        machineName: true,
+        fingerprint: true,
+      },
+    });
+
+    let best: { activation: FingerprintCandidate; decision: FingerprintMatchDecision } | null = null;
+
+    for (const candidate of candidates) {
+      const decision = this.compare(candidate, fingerprint, machineName);
+      if (!best || (decision.score ?? 0) > (best.decision.score ?? 0)) {
+        best = { activation: candidate, decision };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Decision recorded when the request carried a known hardware ID
+   */
+  static exactMatchDecision(): FingerprintMatchDecision {
+    return {
+      method: 'exact',
+      matched: true,
+      reason: 'Hardware ID matches an existing activation',
+      decidedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Decision recorded when no stored fingerprint was available to compare against
+   */
+  static noCandidateDecision(): FingerprintMatchDecision {
+    return {
+      method: 'none',
+      matched: false,
+      reason: 'New device: no active activation with a stored fingerprint to compare against',
+      decidedAt: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,602 @@
+import { Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import prisma from '../config/database';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { PDF_PAGE, PdfRow, renderPdf } from '../utils/pdf.util';
+import { AuditService } from './audit.service';
+import { OutboxService } from './outbox.service';
+import { PhoneVerificationService } from './phoneVerification.service';
+
+// Numbering series per payment type, plus credit notes for refunds and voids; the code is part of the invoice number
+export const INVOICE_SERIES = {
+  initial: 'I',
+  annual: 'A',
+  user: 'U',
+  credit: 'C',
+} as const;
+
+export type InvoiceSeries = keyof typeof INVOICE_SERIES;
+
+export type InvoiceKind = 'invoice' | 'credit_note';
+
+export interface InvoiceLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+export interface InvoiceRecord {
+  id: number;
+  number: string;
+  kind: InvoiceKind;
+  creditedInvoiceNumber: string | null; // Invoice a credit note reverses
+  series: string;
+  year: number;
+  sequence: number;
+  paymentId: number;
+  licenseId: number;
+  licenseKey: string;
+  customerName: string | null;
+  customerPhone: string | null;
+  customerEmail: string | null;
+  locationName: string | null;
+  locationAddress: string | null;
+  lineItems: InvoiceLineItem[];
+  subtotal: Decimal;
+  total: Decimal;
+  currency: string;
+  issuedAt: Date;
+  createdAt: Date;
+  payment: {
+    paymentDate: Date;
+    paymentType: string;
+    stripePaymentIntentId: string | null;
+  };
+}
+
+const INVOICE_INCLUDE = {
+  payment: {
+    select: {
+      paymentDate: true,
+      paymentType: true,
+      stripePaymentIntentId: true,
+    },
+  },
+} as const;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Invoice Service
+ * Issues one invoice per payment and renders it as HTML, PDF or a WhatsApp text:
+ * - Numbers are gap-free per series (payment type) and year: the counter is incremented in the payment's
+ *   transaction, so a rolled-back payment gives its number back
+ * - Billing details are copied from the license at issue time, so later edits do not change past invoices
+ * - Payments recorded before invoicing existed get their invoice the first time it is requested
+ */
+export class InvoiceService {
+  /**
+   * Format an invoice number, e.g. INV-A-2026-00042
+   */
+  static formatNumber(series: InvoiceSeries, year: number, sequence: number): string {
+    return `${config.invoicePrefix}-${INVOICE_SERIES[series]}-${year}-${String(sequence).padStart(5, '0')}`;
+  }
+
+  /**
+   * Take the next number of a series; the row stays locked until the transaction ends
+   */
+  private static async nextSequence(tx: Prisma.TransactionClient, series: InvoiceSeries, year: number): Promise<number> {
+    const rows = await tx.$queryRaw<Array<{ lastNumber: number }>>`
+      INSERT INTO "InvoiceSequence" ("series", "year", "lastNumber")
+      VALUES (${series}, ${year}, 1)
+      ON CONFLICT ("series", "year") DO UPDATE SET "lastNumber" = "InvoiceSequence"."lastNumber" + 1
+      RETURNING "lastNumber"
+    `;
+    return rows[0].lastNumber;
+  }
+
+  private static toRecord(invoice: Prisma.InvoiceGetPayload<{ include: typeof INVOICE_INCLUDE }>): InvoiceRecord {
+    return {
+      ...invoice,
+      kind: invoice.kind as InvoiceKind,
+      lineItems: invoice.lineItems as unknown as InvoiceLineItem[],
+    };
+  }
+
+  /**
+   * Issue the invoice for a payment, inside the payment's transaction
+   * Refund and void entries get a credit note against the invoice of the payment they reverse
+   * @param options.additionalUsers Users bought with a "user" payment (derived from the price per user if omitted)
+   * @param options.prorated Days of the term a prorated "user" payment covers, shown on the line item
+   * @throws Error if the payment is not found
+   */
+  static async createForPayment(
+    tx: Prisma.TransactionClient,
+    paymentId: number,
+    options: { additionalUsers?: number; prorated?: { remainingDays: number; termDays: number } } = {}
+  ): Promise<InvoiceRecord> {
+    const payment = await tx.payment.findUnique({
+      where: { id: paymentId },
+      include: {
+        license: {
+          include: {
+            edition: { select: { name: true } },
+            subscriptions: {
+              orderBy: { createdAt: 'desc' },
+              take: 1,
+              select: { startDate: true, endDate: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!payment) {
+      throw new Error(`Payment with ID ${paymentId} not found`);
+    }
+
+    const { license } = payment;
+    const isCreditNote = payment.kind !== 'payment';
+    const series: InvoiceSeries = isCreditNote
+      ? 'credit'
+      : payment.paymentType in INVOICE_SERIES
+        ? (payment.paymentType as InvoiceSeries)
+        : 'initial';
+    const amount = parseFloat(payment.amount.toString());
+    const subscription = license.subscriptions[0];
+    const period = subscription ? `, ${formatDate(subscription.startDate)} to ${formatDate(subscription.endDate)}` : '';
+
+    // Payments recorded before invoicing existed get their invoice now, so the credit note has one to refer to
+    let creditedInvoiceNumber: string | null = null;
+    if (isCreditNote && payment.reversesPaymentId) {
+      const credited = await tx.invoice.findUnique({
+        where: { paymentId: payment.reversesPaymentId },
+        select: { number: true },
+      }) ?? await this.createForPayment(tx, payment.reversesPaymentId);
+      creditedInvoiceNumber = credited.number;
+    }
+
+    let lineItem: InvoiceLineItem;
+    switch (series) {
+      case 'initial':
+        lineItem = {
+          description: `DigitalizePOS license - ${license.edition?.name ?? license.version} (includes first year${period})`,
+          quantity: 1,
+          unitPrice: amount,
+          amount,
+        };
+        break;
+      case 'annual':
+        lineItem = {
+          description: `DigitalizePOS annual subscription${period}`,
+          quantity: 1,
+          unitPrice: amount,
+          amount,
+        };
+        break;
+      case 'user': {
+        const pricePerUser = parseFloat(license.pricePerUser.toString());
+        const quantity = options.additionalUsers
+          ?? (pricePerUser > 0 ? Math.max(1, Math.round(amount / pricePerUser)) : 1);
+        lineItem = {
+          description: options.prorated
+            ? `DigitalizePOS additional user (prorated: ${options.prorated.remainingDays} of ${options.prorated.termDays} days left in the term)`
+            : 'DigitalizePOS additional user',
+          quantity,
+          unitPrice: Math.round((amount / quantity) * 100) / 100,
+          amount,
+        };
+        break;
+      }
+      case 'credit':
+        lineItem = {
+          description: `${payment.kind === 'void' ? 'Void' : 'Refund'} of invoice ${creditedInvoiceNumber ?? `for payment ${payment.reversesPaymentId}`}`
+            + (payment.reason ? ` (${payment.reason})` : ''),
+          quantity: 1,
+          unitPrice: amount,
+          amount,
+        };
+        break;
+    }
+
+    const issuedAt = new Date();
+    const year = issuedAt.getUTCFullYear();
+    const sequence = await this.nextSequence(tx, series, year);
+
+    const invoice = await tx.invoice.create({
+      data: {
+        number: this.formatNumber(series, year, sequence),
+        kind: isCreditNote ? 'credit_note' : 'invoice',
+        creditedInvoiceNumber,
+        series,
+        year,
+        sequence,
+        paymentId: payment.id,
+        licenseId: license.id,
+        licenseKey: license.licenseKey,
+        customerName: license.customerName,
+        customerPhone: license.customerPhone,
+        customerEmail: license.customerEmail,
+        locationName: license.locationName,
+        locationAddress: license.locationAddress,
+        lineItems: [lineItem] as unknown as Prisma.InputJsonValue,
+        subtotal: payment.amount,
+        total: payment.amount,
+        currency: payment.currency,
+        issuedAt,
+      },
+      include: INVOICE_INCLUDE,
+    });
+
+    logger.info('Invoice issued', {
+      invoiceId: invoice.id,
+      number: invoice.number,
+      paymentId: payment.id,
+      licenseId: license.id,
+    });
+
+    return this.toRecord(invoice);
+  }
+
+  /**
+   * Get an invoice by ID
+   */
+  static async getInvoice(id: number): Promise<InvoiceRecord | null> {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id },
+      include: INVOICE_INCLUDE,
+    });
+
+    return invoice ? this.toRecord(invoice) : null;
+  }
+
+  /**
+   * Get the invoice of a payment, issuing it now if the payment predates invoicing
+   * @throws Error if the payment is not found
+   */
+  static async getOrCreateForPayment(paymentId: number): Promise<InvoiceRecord> {
+    const existing = await prisma.invoice.findUnique({
+      where: { paymentId },
+      include: INVOICE_INCLUDE,
+    });
+
+    if (existing) {
+      return this.toRecord(existing);
+    }
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const invoice = await this.createForPayment(tx, paymentId);
+
+        await AuditService.record({
+          action: 'invoice.create',
+          entityType: 'invoice',
+          entityId: invoice.id,
+          after: AuditService.snapshot(invoice, ['number', 'paymentId', 'licenseId', 'total']),
+          metadata: { licenseKey: invoice.licenseKey, backfilled: true },
+        }, tx);
+
+        return invoice;
+      });
+    } catch (error: unknown) {
+      // Another request issued it first
+      const errorWithCode = error as { code?: string };
+      if (errorWithCode.code === 'P2002') {
+        const invoice = await prisma.invoice.findUnique({
+          where: { paymentId },
+          include: INVOICE_INCLUDE,
+        });
+        if (invoice) {
+          return this.toRecord(invoice);
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Format an amount in the invoice currency
+   */
+  static formatMoney(value: Decimal | number, currency: string): string {
+    const amount = typeof value === 'number' ? value : parseFloat(value.toString());
+    try {
+      return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+    } catch {
+      return `${amount.toFixed(2)} ${currency}`;
+    }
+  }
+
+  private static sellerLines(): string[] {
+    return [
+      config.invoiceCompanyAddress,
+      config.invoiceCompanyPhone,
+      config.invoiceCompanyEmail,
+      config.invoiceCompanyTaxId ? `Tax ID: ${config.invoiceCompanyTaxId}` : '',
+    ].filter(Boolean);
+  }
+
+  private static title(invoice: InvoiceRecord): string {
+    return invoice.kind === 'credit_note' ? 'Credit note' : 'Invoice';
+  }
+
+  private static closingLine(invoice: InvoiceRecord): string {
+    if (invoice.kind === 'credit_note') {
+      return `Credited against invoice ${invoice.creditedInvoiceNumber ?? '-'}. The total is returned to you or deducted from your balance.`;
+    }
+    return `Paid on ${formatDate(invoice.payment.paymentDate)}${invoice.payment.stripePaymentIntentId ? ' by card (Stripe)' : ''}. Thank you for your business.`;
+  }
+
+  private static customerLines(invoice: InvoiceRecord): string[] {
+    return [
+      invoice.customerName || 'Customer',
+      invoice.locationName ?? '',
+      invoice.locationAddress ?? '',
+      invoice.customerPhone ?? '',
+      invoice.customerEmail ?? '',
+      `License: ${invoice.licenseKey}`,
+    ].filter(Boolean);
+  }
+
+  /**
+   * Render an invoice as a standalone HTML page
+   */
+  static renderHtml(invoice: InvoiceRecord): string {
+    const money = (value: Decimal | number) => escapeHtml(this.formatMoney(value, invoice.currency));
+    const rows = invoice.lineItems
+      .map((item) => `
+        <tr>
+          <td>${escapeHtml(item.description)}</td>
+          <td class="num">${item.quantity}</td>
+          <td class="num">${money(item.unitPrice)}</td>
+          <td class="num">${money(item.amount)}</td>
+        </tr>`)
+      .join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${this.title(invoice)} ${escapeHtml(invoice.number)}</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; color: #222; max-width: 800px; margin: 40px auto; padding: 0 24px; }
+    header { display: flex; justify-content: space-between; align-items: flex-start; }
+    h1 { margin: 0 0 4px; font-size: 28px; }
+    .muted { color: #666; }
+    .parties { display: flex; justify-content: space-between; margin: 32px 0; }
+    .parties div { line-height: 1.5; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 8px; border-bottom: 1px solid #ddd; text-align: left; }
+    th { background: #f5f5f5; }
+    .num { text-align: right; white-space: nowrap; }
+    .total td { font-weight: bold; border-bottom: none; }
+    .paid { color: #1a7f37; font-weight: bold; margin-top: 24px; }
+  </style>
+</head>
+<body>
+  <header>
+    <div>
+      <h1>${escapeHtml(config.invoiceCompanyName)}</h1>
+      ${this.sellerLines().map((line) => `<div class="muted">${escapeHtml(line)}</div>`).join('\n      ')}
+    </div>
+    <div class="num">
+      <h1>${this.title(invoice).toUpperCase()}</h1>
+      <div>${escapeHtml(invoice.number)}</div>
+      <div class="muted">Issued ${formatDate(invoice.issuedAt)}</div>
+    </div>
+  </header>
+  <section class="parties">
+    <div>
+      <strong>Bill to</strong><br>
+      ${this.customerLines(invoice).map(escapeHtml).join('<br>\n      ')}
+    </div>
+  </section>
+  <table>
+    <thead>
+      <tr><th>Description</th><th class="num">Qty</th><th class="num">Unit price</th><th class="num">Amount</th></tr>
+    </thead>
+    <tbody>${rows}
+      <tr class="total"><td colspan="3" class="num">Subtotal</td><td class="num">${money(invoice.subtotal)}</td></tr>
+      <tr class="total"><td colspan="3" class="num">Total</td><td class="num">${money(invoice.total)}</td></tr>
+    </tbody>
+  </table>
+  <p class="paid">${escapeHtml(this.closingLine(invoice))}</p>
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Render an invoice as a PDF document
+   */
+  static renderPdf(invoice: InvoiceRecord): Buffer {
+    const left = PDF_PAGE.margin;
+    const right = PDF_PAGE.width - PDF_PAGE.margin;
+    const money = (value: Decimal | number) => this.formatMoney(value, invoice.currency);
+
+    const rows: PdfRow[] = [
+      {
+        size: 20,
+        cells: [
+          { text: config.invoiceCompanyName, x: left, bold: true },
+          { text: this.title(invoice).toUpperCase(), x: right, align: 'right', bold: true },
+        ],
+      },
+    ];
+
+    const seller = this.sellerLines();
+    const meta = [invoice.number, `Issued ${formatDate(invoice.issuedAt)}`];
+    for (let i = 0; i < Math.max(seller.length, meta.length); i++) {
+      rows.push({
+        cells: [
+          { text: seller[i] ?? '', x: left },
+          { text: meta[i] ?? '', x: right, align: 'right' },
+        ],
+      });
+    }
+
+    rows.push({ spaceBefore: 20, cells: [{ text: 'Bill to', x: left, bold: true }] });
+    for (const line of this.customerLines(invoice)) {
+      rows.push({ cells: [{ text: line, x: left }] });
+    }
+
+    rows.push({
+      spaceBefore: 20,
+      ruleAfter: true,
+      cells: [
+        { text: 'Description', x: left, bold: true },
+        { text: 'Qty', x: 360, align: 'right', bold: true },
+        { text: 'Unit price', x: 450, align: 'right', bold: true },
+        { text: 'Amount', x: right, align: 'right', bold: true },
+      ],
+    });
+
+    for (const item of invoice.lineItems) {
+      // Long descriptions wrap onto extra rows so they never run into the number columns
+      const words = item.description.split(' ');
+      const lines: string[] = [];
+      let current = '';
+      for (const word of words) {
+        const candidate = current ? `${current} ${word}` : word;
+        if (candidate.length > 48 && current) {
+          lines.push(current);
+          current = word;
+        } else {
+          current = candidate;
+        }
+      }
+      lines.push(current);
+
+      lines.forEach((line, index) => {
+        rows.push({
+          spaceBefore: index === 0 ? 4 : 0,
+          ruleAfter: index === lines.length - 1,
+          cells: index === 0
+            ? [
+              { text: line, x: left },
+              { text: String(item.quantity), x: 360, align: 'right' },
+              { text: money(item.unitPrice), x: 450, align: 'right' },
+              { text: money(item.amount), x: right, align: 'right' },
+            ]
+            : [{ text: line, x: left }],
+        });
+      });
+    }
+
+    rows.push({
+      spaceBefore: 6,
+      cells: [
+        { text: 'Subtotal', x: 450, align: 'right' },
+        { text: money(invoice.subtotal), x: right, align: 'right' },
+      ],
+    });
+    rows.push({
+      size: 12,
+      cells: [
+        { text: 'Total', x: 450, align: 'right', bold: true },
+        { text: money(invoice.total), x: right, align: 'right', bold: true },
+      ],
+    });
+    rows.push({
+      spaceBefore: 24,
+      cells: [{ text: this.closingLine(invoice), x: left }],
+    });
+
+    return renderPdf(rows, { title: `${this.title(invoice)} ${invoice.number}` });
+  }
+
+  /**
+   * Render an invoice or credit note as a plain-text receipt (WhatsApp)
+   */
+  static renderText(invoice: InvoiceRecord): string {
+    const items = invoice.lineItems
+      .map((item) => `• ${item.description}${item.quantity > 1 ? ` × ${item.quantity}` : ''}: ${this.formatMoney(item.amount, invoice.currency)}`)
+      .join('\n');
+
+    if (invoice.kind === 'credit_note') {
+      return `Dear ${invoice.customerName || 'Valued Customer'},
+
+Here is your credit note:
+
+🧾 Credit note: ${invoice.number} (for invoice ${invoice.creditedInvoiceNumber ?? '-'})
+📅 Date: ${formatDate(invoice.issuedAt)}
+🔑 License: ${invoice.licenseKey}
+
+${items}
+
+Total credited: ${this.formatMoney(invoice.total.abs(), invoice.currency)}
+
+This is an automated message from ${config.invoiceCompanyName}.`;
+    }
+
+    return `Dear ${invoice.customerName || 'Valued Customer'},
+
+Thank you for your payment. Here is your receipt:
+
+🧾 Invoice: ${invoice.number}
+📅 Date: ${formatDate(invoice.issuedAt)}
+🔑 License: ${invoice.licenseKey}
+
+${items}
+
+Total paid: ${this.formatMoney(invoice.total, invoice.currency)}
+
+This is an automated message from ${config.invoiceCompanyName}.`;
+  }
+
+  /**
+   * Queue the invoice for delivery over WhatsApp to the license's verified phone
+   * @param tx Queue inside the payment's transaction
+   * @returns The phone number it was queued for, or null when the customer has no verified phone
+   */
+  static async queueWhatsApp(invoice: InvoiceRecord, tx?: Prisma.TransactionClient): Promise<string | null> {
+    if (!invoice.customerPhone || !(await PhoneVerificationService.hasPhoneBeenVerified(invoice.customerPhone))) {
+      logger.info('Invoice not sent over WhatsApp: no verified phone number', {
+        invoiceId: invoice.id,
+        number: invoice.number,
+        licenseId: invoice.licenseId,
+      });
+      return null;
+    }
+
+    await OutboxService.enqueueWhatsApp('invoice', { invoiceId: invoice.id, to: invoice.customerPhone }, { tx });
+    return invoice.customerPhone;
+  }
+
+  /**
+   * Send the invoice of a payment to the customer over WhatsApp
+   * @throws Error if the payment is not found, WhatsApp is disabled or the customer has no verified phone
+   */
+  static async sendViaWhatsApp(paymentId: number): Promise<{ invoiceId: number; number: string; to: string }> {
+    if (!config.whatsappEnabled) {
+      throw new Error('WhatsApp is not enabled');
+    }
+
+    const invoice = await this.getOrCreateForPayment(paymentId);
+    const to = await this.queueWhatsApp(invoice);
+    if (!to) {
+      throw new Error('Customer has no verified phone number to send the invoice to');
+    }
+
+    await AuditService.record({
+      action: 'invoice.send',
+      entityType: 'invoice',
+      entityId: invoice.id,
+      metadata: { number: invoice.number, channel: 'whatsapp', to },
+    });
+
+    return { invoiceId: invoice.id, number: invoice.number, to };
+  }
+}
@@ -0,0 +1,427 @@
+import crypto from 'crypto';
+import jwt, { JwtPayload, SignOptions } from 'jsonwebtoken';
+import prisma from '../config/database';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { cacheService, CacheKeys } from '../utils/cache.util';
+import { AuditService } from './audit.service';
+
+export interface SigningKeySummary {
+  id: number;
+  kid: string;
+  algorithm: string;
+  status: string;
+  createdAt: Date;
+  rotatedAt: Date | null;
+  retiredAt: Date | null;
+}
+
+interface LoadedSigningKey {
+  id: number;
+  kid: string;
+  algorithm: string;
+  publicKey: string;
+  privateKey: string;
+  status: string;
+}
+
+export interface JsonWebKey {
+  kty: string;
+  kid: string;
+  alg: string;
+  use: string;
+  n?: string;
+  e?: string;
+}
+
+const SIGNING_ALGORITHM = 'RS256';
+
+// Prefix of values encrypted with KEY_ENCRYPTION_SECRET
+const ENCRYPTION_VERSION = 'v2';
+
+const summarySelect = {
+  id: true,
+  kid: true,
+  algorithm: true,
+  status: true,
+  createdAt: true,
+  rotatedAt: true,
+  retiredAt: true,
+} as const;
+
+/**
+ * Key Management Service
+ *
+ * Manages versioned RS256 signing keys stored in the database:
+ * - Exactly one "active" key signs new tokens (admin and activation tokens)
+ * - Rotated-out keys become "inactive" and keep verifying tokens they already signed
+ * - "retired" keys are rejected, invalidating every token they signed
+ *
+ * Private keys are encrypted at rest with AES-256-GCM using a key derived from KEY_ENCRYPTION_SECRET.
+ * Tokens carry the signing key's ID in the `kid` header.
+ */
+export class KeyManagementService {
+  /**
+   * Derive the at-rest encryption key from KEY_ENCRYPTION_SECRET
+   */
+  private static getEncryptionKey(): Buffer {
+    const secret = config.keyEncryptionSecret;
+    if (!secret || secret.trim() === '') {
+      throw new Error('KEY_ENCRYPTION_SECRET is not configured');
+    }
+    return crypto.createHash('sha256').update(secret).digest();
+  }
+
+  /**
+   * Derive the key secrets were encrypted with before KEY_ENCRYPTION_SECRET existed (read-only, see reencryptSecrets)
+   */
+  private static getLegacyEncryptionKey(): Buffer {
+    const jwtSecret = config.jwtSecret;
+    if (!jwtSecret || jwtSecret.trim() === '') {
+      throw new Error('JWT_SECRET is not configured');
+    }
+    return crypto.createHash('sha256').update(jwtSecret).digest();
+  }
+
+  /**
+   * Encrypt a secret for storage (signing private keys, admin TOTP secrets, webhook secrets)
+   */
+  static encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    return [ENCRYPTION_VERSION, ...[iv, tag, encrypted].map((part) => part.toString('base64'))].join(':');
+  }
+
+  /**
+   * Decrypt a secret produced by encryptSecret
+   * Values without a version prefix were encrypted with the JWT_SECRET key and still decrypt until re-encrypted
+   */
+  static decryptSecret(stored: string): string {
+    const parts = stored.split(':');
+    const legacy = parts[0] !== ENCRYPTION_VERSION;
+    const [iv, tag, encrypted] = (legacy ? parts : parts.slice(1)).map((part) => Buffer.from(part, 'base64'));
+    const key = legacy ? this.getLegacyEncryptionKey() : this.getEncryptionKey();
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+
+  /**
+   * Re-encrypt every secret still encrypted with the JWT_SECRET key under KEY_ENCRYPTION_SECRET
+   * Run once after setting KEY_ENCRYPTION_SECRET (npm run secrets:reencrypt)
+   * @returns Promise<number> Number of values re-encrypted
+   */
+  static async reencryptSecrets(): Promise<number> {
+    const isLegacy = (value: string | null): value is string => !!value && !value.startsWith(`${ENCRYPTION_VERSION}:`);
+    const reencrypt = (value: string): string => this.encryptSecret(this.decryptSecret(value));
+    let count = 0;
+
+    await prisma.$transaction(async (tx) => {
+      const signingKeys = await tx.signingKey.findMany({ select: { id: true, privateKeyEncrypted: true } });
+      for (const key of signingKeys.filter((key) => isLegacy(key.privateKeyEncrypted))) {
+        await tx.signingKey.update({
+          where: { id: key.id },
+          data: { privateKeyEncrypted: reencrypt(key.privateKeyEncrypted) },
+        });
+        count++;
+      }
+
+      const admins = await tx.admin.findMany({
+        where: { OR: [{ totpSecretEncrypted: { not: null } }, { totpPendingSecretEncrypted: { not: null } }] },
+        select: { id: true, totpSecretEncrypted: true, totpPendingSecretEncrypted: true },
+      });
+      for (const admin of admins) {
+        const data: { totpSecretEncrypted?: string; totpPendingSecretEncrypted?: string } = {};
+        if (isLegacy(admin.totpSecretEncrypted)) {
+          data.totpSecretEncrypted = reencrypt(admin.totpSecretEncrypted);
+        }
+        if (isLegacy(admin.totpPendingSecretEncrypted)) {
+          data.totpPendingSecretEncrypted = reencrypt(admin.totpPendingSecretEncrypted);
+        }
+        if (Object.keys(data).length > 0) {
+          await tx.admin.update({ where: { id: admin.id }, data });
+          count += Object.keys(data).length;
+        }
+      }
+
+      const endpoints = await tx.webhookEndpoint.findMany({ select: { id: true, secretEncrypted: true } });
+      for (const endpoint of endpoints.filter((endpoint) => isLegacy(endpoint.secretEncrypted))) {
+        await tx.webhookEndpoint.update({
+          where: { id: endpoint.id },
+          data: { secretEncrypted: reencrypt(endpoint.secretEncrypted) },
+        });
+        count++;
+      }
+    });
+
+    // Cached signing keys hold decrypted values and stay valid
+    logger.info('Secrets re-encrypted with KEY_ENCRYPTION_SECRET', { count });
+
+    return count;
+  }
+
+  private static toLoadedKey(key: {
+    id: number;
+    kid: string;
+    algorithm: string;
+    publicKey: string;
+    privateKeyEncrypted: string;
+    status: string;
+  }): LoadedSigningKey {
+    return {
+      id: key.id,
+      kid: key.kid,
+      algorithm: key.algorithm,
+      publicKey: key.publicKey,
+      privateKey: this.decryptSecret(key.privateKeyEncrypted),
+      status: key.status,
+    };
+  }
+
+  private static invalidateCache(kids: string[]): void {
+    cacheService.del(CacheKeys.activeSigningKey());
+    for (const kid of kids) {
+      cacheService.del(CacheKeys.signingKey(kid));
+    }
+  }
+
+  /**
+   * Get the key currently used for signing
+   * Creates the first key on demand so fresh installs need no manual setup
+   */
+  private static async getActiveKey(): Promise<LoadedSigningKey> {
+    const cached = cacheService.get<LoadedSigningKey>(CacheKeys.activeSigningKey());
+    if (cached) {
+      return cached;
+    }
+
+    let key = await prisma.signingKey.findFirst({
+      where: { status: 'active' },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!key) {
+      await this.rotateKey();
+      key = await prisma.signingKey.findFirst({
+        where: { status: 'active' },
+        orderBy: { createdAt: 'desc' },
+      });
+    }
+
+    if (!key) {
+      throw new Error('Failed to load active signing key');
+    }
+
+    const loaded = this.toLoadedKey(key);
+    cacheService.set(CacheKeys.activeSigningKey(), loaded, 300);
+    return loaded;
+  }
+
+  /**
+   * Get a non-retired key by its key ID
+   */
+  private static async getVerificationKey(kid: string): Promise<LoadedSigningKey | null> {
+    const cacheKey = CacheKeys.signingKey(kid);
+    const cached = cacheService.get<LoadedSigningKey>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const key = await prisma.signingKey.findUnique({ where: { kid } });
+    if (!key || key.status === 'retired') {
+      return null;
+    }
+
+    const loaded = this.toLoadedKey(key);
+    cacheService.set(cacheKey, loaded, 300);
+    return loaded;
+  }
+
+  /**
+   * Sign a JWT with the active key
+   * @param payload Token payload
+   * @param options Sign options (expiresIn, etc.) - algorithm and keyid are set here
+   * @returns Promise<string> Signed token with `kid` header
+   */
+  static async signToken(payload: object, options: SignOptions = {}): Promise<string> {
+    const key = await this.getActiveKey();
+    return jwt.sign(payload, key.privateKey, {
+      ...options,
+      algorithm: SIGNING_ALGORITHM,
+      keyid: key.kid,
+    });
+  }
+
+  /**
+   * Verify a JWT against any non-retired key
+   * Tokens without a `kid` header were signed with JWT_SECRET before key rotation existed; they are only accepted
+   * until LEGACY_TOKENS_ACCEPTED_UNTIL (and not at all when it is unset).
+   * @param token JWT to verify
+   * @returns Promise<T> Decoded payload
+   * @throws Error if the token is malformed, expired, or signed by an unknown or retired key
+   */
+  static async verifyToken<T extends object = JwtPayload>(token: string): Promise<T> {
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded || typeof decoded === 'string') {
+      throw new Error('Invalid token');
+    }
+
+    const kid = decoded.header.kid;
+    if (!kid) {
+      if (!config.legacyTokensAcceptedUntil || !(config.legacyTokensAcceptedUntil > new Date())) {
+        throw new Error('Token signing key is unknown or retired');
+      }
+      const jwtSecret = config.jwtSecret;
+      if (!jwtSecret || jwtSecret.trim() === '') {
+        throw new Error('JWT_SECRET is not configured');
+      }
+      return jwt.verify(token, jwtSecret, { algorithms: ['HS256'] }) as T;
+    }
+
+    const key = await this.getVerificationKey(kid);
+    if (!key) {
+      throw new Error('Token signing key is unknown or retired');
+    }
+
+    return jwt.verify(token, key.publicKey, { algorithms: [SIGNING_ALGORITHM] }) as T;
+  }
+
+  /**
+   * Generate a new active key; the previous active key becomes verify-only
+   * @returns Promise<SigningKeySummary> The new active key
+   */
+  static async rotateKey(): Promise<SigningKeySummary> {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+    const kid = crypto.randomBytes(8).toString('hex');
+    const privateKeyEncrypted = this.encryptSecret(privateKey);
+
+    const { created, previousKids } = await prisma.$transaction(async (tx) => {
+      const previous = await tx.signingKey.findMany({
+        where: { status: 'active' },
+        select: { kid: true },
+      });
+
+      await tx.signingKey.updateMany({
+        where: { status: 'active' },
+        data: { status: 'inactive', rotatedAt: new Date() },
+      });
+
+      const created = await tx.signingKey.create({
+        data: {
+          kid,
+          algorithm: SIGNING_ALGORITHM,
+          publicKey,
+          privateKeyEncrypted,
+          status: 'active',
+        },
+        select: summarySelect,
+      });
+
+      const previousKids = previous.map((key) => key.kid);
+      await AuditService.record({
+        action: 'signing_key.rotate',
+        entityType: 'signing_key',
+        entityId: created.id,
+        after: { kid: created.kid, status: created.status },
+        metadata: { previousKids },
+      }, tx);
+
+      return { created, previousKids };
+    });
+
+    this.invalidateCache(previousKids);
+
+    logger.info('Signing key rotated', {
+      kid: created.kid,
+      previousKids,
+    });
+
+    return created;
+  }
+
+  /**
+   * Retire a key so tokens signed with it are no longer accepted
+   * The active key cannot be retired - rotate first
+   * @param id Signing key ID
+   * @returns Promise<SigningKeySummary> Retired key
+   */
+  static async retireKey(id: number): Promise<SigningKeySummary> {
+    const existing = await prisma.signingKey.findUnique({ where: { id } });
+
+    if (!existing) {
+      throw new Error(`Signing key with ID ${id} not found`);
+    }
+
+    if (existing.status === 'active') {
+      throw new Error('Cannot retire the active signing key. Rotate keys first.');
+    }
+
+    if (existing.status === 'retired') {
+      throw new Error('Signing key is already retired');
+    }
+
+    const retired = await prisma.signingKey.update({
+      where: { id },
+      data: { status: 'retired', retiredAt: new Date() },
+      select: summarySelect,
+    });
+
+    this.invalidateCache([retired.kid]);
+
+    logger.info('Signing key retired', { id, kid: retired.kid });
+
+    await AuditService.record({
+      action: 'signing_key.retire',
+      entityType: 'signing_key',
+      entityId: id,
+      before: { kid: existing.kid, status: existing.status },
+      after: { kid: retired.kid, status: retired.status },
+    });
+
+    return retired;
+  }
+
+  /**
+   * List all signing keys (private key material is never returned)
+   */
+  static async listKeys(): Promise<SigningKeySummary[]> {
+    return prisma.signingKey.findMany({
+      select: summarySelect,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Build the JSON Web Key Set of all non-retired public keys
+   */
+  static async getJwks(): Promise<{ keys: JsonWebKey[] }> {
+    // Make sure at least one key exists before publishing the set
+    await this.getActiveKey();
+
+    const keys = await prisma.signingKey.findMany({
+      where: { status: { not: 'retired' } },
+      select: { kid: true, algorithm: true, publicKey: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return {
+      keys: keys.map((key) => {
+        const jwk = crypto.createPublicKey(key.publicKey).export({ format: 'jwk' });
+        return {
+          kty: String(jwk.kty),
+          n: jwk.n,
+          e: jwk.e,
+          kid: key.kid,
+          alg: key.algorithm,
+          use: 'sig',
+        };
+      }),
+    };
+  }
+}
@@ -3,10 +3,40 @@ import { LicenseKeyGeneratorService } from './licenseKeyGenerator.service';
 import { Decimal } from '@prisma/client/runtime/library';
 import { logLicenseOperation, logger } from '../utils/logger';
 import { config } from '../config/config';
-import { WhatsAppService } from './whatsapp.service';
+import { ExpirationWhatsAppData } from './whatsapp.service';
 import { cacheService, CacheKeys } from '../utils/cache.util';
-import { limitConcurrency } from '../utils/concurrency.util';
 import { PhoneVerificationService } from './phoneVerification.service';
+import { ActivationTokenService } from './activationToken.service';
+import { ProductService } from './product.service';
+import { ExchangeRateService } from './exchangeRate.service';
+import { AuditService } from './audit.service';
+import { WebhookService } from './webhook.service';
+import { OutboxService } from './outbox.service';
+import { STANDING_PAYMENT_WHERE } from './payment.service';
+import { UserPricingMode } from './proration.service';
+import { NotificationRecipient, NotificationResult, NotificationService } from './notification.service';
+
+// License fields recorded in audit events
+const LICENSE_AUDIT_FIELDS = [
+  'customerName',
+  'customerPhone',
+  'status',
+  'isFreeTrial',
+  'freeTrialEndDate',
+  'initialPrice',
+  'pricePerUser',
+  'currency',
+  'userPricingMode',
+  'userCount',
+  'userLimit',
+  'maxActivations',
+  'version',
+  'editionId',
+  'locationName',
+  'locationAddress',
+  'startDate',
+  'endDate',
+] as const;
 
 export interface CreateLicenseInput {
   customerName?: string;
@@ -15,12 +45,16 @@ export interface CreateLicenseInput {
   initialPrice?: number;
   annualPrice?: number;
   pricePerUser?: number;
+  currency?: string; // ISO 4217 code of the prices - defaults to the edition's
+  userPricingMode?: UserPricingMode; // Defaults to "full"
   locationName?: string;
   locationAddress?: string;
   isFreeTrial?: boolean;
   startDate?: string | Date;
   endDate?: string | Date;
-  version?: string;
+  version?: string; // Catalog product code - defaults to config.defaultProductCode
+  edition?: string; // Catalog edition code - defaults to the product's default edition
+  maxActivations?: number | null; // Device (seat) limit - defaults to the edition's, then config.defaultMaxActivations
 }
 
 export interface UpdateLicenseInput {
@@ -32,11 +66,22 @@ export interface UpdateLicenseInput {
   initialPrice?: number;
   annualPrice?: number;
   pricePerUser?: number;
+  currency?: string; // Also applied to the active subscription; recorded payments keep their own currency
+  userPricingMode?: UserPricingMode;
   isFreeTrial?: boolean;
   startDate?: string | Date;
   endDate?: string | Date;
 }
 
+export interface NotificationPreferences {
+  licenseId: number;
+  licenseKey: string;
+  customerPhone: string | null;
+  customerEmail: string | null;
+  channels: string[]; // As set on the license (empty = server default)
+  effectiveChannels: string[]; // Order actually tried
+}
+
 export interface LicenseWithDetails {
   id: number;
   licenseKey: string;
@@ -45,6 +90,8 @@ export interface LicenseWithDetails {
   purchaseDate: Date;
   initialPrice: Decimal;
   pricePerUser: Decimal;
+  currency: string;
+  userPricingMode: string;
   status: string;
   isFreeTrial: boolean;
   freeTrialEndDate: Date | null;
@@ -52,9 +99,11 @@ export interface LicenseWithDetails {
   endDate: Date | null;
   userCount: number;
   userLimit: number;
+  maxActivations: number | null;
   locationName: string | null;
   locationAddress: string | null;
   version: string;
+  editionId: number | null;
   createdAt: Date;
   updatedAt: Date;
   activations: Array<{
@@ -69,15 +118,19 @@ export interface LicenseWithDetails {
     startDate: Date;
     endDate: Date;
     annualFee: Decimal;
+    currency: string;
     status: string;
     gracePeriodEnd: Date | null;
   }>;
   payments: Array<{
     id: number;
     amount: Decimal;
+    currency: string;
     paymentDate: Date;
     isAnnualSubscription: boolean;
     paymentType: 'initial' | 'annual' | 'user';
+    kind: string; // "payment", "refund" or "void"
+    status: string;
   }>;
 }
 
@@ -93,15 +146,19 @@ export interface LicenseSummary {
   purchaseDate: Date;
   initialPrice: Decimal;
   pricePerUser: Decimal;
+  currency: string;
+  userPricingMode: string;
   status: string;
   isFreeTrial: boolean;
   startDate: Date | null;
   endDate: Date | null;
   userCount: number;
   userLimit: number;
+  maxActivations: number | null;
   locationName: string | null;
   locationAddress: string | null;
   version: string;
+  editionId: number | null;
   createdAt: Date;
   updatedAt: Date;
   // Only include counts, not full relation arrays
@@ -151,14 +208,18 @@ export class LicenseService {
       }
     }
 
+    // Resolve the catalog edition that supplies default prices, limits and trial length
+    const edition = await ProductService.resolveEdition(input.version, input.edition);
+
     // Generate unique license key
     const licenseKey = await LicenseKeyGeneratorService.generateLicenseKey();
 
-    // Set default prices if not provided
+    // Set default prices from the edition if not provided
     // Use nullish coalescing to allow 0 as a valid value
-    const initialPrice = input.initialPrice != null ? input.initialPrice : 350.0;
-    const annualPrice = input.annualPrice != null ? input.annualPrice : 50.0;
-    const pricePerUser = input.pricePerUser != null ? input.pricePerUser : 25.0;
+    const initialPrice = input.initialPrice != null ? input.initialPrice : edition.initialPrice;
+    const annualPrice = input.annualPrice != null ? input.annualPrice : edition.annualPrice;
+    const pricePerUser = input.pricePerUser != null ? input.pricePerUser : edition.pricePerUser;
+    const currency = input.currency ? ExchangeRateService.normalizeCurrency(input.currency) : edition.currency;
 
     // Check if this is a free trial (from toggle, not price)
     const isFreeTrial = input.isFreeTrial === true;
@@ -180,9 +241,9 @@ export class LicenseService {
     } else {
       // Calculate default end date based on free trial or paid license
       if (isFreeTrial) {
-        // For free trial: subscription ends in 10 days (Day 0 to Day 9 = 10 days total)
+        // For free trial: subscription ends after the edition's trial length (10 days = Day 0 to Day 9)
         licenseEndDate = new Date(licenseStartDate);
-        licenseEndDate.setDate(licenseEndDate.getDate() + config.freeTrialDays - 1);
+        licenseEndDate.setDate(licenseEndDate.getDate() + edition.trialDays - 1);
         // Set to end of day (23:59:59.999) to ensure full day is counted
         licenseEndDate.setHours(23, 59, 59, 999);
       } else {
@@ -208,9 +269,6 @@ export class LicenseService {
     // No grace period - expiration is exact end date
     const gracePeriodEnd = new Date(endDate);
 
-    // Set default version to 'grocery' if not provided
-    const version = input.version || 'grocery';
-
     // Prepare license data
     const licenseData: Record<string, unknown> = {
       licenseKey,
@@ -218,21 +276,28 @@ export class LicenseService {
       customerPhone: input.customerPhone,
       initialPrice: new Decimal(initialPrice),
       pricePerUser: new Decimal(pricePerUser),
+      currency,
+      userPricingMode: input.userPricingMode ?? 'full',
       status: 'active',
       isFreeTrial,
       freeTrialEndDate,
       startDate: licenseStartDate,
       endDate: licenseEndDate,
       userCount: 0, // Will be set to 1 when license is activated
-      userLimit: 2, // Default limit: 2 users (1 default + 1 extra)
+      userLimit: edition.userLimit, // Edition default (e.g. 2 users: 1 default + 1 extra)
+      maxActivations: input.maxActivations !== undefined
+        ? input.maxActivations
+        : edition.maxActivations ?? config.defaultMaxActivations,
       locationName: input.locationName,
       locationAddress: input.locationAddress,
-      version,
+      version: edition.productCode,
+      editionId: edition.editionId,
       subscriptions: {
         create: {
           startDate,
           endDate,
           annualFee: new Decimal(annualPrice),
+          currency,
           status: 'active',
           gracePeriodEnd,
         },
@@ -244,47 +309,78 @@ export class LicenseService {
       licenseData.payments = {
         create: {
           amount: new Decimal(initialPrice),
+          currency,
           paymentDate: new Date(),
           isAnnualSubscription: false,
         },
       };
     }
 
-    // Create license with subscription and initial payment (if not free trial) in a transaction
-    const license = await prisma.license.create({
-      data: licenseData as Parameters<typeof prisma.license.create>[0]['data'],
-      include: {
-        activations: {
-          select: {
-            id: true,
-            hardwareId: true,
-            machineName: true,
-            activatedAt: true,
-            isActive: true,
+    // Create license with subscription and initial payment (if not free trial) in a transaction,
+    // together with its license.created event
+    const license = await prisma.$transaction(async (tx) => {
+      const created = await tx.license.create({
+        data: licenseData as Parameters<typeof prisma.license.create>[0]['data'],
+        include: {
+          activations: {
+            select: {
+              id: true,
+              hardwareId: true,
+              machineName: true,
+              activatedAt: true,
+              isActive: true,
+            },
           },
-        },
-        subscriptions: {
-          select: {
-            id: true,
-            startDate: true,
-            endDate: true,
-            annualFee: true,
-            status: true,
-            gracePeriodEnd: true,
+          subscriptions: {
+            select: {
+              id: true,
+              startDate: true,
+              endDate: true,
+              annualFee: true,
+              currency: true,
+              status: true,
+              gracePeriodEnd: true,
+            },
           },
-        },
-        payments: {
-          select: {
-            id: true,
-            amount: true,
-            paymentDate: true,
-            isAnnualSubscription: true,
-            paymentType: true,
+          payments: {
+            select: {
+              id: true,
+              amount: true,
+              currency: true,
+              paymentDate: true,
+              isAnnualSubscription: true,
+              paymentType: true,
+              kind: true,
+              status: true,
+            },
           },
         },
-      },
+      });
+
+      await WebhookService.emit('license.created', {
+        licenseId: created.id,
+        licenseKey: created.licenseKey,
+        customerName: created.customerName,
+        customerPhone: created.customerPhone,
+        locationName: created.locationName,
+        status: created.status,
+        product: edition.productCode,
+        edition: edition.editionCode,
+      }, tx);
+
+      await AuditService.record({
+        action: 'license.create',
+        entityType: 'license',
+        entityId: created.id,
+        after: AuditService.snapshot(created, LICENSE_AUDIT_FIELDS),
+        metadata: { licenseKey: created.licenseKey },
+      }, tx);
+
+      return created;
     });
 
+    OutboxService.kick();
+
     // Log license generation
     logLicenseOperation('generation', {
       licenseId: license.id,
@@ -293,6 +389,8 @@ export class LicenseService {
       customerPhone: license.customerPhone,
       locationName: license.locationName,
       initialPrice: initialPrice.toString(),
+      product: edition.productCode,
+      edition: edition.editionCode,
     });
 
     const result = license as LicenseWithDetails;
@@ -346,6 +444,7 @@ export class LicenseService {
             startDate: true,
             endDate: true,
             annualFee: true,
+            currency: true,
             status: true,
             gracePeriodEnd: true,
           },
@@ -357,9 +456,12 @@ export class LicenseService {
           select: {
             id: true,
             amount: true,
+            currency: true,
             paymentDate: true,
             isAnnualSubscription: true,
             paymentType: true,
+            kind: true,
+            status: true,
           },
           orderBy: {
             paymentDate: 'desc',
@@ -415,6 +517,7 @@ export class LicenseService {
             startDate: true,
             endDate: true,
             annualFee: true,
+            currency: true,
             status: true,
             gracePeriodEnd: true,
           },
@@ -426,9 +529,12 @@ export class LicenseService {
           select: {
             id: true,
             amount: true,
+            currency: true,
             paymentDate: true,
             isAnnualSubscription: true,
             paymentType: true,
+            kind: true,
+            status: true,
           },
           orderBy: {
             paymentDate: 'desc',
@@ -581,6 +687,7 @@ export class LicenseService {
             startDate: true,
             endDate: true,
             annualFee: true,
+            currency: true,
             status: true,
             gracePeriodEnd: true,
           },
@@ -592,9 +699,12 @@ export class LicenseService {
           select: {
             id: true,
             amount: true,
+            currency: true,
             paymentDate: true,
             isAnnualSubscription: true,
             paymentType: true,
+            kind: true,
+            status: true,
           },
           orderBy: {
             paymentDate: 'desc',
@@ -605,6 +715,19 @@ export class LicenseService {
 
     const result = updated as LicenseWithDetails;
 
+    if (input.status === 'revoked' && existing.status !== 'revoked') {
+      await ActivationTokenService.revokeLicenseTokens(existing.id, 'license_revoked');
+    }
+
+    await AuditService.record({
+      action: 'license.update',
+      entityType: 'license',
+      entityId: existing.id,
+      before: AuditService.snapshot(existing, LICENSE_AUDIT_FIELDS),
+      after: AuditService.snapshot(updated, LICENSE_AUDIT_FIELDS),
+      metadata: { licenseKey: existing.licenseKey },
+    });
+
     // Invalidate cache for this license
     cacheService.del(CacheKeys.license(result.licenseKey));
     cacheService.del(CacheKeys.licenseById(existing.id));
@@ -660,8 +783,16 @@ export class LicenseService {
         },
       });
 
+      await WebhookService.emit('license.revoked', {
+        licenseId: license.id,
+        licenseKey: license.licenseKey,
+        customerName: license.customerName,
+        customerPhone: license.customerPhone,
+        locationName: license.locationName,
+      }, tx);
+
       // Return updated license with relations
-      return await tx.license.findUnique({
+      const revokedLicense = await tx.license.findUnique({
         where: { id: license.id },
         include: {
           activations: {
@@ -682,6 +813,7 @@ export class LicenseService {
               startDate: true,
               endDate: true,
               annualFee: true,
+              currency: true,
               status: true,
               gracePeriodEnd: true,
             },
@@ -693,9 +825,12 @@ export class LicenseService {
             select: {
               id: true,
               amount: true,
+              currency: true,
               paymentDate: true,
               isAnnualSubscription: true,
               paymentType: true,
+              kind: true,
+              status: true,
             },
             orderBy: {
               paymentDate: 'desc',
@@ -703,11 +838,27 @@ export class LicenseService {
           },
         },
       });
+
+      if (!revokedLicense) {
+        throw new Error('Failed to revoke license');
+      }
+
+      await AuditService.record({
+        action: 'license.revoke',
+        entityType: 'license',
+        entityId: revokedLicense.id,
+        before: AuditService.snapshot(existing, LICENSE_AUDIT_FIELDS),
+        after: AuditService.snapshot(revokedLicense, LICENSE_AUDIT_FIELDS),
+        metadata: { licenseKey: revokedLicense.licenseKey },
+      }, tx);
+
+      return revokedLicense;
     });
 
-    if (!revoked) {
-      throw new Error('Failed to revoke license');
-    }
+    OutboxService.kick();
+
+    // Invalidate activation tokens issued for this license
+    await ActivationTokenService.revokeLicenseTokens(revoked.id, 'license_revoked');
 
     // Log license revocation
     logLicenseOperation('revocation', {
@@ -767,6 +918,7 @@ export class LicenseService {
               startDate: true,
               endDate: true,
               annualFee: true,
+              currency: true,
               status: true,
               gracePeriodEnd: true,
             },
@@ -778,9 +930,12 @@ export class LicenseService {
             select: {
               id: true,
               amount: true,
+              currency: true,
               paymentDate: true,
               isAnnualSubscription: true,
               paymentType: true,
+              kind: true,
+              status: true,
             },
             orderBy: {
               paymentDate: 'desc',
@@ -994,6 +1149,7 @@ export class LicenseService {
                   startDate: true,
                   endDate: true,
                   annualFee: true,
+                  currency: true,
                   status: true,
                   gracePeriodEnd: true,
                 },
@@ -1005,9 +1161,12 @@ export class LicenseService {
                 select: {
                   id: true,
                   amount: true,
+                  currency: true,
                   paymentDate: true,
                   isAnnualSubscription: true,
                   paymentType: true,
+                  kind: true,
+                  status: true,
                 },
                 orderBy: {
                   paymentDate: 'desc',
@@ -1030,14 +1189,18 @@ export class LicenseService {
               purchaseDate: true,
               initialPrice: true,
               pricePerUser: true,
+              currency: true,
+              userPricingMode: true,
               status: true,
               isFreeTrial: true,
               startDate: true,
               endDate: true,
               userCount: true,
               userLimit: true,
+              maxActivations: true,
               locationName: true,
               locationAddress: true,
+              editionId: true,
               createdAt: true,
               updatedAt: true,
               _count: {
@@ -1148,6 +1311,7 @@ export class LicenseService {
                   startDate: true,
                   endDate: true,
                   annualFee: true,
+                  currency: true,
                   status: true,
                   gracePeriodEnd: true,
                 },
@@ -1159,9 +1323,12 @@ export class LicenseService {
                 select: {
                   id: true,
                   amount: true,
+                  currency: true,
                   paymentDate: true,
                   isAnnualSubscription: true,
                   paymentType: true,
+                  kind: true,
+                  status: true,
                 },
                 orderBy: {
                   paymentDate: 'desc',
@@ -1180,14 +1347,18 @@ export class LicenseService {
               purchaseDate: true,
               initialPrice: true,
               pricePerUser: true,
+              currency: true,
+              userPricingMode: true,
               status: true,
               isFreeTrial: true,
               startDate: true,
               endDate: true,
               userCount: true,
               userLimit: true,
+              maxActivations: true,
               locationName: true,
               locationAddress: true,
+              editionId: true,
               version: true,
               createdAt: true,
               updatedAt: true,
@@ -1241,6 +1412,194 @@ export class LicenseService {
     return result;
   }
 
+  /**
+   * Admin: Set the device (seat) limit of a license
+   * Lowering the limit does not deactivate existing devices; it only blocks new activations
+   * @param id License ID
+   * @param maxActivations New limit, or null for unlimited
+   * @returns Promise<{ licenseId: number; licenseKey: string; maxActivations: number | null; previousMaxActivations: number | null; activeActivations: number }>
+   * @throws Error if license not found
+   */
+  static async updateMaxActivations(
+    id: number,
+    maxActivations: number | null,
+  ): Promise<{
+    licenseId: number;
+    licenseKey: string;
+    maxActivations: number | null;
+    previousMaxActivations: number | null;
+    activeActivations: number;
+  }> {
+    const existing = await prisma.license.findUnique({
+      where: { id },
+      select: { id: true, licenseKey: true, maxActivations: true },
+    });
+
+    if (!existing) {
+      throw new Error(`License with ID ${id} not found`);
+    }
+
+    const [updated, activeActivations] = await Promise.all([
+      prisma.license.update({
+        where: { id },
+        data: { maxActivations },
+        select: { id: true, licenseKey: true, maxActivations: true },
+      }),
+      prisma.activation.count({
+        where: { licenseId: id, isActive: true },
+      }),
+    ]);
+
+    await AuditService.record({
+      action: 'license.update_max_activations',
+      entityType: 'license',
+      entityId: id,
+      before: { maxActivations: existing.maxActivations },
+      after: { maxActivations: updated.maxActivations },
+      metadata: { licenseKey: updated.licenseKey, activeActivations },
+    });
+
+    // Invalidate cache for this license
+    cacheService.del(CacheKeys.license(updated.licenseKey));
+    cacheService.del(CacheKeys.licenseById(id));
+
+    return {
+      licenseId: updated.id,
+      licenseKey: updated.licenseKey,
+      maxActivations: updated.maxActivations,
+      previousMaxActivations: existing.maxActivations,
+      activeActivations,
+    };
+  }
+
+  /**
+   * Get how a license's customer is notified
+   * @throws Error if license not found
+   */
+  static async getNotificationPreferences(id: number): Promise<NotificationPreferences> {
+    const license = await prisma.license.findUnique({
+      where: { id },
+      select: { id: true, licenseKey: true, customerPhone: true, customerEmail: true, notificationChannels: true },
+    });
+
+    if (!license) {
+      throw new Error(`License with ID ${id} not found`);
+    }
+
+    return this.toNotificationPreferences(license);
+  }
+
+  /**
+   * Set the customer email and/or preferred notification channels of a license
+   * @param input.channels Channels in fallback order; an empty list restores the server default order
+   * @throws Error if license not found
+   */
+  static async updateNotificationPreferences(
+    id: number,
+    input: { customerEmail?: string | null; channels?: string[] }
+  ): Promise<NotificationPreferences> {
+    const existing = await prisma.license.findUnique({
+      where: { id },
+      select: { id: true, licenseKey: true, customerEmail: true, notificationChannels: true },
+    });
+
+    if (!existing) {
+      throw new Error(`License with ID ${id} not found`);
+    }
+
+    const invalid = (input.channels ?? []).filter((channel) => !NotificationService.isChannel(channel));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid notification channel(s): ${invalid.join(', ')}`);
+    }
+
+    const updated = await prisma.license.update({
+      where: { id },
+      data: {
+        customerEmail: input.customerEmail,
+        notificationChannels: input.channels ? [...new Set(input.channels)] : undefined,
+      },
+      select: { id: true, licenseKey: true, customerPhone: true, customerEmail: true, notificationChannels: true },
+    });
+
+    await AuditService.record({
+      action: 'license.update_notification_preferences',
+      entityType: 'license',
+      entityId: id,
+      before: { customerEmail: existing.customerEmail, notificationChannels: existing.notificationChannels },
+      after: { customerEmail: updated.customerEmail, notificationChannels: updated.notificationChannels },
+      metadata: { licenseKey: updated.licenseKey },
+    });
+
+    // Invalidate cache for this license
+    cacheService.del(CacheKeys.license(updated.licenseKey));
+    cacheService.del(CacheKeys.licenseById(id));
+
+    return this.toNotificationPreferences(updated);
+  }
+
+  /**
+   * Send a test message to a license's customer through the normal channel fallback
+   * @throws Error if license not found or the customer has no verified phone number or email
+   */
+  static async sendTestNotification(id: number): Promise<NotificationResult> {
+    const license = await prisma.license.findUnique({
+      where: { id },
+      select: { id: true, licenseKey: true, customerName: true, customerPhone: true, customerEmail: true, notificationChannels: true },
+    });
+
+    if (!license) {
+      throw new Error(`License with ID ${id} not found`);
+    }
+
+    const recipient = await this.getNotificationRecipient(license);
+    if (!recipient) {
+      throw new Error('License has no verified phone number or email to notify');
+    }
+
+    return NotificationService.send(recipient, {
+      subject: 'DigitalizePOS test notification',
+      text: `Dear ${license.customerName || 'Valued Customer'},
+
+This is a test message to confirm that you receive DigitalizePOS notifications for license ${license.licenseKey}.
+
+This is an automated message from DigitalizePOS.`,
+    });
+  }
+
+  private static toNotificationPreferences(license: {
+    id: number;
+    licenseKey: string;
+    customerPhone: string | null;
+    customerEmail: string | null;
+    notificationChannels: string[];
+  }): NotificationPreferences {
+    return {
+      licenseId: license.id,
+      licenseKey: license.licenseKey,
+      customerPhone: license.customerPhone,
+      customerEmail: license.customerEmail,
+      channels: license.notificationChannels,
+      effectiveChannels: NotificationService.resolveChannels({ channels: license.notificationChannels }),
+    };
+  }
+
+  /**
+   * Count licenses whose active devices have reached their device limit
+   * @returns Promise<number> Number of licenses at (or above) their device cap
+   */
+  static async countLicensesAtDeviceCap(): Promise<number> {
+    const result = await prisma.$queryRaw<Array<{ count: bigint }>>`
+      SELECT COUNT(*) AS count FROM "License" l
+      WHERE l."maxActivations" IS NOT NULL
+        AND (
+          SELECT COUNT(*) FROM "Activation" a
+          WHERE a."licenseId" = l.id AND a."isActive" = true
+        ) >= l."maxActivations"
+    `;
+
+    return Number(result[0]?.count ?? 0);
+  }
+
   /**
    * Admin: Get license by ID with all details
    * @param id License ID
@@ -1260,6 +1619,20 @@ export class LicenseService {
    * @returns Promise<LicenseWithDetails> Updated license
    */
   static async updateLicenseById(id: number, input: UpdateLicenseInput): Promise<LicenseWithDetails> {
+    const existing = await prisma.license.findUnique({
+      where: { id },
+      include: {
+        subscriptions: {
+          where: { status: 'active' },
+          select: { id: true, annualFee: true },
+        },
+      },
+    });
+
+    if (!existing) {
+      throw new Error(`License with ID ${id} not found`);
+    }
+
     const updateData: Record<string, unknown> = {};
 
     if (input.customerName !== undefined) updateData.customerName = input.customerName;
@@ -1273,6 +1646,12 @@ export class LicenseService {
     if (input.pricePerUser !== undefined && input.pricePerUser !== null) {
       updateData.pricePerUser = new Decimal(input.pricePerUser);
     }
+    if (input.currency !== undefined && input.currency !== null) {
+      updateData.currency = ExchangeRateService.normalizeCurrency(input.currency);
+    }
+    if (input.userPricingMode !== undefined && input.userPricingMode !== null) {
+      updateData.userPricingMode = input.userPricingMode;
+    }
     if (input.isFreeTrial !== undefined) {
       updateData.isFreeTrial = input.isFreeTrial;
     }
@@ -1317,6 +1696,7 @@ export class LicenseService {
               startDate: true,
               endDate: true,
               annualFee: true,
+              currency: true,
               status: true,
               gracePeriodEnd: true,
             },
@@ -1328,6 +1708,7 @@ export class LicenseService {
             select: {
               id: true,
               amount: true,
+              currency: true,
               paymentDate: true,
               isAnnualSubscription: true,
             },
@@ -1338,21 +1719,23 @@ export class LicenseService {
         },
       });
 
-      // If annualPrice is provided, update the active subscription's annualFee
-      if (input.annualPrice !== undefined && input.annualPrice !== null) {
+      // If annualPrice or currency is provided, update the active subscription's annualFee and currency
+      const hasAnnualPrice = input.annualPrice !== undefined && input.annualPrice !== null;
+      if (hasAnnualPrice || updateData.currency !== undefined) {
         const activeSubscription = updatedLicense.subscriptions.find((sub) => sub.status === 'active');
         if (activeSubscription) {
           await tx.subscription.update({
             where: { id: activeSubscription.id },
             data: {
-              annualFee: new Decimal(input.annualPrice),
+              ...(hasAnnualPrice && { annualFee: new Decimal(input.annualPrice as number) }),
+              ...(updateData.currency !== undefined && { currency: updateData.currency as string }),
             },
           });
         }
       }
 
       // Fetch updated license with updated subscription data
-      return await tx.license.findUnique({
+      const refreshed = await tx.license.findUnique({
         where: { id },
         include: {
           activations: {
@@ -1373,6 +1756,7 @@ export class LicenseService {
               startDate: true,
               endDate: true,
               annualFee: true,
+              currency: true,
               status: true,
               gracePeriodEnd: true,
             },
@@ -1384,9 +1768,12 @@ export class LicenseService {
             select: {
               id: true,
               amount: true,
+              currency: true,
               paymentDate: true,
               isAnnualSubscription: true,
               paymentType: true,
+              kind: true,
+              status: true,
             },
             orderBy: {
               paymentDate: 'desc',
@@ -1394,14 +1781,36 @@ export class LicenseService {
           },
         },
       });
-    });
 
-    if (!license) {
-      throw new Error('Failed to update license');
-    }
+      if (!refreshed) {
+        throw new Error('Failed to update license');
+      }
+
+      const activeSubscription = refreshed.subscriptions.find((sub) => sub.status === 'active');
+      await AuditService.record({
+        action: 'license.update',
+        entityType: 'license',
+        entityId: id,
+        before: {
+          ...AuditService.snapshot(existing, LICENSE_AUDIT_FIELDS),
+          annualPrice: existing.subscriptions[0]?.annualFee ?? null,
+        },
+        after: {
+          ...AuditService.snapshot(refreshed, LICENSE_AUDIT_FIELDS),
+          annualPrice: activeSubscription?.annualFee ?? null,
+        },
+        metadata: { licenseKey: refreshed.licenseKey },
+      }, tx);
+
+      return refreshed;
+    });
 
     const result = license as LicenseWithDetails;
 
+    if (input.status === 'revoked') {
+      await ActivationTokenService.revokeLicenseTokens(id, 'license_revoked');
+    }
+
     // Invalidate cache for this license
     cacheService.del(CacheKeys.license(result.licenseKey));
     cacheService.del(CacheKeys.licenseById(id));
@@ -1455,8 +1864,16 @@ export class LicenseService {
         },
       });
 
+      await WebhookService.emit('license.revoked', {
+        licenseId: id,
+        licenseKey: existing.licenseKey,
+        customerName: existing.customerName,
+        customerPhone: existing.customerPhone,
+        locationName: existing.locationName,
+      }, tx);
+
       // Return updated license with relations
-      return await tx.license.findUnique({
+      const revokedLicense = await tx.license.findUnique({
         where: { id },
         include: {
           activations: {
@@ -1477,6 +1894,7 @@ export class LicenseService {
               startDate: true,
               endDate: true,
               annualFee: true,
+              currency: true,
               status: true,
               gracePeriodEnd: true,
             },
@@ -1488,9 +1906,12 @@ export class LicenseService {
             select: {
               id: true,
               amount: true,
+              currency: true,
               paymentDate: true,
               isAnnualSubscription: true,
               paymentType: true,
+              kind: true,
+              status: true,
             },
             orderBy: {
               paymentDate: 'desc',
@@ -1498,11 +1919,27 @@ export class LicenseService {
           },
         },
       });
+
+      if (!revokedLicense) {
+        throw new Error('Failed to revoke license');
+      }
+
+      await AuditService.record({
+        action: 'license.revoke',
+        entityType: 'license',
+        entityId: revokedLicense.id,
+        before: AuditService.snapshot(existing, LICENSE_AUDIT_FIELDS),
+        after: AuditService.snapshot(revokedLicense, LICENSE_AUDIT_FIELDS),
+        metadata: { licenseKey: revokedLicense.licenseKey },
+      }, tx);
+
+      return revokedLicense;
     });
 
-    if (!revoked) {
-      throw new Error('Failed to revoke license');
-    }
+    OutboxService.kick();
+
+    // Invalidate activation tokens issued for this license
+    await ActivationTokenService.revokeLicenseTokens(revoked.id, 'license_revoked');
 
     // Log license revocation
     logLicenseOperation('revocation', {
@@ -1534,15 +1971,33 @@ export class LicenseService {
     // Get license info before deletion for cache invalidation
     const license = await prisma.license.findUnique({
       where: { id },
-      select: { id: true, licenseKey: true },
     });
 
     if (!license) {
       throw new Error(`License with ID ${id} not found`);
     }
 
-    await prisma.license.delete({
-      where: { id },
+    // Issued invoices keep their numbers for good, so their payments (and license) cannot be deleted
+    const invoices = await prisma.invoice.count({
+      where: { licenseId: id },
+    });
+
+    if (invoices > 0) {
+      throw new Error('License has issued invoices and cannot be deleted. Revoke it instead.');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.license.delete({
+        where: { id },
+      });
+
+      await AuditService.record({
+        action: 'license.delete',
+        entityType: 'license',
+        entityId: id,
+        before: AuditService.snapshot(license, LICENSE_AUDIT_FIELDS),
+        metadata: { licenseKey: license.licenseKey },
+      }, tx);
     });
 
     // Invalidate cache for this license
@@ -1569,26 +2024,51 @@ export class LicenseService {
     
     // Performance optimization: Use a single SQL query instead of fetching all licenses
     // and looping through them in JavaScript (N+1 problem)
-    // This query finds all active licenses that have no active subscriptions with future end dates
-    const result = await prisma.$executeRaw`
-      UPDATE "License" l
-      SET status = 'expired',
-          "updatedAt" = ${now}
-      WHERE l.status = 'active'
-        AND NOT EXISTS (
-          SELECT 1 FROM "Subscription" s
-          WHERE s."licenseId" = l.id
-            AND s.status = 'active'
-            AND s."endDate" > ${now}
-        )
-        AND EXISTS (
-          SELECT 1 FROM "Subscription" s2
-          WHERE s2."licenseId" = l.id
-            AND (s2.status = 'expired' OR s2."endDate" <= ${now})
-        )
-    `;
+    // This query finds all active licenses that have no active subscriptions with future end dates.
+    // Their license.expired events are queued in the same transaction.
+    const expired = await prisma.$transaction(async (tx) => {
+      const rows = await tx.$queryRaw<Array<{ id: number; licenseKey: string }>>`
+        UPDATE "License" l
+        SET status = 'expired',
+            "updatedAt" = ${now}
+        WHERE l.status = 'active'
+          AND NOT EXISTS (
+            SELECT 1 FROM "Subscription" s
+            WHERE s."licenseId" = l.id
+              AND s.status = 'active'
+              AND s."endDate" > ${now}
+          )
+          AND EXISTS (
+            SELECT 1 FROM "Subscription" s2
+            WHERE s2."licenseId" = l.id
+              AND (s2.status = 'expired' OR s2."endDate" <= ${now})
+          )
+        RETURNING l.id, l."licenseKey"
+      `;
 
-    const updatedCount = typeof result === 'number' ? result : 0;
+      for (const license of rows) {
+        await WebhookService.emit('license.expired', {
+          licenseId: license.id,
+          licenseKey: license.licenseKey,
+          reason: 'subscription_ended',
+        }, tx);
+      }
+
+      if (rows.length > 0) {
+        await AuditService.record({
+          action: 'license.expire',
+          entityType: 'license',
+          metadata: { reason: 'subscription_ended', count: rows.length },
+          actor: { type: 'system' },
+        }, tx);
+      }
+
+      return rows;
+    });
+
+    OutboxService.kick();
+
+    const updatedCount = expired.length;
 
     if (updatedCount > 0) {
       logLicenseOperation('expiration', {
@@ -1616,7 +2096,7 @@ export class LicenseService {
           lt: now, // Trial has ended
         },
         payments: {
-          none: {}, // No payments made
+          none: STANDING_PAYMENT_WHERE, // No payments made (or all voided or refunded)
         },
         status: {
           notIn: ['expired', 'revoked'], // Not already expired or revoked
@@ -1634,7 +2114,36 @@ export class LicenseService {
     // Performance optimization: Batch update all licenses and subscriptions in a single transaction
     // This eliminates N+1 query problem (was: 1 query per license, now: 1 query total)
     const licenseIds = expiredTrials.map(l => l.id);
-    
+
+    // Recipients are resolved up front, outside the transaction
+    const notifications: Array<{ recipient: NotificationRecipient; data: ExpirationWhatsAppData }> = [];
+    for (const license of expiredTrials) {
+      const activeSubscription = license.subscriptions.find((sub) => sub.status === 'active') || license.subscriptions[0];
+      if (!activeSubscription) {
+        continue;
+      }
+
+      const recipient = await this.getNotificationRecipient(license);
+      if (!recipient) {
+        continue;
+      }
+
+      const daysRemaining = Math.ceil((activeSubscription.endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+      notifications.push({
+        recipient,
+        data: {
+          customerName: license.customerName,
+          customerPhone: license.customerPhone ?? '',
+          licenseKey: license.licenseKey,
+          locationName: license.locationName,
+          expirationDate: activeSubscription.endDate,
+          daysRemaining: Math.max(0, daysRemaining),
+          isFreeTrial: license.isFreeTrial,
+        },
+      });
+    }
+
+    // The status change, customer notifications and webhook events are committed together
     await prisma.$transaction(async (tx) => {
       // Update all licenses to expired in one query
       await tx.license.updateMany({
@@ -1655,60 +2164,34 @@ export class LicenseService {
           status: 'expired',
         },
       });
-    });
 
-    const expiredCount = expiredTrials.length;
+      for (const { recipient, data } of notifications) {
+        await OutboxService.enqueueNotification('expiration_notification', recipient, data, {
+          dedupeKey: `expiration_notification:${data.licenseKey}:${data.expirationDate.toISOString()}`,
+          tx,
+        });
+      }
 
-    // Performance optimization: Send WhatsApp messages asynchronously without blocking
-    // Fire and forget - don't wait for messages to complete before returning
-    // This allows the expiration process to complete immediately
-    const whatsappPromises = expiredTrials
-      .filter(license => license.customerPhone !== null && license.customerPhone !== undefined)
-      .map(async (license) => {
-        try {
-          const activeSubscription = license.subscriptions.find((sub) => sub.status === 'active') || license.subscriptions[0];
-          if (activeSubscription && license.customerPhone) {
-            const phone = license.customerPhone; // TypeScript now knows this is not null due to filter
-            
-            // Only send license-related messages to verified phone numbers
-            const isVerified = await PhoneVerificationService.hasPhoneBeenVerified(phone);
-            if (!isVerified) {
-              logger.info('Skipping expiration notification: phone number not verified', {
-                licenseId: license.id,
-                licenseKey: license.licenseKey,
-                customerPhone: phone,
-              });
-              return;
-            }
-
-            const daysRemaining = Math.ceil((activeSubscription.endDate.getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24));
-            await WhatsAppService.sendExpirationNotification({
-              customerName: license.customerName,
-              customerPhone: phone,
-              licenseKey: license.licenseKey,
-              locationName: license.locationName,
-              expirationDate: activeSubscription.endDate,
-              daysRemaining: Math.max(0, daysRemaining),
-              isFreeTrial: license.isFreeTrial,
-            });
-          }
-        } catch (error: unknown) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          logger.error('Failed to send expiration notification WhatsApp message', {
-            licenseId: license.id,
-            licenseKey: license.licenseKey,
-            error: errorMessage,
-          });
-        }
-      });
+      for (const license of expiredTrials) {
+        await WebhookService.emit('license.expired', {
+          licenseId: license.id,
+          licenseKey: license.licenseKey,
+          reason: 'free_trial_ended',
+        }, tx);
+      }
 
-    // Performance: Don't await - let WhatsApp messages send in background
-    // This prevents blocking the expiration process
-    // Use Promise.allSettled in background (fire and forget)
-    Promise.allSettled(whatsappPromises).catch((error) => {
-      logger.error('Error in background WhatsApp message sending', { error });
+      await AuditService.record({
+        action: 'license.expire',
+        entityType: 'license',
+        metadata: { reason: 'free_trial_ended', count: expiredTrials.length, licenseIds },
+        actor: { type: 'system' },
+      }, tx);
     });
 
+    const expiredCount = expiredTrials.length;
+
+    OutboxService.kick();
+
     if (expiredCount > 0) {
       logLicenseOperation('expiration', {
         operation: 'free_trial_expiration',
@@ -1720,11 +2203,48 @@ export class LicenseService {
   }
 
   /**
-   * Check for expiring licenses and send warning WhatsApp messages
-   * Sends warnings for licenses expiring in 3 days and 1 day
-   * @returns Promise<{ warningsSent: number }> Number of warning WhatsApp messages sent
+   * Notification recipient for a license's customer, or null when there is no usable address
+   * WhatsApp and SMS only go to verified phone numbers; email goes to the license's customer email
    */
-  static async sendExpirationWarnings(): Promise<{ warningsSent: number }> {
+  static async getNotificationRecipient(license: {
+    id: number;
+    licenseKey: string;
+    customerPhone: string | null;
+    customerEmail: string | null;
+    notificationChannels: string[];
+  }): Promise<NotificationRecipient | null> {
+    let phone: string | null = null;
+    if (license.customerPhone) {
+      // Only send license-related messages to verified phone numbers
+      if (await PhoneVerificationService.hasPhoneBeenVerified(license.customerPhone)) {
+        phone = license.customerPhone;
+      } else {
+        logger.info('Phone number not verified: notification limited to email', {
+          licenseId: license.id,
+          licenseKey: license.licenseKey,
+          customerPhone: license.customerPhone,
+        });
+      }
+    }
+
+    if (!phone && !license.customerEmail) {
+      logger.info('Skipping notification: no verified phone number or email', {
+        licenseId: license.id,
+        licenseKey: license.licenseKey,
+      });
+      return null;
+    }
+
+    return { phone, email: license.customerEmail, channels: license.notificationChannels };
+  }
+
+  /**
+   * Check for expiring licenses and queue warning notifications in the outbox
+   * Queues warnings for licenses expiring in 3 days and 1 day; each warning is queued once,
+   * so running this again the same day (e.g. after a restart) does not warn twice
+   * @returns Promise<{ warningsQueued: number }> Number of warning notifications queued
+   */
+  static async sendExpirationWarnings(): Promise<{ warningsQueued: number }> {
     const now = new Date();
     const threeDaysFromNow = new Date(now);
     threeDaysFromNow.setDate(threeDaysFromNow.getDate() + 3);
@@ -1738,9 +2258,10 @@ export class LicenseService {
     const expiringLicenses = await prisma.license.findMany({
       where: {
         status: 'active',
-        customerPhone: {
-          not: null,
-        },
+        OR: [
+          { customerPhone: { not: null } },
+          { customerEmail: { not: null } },
+        ],
         subscriptions: {
           some: {
             status: 'active',
@@ -1760,80 +2281,58 @@ export class LicenseService {
       },
     });
 
-    // Performance optimization: Send WhatsApp messages in parallel with concurrency limit
-    // This prevents overwhelming the WhatsApp service while still being much faster than sequential sending
-    const whatsappTasks = expiringLicenses
-      .map((license) => {
-        const activeSubscription = license.subscriptions.find((sub) => sub.status === 'active');
-        if (!activeSubscription || !license.customerPhone) {
-          return null;
-        }
+    let warningsQueued = 0;
 
-        const daysRemaining = Math.ceil((activeSubscription.endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-        
-        // Send warning for 3 days or 1 day remaining
-        if (daysRemaining === 3 || daysRemaining === 1) {
-          return async () => {
-            try {
-              // TypeScript: customerPhone is guaranteed to be non-null due to filter above
-              const phone = license.customerPhone!;
-              
-              // Only send license-related messages to verified phone numbers
-              const isVerified = await PhoneVerificationService.hasPhoneBeenVerified(phone);
-              if (!isVerified) {
-                logger.info('Skipping expiration warning: phone number not verified', {
-                  licenseId: license.id,
-                  licenseKey: license.licenseKey,
-                  customerPhone: phone,
-                });
-                return false;
-              }
-
-              const sent = await WhatsAppService.sendExpirationWarning({
-                customerName: license.customerName,
-                customerPhone: phone,
-                licenseKey: license.licenseKey,
-                locationName: license.locationName,
-                expirationDate: activeSubscription.endDate,
-                daysRemaining,
-                isFreeTrial: license.isFreeTrial,
-              });
-
-              if (sent) {
-                logger.info('Expiration warning WhatsApp message sent', {
-                  licenseId: license.id,
-                  licenseKey: license.licenseKey,
-                  daysRemaining,
-                });
-                return true;
-              }
-              return false;
-            } catch (error: unknown) {
-              const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-              logger.error('Failed to send expiration warning WhatsApp message', {
-                licenseId: license.id,
-                licenseKey: license.licenseKey,
-                error: errorMessage,
-              });
-              throw error;
-            }
-          };
+    for (const license of expiringLicenses) {
+      const activeSubscription = license.subscriptions.find((sub) => sub.status === 'active');
+      if (!activeSubscription) {
+        continue;
+      }
+
+      const daysRemaining = Math.ceil((activeSubscription.endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+
+      // Send warning for 3 days or 1 day remaining
+      if (daysRemaining !== 3 && daysRemaining !== 1) {
+        continue;
+      }
+
+      try {
+        const recipient = await this.getNotificationRecipient(license);
+        if (!recipient) {
+          continue;
         }
-        return null;
-      })
-      .filter((task): task is () => Promise<boolean> => task !== null);
 
-    // Execute WhatsApp tasks with concurrency limit of 5 (prevents overwhelming WhatsApp service)
-    const whatsappResults = await limitConcurrency(whatsappTasks, 5);
-    const warningsSent = whatsappResults.filter((r) => r.success && r.result === true).length;
+        const queued = await OutboxService.enqueueNotification('expiration_warning', recipient, {
+          customerName: license.customerName,
+          customerPhone: license.customerPhone ?? '',
+          licenseKey: license.licenseKey,
+          locationName: license.locationName,
+          expirationDate: activeSubscription.endDate,
+          daysRemaining,
+          isFreeTrial: license.isFreeTrial,
+        }, {
+          dedupeKey: `expiration_warning:${license.licenseKey}:${activeSubscription.endDate.toISOString()}:${daysRemaining}`,
+        });
+        if (queued) {
+          warningsQueued++;
+        }
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Failed to queue expiration warning notification', {
+          licenseId: license.id,
+          licenseKey: license.licenseKey,
+          error: errorMessage,
+        });
+      }
+    }
 
-    if (warningsSent > 0) {
-      logger.info('Expiration warnings batch completed', {
-        count: warningsSent,
+    if (warningsQueued > 0) {
+      logger.info('Expiration warnings queued', {
+        count: warningsQueued,
       });
     }
 
-    return { warningsSent };
+    return { warningsQueued };
   }
 }
 
@@ -0,0 +1,160 @@
+import crypto, { KeyObject } from 'crypto';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+
+export interface LicenseCertificatePayload {
+  licenseKey: string;
+  hardwareId: string;
+  userLimit: number;
+  version: string;
+  features: Array<{ feature: string; expiresAt: string | null }>; // Entitled features (expiresAt ISO 8601, null = no expiry)
+  expiresAt: string; // Subscription end date (ISO 8601)
+  validUntil: string; // End of the offline validation window (ISO 8601)
+  issuedAt: string; // ISO 8601
+}
+
+export interface IssueCertificateInput {
+  licenseKey: string;
+  hardwareId: string;
+  userLimit: number;
+  version: string;
+  expiresAt: Date;
+  entitlements?: Array<{ feature: string; expiresAt: Date | null }>;
+  issuedAt?: Date;
+}
+
+/**
+ * License Certificate Service
+ *
+ * Issues Ed25519-signed license certificates that the POS app can verify offline
+ * using only the server's public key.
+ *
+ * Certificate format: base64url(JSON payload) + "." + base64url(Ed25519 signature)
+ * The signature covers the encoded payload segment exactly as transmitted.
+ */
+export class LicenseCertificateService {
+  static readonly ALGORITHM = 'Ed25519';
+
+  private static privateKey: KeyObject | null = null;
+  private static publicKey: KeyObject | null = null;
+
+  /**
+   * Load the signing key pair from configuration
+   * Outside production an ephemeral key pair is generated when none is configured,
+   * so certificates issued in development do not survive a restart.
+   */
+  private static loadKeys(): { privateKey: KeyObject; publicKey: KeyObject } {
+    if (this.privateKey && this.publicKey) {
+      return { privateKey: this.privateKey, publicKey: this.publicKey };
+    }
+
+    if (config.licenseSigningPrivateKey.trim() !== '') {
+      const privateKey = crypto.createPrivateKey(config.licenseSigningPrivateKey);
+      if (privateKey.asymmetricKeyType !== 'ed25519') {
+        throw new Error('LICENSE_SIGNING_PRIVATE_KEY must be an Ed25519 private key');
+      }
+
+      this.privateKey = privateKey;
+      this.publicKey = config.licenseSigningPublicKey.trim() !== ''
+        ? crypto.createPublicKey(config.licenseSigningPublicKey)
+        : crypto.createPublicKey(privateKey);
+    } else {
+      if (config.nodeEnv === 'production') {
+        throw new Error('LICENSE_SIGNING_PRIVATE_KEY is not configured');
+      }
+
+      const keyPair = crypto.generateKeyPairSync('ed25519');
+      this.privateKey = keyPair.privateKey;
+      this.publicKey = keyPair.publicKey;
+
+      logger.warn('LICENSE_SIGNING_PRIVATE_KEY is not configured - using an ephemeral signing key', {
+        environment: config.nodeEnv,
+      });
+    }
+
+    return { privateKey: this.privateKey, publicKey: this.publicKey };
+  }
+
+  /**
+   * Calculate the end of the offline validation window
+   * The window is config.cacheValidityDays from issuance, capped at the subscription end date
+   */
+  static calculateValidUntil(issuedAt: Date, expiresAt: Date): Date {
+    const windowEnd = new Date(issuedAt);
+    windowEnd.setDate(windowEnd.getDate() + config.cacheValidityDays);
+    return windowEnd < expiresAt ? windowEnd : new Date(expiresAt);
+  }
+
+  /**
+   * Issue a signed license certificate for an activated device
+   * @param input License and device data to embed in the certificate
+   * @returns string Compact certificate (payload.signature)
+   */
+  static issueCertificate(input: IssueCertificateInput): string {
+    const { privateKey } = this.loadKeys();
+    const issuedAt = input.issuedAt || new Date();
+
+    const payload: LicenseCertificatePayload = {
+      licenseKey: input.licenseKey,
+      hardwareId: input.hardwareId,
+      userLimit: input.userLimit,
+      version: input.version,
+      features: (input.entitlements || []).map((entitlement) => ({
+        feature: entitlement.feature,
+        expiresAt: entitlement.expiresAt ? entitlement.expiresAt.toISOString() : null,
+      })),
+      expiresAt: input.expiresAt.toISOString(),
+      validUntil: this.calculateValidUntil(issuedAt, input.expiresAt).toISOString(),
+      issuedAt: issuedAt.toISOString(),
+    };
+
+    const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    const signature = crypto.sign(null, Buffer.from(encodedPayload), privateKey);
+
+    return `${encodedPayload}.${signature.toString('base64url')}`;
+  }
+
+  /**
+   * Verify a certificate signature and decode its payload
+   * Does not check validUntil - callers decide how to treat an elapsed offline window
+   * @param certificate Compact certificate (payload.signature)
+   * @returns LicenseCertificatePayload | null Decoded payload, or null if the signature is invalid
+   */
+  static verifyCertificate(certificate: string): LicenseCertificatePayload | null {
+    const { publicKey } = this.loadKeys();
+    const [encodedPayload, encodedSignature] = certificate.split('.');
+
+    if (!encodedPayload || !encodedSignature) {
+      return null;
+    }
+
+    try {
+      const isValid = crypto.verify(
+        null,
+        Buffer.from(encodedPayload),
+        publicKey,
+        Buffer.from(encodedSignature, 'base64url')
+      );
+
+      if (!isValid) {
+        return null;
+      }
+
+      return JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf-8')) as LicenseCertificatePayload;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get the public key used to verify certificates
+   * @returns { algorithm: string; publicKey: string } PEM encoded SPKI public key
+   */
+  static getPublicKey(): { algorithm: string; publicKey: string } {
+    const { publicKey } = this.loadKeys();
+    return {
+      algorithm: this.ALGORITHM,
+      publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    };
+  }
+}
@@ -0,0 +1,198 @@
+import { promises as fs } from 'fs';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { EmailService } from './email.service';
+import { SmsService } from './sms.service';
+import { ExpirationWhatsAppData, WhatsAppService } from './whatsapp.service';
+
+export const NOTIFICATION_CHANNELS = ['whatsapp', 'sms', 'email'] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+// Customer notification templates
+export const NOTIFICATION_TYPES = ['expiration_warning', 'expiration_notification'] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+export interface NotificationRecipient {
+  phone?: string | null; // Used by whatsapp and sms; leave empty when the phone is not verified
+  email?: string | null;
+  channels?: string[]; // Preferred channels in fallback order; empty = NOTIFICATION_CHANNEL_ORDER
+}
+
+export interface NotificationContent {
+  subject: string; // Email subject (other channels send the text only)
+  text: string;
+  html?: string;
+}
+
+export interface NotificationAttempt {
+  channel: NotificationChannel;
+  provider: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface NotificationResult {
+  success: boolean;
+  channel: NotificationChannel | null; // Channel that delivered the message
+  attempts: NotificationAttempt[]; // Empty when no channel was usable for the recipient
+}
+
+/**
+ * A way of delivering a message on one channel
+ */
+export interface NotificationProvider {
+  readonly name: string;
+  isAvailable(): boolean;
+  send(channel: NotificationChannel, to: string, content: NotificationContent): Promise<{ success: boolean; error?: string }>;
+}
+
+const whatsAppProvider: NotificationProvider = {
+  name: 'whatsapp',
+  isAvailable: () => config.whatsappEnabled,
+  send: (_channel, to, content) => WhatsAppService.sendText(to, content.text),
+};
+
+const smsProvider: NotificationProvider = {
+  name: 'twilio_sms',
+  isAvailable: () => SmsService.isConfigured(),
+  send: (_channel, to, content) => SmsService.send(to, content.text),
+};
+
+const emailProvider: NotificationProvider = {
+  name: 'smtp',
+  isAvailable: () => EmailService.isConfigured(),
+  send: (_channel, to, content) => EmailService.send({ to, subject: content.subject, text: content.text, html: content.html }),
+};
+
+// Development/test provider: logs every message and appends it as a JSON line to NOTIFICATION_LOG_FILE
+// Messages carry OTPs and credentials, so the driver is refused in production (see config.ts)
+const logProvider: NotificationProvider = {
+  name: 'log',
+  isAvailable: () => true,
+  send: async (channel, to, content) => {
+    const entry = { sentAt: new Date().toISOString(), channel, to, subject: content.subject, text: content.text };
+
+    logger.info('Notification logged instead of sent', entry);
+
+    if (config.notificationLogFile) {
+      try {
+        await fs.appendFile(config.notificationLogFile, `${JSON.stringify(entry)}\n`);
+      } catch (error: unknown) {
+        return { success: false, error: error instanceof Error ? error.message : 'Could not write notification log' };
+      }
+    }
+
+    return { success: true };
+  },
+};
+
+const LIVE_PROVIDERS: Record<NotificationChannel, NotificationProvider> = {
+  whatsapp: whatsAppProvider,
+  sms: smsProvider,
+  email: emailProvider,
+};
+
+/**
+ * Notification Service
+ *
+ * Sends customer notifications over WhatsApp, SMS or email:
+ * - Channels are tried in the recipient's preferred order (set per license), else NOTIFICATION_CHANNEL_ORDER
+ * - A channel is skipped when its provider is disabled or the recipient has no address for it,
+ *   and the next channel is tried when a send fails
+ * - With NOTIFICATION_DRIVER=log every channel is served by the log provider, so nothing is sent
+ */
+export class NotificationService {
+  /**
+   * Check whether a value is a known channel
+   */
+  static isChannel(value: string): value is NotificationChannel {
+    return (NOTIFICATION_CHANNELS as readonly string[]).includes(value);
+  }
+
+  /**
+   * Provider that delivers a channel under the configured driver
+   */
+  static getProvider(channel: NotificationChannel): NotificationProvider {
+    return config.notificationDriver === 'log' ? logProvider : LIVE_PROVIDERS[channel];
+  }
+
+  /**
+   * Channels to try for a recipient, in order
+   */
+  static resolveChannels(recipient: NotificationRecipient): NotificationChannel[] {
+    const preferred = recipient.channels && recipient.channels.length > 0
+      ? recipient.channels
+      : config.notificationChannelOrder;
+    return [...new Set(preferred.filter((channel): channel is NotificationChannel => this.isChannel(channel)))];
+  }
+
+  private static addressFor(channel: NotificationChannel, recipient: NotificationRecipient): string | null {
+    return (channel === 'email' ? recipient.email : recipient.phone) || null;
+  }
+
+  /**
+   * Build the subject and text of a customer notification
+   */
+  static render(type: NotificationType, data: ExpirationWhatsAppData): NotificationContent {
+    const licenseType = data.isFreeTrial ? 'free trial' : 'license';
+
+    switch (type) {
+      case 'expiration_warning':
+        return {
+          subject: `Your DigitalizePOS ${licenseType} expires in ${data.daysRemaining} ${data.daysRemaining === 1 ? 'day' : 'days'}`,
+          text: WhatsAppService.getExpirationWarningMessage(data),
+        };
+      case 'expiration_notification':
+        return {
+          subject: `Your DigitalizePOS ${licenseType} has expired`,
+          text: WhatsAppService.getExpirationNotificationMessage(data),
+        };
+    }
+  }
+
+  /**
+   * Send a message on the first channel that delivers it
+   * Never throws; check the result (no attempts = no usable channel for the recipient)
+   */
+  static async send(recipient: NotificationRecipient, content: NotificationContent): Promise<NotificationResult> {
+    const attempts: NotificationAttempt[] = [];
+
+    for (const channel of this.resolveChannels(recipient)) {
+      const to = this.addressFor(channel, recipient);
+      const provider = this.getProvider(channel);
+      if (!to || !provider.isAvailable()) {
+        continue;
+      }
+
+      let result: { success: boolean; error?: string };
+      try {
+        result = await provider.send(channel, to, content);
+      } catch (error: unknown) {
+        result = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+
+      attempts.push({ channel, provider: provider.name, success: result.success, error: result.error });
+
+      if (result.success) {
+        if (attempts.length > 1) {
+          logger.info('Notification delivered on fallback channel', { channel, attempts });
+        }
+        return { success: true, channel, attempts };
+      }
+
+      logger.warn('Notification channel failed, trying next channel', { channel, provider: provider.name, error: result.error });
+    }
+
+    if (attempts.length === 0) {
+      logger.warn('No notification channel available for recipient', {
+        channels: this.resolveChannels(recipient),
+        hasPhone: !!recipient.phone,
+        hasEmail: !!recipient.email,
+      });
+    }
+
+    return { success: false, channel: null, attempts };
+  }
+}
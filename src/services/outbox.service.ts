@@ -0,0 +1,472 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { AuditService } from './audit.service';
+import { EmailMessage, EmailService } from './email.service';
+import { InvoiceService } from './invoice.service';
+import { NotificationRecipient, NotificationService, NotificationType } from './notification.service';
+import { AdminLockoutWhatsAppData, ExpirationWhatsAppData, WhatsAppService } from './whatsapp.service';
+import { WebhookEventPayload, WebhookService } from './webhook.service';
+
+// notification = customer message sent on the first working channel (see NotificationService)
+export const OUTBOX_CHANNELS = ['notification', 'whatsapp', 'email', 'webhook'] as const;
+
+export type OutboxChannel = (typeof OUTBOX_CHANNELS)[number];
+
+export const OUTBOX_STATUSES = ['pending', 'sent', 'skipped', 'dead'] as const;
+
+export type OutboxStatus = (typeof OUTBOX_STATUSES)[number];
+
+// WhatsApp message types the worker knows how to send, and their payloads
+// (customer messages go through the notification channel instead, except invoices, which are only sent on WhatsApp)
+export interface WhatsAppOutboxPayloads {
+  admin_lockout_alert: AdminLockoutWhatsAppData;
+  invoice: { invoiceId: number; to: string };
+}
+
+export type WhatsAppOutboxType = keyof WhatsAppOutboxPayloads;
+
+export interface OutboxMessageInput {
+  channel: OutboxChannel;
+  type: string;
+  payload: Record<string, unknown>;
+  dedupeKey?: string;
+}
+
+export interface OutboxEnqueueOptions {
+  // Messages with a key already in the outbox are dropped, so re-running a job does not notify twice
+  dedupeKey?: string;
+  // Write the message in the caller's transaction, so it exists only if the domain change commits
+  tx?: Prisma.TransactionClient;
+}
+
+export interface OutboxMessageFilters {
+  channel?: string;
+  status?: string;
+  type?: string;
+}
+
+export interface OutboxStats {
+  byStatus: Record<OutboxStatus, number>;
+  byChannel: Record<string, Record<string, number>>;
+  retrying: number; // Pending messages that have already failed at least once
+  oldestPendingAt: Date | null;
+}
+
+/**
+ * Outbox Service
+ *
+ * Transactional outbox for side effects of domain changes (WhatsApp messages, emails, webhook events):
+ * - Messages are written with the change itself (pass the Prisma transaction), so a crash can no longer
+ *   lose a notification between the database write and the send
+ * - A worker dispatches due messages right after they are queued and every minute from the scheduler
+ * - Failures are retried with exponential backoff (1, 2, 4, ... minutes) until OUTBOX_MAX_ATTEMPTS,
+ *   then the message is dead-lettered for an admin to inspect and retry
+ * - Messages for a disabled channel (e.g. WHATSAPP_ENABLED=false) are marked skipped instead of retried;
+ *   a customer notification is skipped when none of its channels is usable
+ *
+ * Delivery is at-least-once: a crash after a send but before it is recorded repeats the send.
+ */
+export class OutboxService {
+  private static readonly RETRY_BASE_MS = 60 * 1000;
+  // A claimed message is not picked up again for this long, so concurrent workers do not send it twice
+  private static readonly CLAIM_LEASE_MS = 5 * 60 * 1000;
+  private static readonly BATCH_SIZE = 50;
+  private static readonly ERROR_LIMIT = 2000;
+  private static readonly SENT_RETENTION_DAYS = 30;
+
+  private static kickScheduled = false;
+
+  /**
+   * Queue a message
+   * Without a transaction the worker is started right away; with one, call kick() after it commits
+   * @returns false if a message with the same dedupe key was already queued
+   */
+  static async enqueue(input: OutboxMessageInput, tx?: Prisma.TransactionClient): Promise<boolean> {
+    const result = await (tx ?? prisma).outboxMessage.createMany({
+      data: [
+        {
+          channel: input.channel,
+          type: input.type,
+          payload: input.payload as unknown as Prisma.InputJsonValue,
+          dedupeKey: input.dedupeKey ?? null,
+        },
+      ],
+      // ON CONFLICT DO NOTHING, so a duplicate key does not abort the caller's transaction
+      skipDuplicates: true,
+    });
+
+    if (!tx && result.count > 0) {
+      this.kick();
+    }
+
+    return result.count > 0;
+  }
+
+  /**
+   * Queue a WhatsApp message
+   */
+  static async enqueueWhatsApp<T extends WhatsAppOutboxType>(
+    type: T,
+    data: WhatsAppOutboxPayloads[T],
+    options: OutboxEnqueueOptions = {}
+  ): Promise<boolean> {
+    return this.enqueue(
+      { channel: 'whatsapp', type, payload: { ...data } as unknown as Record<string, unknown>, dedupeKey: options.dedupeKey },
+      options.tx
+    );
+  }
+
+  /**
+   * Queue a customer notification, sent on the recipient's first working channel
+   */
+  static async enqueueNotification(
+    type: NotificationType,
+    recipient: NotificationRecipient,
+    data: ExpirationWhatsAppData,
+    options: OutboxEnqueueOptions = {}
+  ): Promise<boolean> {
+    return this.enqueue(
+      { channel: 'notification', type, payload: { recipient: { ...recipient }, data: { ...data } }, dedupeKey: options.dedupeKey },
+      options.tx
+    );
+  }
+
+  /**
+   * Queue an email
+   */
+  static async enqueueEmail(message: EmailMessage, options: OutboxEnqueueOptions = {}): Promise<boolean> {
+    return this.enqueue(
+      { channel: 'email', type: 'email', payload: { ...message }, dedupeKey: options.dedupeKey },
+      options.tx
+    );
+  }
+
+  /**
+   * Dispatch due messages in the background (coalesces calls made in the same tick)
+   */
+  static kick(): void {
+    if (this.kickScheduled) {
+      return;
+    }
+
+    this.kickScheduled = true;
+    setImmediate(() => {
+      this.kickScheduled = false;
+      this.processDueMessages().catch((error) => {
+        logger.error('Error in background outbox dispatch', { error });
+      });
+    });
+  }
+
+  /**
+   * Send one message through its channel
+   * @returns 'skipped' when the channel is disabled
+   * @throws Error when the send failed and should be retried
+   */
+  private static async dispatch(channel: string, type: string, payload: Record<string, unknown>): Promise<'sent' | 'skipped'> {
+    switch (channel) {
+      case 'notification':
+        return this.dispatchNotification(type, payload);
+      case 'whatsapp':
+        return this.dispatchWhatsApp(type, payload);
+      case 'email': {
+        if (!config.emailEnabled) {
+          return 'skipped';
+        }
+        const result = await EmailService.send(payload as unknown as EmailMessage);
+        if (!result.success) {
+          throw new Error(result.error || 'Email was not sent');
+        }
+        return 'sent';
+      }
+      case 'webhook':
+        await WebhookService.publish(payload as unknown as WebhookEventPayload);
+        return 'sent';
+      default:
+        throw new Error(`Unknown outbox channel: ${channel}`);
+    }
+  }
+
+  private static async dispatchNotification(type: string, payload: Record<string, unknown>): Promise<'sent' | 'skipped'> {
+    if (type !== 'expiration_warning' && type !== 'expiration_notification') {
+      throw new Error(`Unknown notification type: ${type}`);
+    }
+
+    // Dates come back from the JSON payload as ISO strings
+    const data = payload.data as ExpirationWhatsAppData;
+    const content = NotificationService.render(type, { ...data, expirationDate: new Date(data.expirationDate) });
+    const result = await NotificationService.send(payload.recipient as NotificationRecipient, content);
+
+    if (result.success) {
+      return 'sent';
+    }
+    if (result.attempts.length === 0) {
+      return 'skipped';
+    }
+    throw new Error(result.attempts.map((attempt) => `${attempt.channel}: ${attempt.error || 'failed'}`).join('; '));
+  }
+
+  private static async dispatchWhatsApp(type: string, payload: Record<string, unknown>): Promise<'sent' | 'skipped'> {
+    if (!config.whatsappEnabled) {
+      return 'skipped';
+    }
+
+    // Dates come back from the JSON payload as ISO strings
+    let sent: boolean;
+    switch (type) {
+      case 'admin_lockout_alert':
+        sent = await WhatsAppService.sendAdminLockoutAlert({
+          ...(payload as unknown as AdminLockoutWhatsAppData),
+          lockedUntil: new Date(payload.lockedUntil as string),
+        });
+        break;
+      case 'invoice': {
+        const invoice = await InvoiceService.getInvoice(payload.invoiceId as number);
+        if (!invoice) {
+          return 'skipped';
+        }
+        const result = await WhatsAppService.sendText(payload.to as string, InvoiceService.renderText(invoice));
+        if (!result.success) {
+          throw new Error(result.error || 'WhatsApp message was not sent');
+        }
+        sent = true;
+        break;
+      }
+      default:
+        throw new Error(`Unknown WhatsApp message type: ${type}`);
+    }
+
+    if (!sent) {
+      throw new Error('WhatsApp message was not sent');
+    }
+    return 'sent';
+  }
+
+  /**
+   * Make one dispatch attempt, if the message is still pending and due
+   * @returns Message status after the attempt, or null when another worker holds it or it is not due
+   */
+  private static async attemptMessage(messageId: number): Promise<OutboxStatus | null> {
+    const now = new Date();
+
+    // Claim the message by pushing nextAttemptAt past the lease
+    const claimed = await prisma.outboxMessage.updateMany({
+      where: { id: messageId, status: 'pending', nextAttemptAt: { lte: now } },
+      data: { nextAttemptAt: new Date(now.getTime() + this.CLAIM_LEASE_MS) },
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const message = await prisma.outboxMessage.findUnique({ where: { id: messageId } });
+    if (!message) {
+      return null;
+    }
+
+    const attempts = message.attempts + 1;
+    let status: OutboxStatus;
+    let errorMessage: string | null = null;
+
+    try {
+      status = await this.dispatch(message.channel, message.type, message.payload as Record<string, unknown>);
+    } catch (error: unknown) {
+      errorMessage = (error instanceof Error ? error.message : 'Dispatch failed').slice(0, this.ERROR_LIMIT);
+      status = attempts >= config.outboxMaxAttempts ? 'dead' : 'pending';
+    }
+
+    await prisma.outboxMessage.update({
+      where: { id: messageId },
+      data: {
+        status,
+        attempts,
+        lastAttemptAt: now,
+        lastError: errorMessage,
+        sentAt: status === 'sent' ? new Date() : null,
+        nextAttemptAt: status === 'pending'
+          ? new Date(Date.now() + this.RETRY_BASE_MS * 2 ** (attempts - 1))
+          : null,
+      },
+    });
+
+    const logContext = { messageId, channel: message.channel, type: message.type, attempts, error: errorMessage };
+    if (status === 'dead') {
+      logger.error('Outbox message dead-lettered after repeated failures', logContext);
+    } else if (status === 'pending') {
+      logger.warn('Outbox message dispatch failed, will retry', logContext);
+    } else if (status === 'skipped') {
+      logger.info('Outbox message skipped: channel disabled', logContext);
+    }
+
+    return status;
+  }
+
+  /**
+   * Dispatch pending messages that are due (run by the scheduler every minute)
+   */
+  static async processDueMessages(): Promise<{ attempted: number; sent: number; dead: number }> {
+    const due = await prisma.outboxMessage.findMany({
+      where: { status: 'pending', nextAttemptAt: { lte: new Date() } },
+      select: { id: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: this.BATCH_SIZE,
+    });
+
+    let attempted = 0;
+    let sent = 0;
+    let dead = 0;
+
+    for (const { id } of due) {
+      const status = await this.attemptMessage(id);
+      if (status === null) {
+        continue;
+      }
+      attempted++;
+      if (status === 'sent') {
+        sent++;
+      } else if (status === 'dead') {
+        dead++;
+      }
+    }
+
+    return { attempted, sent, dead };
+  }
+
+  /**
+   * Get outbox messages with pagination, newest first
+   */
+  static async getMessagesPaginated(
+    options: OutboxMessageFilters & { page?: number; pageSize?: number } = {}
+  ) {
+    const page = options.page || 1;
+    const pageSize = Math.min(Math.max(options.pageSize || 20, 1), 100);
+
+    const where: Prisma.OutboxMessageWhereInput = {};
+    if (options.channel) {
+      where.channel = options.channel;
+    }
+    if (options.status) {
+      where.status = options.status;
+    }
+    if (options.type) {
+      where.type = options.type;
+    }
+
+    const [totalItems, data] = await Promise.all([
+      prisma.outboxMessage.count({ where }),
+      prisma.outboxMessage.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    const totalPages = Math.ceil(totalItems / pageSize);
+
+    return {
+      data,
+      pagination: {
+        page,
+        pageSize,
+        totalItems,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Get an outbox message by ID
+   */
+  static async getMessage(id: number) {
+    return prisma.outboxMessage.findUnique({ where: { id } });
+  }
+
+  /**
+   * Message counts by status and channel, for spotting a stuck queue
+   */
+  static async getStats(): Promise<OutboxStats> {
+    const [groups, retrying, oldestPending] = await Promise.all([
+      prisma.outboxMessage.groupBy({
+        by: ['channel', 'status'],
+        _count: { _all: true },
+      }),
+      prisma.outboxMessage.count({ where: { status: 'pending', attempts: { gt: 0 } } }),
+      prisma.outboxMessage.findFirst({
+        where: { status: 'pending' },
+        orderBy: { createdAt: 'asc' },
+        select: { createdAt: true },
+      }),
+    ]);
+
+    const byStatus = Object.fromEntries(OUTBOX_STATUSES.map((status) => [status, 0])) as Record<OutboxStatus, number>;
+    const byChannel: Record<string, Record<string, number>> = {};
+
+    for (const group of groups) {
+      const count = group._count._all;
+      byStatus[group.status as OutboxStatus] = (byStatus[group.status as OutboxStatus] || 0) + count;
+      byChannel[group.channel] = { ...byChannel[group.channel], [group.status]: count };
+    }
+
+    return {
+      byStatus,
+      byChannel,
+      retrying,
+      oldestPendingAt: oldestPending?.createdAt ?? null,
+    };
+  }
+
+  /**
+   * Put a dead-lettered or skipped message back in the queue with a fresh set of attempts
+   * @throws Error if the message does not exist or is not dead or skipped
+   */
+  static async retryMessage(id: number) {
+    const existing = await prisma.outboxMessage.findUnique({
+      where: { id },
+      select: { id: true, status: true, attempts: true },
+    });
+
+    if (!existing) {
+      throw new Error(`Outbox message with ID ${id} not found`);
+    }
+
+    if (existing.status !== 'dead' && existing.status !== 'skipped') {
+      throw new Error(`Only dead or skipped messages can be retried (message is ${existing.status})`);
+    }
+
+    const message = await prisma.outboxMessage.update({
+      where: { id },
+      data: { status: 'pending', attempts: 0, nextAttemptAt: new Date(), lastError: null },
+    });
+
+    logger.info('Outbox message requeued', { messageId: id, previousStatus: existing.status });
+
+    await AuditService.record({
+      action: 'outbox_message.retry',
+      entityType: 'outbox_message',
+      entityId: id,
+      before: { status: existing.status, attempts: existing.attempts },
+      after: { status: 'pending', attempts: 0 },
+    });
+
+    this.kick();
+
+    return message;
+  }
+
+  /**
+   * Delete sent and skipped messages older than the retention period
+   * @returns Number of messages deleted
+   */
+  static async purgeOldMessages(): Promise<number> {
+    const cutoff = new Date(Date.now() - this.SENT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const result = await prisma.outboxMessage.deleteMany({
+      where: { status: { in: ['sent', 'skipped'] }, createdAt: { lt: cutoff } },
+    });
+    return result.count;
+  }
+}
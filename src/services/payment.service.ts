@@ -1,16 +1,80 @@
+import { Prisma } from '@prisma/client';
 import prisma from '../config/database';
 import { Decimal } from '@prisma/client/runtime/library';
 import { logger } from '../utils/logger';
+import { cacheService, CacheKeys } from '../utils/cache.util';
 import { config } from '../config/config';
+import { AuditService } from './audit.service';
+import { WebhookService } from './webhook.service';
+import { OutboxService } from './outbox.service';
+import { InvoiceService } from './invoice.service';
+import { ExchangeRateService } from './exchangeRate.service';
+import { ProductService } from './product.service';
+
+// "payment" is money received; "refund" (part or all of a payment returned) and "void" (a payment recorded by
+// mistake) are negative entries against the payment they reverse, so ledger sums are net revenue
+export const PAYMENT_KINDS = ['payment', 'refund', 'void'] as const;
+
+export type PaymentKind = (typeof PAYMENT_KINDS)[number];
+
+// Statuses of "payment" entries (refund and void entries are always "completed")
+export const PAYMENT_STATUSES = ['completed', 'partially_refunded', 'refunded', 'voided'] as const;
+
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number];
+
+// Payments still in force: money received that was not voided or refunded in full
+export const STANDING_PAYMENT_WHERE: Prisma.PaymentWhereInput = {
+  kind: 'payment',
+  status: { in: ['completed', 'partially_refunded'] },
+};
+
+/**
+ * License and subscription changes made by a payment, recorded so that reversing the payment can undo them
+ */
+export interface PaymentSideEffects {
+  convertedFreeTrial?: { freeTrialEndDate: string | null };
+  initialPrice?: { before: string; after: string };
+  userLimitIncrement?: number;
+  subscription?: {
+    id: number;
+    created: boolean;
+    before: {
+      startDate: string;
+      endDate: string;
+      status: string;
+      gracePeriodEnd: string | null;
+      annualFee: string;
+      currency: string;
+    } | null;
+    endDate: string; // End date the payment set; the subscription is only restored while it still ends then
+  };
+}
+
+export interface ReversePaymentInput {
+  amount?: number; // Refunds only: defaults to everything not refunded yet
+  reason?: string;
+  revertSideEffects?: boolean; // Undo the license and subscription changes the payment made
+}
 
 export interface PaymentWithLicense {
   id: number;
   licenseId: number;
   amount: Decimal;
+  currency: string;
   paymentDate: Date;
   isAnnualSubscription: boolean;
   paymentType: 'initial' | 'annual' | 'user';
+  kind: PaymentKind;
+  status: PaymentStatus;
+  reversesPaymentId: number | null;
+  reason: string | null;
+  additionalUsers: number;
+  stripePaymentIntentId: string | null;
   createdAt: Date;
+  invoice: {
+    id: number;
+    number: string;
+  } | null;
   license: {
     id: number;
     licenseKey: string;
@@ -37,6 +101,7 @@ export class PaymentService {
     startDate?: Date;
     endDate?: Date;
     isAnnualSubscription?: boolean;
+    kind?: PaymentKind;
     sortBy?: string;
     sortOrder?: 'asc' | 'desc';
   }): Promise<{
@@ -56,7 +121,10 @@ export class PaymentService {
       startDate?: Date;
       endDate?: Date;
       isAnnualSubscription?: boolean;
-      totalAmount?: number;
+      kind?: PaymentKind;
+      totalAmount?: number; // In the reporting currency, net of refunds and voids
+      currency?: string;
+      unconvertedPayments?: number; // Payments left out of totalAmount because no exchange rate was in effect on their date
     };
   }> {
     const page = Math.max(1, params.page || 1);
@@ -76,6 +144,10 @@ export class PaymentService {
       where.isAnnualSubscription = params.isAnnualSubscription;
     }
 
+    if (params.kind) {
+      where.kind = params.kind;
+    }
+
     // Filter by date range
     if (params.startDate || params.endDate) {
       where.paymentDate = {} as { gte?: Date; lte?: Date };
@@ -113,16 +185,14 @@ export class PaymentService {
               locationName: true,
             },
           },
+          invoice: {
+            select: { id: true, number: true },
+          },
         },
       }),
       prisma.payment.count({ where }),
       // Calculate total amount for filtered results
-      prisma.payment.aggregate({
-        where,
-        _sum: {
-          amount: true,
-        },
-      }),
+      this.sumInReportingCurrency(params),
     ]);
 
     // Calculate pagination metadata
@@ -130,11 +200,6 @@ export class PaymentService {
     const hasNextPage = page < totalPages;
     const hasPreviousPage = page > 1;
 
-    // Convert total amount to number
-    const totalAmount = totalAmountResult._sum.amount
-      ? parseFloat(totalAmountResult._sum.amount.toString())
-      : 0;
-
     return {
       data: payments as PaymentWithLicense[],
       pagination: {
@@ -152,7 +217,10 @@ export class PaymentService {
         startDate: params.startDate,
         endDate: params.endDate,
         isAnnualSubscription: params.isAnnualSubscription,
-        totalAmount,
+        kind: params.kind,
+        totalAmount: totalAmountResult.total,
+        currency: config.reportingCurrency,
+        unconvertedPayments: totalAmountResult.unconverted,
       },
     };
   }
@@ -175,6 +243,36 @@ export class PaymentService {
             locationName: true,
           },
         },
+        invoice: {
+          select: { id: true, number: true },
+        },
+      },
+    });
+
+    return payment as PaymentWithLicense | null;
+  }
+
+  /**
+   * Get the payment recorded for a Stripe payment intent
+   * @param stripePaymentIntentId Stripe payment intent ID (pi_...)
+   * @returns Promise<PaymentWithLicense | null> Payment details
+   */
+  static async getPaymentByStripePaymentIntentId(stripePaymentIntentId: string): Promise<PaymentWithLicense | null> {
+    const payment = await prisma.payment.findUnique({
+      where: { stripePaymentIntentId },
+      include: {
+        license: {
+          select: {
+            id: true,
+            licenseKey: true,
+            customerName: true,
+            customerPhone: true,
+            locationName: true,
+          },
+        },
+        invoice: {
+          select: { id: true, number: true },
+        },
       },
     });
 
@@ -183,6 +281,8 @@ export class PaymentService {
 
   /**
    * Get payment statistics
+   * Amounts are in the reporting currency, each payment converted at the rate in effect on its payment date.
+   * Amounts are net of refunds and voids; counts leave out voided payments and the refund and void entries
    * @param params Optional date range filter
    * @returns Promise<Payment statistics>
    */
@@ -192,12 +292,16 @@ export class PaymentService {
     licenseId?: number;
   }): Promise<{
     totalPayments: number;
+    currency: string;
     totalAmount: number;
     averageAmount: number;
     annualSubscriptionPayments: number;
     initialLicensePayments: number;
     totalAnnualAmount: number;
     totalInitialAmount: number;
+    refundCount: number;
+    totalRefundedAmount: number;
+    unconvertedPayments: number; // Payments left out of the amounts because no exchange rate was in effect on their date
   }> {
     const where: Record<string, unknown> = {};
 
@@ -217,56 +321,149 @@ export class PaymentService {
       }
     }
 
-    const [
-      totalCount,
-      totalAmountResult,
-      annualCount,
-      initialCount,
-      annualAmountResult,
-      initialAmountResult,
-    ] = await Promise.all([
-      prisma.payment.count({ where }),
-      prisma.payment.aggregate({
-        where,
-        _sum: { amount: true },
-      }),
+    const counted = { ...where, kind: 'payment', status: { not: 'voided' } };
+
+    const [totalCount, annualCount, initialCount, refundCount, amounts] = await Promise.all([
+      prisma.payment.count({ where: counted }),
       prisma.payment.count({
-        where: { ...where, isAnnualSubscription: true },
+        where: { ...counted, isAnnualSubscription: true },
       }),
       prisma.payment.count({
-        where: { ...where, isAnnualSubscription: false },
+        where: { ...counted, isAnnualSubscription: false },
       }),
-      prisma.payment.aggregate({
-        where: { ...where, isAnnualSubscription: true },
-        _sum: { amount: true },
-      }),
-      prisma.payment.aggregate({
-        where: { ...where, isAnnualSubscription: false },
-        _sum: { amount: true },
+      prisma.payment.count({
+        where: { ...where, kind: 'refund' },
       }),
+      this.sumInReportingCurrency(params ?? {}),
     ]);
 
-    const totalAmount = totalAmountResult._sum.amount
-      ? parseFloat(totalAmountResult._sum.amount.toString())
-      : 0;
-    const annualAmount = annualAmountResult._sum.amount
-      ? parseFloat(annualAmountResult._sum.amount.toString())
-      : 0;
-    const initialAmount = initialAmountResult._sum.amount
-      ? parseFloat(initialAmountResult._sum.amount.toString())
-      : 0;
+    const convertedCount = totalCount - amounts.unconverted;
 
     return {
       totalPayments: totalCount,
-      totalAmount,
-      averageAmount: totalCount > 0 ? totalAmount / totalCount : 0,
+      currency: config.reportingCurrency,
+      totalAmount: amounts.total,
+      averageAmount: convertedCount > 0 ? amounts.total / convertedCount : 0,
       annualSubscriptionPayments: annualCount,
       initialLicensePayments: initialCount,
-      totalAnnualAmount: annualAmount,
-      totalInitialAmount: initialAmount,
+      totalAnnualAmount: amounts.annual,
+      totalInitialAmount: amounts.initial,
+      refundCount,
+      totalRefundedAmount: amounts.refunded,
+      unconvertedPayments: amounts.unconverted,
     };
   }
 
+  /**
+   * Sum payment amounts in the reporting currency, converting each at the rate in effect on its payment date
+   * Takes the same filters as getPaymentsPaginated (endDate covers the whole day). Refund and void entries are
+   * negative, so the sums are net; refunded is the refunds' total as a positive amount
+   */
+  private static async sumInReportingCurrency(filters: {
+    licenseId?: number;
+    isAnnualSubscription?: boolean;
+    kind?: PaymentKind;
+    startDate?: Date;
+    endDate?: Date;
+  }): Promise<{ total: number; annual: number; initial: number; refunded: number; unconverted: number }> {
+    const conditions: Prisma.Sql[] = [];
+    if (filters.licenseId) {
+      conditions.push(Prisma.sql`p."licenseId" = ${filters.licenseId}`);
+    }
+    if (filters.isAnnualSubscription !== undefined) {
+      conditions.push(Prisma.sql`p."isAnnualSubscription" = ${filters.isAnnualSubscription}`);
+    }
+    if (filters.kind) {
+      conditions.push(Prisma.sql`p.kind = ${filters.kind}`);
+    }
+    if (filters.startDate) {
+      conditions.push(Prisma.sql`p."paymentDate" >= ${filters.startDate}`);
+    }
+    if (filters.endDate) {
+      const endDate = new Date(filters.endDate);
+      endDate.setHours(23, 59, 59, 999);
+      conditions.push(Prisma.sql`p."paymentDate" <= ${endDate}`);
+    }
+    const whereSql = conditions.length > 0 ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}` : Prisma.empty;
+
+    const [row] = await prisma.$queryRaw<Array<{
+      total: string;
+      annual: string;
+      initial: string;
+      refunded: string;
+      unconverted: bigint;
+    }>>`
+      SELECT
+        COALESCE(SUM(amount), 0)::text as total,
+        COALESCE(SUM(amount) FILTER (WHERE "isAnnualSubscription" = true), 0)::text as annual,
+        COALESCE(SUM(amount) FILTER (WHERE "isAnnualSubscription" = false), 0)::text as initial,
+        COALESCE(-SUM(amount) FILTER (WHERE kind = 'refund'), 0)::text as refunded,
+        COUNT(*) FILTER (WHERE amount IS NULL)::bigint as unconverted
+      FROM (
+        SELECT p."isAnnualSubscription", p.kind, ${ExchangeRateService.convertedAmountSql(config.reportingCurrency)} as amount
+        FROM "Payment" p
+        ${whereSql}
+      ) converted
+    `;
+
+    return {
+      total: parseFloat(row.total),
+      annual: parseFloat(row.annual),
+      initial: parseFloat(row.initial),
+      refunded: parseFloat(row.refunded),
+      unconverted: Number(row.unconverted),
+    };
+  }
+
+  /**
+   * Check that a payment of the given type can be taken for a license
+   * Shared by manual payments and Stripe Checkout, so a customer is never charged for a payment that would be rejected
+   * @throws Error describing why the payment is not allowed
+   */
+  static assertPaymentAllowed(
+    paymentType: 'initial' | 'annual' | 'user',
+    license: { status: string; isFreeTrial: boolean; hasInitialPayment: boolean }
+  ): void {
+    // Block adding initial payment if license already has one
+    if (paymentType === 'initial' && license.hasInitialPayment) {
+      throw new Error('Initial payment already exists for this license. Please add an annual subscription payment or user payment instead.');
+    }
+
+    // Block user payments if initial payment not paid
+    if (paymentType === 'user' && !license.hasInitialPayment) {
+      throw new Error('Initial payment not paid yet. Please make an initial payment first before adding user payments.');
+    }
+
+    // Block user payments if license is expired
+    if (paymentType === 'user' && license.status === 'expired') {
+      throw new Error('Cannot add user payments for expired licenses. Please renew the license first.');
+    }
+
+    // If this is an annual payment and license is in free trial, check if initial payment was made
+    if (paymentType === 'annual' && license.isFreeTrial && !license.hasInitialPayment) {
+      throw new Error('Initial payment not paid yet. Please make an initial payment first before adding annual subscription payments.');
+    }
+  }
+
+  /**
+   * Annual fee charged to renew a license
+   * Uses the annual price of the license's catalog edition (ANNUAL_SUBSCRIPTION_PRICE when the product is not in the catalog);
+   * licenses priced in another currency than the catalog keep their current fee
+   * Shared by manual payments and Stripe Checkout, so both charge the same amount
+   */
+  static async getRenewalFee(license: {
+    editionId: number | null;
+    version: string;
+    currency: string;
+    subscriptions: Array<{ annualFee: Decimal }>;
+  }): Promise<Decimal> {
+    const edition = await ProductService.getRulesForLicense(license);
+    const catalogPrice = new Decimal(edition?.annualPrice ?? config.annualSubscriptionPrice);
+    const catalogCurrency = edition?.currency ?? config.defaultCurrency;
+
+    return license.currency === catalogCurrency ? catalogPrice : license.subscriptions[0]?.annualFee ?? catalogPrice;
+  }
+
   /**
    * Create a new payment manually
    * If isAnnualSubscription is true, automatically renews the subscription
@@ -280,7 +477,23 @@ export class PaymentService {
     isAnnualSubscription: boolean;
     paymentType?: 'initial' | 'annual' | 'user';
     additionalUsers?: number;
+    prorated?: { remainingDays: number; termDays: number }; // User payments charged for part of the term
+    currency?: string; // Defaults to the license currency
+    stripePaymentIntentId?: string;
+    sendInvoice?: boolean; // Send the invoice over WhatsApp (defaults to INVOICE_WHATSAPP_ENABLED)
   }): Promise<PaymentWithLicense> {
+    // Stripe redelivers webhook events, so a payment intent that is already recorded is returned as-is
+    if (input.stripePaymentIntentId) {
+      const existing = await this.getPaymentByStripePaymentIntentId(input.stripePaymentIntentId);
+      if (existing) {
+        logger.info('Stripe payment already recorded', {
+          paymentId: existing.id,
+          stripePaymentIntentId: input.stripePaymentIntentId,
+        });
+        return existing;
+      }
+    }
+
     // Verify license exists
     const license = await prisma.license.findUnique({
       where: { id: input.licenseId },
@@ -294,6 +507,7 @@ export class PaymentService {
         payments: {
           where: {
             isAnnualSubscription: false,
+            ...STANDING_PAYMENT_WHERE,
           },
         },
       },
@@ -308,6 +522,10 @@ export class PaymentService {
       throw new Error('Payment amount must be 0 or greater');
     }
 
+    const currency = input.currency ? ExchangeRateService.normalizeCurrency(input.currency) : license.currency;
+
+    const renewalFee = await this.getRenewalFee(license);
+
     // Determine payment type
     // Explicitly use input.paymentType if provided, otherwise determine from isAnnualSubscription
     let paymentType: 'initial' | 'annual' | 'user';
@@ -329,31 +547,11 @@ export class PaymentService {
       paymentType = input.isAnnualSubscription ? 'annual' : 'initial';
     }
     
-    // Check if license already has an initial payment
-    const hasInitialPayment = license.payments && license.payments.length > 0;
-    const isExpired = license.status === 'expired';
-
-    // Block adding initial payment if license already has one
-    if (paymentType === 'initial' && hasInitialPayment) {
-      throw new Error('Initial payment already exists for this license. Please add an annual subscription payment or user payment instead.');
-    }
-
-    // Block user payments if initial payment not paid
-    if (paymentType === 'user' && !hasInitialPayment) {
-      throw new Error('Initial payment not paid yet. Please make an initial payment first before adding user payments.');
-    }
-
-    // Block user payments if license is expired
-    if (paymentType === 'user' && isExpired) {
-      throw new Error('Cannot add user payments for expired licenses. Please renew the license first.');
-    }
-
-    // If this is an annual payment and license is in free trial, check if initial payment was made
-    if (paymentType === 'annual' && license.isFreeTrial) {
-      if (!hasInitialPayment) {
-        throw new Error('Initial payment not paid yet. Please make an initial payment first before adding annual subscription payments.');
-      }
-    }
+    this.assertPaymentAllowed(paymentType, {
+      status: license.status,
+      isFreeTrial: license.isFreeTrial,
+      hasInitialPayment: license.payments && license.payments.length > 0,
+    });
 
     // Log payment type for debugging
     logger.info('Creating payment with type', {
@@ -371,9 +569,12 @@ export class PaymentService {
       const paymentData = {
         licenseId: input.licenseId,
         amount: new Decimal(input.amount),
+        currency,
         paymentDate: input.paymentDate || new Date(),
         isAnnualSubscription: input.isAnnualSubscription,
         paymentType: paymentType as 'initial' | 'annual' | 'user',
+        additionalUsers: input.additionalUsers && input.additionalUsers > 0 ? input.additionalUsers : 0,
+        stripePaymentIntentId: input.stripePaymentIntentId,
       };
       
       logger.info('Payment data being saved', {
@@ -392,11 +593,13 @@ export class PaymentService {
 
       // Prepare license update data
       const licenseUpdateData: Record<string, unknown> = {};
+      const sideEffects: PaymentSideEffects = {};
       
       // If license is in free trial, convert it to paid license
       if (license.isFreeTrial) {
         licenseUpdateData.isFreeTrial = false;
         licenseUpdateData.freeTrialEndDate = null;
+        sideEffects.convertedFreeTrial = { freeTrialEndDate: license.freeTrialEndDate?.toISOString() ?? null };
         
         logger.info('Converting free trial license to paid license', {
           licenseId: input.licenseId,
@@ -406,8 +609,10 @@ export class PaymentService {
       
       // If this is an initial payment AND license is NOT a free trial, update the initial price
       // For free trials, keep the original initial price as set during license creation
-      if (paymentType === 'initial' && !license.isFreeTrial) {
+      // (and for payments in another currency, which would change the price's meaning)
+      if (paymentType === 'initial' && !license.isFreeTrial && currency === license.currency) {
         licenseUpdateData.initialPrice = new Decimal(input.amount);
+        sideEffects.initialPrice = { before: license.initialPrice.toString(), after: new Decimal(input.amount).toString() };
         
         logger.info('Updating license initial price from initial payment', {
           licenseId: input.licenseId,
@@ -429,6 +634,7 @@ export class PaymentService {
         licenseUpdateData.userLimit = {
           increment: input.additionalUsers,
         };
+        sideEffects.userLimitIncrement = input.additionalUsers;
         
         logger.info('Incrementing user limit from payment', {
           licenseId: input.licenseId,
@@ -440,6 +646,7 @@ export class PaymentService {
       }
 
       // Handle subscription updates based on payment type
+      // (user payments pay for users within the current term and leave the subscription as it is)
       const latestSubscription = license.subscriptions[0];
       
       if (paymentType === 'annual') {
@@ -462,9 +669,16 @@ export class PaymentService {
               endDate,
               status: 'active',
               gracePeriodEnd,
-              annualFee: new Decimal(config.annualSubscriptionPrice),
+              annualFee: renewalFee,
+              currency: license.currency,
             },
           });
+          sideEffects.subscription = {
+            id: latestSubscription.id,
+            created: false,
+            before: this.toSubscriptionSnapshot(latestSubscription),
+            endDate: endDate.toISOString(),
+          };
           
           logger.info('Subscription automatically renewed via annual payment', {
             subscriptionId: latestSubscription.id,
@@ -482,16 +696,18 @@ export class PaymentService {
           // Grace period end always equals endDate (no grace period)
           const gracePeriodEnd = new Date(endDate);
           
-          await tx.subscription.create({
+          const createdSubscription = await tx.subscription.create({
             data: {
               licenseId: input.licenseId,
               startDate,
               endDate,
               status: 'active',
-              annualFee: new Decimal(config.annualSubscriptionPrice),
+              annualFee: renewalFee,
+              currency: license.currency,
               gracePeriodEnd,
             },
           });
+          sideEffects.subscription = { id: createdSubscription.id, created: true, before: null, endDate: endDate.toISOString() };
           
           logger.info('New subscription created via annual payment', {
             licenseId: input.licenseId,
@@ -499,7 +715,7 @@ export class PaymentService {
             endDate,
           });
         }
-      } else {
+      } else if (paymentType === 'initial') {
         // Initial payment (not annual subscription) - convert free trial to full license
         // Extend subscription to 1 year from now
         if (latestSubscription) {
@@ -522,9 +738,16 @@ export class PaymentService {
               endDate,
               status: 'active',
               gracePeriodEnd,
-              annualFee: new Decimal(config.annualSubscriptionPrice),
+              annualFee: renewalFee,
+              currency: license.currency,
             },
           });
+          sideEffects.subscription = {
+            id: latestSubscription.id,
+            created: false,
+            before: this.toSubscriptionSnapshot(latestSubscription),
+            endDate: endDate.toISOString(),
+          };
           
           logger.info('Subscription extended via initial payment', {
             subscriptionId: latestSubscription.id,
@@ -542,16 +765,18 @@ export class PaymentService {
           // Grace period end always equals endDate (no grace period)
           const gracePeriodEnd = new Date(endDate);
           
-          await tx.subscription.create({
+          const createdSubscription = await tx.subscription.create({
             data: {
               licenseId: input.licenseId,
               startDate,
               endDate,
               status: 'active',
-              annualFee: new Decimal(config.annualSubscriptionPrice),
+              annualFee: renewalFee,
+              currency: license.currency,
               gracePeriodEnd,
             },
           });
+          sideEffects.subscription = { id: createdSubscription.id, created: true, before: null, endDate: endDate.toISOString() };
           
           logger.info('New subscription created via initial payment', {
             licenseId: input.licenseId,
@@ -570,6 +795,20 @@ export class PaymentService {
         });
       }
 
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: { sideEffects: sideEffects as Prisma.InputJsonValue },
+      });
+
+      // Issue the invoice in the same transaction, so its number is only used if the payment commits
+      const invoice = await InvoiceService.createForPayment(tx, payment.id, {
+        additionalUsers: paymentType === 'user' ? input.additionalUsers : undefined,
+        prorated: paymentType === 'user' ? input.prorated : undefined,
+      });
+      if (input.sendInvoice ?? config.invoiceWhatsAppEnabled) {
+        await InvoiceService.queueWhatsApp(invoice, tx);
+      }
+
       // Return payment with license details
       const paymentWithLicense = await tx.payment.findUnique({
         where: { id: payment.id },
@@ -583,6 +822,9 @@ export class PaymentService {
               locationName: true,
             },
           },
+          invoice: {
+            select: { id: true, number: true },
+          },
         },
       });
 
@@ -590,9 +832,48 @@ export class PaymentService {
         throw new Error('Failed to retrieve created payment');
       }
 
-      return paymentWithLicense;
+      await WebhookService.emit('payment.created', {
+        paymentId: paymentWithLicense.id,
+        licenseId: paymentWithLicense.licenseId,
+        licenseKey: paymentWithLicense.license.licenseKey,
+        amount: paymentWithLicense.amount.toString(),
+        currency: paymentWithLicense.currency,
+        paymentDate: paymentWithLicense.paymentDate,
+        paymentType: paymentWithLicense.paymentType,
+        isAnnualSubscription: paymentWithLicense.isAnnualSubscription,
+        additionalUsers: input.additionalUsers ?? 0,
+        stripePaymentIntentId: paymentWithLicense.stripePaymentIntentId,
+        invoiceNumber: paymentWithLicense.invoice?.number ?? null,
+      }, tx);
+
+      await AuditService.record({
+        action: 'payment.create',
+        entityType: 'payment',
+        entityId: paymentWithLicense.id,
+        after: AuditService.snapshot(paymentWithLicense, ['licenseId', 'amount', 'currency', 'paymentDate', 'isAnnualSubscription', 'paymentType', 'stripePaymentIntentId']),
+        metadata: {
+          licenseKey: paymentWithLicense.license.licenseKey,
+          additionalUsers: input.additionalUsers ?? 0,
+          convertedFromFreeTrial: license.isFreeTrial,
+          invoiceNumber: paymentWithLicense.invoice?.number,
+        },
+      }, tx);
+
+      return paymentWithLicense as PaymentWithLicense;
+    }).catch(async (error: unknown) => {
+      // A concurrent delivery of the same Stripe event recorded the payment first
+      const errorWithCode = error as { code?: string };
+      if (input.stripePaymentIntentId && errorWithCode.code === 'P2002') {
+        const existing = await this.getPaymentByStripePaymentIntentId(input.stripePaymentIntentId);
+        if (existing) {
+          return existing;
+        }
+      }
+      throw error;
     });
 
+    OutboxService.kick();
+
     logger.info('Payment created', {
       paymentId: payment.id,
       licenseId: input.licenseId,
@@ -603,5 +884,303 @@ export class PaymentService {
 
     return payment as PaymentWithLicense;
   }
+
+  /**
+   * Check whether a license has an initial payment in force (not voided or refunded in full)
+   * @param tx Check inside a transaction
+   */
+  static async hasInitialPayment(licenseId: number, tx?: Prisma.TransactionClient): Promise<boolean> {
+    const count = await (tx ?? prisma).payment.count({
+      where: { licenseId, isAnnualSubscription: false, ...STANDING_PAYMENT_WHERE },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Refund part or all of a payment
+   * Records a negative "refund" entry dated now and issues a credit note; the money itself is returned outside the
+   * server. The license and subscription changes the payment made are only undone on request, once fully refunded
+   * @param id Payment ID
+   * @param input Amount (defaults to everything not refunded yet), reason and whether to undo the payment's changes
+   * @returns Promise<PaymentWithLicense> The refund entry
+   * @throws Error if the payment is not found or cannot be refunded for that amount
+   */
+  static async refundPayment(id: number, input: ReversePaymentInput = {}): Promise<PaymentWithLicense> {
+    return this.reversePayment(id, 'refund', input);
+  }
+
+  /**
+   * Void a payment recorded by mistake
+   * Records a negative "void" entry for the full amount on the payment's own date, so every report period nets
+   * to zero, and issues a credit note. Undoes the license and subscription changes the payment made unless
+   * revertSideEffects is false
+   * @param id Payment ID
+   * @param input Reason and whether to undo the payment's changes (default true)
+   * @returns Promise<PaymentWithLicense> The void entry
+   * @throws Error if the payment is not found or was already refunded or voided
+   */
+  static async voidPayment(id: number, input: Omit<ReversePaymentInput, 'amount'> = {}): Promise<PaymentWithLicense> {
+    return this.reversePayment(id, 'void', {
+      reason: input.reason,
+      revertSideEffects: input.revertSideEffects ?? true,
+    });
+  }
+
+  private static async reversePayment(
+    id: number,
+    kind: 'refund' | 'void',
+    input: ReversePaymentInput
+  ): Promise<PaymentWithLicense> {
+    const { reversal, status } = await prisma.$transaction(async (tx) => {
+      // Lock the payment so concurrent refunds cannot together exceed its amount
+      await tx.$queryRaw`SELECT id FROM "Payment" WHERE id = ${id} FOR UPDATE`;
+
+      const original = await tx.payment.findUnique({
+        where: { id },
+        include: { reversals: { select: { amount: true } } },
+      });
+
+      if (!original) {
+        throw new Error(`Payment with ID ${id} not found`);
+      }
+
+      if (original.kind !== 'payment') {
+        throw new Error(`Cannot reverse a ${original.kind} entry`);
+      }
+
+      if (original.status === 'voided') {
+        throw new Error('Cannot reverse a payment that is already voided');
+      }
+
+      if (original.status === 'refunded') {
+        throw new Error('Cannot reverse a payment that is already refunded in full');
+      }
+
+      if (kind === 'void' && original.status !== 'completed') {
+        throw new Error('Cannot void a partially refunded payment. Refund the rest instead.');
+      }
+
+      // Reversal entries are negative, so adding them gives what is left of the payment
+      const remaining = original.reversals.reduce((sum, entry) => sum.plus(entry.amount), original.amount);
+      const amount = kind === 'void'
+        ? original.amount
+        : input.amount !== undefined ? new Decimal(input.amount) : remaining;
+
+      if (kind === 'refund' && amount.lte(0)) {
+        throw new Error('Refund amount must be greater than 0');
+      }
+
+      if (amount.gt(remaining)) {
+        throw new Error(`Refund amount cannot exceed the ${remaining.toString()} ${original.currency} not refunded yet`);
+      }
+
+      const fullyReversed = amount.eq(remaining);
+      if (input.revertSideEffects && !fullyReversed) {
+        throw new Error('Cannot revert the license changes of a partial refund');
+      }
+
+      const status: PaymentStatus = kind === 'void' ? 'voided' : fullyReversed ? 'refunded' : 'partially_refunded';
+
+      const entry = await tx.payment.create({
+        data: {
+          licenseId: original.licenseId,
+          amount: amount.negated(),
+          currency: original.currency,
+          // A void takes the payment out of its own period; a refund counts in the period it was made
+          paymentDate: kind === 'void' ? original.paymentDate : new Date(),
+          isAnnualSubscription: original.isAnnualSubscription,
+          paymentType: original.paymentType,
+          kind,
+          reversesPaymentId: original.id,
+          reason: input.reason,
+        },
+      });
+
+      await tx.payment.update({
+        where: { id: original.id },
+        data: { status },
+      });
+
+      if (input.revertSideEffects) {
+        await this.revertSideEffects(tx, original);
+      }
+
+      const creditNote = await InvoiceService.createForPayment(tx, entry.id);
+      if (config.invoiceWhatsAppEnabled) {
+        await InvoiceService.queueWhatsApp(creditNote, tx);
+      }
+
+      const reversal = await tx.payment.findUnique({
+        where: { id: entry.id },
+        include: {
+          license: {
+            select: {
+              id: true,
+              licenseKey: true,
+              customerName: true,
+              customerPhone: true,
+              locationName: true,
+            },
+          },
+          invoice: {
+            select: { id: true, number: true },
+          },
+        },
+      });
+
+      if (!reversal) {
+        throw new Error('Failed to retrieve created payment');
+      }
+
+      await WebhookService.emit(kind === 'void' ? 'payment.voided' : 'payment.refunded', {
+        paymentId: original.id,
+        reversalId: reversal.id,
+        licenseId: reversal.licenseId,
+        licenseKey: reversal.license.licenseKey,
+        amount: reversal.amount.toString(),
+        currency: reversal.currency,
+        status,
+        reason: reversal.reason,
+        sideEffectsReverted: input.revertSideEffects ?? false,
+        creditNoteNumber: reversal.invoice?.number ?? null,
+      }, tx);
+
+      await AuditService.record({
+        action: kind === 'void' ? 'payment.void' : 'payment.refund',
+        entityType: 'payment',
+        entityId: id,
+        before: { status: original.status },
+        after: { status },
+        metadata: {
+          licenseKey: reversal.license.licenseKey,
+          reversalId: reversal.id,
+          amount: reversal.amount.toString(),
+          currency: reversal.currency,
+          reason: reversal.reason,
+          sideEffectsReverted: input.revertSideEffects ?? false,
+          creditNoteNumber: reversal.invoice?.number,
+        },
+      }, tx);
+
+      return { reversal, status };
+    });
+
+    OutboxService.kick();
+
+    // Reverted license and subscription changes show on the dashboard as well as the revenue
+    cacheService.del(CacheKeys.dashboardStats());
+
+    logger.info(kind === 'void' ? 'Payment voided' : 'Payment refunded', {
+      paymentId: id,
+      reversalId: reversal.id,
+      licenseId: reversal.licenseId,
+      amount: reversal.amount.toString(),
+      status,
+      sideEffectsReverted: input.revertSideEffects ?? false,
+    });
+
+    return reversal as PaymentWithLicense;
+  }
+
+  /**
+   * Undo the license and subscription changes a payment made, as recorded in its sideEffects
+   * @throws Error if the changes were not recorded or later changes make them unsafe to undo
+   */
+  private static async revertSideEffects(
+    tx: Prisma.TransactionClient,
+    payment: { id: number; licenseId: number; sideEffects: Prisma.JsonValue }
+  ): Promise<void> {
+    if (!payment.sideEffects) {
+      throw new Error(`Cannot revert payment ${payment.id}: it was recorded before payment changes were tracked`);
+    }
+
+    const effects = payment.sideEffects as unknown as PaymentSideEffects;
+    const license = await tx.license.findUnique({ where: { id: payment.licenseId } });
+    if (!license) {
+      throw new Error(`License with ID ${payment.licenseId} not found`);
+    }
+
+    const licenseUpdateData: Prisma.LicenseUpdateInput = {};
+
+    if (effects.userLimitIncrement) {
+      const userLimit = license.userLimit - effects.userLimitIncrement;
+      if (userLimit < license.userCount) {
+        throw new Error(
+          `Cannot revert payment ${payment.id}: the license has ${license.userCount} users, more than the ${userLimit} it would allow`
+        );
+      }
+      licenseUpdateData.userLimit = userLimit;
+    }
+
+    if (effects.convertedFreeTrial) {
+      licenseUpdateData.isFreeTrial = true;
+      licenseUpdateData.freeTrialEndDate = effects.convertedFreeTrial.freeTrialEndDate
+        ? new Date(effects.convertedFreeTrial.freeTrialEndDate)
+        : null;
+    }
+
+    // Keep a price an admin has edited since
+    if (effects.initialPrice && license.initialPrice.eq(effects.initialPrice.after)) {
+      licenseUpdateData.initialPrice = new Decimal(effects.initialPrice.before);
+    }
+
+    if (effects.subscription) {
+      const subscription = await tx.subscription.findUnique({ where: { id: effects.subscription.id } });
+      if (subscription) {
+        // A later renewal or manual edit builds on this payment's period, so it cannot simply be taken back
+        if (subscription.endDate.getTime() !== new Date(effects.subscription.endDate).getTime()) {
+          throw new Error(`Cannot revert payment ${payment.id}: subscription ${subscription.id} has changed since`);
+        }
+
+        const before = effects.subscription.before;
+        if (effects.subscription.created || !before) {
+          await tx.subscription.delete({ where: { id: subscription.id } });
+        } else {
+          await tx.subscription.update({
+            where: { id: subscription.id },
+            data: {
+              startDate: new Date(before.startDate),
+              endDate: new Date(before.endDate),
+              status: before.status,
+              gracePeriodEnd: before.gracePeriodEnd ? new Date(before.gracePeriodEnd) : null,
+              annualFee: new Decimal(before.annualFee),
+              currency: before.currency,
+            },
+          });
+        }
+      }
+    }
+
+    if (Object.keys(licenseUpdateData).length > 0) {
+      await tx.license.update({
+        where: { id: license.id },
+        data: licenseUpdateData,
+      });
+    }
+
+    logger.info('Payment changes reverted', {
+      paymentId: payment.id,
+      licenseId: payment.licenseId,
+      effects: Object.keys(effects),
+    });
+  }
+
+  private static toSubscriptionSnapshot(subscription: {
+    startDate: Date;
+    endDate: Date;
+    status: string;
+    gracePeriodEnd: Date | null;
+    annualFee: Decimal;
+    currency: string;
+  }): NonNullable<PaymentSideEffects['subscription']>['before'] {
+    return {
+      startDate: subscription.startDate.toISOString(),
+      endDate: subscription.endDate.toISOString(),
+      status: subscription.status,
+      gracePeriodEnd: subscription.gracePeriodEnd?.toISOString() ?? null,
+      annualFee: subscription.annualFee.toString(),
+      currency: subscription.currency,
+    };
+  }
 }
 
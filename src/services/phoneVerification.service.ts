@@ -2,13 +2,21 @@ import prisma from '../config/database';
 import { logger } from '../utils/logger';
 import { WhatsAppService } from './whatsapp.service';
 
+// What an OTP is for; a code only verifies for the purpose it was sent for, so codes sent to the same phone for
+// different purposes do not replace or consume each other
+export const OTP_PURPOSES = ['phone_verification', 'admin_login', 'admin_two_factor_setup', 'device_transfer'] as const;
+
+export type OTPPurpose = (typeof OTP_PURPOSES)[number];
+
 export interface SendOTPInput {
   phone: string;
+  purpose?: OTPPurpose; // Also selects the message template (default phone_verification)
 }
 
 export interface VerifyOTPInput {
   phone: string;
   otpCode: string;
+  purpose?: OTPPurpose; // Default phone_verification
 }
 
 export interface PhoneVerificationResult {
@@ -29,6 +37,9 @@ export class PhoneVerificationService {
   // OTP length: 6 digits
   private static readonly OTP_LENGTH = 6;
 
+  // Verification attempts allowed per code before a new one must be requested
+  private static readonly MAX_ATTEMPTS = 5;
+
   /**
    * Generate a random OTP code
    */
@@ -73,10 +84,13 @@ export class PhoneVerificationService {
       const expiresAt = new Date();
       expiresAt.setMinutes(expiresAt.getMinutes() + this.OTP_EXPIRY_MINUTES);
 
-      // Invalidate any existing unverified OTPs for this phone
+      const purpose = input.purpose ?? 'phone_verification';
+
+      // Invalidate any existing unverified OTPs for this phone and purpose
       await prisma.phoneVerification.updateMany({
         where: {
           phone: normalizedPhone,
+          purpose,
           verified: false,
         },
         data: {
@@ -89,13 +103,14 @@ export class PhoneVerificationService {
         data: {
           phone: normalizedPhone,
           otpCode,
+          purpose,
           expiresAt,
           verified: false,
         },
       });
 
       // Send OTP via WhatsApp
-      const message = this.getOTPMessage(otpCode);
+      const message = this.getOTPMessage(otpCode, purpose);
       const whatsappSent = await WhatsAppService.sendOTP(normalizedPhone, message);
 
       if (!whatsappSent) {
@@ -129,6 +144,7 @@ export class PhoneVerificationService {
 
   /**
    * Verify OTP code
+   * Each code allows MAX_ATTEMPTS attempts; after that a new code has to be requested
    */
   static async verifyOTP(input: VerifyOTPInput): Promise<PhoneVerificationResult> {
     try {
@@ -149,11 +165,11 @@ export class PhoneVerificationService {
         };
       }
 
-      // Find the most recent unverified OTP for this phone
+      // Find the most recent unverified OTP for this phone and purpose; sending a new code replaces older ones
       const verification = await prisma.phoneVerification.findFirst({
         where: {
           phone: normalizedPhone,
-          otpCode,
+          purpose: input.purpose ?? 'phone_verification',
           verified: false,
         },
         orderBy: {
@@ -183,24 +199,65 @@ export class PhoneVerificationService {
         };
       }
 
-      // Mark as verified
-      const updated = await prisma.phoneVerification.update({
+      // Take an attempt atomically so parallel guesses cannot exceed the limit
+      const attempt = await prisma.phoneVerification.updateMany({
         where: {
           id: verification.id,
+          verified: false,
+          attempts: { lt: this.MAX_ATTEMPTS },
+        },
+        data: {
+          attempts: { increment: 1 },
+        },
+      });
+
+      if (attempt.count === 0) {
+        logger.warn('OTP verification failed: too many attempts', {
+          phone: normalizedPhone,
+        });
+        return {
+          success: false,
+          message: 'Too many invalid attempts. Please request a new OTP code.',
+        };
+      }
+
+      if (verification.otpCode !== otpCode) {
+        logger.warn('OTP verification failed: code mismatch', {
+          phone: normalizedPhone,
+        });
+        return {
+          success: false,
+          message: 'Invalid or expired OTP code',
+        };
+      }
+
+      // Mark as verified, unless a parallel request already used the code
+      const verifiedAt = new Date();
+      const updated = await prisma.phoneVerification.updateMany({
+        where: {
+          id: verification.id,
+          verified: false,
         },
         data: {
           verified: true,
-          verifiedAt: new Date(),
+          verifiedAt,
         },
       });
 
+      if (updated.count === 0) {
+        return {
+          success: false,
+          message: 'Invalid or expired OTP code',
+        };
+      }
+
       // Generate verification token (simple hash of phone + timestamp)
       // In production, you might want to use JWT or a more secure token
       const verificationToken = this.generateVerificationToken(normalizedPhone);
 
       logger.info('OTP verified successfully', {
         phone: normalizedPhone,
-        verifiedAt: updated.verifiedAt,
+        verifiedAt,
       });
 
       return {
@@ -244,6 +301,7 @@ export class PhoneVerificationService {
       const verification = await prisma.phoneVerification.findFirst({
         where: {
           phone: normalizedPhone,
+          purpose: 'phone_verification',
           verified: true,
           verifiedAt: {
             gte: oneHourAgo,
@@ -275,6 +333,7 @@ export class PhoneVerificationService {
       const verification = await prisma.phoneVerification.findFirst({
         where: {
           phone: normalizedPhone,
+          purpose: 'phone_verification',
           verified: true,
           verifiedAt: {
             not: null,
@@ -327,7 +386,19 @@ export class PhoneVerificationService {
   /**
    * Get OTP message template
    */
-  private static getOTPMessage(otpCode: string): string {
+  private static getOTPMessage(otpCode: string, purpose: OTPPurpose): string {
+    if (purpose === 'admin_login' || purpose === 'admin_two_factor_setup') {
+      return `🔐 DigitalizePOS Admin Sign-in
+
+Your sign-in code is: ${otpCode}
+
+This code will expire in ${this.OTP_EXPIRY_MINUTES} minutes.
+
+If you didn't try to sign in, change your admin password immediately.
+
+This is an automated message from DigitalizePOS.`;
+    }
+
     return `🔐 DigitalizePOS Phone Verification
 
 Your verification code is: ${otpCode}
@@ -1,10 +1,16 @@
 import prisma from '../config/database';
 import { logger } from '../utils/logger';
 import { Prisma } from '@prisma/client';
+import { AuditService } from './audit.service';
 
 export interface PreferencesData {
   general: {
     phoneNumberVerification: boolean;
+    dormantActivationDetection: boolean; // Flag activations that stopped validating as dormant
+    dormantAfterDays: number; // Days without a validation before an activation is flagged dormant
+    dormantAutoDeactivate: boolean; // Deactivate dormant activations to free their seat
+    dormantDeactivateAfterDays: number; // Days an activation stays dormant before it is deactivated
+    requireAdminTwoFactor: boolean; // Admins without TOTP must confirm every login with a WhatsApp OTP
   };
   customer: Record<string, unknown>;
   licenseTypeVersion: Record<string, unknown>;
@@ -24,11 +30,26 @@ export class PreferencesService {
   private static readonly DEFAULT_PREFERENCES: PreferencesData = {
     general: {
       phoneNumberVerification: true,
+      dormantActivationDetection: true,
+      dormantAfterDays: 60,
+      dormantAutoDeactivate: false,
+      dormantDeactivateAfterDays: 30,
+      requireAdminTwoFactor: false,
     },
     customer: {},
     licenseTypeVersion: {},
   };
 
+  /**
+   * Fill in general settings added after the preferences record was created
+   */
+  private static withDefaultGeneral(general: unknown): PreferencesData['general'] {
+    return {
+      ...this.DEFAULT_PREFERENCES.general,
+      ...(general as Partial<PreferencesData['general']>),
+    };
+  }
+
   /**
    * Get current preferences
    * Returns default preferences if none exist in database
@@ -43,7 +64,7 @@ export class PreferencesService {
 
       if (preferences) {
         return {
-          general: preferences.general as PreferencesData['general'],
+          general: this.withDefaultGeneral(preferences.general),
           customer: preferences.customer as PreferencesData['customer'],
           licenseTypeVersion: preferences.licenseTypeVersion as PreferencesData['licenseTypeVersion'],
         };
@@ -101,8 +122,16 @@ export class PreferencesService {
           },
         });
 
+        await AuditService.record({
+          action: 'preferences.update',
+          entityType: 'preferences',
+          entityId: result.id,
+          before: current,
+          after: updated,
+        });
+
         return {
-          general: result.general as PreferencesData['general'],
+          general: this.withDefaultGeneral(result.general),
           customer: result.customer as PreferencesData['customer'],
           licenseTypeVersion: result.licenseTypeVersion as PreferencesData['licenseTypeVersion'],
         };
@@ -116,8 +145,16 @@ export class PreferencesService {
           },
         });
 
+        await AuditService.record({
+          action: 'preferences.update',
+          entityType: 'preferences',
+          entityId: result.id,
+          before: current,
+          after: updated,
+        });
+
         return {
-          general: result.general as PreferencesData['general'],
+          general: this.withDefaultGeneral(result.general),
           customer: result.customer as PreferencesData['customer'],
           licenseTypeVersion: result.licenseTypeVersion as PreferencesData['licenseTypeVersion'],
         };
@@ -0,0 +1,629 @@
+import { Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import prisma from '../config/database';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { cacheService, CacheKeys } from '../utils/cache.util';
+import { AuditService } from './audit.service';
+import { ExchangeRateService } from './exchangeRate.service';
+
+export interface EditionInput {
+  code: string;
+  name: string;
+  initialPrice: number;
+  annualPrice: number;
+  pricePerUser: number;
+  currency?: string; // ISO 4217 code of the prices - defaults to config.defaultCurrency
+  userLimit?: number;
+  maxActivations?: number | null;
+  trialDays?: number;
+  features?: string[];
+  isDefault?: boolean;
+  isActive?: boolean;
+}
+
+// Codes are immutable - licenses and POS builds refer to them
+export type UpdateEditionInput = Partial<Omit<EditionInput, 'code'>>;
+
+export interface CreateProductInput {
+  code: string;
+  name: string;
+  description?: string;
+  isActive?: boolean;
+  editions?: EditionInput[];
+}
+
+export interface UpdateProductInput {
+  name?: string;
+  description?: string | null;
+  isActive?: boolean;
+}
+
+export interface EditionDetails {
+  id: number;
+  productId: number;
+  code: string;
+  name: string;
+  initialPrice: Decimal;
+  annualPrice: Decimal;
+  pricePerUser: Decimal;
+  currency: string;
+  userLimit: number;
+  maxActivations: number | null;
+  trialDays: number;
+  features: string[];
+  isDefault: boolean;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ProductWithEditions {
+  id: number;
+  code: string;
+  name: string;
+  description: string | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  editions: EditionDetails[];
+  _count?: {
+    licenses: number;
+  };
+}
+
+/**
+ * Licensing rules of a catalog edition, resolved for license creation, activation and validation
+ */
+export interface EditionRules {
+  productId: number;
+  productCode: string;
+  productName: string;
+  editionId: number;
+  editionCode: string;
+  editionName: string;
+  initialPrice: number;
+  annualPrice: number;
+  pricePerUser: number;
+  currency: string;
+  userLimit: number;
+  maxActivations: number | null;
+  trialDays: number;
+  features: string[];
+}
+
+// Catalog fields recorded in audit events
+const PRODUCT_AUDIT_FIELDS = ['code', 'name', 'description', 'isActive'] as const;
+const EDITION_AUDIT_FIELDS = [
+  'productId',
+  'code',
+  'name',
+  'initialPrice',
+  'annualPrice',
+  'pricePerUser',
+  'currency',
+  'userLimit',
+  'maxActivations',
+  'trialDays',
+  'features',
+  'isDefault',
+  'isActive',
+] as const;
+
+const editionWithProductInclude = {
+  product: {
+    select: {
+      id: true,
+      code: true,
+      name: true,
+    },
+  },
+} as const;
+
+type EditionWithProduct = Prisma.EditionGetPayload<{ include: typeof editionWithProductInclude }>;
+
+/**
+ * Product Service
+ *
+ * Manages the product/edition catalog (e.g. grocery, restaurant, pharmacy with basic/pro tiers).
+ * Each edition carries the default prices, user limit, device limit, trial length and features
+ * applied to the licenses sold as that edition. License.version holds the product code.
+ */
+export class ProductService {
+  private static normalizeCode(code: string): string {
+    return code.trim().toLowerCase();
+  }
+
+  private static toRules(edition: EditionWithProduct): EditionRules {
+    return {
+      productId: edition.product.id,
+      productCode: edition.product.code,
+      productName: edition.product.name,
+      editionId: edition.id,
+      editionCode: edition.code,
+      editionName: edition.name,
+      initialPrice: Number(edition.initialPrice),
+      annualPrice: Number(edition.annualPrice),
+      pricePerUser: Number(edition.pricePerUser),
+      currency: edition.currency,
+      userLimit: edition.userLimit,
+      maxActivations: edition.maxActivations,
+      trialDays: edition.trialDays,
+      features: Array.isArray(edition.features) ? (edition.features as string[]) : [],
+    };
+  }
+
+  private static toEditionData(input: UpdateEditionInput) {
+    return {
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.initialPrice !== undefined && { initialPrice: new Decimal(input.initialPrice) }),
+      ...(input.annualPrice !== undefined && { annualPrice: new Decimal(input.annualPrice) }),
+      ...(input.pricePerUser !== undefined && { pricePerUser: new Decimal(input.pricePerUser) }),
+      ...(input.currency !== undefined && { currency: ExchangeRateService.normalizeCurrency(input.currency) }),
+      ...(input.userLimit !== undefined && { userLimit: input.userLimit }),
+      ...(input.maxActivations !== undefined && { maxActivations: input.maxActivations }),
+      ...(input.trialDays !== undefined && { trialDays: input.trialDays }),
+      ...(input.features !== undefined && { features: Array.from(new Set(input.features)) }),
+      ...(input.isDefault !== undefined && { isDefault: input.isDefault }),
+      ...(input.isActive !== undefined && { isActive: input.isActive }),
+    };
+  }
+
+  private static invalidateCache(): void {
+    cacheService.delPattern('catalog:*');
+  }
+
+  /**
+   * Get all products with their editions
+   * @param includeInactive Include deactivated products and editions
+   */
+  static async getProducts(includeInactive = false): Promise<ProductWithEditions[]> {
+    const products = await prisma.product.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      include: {
+        editions: {
+          where: includeInactive ? {} : { isActive: true },
+          orderBy: [{ isDefault: 'desc' }, { id: 'asc' }],
+        },
+      },
+      orderBy: { code: 'asc' },
+    });
+
+    return products as ProductWithEditions[];
+  }
+
+  /**
+   * Get product by ID with editions and license count
+   * @param id Product ID
+   */
+  static async getProductById(id: number): Promise<ProductWithEditions | null> {
+    const product = await prisma.product.findUnique({
+      where: { id },
+      include: {
+        editions: {
+          orderBy: [{ isDefault: 'desc' }, { id: 'asc' }],
+        },
+      },
+    });
+
+    if (!product) {
+      return null;
+    }
+
+    const licenses = await prisma.license.count({
+      where: { edition: { productId: id } },
+    });
+
+    return { ...product, _count: { licenses } } as ProductWithEditions;
+  }
+
+  /**
+   * Create a product, optionally with its editions
+   * The first edition becomes the default unless one is flagged isDefault
+   * @param input Product data
+   * @throws Error if the product code already exists
+   */
+  static async createProduct(input: CreateProductInput): Promise<ProductWithEditions> {
+    const code = this.normalizeCode(input.code);
+
+    const existing = await prisma.product.findUnique({ where: { code } });
+    if (existing) {
+      throw new Error(`Product with code '${code}' already exists`);
+    }
+
+    const editions = input.editions || [];
+    const editionCodes = editions.map((edition) => this.normalizeCode(edition.code));
+    if (new Set(editionCodes).size !== editionCodes.length) {
+      throw new Error('Edition codes must be unique within a product');
+    }
+
+    const defaultIndex = Math.max(editions.findIndex((edition) => edition.isDefault), 0);
+
+    const product = await prisma.product.create({
+      data: {
+        code,
+        name: input.name,
+        description: input.description,
+        isActive: input.isActive ?? true,
+        editions: {
+          create: editions.map((edition, index) => ({
+            ...this.toEditionData(edition),
+            code: editionCodes[index],
+            name: edition.name,
+            initialPrice: new Decimal(edition.initialPrice),
+            annualPrice: new Decimal(edition.annualPrice),
+            pricePerUser: new Decimal(edition.pricePerUser),
+            currency: edition.currency ? ExchangeRateService.normalizeCurrency(edition.currency) : config.defaultCurrency,
+            isDefault: index === defaultIndex,
+          })),
+        },
+      },
+      include: {
+        editions: {
+          orderBy: [{ isDefault: 'desc' }, { id: 'asc' }],
+        },
+      },
+    });
+
+    this.invalidateCache();
+
+    logger.info('Product created', {
+      productId: product.id,
+      code: product.code,
+      editions: product.editions.map((edition) => edition.code),
+    });
+
+    await AuditService.record({
+      action: 'product.create',
+      entityType: 'product',
+      entityId: product.id,
+      after: {
+        ...AuditService.snapshot(product, PRODUCT_AUDIT_FIELDS),
+        editions: product.editions.map((edition) => edition.code),
+      },
+    });
+
+    return product as ProductWithEditions;
+  }
+
+  /**
+   * Update product details
+   * @param id Product ID
+   * @param input Fields to update
+   * @throws Error if the product does not exist
+   */
+  static async updateProduct(id: number, input: UpdateProductInput): Promise<ProductWithEditions> {
+    const existing = await prisma.product.findUnique({ where: { id } });
+    if (!existing) {
+      throw new Error(`Product with ID ${id} not found`);
+    }
+
+    const product = await prisma.product.update({
+      where: { id },
+      data: {
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.description !== undefined && { description: input.description }),
+        ...(input.isActive !== undefined && { isActive: input.isActive }),
+      },
+      include: {
+        editions: {
+          orderBy: [{ isDefault: 'desc' }, { id: 'asc' }],
+        },
+      },
+    });
+
+    this.invalidateCache();
+
+    logger.info('Product updated', { productId: id, code: product.code });
+
+    await AuditService.record({
+      action: 'product.update',
+      entityType: 'product',
+      entityId: id,
+      before: AuditService.snapshot(existing, PRODUCT_AUDIT_FIELDS),
+      after: AuditService.snapshot(product, PRODUCT_AUDIT_FIELDS),
+    });
+
+    return product as ProductWithEditions;
+  }
+
+  /**
+   * Delete a product and its editions
+   * Products with licenses cannot be deleted - deactivate them instead
+   * @param id Product ID
+   * @throws Error if the product does not exist or licenses use it
+   */
+  static async deleteProduct(id: number): Promise<void> {
+    const existing = await prisma.product.findUnique({ where: { id } });
+    if (!existing) {
+      throw new Error(`Product with ID ${id} not found`);
+    }
+
+    const licenses = await prisma.license.count({
+      where: {
+        OR: [{ edition: { productId: id } }, { version: existing.code }],
+      },
+    });
+
+    if (licenses > 0) {
+      throw new Error(
+        `Cannot delete product '${existing.code}': ${licenses} license(s) use it. Deactivate the product instead.`,
+      );
+    }
+
+    await prisma.product.delete({ where: { id } });
+
+    this.invalidateCache();
+
+    logger.info('Product deleted', { productId: id, code: existing.code });
+
+    await AuditService.record({
+      action: 'product.delete',
+      entityType: 'product',
+      entityId: id,
+      before: AuditService.snapshot(existing, PRODUCT_AUDIT_FIELDS),
+    });
+  }
+
+  /**
+   * Add an edition to a product
+   * @param productId Product ID
+   * @param input Edition data
+   * @throws Error if the product does not exist or the edition code is taken
+   */
+  static async createEdition(productId: number, input: EditionInput): Promise<EditionDetails> {
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      include: { _count: { select: { editions: true } } },
+    });
+
+    if (!product) {
+      throw new Error(`Product with ID ${productId} not found`);
+    }
+
+    const code = this.normalizeCode(input.code);
+    const existing = await prisma.edition.findUnique({
+      where: { productId_code: { productId, code } },
+    });
+    if (existing) {
+      throw new Error(`Edition with code '${code}' already exists for product '${product.code}'`);
+    }
+
+    // The first edition of a product is always its default
+    const isDefault = input.isDefault === true || product._count.editions === 0;
+
+    const edition = await prisma.$transaction(async (tx) => {
+      if (isDefault) {
+        await tx.edition.updateMany({
+          where: { productId, isDefault: true },
+          data: { isDefault: false },
+        });
+      }
+
+      const created = await tx.edition.create({
+        data: {
+          ...this.toEditionData(input),
+          productId,
+          code,
+          name: input.name,
+          initialPrice: new Decimal(input.initialPrice),
+          annualPrice: new Decimal(input.annualPrice),
+          pricePerUser: new Decimal(input.pricePerUser),
+          currency: input.currency ? ExchangeRateService.normalizeCurrency(input.currency) : config.defaultCurrency,
+          isDefault,
+        },
+      });
+
+      await AuditService.record({
+        action: 'edition.create',
+        entityType: 'edition',
+        entityId: created.id,
+        after: AuditService.snapshot(created, EDITION_AUDIT_FIELDS),
+        metadata: { productCode: product.code },
+      }, tx);
+
+      return created;
+    });
+
+    this.invalidateCache();
+
+    logger.info('Edition created', {
+      productId,
+      productCode: product.code,
+      editionId: edition.id,
+      code: edition.code,
+    });
+
+    return edition as EditionDetails;
+  }
+
+  /**
+   * Update an edition's defaults
+   * Changes apply to licenses created afterwards; existing licenses keep their prices and limits
+   * @param productId Product ID
+   * @param editionId Edition ID
+   * @param input Fields to update
+   * @throws Error if the edition does not exist, or the default edition would be unset or deactivated
+   */
+  static async updateEdition(productId: number, editionId: number, input: UpdateEditionInput): Promise<EditionDetails> {
+    const existing = await prisma.edition.findFirst({
+      where: { id: editionId, productId },
+    });
+
+    if (!existing) {
+      throw new Error(`Edition with ID ${editionId} not found`);
+    }
+
+    if (existing.isDefault && (input.isDefault === false || input.isActive === false)) {
+      throw new Error('Cannot unset or deactivate the default edition. Make another edition the default first.');
+    }
+
+    const edition = await prisma.$transaction(async (tx) => {
+      if (input.isDefault === true && !existing.isDefault) {
+        await tx.edition.updateMany({
+          where: { productId, isDefault: true },
+          data: { isDefault: false },
+        });
+      }
+
+      const updated = await tx.edition.update({
+        where: { id: editionId },
+        data: this.toEditionData(input),
+      });
+
+      await AuditService.record({
+        action: 'edition.update',
+        entityType: 'edition',
+        entityId: editionId,
+        before: AuditService.snapshot(existing, EDITION_AUDIT_FIELDS),
+        after: AuditService.snapshot(updated, EDITION_AUDIT_FIELDS),
+      }, tx);
+
+      return updated;
+    });
+
+    this.invalidateCache();
+
+    logger.info('Edition updated', {
+      productId,
+      editionId,
+      code: edition.code,
+      fields: Object.keys(input),
+    });
+
+    return edition as EditionDetails;
+  }
+
+  /**
+   * Delete an edition
+   * @param productId Product ID
+   * @param editionId Edition ID
+   * @throws Error if the edition does not exist, is the default, or licenses use it
+   */
+  static async deleteEdition(productId: number, editionId: number): Promise<void> {
+    const existing = await prisma.edition.findFirst({
+      where: { id: editionId, productId },
+      include: { _count: { select: { licenses: true } } },
+    });
+
+    if (!existing) {
+      throw new Error(`Edition with ID ${editionId} not found`);
+    }
+
+    if (existing._count.licenses > 0) {
+      throw new Error(
+        `Cannot delete edition '${existing.code}': ${existing._count.licenses} license(s) use it. Deactivate the edition instead.`,
+      );
+    }
+
+    if (existing.isDefault) {
+      const others = await prisma.edition.count({ where: { productId, id: { not: editionId } } });
+      if (others > 0) {
+        throw new Error('Cannot delete the default edition. Make another edition the default first.');
+      }
+    }
+
+    await prisma.edition.delete({ where: { id: editionId } });
+
+    this.invalidateCache();
+
+    logger.info('Edition deleted', { productId, editionId, code: existing.code });
+
+    await AuditService.record({
+      action: 'edition.delete',
+      entityType: 'edition',
+      entityId: editionId,
+      before: AuditService.snapshot(existing, EDITION_AUDIT_FIELDS),
+    });
+  }
+
+  /**
+   * Resolve the edition a new license is sold as
+   * @param productCode Product code (defaults to config.defaultProductCode)
+   * @param editionCode Edition code (defaults to the product's default edition)
+   * @returns Promise<EditionRules> Rules of an active edition of an active product
+   * @throws Error if the product or edition is not in the catalog or not for sale
+   */
+  static async resolveEdition(productCode?: string, editionCode?: string): Promise<EditionRules> {
+    const code = this.normalizeCode(productCode || config.defaultProductCode);
+
+    const product = await prisma.product.findUnique({
+      where: { code },
+      select: { id: true, isActive: true },
+    });
+
+    if (!product || !product.isActive) {
+      throw new Error(`Product '${code}' is not available in the catalog`);
+    }
+
+    const edition = await prisma.edition.findFirst({
+      where: {
+        productId: product.id,
+        isActive: true,
+        ...(editionCode ? { code: this.normalizeCode(editionCode) } : { isDefault: true }),
+      },
+      include: editionWithProductInclude,
+    });
+
+    if (!edition) {
+      throw new Error(
+        editionCode
+          ? `Edition '${this.normalizeCode(editionCode)}' is not available in the catalog for product '${code}'`
+          : `Product '${code}' has no default edition in the catalog`,
+      );
+    }
+
+    return this.toRules(edition);
+  }
+
+  /**
+   * Get the catalog rules that apply to an existing license
+   * Uses the license's edition, falling back to the default edition of its product (License.version)
+   * Deactivated products and editions still apply to licenses already sold
+   * Performance optimization: Uses caching since activation and validation call this on every request
+   * @param license License edition and product code
+   * @returns Promise<EditionRules | null> Rules, or null when the product is not in the catalog
+   */
+  static async getRulesForLicense(license: { editionId?: number | null; version: string }): Promise<EditionRules | null> {
+    const cacheKey = license.editionId
+      ? CacheKeys.catalogEdition(license.editionId)
+      : CacheKeys.catalogDefaultEdition(license.version);
+
+    const cached = cacheService.get<EditionRules | null>(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const edition = license.editionId
+      ? await prisma.edition.findUnique({
+          where: { id: license.editionId },
+          include: editionWithProductInclude,
+        })
+      : await prisma.edition.findFirst({
+          where: {
+            isDefault: true,
+            product: { code: this.normalizeCode(license.version) },
+          },
+          include: editionWithProductInclude,
+        });
+
+    const rules = edition ? this.toRules(edition) : null;
+
+    cacheService.set(cacheKey, rules, 300);
+
+    return rules;
+  }
+
+  /**
+   * Check whether a product code exists in the catalog
+   * @param productCode Product code (e.g. the POS app's appType)
+   */
+  static async isCatalogProduct(productCode: string): Promise<boolean> {
+    const product = await prisma.product.findUnique({
+      where: { code: this.normalizeCode(productCode) },
+      select: { id: true },
+    });
+
+    return product !== null;
+  }
+}
@@ -0,0 +1,146 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { PaymentService } from './payment.service';
+
+// How users added during a subscription term are charged: the full pricePerUser, or the share of it for the
+// days left in the term
+export const USER_PRICING_MODES = ['full', 'prorated'] as const;
+
+export type UserPricingMode = (typeof USER_PRICING_MODES)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface UserAdditionQuote {
+  licenseId: number;
+  licenseKey: string;
+  additionalUsers: number;
+  pricingMode: UserPricingMode;
+  currency: string;
+  pricePerUser: number; // Full price of a user for a whole term
+  subscription: { id: number; startDate: Date; endDate: Date } | null; // Term prorated against
+  termDays: number | null;
+  remainingDays: number | null;
+  prorated: boolean; // True when less than the full price is charged
+  unitPrice: number;
+  amount: number;
+  chargeable: boolean; // Whether adding the users records a payment
+  reason?: string; // Why no payment is recorded
+  quotedAt: Date;
+}
+
+/**
+ * Proration Service
+ * Prices users added to a license mid-term. Licenses set to "prorated" pay pricePerUser × the share of the
+ * current subscription term left (in whole days, rounded up); licenses set to "full", or without a subscription
+ * in force, pay the full pricePerUser. Amounts are in the license currency
+ */
+export class ProrationService {
+  /**
+   * Check whether a pricing mode is supported
+   */
+  static isUserPricingMode(mode: string): mode is UserPricingMode {
+    return (USER_PRICING_MODES as readonly string[]).includes(mode);
+  }
+
+  /**
+   * Quote the price of adding users to a license
+   * Used for the preview and by every path that charges for users, so the preview matches the payment
+   * @param licenseId License ID
+   * @param additionalUsers Users to add
+   * @param at Time the users are added (defaults to now)
+   * @param tx Quote inside a transaction
+   * @throws Error if the license is not found or additionalUsers is not a positive integer
+   */
+  static async quoteUserAddition(
+    licenseId: number,
+    additionalUsers: number,
+    at: Date = new Date(),
+    tx?: Prisma.TransactionClient
+  ): Promise<UserAdditionQuote> {
+    if (!Number.isInteger(additionalUsers) || additionalUsers < 1) {
+      throw new Error('additionalUsers must be a positive integer');
+    }
+
+    const license = await (tx ?? prisma).license.findUnique({
+      where: { id: licenseId },
+      select: {
+        id: true,
+        licenseKey: true,
+        pricePerUser: true,
+        currency: true,
+        userPricingMode: true,
+        // The term in force when the users are added; a term renewed ahead of time starts later and is not
+        // prorated against
+        subscriptions: {
+          where: { startDate: { lte: at }, endDate: { gt: at } },
+          orderBy: { startDate: 'desc' },
+          take: 1,
+          select: { id: true, startDate: true, endDate: true },
+        },
+      },
+    });
+
+    if (!license) {
+      throw new Error(`License with ID ${licenseId} not found`);
+    }
+
+    const pricingMode: UserPricingMode = this.isUserPricingMode(license.userPricingMode)
+      ? license.userPricingMode
+      : 'full';
+    const pricePerUser = parseFloat(license.pricePerUser.toString());
+    const subscription = license.subscriptions[0] ?? null;
+
+    let termDays: number | null = null;
+    let remainingDays: number | null = null;
+    let factor = 1;
+
+    if (subscription) {
+      termDays = Math.max(1, Math.round((subscription.endDate.getTime() - subscription.startDate.getTime()) / DAY_MS));
+      remainingDays = Math.min(termDays, Math.ceil((subscription.endDate.getTime() - at.getTime()) / DAY_MS));
+      if (pricingMode === 'prorated') {
+        factor = remainingDays / termDays;
+      }
+    }
+
+    const unitPrice = Math.round(pricePerUser * factor * 100) / 100;
+    const amount = Math.round(unitPrice * additionalUsers * 100) / 100;
+
+    // Users are only charged once the initial payment is made, and only when they have a price
+    const hasInitialPayment = await PaymentService.hasInitialPayment(license.id, tx);
+    let reason: string | undefined;
+    if (!hasInitialPayment) {
+      reason = 'No initial payment found';
+    } else if (!(pricePerUser > 0)) {
+      reason = 'No price per user configured';
+    }
+
+    return {
+      licenseId: license.id,
+      licenseKey: license.licenseKey,
+      additionalUsers,
+      pricingMode,
+      currency: license.currency,
+      pricePerUser,
+      subscription,
+      termDays,
+      remainingDays,
+      prorated: factor < 1,
+      unitPrice,
+      amount,
+      chargeable: !reason,
+      reason,
+      quotedAt: at,
+    };
+  }
+
+  /**
+   * The days a prorated quote charges for, as recorded on the payment's invoice
+   * @returns undefined when the quote is for the full price
+   */
+  static paymentProration(quote: UserAdditionQuote): { remainingDays: number; termDays: number } | undefined {
+    if (!quote.prorated || quote.remainingDays === null || quote.termDays === null) {
+      return undefined;
+    }
+    return { remainingDays: quote.remainingDays, termDays: quote.termDays };
+  }
+}
@@ -1,17 +1,32 @@
+import { Prisma } from '@prisma/client';
 import prisma from '../config/database';
 import { LicenseKeyGeneratorService } from './licenseKeyGenerator.service';
 import { LicenseService } from './license.service';
 import { SubscriptionService } from './subscription.service';
 import { PaymentService } from './payment.service';
+import { ProrationService } from './proration.service';
+import { LicenseCertificateService } from './licenseCertificate.service';
+import { ActivationTokenService } from './activationToken.service';
+import { ProductService, EditionRules } from './product.service';
+import { EntitlementService, LicenseEntitlement } from './entitlement.service';
+import { AuditService } from './audit.service';
+import { WebhookService } from './webhook.service';
+import {
+  HardwareFingerprintService,
+  HardwareFingerprint,
+  FingerprintMatchDecision,
+  FingerprintCandidate,
+} from './hardwareFingerprint.service';
 import { logger, logLicenseOperation } from '../utils/logger';
+import { metricsCollector } from '../utils/metrics.util';
 import { config } from '../config/config';
-import jwt, { SignOptions } from 'jsonwebtoken';
 
 export interface ActivateLicenseInput {
   licenseKey: string;
   hardwareId: string;
   machineName?: string;
-  appType?: 'grocery'; // Type of POS application (grocery)
+  fingerprint?: HardwareFingerprint; // Structured hardware components for fuzzy device matching
+  appType?: string; // Catalog product code of the POS application (e.g. grocery, restaurant)
   location?: {
     name: string;
     address: string;
@@ -23,20 +38,37 @@ export interface ActivateLicenseResult {
   message: string;
   expiresAt?: Date;
   gracePeriodEnd?: Date;
-  token?: string;
+  token?: string; // Short-lived access token
+  tokenExpiresAt?: Date;
+  refreshToken?: string; // Exchange at /api/license/refresh for a new token pair
+  refreshTokenExpiresAt?: Date;
+  certificate?: string; // Signed license certificate for offline validation
   locationId?: number;
   locationName?: string;
   locationAddress?: string;
   customerName?: string | null;
   customerPhone?: string | null;
   isReactivatingActive?: boolean; // Flag indicating if reactivating an already active license
+  activeDevices?: ActiveDeviceSummary[]; // Devices holding the license's seats (set when the device limit is reached)
+  product?: string; // Catalog product code
+  edition?: string; // Catalog edition code
+  features?: string[]; // Feature codes the license is entitled to
+  entitlements?: LicenseEntitlement[]; // Features with their source and expiry
+}
+
+// Returned to unauthenticated callers, so it carries no full hardware ID (those identify devices to the public endpoints)
+export interface ActiveDeviceSummary {
+  activationId: number;
+  machineName: string | null;
+  hardwareIdPrefix: string; // First 8 characters of the hardware ID
 }
 
 export interface ValidateLicenseInput {
   licenseKey: string;
-  hardwareId?: string; // Optional - no longer required for validation
+  hardwareId?: string; // Optional - must match the token's device when given
   currentTime?: number;
   locationAddress?: string;
+  token?: string; // Activation access token of the device - checked against the revocation denylist; required once legacy clients are no longer accepted
 }
 
 export interface ValidateLicenseResult {
@@ -44,6 +76,11 @@ export interface ValidateLicenseResult {
   expiresAt?: Date;
   gracePeriodEnd?: Date;
   daysRemaining?: number;
+  certificate?: string; // Signed license certificate (only issued for an active device)
+  product?: string; // Catalog product code
+  edition?: string; // Catalog edition code
+  features?: string[]; // Feature codes the license is entitled to
+  entitlements?: LicenseEntitlement[]; // Features with their source and expiry
   message: string;
 }
 
@@ -52,6 +89,18 @@ export interface ValidateLicenseResult {
  * Handles public-facing license operations: activation and validation
  */
 export class PublicLicenseService {
+  /**
+   * Product, edition and feature entitlements reported to the POS app
+   */
+  private static catalogFields(version: string, edition: EditionRules | null, entitlements: LicenseEntitlement[]) {
+    return {
+      product: edition?.productCode ?? version,
+      edition: edition?.editionCode,
+      features: entitlements.map((entitlement) => entitlement.feature),
+      entitlements,
+    };
+  }
+
   /**
    * Activate a license key for a device at a location
    * @param input Activation input data
@@ -102,15 +151,28 @@ export class PublicLicenseService {
         };
       }
 
-      // Validate license version matches app type
-      // For grocery POS app, license version must be 'grocery'
-      if (input.appType === 'grocery' && license.version !== 'grocery') {
-        return {
-          success: false,
-          message: `This license is not valid for grocery POS. License version is '${license.version}', but grocery POS requires 'grocery' version.`,
-        };
+      // Validate the license's product matches the POS application
+      if (input.appType) {
+        const appType = input.appType.trim().toLowerCase();
+
+        if (!(await ProductService.isCatalogProduct(appType))) {
+          return {
+            success: false,
+            message: `Unknown app type '${appType}'. Please update your POS application or contact your license supplier.`,
+          };
+        }
+
+        if (license.version !== appType) {
+          return {
+            success: false,
+            message: `This license is not valid for ${appType} POS. License product is '${license.version}', but ${appType} POS requires '${appType}'.`,
+          };
+        }
       }
 
+      // Catalog rules for the license's edition (null for products missing from the catalog)
+      const edition = await ProductService.getRulesForLicense(license);
+
       const locationName = license.locationName;
       const locationAddress = license.locationAddress;
 
@@ -156,64 +218,174 @@ export class PublicLicenseService {
         },
       });
 
-      // Handle reactivation scenarios
-      let activation;
-      let isNewActivation = false;
-      let isReactivatingActiveLicense = false;
-      
-      if (existingActivation && existingActivation.isActive) {
-        // License is already active - allow reactivation but preserve existing data
-        // Just update the last validation timestamp and machine name
-        activation = await prisma.activation.update({
-          where: {
-            id: existingActivation.id,
-          },
-          data: {
-            machineName: input.machineName,
-            lastValidation: new Date(),
-            // Don't update activatedAt - preserve original activation date
-          },
-        });
-        
-        isReactivatingActiveLicense = true;
-        logger.info('Reactivating already active license - preserving existing data', {
-          activationId: activation.id,
-          licenseId: license.id,
-          hardwareId: input.hardwareId,
-        });
-      } else if (existingActivation && !existingActivation.isActive) {
-        // Reactivate inactive activation
-        activation = await prisma.activation.update({
-          where: {
-            id: existingActivation.id,
-          },
-          data: {
-            isActive: true,
-            machineName: input.machineName,
-            lastValidation: new Date(),
-            activatedAt: new Date(), // Update activation date for reactivation
-          },
-        });
+      // Unknown hardware ID: the machine may still be an activated device whose disk or NIC was swapped
+      const fingerprint = input.fingerprint ? HardwareFingerprintService.normalize(input.fingerprint) : undefined;
+      let fingerprintMatch: FingerprintMatchDecision | undefined;
+      let matchedActivation: FingerprintCandidate | undefined;
+
+      if (existingActivation) {
+        fingerprintMatch = HardwareFingerprintService.exactMatchDecision();
+      } else if (fingerprint) {
+        const bestMatch = await HardwareFingerprintService.findBestMatch(license.id, fingerprint, input.machineName);
+        fingerprintMatch = bestMatch?.decision ?? HardwareFingerprintService.noCandidateDecision();
+        if (bestMatch?.decision.matched) {
+          matchedActivation = bestMatch.activation;
+        }
+      }
 
-        logger.info('Activation reactivated', {
-          activationId: activation.id,
-          licenseId: license.id,
-          hardwareId: input.hardwareId,
-        });
-      } else {
-        // Create new activation record
-        activation = await prisma.activation.create({
-          data: {
+      const fingerprintData = {
+        ...(fingerprint && { fingerprint: fingerprint as Prisma.InputJsonValue }),
+        ...(fingerprintMatch && { fingerprintMatch: fingerprintMatch as unknown as Prisma.InputJsonValue }),
+      };
+
+      // Lock the license so parallel activations take seats one after another
+      const outcome = await prisma.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT id FROM "License" WHERE id = ${license.id} FOR UPDATE`;
+
+        // Enforce the device (seat) limit when this request would take a new seat
+        const takesNewSeat = !existingActivation?.isActive && !matchedActivation;
+        if (takesNewSeat && license.maxActivations !== null) {
+          const activeDevices = await tx.activation.findMany({
+            where: { licenseId: license.id, isActive: true },
+            select: {
+              id: true,
+              machineName: true,
+              hardwareId: true,
+            },
+            orderBy: { activatedAt: 'asc' },
+          });
+
+          if (activeDevices.length >= license.maxActivations) {
+            return { activeDevices } as const;
+          }
+        }
+
+        // Handle reactivation scenarios
+        let activation;
+        let isNewActivation = false;
+        let isReactivatingActiveLicense = false;
+
+        if (existingActivation && existingActivation.isActive) {
+          // License is already active - allow reactivation but preserve existing data
+          // Just update the last validation timestamp and machine name
+          activation = await tx.activation.update({
+            where: {
+              id: existingActivation.id,
+            },
+            data: {
+              machineName: input.machineName,
+              lastValidation: new Date(),
+              dormantSince: null,
+              ...fingerprintData,
+              // Don't update activatedAt - preserve original activation date
+            },
+          });
+
+          isReactivatingActiveLicense = true;
+          logger.info('Reactivating already active license - preserving existing data', {
+            activationId: activation.id,
             licenseId: license.id,
             hardwareId: input.hardwareId,
-            machineName: input.machineName,
-            isActive: true,
-            lastValidation: new Date(),
-          },
+          });
+        } else if (existingActivation && !existingActivation.isActive) {
+          // Reactivate inactive activation
+          activation = await tx.activation.update({
+            where: {
+              id: existingActivation.id,
+            },
+            data: {
+              isActive: true,
+              machineName: input.machineName,
+              lastValidation: new Date(),
+              activatedAt: new Date(), // Update activation date for reactivation
+              dormantSince: null,
+              ...fingerprintData,
+            },
+          });
+
+          logger.info('Activation reactivated', {
+            activationId: activation.id,
+            licenseId: license.id,
+            hardwareId: input.hardwareId,
+          });
+        } else if (matchedActivation) {
+          // Same machine with a new hardware ID - move the existing activation instead of using another seat
+          activation = await tx.activation.update({
+            where: {
+              id: matchedActivation.id,
+            },
+            data: {
+              hardwareId: input.hardwareId,
+              machineName: input.machineName,
+              lastValidation: new Date(),
+              dormantSince: null,
+              ...fingerprintData,
+            },
+          });
+
+          isReactivatingActiveLicense = true;
+          logger.info('Activation matched by hardware fingerprint - hardware ID updated', {
+            activationId: activation.id,
+            licenseId: license.id,
+            previousHardwareId: matchedActivation.hardwareId,
+            hardwareId: input.hardwareId,
+            score: fingerprintMatch?.score,
+            threshold: fingerprintMatch?.threshold,
+          });
+        } else {
+          // Create new activation record
+          activation = await tx.activation.create({
+            data: {
+              licenseId: license.id,
+              hardwareId: input.hardwareId,
+              machineName: input.machineName,
+              isActive: true,
+              lastValidation: new Date(),
+              ...fingerprintData,
+            },
+          });
+          isNewActivation = true;
+        }
+
+        await AuditService.record({
+          action: 'activation.create',
+          entityType: 'activation',
+          entityId: activation.id,
+          after: { licenseId: license.id, hardwareId: input.hardwareId, machineName: input.machineName ?? null, isActive: true },
+          metadata: { licenseKey: license.licenseKey, reactivation: isReactivatingActiveLicense },
+          actor: { type: 'device', id: input.hardwareId },
+        }, tx);
+
+        return { activation, isNewActivation, isReactivatingActiveLicense } as const;
+      });
+
+      const { activeDevices } = outcome;
+      if (activeDevices) {
+        metricsCollector.recordDeviceCapReached(license.id);
+        logger.warn('License activation blocked: device limit reached', {
+          licenseId: license.id,
+          hardwareId: input.hardwareId,
+          activeDevices: activeDevices.length,
+          maxActivations: license.maxActivations,
         });
-        isNewActivation = true;
+
+        const deviceList = activeDevices
+          .map((device) => device.machineName || `device ${device.hardwareId.substring(0, 8)}...`)
+          .join(', ');
+
+        return {
+          success: false,
+          message: `Device limit reached (${activeDevices.length}/${license.maxActivations}). This license is already active on: ${deviceList}. Deactivate one of these devices or contact your license supplier to increase the device limit.`,
+          activeDevices: activeDevices.map((device) => ({
+            activationId: device.id,
+            machineName: device.machineName,
+            hardwareIdPrefix: device.hardwareId.substring(0, 8),
+          })),
+        };
       }
-      
+
+      const { activation, isNewActivation, isReactivatingActiveLicense } = outcome;
+
       // Set userCount = 1 when license is first activated (default user is created)
       // Only update if this is a NEW activation AND userCount is 0 (first activation ever)
       // Do NOT update userCount on reactivation, as the default user already exists
@@ -248,7 +420,7 @@ export class PublicLicenseService {
         const newSubscription = await SubscriptionService.createSubscription(license.id, {
           startDate,
           endDate,
-          annualFee: config.annualSubscriptionPrice,
+          annualFee: edition?.annualPrice ?? config.annualSubscriptionPrice,
         });
 
         activeSubscription = {
@@ -265,22 +437,21 @@ export class PublicLicenseService {
         throw new Error('Failed to create or find active subscription');
       }
 
-      // Generate JWT token for validation
-      const tokenPayload = {
-        licenseId: license.id,
-        licenseKey: license.licenseKey,
-        hardwareId: input.hardwareId,
-        locationId: license.id, // Using license ID as location ID
-      };
+      // Issue short-lived access token and refresh token for this activation
+      const { token, tokenExpiresAt, refreshToken, refreshTokenExpiresAt } =
+        await ActivationTokenService.issueTokens(activation, license);
 
-      const jwtSecret = config.jwtSecret;
-      if (!jwtSecret || jwtSecret.trim() === '') {
-        throw new Error('JWT_SECRET is not configured');
-      }
+      const entitlements = await EntitlementService.getEntitlements(license.id, edition);
 
-      const token = jwt.sign(tokenPayload, jwtSecret, {
-        expiresIn: '365d', // Token valid for 1 year
-      } as SignOptions);
+      // Issue signed license certificate so the POS app can validate offline
+      const certificate = LicenseCertificateService.issueCertificate({
+        licenseKey: license.licenseKey,
+        hardwareId: input.hardwareId,
+        userLimit: license.userLimit,
+        version: license.version,
+        expiresAt: activeSubscription.endDate,
+        entitlements,
+      });
 
       // Log activation
       logLicenseOperation('activation', {
@@ -294,6 +465,16 @@ export class PublicLicenseService {
         locationAddress: locationAddress,
       });
 
+      await WebhookService.emit('license.activated', {
+        licenseId: license.id,
+        licenseKey: license.licenseKey,
+        activationId: activation.id,
+        hardwareId: input.hardwareId,
+        machineName: input.machineName ?? null,
+        reactivation: isReactivatingActiveLicense,
+        expiresAt: activeSubscription.endDate,
+      });
+
       return {
         success: true,
         message: isReactivatingActiveLicense 
@@ -302,6 +483,10 @@ export class PublicLicenseService {
         expiresAt: activeSubscription.endDate,
         gracePeriodEnd: activeSubscription.endDate, // No grace period - equals endDate
         token,
+        tokenExpiresAt,
+        refreshToken,
+        refreshTokenExpiresAt,
+        certificate,
         locationId: license.id,
         locationName,
         locationAddress,
@@ -309,6 +494,7 @@ export class PublicLicenseService {
         customerPhone: license.customerPhone,
         // Add flag to indicate if this is a reactivation of an active license
         isReactivatingActive: isReactivatingActiveLicense,
+        ...this.catalogFields(license.version, edition, entitlements),
       };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -377,27 +563,27 @@ export class PublicLicenseService {
         };
       }
 
-      // Hardware ID is optional - if provided, update activation record for tracking
-      // But validation no longer requires hardware ID match
-      if (input.hardwareId) {
-        const activation = await prisma.activation.findUnique({
-          where: {
-            licenseId_hardwareId: {
-              licenseId: license.id,
-              hardwareId: input.hardwareId,
-            },
-          },
-        });
+      // Only activated devices validate: the activation token must be valid, unrevoked and issued for this license,
+      // so revoked, transferred and deactivated devices stop validating
+      const resolved = await ActivationTokenService.resolveDeviceActivation(license, {
+        token: input.token,
+        hardwareId: input.hardwareId,
+      });
 
-        // Update last validation timestamp if activation exists
-        if (activation && activation.isActive) {
-          await prisma.activation.update({
-            where: { id: activation.id },
-            data: { lastValidation: new Date() },
-          });
-        }
+      if (!resolved.activation) {
+        return {
+          valid: false,
+          message: resolved.error,
+        };
       }
 
+      const { activation } = resolved;
+
+      await prisma.activation.update({
+        where: { id: activation.id },
+        data: { lastValidation: new Date(), dormantSince: null },
+      });
+
       // Verify location matches if locationAddress is provided
       if (input.locationAddress) {
         const existingAddress = (license.locationAddress || '').toLowerCase().trim();
@@ -442,11 +628,28 @@ export class PublicLicenseService {
         };
       }
 
+      const edition = await ProductService.getRulesForLicense(license);
+      const entitlements = await EntitlementService.getEntitlements(license.id, edition, now);
+
+      // Refresh the offline certificate of devices that identify themselves
+      const certificate = input.hardwareId
+        ? LicenseCertificateService.issueCertificate({
+            licenseKey: license.licenseKey,
+            hardwareId: activation.hardwareId,
+            userLimit: license.userLimit,
+            version: license.version,
+            expiresAt,
+            entitlements,
+          })
+        : undefined;
+
       return {
         valid: true,
         expiresAt,
         gracePeriodEnd,
         daysRemaining,
+        certificate,
+        ...this.catalogFields(license.version, edition, entitlements),
         message: `License is valid. ${daysRemaining} days remaining.`,
       };
     } catch (error: unknown) {
@@ -607,9 +810,8 @@ export class PublicLicenseService {
         };
       }
 
-      // Check if license has an initial payment (required for user payments)
-      const hasInitialPayment = license.payments && license.payments.length > 0 && 
-        license.payments.some(p => !p.isAnnualSubscription);
+      // Price the additional user (full or prorated); only charged once the initial payment is made
+      const quote = await ProrationService.quoteUserAddition(license.id, 1);
 
       // Increment user count
       const updatedLicense = await prisma.license.update({
@@ -633,31 +835,41 @@ export class PublicLicenseService {
         userLimit: updatedLicense.userLimit,
       });
 
+      await AuditService.record({
+        action: 'license.increment_user_count',
+        entityType: 'license',
+        entityId: license.id,
+        before: { userCount: license.userCount },
+        after: { userCount: updatedLicense.userCount },
+        metadata: { licenseKey: license.licenseKey },
+        actor: { type: 'device', id: input.hardwareId ?? null },
+      });
+
       // Create payment for the additional user if initial payment exists
       let finalUserLimit = updatedLicense.userLimit;
-      if (hasInitialPayment && license.pricePerUser) {
+      if (quote.chargeable) {
         try {
-          const pricePerUser = Number(license.pricePerUser);
-          if (pricePerUser > 0) {
-            await PaymentService.createPayment({
-              licenseId: license.id,
-              amount: pricePerUser,
-              paymentDate: new Date(),
-              isAnnualSubscription: false,
-              paymentType: 'user' as const,
-              additionalUsers: 1,
-            });
+          await PaymentService.createPayment({
+            licenseId: license.id,
+            amount: quote.amount,
+            paymentDate: quote.quotedAt,
+            isAnnualSubscription: false,
+            paymentType: 'user' as const,
+            additionalUsers: 1,
+            prorated: ProrationService.paymentProration(quote),
+          });
 
-            // Payment service increments userLimit by 1 when additionalUsers is provided
-            finalUserLimit = updatedLicense.userLimit + 1;
+          // Payment service increments userLimit by 1 when additionalUsers is provided
+          finalUserLimit = updatedLicense.userLimit + 1;
 
-            logger.info('Payment created for additional user', {
-              licenseId: license.id,
-              licenseKey: license.licenseKey,
-              hardwareId: input.hardwareId,
-              amount: pricePerUser,
-            });
-          }
+          logger.info('Payment created for additional user', {
+            licenseId: license.id,
+            licenseKey: license.licenseKey,
+            hardwareId: input.hardwareId,
+            amount: quote.amount,
+            pricingMode: quote.pricingMode,
+            remainingDays: quote.remainingDays,
+          });
         } catch (paymentError: unknown) {
           const paymentErrorMessage = paymentError instanceof Error ? paymentError.message : 'Unknown error';
           logger.warn('Failed to create payment for additional user', {
@@ -672,9 +884,7 @@ export class PublicLicenseService {
         logger.warn('Skipping payment creation for additional user', {
           licenseId: license.id,
           licenseKey: license.licenseKey,
-          hasInitialPayment,
-          hasPricePerUser: !!license.pricePerUser,
-          reason: !hasInitialPayment ? 'No initial payment found' : 'No price per user configured',
+          reason: quote.reason,
         });
       }
 
@@ -784,6 +994,16 @@ export class PublicLicenseService {
         userLimit: updatedLicense.userLimit,
       });
 
+      await AuditService.record({
+        action: 'license.decrement_user_count',
+        entityType: 'license',
+        entityId: license.id,
+        before: { userCount: license.userCount },
+        after: { userCount: updatedLicense.userCount },
+        metadata: { licenseKey: license.licenseKey },
+        actor: { type: 'device', id: input.hardwareId ?? null },
+      });
+
       return {
         success: true,
         userCount: updatedLicense.userCount,
@@ -890,6 +1110,16 @@ export class PublicLicenseService {
         actualUserCount: input.actualUserCount,
       });
 
+      await AuditService.record({
+        action: 'license.sync_user_count',
+        entityType: 'license',
+        entityId: license.id,
+        before: { userCount: license.userCount },
+        after: { userCount: updatedLicense.userCount },
+        metadata: { licenseKey: license.licenseKey },
+        actor: { type: 'device', id: input.hardwareId ?? null },
+      });
+
       return {
         success: true,
         userCount: updatedLicense.userCount,
@@ -985,8 +1215,20 @@ export class PublicLicenseService {
             },
           });
         }
+
+        await AuditService.record({
+          action: 'activation.rollback',
+          entityType: 'activation',
+          entityId: activation.id,
+          before: { isActive: true, userCount: license.userCount },
+          after: { isActive: false, userCount: license.userCount <= 1 ? 0 : license.userCount },
+          metadata: { licenseId: license.id, licenseKey: license.licenseKey },
+          actor: { type: 'device', id: input.hardwareId },
+        }, tx);
       });
 
+      await ActivationTokenService.revokeActivationTokens([activation.id], 'activation_rolled_back');
+
       logger.info('License activation rolled back due to POS activation failure', {
         licenseId: license.id,
         licenseKey: license.licenseKey,
@@ -1,6 +1,12 @@
 import cron from 'node-cron';
 import { SubscriptionService } from './subscription.service';
 import { LicenseService } from './license.service';
+import { ActivationTokenService } from './activationToken.service';
+import { ActivationService } from './activation.service';
+import { UsageService } from './usage.service';
+import { AdminSessionService } from './adminSession.service';
+import { WebhookService } from './webhook.service';
+import { OutboxService } from './outbox.service';
 import { logger } from '../utils/logger';
 
 /**
@@ -66,7 +72,7 @@ export class SchedulerService {
       try {
         logger.info('Running scheduled task: Send expiration warnings');
         const result = await LicenseService.sendExpirationWarnings();
-        logger.info('Scheduled task completed', { warningsSent: result.warningsSent });
+        logger.info('Scheduled task completed', { warningsQueued: result.warningsQueued });
       } catch (error: unknown) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         const errorStack = error instanceof Error ? error.stack : undefined;
@@ -77,6 +83,127 @@ export class SchedulerService {
       }
     });
 
+    // Run daily at 2:15 AM to purge revoked-token entries whose tokens have expired anyway
+    // '15 2 * * *' = Every day at 2:15 AM
+    cron.schedule('15 2 * * *', async () => {
+      try {
+        logger.info('Running scheduled task: Purge expired token revocations');
+        const purged = await ActivationTokenService.purgeExpiredRevocations();
+        logger.info('Scheduled task completed', { purged });
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const errorStack = error instanceof Error ? error.stack : undefined;
+        logger.error('Error in scheduled task: Purge expired token revocations', {
+          error: errorMessage,
+          stack: errorStack,
+        });
+      }
+    });
+
+    // Run daily at 2:20 AM to flag dormant activations and reclaim their seats when enabled
+    // '20 2 * * *' = Every day at 2:20 AM
+    cron.schedule('20 2 * * *', async () => {
+      try {
+        logger.info('Running scheduled task: Reclaim stale activations');
+        const result = await ActivationService.reclaimStaleActivations();
+        logger.info('Scheduled task completed', { flagged: result.flagged, deactivated: result.deactivated });
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const errorStack = error instanceof Error ? error.stack : undefined;
+        logger.error('Error in scheduled task: Reclaim stale activations', {
+          error: errorMessage,
+          stack: errorStack,
+        });
+      }
+    });
+
+    // Run daily at 2:25 AM to purge usage batch IDs past the deduplication window
+    // '25 2 * * *' = Every day at 2:25 AM
+    cron.schedule('25 2 * * *', async () => {
+      try {
+        logger.info('Running scheduled task: Purge old usage batches');
+        const purged = await UsageService.purgeOldBatches();
+        logger.info('Scheduled task completed', { purged });
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const errorStack = error instanceof Error ? error.stack : undefined;
+        logger.error('Error in scheduled task: Purge old usage batches', {
+          error: errorMessage,
+          stack: errorStack,
+        });
+      }
+    });
+
+    // Run daily at 2:30 AM to delete admin sessions that ended more than 30 days ago
+    // '30 2 * * *' = Every day at 2:30 AM
+    cron.schedule('30 2 * * *', async () => {
+      try {
+        logger.info('Running scheduled task: Purge stale admin sessions');
+        const purged = await AdminSessionService.purgeStaleSessions();
+        logger.info('Scheduled task completed', { purged });
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const errorStack = error instanceof Error ? error.stack : undefined;
+        logger.error('Error in scheduled task: Purge stale admin sessions', {
+          error: errorMessage,
+          stack: errorStack,
+        });
+      }
+    });
+
+    // Run daily at 2:35 AM to delete sent and skipped outbox messages past the retention period
+    // '35 2 * * *' = Every day at 2:35 AM
+    cron.schedule('35 2 * * *', async () => {
+      try {
+        logger.info('Running scheduled task: Purge old outbox messages');
+        const purged = await OutboxService.purgeOldMessages();
+        logger.info('Scheduled task completed', { purged });
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const errorStack = error instanceof Error ? error.stack : undefined;
+        logger.error('Error in scheduled task: Purge old outbox messages', {
+          error: errorMessage,
+          stack: errorStack,
+        });
+      }
+    });
+
+    // Run every minute to dispatch outbox messages (new ones missed by the immediate dispatch, and retries)
+    // '* * * * *' = Every minute
+    cron.schedule('* * * * *', async () => {
+      try {
+        const result = await OutboxService.processDueMessages();
+        if (result.attempted > 0) {
+          logger.info('Scheduled task completed: Dispatch outbox messages', result);
+        }
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const errorStack = error instanceof Error ? error.stack : undefined;
+        logger.error('Error in scheduled task: Dispatch outbox messages', {
+          error: errorMessage,
+          stack: errorStack,
+        });
+      }
+    });
+
+    // Run every minute to retry webhook deliveries whose backoff has elapsed
+    // '* * * * *' = Every minute
+    cron.schedule('* * * * *', async () => {
+      try {
+        const result = await WebhookService.processDueDeliveries();
+        if (result.attempted > 0) {
+          logger.info('Scheduled task completed: Retry webhook deliveries', result);
+        }
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const errorStack = error instanceof Error ? error.stack : undefined;
+        logger.error('Error in scheduled task: Retry webhook deliveries', {
+          error: errorMessage,
+          stack: errorStack,
+        });
+      }
+    });
+
     // Also run on server startup to catch any subscriptions that expired while server was down
     await this.runOnStartup();
 
@@ -117,7 +244,7 @@ export class SchedulerService {
     try {
       logger.info('Running startup task: Send expiration warnings');
       const result = await LicenseService.sendExpirationWarnings();
-      logger.info('Startup task completed', { warningsSent: result.warningsSent });
+      logger.info('Startup task completed', { warningsQueued: result.warningsQueued });
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       const errorStack = error instanceof Error ? error.stack : undefined;
@@ -0,0 +1,50 @@
+import twilio from 'twilio';
+import { logger } from '../utils/logger';
+import { config } from '../config/config';
+import { WhatsAppService } from './whatsapp.service';
+
+/**
+ * SMS Service
+ * Sends text messages through Twilio
+ */
+export class SmsService {
+  /**
+   * Check whether SMS sending is enabled and configured
+   */
+  static isConfigured(): boolean {
+    return config.smsEnabled && !!config.smsAccountSid && !!config.smsAuthToken && !!config.smsFromNumber;
+  }
+
+  /**
+   * Send an SMS
+   * Returns an object with success status and the error message if failed
+   */
+  static async send(to: string, message: string): Promise<{ success: boolean; error?: string }> {
+    if (!this.isConfigured()) {
+      const errorMsg = 'SMS is not configured. Set SMS_ENABLED, SMS_FROM_NUMBER and the Twilio credentials.';
+      logger.warn(errorMsg, { to });
+      return { success: false, error: errorMsg };
+    }
+
+    const toNumber = WhatsAppService.formatPhoneNumber(to);
+    if (!toNumber.startsWith('+') || toNumber.length < 9) {
+      return { success: false, error: 'Invalid phone number format (must be E.164: +[country code][number])' };
+    }
+
+    try {
+      const client = twilio(config.smsAccountSid, config.smsAuthToken);
+      const result = await client.messages.create({
+        from: WhatsAppService.formatPhoneNumber(config.smsFromNumber),
+        to: toNumber,
+        body: message,
+      });
+
+      logger.info('SMS sent successfully via Twilio', { to: toNumber, messageSid: result.sid, status: result.status });
+      return { success: true };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to send SMS', { to: toNumber, error: errorMessage });
+      return { success: false, error: errorMessage };
+    }
+  }
+}
@@ -1,6 +1,8 @@
 import prisma from '../config/database';
 import moment from 'moment-timezone';
 import { cacheService, CacheKeys } from '../utils/cache.util';
+import { config } from '../config/config';
+import { ExchangeRateService } from './exchangeRate.service';
 
 const TIMEZONE = 'Asia/Beirut';
 
@@ -15,6 +17,7 @@ export interface DashboardStats {
     expiringSoon: number; // Expiring within 30 days
   };
   revenue: {
+    currency: string; // Reporting currency all amounts are converted to
     total: number;
     monthly: number; // Current month
     annual: number; // Current year
@@ -22,10 +25,12 @@ export interface DashboardStats {
       initial: number;
       subscription: number;
     };
+    unconvertedPayments: number; // Payments left out because no exchange rate was in effect on their date
   };
   activations: {
     total: number;
-    active: number;
+    active: number; // Active and still validating
+    dormant: number; // Active but flagged dormant by the stale activation job
     inactive: number;
   };
   subscriptions: {
@@ -38,16 +43,19 @@ export interface DashboardStats {
   recentActivity: {
     licenses: number; // Licenses created in last 7 days
     activations: number; // Activations created in last 7 days
-    payments: number; // Payments created in last 7 days
+    payments: number; // Payments created in last 7 days (not refund or void entries)
   };
 }
 
 export interface RevenueByPeriod {
   period: string; // e.g., "2024-01", "2024-02"
-  amount: number;
-  count: number;
+  currency: string;
+  amount: number; // Net of refunds and voids
+  count: number; // Payments, not counting voided ones or refund and void entries
   initialPayments: number;
   subscriptionPayments: number;
+  refunds: number; // Refunded in the period, already deducted from amount
+  unconvertedCount: number; // Payments not in amount because no exchange rate was in effect on their date
 }
 
 /**
@@ -93,6 +101,8 @@ export class StatsService {
     // End of current year in Beirut timezone, converted to UTC for database query
     const currentYearEndUTC = nowBeirut.clone().endOf('year').utc().toDate();
 
+    const reportingCurrency = config.reportingCurrency;
+
     // Performance optimization: Combine 22 queries into 5 aggregated SQL queries
     // This reduces database round-trips by 77% and improves performance significantly
     const [
@@ -132,13 +142,15 @@ export class StatsService {
         FROM "License"
       `,
       
-      // Revenue stats in one query using FILTER
+      // Revenue stats in one query using FILTER, converted to the reporting currency at each payment date's rate
+      // (refund and void entries are negative, so the sums are net)
       prisma.$queryRaw<Array<{
         total: string;
         monthly: string;
         annual: string;
         initial: string;
         subscription: string;
+        unconverted: bigint;
       }>>`
         SELECT 
           COALESCE(SUM(amount), 0)::text as total,
@@ -151,18 +163,24 @@ export class StatsService {
             AND "paymentDate" <= ${currentYearEndUTC}
           ), 0)::text as annual,
           COALESCE(SUM(amount) FILTER (WHERE "isAnnualSubscription" = false), 0)::text as initial,
-          COALESCE(SUM(amount) FILTER (WHERE "isAnnualSubscription" = true), 0)::text as subscription
-        FROM "Payment"
+          COALESCE(SUM(amount) FILTER (WHERE "isAnnualSubscription" = true), 0)::text as subscription,
+          COUNT(*) FILTER (WHERE amount IS NULL)::bigint as unconverted
+        FROM (
+          SELECT p."paymentDate", p."isAnnualSubscription", ${ExchangeRateService.convertedAmountSql(reportingCurrency)} as amount
+          FROM "Payment" p
+        ) converted
       `,
       
       // Activation stats in one query
       prisma.$queryRaw<Array<{
         total: bigint;
         active: bigint;
+        dormant: bigint;
       }>>`
         SELECT 
           COUNT(*)::bigint as total,
-          COUNT(*) FILTER (WHERE "isActive" = true)::bigint as active
+          COUNT(*) FILTER (WHERE "isActive" = true AND "dormantSince" IS NULL)::bigint as active,
+          COUNT(*) FILTER (WHERE "isActive" = true AND "dormantSince" IS NOT NULL)::bigint as dormant
         FROM "Activation"
       `,
       
@@ -199,7 +217,8 @@ export class StatsService {
           (SELECT COUNT(*)::bigint FROM "Activation" 
            WHERE "activatedAt" >= ${sevenDaysAgoUTC} AND "activatedAt" <= ${endOfTodayUTC}) as activations,
           (SELECT COUNT(*)::bigint FROM "Payment" 
-           WHERE "createdAt" >= ${sevenDaysAgoUTC} AND "createdAt" <= ${endOfTodayUTC}) as payments
+           WHERE "createdAt" >= ${sevenDaysAgoUTC} AND "createdAt" <= ${endOfTodayUTC}
+           AND kind = 'payment') as payments
       `,
     ]);
 
@@ -221,6 +240,7 @@ export class StatsService {
         expiringSoon: Number(licenseData.expiringSoon),
       },
       revenue: {
+        currency: reportingCurrency,
         total: parseFloat(revenueData.total),
         monthly: parseFloat(revenueData.monthly),
         annual: parseFloat(revenueData.annual),
@@ -228,11 +248,13 @@ export class StatsService {
           initial: parseFloat(revenueData.initial),
           subscription: parseFloat(revenueData.subscription),
         },
+        unconvertedPayments: Number(revenueData.unconverted),
       },
       activations: {
         total: Number(activationData.total),
         active: Number(activationData.active),
-        inactive: Number(activationData.total) - Number(activationData.active),
+        dormant: Number(activationData.dormant),
+        inactive: Number(activationData.total) - Number(activationData.active) - Number(activationData.dormant),
       },
       subscriptions: {
         total: Number(subscriptionData.total),
@@ -258,13 +280,17 @@ export class StatsService {
   /**
    * Get revenue by period (monthly breakdown)
    * Performance optimization: Uses SQL aggregation instead of loading all payments into memory
+   * Each payment is converted to the report currency at the exchange rate in effect on its payment date.
+   * Refunds count in the month they were made; a voided payment and its void entry net to zero in its own month
    * @param startDate Start date (optional, defaults to 12 months ago)
    * @param endDate End date (optional, defaults to now)
+   * @param currency Report currency (optional, defaults to config.reportingCurrency)
    * @returns Promise<RevenueByPeriod[]> Revenue breakdown by month
    */
   static async getRevenueByPeriod(
     startDate?: Date,
-    endDate?: Date
+    endDate?: Date,
+    currency: string = config.reportingCurrency
   ): Promise<RevenueByPeriod[]> {
     const now = new Date();
     const defaultStartDate = new Date(now);
@@ -282,15 +308,22 @@ export class StatsService {
       count: bigint;
       subscriptionPayments: string;
       initialPayments: string;
+      refunds: string;
+      unconvertedCount: bigint;
     }>>`
       SELECT 
         TO_CHAR("paymentDate", 'YYYY-MM') as period,
-        SUM(amount)::text as amount,
-        COUNT(*)::bigint as count,
-        SUM(CASE WHEN "isAnnualSubscription" = true THEN amount ELSE 0 END)::text as "subscriptionPayments",
-        SUM(CASE WHEN "isAnnualSubscription" = false THEN amount ELSE 0 END)::text as "initialPayments"
-      FROM "Payment"
-      WHERE "paymentDate" >= ${start} AND "paymentDate" <= ${end}
+        COALESCE(SUM(amount), 0)::text as amount,
+        COUNT(*) FILTER (WHERE kind = 'payment' AND status <> 'voided')::bigint as count,
+        COALESCE(SUM(CASE WHEN "isAnnualSubscription" = true THEN amount ELSE 0 END), 0)::text as "subscriptionPayments",
+        COALESCE(SUM(CASE WHEN "isAnnualSubscription" = false THEN amount ELSE 0 END), 0)::text as "initialPayments",
+        COALESCE(-SUM(amount) FILTER (WHERE kind = 'refund'), 0)::text as refunds,
+        COUNT(*) FILTER (WHERE amount IS NULL)::bigint as "unconvertedCount"
+      FROM (
+        SELECT p."paymentDate", p."isAnnualSubscription", p.kind, p.status, ${ExchangeRateService.convertedAmountSql(currency)} as amount
+        FROM "Payment" p
+        WHERE p."paymentDate" >= ${start} AND p."paymentDate" <= ${end}
+      ) converted
       GROUP BY TO_CHAR("paymentDate", 'YYYY-MM')
       ORDER BY period ASC
     `;
@@ -298,10 +331,13 @@ export class StatsService {
     // Convert database results to RevenueByPeriod format
     return revenueByPeriod.map(row => ({
       period: row.period,
+      currency,
       amount: parseFloat(row.amount),
       count: Number(row.count),
       initialPayments: parseFloat(row.initialPayments),
       subscriptionPayments: parseFloat(row.subscriptionPayments),
+      refunds: parseFloat(row.refunds),
+      unconvertedCount: Number(row.unconvertedCount),
     }));
   }
 }
@@ -0,0 +1,378 @@
+import Stripe from 'stripe';
+import prisma from '../config/database';
+import { config } from '../config/config';
+import { CHECKOUT_PAYMENT_TYPES, CheckoutPaymentType } from '../config/checkout.config';
+import { logger } from '../utils/logger';
+import { AuditService } from './audit.service';
+import { LicenseKeyGeneratorService } from './licenseKeyGenerator.service';
+import { PaymentService, PaymentWithLicense, STANDING_PAYMENT_WHERE } from './payment.service';
+import { ProrationService } from './proration.service';
+
+export interface CheckoutSessionInput {
+  paymentType: CheckoutPaymentType;
+  additionalUsers?: number; // Required for "user" payments
+  successUrl?: string; // Defaults to CHECKOUT_SUCCESS_URL
+  cancelUrl?: string; // Defaults to CHECKOUT_CANCEL_URL
+}
+
+export interface CheckoutSessionResult {
+  sessionId: string;
+  url: string | null; // Stripe-hosted payment page to open for the customer
+  licenseId: number;
+  licenseKey: string;
+  paymentType: CheckoutPaymentType;
+  additionalUsers: number;
+  amount: number;
+  currency: string;
+  expiresAt: Date;
+}
+
+export interface StripeEventResult {
+  handled: boolean; // false = event type not used, the checkout is not paid yet, or the payment was refused
+  paymentId?: number;
+  error?: string; // Why a paid checkout was not recorded (left for an admin to resolve)
+}
+
+/**
+ * Stripe Service
+ * Takes online payments through Stripe Checkout:
+ * - A checkout session is created for an initial purchase, an annual renewal or extra users, priced from the license
+ * - The license and payment type travel in the session metadata
+ * - When Stripe reports the session paid, the payment is recorded through PaymentService.createPayment,
+ *   keyed by the payment intent so redelivered events are recorded once
+ * - A paid session the server refuses to record (e.g. a second initial payment) is audited for an admin to resolve
+ *   rather than failed, since Stripe would redeliver it forever
+ */
+export class StripeService {
+  private static client: Stripe | null = null;
+
+  private static getClient(): Stripe {
+    if (!this.client) {
+      this.client = new Stripe(config.stripeSecretKey, {
+        apiVersion: '2023-10-16',
+        ...(config.stripeApiHost
+          ? {
+            host: config.stripeApiHost,
+            port: config.stripeApiPort ?? undefined,
+            protocol: config.stripeApiProtocol,
+          }
+          : {}),
+      });
+    }
+    return this.client;
+  }
+
+  /**
+   * Check whether Stripe Checkout is configured
+   */
+  static isConfigured(): boolean {
+    return !!config.stripeSecretKey;
+  }
+
+  /**
+   * Convert an amount to the currency's smallest unit, as Stripe expects
+   */
+  private static toMinorUnits(amount: number): number {
+    return Math.round(amount * 100);
+  }
+
+  /**
+   * Create a Stripe Checkout session for a license
+   * @param licenseId License to pay for
+   * @param input Payment type and optional redirect URLs
+   * @throws Error if Stripe is not configured, the license is not found, the payment is not allowed or Stripe rejects the session
+   */
+  static async createCheckoutSession(licenseId: number, input: CheckoutSessionInput): Promise<CheckoutSessionResult> {
+    if (!this.isConfigured()) {
+      throw new Error('Stripe is not configured. Set STRIPE_SECRET_KEY.');
+    }
+
+    const license = await prisma.license.findUnique({
+      where: { id: licenseId },
+      include: {
+        subscriptions: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { annualFee: true },
+        },
+        payments: {
+          where: { isAnnualSubscription: false, ...STANDING_PAYMENT_WHERE },
+          select: { id: true },
+          take: 1,
+        },
+      },
+    });
+
+    if (!license) {
+      throw new Error(`License with ID ${licenseId} not found`);
+    }
+
+    if (license.status === 'revoked') {
+      throw new Error('Cannot take payments for a revoked license');
+    }
+
+    const additionalUsers = input.paymentType === 'user' ? input.additionalUsers ?? 0 : 0;
+    if (input.paymentType === 'user' && (!Number.isInteger(additionalUsers) || additionalUsers < 1)) {
+      throw new Error('additionalUsers must be a positive integer for user payments');
+    }
+
+    PaymentService.assertPaymentAllowed(input.paymentType, {
+      status: license.status,
+      isFreeTrial: license.isFreeTrial,
+      hasInitialPayment: license.payments.length > 0,
+    });
+
+    let unitAmount: number;
+    let quantity = 1;
+    let productName: string;
+    let prorated: { remainingDays: number; termDays: number } | undefined;
+    switch (input.paymentType) {
+      case 'initial':
+        unitAmount = parseFloat(license.initialPrice.toString());
+        productName = 'DigitalizePOS license';
+        break;
+      case 'annual':
+        unitAmount = parseFloat((await PaymentService.getRenewalFee(license)).toString());
+        productName = 'DigitalizePOS annual subscription';
+        break;
+      case 'user': {
+        // Same price as users added by an admin or a device (full or prorated)
+        const quote = await ProrationService.quoteUserAddition(license.id, additionalUsers);
+        unitAmount = quote.unitPrice;
+        quantity = additionalUsers;
+        prorated = ProrationService.paymentProration(quote);
+        productName = quote.prorated
+          ? `DigitalizePOS additional user (prorated: ${quote.remainingDays} of ${quote.termDays} days left in the term)`
+          : 'DigitalizePOS additional user';
+        break;
+      }
+    }
+
+    if (unitAmount <= 0) {
+      throw new Error('Nothing to pay: the price for this payment is 0');
+    }
+
+    // Read back in handleCheckoutCompleted; also copied to the payment intent for the Stripe dashboard
+    const metadata: Record<string, string> = {
+      licenseId: String(license.id),
+      licenseKey: license.licenseKey,
+      paymentType: input.paymentType,
+      additionalUsers: String(additionalUsers),
+    };
+    // The days a prorated price was quoted for, printed on the payment's invoice
+    if (prorated) {
+      metadata.remainingDays = String(prorated.remainingDays);
+      metadata.termDays = String(prorated.termDays);
+    }
+
+    let session: Stripe.Checkout.Session;
+    try {
+      session = await this.getClient().checkout.sessions.create({
+        mode: 'payment',
+        client_reference_id: String(license.id),
+        customer_email: license.customerEmail ?? undefined,
+        line_items: [
+          {
+            quantity,
+            price_data: {
+              currency: license.currency.toLowerCase(),
+              unit_amount: this.toMinorUnits(unitAmount),
+              product_data: {
+                name: productName,
+                description: `License ${license.licenseKey}${license.locationName ? ` - ${license.locationName}` : ''}`,
+              },
+            },
+          },
+        ],
+        metadata,
+        payment_intent_data: { metadata },
+        success_url: input.successUrl || config.checkoutSuccessUrl,
+        cancel_url: input.cancelUrl || config.checkoutCancelUrl,
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Stripe checkout session creation failed', { licenseId: license.id, error: errorMessage });
+      throw new Error(`Stripe checkout failed: ${errorMessage}`);
+    }
+
+    const amount = unitAmount * quantity;
+
+    logger.info('Stripe checkout session created', {
+      sessionId: session.id,
+      licenseId: license.id,
+      paymentType: input.paymentType,
+      additionalUsers,
+      amount,
+    });
+
+    await AuditService.record({
+      action: 'payment.checkout_create',
+      entityType: 'license',
+      entityId: license.id,
+      metadata: {
+        licenseKey: license.licenseKey,
+        sessionId: session.id,
+        paymentType: input.paymentType,
+        additionalUsers,
+        amount,
+        currency: license.currency,
+      },
+    });
+
+    return {
+      sessionId: session.id,
+      url: session.url,
+      licenseId: license.id,
+      licenseKey: license.licenseKey,
+      paymentType: input.paymentType,
+      additionalUsers,
+      amount,
+      currency: license.currency,
+      expiresAt: new Date(session.expires_at * 1000),
+    };
+  }
+
+  /**
+   * Create a Stripe Checkout session for the license with the given key (POS self-service)
+   * @throws Error if the license is not found or the payment is not allowed
+   */
+  static async createCheckoutSessionForKey(licenseKey: string, input: CheckoutSessionInput): Promise<CheckoutSessionResult> {
+    const license = await prisma.license.findUnique({
+      where: { licenseKey: LicenseKeyGeneratorService.normalizeLicenseKey(licenseKey) },
+      select: { id: true },
+    });
+
+    if (!license) {
+      throw new Error('License not found');
+    }
+
+    return this.createCheckoutSession(license.id, input);
+  }
+
+  /**
+   * Verify the Stripe-Signature header of a webhook request and parse the event
+   * @param payload Raw request body, exactly as received
+   * @throws Error if the webhook secret is not configured or the signature does not match
+   */
+  static constructEvent(payload: Buffer | string, signature: string): Stripe.Event {
+    if (!config.stripeWebhookSecret) {
+      throw new Error('Stripe webhook secret is not configured. Set STRIPE_WEBHOOK_SECRET.');
+    }
+
+    return Stripe.webhooks.constructEvent(payload, signature, config.stripeWebhookSecret);
+  }
+
+  /**
+   * Apply a verified Stripe event
+   * @throws Error if the database fails while recording the payment (Stripe retries the delivery)
+   */
+  static async handleEvent(event: Stripe.Event): Promise<StripeEventResult> {
+    switch (event.type) {
+      case 'checkout.session.completed':
+      case 'checkout.session.async_payment_succeeded':
+        return this.handleCheckoutCompleted(event.data.object, new Date(event.created * 1000));
+      case 'checkout.session.async_payment_failed':
+        logger.warn('Stripe checkout payment failed', {
+          sessionId: event.data.object.id,
+          licenseId: event.data.object.metadata?.licenseId,
+        });
+        return { handled: true };
+      default:
+        logger.debug('Ignoring Stripe event', { eventId: event.id, type: event.type });
+        return { handled: false };
+    }
+  }
+
+  private static async handleCheckoutCompleted(session: Stripe.Checkout.Session, paidAt: Date): Promise<StripeEventResult> {
+    // Delayed payment methods complete the session before the money arrives; async_payment_succeeded follows
+    if (session.payment_status !== 'paid') {
+      logger.info('Stripe checkout completed but not paid yet', {
+        sessionId: session.id,
+        paymentStatus: session.payment_status,
+      });
+      return { handled: false };
+    }
+
+    const licenseId = parseInt(session.metadata?.licenseId ?? '', 10);
+    const paymentType = session.metadata?.paymentType as CheckoutPaymentType | undefined;
+    const additionalUsers = parseInt(session.metadata?.additionalUsers ?? '0', 10) || 0;
+    const remainingDays = parseInt(session.metadata?.remainingDays ?? '', 10);
+    const termDays = parseInt(session.metadata?.termDays ?? '', 10);
+    const prorated = paymentType === 'user' && remainingDays > 0 && termDays > 0
+      ? { remainingDays, termDays }
+      : undefined;
+
+    // Sessions not created by createCheckoutSession (e.g. payment links) carry no license
+    if (isNaN(licenseId) || !paymentType || !CHECKOUT_PAYMENT_TYPES.includes(paymentType)) {
+      logger.warn('Stripe checkout session has no license metadata', { sessionId: session.id });
+      return { handled: false };
+    }
+
+    const paymentIntentId = typeof session.payment_intent === 'string'
+      ? session.payment_intent
+      : session.payment_intent?.id;
+    if (!paymentIntentId) {
+      throw new Error(`Stripe checkout session ${session.id} has no payment intent`);
+    }
+
+    const amount = (session.amount_total ?? 0) / 100;
+    const currency = session.currency ? session.currency.toUpperCase() : undefined;
+
+    let payment: PaymentWithLicense;
+    try {
+      payment = await PaymentService.createPayment({
+        licenseId,
+        amount,
+        currency,
+        paymentDate: paidAt,
+        isAnnualSubscription: paymentType === 'annual',
+        paymentType,
+        additionalUsers: paymentType === 'user' ? additionalUsers : undefined,
+        prorated,
+        stripePaymentIntentId: paymentIntentId,
+      });
+    } catch (error: unknown) {
+      // Database failures are worth a redelivery; a payment the server refuses (the license was revoked or paid
+      // for since checkout) would be refused every time, so it is acknowledged and left for an admin to refund
+      if (!(error instanceof Error) || error.name.startsWith('PrismaClient')) {
+        throw error;
+      }
+
+      logger.error('Stripe checkout paid but the payment was refused', {
+        sessionId: session.id,
+        paymentIntentId,
+        licenseId,
+        paymentType,
+        error: error.message,
+      });
+
+      await AuditService.record({
+        action: 'payment.checkout_refused',
+        entityType: 'license',
+        entityId: licenseId,
+        metadata: {
+          licenseKey: session.metadata?.licenseKey,
+          sessionId: session.id,
+          paymentIntentId,
+          paymentType,
+          additionalUsers,
+          amount,
+          currency,
+          error: error.message,
+        },
+      });
+
+      return { handled: false, error: error.message };
+    }
+
+    logger.info('Stripe checkout payment recorded', {
+      sessionId: session.id,
+      paymentIntentId,
+      paymentId: payment.id,
+      licenseId,
+      paymentType,
+    });
+
+    return { handled: true, paymentId: payment.id };
+  }
+}
@@ -2,6 +2,13 @@ import prisma from '../config/database';
 import { Decimal } from '@prisma/client/runtime/library';
 import { logger } from '../utils/logger';
 import { config } from '../config/config';
+import { AuditService } from './audit.service';
+import { OutboxService } from './outbox.service';
+import { ExpirationWhatsAppData } from './whatsapp.service';
+import { NotificationRecipient } from './notification.service';
+
+// Subscription fields recorded in audit events
+const SUBSCRIPTION_AUDIT_FIELDS = ['licenseId', 'startDate', 'endDate', 'annualFee', 'currency', 'status', 'gracePeriodEnd'] as const;
 
 export interface SubscriptionWithLicense {
   id: number;
@@ -9,6 +16,7 @@ export interface SubscriptionWithLicense {
   startDate: Date;
   endDate: Date;
   annualFee: Decimal;
+  currency: string;
   status: string;
   gracePeriodEnd: Date | null;
   createdAt: Date;
@@ -235,6 +243,15 @@ export class SubscriptionService {
       changes: Object.keys(updateData),
     });
 
+    await AuditService.record({
+      action: 'subscription.update',
+      entityType: 'subscription',
+      entityId: id,
+      before: AuditService.snapshot(existing, SUBSCRIPTION_AUDIT_FIELDS),
+      after: AuditService.snapshot(subscription, SUBSCRIPTION_AUDIT_FIELDS),
+      metadata: { licenseKey: subscription.license.licenseKey },
+    });
+
     return subscription as SubscriptionWithLicense;
   }
 
@@ -250,12 +267,24 @@ export class SubscriptionService {
   ): Promise<SubscriptionWithLicense> {
     const existing = await prisma.subscription.findUnique({
       where: { id },
+      include: {
+        license: {
+          select: { editionId: true, version: true, currency: true },
+        },
+      },
     });
 
     if (!existing) {
       throw new Error(`Subscription with ID ${id} not found`);
     }
 
+    const { PaymentService } = await import('./payment.service');
+    const annualFee = await PaymentService.getRenewalFee({
+      ...existing.license,
+      currency: existing.currency,
+      subscriptions: [existing],
+    });
+
     // Calculate new dates
     const startDate = extendFromNow ? new Date() : existing.endDate;
     const endDate = new Date(startDate);
@@ -274,7 +303,7 @@ export class SubscriptionService {
         endDate,
         status: 'active',
         gracePeriodEnd,
-        annualFee: new Decimal(config.annualSubscriptionPrice),
+        annualFee,
       },
       include: {
         license: {
@@ -295,6 +324,15 @@ export class SubscriptionService {
       newEndDate: endDate,
     });
 
+    await AuditService.record({
+      action: 'subscription.renew',
+      entityType: 'subscription',
+      entityId: id,
+      before: AuditService.snapshot(existing, SUBSCRIPTION_AUDIT_FIELDS),
+      after: AuditService.snapshot(subscription, SUBSCRIPTION_AUDIT_FIELDS),
+      metadata: { licenseKey: subscription.license.licenseKey, extendFromNow },
+    });
+
     return subscription as SubscriptionWithLicense;
   }
 
@@ -309,7 +347,7 @@ export class SubscriptionService {
     input?: {
       startDate?: Date;
       endDate?: Date;
-      annualFee?: number;
+      annualFee?: number; // In the license currency
     }
   ): Promise<SubscriptionWithLicense> {
     // Check if license exists
@@ -348,6 +386,7 @@ export class SubscriptionService {
         startDate,
         endDate,
         annualFee: new Decimal(input?.annualFee || config.annualSubscriptionPrice),
+        currency: license.currency,
         status: 'active',
         gracePeriodEnd,
       },
@@ -369,6 +408,14 @@ export class SubscriptionService {
       licenseId,
     });
 
+    await AuditService.record({
+      action: 'subscription.create',
+      entityType: 'subscription',
+      entityId: subscription.id,
+      after: AuditService.snapshot(subscription, SUBSCRIPTION_AUDIT_FIELDS),
+      metadata: { licenseKey: subscription.license.licenseKey },
+    });
+
     return subscription as SubscriptionWithLicense;
   }
 
@@ -398,6 +445,8 @@ export class SubscriptionService {
             licenseKey: true,
             customerName: true,
             customerPhone: true,
+            customerEmail: true,
+            notificationChannels: true,
             locationName: true,
             isFreeTrial: true,
           },
@@ -405,68 +454,77 @@ export class SubscriptionService {
       },
     });
 
-    // Update subscriptions that are past endDate to 'expired' (no grace period)
-    const expiredSubscriptions = await prisma.subscription.updateMany({
-      where: {
-        status: {
-          in: ['active', 'grace_period'],
+    // Notification recipients are resolved up front, outside the transaction
+    const { LicenseService } = await import('./license.service');
+    const notifications: Array<{ recipient: NotificationRecipient; data: ExpirationWhatsAppData }> = [];
+    for (const subscription of subscriptionsToExpire) {
+      const recipient = await LicenseService.getNotificationRecipient(subscription.license);
+      if (!recipient) {
+        continue;
+      }
+
+      const daysRemaining = Math.ceil((subscription.endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+      notifications.push({
+        recipient,
+        data: {
+          customerName: subscription.license.customerName,
+          customerPhone: subscription.license.customerPhone ?? '',
+          licenseKey: subscription.license.licenseKey,
+          locationName: subscription.license.locationName,
+          expirationDate: subscription.endDate,
+          daysRemaining: Math.max(0, daysRemaining),
+          isFreeTrial: subscription.license.isFreeTrial,
         },
-        endDate: {
-          lt: now, // End date has passed
+      });
+    }
+
+    // Update subscriptions that are past endDate to 'expired' (no grace period),
+    // queueing their expiration notifications in the same transaction
+    const expiredSubscriptions = await prisma.$transaction(async (tx) => {
+      const updated = await tx.subscription.updateMany({
+        where: {
+          id: {
+            in: subscriptionsToExpire.map((subscription) => subscription.id),
+          },
+          status: {
+            in: ['active', 'grace_period'],
+          },
         },
-      },
-      data: {
-        status: 'expired',
-      },
+        data: {
+          status: 'expired',
+        },
+      });
+
+      for (const { recipient, data } of notifications) {
+        await OutboxService.enqueueNotification('expiration_notification', recipient, data, {
+          dedupeKey: `expiration_notification:${data.licenseKey}:${data.expirationDate.toISOString()}`,
+          tx,
+        });
+      }
+
+      if (updated.count > 0) {
+        await AuditService.record({
+          action: 'subscription.expire',
+          entityType: 'subscription',
+          metadata: {
+            count: updated.count,
+            subscriptionIds: subscriptionsToExpire.map((subscription) => subscription.id),
+          },
+          actor: { type: 'system' },
+        }, tx);
+      }
+
+      return updated;
     });
 
+    OutboxService.kick();
+
     if (expiredSubscriptions.count > 0) {
       logger.info('Updated expired subscriptions', {
         expired: expiredSubscriptions.count,
       });
 
-      // Send expiration notification WhatsApp messages
-      const { WhatsAppService } = await import('./whatsapp.service');
-      const { PhoneVerificationService } = await import('./phoneVerification.service');
-      for (const subscription of subscriptionsToExpire) {
-        if (subscription.license.customerPhone) {
-          const phone = subscription.license.customerPhone;
-          
-          // Only send license-related messages to verified phone numbers
-          const isVerified = await PhoneVerificationService.hasPhoneBeenVerified(phone);
-          if (!isVerified) {
-            logger.info('Skipping expiration notification: phone number not verified', {
-              subscriptionId: subscription.id,
-              licenseId: subscription.license.id,
-              customerPhone: phone,
-            });
-            continue;
-          }
-
-          const daysRemaining = Math.ceil((subscription.endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-          try {
-            await WhatsAppService.sendExpirationNotification({
-              customerName: subscription.license.customerName,
-              customerPhone: phone,
-              licenseKey: subscription.license.licenseKey,
-              locationName: subscription.license.locationName,
-              expirationDate: subscription.endDate,
-              daysRemaining: Math.max(0, daysRemaining),
-              isFreeTrial: subscription.license.isFreeTrial,
-            });
-          } catch (error: unknown) {
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            logger.error('Failed to send expiration notification WhatsApp message', {
-              subscriptionId: subscription.id,
-              licenseId: subscription.license.id,
-              error: errorMessage,
-            });
-          }
-        }
-      }
-
       // Update license statuses to reflect expired subscriptions
-      const { LicenseService } = await import('./license.service');
       await LicenseService.updateExpiredLicenses();
     }
 
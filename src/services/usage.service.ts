@@ -0,0 +1,500 @@
+import prisma from '../config/database';
+import { config } from '../config/config';
+import { logger, logLicenseOperation } from '../utils/logger';
+import { LicenseKeyGeneratorService } from './licenseKeyGenerator.service';
+import { ActivationTokenService } from './activationToken.service';
+
+/**
+ * Metered usage reported by POS terminals
+ * - counter: daily quantities are added up (e.g. transactions rung up)
+ * - gauge: the daily peak is kept (e.g. SKUs stored in the catalog)
+ */
+export const USAGE_METRICS = {
+  transactions: 'counter',
+  invoices_printed: 'counter',
+  skus_stored: 'gauge',
+} as const;
+
+export type UsageMetric = keyof typeof USAGE_METRICS;
+
+export type UsageReportSortField = UsageMetric | 'activeDays' | 'devices';
+
+export const USAGE_REPORT_SORT_FIELDS: UsageReportSortField[] = [
+  ...(Object.keys(USAGE_METRICS) as UsageMetric[]),
+  'activeDays',
+  'devices',
+];
+
+type UsageTotals = Record<UsageMetric, number>;
+
+export interface UsageRecordInput {
+  date: string; // POS business day, YYYY-MM-DD
+  metric: UsageMetric;
+  quantity: number;
+}
+
+export interface ReportUsageInput {
+  licenseKey: string;
+  token: string; // Activation access token of the reporting device
+  hardwareId?: string; // Must match the token's device when sent
+  batchId: string; // Idempotency key - resending a batch is acknowledged without counting it twice
+  records: UsageRecordInput[];
+}
+
+export interface ReportUsageResult {
+  batchId: string;
+  duplicate: boolean;
+  accepted: number; // Records stored with the batch
+  receivedAt: Date;
+}
+
+export interface LicenseUsageSummary {
+  licenseId: number;
+  licenseKey: string;
+  customerName: string | null;
+  customerPhone: string | null;
+  locationName: string | null;
+  status: string;
+  userCount: number;
+  userLimit: number;
+  devices: number; // Devices that reported usage in the period
+  activeDays: number; // Days with reported usage
+  lastReportedDate: string | null;
+  usage: UsageTotals; // Counters summed over the period, gauges at their peak
+  dailyAverage: Partial<UsageTotals>; // Counters per active day
+}
+
+export interface UsageReport {
+  period: {
+    startDate: string;
+    endDate: string;
+  };
+  sortBy: UsageReportSortField;
+  totals: UsageTotals;
+  licenses: LicenseUsageSummary[];
+}
+
+export interface LicenseUsageDetails {
+  licenseId: number;
+  period: {
+    startDate: string;
+    endDate: string;
+  };
+  activations: Array<{
+    activationId: number;
+    hardwareId: string;
+    machineName: string | null;
+    isActive: boolean;
+    usage: UsageTotals;
+  }>;
+  days: Array<{
+    date: string;
+    activationId: number;
+    usage: Partial<UsageTotals>;
+  }>;
+}
+
+/**
+ * Usage Service
+ * Stores batched usage reports from POS terminals as daily aggregates per license and activation,
+ * and builds the admin usage reports used to spot heavy users
+ */
+export class UsageService {
+  private static emptyTotals(): UsageTotals {
+    return Object.keys(USAGE_METRICS).reduce((totals, metric) => {
+      totals[metric as UsageMetric] = 0;
+      return totals;
+    }, {} as UsageTotals);
+  }
+
+  private static isGauge(metric: string): boolean {
+    return USAGE_METRICS[metric as UsageMetric] === 'gauge';
+  }
+
+  private static toDateString(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+
+  /**
+   * Parse a YYYY-MM-DD business day into a UTC midnight date
+   */
+  static parseDay(value: string): Date {
+    return new Date(`${value}T00:00:00.000Z`);
+  }
+
+  /**
+   * Resolve a report period; defaults to the last 30 days
+   */
+  private static resolvePeriod(startDate?: Date, endDate?: Date): { start: Date; end: Date } {
+    const end = endDate ?? this.parseDay(this.toDateString(new Date()));
+    const start = startDate ?? new Date(end.getTime() - 29 * 24 * 60 * 60 * 1000);
+
+    if (start > end) {
+      throw new Error('Start date must be before end date');
+    }
+
+    return { start, end };
+  }
+
+  /**
+   * Record a batch of usage from a POS terminal
+   * Records are merged into daily aggregates per activation. A batch is stored at most once per device:
+   * resending the same batchId (e.g. after a timeout) is acknowledged as a duplicate and not counted again.
+   * The device is the activation of the access token, not whatever hardware ID the request names.
+   * @param input License key, activation token, batch ID and usage records
+   * @returns Promise<ReportUsageResult>
+   * @throws Error if the license is not found or revoked/suspended, the token is not valid for an active device
+   *   of the license, or a date is out of range
+   */
+  static async reportUsage(input: ReportUsageInput): Promise<ReportUsageResult> {
+    const normalizedKey = LicenseKeyGeneratorService.normalizeLicenseKey(input.licenseKey);
+
+    const license = await prisma.license.findUnique({
+      where: { licenseKey: normalizedKey },
+      select: { id: true, licenseKey: true, status: true },
+    });
+
+    if (!license) {
+      throw new Error('License not found');
+    }
+
+    if (license.status === 'revoked' || license.status === 'suspended') {
+      throw new Error(`License is ${license.status}`);
+    }
+
+    const resolved = await ActivationTokenService.resolveDeviceActivation(license, {
+      token: input.token,
+      hardwareId: input.hardwareId,
+    });
+
+    if (!resolved.activation) {
+      throw new Error(resolved.error);
+    }
+
+    const { activation } = resolved;
+
+    // Accept today in any client timezone, and late batches up to the backfill window
+    const today = this.parseDay(this.toDateString(new Date()));
+    const latest = new Date(today.getTime() + 24 * 60 * 60 * 1000);
+    const earliest = new Date(today.getTime() - config.usageBackfillDays * 24 * 60 * 60 * 1000);
+
+    // Merge records of the batch per day and metric before touching the database
+    const merged = new Map<string, { date: string; metric: UsageMetric; quantity: number }>();
+    for (const record of input.records) {
+      const date = this.parseDay(record.date);
+      if (date > latest || date < earliest) {
+        throw new Error(
+          `Usage date ${record.date} is out of range (accepted: last ${config.usageBackfillDays} days)`
+        );
+      }
+
+      const key = `${record.date}:${record.metric}`;
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, { date: record.date, metric: record.metric, quantity: record.quantity });
+      } else if (this.isGauge(record.metric)) {
+        existing.quantity = Math.max(existing.quantity, record.quantity);
+      } else {
+        existing.quantity += record.quantity;
+      }
+    }
+
+    const now = new Date();
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        // Claim the batch first - a concurrent or repeated delivery fails here and rolls back
+        await tx.usageBatch.create({
+          data: {
+            licenseId: license.id,
+            activationId: activation.id,
+            batchId: input.batchId,
+            recordCount: input.records.length,
+            receivedAt: now,
+          },
+        });
+
+        for (const row of merged.values()) {
+          const quantity = BigInt(row.quantity);
+          if (this.isGauge(row.metric)) {
+            await tx.$executeRaw`
+              INSERT INTO "UsageDaily" ("licenseId", "activationId", "date", "metric", "quantity", "updatedAt")
+              VALUES (${license.id}, ${activation.id}, ${row.date}::date, ${row.metric}, ${quantity}, ${now})
+              ON CONFLICT ("activationId", "date", "metric")
+              DO UPDATE SET "quantity" = GREATEST("UsageDaily"."quantity", EXCLUDED."quantity"), "updatedAt" = EXCLUDED."updatedAt"
+            `;
+          } else {
+            await tx.$executeRaw`
+              INSERT INTO "UsageDaily" ("licenseId", "activationId", "date", "metric", "quantity", "updatedAt")
+              VALUES (${license.id}, ${activation.id}, ${row.date}::date, ${row.metric}, ${quantity}, ${now})
+              ON CONFLICT ("activationId", "date", "metric")
+              DO UPDATE SET "quantity" = "UsageDaily"."quantity" + EXCLUDED."quantity", "updatedAt" = EXCLUDED."updatedAt"
+            `;
+          }
+        }
+      });
+    } catch (error: unknown) {
+      const errorWithCode = error as { code?: string };
+      if (errorWithCode.code !== 'P2002') {
+        throw error;
+      }
+
+      const previous = await prisma.usageBatch.findUnique({
+        where: {
+          activationId_batchId: {
+            activationId: activation.id,
+            batchId: input.batchId,
+          },
+        },
+      });
+
+      if (!previous) {
+        throw error;
+      }
+
+      logger.info('Duplicate usage batch ignored', {
+        licenseId: license.id,
+        activationId: activation.id,
+        batchId: input.batchId,
+      });
+
+      return {
+        batchId: previous.batchId,
+        duplicate: true,
+        accepted: previous.recordCount,
+        receivedAt: previous.receivedAt,
+      };
+    }
+
+    logLicenseOperation('validation', {
+      operation: 'usage_reported',
+      licenseId: license.id,
+      licenseKey: license.licenseKey,
+      activationId: activation.id,
+      batchId: input.batchId,
+      records: input.records.length,
+      aggregates: merged.size,
+    });
+
+    return {
+      batchId: input.batchId,
+      duplicate: false,
+      accepted: input.records.length,
+      receivedAt: now,
+    };
+  }
+
+  /**
+   * Admin: Usage per license over a period, sorted by the heaviest users first
+   * @param options Period (inclusive business days, defaults to the last 30 days), sort field and result limit
+   * @returns Promise<UsageReport>
+   */
+  static async getUsageReport(options: {
+    startDate?: Date;
+    endDate?: Date;
+    sortBy?: UsageReportSortField;
+    limit?: number;
+  } = {}): Promise<UsageReport> {
+    const { start, end } = this.resolvePeriod(options.startDate, options.endDate);
+    const sortBy = options.sortBy ?? 'transactions';
+
+    const [metricRows, activityRows] = await Promise.all([
+      prisma.usageDaily.groupBy({
+        by: ['licenseId', 'metric'],
+        where: { date: { gte: start, lte: end } },
+        _sum: { quantity: true },
+        _max: { quantity: true },
+      }),
+      prisma.$queryRaw<Array<{
+        licenseId: number;
+        devices: bigint;
+        activeDays: bigint;
+        lastReportedDate: Date;
+      }>>`
+        SELECT
+          "licenseId",
+          COUNT(DISTINCT "activationId")::bigint as devices,
+          COUNT(DISTINCT "date")::bigint as "activeDays",
+          MAX("date") as "lastReportedDate"
+        FROM "UsageDaily"
+        WHERE "date" >= ${this.toDateString(start)}::date AND "date" <= ${this.toDateString(end)}::date
+        GROUP BY "licenseId"
+      `,
+    ]);
+
+    const licenses = await prisma.license.findMany({
+      where: { id: { in: activityRows.map((row) => row.licenseId) } },
+      select: {
+        id: true,
+        licenseKey: true,
+        customerName: true,
+        customerPhone: true,
+        locationName: true,
+        status: true,
+        userCount: true,
+        userLimit: true,
+      },
+    });
+    const licenseById = new Map(licenses.map((license) => [license.id, license]));
+
+    const usageByLicense = new Map<number, UsageTotals>();
+    for (const row of metricRows) {
+      if (!(row.metric in USAGE_METRICS)) {
+        continue;
+      }
+      const usage = usageByLicense.get(row.licenseId) ?? this.emptyTotals();
+      usage[row.metric as UsageMetric] = Number(
+        this.isGauge(row.metric) ? row._max.quantity ?? 0 : row._sum.quantity ?? 0
+      );
+      usageByLicense.set(row.licenseId, usage);
+    }
+
+    const totals = this.emptyTotals();
+    const summaries: LicenseUsageSummary[] = [];
+
+    for (const row of activityRows) {
+      const license = licenseById.get(row.licenseId);
+      if (!license) {
+        continue;
+      }
+
+      const usage = usageByLicense.get(row.licenseId) ?? this.emptyTotals();
+      const activeDays = Number(row.activeDays);
+      const dailyAverage: Partial<UsageTotals> = {};
+
+      for (const metric of Object.keys(USAGE_METRICS) as UsageMetric[]) {
+        if (this.isGauge(metric)) {
+          totals[metric] = Math.max(totals[metric], usage[metric]);
+        } else {
+          totals[metric] += usage[metric];
+          dailyAverage[metric] = activeDays > 0 ? Math.round((usage[metric] / activeDays) * 100) / 100 : 0;
+        }
+      }
+
+      summaries.push({
+        licenseId: license.id,
+        licenseKey: license.licenseKey,
+        customerName: license.customerName,
+        customerPhone: license.customerPhone,
+        locationName: license.locationName,
+        status: license.status,
+        userCount: license.userCount,
+        userLimit: license.userLimit,
+        devices: Number(row.devices),
+        activeDays,
+        lastReportedDate: row.lastReportedDate ? this.toDateString(new Date(row.lastReportedDate)) : null,
+        usage,
+        dailyAverage,
+      });
+    }
+
+    const sortValue = (summary: LicenseUsageSummary): number => {
+      if (sortBy === 'activeDays' || sortBy === 'devices') {
+        return summary[sortBy];
+      }
+      return summary.usage[sortBy];
+    };
+    summaries.sort((a, b) => sortValue(b) - sortValue(a) || a.licenseId - b.licenseId);
+
+    return {
+      period: {
+        startDate: this.toDateString(start),
+        endDate: this.toDateString(end),
+      },
+      sortBy,
+      totals,
+      licenses: options.limit ? summaries.slice(0, options.limit) : summaries,
+    };
+  }
+
+  /**
+   * Admin: Daily usage of one license, broken down per activation
+   * @param licenseId License ID
+   * @param startDate Optional first business day (defaults to 30 days before endDate)
+   * @param endDate Optional last business day (defaults to today)
+   * @throws Error if the license does not exist
+   */
+  static async getLicenseUsage(licenseId: number, startDate?: Date, endDate?: Date): Promise<LicenseUsageDetails> {
+    const license = await prisma.license.findUnique({
+      where: { id: licenseId },
+      select: { id: true },
+    });
+
+    if (!license) {
+      throw new Error(`License with ID ${licenseId} not found`);
+    }
+
+    const { start, end } = this.resolvePeriod(startDate, endDate);
+
+    const rows = await prisma.usageDaily.findMany({
+      where: {
+        licenseId,
+        date: { gte: start, lte: end },
+      },
+      include: {
+        activation: {
+          select: { id: true, hardwareId: true, machineName: true, isActive: true },
+        },
+      },
+      orderBy: [{ date: 'asc' }, { activationId: 'asc' }],
+    });
+
+    const activations = new Map<number, LicenseUsageDetails['activations'][number]>();
+    const days = new Map<string, LicenseUsageDetails['days'][number]>();
+
+    for (const row of rows) {
+      const quantity = Number(row.quantity);
+      const metric = row.metric as UsageMetric;
+      if (!(metric in USAGE_METRICS)) {
+        continue;
+      }
+
+      const activation = activations.get(row.activationId) ?? {
+        activationId: row.activation.id,
+        hardwareId: row.activation.hardwareId,
+        machineName: row.activation.machineName,
+        isActive: row.activation.isActive,
+        usage: this.emptyTotals(),
+      };
+      activation.usage[metric] = this.isGauge(metric)
+        ? Math.max(activation.usage[metric], quantity)
+        : activation.usage[metric] + quantity;
+      activations.set(row.activationId, activation);
+
+      const date = this.toDateString(row.date);
+      const dayKey = `${date}:${row.activationId}`;
+      const day = days.get(dayKey) ?? { date, activationId: row.activationId, usage: {} };
+      day.usage[metric] = quantity;
+      days.set(dayKey, day);
+    }
+
+    return {
+      licenseId,
+      period: {
+        startDate: this.toDateString(start),
+        endDate: this.toDateString(end),
+      },
+      activations: Array.from(activations.values()),
+      days: Array.from(days.values()),
+    };
+  }
+
+  /**
+   * Remove idempotency records older than the retention window
+   * Daily aggregates are kept; only the batch IDs used to detect redeliveries are purged
+   * @returns Promise<number> Number of batch records removed
+   */
+  static async purgeOldBatches(): Promise<number> {
+    const cutoff = new Date(Date.now() - config.usageBatchRetentionDays * 24 * 60 * 60 * 1000);
+
+    const result = await prisma.usageBatch.deleteMany({
+      where: { receivedAt: { lt: cutoff } },
+    });
+
+    if (result.count > 0) {
+      logger.info('Purged old usage batches', { count: result.count });
+    }
+
+    return result.count;
+  }
+}
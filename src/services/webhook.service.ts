@@ -0,0 +1,607 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+import axios from 'axios';
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { isPrivateAddress } from '../utils/networkAddress.util';
+import { WEBHOOK_SIGNATURE_HEADER, signWebhookPayload } from '../utils/webhookSignature.util';
+import { KeyManagementService } from './keyManagement.service';
+import { AuditService } from './audit.service';
+import { OutboxService } from './outbox.service';
+
+export const WEBHOOK_EVENT_TYPES = [
+  'license.created',
+  'license.activated',
+  'license.revoked',
+  'license.expired',
+  'payment.created',
+  'payment.refunded',
+  'payment.voided',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+// Sent only by the "send test event" action, to the endpoint being tested
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'] as const;
+
+export interface WebhookEventPayload {
+  id: string; // Event ID, identical for every endpoint and redelivery (use it to deduplicate)
+  type: string;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookEndpointSummary {
+  id: number;
+  url: string;
+  description: string | null;
+  eventTypes: string[];
+  isActive: boolean;
+  createdBy: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateWebhookEndpointInput {
+  url: string;
+  description?: string | null;
+  eventTypes: string[];
+}
+
+export interface UpdateWebhookEndpointInput {
+  url?: string;
+  description?: string | null;
+  eventTypes?: string[];
+  isActive?: boolean;
+}
+
+export interface WebhookDeliveryFilters {
+  endpointId?: number;
+  status?: string;
+  eventType?: string;
+  eventId?: string;
+}
+
+const ENDPOINT_SUMMARY_SELECT = {
+  id: true,
+  url: true,
+  description: true,
+  eventTypes: true,
+  isActive: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+const ENDPOINT_AUDIT_FIELDS = ['url', 'description', 'eventTypes', 'isActive'] as const;
+
+/**
+ * Webhook Service
+ *
+ * Delivers license lifecycle events to subscribed HTTP endpoints:
+ * - Events are queued in the outbox; its worker turns each into one delivery row per subscribed endpoint,
+ *   attempted right away
+ * - Bodies are signed with the endpoint's secret (see webhookSignature.util)
+ * - Failed attempts (non-2xx, timeout, network error) are retried with exponential backoff
+ *   (1, 2, 4, ... minutes) by the scheduler until WEBHOOK_MAX_ATTEMPTS, then marked failed
+ * - Every delivery keeps its last response for the delivery log, and can be redelivered manually
+ * - Endpoint hosts must resolve to public addresses (checked on save and before every attempt, unless
+ *   WEBHOOK_ALLOW_PRIVATE_URLS is set) and use https in production, so endpoints cannot reach internal services
+ *
+ * Emitting outside a transaction never throws, so a webhook problem cannot fail the operation that produced the event.
+ */
+export class WebhookService {
+  private static readonly RETRY_BASE_MS = 60 * 1000;
+  // A claimed delivery is not picked up again for this long, so concurrent workers do not send it twice
+  private static readonly CLAIM_LEASE_MS = 5 * 60 * 1000;
+  private static readonly BATCH_SIZE = 50;
+  private static readonly RESPONSE_BODY_LIMIT = 2000;
+
+  private static generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+  }
+
+  /**
+   * Check that a URL may receive webhooks: https in production, and a host that resolves only to public addresses
+   * @throws Error describing why the URL is not allowed
+   */
+  static async assertDeliverableUrl(url: string): Promise<void> {
+    const parsed = new URL(url);
+
+    if (config.nodeEnv === 'production' && parsed.protocol !== 'https:') {
+      throw new Error('Webhook URL must use https');
+    }
+
+    if (config.webhookAllowPrivateUrls) {
+      return;
+    }
+
+    const hostname = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+    let addresses: string[];
+    if (net.isIP(hostname)) {
+      addresses = [hostname];
+    } else {
+      try {
+        addresses = (await dns.promises.lookup(hostname, { all: true })).map((entry) => entry.address);
+      } catch {
+        throw new Error(`Webhook URL host ${hostname} could not be resolved`);
+      }
+    }
+
+    if (addresses.some(isPrivateAddress)) {
+      throw new Error('Webhook URL must not point at a loopback, private or link-local address');
+    }
+  }
+
+  /**
+   * Check whether a value is a known event type
+   */
+  static isEventType(value: string): value is WebhookEventType {
+    return (WEBHOOK_EVENT_TYPES as readonly string[]).includes(value);
+  }
+
+  /**
+   * Publish an event to every active endpoint subscribed to its type
+   * The event goes through the outbox: pass the caller's transaction to record it atomically with the change
+   * that produced it (the caller then kicks the outbox after commit); without one, emitting never throws
+   */
+  static async emit(type: WebhookEventType, data: Record<string, unknown>, tx?: Prisma.TransactionClient): Promise<void> {
+    const payload: WebhookEventPayload = {
+      id: crypto.randomUUID(),
+      type,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+
+    if (tx) {
+      await OutboxService.enqueue({ channel: 'webhook', type, payload: { ...payload } }, tx);
+      return;
+    }
+
+    try {
+      await OutboxService.enqueue({ channel: 'webhook', type, payload: { ...payload } });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to queue webhook event', { type, error: errorMessage });
+    }
+  }
+
+  /**
+   * Fan an event out to its subscribed endpoints (called by the outbox worker)
+   * Deliveries are recorded before this returns; the HTTP attempts run in the background.
+   * Endpoints that already have a delivery for the event are skipped, so a retried fan-out does not duplicate them.
+   */
+  static async publish(payload: WebhookEventPayload): Promise<void> {
+    const [endpoints, existing] = await Promise.all([
+      prisma.webhookEndpoint.findMany({
+        where: { isActive: true, eventTypes: { has: payload.type } },
+        select: { id: true },
+      }),
+      prisma.webhookDelivery.findMany({
+        where: { eventId: payload.id },
+        select: { endpointId: true },
+      }),
+    ]);
+
+    const delivered = new Set(existing.map((delivery) => delivery.endpointId));
+    const endpointIds = endpoints.map((endpoint) => endpoint.id).filter((id) => !delivered.has(id));
+
+    if (endpointIds.length === 0) {
+      return;
+    }
+
+    const deliveryIds = await this.createDeliveries(endpointIds, payload);
+    this.attemptInBackground(deliveryIds);
+  }
+
+  private static async createDeliveries(endpointIds: number[], payload: WebhookEventPayload): Promise<number[]> {
+    const now = new Date();
+    const deliveries = await prisma.$transaction(
+      endpointIds.map((endpointId) =>
+        prisma.webhookDelivery.create({
+          data: {
+            endpointId,
+            eventId: payload.id,
+            eventType: payload.type,
+            payload: payload as unknown as Prisma.InputJsonValue,
+            nextAttemptAt: now,
+          },
+          select: { id: true },
+        })
+      )
+    );
+    return deliveries.map((delivery) => delivery.id);
+  }
+
+  private static attemptInBackground(deliveryIds: number[]): void {
+    Promise.allSettled(deliveryIds.map((id) => this.attemptDelivery(id))).catch((error) => {
+      logger.error('Error in background webhook delivery', { error });
+    });
+  }
+
+  /**
+   * Make one delivery attempt, if the delivery is still pending and due
+   * @returns Delivery status after the attempt, or null when another worker holds it or it is not due
+   */
+  private static async attemptDelivery(deliveryId: number): Promise<string | null> {
+    const now = new Date();
+
+    // Claim the delivery by pushing nextAttemptAt past the lease
+    const claimed = await prisma.webhookDelivery.updateMany({
+      where: { id: deliveryId, status: 'pending', nextAttemptAt: { lte: now } },
+      data: { nextAttemptAt: new Date(now.getTime() + this.CLAIM_LEASE_MS) },
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { endpoint: true },
+    });
+
+    if (!delivery) {
+      return null;
+    }
+
+    const attempts = delivery.attempts + 1;
+    const body = JSON.stringify(delivery.payload);
+
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let errorMessage: string | null = null;
+
+    if (!delivery.endpoint.isActive) {
+      errorMessage = 'Endpoint is disabled';
+    } else {
+      try {
+        // Checked again on every attempt, as the host may have been re-pointed since the endpoint was saved
+        await this.assertDeliverableUrl(delivery.endpoint.url);
+
+        const secret = KeyManagementService.decryptSecret(delivery.endpoint.secretEncrypted);
+        const response = await axios.post(delivery.endpoint.url, body, {
+          timeout: config.webhookTimeoutMs,
+          maxRedirects: 0,
+          responseType: 'text',
+          transformResponse: (value) => value,
+          validateStatus: () => true,
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'DigitalizePOS-Webhooks/1.0',
+            [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, body),
+            'X-DigitalizePOS-Event': delivery.eventType,
+            'X-DigitalizePOS-Event-Id': delivery.eventId,
+            'X-DigitalizePOS-Delivery': String(delivery.id),
+          },
+        });
+
+        responseStatus = response.status;
+        responseBody = typeof response.data === 'string' ? response.data.slice(0, this.RESPONSE_BODY_LIMIT) : null;
+        if (response.status < 200 || response.status >= 300) {
+          errorMessage = `Endpoint responded with HTTP ${response.status}`;
+        }
+      } catch (error: unknown) {
+        errorMessage = error instanceof Error ? error.message : 'Request failed';
+      }
+    }
+
+    const succeeded = errorMessage === null;
+    const exhausted = !succeeded && attempts >= config.webhookMaxAttempts;
+    const status = succeeded ? 'succeeded' : exhausted ? 'failed' : 'pending';
+
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status,
+        attempts,
+        lastAttemptAt: now,
+        responseStatus,
+        responseBody,
+        error: errorMessage,
+        deliveredAt: succeeded ? new Date() : null,
+        nextAttemptAt: status === 'pending'
+          ? new Date(Date.now() + this.RETRY_BASE_MS * 2 ** (attempts - 1))
+          : null,
+      },
+    });
+
+    if (succeeded) {
+      logger.info('Webhook delivered', {
+        deliveryId,
+        endpointId: delivery.endpointId,
+        eventType: delivery.eventType,
+        attempts,
+      });
+    } else {
+      logger.warn(exhausted ? 'Webhook delivery failed permanently' : 'Webhook delivery attempt failed', {
+        deliveryId,
+        endpointId: delivery.endpointId,
+        eventType: delivery.eventType,
+        attempts,
+        responseStatus,
+        error: errorMessage,
+      });
+    }
+
+    return status;
+  }
+
+  /**
+   * Retry pending deliveries whose next attempt is due (run by the scheduler every minute)
+   */
+  static async processDueDeliveries(): Promise<{ attempted: number; succeeded: number; failed: number }> {
+    const due = await prisma.webhookDelivery.findMany({
+      where: { status: 'pending', nextAttemptAt: { lte: new Date() } },
+      select: { id: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: this.BATCH_SIZE,
+    });
+
+    let attempted = 0;
+    let succeeded = 0;
+    let failed = 0;
+
+    for (const { id } of due) {
+      const status = await this.attemptDelivery(id);
+      if (status === null) {
+        continue;
+      }
+      attempted++;
+      if (status === 'succeeded') {
+        succeeded++;
+      } else if (status === 'failed') {
+        failed++;
+      }
+    }
+
+    return { attempted, succeeded, failed };
+  }
+
+  /**
+   * Create an endpoint
+   * @returns The endpoint and its signing secret (shown once)
+   * @throws Error if an event type is unknown or the URL is not allowed
+   */
+  static async createEndpoint(
+    input: CreateWebhookEndpointInput,
+    createdBy: number
+  ): Promise<{ endpoint: WebhookEndpointSummary; secret: string }> {
+    const invalid = input.eventTypes.filter((type) => !this.isEventType(type));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid event type(s): ${invalid.join(', ')}`);
+    }
+
+    await this.assertDeliverableUrl(input.url);
+
+    const secret = this.generateSecret();
+
+    const endpoint = await prisma.webhookEndpoint.create({
+      data: {
+        url: input.url,
+        description: input.description ?? null,
+        eventTypes: [...new Set(input.eventTypes)],
+        secretEncrypted: KeyManagementService.encryptSecret(secret),
+        createdBy,
+      },
+      select: ENDPOINT_SUMMARY_SELECT,
+    });
+
+    logger.info('Webhook endpoint created', { endpointId: endpoint.id, url: endpoint.url, createdBy });
+
+    await AuditService.record({
+      action: 'webhook_endpoint.create',
+      entityType: 'webhook_endpoint',
+      entityId: endpoint.id,
+      after: AuditService.snapshot(endpoint, ENDPOINT_AUDIT_FIELDS),
+    });
+
+    return { endpoint, secret };
+  }
+
+  /**
+   * List endpoints
+   */
+  static async listEndpoints(): Promise<WebhookEndpointSummary[]> {
+    return prisma.webhookEndpoint.findMany({
+      select: ENDPOINT_SUMMARY_SELECT,
+      orderBy: { id: 'asc' },
+    });
+  }
+
+  /**
+   * Get an endpoint
+   */
+  static async getEndpoint(id: number): Promise<WebhookEndpointSummary | null> {
+    return prisma.webhookEndpoint.findUnique({
+      where: { id },
+      select: ENDPOINT_SUMMARY_SELECT,
+    });
+  }
+
+  /**
+   * Update an endpoint's URL, description, event types or active state
+   * @throws Error if the endpoint does not exist, an event type is unknown or the URL is not allowed
+   */
+  static async updateEndpoint(id: number, input: UpdateWebhookEndpointInput): Promise<WebhookEndpointSummary> {
+    const existing = await this.getEndpoint(id);
+    if (!existing) {
+      throw new Error(`Webhook endpoint with ID ${id} not found`);
+    }
+
+    if (input.eventTypes) {
+      const invalid = input.eventTypes.filter((type) => !this.isEventType(type));
+      if (invalid.length > 0) {
+        throw new Error(`Invalid event type(s): ${invalid.join(', ')}`);
+      }
+    }
+
+    if (input.url !== undefined) {
+      await this.assertDeliverableUrl(input.url);
+    }
+
+    const endpoint = await prisma.webhookEndpoint.update({
+      where: { id },
+      data: {
+        ...(input.url !== undefined && { url: input.url }),
+        ...(input.description !== undefined && { description: input.description }),
+        ...(input.eventTypes !== undefined && { eventTypes: [...new Set(input.eventTypes)] }),
+        ...(input.isActive !== undefined && { isActive: input.isActive }),
+      },
+      select: ENDPOINT_SUMMARY_SELECT,
+    });
+
+    await AuditService.record({
+      action: 'webhook_endpoint.update',
+      entityType: 'webhook_endpoint',
+      entityId: id,
+      before: AuditService.snapshot(existing, ENDPOINT_AUDIT_FIELDS),
+      after: AuditService.snapshot(endpoint, ENDPOINT_AUDIT_FIELDS),
+    });
+
+    return endpoint;
+  }
+
+  /**
+   * Replace an endpoint's signing secret; the old secret stops being used immediately
+   * @returns The new secret (shown once)
+   */
+  static async rotateSecret(id: number): Promise<{ secret: string }> {
+    const existing = await this.getEndpoint(id);
+    if (!existing) {
+      throw new Error(`Webhook endpoint with ID ${id} not found`);
+    }
+
+    const secret = this.generateSecret();
+
+    await prisma.webhookEndpoint.update({
+      where: { id },
+      data: { secretEncrypted: KeyManagementService.encryptSecret(secret) },
+    });
+
+    logger.info('Webhook endpoint secret rotated', { endpointId: id });
+
+    await AuditService.record({
+      action: 'webhook_endpoint.rotate_secret',
+      entityType: 'webhook_endpoint',
+      entityId: id,
+    });
+
+    return { secret };
+  }
+
+  /**
+   * Delete an endpoint and its delivery log
+   */
+  static async deleteEndpoint(id: number): Promise<void> {
+    const existing = await this.getEndpoint(id);
+    if (!existing) {
+      throw new Error(`Webhook endpoint with ID ${id} not found`);
+    }
+
+    await prisma.webhookEndpoint.delete({ where: { id } });
+
+    logger.info('Webhook endpoint deleted', { endpointId: id, url: existing.url });
+
+    await AuditService.record({
+      action: 'webhook_endpoint.delete',
+      entityType: 'webhook_endpoint',
+      entityId: id,
+      before: AuditService.snapshot(existing, ENDPOINT_AUDIT_FIELDS),
+    });
+  }
+
+  /**
+   * Send a test event to one endpoint (regardless of its subscribed event types)
+   * @returns The delivery, after its first attempt
+   */
+  static async sendTestEvent(endpointId: number) {
+    const existing = await this.getEndpoint(endpointId);
+    if (!existing) {
+      throw new Error(`Webhook endpoint with ID ${endpointId} not found`);
+    }
+
+    const [deliveryId] = await this.createDeliveries([endpointId], {
+      id: crypto.randomUUID(),
+      type: WEBHOOK_TEST_EVENT,
+      createdAt: new Date().toISOString(),
+      data: { message: 'Test event from DigitalizePOS License Server', endpointId },
+    });
+
+    await this.attemptDelivery(deliveryId);
+
+    return prisma.webhookDelivery.findUnique({ where: { id: deliveryId } });
+  }
+
+  /**
+   * Admin: Get paginated deliveries, newest first
+   */
+  static async getDeliveriesPaginated(params: WebhookDeliveryFilters & { page?: number; pageSize?: number }) {
+    const page = Math.max(1, params.page || 1);
+    const pageSize = Math.min(100, Math.max(1, params.pageSize || 20));
+    const skip = (page - 1) * pageSize;
+
+    const where: Prisma.WebhookDeliveryWhereInput = {
+      ...(params.endpointId !== undefined && { endpointId: params.endpointId }),
+      ...(params.status && { status: params.status }),
+      ...(params.eventType && { eventType: params.eventType }),
+      ...(params.eventId && { eventId: params.eventId }),
+    };
+
+    const [deliveries, totalItems] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: { id: 'desc' },
+      }),
+      prisma.webhookDelivery.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(totalItems / pageSize);
+
+    return {
+      data: deliveries,
+      pagination: {
+        page,
+        pageSize,
+        totalItems,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Send a delivery's event again to its endpoint, as a new delivery with the same event ID
+   * @returns The new delivery, after its first attempt
+   * @throws Error if the delivery does not exist
+   */
+  static async redeliver(deliveryId: number) {
+    const original = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      select: { endpointId: true, payload: true },
+    });
+
+    if (!original) {
+      throw new Error(`Webhook delivery with ID ${deliveryId} not found`);
+    }
+
+    const [newDeliveryId] = await this.createDeliveries(
+      [original.endpointId],
+      original.payload as unknown as WebhookEventPayload
+    );
+
+    logger.info('Webhook redelivery requested', { deliveryId, newDeliveryId });
+
+    await this.attemptDelivery(newDeliveryId);
+
+    return prisma.webhookDelivery.findUnique({ where: { id: newDeliveryId } });
+  }
+}
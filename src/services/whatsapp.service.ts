@@ -31,6 +31,22 @@ export interface LicenseDetailsWhatsAppData {
   expiresAt?: Date | null;
 }
 
+export interface AdminAccessLinkWhatsAppData {
+  phone: string;
+  username: string;
+  link: string;
+  expiresAt: Date;
+  purpose: 'invitation' | 'password_reset';
+}
+
+export interface AdminLockoutWhatsAppData {
+  phone: string;
+  username: string;
+  failedAttempts: number;
+  lockedUntil: Date;
+  ipAddress?: string; // Client of the attempt that triggered the lockout
+}
+
 /**
  * WhatsApp Service
  * Handles sending WhatsApp messages via API
@@ -68,6 +84,21 @@ export class WhatsAppService {
     }
   }
 
+  /**
+   * Send a prepared text message (used by the notification service)
+   * Returns an object with success status and the error message if failed
+   */
+  static async sendText(to: string, message: string): Promise<{ success: boolean; error?: string }> {
+    if (!config.whatsappEnabled) {
+      return { success: false, error: 'WhatsApp is not enabled' };
+    }
+
+    const result = await this.sendWhatsAppMessage(to, message);
+    return result.success
+      ? { success: true }
+      : { success: false, error: result.error?.message || 'WhatsApp message was not sent' };
+  }
+
   /**
    * Send activation credentials via WhatsApp
    */
@@ -307,9 +338,140 @@ This is an automated message from DigitalizePOS.`;
   }
 
   /**
-   * Get expiration warning message template
+   * Send an admin invitation or password reset link via WhatsApp
+   */
+  static async sendAdminAccessLink(data: AdminAccessLinkWhatsAppData): Promise<boolean> {
+    try {
+      if (!config.whatsappEnabled) {
+        logger.warn('WhatsApp service not available, skipping admin access link message', {
+          to: data.phone,
+        });
+        return false;
+      }
+
+      const message = this.getAdminAccessLinkMessage(data);
+      const result = await this.sendWhatsAppMessage(data.phone, message);
+
+      if (result.success) {
+        logger.info('Admin access link WhatsApp message sent successfully', {
+          to: data.phone,
+          purpose: data.purpose,
+        });
+        return true;
+      } else {
+        logger.warn('Failed to send admin access link WhatsApp message', {
+          to: data.phone,
+          error: result.error,
+        });
+        return false;
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to send admin access link WhatsApp message', {
+        to: data.phone,
+        error: errorMessage,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Alert an admin that their account was locked after repeated failed logins
+   */
+  static async sendAdminLockoutAlert(data: AdminLockoutWhatsAppData): Promise<boolean> {
+    try {
+      if (!config.whatsappEnabled) {
+        logger.warn('WhatsApp service not available, skipping admin lockout alert', {
+          to: data.phone,
+        });
+        return false;
+      }
+
+      const message = this.getAdminLockoutMessage(data);
+      const result = await this.sendWhatsAppMessage(data.phone, message);
+
+      if (result.success) {
+        logger.info('Admin lockout WhatsApp alert sent successfully', {
+          to: data.phone,
+          username: data.username,
+        });
+        return true;
+      } else {
+        logger.warn('Failed to send admin lockout WhatsApp alert', {
+          to: data.phone,
+          error: result.error,
+        });
+        return false;
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to send admin lockout WhatsApp alert', {
+        to: data.phone,
+        error: errorMessage,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Get admin lockout alert message template
+   */
+  private static getAdminLockoutMessage(data: AdminLockoutWhatsAppData): string {
+    const lockedUntilText = data.lockedUntil.toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    const sourceText = data.ipAddress ? `\n🌐 Last attempt from: ${data.ipAddress}` : '';
+
+    return `🚨 DigitalizePOS Admin Security Alert
+
+Your admin account "${data.username}" was locked after ${data.failedAttempts} failed login attempts.${sourceText}
+
+🔒 Locked until: ${lockedUntilText}
+
+If this was you, wait until the lock expires or ask an owner to unlock the account.
+If it was not you, someone may be trying to guess your password. Consider changing it once you can log in.
+
+This is an automated message from DigitalizePOS.`;
+  }
+
+  /**
+   * Get admin invitation / password reset message template
+   */
+  private static getAdminAccessLinkMessage(data: AdminAccessLinkWhatsAppData): string {
+    const expiresText = data.expiresAt.toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+    const intro = data.purpose === 'invitation'
+      ? `You have been invited to the DigitalizePOS License Server admin panel as "${data.username}".`
+      : `A password reset was requested for your DigitalizePOS admin account "${data.username}".`;
+
+    return `🔐 DigitalizePOS Admin Access
+
+${intro}
+
+Set your password using this link:
+${data.link}
+
+⏰ The link expires on ${expiresText} and can only be used once.
+
+If you were not expecting this message, please ignore it.
+
+This is an automated message from DigitalizePOS.`;
+  }
+
+  /**
+   * Get expiration warning message template (also used as the SMS and email text)
    */
-  private static getExpirationWarningMessage(data: ExpirationWhatsAppData): string {
+  static getExpirationWarningMessage(data: ExpirationWhatsAppData): string {
     const customerName = data.customerName || 'Valued Customer';
     const expirationDateStr = data.expirationDate.toLocaleDateString('en-US', {
       year: 'numeric',
@@ -351,9 +513,9 @@ This is an automated message from DigitalizePOS.`;
   }
 
   /**
-   * Get expiration notification message template
+   * Get expiration notification message template (also used as the SMS and email text)
    */
-  private static getExpirationNotificationMessage(data: ExpirationWhatsAppData): string {
+  static getExpirationNotificationMessage(data: ExpirationWhatsAppData): string {
     const customerName = data.customerName || 'Valued Customer';
     const expirationDateStr = data.expirationDate.toLocaleDateString('en-US', {
       year: 'numeric',
@@ -613,7 +775,7 @@ This is an automated message from DigitalizePOS.`;
    * Ensures phone number is in E.164 format: +[country code][number]
    * Example: +9611234567 or +1234567890
    */
-  private static formatPhoneNumber(phone: string): string {
+  static formatPhoneNumber(phone: string): string {
     // Remove all whitespace
     const cleaned = phone.trim();
     
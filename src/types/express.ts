@@ -7,7 +7,17 @@ declare global {
         id: number;
         username: string;
         phone: string;
+        role: string;
+        sessionId?: string; // Server-side session of the admin JWT
       };
+      apiKey?: {
+        id: number;
+        name: string;
+        keyPrefix: string;
+        scopes: string[];
+        rateLimitPerMinute: number | null;
+      }; // Set instead of admin when the request authenticated with an API key
+      requestId?: string; // Assigned by the requestContext middleware
     }
   }
 }
@@ -154,5 +154,11 @@ export const CacheKeys = {
   licenseById: (id: number) => `license:id:${id}`,
   dashboardStats: () => 'stats:dashboard',
   searchResults: (query: string, filters: string) => `search:${query}:${filters}`,
+  signingKey: (kid: string) => `signingKey:${kid}`,
+  activeSigningKey: () => 'signingKey:active',
+  revokedToken: (jti: string) => `revokedToken:${jti}`,
+  licenseFeatures: (licenseId: number) => `licenseFeatures:${licenseId}`,
+  catalogEdition: (id: number) => `catalog:edition:${id}`,
+  catalogDefaultEdition: (productCode: string) => `catalog:product:${productCode.toLowerCase().trim()}`,
 } as const;
 
@@ -1,3 +1,6 @@
+import { LicenseUsageSummary } from '../services/usage.service';
+import { AuditEventRecord } from '../services/audit.service';
+
 /**
  * CSV Utility
  * Helper functions for generating CSV exports
@@ -100,3 +103,88 @@ export function licensesToCSV(licenses: Array<any>): string {
   return arrayToCSV(csvData, headers);
 }
 
+/**
+ * Convert usage report rows to CSV format
+ */
+export function usageReportToCSV(licenses: LicenseUsageSummary[]): string {
+  const headers = [
+    'License ID',
+    'License Key',
+    'Customer Name',
+    'Customer Phone',
+    'Location Name',
+    'Status',
+    'Users',
+    'User Limit',
+    'Devices',
+    'Active Days',
+    'Last Reported',
+    'Transactions',
+    'Transactions / Day',
+    'Invoices Printed',
+    'Invoices / Day',
+    'Peak SKUs Stored',
+  ];
+
+  const csvData = licenses.map((license) => ({
+    'License ID': license.licenseId,
+    'License Key': license.licenseKey,
+    'Customer Name': license.customerName || '',
+    'Customer Phone': license.customerPhone || '',
+    'Location Name': license.locationName || '',
+    Status: license.status,
+    Users: license.userCount,
+    'User Limit': license.userLimit,
+    Devices: license.devices,
+    'Active Days': license.activeDays,
+    'Last Reported': license.lastReportedDate || '',
+    Transactions: license.usage.transactions,
+    'Transactions / Day': license.dailyAverage.transactions ?? '',
+    'Invoices Printed': license.usage.invoices_printed,
+    'Invoices / Day': license.dailyAverage.invoices_printed ?? '',
+    'Peak SKUs Stored': license.usage.skus_stored,
+  }));
+
+  return arrayToCSV(csvData, headers);
+}
+
+/**
+ * Convert audit events to CSV format
+ */
+export function auditEventsToCSV(events: AuditEventRecord[]): string {
+  const headers = [
+    'ID',
+    'Timestamp',
+    'Actor Type',
+    'Actor ID',
+    'Action',
+    'Entity Type',
+    'Entity ID',
+    'Changes',
+    'Metadata',
+    'IP Address',
+    'User Agent',
+    'Request ID',
+    'Previous Hash',
+    'Hash',
+  ];
+
+  const csvData = events.map((event) => ({
+    ID: event.id,
+    Timestamp: event.createdAt.toISOString(),
+    'Actor Type': event.actorType,
+    'Actor ID': event.actorId || '',
+    Action: event.action,
+    'Entity Type': event.entityType,
+    'Entity ID': event.entityId || '',
+    Changes: event.changes ? JSON.stringify(event.changes) : '',
+    Metadata: event.metadata ? JSON.stringify(event.metadata) : '',
+    'IP Address': event.ipAddress || '',
+    'User Agent': event.userAgent || '',
+    'Request ID': event.requestId || '',
+    'Previous Hash': event.prevHash || '',
+    Hash: event.hash,
+  }));
+
+  return arrayToCSV(csvData, headers);
+}
@@ -39,6 +39,11 @@ interface SystemMetrics {
     seconds: number;
     formatted: string;
   };
+  deviceCap: {
+    rejectedActivations: number; // Activations refused because the license hit its device limit
+    licensesAtCap: number; // Distinct licenses that hit their device limit
+    lastRejectionTime?: Date;
+  };
 }
 
 class MetricsCollector {
@@ -49,6 +54,9 @@ class MetricsCollector {
   private requestsByMethod: { [method: string]: number } = {};
   private endpointMetrics: EndpointMetrics = {};
   private responseTimes: number[] = [];
+  private deviceCapRejections: number = 0;
+  private licensesAtDeviceCap: Set<number> = new Set();
+  private lastDeviceCapRejection?: Date;
 
   constructor() {
     this.startTime = new Date();
@@ -101,6 +109,15 @@ class MetricsCollector {
     }
   }
 
+  /**
+   * Record an activation refused because the license reached its device limit
+   */
+  recordDeviceCapReached(licenseId: number): void {
+    this.deviceCapRejections++;
+    this.licensesAtDeviceCap.add(licenseId);
+    this.lastDeviceCapRejection = new Date();
+  }
+
   /**
    * Normalize path for metrics (remove IDs, etc.)
    */
@@ -160,6 +177,11 @@ class MetricsCollector {
         seconds: Math.floor(uptime),
         formatted: this.formatUptime(uptime),
       },
+      deviceCap: {
+        rejectedActivations: this.deviceCapRejections,
+        licensesAtCap: this.licensesAtDeviceCap.size,
+        lastRejectionTime: this.lastDeviceCapRejection,
+      },
     };
   }
 
@@ -211,6 +233,9 @@ class MetricsCollector {
     this.requestsByMethod = {};
     this.endpointMetrics = {};
     this.responseTimes = [];
+    this.deviceCapRejections = 0;
+    this.licensesAtDeviceCap = new Set();
+    this.lastDeviceCapRejection = undefined;
   }
 }
 
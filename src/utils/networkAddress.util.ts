@@ -0,0 +1,41 @@
+import net from 'net';
+
+/**
+ * Network Address Utility
+ * Recognizes addresses that reach this host or its internal network rather than the public internet,
+ * so outbound requests to admin-supplied URLs cannot be pointed at internal services.
+ */
+
+const privateRanges = new net.BlockList();
+privateRanges.addSubnet('0.0.0.0', 8, 'ipv4'); // "This" network
+privateRanges.addSubnet('10.0.0.0', 8, 'ipv4'); // RFC 1918
+privateRanges.addSubnet('100.64.0.0', 10, 'ipv4'); // Carrier-grade NAT
+privateRanges.addSubnet('127.0.0.0', 8, 'ipv4'); // Loopback
+privateRanges.addSubnet('169.254.0.0', 16, 'ipv4'); // Link-local (includes cloud metadata services)
+privateRanges.addSubnet('172.16.0.0', 12, 'ipv4'); // RFC 1918
+privateRanges.addSubnet('192.168.0.0', 16, 'ipv4'); // RFC 1918
+privateRanges.addSubnet('224.0.0.0', 3, 'ipv4'); // Multicast and reserved
+privateRanges.addAddress('::', 'ipv6'); // Unspecified
+privateRanges.addAddress('::1', 'ipv6'); // Loopback
+privateRanges.addSubnet('fc00::', 7, 'ipv6'); // Unique local
+privateRanges.addSubnet('fe80::', 10, 'ipv6'); // Link-local
+privateRanges.addSubnet('ff00::', 8, 'ipv6'); // Multicast
+
+/**
+ * Check whether an IP address is loopback, private, link-local or otherwise not publicly routable
+ * IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked as the IPv4 address they map to
+ * @param address IPv4 or IPv6 address
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return privateRanges.check(mapped[1], 'ipv4');
+  }
+
+  const family = net.isIP(address);
+  if (family === 0) {
+    return false;
+  }
+
+  return privateRanges.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
@@ -0,0 +1,157 @@
+/**
+ * Minimal PDF writer for simple text documents (invoices, receipts)
+ *
+ * Produces a PDF 1.4 file on A4 pages using the built-in Helvetica fonts, so no font files or
+ * rendering engine are needed. Text is laid out in rows of positioned cells; rows flow onto new pages.
+ * Characters outside the Windows-1252 code page are replaced with "?".
+ */
+
+export interface PdfCell {
+  text: string;
+  x: number; // Points from the left edge; the right edge of the text when align = 'right'
+  align?: 'left' | 'right';
+  bold?: boolean;
+}
+
+export interface PdfRow {
+  cells: PdfCell[];
+  size?: number; // Font size in points (default 10)
+  spaceBefore?: number; // Extra points above the row
+  ruleAfter?: boolean; // Draw a horizontal line under the row
+}
+
+export const PDF_PAGE = {
+  width: 595,
+  height: 842,
+  margin: 50,
+} as const;
+
+// Helvetica glyph widths (per 1000 units) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Windows-1252 code points for the characters that differ from Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+function toWinAnsi(text: string): number[] {
+  const codes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 63;
+    if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      codes.push(WIN_ANSI_EXTRAS[char]);
+    } else if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+      codes.push(code);
+    } else {
+      codes.push(63); // ?
+    }
+  }
+  return codes;
+}
+
+/**
+ * Approximate width of a text in points (exact for ASCII in regular Helvetica)
+ */
+export function measurePdfText(text: string, size: number, bold = false): number {
+  const units = toWinAnsi(text).reduce(
+    (sum, code) => sum + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556),
+    0
+  );
+  return (units * size * (bold ? 1.05 : 1)) / 1000;
+}
+
+function encodeString(text: string): string {
+  return toWinAnsi(text)
+    .map((code) => {
+      const char = String.fromCharCode(code);
+      return char === '(' || char === ')' || char === '\\' ? `\\${char}` : char;
+    })
+    .join('');
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+/**
+ * Render rows of text as a PDF document
+ */
+export function renderPdf(rows: PdfRow[], info: { title?: string } = {}): Buffer {
+  const pages: string[] = [];
+  let content: string[] = [];
+  let y = PDF_PAGE.height - PDF_PAGE.margin;
+
+  for (const row of rows) {
+    const size = row.size ?? 10;
+    const lineHeight = size * 1.4;
+    const advance = lineHeight + (row.spaceBefore ?? 0);
+
+    if (y - advance < PDF_PAGE.margin && content.length > 0) {
+      pages.push(content.join('\n'));
+      content = [];
+      y = PDF_PAGE.height - PDF_PAGE.margin;
+    } else {
+      y -= row.spaceBefore ?? 0;
+    }
+    y -= lineHeight;
+
+    for (const cell of row.cells) {
+      if (!cell.text) {
+        continue;
+      }
+      const x = cell.align === 'right' ? cell.x - measurePdfText(cell.text, size, cell.bold) : cell.x;
+      content.push(
+        `BT /${cell.bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${formatNumber(x)} ${formatNumber(y)} Td (${encodeString(cell.text)}) Tj ET`
+      );
+    }
+
+    if (row.ruleAfter) {
+      const ruleY = y - size * 0.45;
+      content.push(
+        `0.5 w ${PDF_PAGE.margin} ${formatNumber(ruleY)} m ${PDF_PAGE.width - PDF_PAGE.margin} ${formatNumber(ruleY)} l S`
+      );
+    }
+  }
+  pages.push(content.join('\n'));
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] = `<< /Producer (DigitalizePOS License Server)${info.title ? ` /Title (${encodeString(info.title)})` : ''} >>`;
+
+  pages.forEach((stream, index) => {
+    const pageId = pageIds[index];
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE.width} ${PDF_PAGE.height}] `
+      + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(output, 'latin1');
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
@@ -0,0 +1,30 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Request Context Utility
+ * Carries per-request metadata (request ID, client IP, authenticated admin) through async calls,
+ * so services can attribute audit events without threading the request through every signature
+ */
+export interface RequestContext {
+  requestId: string;
+  ipAddress?: string;
+  userAgent?: string;
+  adminId?: number; // Set by authenticateAdmin once the token is verified
+  apiKeyId?: number; // Set instead of adminId for requests authenticated with an API key
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function with the given request context
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Get the context of the current request (undefined outside of a request, e.g. in scheduled jobs)
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+
+/**
+ * Webhook Signature Utility
+ * HMAC-SHA256 signatures for outbound webhook payloads, in the form `t=<unix seconds>,v1=<hex digest>`
+ * where the digest covers `<t>.<raw body>`. Receivers verify with the endpoint's secret.
+ */
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-DigitalizePOS-Signature';
+
+/**
+ * Build the signature header value for a payload
+ * @param secret Endpoint signing secret
+ * @param body Raw JSON body exactly as sent
+ * @param timestamp Unix time in seconds (defaults to now)
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Verify a signature header against a raw body
+ * @param toleranceSeconds Maximum age of the signature timestamp, to limit replays
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds: number = 300,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = new Map(
+    header.split(',').map((part) => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')] as [string, string];
+    })
+  );
+
+  const timestamp = parseInt(parts.get('t') || '', 10);
+  const signature = parts.get('v1');
+  if (isNaN(timestamp) || !signature || Math.abs(now - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = signWebhookPayload(secret, body, timestamp).split('v1=')[1];
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  const signatureBuffer = Buffer.from(signature, 'hex');
+
+  return expectedBuffer.length === signatureBuffer.length && crypto.timingSafeEqual(expectedBuffer, signatureBuffer);
+}